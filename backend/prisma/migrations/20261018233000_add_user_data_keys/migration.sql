@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "user_data_keys" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "wrappedKey" TEXT NOT NULL,
+    "wrapIv" TEXT NOT NULL,
+    "wrapTag" TEXT NOT NULL,
+    "masterKeyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_data_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "journal_entries" ADD COLUMN     "dataKeyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "entry_insights" ADD COLUMN     "encryptionVersion" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "dataKeyId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_data_keys_userId_version_key" ON "user_data_keys"("userId", "version");
+
+-- AddForeignKey
+ALTER TABLE "user_data_keys" ADD CONSTRAINT "user_data_keys_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_dataKeyId_fkey" FOREIGN KEY ("dataKeyId") REFERENCES "user_data_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entry_insights" ADD CONSTRAINT "entry_insights_dataKeyId_fkey" FOREIGN KEY ("dataKeyId") REFERENCES "user_data_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "key_rotations" (
+    "id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "masterKeyId" TEXT NOT NULL,
+    "requestedBy" TEXT,
+    "userCursor" TEXT,
+    "usersTotal" INTEGER NOT NULL DEFAULT 0,
+    "usersProcessed" INTEGER NOT NULL DEFAULT 0,
+    "entriesReencrypted" INTEGER NOT NULL DEFAULT 0,
+    "insightsReencrypted" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "key_rotations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "key_rotations_status_idx" ON "key_rotations"("status");
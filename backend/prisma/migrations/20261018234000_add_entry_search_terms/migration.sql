@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "entry_search_terms" (
+    "entryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "termHash" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL,
+
+    CONSTRAINT "entry_search_terms_pkey" PRIMARY KEY ("entryId","termHash")
+);
+
+-- CreateIndex
+CREATE INDEX "entry_search_terms_userId_termHash_idx" ON "entry_search_terms"("userId", "termHash");
+
+-- AddForeignKey
+ALTER TABLE "entry_search_terms" ADD CONSTRAINT "entry_search_terms_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
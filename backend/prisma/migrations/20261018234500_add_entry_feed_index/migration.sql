@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "journal_entries_userId_createdAt_id_idx" ON "journal_entries"("userId", "createdAt", "id");
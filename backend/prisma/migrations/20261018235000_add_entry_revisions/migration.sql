@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "entry_revisions" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "titleIv" TEXT,
+    "titleTag" TEXT,
+    "content" TEXT NOT NULL,
+    "contentIv" TEXT,
+    "contentTag" TEXT,
+    "encryptionVersion" INTEGER NOT NULL DEFAULT 2,
+    "dataKeyId" TEXT,
+    "mood" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "savedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "entry_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "key_rotations" ADD COLUMN "revisionsReencrypted" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entry_revisions_entryId_revision_key" ON "entry_revisions"("entryId", "revision");
+
+-- CreateIndex
+CREATE INDEX "entry_revisions_userId_idx" ON "entry_revisions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "entry_revisions" ADD CONSTRAINT "entry_revisions_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entry_revisions" ADD CONSTRAINT "entry_revisions_dataKeyId_fkey" FOREIGN KEY ("dataKeyId") REFERENCES "user_data_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "journal_entries" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "journal_entries_deletedAt_idx" ON "journal_entries"("deletedAt");
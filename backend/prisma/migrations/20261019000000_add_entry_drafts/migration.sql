@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "EntryStatus" AS ENUM ('DRAFT', 'PUBLISHED');
+
+-- AlterTable
+ALTER TABLE "journal_entries" ADD COLUMN "status" "EntryStatus" NOT NULL DEFAULT 'PUBLISHED';
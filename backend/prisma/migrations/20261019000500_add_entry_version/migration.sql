@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "journal_entries" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "custom_moods" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "emoji" TEXT,
+    "baseMood" TEXT NOT NULL,
+    "valence" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_moods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "entry_emotions" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "mood" TEXT NOT NULL,
+    "customMoodId" TEXT,
+    "intensity" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "entry_emotions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_moods_userId_label_key" ON "custom_moods"("userId", "label");
+
+-- CreateIndex
+CREATE INDEX "entry_emotions_entryId_idx" ON "entry_emotions"("entryId");
+
+-- CreateIndex
+CREATE INDEX "entry_emotions_mood_idx" ON "entry_emotions"("mood");
+
+-- AddForeignKey
+ALTER TABLE "custom_moods" ADD CONSTRAINT "custom_moods_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entry_emotions" ADD CONSTRAINT "entry_emotions_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entry_emotions" ADD CONSTRAINT "entry_emotions_customMoodId_fkey" FOREIGN KEY ("customMoodId") REFERENCES "custom_moods"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Give entries that already have a mood that mood as their only emotion, at its usual intensity
+INSERT INTO "entry_emotions" ("id", "entryId", "mood", "intensity")
+SELECT gen_random_uuid()::text, "id", "mood",
+    CASE "mood"
+        WHEN 'happy' THEN 0.6
+        WHEN 'excited' THEN 0.9
+        WHEN 'calm' THEN 0.2
+        WHEN 'neutral' THEN 0.3
+        WHEN 'tired' THEN 0.1
+        WHEN 'sad' THEN 0.4
+        WHEN 'anxious' THEN 0.8
+        WHEN 'angry' THEN 0.9
+        ELSE 0.5
+    END
+FROM "journal_entries"
+WHERE "mood" IS NOT NULL;
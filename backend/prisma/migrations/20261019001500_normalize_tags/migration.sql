@@ -0,0 +1,21 @@
+-- Normalize existing tags the way new ones are stored: trimmed, lowercase, single spaces,
+-- without empty tags or duplicates. The first occurrence of each tag keeps its place.
+WITH "normalized" AS (
+    SELECT "e"."id", ARRAY(
+        SELECT "n"."tag"
+        FROM (
+            SELECT lower(regexp_replace(btrim("t"."tag"), '\s+', ' ', 'g')) AS "tag", min("t"."position") AS "position"
+            FROM unnest("e"."tags") WITH ORDINALITY AS "t"("tag", "position")
+            GROUP BY 1
+        ) AS "n"
+        WHERE "n"."tag" <> ''
+        ORDER BY "n"."position"
+    ) AS "tags"
+    FROM "journal_entries" AS "e"
+)
+UPDATE "journal_entries"
+SET "tags" = "normalized"."tags",
+    "version" = "journal_entries"."version" + 1
+FROM "normalized"
+WHERE "journal_entries"."id" = "normalized"."id"
+  AND "journal_entries"."tags" IS DISTINCT FROM "normalized"."tags";
@@ -0,0 +1,88 @@
+-- CreateTable
+CREATE TABLE "journal_templates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "sections" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "journal_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "journal_entries" ADD COLUMN     "templateId" TEXT,
+ADD COLUMN     "fields" TEXT,
+ADD COLUMN     "fieldsIv" TEXT,
+ADD COLUMN     "fieldsTag" TEXT;
+
+-- AlterTable
+ALTER TABLE "entry_revisions" ADD COLUMN     "fields" TEXT,
+ADD COLUMN     "fieldsIv" TEXT,
+ADD COLUMN     "fieldsTag" TEXT;
+
+-- CreateIndex
+CREATE INDEX "journal_templates_userId_idx" ON "journal_templates"("userId");
+
+-- AddForeignKey
+ALTER TABLE "journal_templates" ADD CONSTRAINT "journal_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "journal_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the global templates; admins can change them afterwards
+INSERT INTO "journal_templates" ("id", "userId", "name", "description", "sections", "updatedAt") VALUES
+(
+    'template_cbt_thought_record',
+    NULL,
+    'CBT thought record',
+    'Untangle a difficult moment by separating what happened from what you thought about it.',
+    '[
+        {"key": "situation", "label": "Situation", "type": "text", "prompt": "What happened? Where were you, and who were you with?"},
+        {"key": "feelings", "label": "Feelings", "type": "text", "prompt": "What did you feel, and how strongly?"},
+        {"key": "automatic_thoughts", "label": "Automatic thoughts", "type": "list", "prompt": "What went through your mind?"},
+        {"key": "evidence_for", "label": "Evidence for", "type": "list", "prompt": "What supports the thought?"},
+        {"key": "evidence_against", "label": "Evidence against", "type": "list", "prompt": "What doesn''t fit with it?"},
+        {"key": "balanced_thought", "label": "Balanced thought", "type": "text", "prompt": "What is a fairer way to see the situation?"},
+        {"key": "belief", "label": "Belief in the original thought", "type": "rating", "prompt": "How much do you believe the original thought now?"}
+    ]'::jsonb,
+    CURRENT_TIMESTAMP
+),
+(
+    'template_gratitude_list',
+    NULL,
+    'Gratitude list',
+    'Notice the good things, big or small.',
+    '[
+        {"key": "grateful_for", "label": "Grateful for", "type": "list", "prompt": "Three things you''re grateful for today"},
+        {"key": "why", "label": "Why they matter", "type": "text", "prompt": "Why do they matter to you?"}
+    ]'::jsonb,
+    CURRENT_TIMESTAMP
+),
+(
+    'template_daily_check_in',
+    NULL,
+    'Daily check-in',
+    'A quick look at how you are doing today.',
+    '[
+        {"key": "energy", "label": "Energy", "type": "rating", "prompt": "How is your energy?"},
+        {"key": "sleep", "label": "Sleep", "type": "rating", "prompt": "How well did you sleep?"},
+        {"key": "on_my_mind", "label": "On my mind", "type": "text", "prompt": "What''s on your mind?"},
+        {"key": "intention", "label": "Intention", "type": "text", "prompt": "One intention for today"}
+    ]'::jsonb,
+    CURRENT_TIMESTAMP
+),
+(
+    'template_evening_review',
+    NULL,
+    'Evening review',
+    'Look back on the day before you rest.',
+    '[
+        {"key": "went_well", "label": "What went well", "type": "list", "prompt": "What went well today?"},
+        {"key": "hard", "label": "What was hard", "type": "text", "prompt": "What was difficult, and how did you handle it?"},
+        {"key": "learned", "label": "What I learned", "type": "text", "prompt": "What did today teach you?"},
+        {"key": "tomorrow", "label": "For tomorrow", "type": "list", "prompt": "What will you carry into tomorrow?"}
+    ]'::jsonb,
+    CURRENT_TIMESTAMP
+);
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "key_rotations" ADD COLUMN "attachmentsReencrypted" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "entry_attachments" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileNameIv" TEXT NOT NULL,
+    "fileNameTag" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "thumbnailKey" TEXT,
+    "fileKey" TEXT NOT NULL,
+    "fileKeyIv" TEXT NOT NULL,
+    "fileKeyTag" TEXT NOT NULL,
+    "fileIv" TEXT NOT NULL,
+    "thumbnailIv" TEXT,
+    "dataKeyId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "entry_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entry_attachments_storageKey_key" ON "entry_attachments"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "entry_attachments_entryId_idx" ON "entry_attachments"("entryId");
+
+-- CreateIndex
+CREATE INDEX "entry_attachments_userId_idx" ON "entry_attachments"("userId");
+
+-- AddForeignKey
+ALTER TABLE "entry_attachments" ADD CONSTRAINT "entry_attachments_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entry_attachments" ADD CONSTRAINT "entry_attachments_dataKeyId_fkey" FOREIGN KEY ("dataKeyId") REFERENCES "user_data_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
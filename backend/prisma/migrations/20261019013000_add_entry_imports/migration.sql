@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "entry_imports" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "storageKey" TEXT,
+    "fileKey" TEXT,
+    "fileKeyIv" TEXT,
+    "fileKeyTag" TEXT,
+    "fileIv" TEXT,
+    "report" TEXT,
+    "reportIv" TEXT,
+    "reportTag" TEXT,
+    "dataKeyId" TEXT,
+    "rowsTotal" INTEGER NOT NULL DEFAULT 0,
+    "rowsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "imported" INTEGER NOT NULL DEFAULT 0,
+    "duplicates" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "entry_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entry_imports_storageKey_key" ON "entry_imports"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "entry_imports_userId_createdAt_idx" ON "entry_imports"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "entry_imports" ADD CONSTRAINT "entry_imports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "entry_imports" ADD CONSTRAINT "entry_imports_dataKeyId_fkey" FOREIGN KEY ("dataKeyId") REFERENCES "user_data_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Rebuild the search index of every journal entry
+ *
+ * Usage: npm run search:reindex
+ *
+ * Entries are indexed when they are created or edited, so this is only needed for entries
+ * written before search was introduced, or after SEARCH_INDEX_KEY (or ENCRYPTION_KEY, when
+ * SEARCH_INDEX_KEY is not set) changes, which makes every existing index term unmatchable.
+ * Safe to run while the API is serving requests, and to rerun if interrupted.
+ */
+
+const BATCH_SIZE = 100;
+
+async function rebuildSearchIndex(): Promise<void> {
+  // Imported after dotenv so the repository's Prisma client sees DATABASE_URL
+  const { default: EntryRepository } = await import('../src/repositories/EntryRepository.js');
+
+  let afterId: string | null = null;
+  let reindexed = 0;
+
+  do {
+    const batch: { count: number; lastId: string | null } = await EntryRepository.reindexBatch(afterId, BATCH_SIZE);
+    reindexed += batch.count;
+    afterId = batch.lastId;
+    if (batch.count > 0) {
+      console.log(`Reindexed ${reindexed} entries`);
+    }
+  } while (afterId);
+
+  console.log(`Reindexed ${reindexed} entries in total.`);
+}
+
+rebuildSearchIndex()
+  .then(() => {
+    console.log('Search index rebuild complete.');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Search index rebuild failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,73 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Rotate every user's data key and re-encrypt their entries, insights and attachments with it
+ *
+ * Usage: npm run keys:rotate -- [--dry-run] [--resume [rotation-id]]
+ *
+ * Runs the rotation in this process instead of the worker. To rotate the master key, put the
+ * new key first in MASTER_KEYS (keeping the old one listed), restart the API, then run this;
+ * the old key can be removed once the rotation completes. Rows still stored in plaintext or
+ * with the global ENCRYPTION_KEY are moved to per-user keys along the way. Attached files
+ * stay as they are stored; only the keys they are encrypted with are re-encrypted.
+ *
+ * --dry-run decrypts every entry, insight and attachment key without writing anything, to
+ * find data that could not be rotated. --resume continues an interrupted rotation from its
+ * last checkpoint: the given one, or the newest that has not completed.
+ */
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index === -1 ? undefined : process.argv[index + 1];
+  return value && !value.startsWith('--') ? value : undefined;
+}
+
+async function rotateDataKeys(): Promise<void> {
+  // Imported after dotenv so the repositories' Prisma clients see DATABASE_URL
+  const { default: KeyRotationService } = await import('../src/services/KeyRotationService.js');
+  const { default: KeyRotationRepository } = await import('../src/repositories/KeyRotationRepository.js');
+
+  let rotationId: string;
+
+  if (process.argv.includes('--resume')) {
+    const rotation = readOption('resume')
+      ? await KeyRotationRepository.findById(readOption('resume') as string)
+      : await KeyRotationRepository.findUnfinished();
+    if (!rotation) {
+      throw new Error('No key rotation to resume');
+    }
+    rotationId = rotation.id;
+    console.log(`Resuming key rotation ${rotationId} after ${rotation.usersProcessed} users`);
+  } else {
+    const rotation = await KeyRotationService.createRotation({ dryRun: process.argv.includes('--dry-run') });
+    rotationId = rotation.id;
+    console.log(`Started ${rotation.dryRun ? 'dry run of ' : ''}key rotation ${rotationId} for ${rotation.usersTotal} users`);
+  }
+
+  let reported = -1;
+  const result = await KeyRotationService.runRotation(rotationId, (progress) => {
+    if (progress.percentComplete !== reported) {
+      reported = progress.percentComplete;
+      console.log(`${progress.percentComplete}% (${progress.usersProcessed}/${progress.usersTotal} users)`);
+    }
+  });
+
+  console.log(
+    `${result.dryRun ? 'Would re-encrypt' : 'Re-encrypted'} ${result.entriesReencrypted} entries, ` +
+    `${result.revisionsReencrypted} entry revisions, ${result.insightsReencrypted} insights and ` +
+    `${result.attachmentsReencrypted} attachments ` +
+    `for ${result.usersProcessed} users.`
+  );
+}
+
+rotateDataKeys()
+  .then(() => {
+    console.log('Key rotation complete.');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Key rotation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,67 @@
+import dotenv from 'dotenv';
+import {
+  JWT_ALGORITHMS,
+  JwtAlgorithm,
+  generateJwtKey,
+  loadJwtKeys,
+  removeJwtKey,
+  writeJwtKey,
+} from '../src/utils/jwtKeys.js';
+
+dotenv.config();
+
+/**
+ * Rotate the JWT signing keys
+ *
+ * Usage: npm run jwt:rotate -- [--alg RS256|EdDSA] [--retire-after-days 14]
+ *
+ * Adds a new signing key to JWT_KEYS_DIR. Running servers pick it up within a minute and start
+ * signing with it a minute later; older keys keep verifying the tokens they already signed.
+ * Keys whose successor was created more than --retire-after-days ago are deleted. That period
+ * must be longer than the refresh token lifetime, or users are signed out when their key goes.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETIRE_AFTER_DAYS = 14;
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function rotateJwtKeys(): void {
+  const dir = process.env.JWT_KEYS_DIR || 'keys/jwt';
+
+  const alg = (readOption('alg') || process.env.JWT_KEY_ALGORITHM || 'RS256') as JwtAlgorithm;
+  if (!JWT_ALGORITHMS.includes(alg)) {
+    throw new Error(`Unsupported algorithm ${alg}. Must be one of: ${JWT_ALGORITHMS.join(', ')}`);
+  }
+
+  const retireAfterDays = Number(readOption('retire-after-days') ?? DEFAULT_RETIRE_AFTER_DAYS);
+  if (!Number.isFinite(retireAfterDays) || retireAfterDays < 0) {
+    throw new Error('--retire-after-days must be a non-negative number');
+  }
+
+  const key = generateJwtKey(alg);
+  const file = writeJwtKey(dir, key);
+  console.log(`Created ${alg} key ${key.kid} at ${file}`);
+
+  const keys = loadJwtKeys(dir);
+  const now = Date.now();
+
+  keys.slice(0, -1).forEach((oldKey, index) => {
+    const successor = keys[index + 1];
+    if (now - successor.createdAt.getTime() > retireAfterDays * DAY_MS) {
+      removeJwtKey(dir, oldKey.kid);
+      console.log(`Retired key ${oldKey.kid}`);
+    }
+  });
+}
+
+try {
+  rotateJwtKeys();
+  console.log('JWT key rotation complete.');
+} catch (error) {
+  console.error('JWT key rotation failed:', error);
+  process.exit(1);
+}
@@ -1,4 +1,5 @@
 import swaggerJsdoc from 'swagger-jsdoc';
+import { MOOD_IDS } from '../utils/moods.js';
 
 const options = {
   definition: {
@@ -24,7 +25,7 @@ const options = {
           type: 'http',
           scheme: 'bearer',
           bearerFormat: 'JWT',
-          description: 'JWT access token for authentication',
+          description: 'JWT access token, or a personal access token (mcp_...) limited to its scopes',
         },
       },
       schemas: {
@@ -45,6 +46,10 @@ const options = {
               type: 'string',
               description: 'User full name',
             },
+            emailVerified: {
+              type: 'boolean',
+              description: 'Whether the user has confirmed their email address',
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -82,7 +87,13 @@ const options = {
             mood: {
               type: 'string',
               nullable: true,
-              description: 'Mood associated with the entry',
+              enum: [...MOOD_IDS],
+              description: 'Base emotion of the strongest of the entry\'s emotions, from GET /api/v1/moods',
+            },
+            emotions: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/EntryEmotion' },
+              description: 'Every emotion felt, strongest first. Send these instead of mood to record several.',
             },
             tags: {
               type: 'array',
@@ -92,6 +103,27 @@ const options = {
               nullable: true,
               description: 'Tags associated with the entry',
             },
+            templateId: {
+              type: 'string',
+              nullable: true,
+              description: 'The template the entry was written from, if it still exists',
+            },
+            fields: {
+              type: 'array',
+              nullable: true,
+              items: { $ref: '#/components/schemas/EntryField' },
+              description: 'The answers to the template\'s sections, encrypted like content',
+            },
+            status: {
+              type: 'string',
+              enum: ['DRAFT', 'PUBLISHED'],
+              description: 'Drafts are autosaved while being written and left out of analytics until published',
+            },
+            version: {
+              type: 'integer',
+              description: 'Incremented on every edit; also sent as the ETag header',
+              example: 3,
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -105,6 +137,90 @@ const options = {
           },
           required: ['id', 'userId', 'title', 'content', 'createdAt', 'updatedAt'],
         },
+        EntryRevision: {
+          type: 'object',
+          description: 'An earlier version of a journal entry, saved when the entry was changed',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Unique revision identifier',
+            },
+            entryId: {
+              type: 'string',
+              description: 'The entry this is a version of',
+            },
+            revision: {
+              type: 'integer',
+              description: 'Revision number, counting up from 1 per entry',
+            },
+            title: {
+              type: 'string',
+            },
+            content: {
+              type: 'string',
+            },
+            mood: {
+              type: 'string',
+              nullable: true,
+            },
+            tags: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+            },
+            savedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When this version was saved, before it was replaced',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When this version was replaced',
+            },
+          },
+          required: ['id', 'entryId', 'revision', 'title', 'content', 'tags', 'savedAt', 'createdAt'],
+        },
+        DiffPart: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['equal', 'insert', 'delete'],
+            },
+            text: {
+              type: 'string',
+            },
+          },
+          required: ['type', 'text'],
+        },
+        EntryRevisionDiff: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'integer',
+              description: 'The earlier revision number',
+            },
+            to: {
+              oneOf: [{ type: 'integer' }, { type: 'string', enum: ['current'] }],
+              description: 'The later revision number, or current for the entry as it is now',
+            },
+            title: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/DiffPart',
+              },
+            },
+            content: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/DiffPart',
+              },
+            },
+          },
+          required: ['from', 'to', 'title', 'content'],
+        },
         AuthResponse: {
           type: 'object',
           properties: {
@@ -151,6 +267,252 @@ const options = {
           },
           required: ['data', 'total', 'page', 'limit', 'totalPages'],
         },
+        MoodDefinition: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: 'calm' },
+            label: { type: 'string', example: 'Calm' },
+            emoji: { type: 'string', example: '😌' },
+            valence: {
+              type: 'number',
+              minimum: -1,
+              maximum: 1,
+              description: 'How pleasant the mood is, from -1 (most unpleasant) to 1 (most pleasant)',
+              example: 0.6,
+            },
+            intensity: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              description: 'How much energy the mood carries, from 0 (lowest) to 1 (highest)',
+              example: 0.2,
+            },
+          },
+          required: ['id', 'label', 'emoji', 'valence', 'intensity'],
+        },
+        CustomMood: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            label: { type: 'string', example: 'Homesick' },
+            emoji: { type: 'string', nullable: true, example: '🏠' },
+            baseMood: {
+              type: 'string',
+              enum: [...MOOD_IDS],
+              description: 'The mood in the vocabulary this custom mood is counted as',
+              example: 'sad',
+            },
+            valence: {
+              type: 'number',
+              minimum: -1,
+              maximum: 1,
+              description: 'How pleasant the mood is; defaults to the base mood\'s valence',
+              example: -0.4,
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', 'label', 'emoji', 'baseMood', 'valence', 'createdAt', 'updatedAt'],
+        },
+        EntryEmotion: {
+          type: 'object',
+          properties: {
+            mood: {
+              type: 'string',
+              enum: [...MOOD_IDS],
+              description: 'The base emotion. When sending, give this or customMoodId.',
+              example: 'sad',
+            },
+            customMoodId: {
+              type: 'string',
+              nullable: true,
+              description: 'One of the user\'s custom moods; its base emotion is filled in',
+            },
+            intensity: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              description: 'How strongly it was felt; defaults to the base emotion\'s usual intensity',
+              example: 0.7,
+            },
+          },
+        },
+        TagCount: {
+          type: 'object',
+          properties: {
+            tag: { type: 'string', example: 'work' },
+            count: { type: 'integer', description: 'Entries with the tag', example: 12 },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the latest entry with the tag was written',
+            },
+          },
+          required: ['tag', 'count', 'lastUsedAt'],
+        },
+        TagChangeResult: {
+          type: 'object',
+          properties: {
+            tag: {
+              type: 'string',
+              nullable: true,
+              description: 'The tag the entries now have, or null if it was deleted',
+              example: 'work',
+            },
+            entriesUpdated: { type: 'integer', example: 12 },
+          },
+          required: ['tag', 'entriesUpdated'],
+        },
+        TemplateSection: {
+          type: 'object',
+          properties: {
+            key: {
+              type: 'string',
+              pattern: '^[a-z0-9_]{1,50}$',
+              description: 'Names the section in an entry\'s fields; derived from the label when left out',
+              example: 'evidence_for',
+            },
+            label: { type: 'string', maxLength: 100, example: 'Evidence for the thought' },
+            type: {
+              type: 'string',
+              enum: ['text', 'list', 'rating'],
+              description: 'text is free writing, list is a list of short items and rating is a whole number from 0 to 10',
+            },
+            prompt: { type: 'string', maxLength: 300, nullable: true },
+          },
+          required: ['label', 'type'],
+        },
+        TemplateInput: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', maxLength: 100, example: 'Morning pages' },
+            description: { type: 'string', maxLength: 500, nullable: true },
+            sections: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 20,
+              items: { $ref: '#/components/schemas/TemplateSection' },
+            },
+          },
+          required: ['name', 'sections'],
+        },
+        JournalTemplate: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            userId: {
+              type: 'string',
+              nullable: true,
+              description: 'The owner of a personal template, or null for a global template',
+            },
+            name: { type: 'string', example: 'CBT thought record' },
+            description: { type: 'string', nullable: true },
+            sections: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/TemplateSection' },
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', 'userId', 'name', 'description', 'sections', 'createdAt', 'updatedAt'],
+        },
+        EntryField: {
+          type: 'object',
+          description: 'An answer to a template section, kept with the section\'s label and type so it reads the same after the template changes',
+          properties: {
+            key: { type: 'string', example: 'evidence_for' },
+            label: { type: 'string', example: 'Evidence for the thought' },
+            type: { type: 'string', enum: ['text', 'list', 'rating'] },
+            value: {
+              nullable: true,
+              oneOf: [
+                { type: 'string' },
+                { type: 'array', items: { type: 'string' } },
+                { type: 'integer', minimum: 0, maximum: 10 },
+              ],
+              description: 'A string, a list of strings or a rating, by type; null when left empty',
+            },
+          },
+          required: ['key', 'label', 'type', 'value'],
+        },
+        EntryAttachment: {
+          type: 'object',
+          description: 'A file attached to an entry. The file is stored encrypted and only its owner can download it.',
+          properties: {
+            id: { type: 'string' },
+            entryId: { type: 'string' },
+            fileName: { type: 'string', example: 'drawing.jpg' },
+            contentType: { type: 'string', example: 'image/jpeg' },
+            size: { type: 'integer', description: 'Size of the file in bytes', example: 248031 },
+            hasThumbnail: { type: 'boolean', description: 'Whether a thumbnail can be downloaded (images only)' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', 'entryId', 'fileName', 'contentType', 'size', 'hasThumbnail', 'createdAt'],
+        },
+        PromptCategory: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: 'gratitude' },
+            label: { type: 'string', example: 'Gratitude' },
+          },
+          required: ['id', 'label'],
+        },
+        JournalPrompt: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: 'gratitude-1' },
+            category: { type: 'string', example: 'gratitude' },
+            text: { type: 'string' },
+          },
+          required: ['id', 'category', 'text'],
+        },
+        TrashedEntry: {
+          allOf: [
+            { $ref: '#/components/schemas/JournalEntry' },
+            {
+              type: 'object',
+              properties: {
+                deletedAt: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'When the entry was moved to the trash',
+                },
+                purgeAt: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'When the entry will be permanently deleted',
+                },
+              },
+              required: ['deletedAt', 'purgeAt'],
+            },
+          ],
+        },
+        CursorPaginatedEntries: {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/JournalEntry',
+              },
+              description: 'Array of journal entries',
+            },
+            limit: {
+              type: 'integer',
+              description: 'Number of entries per page',
+            },
+            nextCursor: {
+              type: 'string',
+              nullable: true,
+              description: 'Pass as the cursor parameter to get the next page; null on the last page',
+            },
+            hasMore: {
+              type: 'boolean',
+              description: 'Whether there are more entries after this page',
+            },
+          },
+          required: ['data', 'limit', 'nextCursor', 'hasMore'],
+        },
         ApiResponse: {
           type: 'object',
           properties: {
@@ -183,6 +545,238 @@ const options = {
           },
           required: ['success', 'timestamp'],
         },
+        PersonalAccessToken: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Token ID',
+            },
+            name: {
+              type: 'string',
+              description: 'Name given to the token by its owner',
+            },
+            tokenPrefix: {
+              type: 'string',
+              description: 'First characters of the token, to tell tokens apart',
+              example: 'mcp_3q2xYfKd',
+            },
+            scopes: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['entries:read', 'entries:write', 'export'],
+              },
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        KeyRotation: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Rotation ID',
+            },
+            status: {
+              type: 'string',
+              enum: ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED'],
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Whether data is only decrypted, without being re-encrypted',
+            },
+            masterKeyId: {
+              type: 'string',
+              description: 'Master key the new data keys are wrapped with',
+            },
+            usersTotal: {
+              type: 'integer',
+              description: 'Number of users when the rotation was started',
+            },
+            usersProcessed: {
+              type: 'integer',
+            },
+            entriesReencrypted: {
+              type: 'integer',
+            },
+            insightsReencrypted: {
+              type: 'integer',
+            },
+            revisionsReencrypted: {
+              type: 'integer',
+              description: 'Earlier versions of entries',
+            },
+            attachmentsReencrypted: {
+              type: 'integer',
+              description: 'Attachments whose file keys were re-wrapped; the files themselves are not rewritten',
+            },
+            percentComplete: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 100,
+            },
+            error: {
+              type: 'string',
+              nullable: true,
+              description: 'Why the last attempt failed',
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        EntryImport: {
+          type: 'object',
+          description: 'An import of entries from an uploaded file, with its progress and report',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Import ID',
+            },
+            format: {
+              type: 'string',
+              enum: ['json', 'markdown', 'csv', 'dayone'],
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Whether rows are only checked and previewed, without creating entries',
+            },
+            status: {
+              type: 'string',
+              enum: ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED'],
+            },
+            rowsTotal: {
+              type: 'integer',
+              description: 'Number of entries in the file, once it has been read',
+            },
+            rowsProcessed: {
+              type: 'integer',
+            },
+            imported: {
+              type: 'integer',
+              description: 'Entries created, or that would be created in a dry run',
+            },
+            duplicates: {
+              type: 'integer',
+              description: 'Rows skipped because an entry from the same day with the same text exists',
+            },
+            failed: {
+              type: 'integer',
+              description: 'Rows that could not be imported',
+            },
+            issues: {
+              type: 'array',
+              description: 'Duplicate, failed and warning rows, up to 1000',
+              items: {
+                type: 'object',
+                properties: {
+                  row: {
+                    type: 'integer',
+                    description: 'Position of the entry in the file, from 1; CSV rows do not count the header',
+                  },
+                  file: {
+                    type: 'string',
+                    description: 'The file in the zip the entry came from',
+                  },
+                  type: {
+                    type: 'string',
+                    enum: ['failed', 'duplicate', 'warning'],
+                  },
+                  message: {
+                    type: 'string',
+                  },
+                  entryId: {
+                    type: 'string',
+                    description: 'The entry created from the row, or the existing entry it duplicates',
+                  },
+                },
+              },
+            },
+            preview: {
+              type: 'array',
+              description: 'The first 20 entries a dry run would create',
+              items: {
+                type: 'object',
+                properties: {
+                  row: {
+                    type: 'integer',
+                  },
+                  file: {
+                    type: 'string',
+                  },
+                  title: {
+                    type: 'string',
+                  },
+                  createdAt: {
+                    type: 'string',
+                    format: 'date-time',
+                  },
+                  mood: {
+                    type: 'string',
+                  },
+                  tags: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                    },
+                  },
+                  attachments: {
+                    type: 'integer',
+                  },
+                },
+              },
+            },
+            percentComplete: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 100,
+            },
+            error: {
+              type: 'string',
+              nullable: true,
+              description: 'Why the file could not be imported',
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
         ValidationError: {
           type: 'object',
           properties: {
@@ -213,6 +807,121 @@ const options = {
           },
         },
       },
+      parameters: {
+        EntryPagination: {
+          name: 'pagination',
+          in: 'query',
+          description: 'offset pages with page and a total count; cursor pages with nextCursor, stable while entries are added and without a count. Implied by cursor.',
+          schema: {
+            type: 'string',
+            enum: ['offset', 'cursor'],
+            default: 'offset',
+          },
+        },
+        EntryCursor: {
+          name: 'cursor',
+          in: 'query',
+          description: 'The nextCursor of the previous page, for cursor pagination. Only supported when sorting by createdAt.',
+          schema: {
+            type: 'string',
+          },
+        },
+        EntryMoodFilter: {
+          name: 'mood',
+          in: 'query',
+          description: 'Only entries with one of these moods. Repeat the parameter or separate moods with commas.',
+          schema: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: [...MOOD_IDS],
+            },
+            maxItems: 10,
+          },
+          style: 'form',
+          explode: true,
+        },
+        EntryTagsFilter: {
+          name: 'tags',
+          in: 'query',
+          description: 'Only entries with these tags (see tagMode). Repeat the parameter or separate tags with commas.',
+          schema: {
+            type: 'array',
+            items: {
+              type: 'string',
+              maxLength: 50,
+            },
+            maxItems: 10,
+          },
+          style: 'form',
+          explode: true,
+        },
+        EntryTagModeFilter: {
+          name: 'tagMode',
+          in: 'query',
+          description: 'Whether entries need any of the tags or all of them',
+          schema: {
+            type: 'string',
+            enum: ['any', 'all'],
+            default: 'any',
+          },
+        },
+        EntryFromFilter: {
+          name: 'from',
+          in: 'query',
+          description: 'Only entries created on or after this day (YYYY-MM-DD, in timezone) or instant (ISO 8601 date-time)',
+          schema: {
+            type: 'string',
+            example: '2026-01-01',
+          },
+        },
+        EntryToFilter: {
+          name: 'to',
+          in: 'query',
+          description: 'Only entries created on or before this day (YYYY-MM-DD, in timezone, including the whole day) or instant (ISO 8601 date-time)',
+          schema: {
+            type: 'string',
+            example: '2026-01-31',
+          },
+        },
+        EntryTimezoneFilter: {
+          name: 'timezone',
+          in: 'query',
+          description: 'IANA time zone that from and to days are in',
+          schema: {
+            type: 'string',
+            default: 'UTC',
+            example: 'Europe/London',
+          },
+        },
+        EntryHasInsightFilter: {
+          name: 'hasInsight',
+          in: 'query',
+          description: 'Only entries that have (true) or do not have (false) an AI insight',
+          schema: {
+            type: 'boolean',
+          },
+        },
+        EntryThemeFilter: {
+          name: 'theme',
+          in: 'query',
+          description: 'Only entries whose insight found this theme',
+          schema: {
+            type: 'string',
+            maxLength: 100,
+            example: 'work',
+          },
+        },
+        EntryStatusFilter: {
+          name: 'status',
+          in: 'query',
+          description: 'Only drafts or only published entries',
+          schema: {
+            type: 'string',
+            enum: ['DRAFT', 'PUBLISHED'],
+          },
+        },
+      },
       responses: {
         UnauthorizedError: {
           description: 'Authentication required or invalid token',
@@ -3,8 +3,16 @@ import { UserRole } from '../types/index';
 
 // Mock dependencies
 jest.mock('../repositories/UserRepository.js');
+jest.mock('../utils/audit.js');
+jest.mock('../services/KeyRotationService.js');
+jest.mock('../services/AccountDeletionService.js');
+jest.mock('../services/SessionService.js');
 
 import UserRepository from '../repositories/UserRepository.js';
+import KeyRotationService from '../services/KeyRotationService.js';
+import AccountDeletionService from '../services/AccountDeletionService.js';
+import SessionService from '../services/SessionService.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
 
 describe('AdminController', () => {
     let adminController: AdminController;
@@ -18,6 +26,7 @@ describe('AdminController', () => {
             query: {},
             params: {},
             body: {},
+            get: jest.fn(),
         };
         mockRes = {
             status: jest.fn().mockReturnThis(),
@@ -115,13 +124,16 @@ describe('AdminController', () => {
                 role: UserRole.MEDICAL_PROFESSIONAL,
             };
 
-            (UserRepository.update as jest.Mock).mockResolvedValue(updatedUser);
+            (UserRepository.updateRole as jest.Mock).mockResolvedValue(updatedUser);
 
             await adminController.updateUserRole(mockReq, mockRes);
 
-            expect(UserRepository.update).toHaveBeenCalledWith('user-123', {
-                role: UserRole.MEDICAL_PROFESSIONAL,
-            });
+            expect(UserRepository.updateRole).toHaveBeenCalledWith('user-123', UserRole.MEDICAL_PROFESSIONAL);
+            expect(SessionService.forgetTokenVersion).toHaveBeenCalledWith('user-123');
+            expect(logAuditEvent).toHaveBeenCalledWith(
+                AuditEventType.ROLE_CHANGE,
+                expect.objectContaining({ resourceId: 'user-123', success: true })
+            );
             expect(mockRes.status).toHaveBeenCalledWith(200);
         });
 
@@ -138,12 +150,19 @@ describe('AdminController', () => {
             mockReq.params = { id: 'user-123' };
             mockReq.user = { userId: 'admin-id' };
 
-            (UserRepository.delete as jest.Mock).mockResolvedValue(undefined);
+            const receipt = { receiptId: 'receipt-1', userId: 'user-123', initiatedBy: 'admin' };
+            (AccountDeletionService.deleteAccount as jest.Mock).mockResolvedValue(receipt);
 
             await adminController.deleteUser(mockReq, mockRes);
 
-            expect(UserRepository.delete).toHaveBeenCalledWith('user-123');
+            expect(AccountDeletionService.deleteAccount).toHaveBeenCalledWith(
+                'user-123',
+                expect.objectContaining({ initiatedBy: 'admin', actorId: 'admin-id' })
+            );
             expect(mockRes.status).toHaveBeenCalledWith(200);
+            expect(mockRes.json).toHaveBeenCalledWith(
+                expect.objectContaining({ data: { message: 'User deleted successfully', receipt } })
+            );
         });
 
         it('should prevent self-deletion', async () => {
@@ -151,7 +170,43 @@ describe('AdminController', () => {
             mockReq.user = { userId: 'admin-id' };
 
             await expect(adminController.deleteUser(mockReq, mockRes)).rejects.toThrow();
-            expect(UserRepository.delete).not.toHaveBeenCalled();
+            expect(AccountDeletionService.deleteAccount).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('startKeyRotation', () => {
+        it('should queue a rotation and audit it', async () => {
+            mockReq.body = { dryRun: true };
+            const rotation = { id: 'rotation-1', dryRun: true, masterKeyId: 'k2', percentComplete: 0 };
+
+            (KeyRotationService.startRotation as jest.Mock).mockResolvedValue(rotation);
+
+            await adminController.startKeyRotation(mockReq, mockRes);
+
+            expect(KeyRotationService.startRotation).toHaveBeenCalledWith({ dryRun: true, requestedBy: 'admin-id' });
+            expect(logAuditEvent).toHaveBeenCalledWith(
+                AuditEventType.KEY_ROTATION_STARTED,
+                expect.objectContaining({ resourceId: 'rotation-1', success: true })
+            );
+            expect(mockRes.status).toHaveBeenCalledWith(202);
+        });
+
+        it('should return 409 while another rotation is in progress', async () => {
+            (KeyRotationService.startRotation as jest.Mock).mockRejectedValue(
+                new Error('A key rotation is already in progress')
+            );
+
+            await expect(adminController.startKeyRotation(mockReq, mockRes)).rejects.toMatchObject({ statusCode: 409 });
+        });
+    });
+
+    describe('getKeyRotation', () => {
+        it('should return 404 for an unknown rotation', async () => {
+            mockReq.params = { id: 'missing' };
+
+            (KeyRotationService.getRotation as jest.Mock).mockRejectedValue(new Error('Key rotation not found'));
+
+            await expect(adminController.getKeyRotation(mockReq, mockRes)).rejects.toMatchObject({ statusCode: 404 });
         });
     });
 });
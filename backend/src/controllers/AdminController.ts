@@ -2,10 +2,17 @@ import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
 import {
     ApiError,
+    ConflictError,
+    NotFoundError,
     ValidationError,
 } from '../utils/errors.js';
 import UserRepository from '../repositories/UserRepository.js';
+import KeyRotationService from '../services/KeyRotationService.js';
+import AccountDeletionService from '../services/AccountDeletionService.js';
+import SessionService from '../services/SessionService.js';
+import TemplateService from '../services/TemplateService.js';
 import { UserRole } from '../types/index.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
 
 /**
  * AdminController
@@ -66,7 +73,19 @@ export class AdminController {
                 throw new ValidationError('Invalid role', { role: 'Must be USER, MEDICAL_PROFESSIONAL, or ADMIN' });
             }
 
-            const updatedUser = await UserRepository.update(id, { role });
+            // Also bumps the token version, so the user's current access tokens are rejected
+            // and the next refresh issues tokens carrying the new role
+            const updatedUser = await UserRepository.updateRole(id, role);
+            await SessionService.forgetTokenVersion(id);
+
+            logAuditEvent(AuditEventType.ROLE_CHANGE, {
+                userId: req.user?.userId,
+                ip: req.ip,
+                userAgent: req.get('user-agent'),
+                resourceId: id,
+                success: true,
+                metadata: { role },
+            });
 
             res.status(200).json({
                 success: true,
@@ -99,20 +118,207 @@ export class AdminController {
                 throw new ValidationError('Cannot delete your own account');
             }
 
-            await UserRepository.delete(id);
+            const receipt = await AccountDeletionService.deleteAccount(id, {
+                initiatedBy: 'admin',
+                actorId: req.user?.userId,
+                ip: req.ip,
+                userAgent: req.get('user-agent'),
+            });
 
             res.status(200).json({
                 success: true,
-                data: { message: 'User deleted successfully' },
+                data: { message: 'User deleted successfully', receipt },
                 timestamp: new Date().toISOString(),
             });
         } catch (error) {
             if (error instanceof ApiError) {
                 throw error;
             }
+            if (error instanceof Error && error.message.includes('User not found')) {
+                throw new NotFoundError('User not found');
+            }
             throw new ApiError(500, 'Failed to delete user', 'USER_DELETE_FAILED');
         }
     }
+
+    /**
+     * Start rotating every user's data key
+     * POST /api/v1/admin/key-rotations
+     */
+    async startKeyRotation(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const rotation = await KeyRotationService.startRotation({
+                dryRun: req.body.dryRun === true,
+                requestedBy: req.user?.userId,
+            });
+
+            logAuditEvent(AuditEventType.KEY_ROTATION_STARTED, {
+                userId: req.user?.userId,
+                ip: req.ip,
+                userAgent: req.get('user-agent'),
+                resourceId: rotation.id,
+                success: true,
+                metadata: { dryRun: rotation.dryRun, masterKeyId: rotation.masterKeyId },
+            });
+
+            res.status(202).json({
+                success: true,
+                data: rotation,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('already in progress')) {
+                throw new ConflictError(error.message);
+            }
+            throw new ApiError(500, 'Failed to start key rotation', 'KEY_ROTATION_START_FAILED');
+        }
+    }
+
+    /**
+     * List recent data key rotations
+     * GET /api/v1/admin/key-rotations
+     */
+    async getKeyRotations(_req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const rotations = await KeyRotationService.listRotations();
+
+            res.status(200).json({
+                success: true,
+                data: rotations,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            throw new ApiError(500, 'Failed to fetch key rotations', 'KEY_ROTATIONS_FETCH_FAILED');
+        }
+    }
+
+    /**
+     * Get the progress of a data key rotation
+     * GET /api/v1/admin/key-rotations/:id
+     */
+    async getKeyRotation(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const rotation = await KeyRotationService.getRotation(req.params.id);
+
+            res.status(200).json({
+                success: true,
+                data: rotation,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('not found')) {
+                throw new NotFoundError('Key rotation not found');
+            }
+            throw new ApiError(500, 'Failed to fetch key rotation', 'KEY_ROTATION_FETCH_FAILED');
+        }
+    }
+
+    /**
+     * Create a template offered to every user
+     * POST /api/v1/admin/templates
+     */
+    async createTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const { name, description, sections } = req.body;
+            const template = await TemplateService.createGlobalTemplate({ name, description, sections });
+
+            logAuditEvent(AuditEventType.GLOBAL_TEMPLATE_CHANGED, {
+                userId: req.user?.userId,
+                ip: req.ip,
+                userAgent: req.get('user-agent'),
+                resourceId: template.id,
+                action: 'create',
+                success: true,
+            });
+
+            res.status(201).json({
+                success: true,
+                data: template,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            this.handleTemplateError(error, 'Failed to create template', 'TEMPLATE_CREATE_FAILED');
+        }
+    }
+
+    /**
+     * Update a global template
+     * Entries already written from it keep the sections they were written with
+     * PUT /api/v1/admin/templates/:id
+     */
+    async updateTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+            const { name, description, sections } = req.body;
+            if (name === undefined && description === undefined && sections === undefined) {
+                throw new ValidationError('At least one field must be provided for update');
+            }
+
+            const template = await TemplateService.updateGlobalTemplate(id, { name, description, sections });
+
+            logAuditEvent(AuditEventType.GLOBAL_TEMPLATE_CHANGED, {
+                userId: req.user?.userId,
+                ip: req.ip,
+                userAgent: req.get('user-agent'),
+                resourceId: id,
+                action: 'update',
+                success: true,
+            });
+
+            res.status(200).json({
+                success: true,
+                data: template,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            this.handleTemplateError(error, 'Failed to update template', 'TEMPLATE_UPDATE_FAILED');
+        }
+    }
+
+    /**
+     * Delete a global template
+     * DELETE /api/v1/admin/templates/:id
+     */
+    async deleteTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const { id } = req.params;
+            const deleted = await TemplateService.deleteGlobalTemplate(id);
+            if (!deleted) {
+                throw new NotFoundError('Template not found');
+            }
+
+            logAuditEvent(AuditEventType.GLOBAL_TEMPLATE_CHANGED, {
+                userId: req.user?.userId,
+                ip: req.ip,
+                userAgent: req.get('user-agent'),
+                resourceId: id,
+                action: 'delete',
+                success: true,
+            });
+
+            res.status(204).send();
+        } catch (error) {
+            this.handleTemplateError(error, 'Failed to delete template', 'TEMPLATE_DELETE_FAILED');
+        }
+    }
+
+    /**
+     * Map template service errors to HTTP errors
+     */
+    private handleTemplateError(error: unknown, fallbackMessage: string, code: string): never {
+        if (error instanceof ApiError) {
+            throw error;
+        }
+        if (error instanceof Error) {
+            if (error.message.includes('not found')) {
+                throw new NotFoundError('Template not found');
+            }
+            if (error.message.includes('required') || error.message.includes('must be')) {
+                throw new ValidationError(error.message);
+            }
+        }
+        throw new ApiError(500, fallbackMessage, code);
+    }
 }
 
 export default new AdminController();
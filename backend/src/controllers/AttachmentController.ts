@@ -0,0 +1,208 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+  ApiError,
+  ValidationError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+} from '../utils/errors.js';
+import AttachmentService, { AttachmentDownload } from '../services/AttachmentService.js';
+import logger from '../utils/logger.js';
+
+/**
+ * AttachmentController
+ * Handles files attached to journal entries
+ * - GET /api/v1/entries/:id/attachments
+ * - POST /api/v1/entries/:id/attachments
+ * - GET /api/v1/entries/:id/attachments/:attachmentId
+ * - GET /api/v1/entries/:id/attachments/:attachmentId/thumbnail
+ * - DELETE /api/v1/entries/:id/attachments/:attachmentId
+ */
+
+/**
+ * Build a Content-Disposition header that keeps non-ASCII file names (RFC 6266)
+ */
+function contentDisposition(type: 'attachment' | 'inline', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+export class AttachmentController {
+  /**
+   * Map attachment service errors to HTTP errors
+   */
+  private handleError(error: unknown, fallbackMessage: string, code: string): never {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('limit reached')) {
+        throw new ConflictError(error.message);
+      }
+
+      if (error.message.includes('Entry not found')) {
+        throw new NotFoundError('Entry not found');
+      }
+
+      if (error.message.includes('Thumbnail not found')) {
+        throw new NotFoundError('Thumbnail not found');
+      }
+
+      if (error.message.includes('not found')) {
+        throw new NotFoundError('Attachment not found');
+      }
+
+      if (
+        error.message.includes('required') ||
+        error.message.includes('must be') ||
+        error.message.includes('Invalid')
+      ) {
+        throw new ValidationError(error.message);
+      }
+    }
+
+    throw new ApiError(500, fallbackMessage, code);
+  }
+
+  /**
+   * Stream a decrypted file to the client
+   * The file can only be checked chunk by chunk while it is sent, so a file that fails
+   * to decrypt part way through ends the response early instead of sending altered data
+   */
+  private sendFile(res: Response, download: AttachmentDownload, disposition: 'attachment' | 'inline'): void {
+    res.status(200);
+    res.set({
+      'Content-Type': download.contentType,
+      'Content-Disposition': contentDisposition(disposition, download.attachment.fileName),
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    });
+    if (download.size !== undefined) {
+      res.set('Content-Length', String(download.size));
+    }
+
+    download.stream.on('error', (error) => {
+      logger.error('Failed to stream attachment', {
+        attachmentId: download.attachment.id,
+        error: error.message,
+      });
+      res.destroy(error);
+    });
+    download.stream.pipe(res);
+  }
+
+  /**
+   * List an entry's attachments
+   * GET /api/v1/entries/:id/attachments
+   */
+  async listAttachments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const attachments = await AttachmentService.listAttachments(req.params.id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: attachments,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to retrieve attachments', 'ATTACHMENTS_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Attach a file to an entry
+   * POST /api/v1/entries/:id/attachments (multipart/form-data with a `file` field)
+   */
+  async uploadAttachment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const file = req.file && {
+        originalName: req.file.originalname,
+        contentType: req.file.mimetype,
+        data: req.file.buffer,
+      };
+      const attachment = await AttachmentService.uploadAttachment(req.params.id, req.user.userId, file);
+
+      res.status(201).json({
+        success: true,
+        data: attachment,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to upload attachment', 'ATTACHMENT_UPLOAD_FAILED');
+    }
+  }
+
+  /**
+   * Download an attachment
+   * GET /api/v1/entries/:id/attachments/:attachmentId
+   */
+  async downloadAttachment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const download = await AttachmentService.openAttachment(
+        req.params.id,
+        req.params.attachmentId,
+        req.user.userId
+      );
+      this.sendFile(res, download, 'attachment');
+    } catch (error) {
+      this.handleError(error, 'Failed to download attachment', 'ATTACHMENT_DOWNLOAD_FAILED');
+    }
+  }
+
+  /**
+   * Download the thumbnail of an image attachment
+   * GET /api/v1/entries/:id/attachments/:attachmentId/thumbnail
+   */
+  async downloadThumbnail(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const download = await AttachmentService.openAttachment(
+        req.params.id,
+        req.params.attachmentId,
+        req.user.userId,
+        true
+      );
+      this.sendFile(res, download, 'inline');
+    } catch (error) {
+      this.handleError(error, 'Failed to download thumbnail', 'THUMBNAIL_DOWNLOAD_FAILED');
+    }
+  }
+
+  /**
+   * Delete an attachment
+   * DELETE /api/v1/entries/:id/attachments/:attachmentId
+   */
+  async deleteAttachment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      await AttachmentService.deleteAttachment(req.params.id, req.params.attachmentId, req.user.userId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, 'Failed to delete attachment', 'ATTACHMENT_DELETE_FAILED');
+    }
+  }
+}
+
+export default new AttachmentController();
@@ -7,7 +7,11 @@ import {
   ConflictError,
 } from '../utils/errors.js';
 import AuthService from '../services/AuthService.js';
-import { verifyRefreshToken, generateTokenPair } from '../utils/jwt.js';
+import SessionService from '../services/SessionService.js';
+import PasswordResetService from '../services/PasswordResetService.js';
+import EmailVerificationService from '../services/EmailVerificationService.js';
+import { SessionContext } from '../types/index.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
 
 /**
  * AuthController
@@ -16,12 +20,26 @@ import { verifyRefreshToken, generateTokenPair } from '../utils/jwt.js';
  * Requirements: 1.1, 1.2, 4.1, 4.2
  * - Implements POST /api/v1/auth/register endpoint
  * - Implements POST /api/v1/auth/login endpoint
+ * - Implements POST /api/v1/auth/mfa/verify endpoint
  * - Implements POST /api/v1/auth/logout endpoint
  * - Implements POST /api/v1/auth/refresh endpoint
+ * - Implements POST /api/v1/auth/forgot-password endpoint
+ * - Implements POST /api/v1/auth/reset-password endpoint
+ * - Implements POST /api/v1/auth/verify-email endpoint
  * - Adds input validation for all endpoints
  */
 
 export class AuthController {
+  /**
+   * Collect device information for the session created or refreshed by a request
+   */
+  private getSessionContext(req: AuthenticatedRequest): SessionContext {
+    return {
+      userAgent: req.get('user-agent') || undefined,
+      ipAddress: req.ip,
+    };
+  }
+
   /**
    * Register a new user
    * POST /api/v1/auth/register
@@ -58,7 +76,7 @@ export class AuthController {
       }
 
       // Call AuthService to register user
-      const authResponse = await AuthService.register(email, password, name);
+      const authResponse = await AuthService.register(email, password, name, this.getSessionContext(req));
 
       res.status(201).json({
         success: true,
@@ -115,7 +133,7 @@ export class AuthController {
       }
 
       // Call AuthService to login user
-      const authResponse = await AuthService.login(email, password);
+      const authResponse = await AuthService.login(email, password, this.getSessionContext(req));
 
       res.status(200).json({
         success: true,
@@ -142,6 +160,54 @@ export class AuthController {
     }
   }
 
+  /**
+   * Complete an MFA login
+   * POST /api/v1/auth/mfa/verify
+   *
+   * Exchanges the challenge token returned by login and a TOTP or recovery code
+   * for a session.
+   */
+  async verifyMfa(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { mfaToken, code } = req.body;
+
+      if (!mfaToken || !code || typeof mfaToken !== 'string' || typeof code !== 'string') {
+        throw new ValidationError('Missing required fields', {
+          mfaToken: !mfaToken ? 'MFA token is required' : undefined,
+          code: !code ? 'Code is required' : undefined,
+        });
+      }
+
+      const authResponse = await AuthService.verifyMfa(mfaToken, code, this.getSessionContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: authResponse,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (
+          error.message.includes('Invalid MFA') ||
+          error.message.includes('expired') ||
+          error.message.includes('locked')
+        ) {
+          throw new AuthenticationError(error.message);
+        }
+
+        if (error.message.includes('required')) {
+          throw new ValidationError(error.message);
+        }
+      }
+
+      throw new ApiError(500, 'MFA verification failed', 'MFA_VERIFICATION_FAILED');
+    }
+  }
+
   /**
    * Logout a user
    * POST /api/v1/auth/logout
@@ -149,8 +215,8 @@ export class AuthController {
    * Requirement 1.5: WHEN a user logs out, THE system SHALL invalidate the session
    * and require re-authentication for subsequent requests
    * 
-   * Note: Since we're using stateless JWT tokens, logout is handled client-side
-   * by removing the token. This endpoint serves as a confirmation endpoint.
+   * Revokes the session referenced by the access token, which invalidates its
+   * refresh token and every access token issued for it.
    */
   async logout(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -159,6 +225,18 @@ export class AuthController {
         throw new AuthenticationError('Not authenticated');
       }
 
+      if (req.user.sessionId) {
+        await SessionService.revokeSession(req.user.userId, req.user.sessionId);
+      }
+
+      logAuditEvent(AuditEventType.USER_LOGOUT, {
+        userId: req.user.userId,
+        email: req.user.email,
+        ip: req.ip,
+        resourceId: req.user.sessionId,
+        success: true,
+      });
+
       // Return success response
       res.status(200).json({
         success: true,
@@ -181,7 +259,8 @@ export class AuthController {
    * POST /api/v1/auth/refresh
    * 
    * Requirement 1.2: Generate JWT tokens on successful authentication
-   * Uses refresh token to generate a new access token
+   * Rotates the refresh token: the presented token is revoked and a new pair is issued.
+   * Replaying an already rotated token revokes the whole session.
    */
   async refresh(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -197,13 +276,10 @@ export class AuthController {
         throw new ValidationError('Refresh token must be a string', { refreshToken: 'Refresh token must be a string' });
       }
 
-      // Verify refresh token
-      const payload = verifyRefreshToken(refreshToken);
-
-      // Generate new token pair
-      const { accessToken, refreshToken: newRefreshToken } = generateTokenPair(
-        payload.userId,
-        payload.userId // Note: We don't have email in refresh token, using userId as placeholder
+      // Verify and rotate refresh token
+      const { accessToken, refreshToken: newRefreshToken } = await SessionService.rotateSession(
+        refreshToken,
+        this.getSessionContext(req)
       );
 
       res.status(200).json({
@@ -233,6 +309,122 @@ export class AuthController {
       throw new ApiError(500, 'Token refresh failed', 'TOKEN_REFRESH_FAILED');
     }
   }
+
+  /**
+   * Request a password reset email
+   * POST /api/v1/auth/forgot-password
+   *
+   * Always answers with the same response so that callers cannot probe which
+   * addresses have an account.
+   */
+  async forgotPassword(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== 'string') {
+        throw new ValidationError('Missing required fields', {
+          email: 'Email is required',
+        });
+      }
+
+      await PasswordResetService.requestReset(email, this.getSessionContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'If an account exists for this email, a password reset link has been sent',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      throw new ApiError(500, 'Failed to request password reset', 'PASSWORD_RESET_REQUEST_FAILED');
+    }
+  }
+
+  /**
+   * Set a new password with a reset token
+   * POST /api/v1/auth/reset-password
+   *
+   * Revokes every session of the user, so they have to sign in again everywhere.
+   */
+  async resetPassword(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { token, newPassword } = req.body;
+
+      if (!token || !newPassword || typeof token !== 'string' || typeof newPassword !== 'string') {
+        throw new ValidationError('Missing required fields', {
+          token: !token ? 'Token is required' : undefined,
+          newPassword: !newPassword ? 'New password is required' : undefined,
+        });
+      }
+
+      await PasswordResetService.resetPassword(token, newPassword, this.getSessionContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Password has been reset. Please sign in with your new password.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (
+          error.message.includes('Invalid or expired token') ||
+          error.message.includes('Password') ||
+          error.message.includes('required')
+        ) {
+          throw new ValidationError(error.message);
+        }
+      }
+
+      throw new ApiError(500, 'Failed to reset password', 'PASSWORD_RESET_FAILED');
+    }
+  }
+
+  /**
+   * Confirm an email address
+   * POST /api/v1/auth/verify-email
+   */
+  async verifyEmail(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== 'string') {
+        throw new ValidationError('Missing required fields', {
+          token: 'Token is required',
+        });
+      }
+
+      await EmailVerificationService.verifyEmail(token);
+
+      res.status(200).json({
+        success: true,
+        data: { emailVerified: true },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (error.message.includes('Invalid or expired token') || error.message.includes('required')) {
+          throw new ValidationError(error.message);
+        }
+      }
+
+      throw new ApiError(500, 'Failed to verify email', 'EMAIL_VERIFICATION_FAILED');
+    }
+  }
 }
 
 export default new AuthController();
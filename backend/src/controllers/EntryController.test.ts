@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
 import { ApiError } from '../utils/errors.js';
+import { UserRole } from '../types/index.js';
 import EntryController from './EntryController.js';
 import EntryService from '../services/EntryService.js';
 
@@ -16,16 +17,19 @@ describe('EntryController', () => {
       user: {
         userId: 'user-123',
         email: 'user@example.com',
+        role: UserRole.USER,
       },
       body: {},
       params: {},
       query: {},
+      headers: {},
     };
 
     mockRes = {
       status: jest.fn().mockReturnThis(),
       json: jest.fn().mockReturnThis(),
       send: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
     };
 
     jest.clearAllMocks();
@@ -216,6 +220,40 @@ describe('EntryController', () => {
     });
   });
 
+  describe('drafts', () => {
+    it('should create a draft', async () => {
+      mockReq.body = { title: 'Draft', content: 'Half a thought', status: 'DRAFT' };
+      (EntryService.createEntry as jest.Mock).mockResolvedValue({ id: 'entry-123', status: 'DRAFT' });
+
+      await EntryController.createEntry(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.createEntry).toHaveBeenCalledWith('user-123', expect.objectContaining({ status: 'DRAFT' }));
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should reject an invalid status', async () => {
+      mockReq.params = { id: 'entry-123' };
+      mockReq.body = { status: 'ARCHIVED' };
+
+      await expect(
+        EntryController.updateEntry(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(EntryService.updateEntry).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when unpublishing an entry', async () => {
+      mockReq.params = { id: 'entry-123' };
+      mockReq.body = { status: 'DRAFT' };
+      (EntryService.updateEntry as jest.Mock).mockRejectedValue(
+        new Error('Status must be PUBLISHED once an entry is published')
+      );
+
+      await expect(
+        EntryController.updateEntry(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
   describe('getUserEntries', () => {
     it('should get user entries with default pagination', async () => {
       mockReq.query = {};
@@ -241,7 +279,7 @@ describe('EntryController', () => {
 
       await EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response);
 
-      expect(EntryService.getUserEntries).toHaveBeenCalledWith('user-123', 1, 10, 'createdAt', 'desc');
+      expect(EntryService.getUserEntries).toHaveBeenCalledWith('user-123', 1, 10, 'createdAt', 'desc', {});
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -271,10 +309,129 @@ describe('EntryController', () => {
 
       await EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response);
 
-      expect(EntryService.getUserEntries).toHaveBeenCalledWith('user-123', 2, 20, 'updatedAt', 'asc');
+      expect(EntryService.getUserEntries).toHaveBeenCalledWith('user-123', 2, 20, 'updatedAt', 'asc', {});
       expect(mockRes.status).toHaveBeenCalledWith(200);
     });
 
+    it('should pass filters from the query string', async () => {
+      mockReq.query = {
+        mood: ['happy', 'calm'],
+        tags: 'work,family',
+        tagMode: 'all',
+        from: '2026-01-01',
+        to: '2026-01-31',
+        timezone: 'America/New_York',
+        hasInsight: 'true',
+        theme: 'garden',
+        status: 'PUBLISHED',
+      };
+
+      (EntryService.getUserEntries as jest.Mock).mockResolvedValue({
+        data: [],
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0,
+      });
+
+      await EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.getUserEntries).toHaveBeenCalledWith('user-123', 1, 10, 'createdAt', 'desc', {
+        moods: ['happy', 'calm'],
+        tags: ['work', 'family'],
+        tagMode: 'all',
+        from: '2026-01-01',
+        to: '2026-01-31',
+        timezone: 'America/New_York',
+        hasInsight: true,
+        theme: 'garden',
+        status: 'PUBLISHED',
+      });
+    });
+
+    it('should reject an invalid status filter', async () => {
+      mockReq.query = { status: 'ARCHIVED' };
+
+      await expect(
+        EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should use cursor pagination when a cursor is given', async () => {
+      mockReq.query = { cursor: 'abc123', limit: '20', mood: 'happy' };
+
+      const mockFeed = {
+        data: [],
+        limit: 20,
+        nextCursor: null,
+        hasMore: false,
+      };
+
+      (EntryService.getUserEntriesFeed as jest.Mock).mockResolvedValue(mockFeed);
+
+      await EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.getUserEntriesFeed).toHaveBeenCalledWith('user-123', 20, 'desc', { moods: ['happy'] }, 'abc123');
+      expect(EntryService.getUserEntries).not.toHaveBeenCalled();
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({ data: mockFeed }));
+    });
+
+    it('should start a cursor feed with pagination=cursor', async () => {
+      mockReq.query = { pagination: 'cursor' };
+
+      (EntryService.getUserEntriesFeed as jest.Mock).mockResolvedValue({
+        data: [],
+        limit: 10,
+        nextCursor: null,
+        hasMore: false,
+      });
+
+      await EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.getUserEntriesFeed).toHaveBeenCalledWith('user-123', 10, 'desc', {}, undefined);
+    });
+
+    it('should reject cursor pagination sorted by updatedAt', async () => {
+      mockReq.query = { pagination: 'cursor', sortBy: 'updatedAt' };
+
+      await expect(
+        EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 400 });
+
+      expect(EntryService.getUserEntriesFeed).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid cursor', async () => {
+      mockReq.query = { cursor: 'garbage' };
+
+      (EntryService.getUserEntriesFeed as jest.Mock).mockRejectedValue(
+        new Error('Cursor must be a nextCursor returned by a previous page')
+      );
+
+      await expect(
+        EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject invalid filters', async () => {
+      for (const query of [
+        { mood: 'elated' },
+        { tagMode: 'some' },
+        { from: '2026-02-30' },
+        { from: '2026-02-01', to: '2026-01-01' },
+        { timezone: 'Nowhere/City' },
+        { hasInsight: 'yes' },
+      ]) {
+        mockReq.query = query;
+
+        await expect(
+          EntryController.getUserEntries(mockReq as AuthenticatedRequest, mockRes as Response)
+        ).rejects.toMatchObject({ statusCode: 400 });
+      }
+
+      expect(EntryService.getUserEntries).not.toHaveBeenCalled();
+    });
+
     it('should reject when page is less than 1', async () => {
       mockReq.query = { page: '0' };
 
@@ -445,7 +602,7 @@ describe('EntryController', () => {
         content: 'Updated content',
         mood: undefined,
         tags: undefined,
-      });
+      }, undefined);
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -477,7 +634,7 @@ describe('EntryController', () => {
         content: undefined,
         mood: undefined,
         tags: undefined,
-      });
+      }, undefined);
     });
 
     it('should reject when entry ID is missing', async () => {
@@ -572,6 +729,58 @@ describe('EntryController', () => {
     });
   });
 
+  describe('concurrency', () => {
+    it('should send the entry version as its ETag', async () => {
+      mockReq.params = { id: 'entry-123' };
+      (EntryService.getEntry as jest.Mock).mockResolvedValue({ id: 'entry-123', version: 3 });
+
+      await EntryController.getEntry(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(mockRes.set).toHaveBeenCalledWith('ETag', '"3"');
+    });
+
+    it('should pass the If-Match versions to the service', async () => {
+      mockReq.params = { id: 'entry-123' };
+      mockReq.headers = { 'if-match': '"3"' };
+      mockReq.body = { content: 'Edited' };
+      (EntryService.updateEntry as jest.Mock).mockResolvedValue({ id: 'entry-123', version: 4 });
+
+      await EntryController.updateEntry(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.updateEntry).toHaveBeenCalledWith(
+        'entry-123',
+        'user-123',
+        expect.objectContaining({ content: 'Edited' }),
+        [3]
+      );
+      expect(mockRes.set).toHaveBeenCalledWith('ETag', '"4"');
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 412 with the current entry when it was changed elsewhere', async () => {
+      const current = { id: 'entry-123', content: 'Edited on my phone', version: 5 };
+      mockReq.params = { id: 'entry-123' };
+      mockReq.headers = { 'if-match': '"3"' };
+      mockReq.body = { content: 'Edited on my laptop' };
+      (EntryService.updateEntry as jest.Mock).mockRejectedValue(
+        new Error('Failed to update journal entry: Entry version mismatch')
+      );
+      (EntryService.getEntry as jest.Mock).mockResolvedValue(current);
+
+      await EntryController.updateEntry(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(412);
+      expect(mockRes.set).toHaveBeenCalledWith('ETag', '"5"');
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          error: expect.objectContaining({ code: 'PRECONDITION_FAILED' }),
+          data: current,
+        })
+      );
+    });
+  });
+
   describe('deleteEntry', () => {
     it('should delete entry successfully', async () => {
       mockReq.params = { id: 'entry-123' };
@@ -630,4 +839,129 @@ describe('EntryController', () => {
       ).rejects.toThrow(ApiError);
     });
   });
+
+  describe('revisions', () => {
+    it('should list revisions', async () => {
+      mockReq.params = { id: 'entry-123' };
+      (EntryService.getRevisions as jest.Mock).mockResolvedValue([{ revision: 1 }]);
+
+      await EntryController.getRevisions(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.getRevisions).toHaveBeenCalledWith('entry-123', 'user-123');
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true, data: [{ revision: 1 }] })
+      );
+    });
+
+    it('should diff against the current entry by default', async () => {
+      mockReq.params = { id: 'entry-123' };
+      mockReq.query = { from: '2' };
+      (EntryService.diffRevisions as jest.Mock).mockResolvedValue({ from: 2, to: 'current' });
+
+      await EntryController.getRevisionDiff(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.diffRevisions).toHaveBeenCalledWith('entry-123', 'user-123', 2, 'current');
+    });
+
+    it('should diff two revisions', async () => {
+      mockReq.params = { id: 'entry-123' };
+      mockReq.query = { from: '1', to: '3' };
+      (EntryService.diffRevisions as jest.Mock).mockResolvedValue({ from: 1, to: 3 });
+
+      await EntryController.getRevisionDiff(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.diffRevisions).toHaveBeenCalledWith('entry-123', 'user-123', 1, 3);
+    });
+
+    it.each([undefined, '0', '1.5', 'latest'])('should reject from=%s', async (from) => {
+      mockReq.params = { id: 'entry-123' };
+      mockReq.query = from === undefined ? {} : { from };
+
+      await expect(
+        EntryController.getRevisionDiff(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(EntryService.diffRevisions).not.toHaveBeenCalled();
+    });
+
+    it('should restore a revision', async () => {
+      mockReq.params = { id: 'entry-123', rev: '4' };
+      (EntryService.restoreRevision as jest.Mock).mockResolvedValue({ id: 'entry-123' });
+
+      await EntryController.restoreRevision(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.restoreRevision).toHaveBeenCalledWith('entry-123', 'user-123', 4);
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 404 for a missing revision', async () => {
+      mockReq.params = { id: 'entry-123', rev: '9' };
+      (EntryService.restoreRevision as jest.Mock).mockRejectedValue(new Error('Revision not found'));
+
+      await expect(
+        EntryController.restoreRevision(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 404, message: 'Revision not found' });
+    });
+
+    it('should return 403 for another user\'s entry', async () => {
+      mockReq.params = { id: 'entry-123' };
+      (EntryService.getRevisions as jest.Mock).mockRejectedValue(
+        new Error('Entry not found or access denied')
+      );
+
+      await expect(
+        EntryController.getRevisions(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('trash', () => {
+    it('should list trashed entries', async () => {
+      mockReq.query = { page: '2', limit: '5' };
+      (EntryService.getTrash as jest.Mock).mockResolvedValue({ data: [], total: 0 });
+
+      await EntryController.getTrash(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.getTrash).toHaveBeenCalledWith('user-123', 2, 5);
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should reject invalid trash pagination', async () => {
+      mockReq.query = { limit: 'many' };
+
+      await expect(
+        EntryController.getTrash(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(EntryService.getTrash).not.toHaveBeenCalled();
+    });
+
+    it('should restore an entry from the trash', async () => {
+      mockReq.params = { id: 'entry-123' };
+      (EntryService.restoreEntry as jest.Mock).mockResolvedValue({ id: 'entry-123' });
+
+      await EntryController.restoreEntry(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.restoreEntry).toHaveBeenCalledWith('entry-123', 'user-123');
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 404 when restoring an entry that is not in the trash', async () => {
+      mockReq.params = { id: 'entry-123' };
+      (EntryService.restoreEntry as jest.Mock).mockRejectedValue(new Error('Entry not found in trash'));
+
+      await expect(
+        EntryController.restoreEntry(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should permanently delete an entry in the trash', async () => {
+      mockReq.params = { id: 'entry-123' };
+      (EntryService.deleteEntryPermanently as jest.Mock).mockResolvedValue(undefined);
+
+      await EntryController.deleteEntryPermanently(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(EntryService.deleteEntryPermanently).toHaveBeenCalledWith('entry-123', 'user-123');
+      expect(mockRes.status).toHaveBeenCalledWith(204);
+    });
+  });
 });
@@ -8,6 +8,15 @@ import {
   NotFoundError,
 } from '../utils/errors.js';
 import EntryService from '../services/EntryService.js';
+import {
+  validateMoodFilter,
+  validateTagFilter,
+  validateDateRange,
+  validateBooleanParam,
+  validateEntryStatus,
+} from '../utils/validators.js';
+import { formatEntryEtag, parseIfMatch } from '../utils/etag.js';
+import { EntryFilters, EntryStatus, JournalEntry } from '../types/index.js';
 
 /**
  * EntryController
@@ -15,15 +24,151 @@ import EntryService from '../services/EntryService.js';
  * 
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 3.6
  * - Implements POST /api/v1/entries endpoint
- * - Implements GET /api/v1/entries endpoint with pagination
+ * - Implements GET /api/v1/entries endpoint with offset or cursor pagination and filters
  * - Implements GET /api/v1/entries/:id endpoint
- * - Implements PUT /api/v1/entries/:id endpoint
+ * - Implements PUT /api/v1/entries/:id endpoint, honoring If-Match against the entry's ETag
  * - Implements DELETE /api/v1/entries/:id endpoint
+ * - Implements GET /api/v1/entries/:id/revisions and /revisions/diff endpoints
+ * - Implements POST /api/v1/entries/:id/revisions/:rev/restore endpoint
+ * - Implements GET /api/v1/entries/trash, POST /api/v1/entries/trash/:id/restore and
+ *   DELETE /api/v1/entries/trash/:id endpoints
  * - Adds authentication requirement to all endpoints
  * - Adds input validation for all endpoints
  */
 
+/**
+ * Read a query parameter that may be repeated (?tags=a&tags=b) or comma-separated (?tags=a,b)
+ */
+function parseListParam(value: unknown): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Send the entry's version as its ETag
+ */
+function setEntryEtag(res: Response, entry: JournalEntry): void {
+  if (entry.version !== undefined) {
+    res.set('ETag', formatEntryEtag(entry.version));
+  }
+}
+
+/**
+ * Read a revision number from a path or query parameter
+ * @throws ValidationError if the value is not a positive integer
+ */
+function parseRevisionNumber(value: unknown, field: string): number {
+  const revision = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (!Number.isSafeInteger(revision) || revision < 1) {
+    const message = `${field} must be a positive revision number`;
+    throw new ValidationError(message, { [field]: message });
+  }
+  return revision;
+}
+
+/**
+ * Map an error from a revision operation to its HTTP error
+ */
+function toRevisionError(error: unknown, message: string, code: string): Error {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('access denied')) {
+      return new AuthorizationError('Access denied');
+    }
+
+    if (error.message.includes('Revision not found')) {
+      return new NotFoundError('Revision not found');
+    }
+
+    if (error.message.includes('not found')) {
+      return new NotFoundError('Entry not found');
+    }
+
+    if (error.message.includes('required') || error.message.includes('must be')) {
+      return new ValidationError(error.message);
+    }
+  }
+
+  return new ApiError(500, message, code);
+}
+
 export class EntryController {
+  /**
+   * Read and validate the entry filters in a query string
+   * @throws ValidationError naming the invalid parameter
+   */
+  private parseFilters(query: AuthenticatedRequest['query']): EntryFilters {
+    const filters: EntryFilters = {};
+    const optionalString = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+    const moods = parseListParam(query.mood);
+    if (moods !== undefined) {
+      const result = validateMoodFilter(moods);
+      if (!result.valid) {
+        throw new ValidationError(result.error as string, { mood: result.error as string });
+      }
+      filters.moods = moods;
+    }
+
+    const tags = parseListParam(query.tags);
+    const tagMode = optionalString(query.tagMode);
+    if (tags !== undefined || tagMode !== undefined) {
+      const result = validateTagFilter(tags ?? [], tagMode);
+      if (!result.valid) {
+        throw new ValidationError(result.error as string, { tags: result.error as string });
+      }
+      filters.tags = tags;
+      filters.tagMode = tagMode as EntryFilters['tagMode'];
+    }
+
+    const from = optionalString(query.from);
+    const to = optionalString(query.to);
+    const timezone = optionalString(query.timezone);
+    const dateResult = validateDateRange(from, to, timezone);
+    if (!dateResult.valid) {
+      const field = ['timezone', 'to'].find((name) => dateResult.error?.toLowerCase().startsWith(name)) ?? 'from';
+      throw new ValidationError(dateResult.error as string, { [field]: dateResult.error as string });
+    }
+    Object.assign(filters, from && { from }, to && { to }, timezone && { timezone });
+
+    if (query.hasInsight !== undefined) {
+      const result = validateBooleanParam(query.hasInsight, 'hasInsight');
+      if (!result.valid) {
+        throw new ValidationError(result.error as string, { hasInsight: result.error as string });
+      }
+      filters.hasInsight = query.hasInsight === 'true';
+    }
+
+    const theme = optionalString(query.theme);
+    if (theme !== undefined) {
+      if (theme.length > 100) {
+        throw new ValidationError('Theme must not exceed 100 characters', { theme: 'Theme must not exceed 100 characters' });
+      }
+      filters.theme = theme;
+    }
+
+    const status = optionalString(query.status);
+    if (status !== undefined) {
+      const result = validateEntryStatus(status);
+      if (!result.valid) {
+        throw new ValidationError(result.error as string, { status: result.error as string });
+      }
+      filters.status = status as EntryStatus;
+    }
+
+    return filters;
+  }
+
   /**
    * Create a new journal entry
    * POST /api/v1/entries
@@ -38,10 +183,10 @@ export class EntryController {
         throw new AuthenticationError('Not authenticated');
       }
 
-      const { title, content, mood, tags } = req.body;
+      const { title, content, mood, emotions, tags, templateId, fields, status } = req.body;
 
-      // Validate required fields
-      if (!title || !content) {
+      // Validate required fields; entries written from a template may leave the content out
+      if (!title || (!content && templateId === undefined)) {
         throw new ValidationError('Missing required fields', {
           title: !title ? 'Title is required' : undefined,
           content: !content ? 'Content is required' : undefined,
@@ -54,10 +199,15 @@ export class EntryController {
       }
 
       // Validate content is a string
-      if (typeof content !== 'string') {
+      if (content !== undefined && typeof content !== 'string') {
         throw new ValidationError('Content must be a string', { content: 'Content must be a string' });
       }
 
+      // Validate the template if provided
+      if (templateId !== undefined && typeof templateId !== 'string') {
+        throw new ValidationError('Template ID must be a string', { templateId: 'Template ID must be a string' });
+      }
+
       // Validate mood if provided
       if (mood !== undefined) {
         if (typeof mood !== 'string') {
@@ -65,6 +215,11 @@ export class EntryController {
         }
       }
 
+      // Validate emotions if provided
+      if (emotions !== undefined && !Array.isArray(emotions)) {
+        throw new ValidationError('Emotions must be an array', { emotions: 'Emotions must be an array' });
+      }
+
       // Validate tags if provided
       if (tags !== undefined) {
         if (!Array.isArray(tags)) {
@@ -76,14 +231,27 @@ export class EntryController {
         }
       }
 
+      // Validate status if provided
+      if (status !== undefined) {
+        const result = validateEntryStatus(status);
+        if (!result.valid) {
+          throw new ValidationError(result.error as string, { status: result.error as string });
+        }
+      }
+
       // Create entry through service
       const entry = await EntryService.createEntry(req.user.userId, {
         title,
         content,
         mood,
+        emotions,
         tags,
+        templateId,
+        fields,
+        status,
       });
 
+      setEntryEtag(res, entry);
       res.status(201).json({
         success: true,
         data: entry,
@@ -95,6 +263,12 @@ export class EntryController {
       }
 
       if (error instanceof Error) {
+        if (error.message.includes('Template not found')) {
+          throw new ValidationError('Invalid templateId: template not found', {
+            templateId: 'Template not found',
+          });
+        }
+
         if (error.message.includes('required') || error.message.includes('Invalid') || error.message.includes('must be')) {
           throw new ValidationError(error.message);
         }
@@ -143,13 +317,40 @@ export class EntryController {
         throw new ValidationError('Invalid order parameter', { order: 'Must be asc or desc' });
       }
 
+      const filters = this.parseFilters(req.query);
+
+      // Keyset pagination, chosen with ?pagination=cursor for the first page or a cursor for later ones
+      const cursor = typeof req.query.cursor === 'string' && req.query.cursor !== '' ? req.query.cursor : undefined;
+      const pagination = req.query.pagination ?? 'offset';
+      if (pagination !== 'offset' && pagination !== 'cursor') {
+        throw new ValidationError('Invalid pagination parameter', { pagination: 'Must be offset or cursor' });
+      }
+
+      if (cursor || pagination === 'cursor') {
+        if (sortBy !== 'createdAt') {
+          throw new ValidationError('Cursor pagination only supports sorting by createdAt', {
+            sortBy: 'Must be createdAt with cursor pagination',
+          });
+        }
+
+        const feed = await EntryService.getUserEntriesFeed(req.user.userId, limit, order, filters, cursor);
+
+        res.status(200).json({
+          success: true,
+          data: feed,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       // Get entries through service
       const result = await EntryService.getUserEntries(
         req.user.userId,
         page,
         limit,
         sortBy,
-        order
+        order,
+        filters
       );
 
       res.status(200).json({
@@ -172,6 +373,47 @@ export class EntryController {
     }
   }
 
+  /**
+   * Search the authenticated user's journal entries
+   * GET /api/v1/entries/search?q=
+   */
+  async searchEntries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Verify user is authenticated
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q : '';
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+
+      if (!query.trim()) {
+        throw new ValidationError('Search query is required', { q: 'Search query is required' });
+      }
+
+      const result = await EntryService.searchEntries(req.user.userId, query, page, limit);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (error.message.includes('required') || error.message.includes('must be') || error.message.includes('greater')) {
+          throw new ValidationError(error.message);
+        }
+      }
+
+      throw new ApiError(500, 'Failed to search entries', 'ENTRIES_SEARCH_FAILED');
+    }
+  }
+
   /**
    * Get a specific journal entry by ID
    * GET /api/v1/entries/:id
@@ -199,6 +441,7 @@ export class EntryController {
       // Get entry through service (includes ownership check)
       const entry = await EntryService.getEntry(id, req.user.userId);
 
+      setEntryEtag(res, entry);
       res.status(200).json({
         success: true,
         data: entry,
@@ -236,6 +479,9 @@ export class EntryController {
    * 
    * Requirement 3.6: WHEN a user attempts to access another user's journal entry,
    * THE system SHALL return HTTP 403 Forbidden
+   *
+   * With an If-Match header, the update is refused with HTTP 412 and the current entry
+   * unless the entry is still at the version the client edited
    */
   async updateEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -245,7 +491,7 @@ export class EntryController {
       }
 
       const { id } = req.params;
-      const { title, content, mood, tags } = req.body;
+      const { title, content, mood, emotions, tags, fields, status } = req.body;
 
       // Validate entry ID is provided
       if (!id) {
@@ -253,7 +499,15 @@ export class EntryController {
       }
 
       // Validate that at least one field is provided
-      if (title === undefined && content === undefined && mood === undefined && tags === undefined) {
+      if (
+        title === undefined &&
+        content === undefined &&
+        mood === undefined &&
+        emotions === undefined &&
+        tags === undefined &&
+        fields === undefined &&
+        status === undefined
+      ) {
         throw new ValidationError('At least one field must be provided for update');
       }
 
@@ -271,13 +525,18 @@ export class EntryController {
         }
       }
 
-      // Validate mood if provided
-      if (mood !== undefined) {
+      // Validate mood if provided (null clears it)
+      if (mood !== undefined && mood !== null) {
         if (typeof mood !== 'string') {
           throw new ValidationError('Mood must be a string', { mood: 'Mood must be a string' });
         }
       }
 
+      // Validate emotions if provided
+      if (emotions !== undefined && !Array.isArray(emotions)) {
+        throw new ValidationError('Emotions must be an array', { emotions: 'Emotions must be an array' });
+      }
+
       // Validate tags if provided
       if (tags !== undefined) {
         if (!Array.isArray(tags)) {
@@ -289,14 +548,31 @@ export class EntryController {
         }
       }
 
+      // Validate status if provided
+      if (status !== undefined) {
+        const result = validateEntryStatus(status);
+        if (!result.valid) {
+          throw new ValidationError(result.error as string, { status: result.error as string });
+        }
+      }
+
       // Update entry through service (includes ownership check)
-      const updatedEntry = await EntryService.updateEntry(id, req.user.userId, {
-        title,
-        content,
-        mood,
-        tags,
-      });
+      const updatedEntry = await EntryService.updateEntry(
+        id,
+        req.user.userId,
+        {
+          title,
+          content,
+          mood,
+          emotions,
+          tags,
+          fields,
+          status,
+        },
+        parseIfMatch(req.headers['if-match'])
+      );
 
+      setEntryEtag(res, updatedEntry);
       res.status(200).json({
         success: true,
         data: updatedEntry,
@@ -308,6 +584,22 @@ export class EntryController {
       }
 
       if (error instanceof Error) {
+        // Sent here rather than thrown, so the entry is returned to the client but not logged
+        if (error.message.includes('version mismatch') && req.user) {
+          const current = await EntryService.getEntry(req.params.id, req.user.userId);
+          setEntryEtag(res, current);
+          res.status(412).json({
+            success: false,
+            error: {
+              code: 'PRECONDITION_FAILED',
+              message: 'Entry was changed since it was loaded',
+            },
+            data: current,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
         if (error.message.includes('access denied')) {
           throw new AuthorizationError('Access denied');
         }
@@ -325,6 +617,93 @@ export class EntryController {
     }
   }
 
+  /**
+   * List the earlier versions of a journal entry, newest first
+   * GET /api/v1/entries/:id/revisions
+   */
+  async getRevisions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        throw new ValidationError('Entry ID is required');
+      }
+
+      const revisions = await EntryService.getRevisions(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: revisions,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      throw toRevisionError(error, 'Failed to retrieve revisions', 'REVISIONS_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Compare two versions of a journal entry word by word
+   * GET /api/v1/entries/:id/revisions/diff?from=1&to=current
+   */
+  async getRevisionDiff(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        throw new ValidationError('Entry ID is required');
+      }
+
+      const from = parseRevisionNumber(req.query.from, 'from');
+      const to = req.query.to === undefined || req.query.to === 'current'
+        ? 'current'
+        : parseRevisionNumber(req.query.to, 'to');
+
+      const diff = await EntryService.diffRevisions(id, req.user.userId, from, to);
+
+      res.status(200).json({
+        success: true,
+        data: diff,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      throw toRevisionError(error, 'Failed to compare revisions', 'REVISION_DIFF_FAILED');
+    }
+  }
+
+  /**
+   * Make an earlier version of a journal entry its current version
+   * POST /api/v1/entries/:id/revisions/:rev/restore
+   */
+  async restoreRevision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        throw new ValidationError('Entry ID is required');
+      }
+
+      const revision = parseRevisionNumber(req.params.rev, 'rev');
+      const entry = await EntryService.restoreRevision(id, req.user.userId, revision);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      throw toRevisionError(error, 'Failed to restore revision', 'REVISION_RESTORE_FAILED');
+    }
+  }
+
   /**
    * Delete a journal entry
    * DELETE /api/v1/entries/:id
@@ -332,6 +711,9 @@ export class EntryController {
    * Requirement 3.5: WHEN an authenticated user deletes a journal entry they own,
    * THE system SHALL remove the entry from the database and return HTTP 204 No Content
    * 
+   * The entry is moved to the trash, and removed from the database once the
+   * retention period has passed
+   * 
    * Requirement 3.6: WHEN a user attempts to access another user's journal entry,
    * THE system SHALL return HTTP 403 Forbidden
    */
@@ -375,6 +757,127 @@ export class EntryController {
       throw new ApiError(500, 'Failed to delete entry', 'ENTRY_DELETION_FAILED');
     }
   }
+
+  /**
+   * List the authenticated user's entries in the trash
+   * GET /api/v1/entries/trash
+   */
+  async getTrash(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+
+      if (Number.isNaN(page) || page < 1) {
+        throw new ValidationError('Page must be greater than 0', { page: 'Page must be greater than 0' });
+      }
+
+      if (Number.isNaN(limit) || limit < 1 || limit > 100) {
+        throw new ValidationError('Limit must be between 1 and 100', { limit: 'Limit must be between 1 and 100' });
+      }
+
+      const result = await EntryService.getTrash(req.user.userId, page, limit);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (error.message.includes('required') || error.message.includes('must be') || error.message.includes('greater')) {
+          throw new ValidationError(error.message);
+        }
+      }
+
+      throw new ApiError(500, 'Failed to retrieve trash', 'TRASH_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Take an entry out of the trash
+   * POST /api/v1/entries/trash/:id/restore
+   */
+  async restoreEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        throw new ValidationError('Entry ID is required');
+      }
+
+      const entry = await EntryService.restoreEntry(id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (error.message.includes('not found')) {
+          throw new NotFoundError('Entry not found in trash');
+        }
+
+        if (error.message.includes('required')) {
+          throw new ValidationError(error.message);
+        }
+      }
+
+      throw new ApiError(500, 'Failed to restore entry', 'ENTRY_RESTORE_FAILED');
+    }
+  }
+
+  /**
+   * Permanently delete an entry in the trash
+   * DELETE /api/v1/entries/trash/:id
+   */
+  async deleteEntryPermanently(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        throw new ValidationError('Entry ID is required');
+      }
+
+      await EntryService.deleteEntryPermanently(id, req.user.userId);
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Error) {
+        if (error.message.includes('not found')) {
+          throw new NotFoundError('Entry not found in trash');
+        }
+
+        if (error.message.includes('required')) {
+          throw new ValidationError(error.message);
+        }
+      }
+
+      throw new ApiError(500, 'Failed to delete entry', 'ENTRY_DELETION_FAILED');
+    }
+  }
 }
 
 export default new EntryController();
@@ -0,0 +1,126 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+  ApiError,
+  ValidationError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+} from '../utils/errors.js';
+import ImportService from '../services/ImportService.js';
+
+/**
+ * ImportController
+ * Handles importing entries from other journals and earlier exports
+ * - POST /api/v1/users/entries/import
+ * - GET /api/v1/users/entries/import
+ * - GET /api/v1/users/entries/import/:id
+ */
+
+export class ImportController {
+  /**
+   * Map import service errors to HTTP errors
+   */
+  private handleError(error: unknown, fallbackMessage: string, code: string): never {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('already in progress')) {
+        throw new ConflictError(error.message);
+      }
+
+      if (error.message.includes('not found')) {
+        throw new NotFoundError('Import not found');
+      }
+
+      if (
+        error.message.includes('required') ||
+        error.message.includes('must be') ||
+        error.message.includes('Invalid')
+      ) {
+        throw new ValidationError(error.message);
+      }
+    }
+
+    throw new ApiError(500, fallbackMessage, code);
+  }
+
+  /**
+   * Upload a file to import
+   * POST /api/v1/users/entries/import?format=json|markdown|csv|dayone&dryRun=true
+   * (multipart/form-data with a `file` field)
+   */
+  async startImport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const format = typeof req.query.format === 'string' ? req.query.format.toLowerCase() : undefined;
+      const dryRun = req.query.dryRun === 'true' || req.query.dryRun === '1';
+      const file = req.file && {
+        originalName: req.file.originalname,
+        contentType: req.file.mimetype,
+        data: req.file.buffer,
+      };
+
+      const entryImport = await ImportService.startImport(req.user.userId, format, dryRun, file);
+
+      res.status(202).json({
+        success: true,
+        data: entryImport,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to start import', 'IMPORT_START_FAILED');
+    }
+  }
+
+  /**
+   * List recent imports
+   * GET /api/v1/users/entries/import
+   */
+  async listImports(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const imports = await ImportService.listImports(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: imports,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to retrieve imports', 'IMPORTS_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Get an import's progress and report
+   * GET /api/v1/users/entries/import/:id
+   */
+  async getImport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const entryImport = await ImportService.getImport(req.params.id, req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: entryImport,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to retrieve import', 'IMPORT_RETRIEVAL_FAILED');
+    }
+  }
+}
+
+export default new ImportController();
@@ -14,6 +14,7 @@ export class MedicalController {
     /**
      * Get aggregated mood analytics
      * GET /api/v1/medical/analytics
+     * Drafts and entries in the trash are left out here and in the overview
      */
     async getAnalytics(_req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
@@ -23,6 +24,18 @@ export class MedicalController {
                 _count: true,
                 where: {
                     mood: { not: null },
+                    status: 'PUBLISHED',
+                    deletedAt: null,
+                },
+            });
+
+            // Every emotion felt, custom moods counted as their base emotion
+            const emotionCounts = await prisma.entryEmotion.groupBy({
+                by: ['mood'],
+                _count: true,
+                _avg: { intensity: true },
+                where: {
+                    entry: { status: 'PUBLISHED', deletedAt: null },
                 },
             });
 
@@ -35,6 +48,8 @@ export class MedicalController {
                 _count: true,
                 where: {
                     createdAt: { gte: thirtyDaysAgo },
+                    status: 'PUBLISHED',
+                    deletedAt: null,
                 },
                 orderBy: {
                     createdAt: 'asc',
@@ -48,6 +63,13 @@ export class MedicalController {
                         acc[item.mood] = item._count;
                         return acc;
                     }, {}),
+                    emotionDistribution: emotionCounts.reduce((acc: any, item: any) => {
+                        acc[item.mood] = {
+                            count: item._count,
+                            averageIntensity: Number((item._avg.intensity ?? 0).toFixed(2)),
+                        };
+                        return acc;
+                    }, {}),
                     entriesOverTime: entriesOverTime.map((item: any) => ({
                         date: item.createdAt,
                         count: item._count,
@@ -68,7 +90,7 @@ export class MedicalController {
         try {
             const [totalPatients, totalEntries, activePatients] = await Promise.all([
                 prisma.user.count(),
-                prisma.journalEntry.count(),
+                prisma.journalEntry.count({ where: { status: 'PUBLISHED', deletedAt: null } }),
                 prisma.user.count({
                     where: {
                         entries: {
@@ -76,6 +98,8 @@ export class MedicalController {
                                 createdAt: {
                                     gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // Last 7 days
                                 },
+                                status: 'PUBLISHED',
+                                deletedAt: null,
                             },
                         },
                     },
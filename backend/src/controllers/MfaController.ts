@@ -0,0 +1,165 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+  ApiError,
+  ValidationError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+} from '../utils/errors.js';
+import MfaService from '../services/MfaService.js';
+
+/**
+ * MfaController
+ * Handles HTTP requests for managing the authenticated user's two-factor authentication
+ * - GET /api/v1/users/mfa
+ * - POST /api/v1/users/mfa/setup
+ * - POST /api/v1/users/mfa/confirm
+ * - POST /api/v1/users/mfa/disable
+ * - POST /api/v1/users/mfa/recovery-codes
+ */
+
+export class MfaController {
+  /**
+   * Map MFA service errors to HTTP errors
+   */
+  private handleError(error: unknown, fallbackMessage: string, code: string): never {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('User not found')) {
+        throw new NotFoundError(error.message);
+      }
+
+      if (error.message.includes('already enabled')) {
+        throw new ConflictError(error.message);
+      }
+
+      if (
+        error.message.includes('Invalid MFA code') ||
+        error.message.includes('incorrect') ||
+        error.message.includes('not enabled') ||
+        error.message.includes('not been started')
+      ) {
+        throw new ValidationError(error.message);
+      }
+    }
+
+    throw new ApiError(500, fallbackMessage, code);
+  }
+
+  /**
+   * Get MFA status
+   * GET /api/v1/users/mfa
+   */
+  async getStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const status = await MfaService.getStatus(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: status,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to retrieve MFA status', 'MFA_STATUS_FAILED');
+    }
+  }
+
+  /**
+   * Start TOTP enrollment
+   * POST /api/v1/users/mfa/setup
+   */
+  async setup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const enrollment = await MfaService.beginEnrollment(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: enrollment,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to start MFA setup', 'MFA_SETUP_FAILED');
+    }
+  }
+
+  /**
+   * Confirm TOTP enrollment and receive recovery codes
+   * POST /api/v1/users/mfa/confirm
+   */
+  async confirm(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const recoveryCodes = await MfaService.confirmEnrollment(req.user.userId, req.body.code);
+
+      res.status(200).json({
+        success: true,
+        data: { enabled: true, recoveryCodes },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to confirm MFA setup', 'MFA_CONFIRM_FAILED');
+    }
+  }
+
+  /**
+   * Disable MFA
+   * POST /api/v1/users/mfa/disable
+   */
+  async disable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { password, code } = req.body;
+      await MfaService.disable(req.user.userId, password, code);
+
+      res.status(200).json({
+        success: true,
+        data: { enabled: false },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to disable MFA', 'MFA_DISABLE_FAILED');
+    }
+  }
+
+  /**
+   * Replace recovery codes
+   * POST /api/v1/users/mfa/recovery-codes
+   */
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const recoveryCodes = await MfaService.regenerateRecoveryCodes(req.user.userId, req.body.code);
+
+      res.status(200).json({
+        success: true,
+        data: { recoveryCodes },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to regenerate recovery codes', 'MFA_RECOVERY_CODES_FAILED');
+    }
+  }
+}
+
+export default new MfaController();
@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+  ApiError,
+  ValidationError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+} from '../utils/errors.js';
+import { MOODS } from '../utils/moods.js';
+import CustomMoodService from '../services/CustomMoodService.js';
+
+/**
+ * MoodController
+ * Serves the shared mood vocabulary and handles the authenticated user's custom moods
+ * - GET /api/v1/moods
+ * - GET /api/v1/moods/custom
+ * - POST /api/v1/moods/custom
+ * - PUT /api/v1/moods/custom/:id
+ * - DELETE /api/v1/moods/custom/:id
+ */
+export class MoodController {
+  /**
+   * Map custom mood service errors to HTTP errors
+   */
+  private handleError(error: unknown, fallbackMessage: string, code: string): never {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('already exists') || error.message.includes('limit reached')) {
+        throw new ConflictError(error.message);
+      }
+
+      if (error.message.includes('not found')) {
+        throw new NotFoundError('Custom mood not found');
+      }
+
+      if (
+        error.message.includes('required') ||
+        error.message.includes('must be') ||
+        error.message.includes('cannot be changed')
+      ) {
+        throw new ValidationError(error.message);
+      }
+    }
+
+    throw new ApiError(500, fallbackMessage, code);
+  }
+
+  /**
+   * List the moods an entry can have, with their valence and intensity
+   * GET /api/v1/moods
+   */
+  async getMoods(_req: Request, res: Response): Promise<void> {
+    // The vocabulary only changes with a deploy
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.status(200).json({
+      success: true,
+      data: MOODS,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * List the user's custom moods
+   * GET /api/v1/moods/custom
+   */
+  async listCustomMoods(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const moods = await CustomMoodService.listCustomMoods(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: moods,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to retrieve custom moods', 'CUSTOM_MOODS_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Create a custom mood
+   * POST /api/v1/moods/custom
+   */
+  async createCustomMood(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { label, emoji, baseMood, valence } = req.body;
+      const mood = await CustomMoodService.createCustomMood(req.user.userId, {
+        label,
+        emoji,
+        baseMood,
+        valence,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: mood,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to create custom mood', 'CUSTOM_MOOD_CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Change a custom mood's label, emoji or valence
+   * PUT /api/v1/moods/custom/:id
+   */
+  async updateCustomMood(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { label, emoji, baseMood, valence } = req.body;
+      if (label === undefined && emoji === undefined && baseMood === undefined && valence === undefined) {
+        throw new ValidationError('At least one field must be provided for update');
+      }
+
+      const mood = await CustomMoodService.updateCustomMood(req.user.userId, req.params.id, {
+        label,
+        emoji,
+        valence,
+        ...(baseMood !== undefined && { baseMood }),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: mood,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to update custom mood', 'CUSTOM_MOOD_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Delete a custom mood
+   * Entries that used it keep the emotion, counted as its base emotion
+   * DELETE /api/v1/moods/custom/:id
+   */
+  async deleteCustomMood(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const deleted = await CustomMoodService.deleteCustomMood(req.user.userId, req.params.id);
+      if (!deleted) {
+        throw new NotFoundError('Custom mood not found');
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, 'Failed to delete custom mood', 'CUSTOM_MOOD_DELETE_FAILED');
+    }
+  }
+}
+
+export default new MoodController();
@@ -0,0 +1,123 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+  ApiError,
+  ValidationError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+} from '../utils/errors.js';
+import PersonalAccessTokenService from '../services/PersonalAccessTokenService.js';
+
+/**
+ * PersonalAccessTokenController
+ * Handles HTTP requests for managing the authenticated user's personal access tokens
+ * - GET /api/v1/users/tokens
+ * - POST /api/v1/users/tokens
+ * - DELETE /api/v1/users/tokens/:id
+ */
+
+export class PersonalAccessTokenController {
+  /**
+   * Map personal access token service errors to HTTP errors
+   */
+  private handleError(error: unknown, fallbackMessage: string, code: string): never {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('Token limit reached')) {
+        throw new ConflictError(error.message);
+      }
+
+      if (
+        error.message.includes('scope') ||
+        error.message.includes('Invalid expiry')
+      ) {
+        throw new ValidationError(error.message);
+      }
+    }
+
+    throw new ApiError(500, fallbackMessage, code);
+  }
+
+  /**
+   * List active tokens
+   * GET /api/v1/users/tokens
+   */
+  async listTokens(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const tokens = await PersonalAccessTokenService.listTokens(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: tokens,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to retrieve tokens', 'TOKENS_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Create a token
+   * The token is only included in this response
+   * POST /api/v1/users/tokens
+   */
+  async createToken(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { name, scopes, expiresInDays } = req.body;
+      const token = await PersonalAccessTokenService.createToken(
+        req.user.userId,
+        { name, scopes, expiresInDays },
+        {
+          userAgent: req.get('user-agent') || undefined,
+          ipAddress: req.ip,
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: token,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to create token', 'TOKEN_CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Revoke a token
+   * DELETE /api/v1/users/tokens/:id
+   */
+  async revokeToken(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const revoked = await PersonalAccessTokenService.revokeToken(req.user.userId, req.params.id, {
+        userAgent: req.get('user-agent') || undefined,
+        ipAddress: req.ip,
+      });
+      if (!revoked) {
+        throw new NotFoundError('Token not found');
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, 'Failed to revoke token', 'TOKEN_REVOKE_FAILED');
+    }
+  }
+}
+
+export default new PersonalAccessTokenController();
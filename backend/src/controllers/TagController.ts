@@ -0,0 +1,140 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+  ApiError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors.js';
+import TagService from '../services/TagService.js';
+
+/**
+ * TagController
+ * Handles HTTP requests for the tags on a user's journal entries
+ * - GET /api/v1/tags
+ * - PUT /api/v1/tags/:tag
+ * - POST /api/v1/tags/merge
+ * - DELETE /api/v1/tags/:tag
+ */
+export class TagController {
+  /**
+   * Map tag service errors to HTTP errors
+   */
+  private handleError(error: unknown, fallbackMessage: string, code: string): never {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('Tag not found')) {
+        throw new NotFoundError('Tag not found');
+      }
+
+      if (error.message.includes('changed while updating tags')) {
+        throw new ConflictError('Some entries were changed at the same time; please try again');
+      }
+
+      if (error.message.includes('required') || error.message.includes('must be')) {
+        throw new ValidationError(error.message);
+      }
+    }
+
+    throw new ApiError(500, fallbackMessage, code);
+  }
+
+  /**
+   * List the authenticated user's tags with how many entries use each
+   * GET /api/v1/tags
+   */
+  async getTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const tags = await TagService.getTags(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: tags,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      throw new ApiError(500, 'Failed to retrieve tags', 'TAGS_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Rename a tag on all of the user's entries
+   * PUT /api/v1/tags/:tag
+   */
+  async renameTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const result = await TagService.renameTag(req.user.userId, req.params.tag, req.body.name);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to rename tag', 'TAG_RENAME_FAILED');
+    }
+  }
+
+  /**
+   * Merge tags into one on all of the user's entries
+   * POST /api/v1/tags/merge
+   */
+  async mergeTags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { tags, into } = req.body;
+      const result = await TagService.mergeTags(req.user.userId, tags, into);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to merge tags', 'TAG_MERGE_FAILED');
+    }
+  }
+
+  /**
+   * Remove a tag from all of the user's entries
+   * DELETE /api/v1/tags/:tag
+   */
+  async deleteTag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const result = await TagService.deleteTag(req.user.userId, req.params.tag);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to delete tag', 'TAG_DELETE_FAILED');
+    }
+  }
+}
+
+export default new TagController();
@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import {
+  ApiError,
+  ValidationError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+} from '../utils/errors.js';
+import { PROMPT_CATEGORIES, getPrompts } from '../utils/prompts.js';
+import TemplateService from '../services/TemplateService.js';
+
+/**
+ * TemplateController
+ * Serves the prompt library and handles the templates entries can be written from
+ * - GET /api/v1/prompts
+ * - GET /api/v1/templates
+ * - POST /api/v1/templates
+ * - PUT /api/v1/templates/:id
+ * - DELETE /api/v1/templates/:id
+ */
+export class TemplateController {
+  /**
+   * Map template service errors to HTTP errors
+   */
+  private handleError(error: unknown, fallbackMessage: string, code: string): never {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('limit reached')) {
+        throw new ConflictError(error.message);
+      }
+
+      if (error.message.includes('not found')) {
+        throw new NotFoundError('Template not found');
+      }
+
+      if (error.message.includes('required') || error.message.includes('must be')) {
+        throw new ValidationError(error.message);
+      }
+    }
+
+    throw new ApiError(500, fallbackMessage, code);
+  }
+
+  /**
+   * List the prompt library, optionally one category of it
+   * GET /api/v1/prompts
+   */
+  async getPrompts(req: Request, res: Response): Promise<void> {
+    const category = req.query.category as string | undefined;
+    if (category !== undefined && !PROMPT_CATEGORIES.some((item) => item.id === category)) {
+      throw new ValidationError(
+        `Category must be one of: ${PROMPT_CATEGORIES.map((item) => item.id).join(', ')}`
+      );
+    }
+
+    // The library only changes with a deploy
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.status(200).json({
+      success: true,
+      data: {
+        categories: PROMPT_CATEGORIES,
+        prompts: getPrompts(category),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * List the templates the user can write from: the global ones, then their own
+   * GET /api/v1/templates
+   */
+  async listTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const templates = await TemplateService.listTemplates(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: templates,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to retrieve templates', 'TEMPLATES_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Create a personal template
+   * POST /api/v1/templates
+   */
+  async createTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { name, description, sections } = req.body;
+      const template = await TemplateService.createTemplate(req.user.userId, { name, description, sections });
+
+      res.status(201).json({
+        success: true,
+        data: template,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to create template', 'TEMPLATE_CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Change a personal template's name, description or sections
+   * PUT /api/v1/templates/:id
+   */
+  async updateTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const { name, description, sections } = req.body;
+      if (name === undefined && description === undefined && sections === undefined) {
+        throw new ValidationError('At least one field must be provided for update');
+      }
+
+      const template = await TemplateService.updateTemplate(req.user.userId, req.params.id, {
+        name,
+        description,
+        sections,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: template,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.handleError(error, 'Failed to update template', 'TEMPLATE_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Delete a personal template
+   * Entries written from it keep their fields
+   * DELETE /api/v1/templates/:id
+   */
+  async deleteTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const deleted = await TemplateService.deleteTemplate(req.user.userId, req.params.id);
+      if (!deleted) {
+        throw new NotFoundError('Template not found');
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, 'Failed to delete template', 'TEMPLATE_DELETE_FAILED');
+    }
+  }
+}
+
+export default new TemplateController();
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
 import { ApiError } from '../utils/errors.js';
+import { UserRole } from '../types/index.js';
 import UserController from './UserController.js';
 import UserService from '../services/UserService.js';
 
@@ -16,6 +17,7 @@ describe('UserController', () => {
       user: {
         userId: 'user-123',
         email: 'user@example.com',
+        role: UserRole.USER,
       },
       body: {},
     };
@@ -390,4 +392,37 @@ describe('UserController', () => {
       ).rejects.toThrow(ApiError);
     });
   });
+
+  describe('deleteAccount', () => {
+    it('should return the deletion receipt', async () => {
+      mockReq.body = { password: 'CurrentPass123!' };
+      (mockReq as { ip?: string }).ip = '203.0.113.7';
+      mockReq.get = jest.fn().mockReturnValue('jest') as unknown as AuthenticatedRequest['get'];
+      const receipt = { receiptId: 'receipt-1', userId: 'user-123', signature: 'signed-receipt' };
+
+      (UserService.deleteAccount as jest.Mock).mockResolvedValue(receipt);
+
+      await UserController.deleteAccount(mockReq as AuthenticatedRequest, mockRes as Response);
+
+      expect(UserService.deleteAccount).toHaveBeenCalledWith('user-123', 'CurrentPass123!', {
+        ip: '203.0.113.7',
+        userAgent: 'jest',
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true, data: receipt })
+      );
+    });
+
+    it('should reject an incorrect password', async () => {
+      mockReq.body = { password: 'WrongPass123!' };
+      mockReq.get = jest.fn() as unknown as AuthenticatedRequest['get'];
+
+      (UserService.deleteAccount as jest.Mock).mockRejectedValue(new Error('Password is incorrect'));
+
+      await expect(
+        UserController.deleteAccount(mockReq as AuthenticatedRequest, mockRes as Response)
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
 });
@@ -9,7 +9,10 @@ import {
 } from '../utils/errors.js';
 import UserService from '../services/UserService.js';
 import EntryService from '../services/EntryService.js';
+import SessionService from '../services/SessionService.js';
 import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/exportUtils.js';
+import logger from '../utils/logger.js';
 
 /**
  * UserController
@@ -280,20 +283,24 @@ export class UserController {
       }
 
       const format = (req.query.format as string)?.toLowerCase();
-      if (!format || !['pdf', 'json', 'txt'].includes(format)) {
-        throw new ValidationError('Invalid format. Use pdf, json, or txt.', {
-          format: 'Format must be pdf, json, or txt',
+      if (!format || !(EXPORT_FORMATS as readonly string[]).includes(format)) {
+        throw new ValidationError(`Invalid format. Use ${EXPORT_FORMATS.join(', ')}.`, {
+          format: `Format must be one of ${EXPORT_FORMATS.join(', ')}`,
         });
       }
 
-      const exportResult = await EntryService.exportEntries(
-        req.user.userId,
-        format as 'pdf' | 'json' | 'txt'
-      );
+      const userId = req.user.userId;
+      const exportResult = await EntryService.exportEntries(userId, format as ExportFormat);
 
       res.setHeader('Content-Type', exportResult.contentType);
       res.setHeader('Content-Disposition', `attachment; filename="${exportResult.filename}"`);
-      res.status(200).send(exportResult.data);
+      res.status(200);
+      // Headers are already sent when a file fails part way through, so the download is cut short
+      exportResult.stream.on('error', (error) => {
+        logger.error('Failed to stream entries export', { userId, format, error: error.message });
+        res.destroy(error);
+      });
+      exportResult.stream.pipe(res);
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -330,14 +337,16 @@ export class UserController {
         });
       }
 
-      await UserService.deleteAccount(req.user.userId, password);
+      const receipt = await UserService.deleteAccount(req.user.userId, password, {
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+      });
 
-      logAuditEvent(AuditEventType.ACCOUNT_DELETED, {
-        userId: req.user.userId,
+      res.status(200).json({
         success: true,
+        data: receipt,
+        timestamp: new Date().toISOString(),
       });
-
-      res.status(204).send();
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -360,6 +369,86 @@ export class UserController {
       throw new ApiError(500, 'Failed to delete account', 'ACCOUNT_DELETE_FAILED');
     }
   }
+
+  /**
+   * List the authenticated user's active sessions
+   * GET /api/v1/users/sessions
+   */
+  async getSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const sessions = await SessionService.listSessions(req.user.userId, req.user.sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: sessions,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      throw new ApiError(500, 'Failed to retrieve sessions', 'SESSIONS_RETRIEVAL_FAILED');
+    }
+  }
+
+  /**
+   * Sign out a single session
+   * DELETE /api/v1/users/sessions/:id
+   */
+  async revokeSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const revoked = await SessionService.revokeSession(req.user.userId, req.params.id);
+      if (!revoked) {
+        throw new NotFoundError('Session not found');
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      throw new ApiError(500, 'Failed to revoke session', 'SESSION_REVOKE_FAILED');
+    }
+  }
+
+  /**
+   * Sign out every session except the current one
+   * DELETE /api/v1/users/sessions
+   */
+  async revokeOtherSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('Not authenticated');
+      }
+
+      const revokedCount = await SessionService.revokeOtherSessions(
+        req.user.userId,
+        req.user.sessionId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { revokedCount },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      throw new ApiError(500, 'Failed to revoke sessions', 'SESSIONS_REVOKE_FAILED');
+    }
+  }
 }
 
 export default new UserController();
@@ -5,6 +5,7 @@ import dotenv from 'dotenv';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './config/swagger.js';
 import { connectDatabase, disconnectDatabase } from './utils/database.js';
+import { disconnectRedis } from './utils/redis.js';
 import { requestLogger } from './middleware/requestLogger.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
 import { metricsMiddleware } from './middleware/metricsMiddleware.js';
@@ -12,12 +13,18 @@ import { validateEnv, getEnvConfig } from './utils/env.js';
 import { apiLimiter } from './middleware/rateLimiter.js';
 import { prometheusMiddleware } from './middleware/prometheusMiddleware.js';
 import { register as prometheusRegister } from './utils/prometheus.js';
+import { getJwks } from './utils/jwt.js';
 import authRoutes from './routes/authRoutes.js';
 import userRoutes from './routes/userRoutes.js';
 import entryRoutes from './routes/entryRoutes.js';
+import attachmentRoutes from './routes/attachmentRoutes.js';
 import adminRoutes from './routes/adminRoutes.js';
 import medicalRoutes from './routes/medicalRoutes.js';
 import aiRoutes from './routes/aiRoutes.js';
+import moodRoutes from './routes/moodRoutes.js';
+import tagRoutes from './routes/tagRoutes.js';
+import templateRoutes from './routes/templateRoutes.js';
+import promptRoutes from './routes/promptRoutes.js';
 import logger from './utils/logger.js';
 
 dotenv.config();
@@ -93,7 +100,9 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+  // Lets the web client read entry versions for If-Match
+  exposedHeaders: ['ETag'],
   maxAge: 86400, // 24 hours
 }));
 
@@ -202,6 +211,21 @@ app.get('/metrics', async (_req, res) => {
   }
 });
 
+// Public JWT verification keys, so other services can verify MicroCare tokens without a shared secret
+// Cached for less time than a rotated key waits before it signs tokens
+app.get('/.well-known/jwks.json', (_req, res) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=60');
+    res.json(getJwks());
+  } catch (error) {
+    res.status(500).json({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to load signing keys',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 // Swagger UI documentation
 app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   swaggerOptions: {
@@ -220,9 +244,16 @@ app.use(`${apiBase}/auth`, authRoutes);
 // User profile routes
 app.use(`${apiBase}/users`, userRoutes);
 
-// Journal entry routes
+// Journal entry routes, and the files attached to entries
+app.use(`${apiBase}/entries/:id/attachments`, attachmentRoutes);
 app.use(`${apiBase}/entries`, entryRoutes);
 
+// Mood vocabulary (public) and the user's tags
+app.use(`${apiBase}/moods`, moodRoutes);
+app.use(`${apiBase}/tags`, tagRoutes);
+app.use(`${apiBase}/templates`, templateRoutes);
+app.use(`${apiBase}/prompts`, promptRoutes);
+
 // Admin routes (protected by role middleware)
 app.use(`${apiBase}/admin`, adminRoutes);
 
@@ -290,6 +321,8 @@ async function startServer() {
           await disconnectDatabase();
           logger.info('Database connections closed');
 
+          await disconnectRedis();
+
           logger.info('Graceful shutdown completed successfully');
           process.exit(0);
         } catch (error) {
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MailMessage, MailTransport } from '../types/index.js';
+
+/**
+ * FileMailTransport
+ * Writes every message as a JSON file to an outbox directory instead of sending it
+ * Intended for local development and tests
+ */
+
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private outboxDir: string,
+    private from: string
+  ) {}
+
+  /**
+   * Write a message to the outbox
+   * @param message - The message to store
+   * @throws Error if the outbox cannot be written
+   */
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${crypto.randomBytes(4).toString('hex')}.json`;
+
+    try {
+      await fs.mkdir(this.outboxDir, { recursive: true });
+      await fs.writeFile(
+        path.join(this.outboxDir, fileName),
+        JSON.stringify({ from: this.from, ...message, sentAt: sentAt.toISOString() }, null, 2)
+      );
+    } catch (error) {
+      throw new Error(`Failed to write mail to outbox: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
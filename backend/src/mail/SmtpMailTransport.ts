@@ -0,0 +1,52 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from '../types/index.js';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * SmtpMailTransport
+ * Delivers mail through an SMTP relay
+ */
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: SmtpOptions) {
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && {
+        auth: { user: options.user, pass: options.password },
+      }),
+    });
+  }
+
+  /**
+   * Send a message via SMTP
+   * @param message - The message to send
+   * @throws Error if the relay rejects the message
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    } catch (error) {
+      throw new Error(`Failed to send mail: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
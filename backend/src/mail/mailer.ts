@@ -0,0 +1,42 @@
+import { MailMessage, MailTransport } from '../types/index.js';
+import { getEnvConfig } from '../utils/env.js';
+import { FileMailTransport } from './FileMailTransport.js';
+import { SmtpMailTransport } from './SmtpMailTransport.js';
+
+/**
+ * Mail transport abstraction
+ * The driver is chosen with MAIL_DRIVER: `smtp` delivers real mail, `file` writes
+ * each message to an outbox directory for development and tests
+ */
+
+type MailConfig = ReturnType<typeof getEnvConfig>['mail'];
+
+/**
+ * Build a transport for the configured driver
+ * @param config - Mail settings (default: validated environment)
+ * @returns The mail transport
+ */
+export function createMailTransport(config: MailConfig = getEnvConfig().mail): MailTransport {
+  if (config.driver === 'smtp') {
+    return new SmtpMailTransport({ ...config.smtp, from: config.from });
+  }
+
+  return new FileMailTransport(config.outboxDir, config.from);
+}
+
+let mailTransport: MailTransport | null = null;
+
+function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+  return mailTransport;
+}
+
+/**
+ * Send a message through the configured transport
+ * @param message - The message to send
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
@@ -0,0 +1,77 @@
+import { MailMessage } from '../types/index.js';
+
+/**
+ * Account email templates
+ * Each template returns a complete message with a plain-text and an HTML body
+ */
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderHtml(greeting: string, intro: string, url: string, label: string, outro: string): string {
+  return [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    `<p><a href="${escapeHtml(url)}">${escapeHtml(label)}</a></p>`,
+    `<p>${escapeHtml(outro)}</p>`,
+    '<p>— The MicroCare team</p>',
+  ].join('\n');
+}
+
+/**
+ * Email with a link to choose a new password
+ * @param to - Recipient address
+ * @param name - Recipient name
+ * @param resetUrl - Link to the reset page
+ * @param expiresInMinutes - How long the link stays valid
+ */
+export function passwordResetEmail(
+  to: string,
+  name: string,
+  resetUrl: string,
+  expiresInMinutes: number
+): MailMessage {
+  const greeting = `Hi ${name},`;
+  const intro = 'We received a request to reset your MicroCare password. Use the link below to choose a new one.';
+  const outro = `The link expires in ${expiresInMinutes} minutes and can only be used once. ` +
+    'Resetting your password signs you out on all devices. ' +
+    'If you did not ask for this, you can ignore this email.';
+
+  return {
+    to,
+    subject: 'Reset your MicroCare password',
+    text: `${greeting}\n\n${intro}\n\n${resetUrl}\n\n${outro}\n\n— The MicroCare team`,
+    html: renderHtml(greeting, intro, resetUrl, 'Reset password', outro),
+  };
+}
+
+/**
+ * Email with a link to confirm an address
+ * @param to - Recipient address
+ * @param name - Recipient name
+ * @param verifyUrl - Link to the verification page
+ * @param expiresInHours - How long the link stays valid
+ */
+export function emailVerificationEmail(
+  to: string,
+  name: string,
+  verifyUrl: string,
+  expiresInHours: number
+): MailMessage {
+  const greeting = `Hi ${name},`;
+  const intro = 'Please confirm that this is your email address for MicroCare.';
+  const outro = `The link expires in ${expiresInHours} hours. ` +
+    'If you did not create a MicroCare account, you can ignore this email.';
+
+  return {
+    to,
+    subject: 'Confirm your email address',
+    text: `${greeting}\n\n${intro}\n\n${verifyUrl}\n\n${outro}\n\n— The MicroCare team`,
+    html: renderHtml(greeting, intro, verifyUrl, 'Confirm email address', outro),
+  };
+}
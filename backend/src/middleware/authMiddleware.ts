@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../utils/jwt.js';
 import { ApiError } from './errorHandler.js';
+import SessionService from '../services/SessionService.js';
+import PersonalAccessTokenService from '../services/PersonalAccessTokenService.js';
+import { TokenScope, UserRole } from '../types/index.js';
 
 /**
  * Extended Request interface with authenticated user data
@@ -9,24 +12,53 @@ export interface AuthenticatedRequest extends Request {
   user?: {
     userId: string;
     email: string;
-    role?: string;
+    sessionId?: string;
+    role: UserRole;
+    // Only set for personal access tokens, which are limited to these scopes
+    scopes?: TokenScope[];
+  };
+}
+
+/**
+ * Authenticate a personal access token and record its use
+ * @param token - The bearer credential
+ * @param req - The request being authenticated
+ * @returns The user information to attach to the request
+ */
+async function authenticatePersonalAccessToken(
+  token: string,
+  req: AuthenticatedRequest
+): Promise<NonNullable<AuthenticatedRequest['user']>> {
+  const authenticated = await PersonalAccessTokenService.authenticate(token);
+
+  // Not awaited: last-used tracking must not slow down the request
+  void PersonalAccessTokenService.touchToken(authenticated.tokenId, req.ip);
+
+  return {
+    userId: authenticated.userId,
+    email: authenticated.email,
+    role: authenticated.role,
+    scopes: authenticated.scopes,
   };
 }
 
 /**
  * Authentication middleware
  * Verifies JWT token from Authorization header and attaches user info to request
+ * Personal access tokens are accepted in place of a JWT and carry the scopes they were granted
  * 
  * Requirements: 1.3, 1.4
  * - Implements JWT verification middleware
  * - Extracts user information from token and attaches to request
  * - Handles expired and invalid tokens with 401 response
+ * - Rejects tokens whose session has been revoked (e.g. after logout)
+ * - Rejects tokens issued before the user's role last changed
  */
-export function authMiddleware(
+export async function authMiddleware(
   req: AuthenticatedRequest,
   _res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   try {
     // Extract token from Authorization header
     const authHeader = req.headers.authorization;
@@ -43,13 +75,34 @@ export function authMiddleware(
 
     const token = parts[1];
 
+    if (PersonalAccessTokenService.isPersonalAccessToken(token)) {
+      req.user = await authenticatePersonalAccessToken(token, req);
+      next();
+      return;
+    }
+
     // Verify token and extract payload
-    const payload = verifyAccessToken(token);
+    const payload = await verifyAccessToken(token);
+
+    // Tokens stop working once their session is revoked or the claims they carry are outdated
+    if (!(await SessionService.isAccessTokenCurrent(payload))) {
+      throw new ApiError(401, 'Token has been revoked');
+    }
+
+    if (payload.sessionId) {
+      // Not awaited: last-seen tracking must not slow down the request
+      void SessionService.touchSession(payload.sessionId, {
+        userAgent: req.get('user-agent') || undefined,
+        ipAddress: req.ip,
+      });
+    }
 
     // Attach user information to request
     req.user = {
       userId: payload.userId,
       email: payload.email,
+      sessionId: payload.sessionId,
+      role: payload.role,
     };
 
     next();
@@ -80,11 +133,11 @@ export function authMiddleware(
  * Attempts to authenticate but doesn't fail if token is missing or invalid
  * Useful for endpoints that work with or without authentication
  */
-export function optionalAuthMiddleware(
+export async function optionalAuthMiddleware(
   req: AuthenticatedRequest,
   _res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   try {
     const authHeader = req.headers.authorization;
 
@@ -103,13 +156,27 @@ export function optionalAuthMiddleware(
 
     const token = parts[1];
 
+    if (PersonalAccessTokenService.isPersonalAccessToken(token)) {
+      req.user = await authenticatePersonalAccessToken(token, req);
+      next();
+      return;
+    }
+
     // Try to verify token
-    const payload = verifyAccessToken(token);
+    const payload = await verifyAccessToken(token);
+
+    if (!(await SessionService.isAccessTokenCurrent(payload))) {
+      // Revoked or outdated token, continue without authentication
+      next();
+      return;
+    }
 
     // Attach user information if token is valid
     req.user = {
       userId: payload.userId,
       email: payload.email,
+      sessionId: payload.sessionId,
+      role: payload.role,
     };
 
     next();
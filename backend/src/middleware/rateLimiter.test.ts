@@ -0,0 +1,112 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { createLoginLimiter, loginIpKeyGenerator, loginKeyGenerator } from './rateLimiter';
+import { register } from '../utils/prometheus';
+
+// Tests use the in-memory store, so Redis is never contacted
+jest.mock('../utils/redis.js', () => ({ getRedisClient: jest.fn() }));
+
+describe('Rate Limiter', () => {
+  describe('loginKeyGenerator', () => {
+    it('should key by IP address and normalized email', () => {
+      const req = { ip: '203.0.113.7', body: { email: ' User@Example.com ' } } as Request;
+
+      expect(loginKeyGenerator(req)).toBe('203.0.113.7:user@example.com');
+    });
+
+    it('should key by IP address alone when there is no email', () => {
+      const req = { ip: '203.0.113.7', body: { mfaToken: 'token' } } as Request;
+
+      expect(loginKeyGenerator(req)).toBe('203.0.113.7');
+    });
+
+    it('should group IPv6 addresses by subnet', () => {
+      const first = { ip: '2001:db8::1', body: {} } as Request;
+      const second = { ip: '2001:db8::2', body: {} } as Request;
+
+      expect(loginKeyGenerator(first)).toBe(loginKeyGenerator(second));
+    });
+  });
+
+  describe('loginIpKeyGenerator', () => {
+    it('should key by IP address whatever the email', () => {
+      const req = { ip: '203.0.113.7', body: { email: 'user@example.com' } } as Request;
+
+      expect(loginIpKeyGenerator(req)).toBe('203.0.113.7');
+    });
+  });
+
+  describe('createLoginLimiter', () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/login', createLoginLimiter({ ipMax: 20, delayAfter: 1, max: 3 }), (req: Request, res: Response) => {
+      if (req.body.password === 'correct') {
+        res.status(200).json({ success: true });
+      } else {
+        res.status(401).json({ success: false });
+      }
+    });
+
+    const login = (email: string, password: string) =>
+      request(app).post('/login').send({ email, password });
+
+    it('should only count failed attempts', async () => {
+      for (let i = 0; i < 5; i++) {
+        await login('success@example.com', 'correct').expect(200);
+      }
+    });
+
+    it('should delay repeated failures progressively', async () => {
+      await login('slow@example.com', 'wrong').expect(401);
+
+      const startedAt = Date.now();
+      await login('slow@example.com', 'wrong').expect(401);
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(450);
+      expect(await register.getSingleMetricAsString('rate_limit_throttled_total')).toContain(
+        'limiter="login",action="delayed"'
+      );
+    });
+
+    it('should block an account after repeated failures', async () => {
+      for (let i = 0; i < 3; i++) {
+        await login('target@example.com', 'wrong').expect(401);
+      }
+
+      const response = await login('target@example.com', 'wrong').expect(429);
+
+      expect(response.body.error.code).toBe('RATE_LIMIT_EXCEEDED');
+      expect(await register.getSingleMetricAsString('rate_limit_throttled_total')).toContain(
+        'limiter="login",action="blocked"'
+      );
+    }, 10000);
+
+    it('should not throttle other accounts from the same address', async () => {
+      await login('other@example.com', 'wrong').expect(401);
+    });
+  });
+
+  describe('createLoginLimiter per address', () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/login', createLoginLimiter({ ipMax: 4, delayAfter: 10, max: 10 }), (_req: Request, res: Response) => {
+      res.status(401).json({ success: false });
+    });
+
+    it('should block an address that fails against many accounts', async () => {
+      for (let i = 0; i < 4; i++) {
+        await request(app).post('/login').send({ email: `user${i}@example.com`, password: 'wrong' }).expect(401);
+      }
+
+      const response = await request(app)
+        .post('/login')
+        .send({ email: 'another@example.com', password: 'wrong' })
+        .expect(429);
+
+      expect(response.body.error.code).toBe('RATE_LIMIT_EXCEEDED');
+      expect(await register.getSingleMetricAsString('rate_limit_throttled_total')).toContain(
+        'limiter="login-ip",action="blocked"'
+      );
+    });
+  });
+});
@@ -1,35 +1,97 @@
-import rateLimit from 'express-rate-limit';
+import { Request, Response } from 'express';
+import rateLimit, { ipKeyGenerator, Store } from 'express-rate-limit';
+import { slowDown } from 'express-slow-down';
+import { RedisStore, RedisReply } from 'rate-limit-redis';
+import { getRedisClient } from '../utils/redis.js';
+import { rateLimitThrottledTotal } from '../utils/prometheus.js';
 
 /**
  * Rate limiting middleware for authentication endpoints
  * Prevents brute force attacks on login and registration endpoints
- * 
+ *
+ * Hit counts are kept in Redis so limits are shared by every API replica and
+ * survive restarts. If Redis is unreachable, requests are let through rather than failing.
+ *
  * Requirements: 4.5
  */
 
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * Create the hit count store for a limiter
+ * Tests use express-rate-limit's in-memory store so they do not need Redis
+ * @param prefix - Key prefix that keeps each limiter's counts apart
+ * @returns A Redis store, or undefined for the default in-memory store
+ */
+function createStore(prefix: string): Store | undefined {
+  if (process.env.NODE_ENV === 'test') {
+    return undefined;
+  }
+
+  const store = new RedisStore({
+    prefix: `rl:${prefix}:`,
+    sendCommand: (command: string, ...args: string[]) =>
+      getRedisClient().call(command, ...args) as Promise<RedisReply>,
+  });
+
+  // The store loads its scripts as soon as it is created and loads them again on first use
+  // if that failed, so a failure here (e.g. Redis still starting) must not be left unhandled
+  store.incrementScriptSha.catch(() => undefined);
+  store.getScriptSha.catch(() => undefined);
+
+  return store;
+}
+
+/**
+ * Build a 429 handler that records the rejection
+ * @param limiter - The limiter name used as the metric label
+ * @param message - The error message returned to the client
+ */
+function createHandler(limiter: string, message: string) {
+  return (_req: Request, res: Response) => {
+    rateLimitThrottledTotal.inc({ limiter, action: 'blocked' });
+
+    res.status(429).json({
+      success: false,
+      error: {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  };
+}
+
+/**
+ * Key login attempts by client IP and the account being signed in to
+ * so that one client guessing one account's password is throttled without
+ * locking out other users behind the same address
+ * @param req - The login request
+ * @returns The rate limit key
+ */
+export function loginKeyGenerator(req: Request): string {
+  const ip = ipKeyGenerator(req.ip || '');
+  const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+
+  return email ? `${ip}:${email}` : ip;
+}
+
 /**
  * Global API rate limiter
  * Provides baseline protection for all endpoints
  */
 export const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: process.env.NODE_ENV === 'production' ? 300 : 2000, // Higher limits in development
+  max: isProduction ? 300 : 2000, // Higher limits in development
   message: 'Too many requests, please try again later',
   standardHeaders: true,
   legacyHeaders: false,
+  store: createStore('api'),
+  passOnStoreError: true,
   skip: (req) => {
     return req.path === '/health' || req.path === '/metrics';
   },
-  handler: (_req, res) => {
-    res.status(429).json({
-      success: false,
-      error: {
-        code: 'RATE_LIMIT_EXCEEDED',
-        message: 'Too many requests, please try again later',
-      },
-      timestamp: new Date().toISOString(),
-    });
-  },
+  handler: createHandler('api', 'Too many requests, please try again later'),
 });
 
 /**
@@ -42,44 +104,89 @@ export const authLimiter = rateLimit({
   message: 'Too many authentication attempts, please try again later',
   standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
   legacyHeaders: false, // Disable `X-RateLimit-*` headers
+  store: createStore('auth'),
+  passOnStoreError: true,
   skip: (req) => {
     // Skip rate limiting for health checks
     return req.path === '/health';
   },
-  handler: (_req, res) => {
-    res.status(429).json({
-      success: false,
-      error: {
-        code: 'RATE_LIMIT_EXCEEDED',
-        message: 'Too many authentication attempts, please try again later',
-      },
-      timestamp: new Date().toISOString(),
-    });
-  },
+  handler: createHandler('auth', 'Too many authentication attempts, please try again later'),
 });
 
+/**
+ * Key login attempts by client IP address alone
+ * @param req - The login request
+ * @returns The rate limit key
+ */
+export function loginIpKeyGenerator(req: Request): string {
+  return ipKeyGenerator(req.ip || '');
+}
+
+/**
+ * Build the login throttle
+ * Only failed attempts count. Failures are first capped per IP address, whatever
+ * accounts they are for, so one client cannot try a few passwords against many
+ * accounts. Then, per IP address and email, after `delayAfter` failures each further
+ * attempt waits half a second longer than the last, up to 10 seconds, and after `max`
+ * failures attempts are rejected until the window ends.
+ * @param limits - How many failures are allowed per address, and per account before delaying and before blocking
+ * @returns The address block, delay and account block middleware, to be applied in order
+ */
+export function createLoginLimiter(limits: { ipMax: number; delayAfter: number; max: number }) {
+  const windowMs = 15 * 60 * 1000; // 15 minutes
+
+  const ipBlock = rateLimit({
+    windowMs,
+    max: limits.ipMax,
+    message: 'Too many login attempts, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: loginIpKeyGenerator,
+    skipSuccessfulRequests: true,
+    store: createStore('login-ip'),
+    passOnStoreError: true,
+    handler: createHandler('login-ip', 'Too many login attempts, please try again later'),
+  });
+
+  const delay = slowDown({
+    windowMs,
+    delayAfter: limits.delayAfter,
+    delayMs: (used, req) => {
+      rateLimitThrottledTotal.inc({ limiter: 'login', action: 'delayed' });
+      return (used - req.slowDown.limit) * 500;
+    },
+    maxDelayMs: 10 * 1000,
+    keyGenerator: loginKeyGenerator,
+    skipSuccessfulRequests: true,
+    store: createStore('login-delay'),
+    passOnStoreError: true,
+  });
+
+  const block = rateLimit({
+    windowMs,
+    max: limits.max,
+    message: 'Too many login attempts, please try again later',
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: loginKeyGenerator,
+    skipSuccessfulRequests: true,
+    store: createStore('login'),
+    passOnStoreError: true,
+    handler: createHandler('login', 'Too many login attempts, please try again later'),
+  });
+
+  return [ipBlock, delay, block];
+}
+
 /**
  * Stricter rate limiter for login endpoint
- * Production: 3 requests per 15 minutes per IP address
- * Development: 50 requests per 15 minutes per IP address
+ * Production: blocks an IP address after 10 failed attempts per 15 minutes across all accounts,
+ * and delays from the 3rd and blocks after 5 failed attempts per account
+ * Development: 100 per IP address, delays from the 21st and blocks after 50 per account
  */
-export const loginLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: process.env.NODE_ENV === 'production' ? 3 : 50, // Lenient in development
-  message: 'Too many login attempts, please try again later',
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (_req, res) => {
-    res.status(429).json({
-      success: false,
-      error: {
-        code: 'RATE_LIMIT_EXCEEDED',
-        message: 'Too many login attempts, please try again later',
-      },
-      timestamp: new Date().toISOString(),
-    });
-  },
-});
+export const loginLimiter = isProduction
+  ? createLoginLimiter({ ipMax: 10, delayAfter: 2, max: 5 })
+  : createLoginLimiter({ ipMax: 100, delayAfter: 20, max: 50 }); // Lenient in development
 
 /**
  * Rate limiter for registration endpoint
@@ -88,18 +195,27 @@ export const loginLimiter = rateLimit({
  */
 export const registerLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
-  max: process.env.NODE_ENV === 'production' ? 3 : 20, // Lenient in development
+  max: isProduction ? 3 : 20, // Lenient in development
   message: 'Too many registration attempts, please try again later',
   standardHeaders: true,
   legacyHeaders: false,
-  handler: (_req, res) => {
-    res.status(429).json({
-      success: false,
-      error: {
-        code: 'RATE_LIMIT_EXCEEDED',
-        message: 'Too many registration attempts, please try again later',
-      },
-      timestamp: new Date().toISOString(),
-    });
-  },
+  store: createStore('register'),
+  passOnStoreError: true,
+  handler: createHandler('register', 'Too many registration attempts, please try again later'),
+});
+
+/**
+ * Rate limiter for password reset and email verification endpoints
+ * Production: 5 requests per hour per IP address
+ * Development: 50 requests per hour per IP address
+ */
+export const accountRecoveryLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isProduction ? 5 : 50, // Lenient in development
+  message: 'Too many requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  store: createStore('account-recovery'),
+  passOnStoreError: true,
+  handler: createHandler('account-recovery', 'Too many requests, please try again later'),
 });
@@ -6,34 +6,26 @@ import { UserRole } from '../types/index.js';
 /**
  * Role-based access control middleware
  * Checks if the authenticated user has one of the required roles
+ * The role comes from the access token, which authMiddleware has already checked is current
+ * Personal access tokens never grant role-based access, whatever their owner's role
  */
 export function requireRole(...allowedRoles: UserRole[]) {
-    return async (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+    return (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
         try {
             if (!req.user) {
                 throw new AuthorizationError('Authentication required');
             }
 
-            // Get user role from database (req.user only has userId and email from JWT)
-            const { default: UserRepository } = await import('../repositories/UserRepository.js');
-            const user = await UserRepository.findById(req.user.userId);
-
-            if (!user) {
-                throw new AuthorizationError('User not found');
+            if (req.user.scopes) {
+                throw new AuthorizationError('Access denied. Personal access tokens cannot be used here');
             }
 
-            if (!allowedRoles.includes(user.role as UserRole)) {
+            if (!allowedRoles.includes(req.user.role)) {
                 throw new AuthorizationError(
                     `Access denied. Required role: ${allowedRoles.join(' or ')}`
                 );
             }
 
-            // Attach full user to request for downstream use
-            req.user = {
-                ...req.user,
-                role: user.role as UserRole,
-            };
-
             next();
         } catch (error) {
             next(error);
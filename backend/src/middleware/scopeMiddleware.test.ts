@@ -0,0 +1,70 @@
+import { Response, NextFunction } from 'express';
+import { requireScope, requireSession } from './scopeMiddleware';
+import { TokenScope, UserRole } from '../types/index';
+import { AuthorizationError } from '../utils/errors';
+
+describe('Scope Middleware', () => {
+  let mockReq: any;
+  let mockRes: Response;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    mockReq = {
+      user: {
+        userId: 'test-user-id',
+        email: 'test@example.com',
+        role: UserRole.USER,
+      },
+    };
+    mockRes = {} as Response;
+    mockNext = jest.fn();
+  });
+
+  describe('requireScope', () => {
+    it('should allow signed-in sessions without checking scopes', () => {
+      requireScope(TokenScope.ENTRIES_WRITE)(mockReq, mockRes, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should allow a token with the required scope', () => {
+      mockReq.user.scopes = [TokenScope.ENTRIES_READ, TokenScope.EXPORT];
+
+      requireScope(TokenScope.EXPORT)(mockReq, mockRes, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should deny a token without the required scope', () => {
+      mockReq.user.scopes = [TokenScope.ENTRIES_READ];
+
+      requireScope(TokenScope.ENTRIES_WRITE)(mockReq, mockRes, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthorizationError));
+    });
+
+    it('should deny unauthenticated requests', () => {
+      mockReq.user = undefined;
+
+      requireScope(TokenScope.ENTRIES_READ)(mockReq, mockRes, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthorizationError));
+    });
+  });
+
+  describe('requireSession', () => {
+    it('should allow signed-in sessions', () => {
+      requireSession(mockReq, mockRes, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should deny personal access tokens whatever their scopes', () => {
+      mockReq.user.scopes = Object.values(TokenScope);
+
+      requireSession(mockReq, mockRes, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthorizationError));
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './authMiddleware.js';
+import { AuthorizationError } from '../utils/errors.js';
+import { TokenScope } from '../types/index.js';
+
+/**
+ * Personal access token scope middleware
+ * Requests signed in with a session are not limited by scopes; requests made with a
+ * personal access token may only reach routes that one of the token's scopes allows
+ */
+export function requireScope(...allowedScopes: TokenScope[]) {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      if (req.user.scopes && !allowedScopes.some((scope) => req.user!.scopes!.includes(scope))) {
+        throw new AuthorizationError(
+          `Access denied. Required scope: ${allowedScopes.join(' or ')}`
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Middleware for routes that personal access tokens may not use at all,
+ * such as account, security and token management
+ */
+export function requireSession(req: AuthenticatedRequest, _res: Response, next: NextFunction): void {
+  if (!req.user) {
+    next(new AuthorizationError('Authentication required'));
+    return;
+  }
+
+  if (req.user.scopes) {
+    next(new AuthorizationError('Access denied. This endpoint cannot be used with a personal access token'));
+    return;
+  }
+
+  next();
+}
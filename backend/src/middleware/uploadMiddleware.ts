@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { ApiError, ValidationError } from '../utils/errors.js';
+import { getEnvConfig } from '../utils/env.js';
+
+/**
+ * Upload Middleware
+ * Parses multipart/form-data requests carrying a single file
+ *
+ * - The file is kept in memory, since it is encrypted before it is stored
+ * - Files over the size limit (ATTACHMENT_MAX_BYTES by default) are rejected with 413 Payload Too Large
+ * - Requests with other fields or more than one file are rejected with 400 Bad Request
+ */
+
+/**
+ * Create a middleware that accepts one file in a form field
+ *
+ * @param fieldName - The form field carrying the file
+ * @param getMaxBytes - Reads the largest file accepted, in bytes, from the configuration
+ * @returns Express middleware function; the file is available as req.file
+ */
+export function uploadSingleFile(
+  fieldName: string,
+  getMaxBytes: () => number = () => getEnvConfig().attachments.maxBytes
+) {
+  // Built on first use, once the environment has been validated
+  let upload: ReturnType<multer.Multer['single']> | null = null;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload ??= multer({
+      storage: multer.memoryStorage(),
+      limits: {
+        fileSize: getMaxBytes(),
+        files: 1,
+        fields: 0,
+      },
+    }).single(fieldName);
+
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          const maxBytes = getMaxBytes();
+          next(new ApiError(413, `File must be at most ${maxBytes} bytes`, 'FILE_TOO_LARGE', { maxBytes }));
+          return;
+        }
+        next(new ValidationError(`Invalid upload: ${error.message}`));
+        return;
+      }
+      if (error) {
+        next(new ValidationError('Invalid upload: the request must be multipart/form-data'));
+        return;
+      }
+      next();
+    });
+  };
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 import { Queue } from 'bullmq';
 dotenv.config();
@@ -21,12 +22,72 @@ function getAnalysisQueue(): Queue<EntryAnalysisJob> {
   return analysisQueue;
 }
 
+/**
+ * The set of a user's analysis job IDs, so their jobs can be found without listing everyone's
+ * It can also hold IDs of jobs the queue already removed; those are dropped when the jobs
+ * are purged.
+ */
+function userJobsKey(queue: Queue<EntryAnalysisJob>, userId: string): string {
+  return queue.toKey(`user-jobs:${userId}`);
+}
+
 export async function enqueueEntryAnalysis(job: EntryAnalysisJob): Promise<void> {
   const queue = getAnalysisQueue();
+  // Recorded before the job is added, so a job is never left out of the user's set
+  const jobId = crypto.randomUUID();
+  await (await queue.client).sadd(userJobsKey(queue, job.userId), jobId);
   await queue.add('analyze-entry', job, {
+    jobId,
     attempts: 3,
     backoff: { type: 'exponential', delay: 5000 },
     removeOnComplete: 100,
     removeOnFail: 1000,
   });
 }
+
+// How long purging a user's analysis jobs waits for their running jobs to finish
+const ACTIVE_JOB_WAIT_MS = 30 * 1000;
+const ACTIVE_JOB_POLL_MS = 500;
+
+/**
+ * Remove all of a user's analysis jobs, since they hold the entry's plaintext
+ * Jobs being processed cannot be removed and could still write an insight, so this
+ * waits until the user has none running and removes those too once they finish.
+ * @param userId - The user whose jobs to remove
+ * @returns The number of jobs removed
+ * @throws Error if the user's jobs are still running after the wait
+ */
+export async function purgeEntryAnalysisJobs(userId: string): Promise<number> {
+  const queue = getAnalysisQueue();
+  const client = await queue.client;
+  const key = userJobsKey(queue, userId);
+  const deadline = Date.now() + ACTIVE_JOB_WAIT_MS;
+
+  let purged = 0;
+  for (;;) {
+    let running = false;
+
+    for (const jobId of await client.smembers(key)) {
+      const job = await queue.getJob(jobId);
+      if (job) {
+        try {
+          await job.remove();
+          purged++;
+        } catch {
+          // Being processed, so locked by the worker
+          running = true;
+          continue;
+        }
+      }
+      await client.srem(key, jobId);
+    }
+
+    if (!running) {
+      return purged;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error('Analysis jobs for the user are still running');
+    }
+    await new Promise((resolve) => setTimeout(resolve, ACTIVE_JOB_POLL_MS));
+  }
+}
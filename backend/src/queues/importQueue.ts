@@ -0,0 +1,31 @@
+import { Queue } from 'bullmq';
+import { connection } from './analysisQueue.js';
+
+export const importQueueName = 'entry-import';
+
+export interface ImportJob {
+  importId: string;
+}
+
+export const IMPORT_ATTEMPTS = 3;
+
+let importQueue: Queue<ImportJob> | null = null;
+
+function getImportQueue(): Queue<ImportJob> {
+  if (!importQueue) {
+    importQueue = new Queue<ImportJob>(importQueueName, { connection });
+  }
+  return importQueue;
+}
+
+export async function enqueueImport(job: ImportJob): Promise<void> {
+  const queue = getImportQueue();
+  // Imports resume after the rows they already processed, so a retry picks up where the failed attempt stopped
+  await queue.add('import-entries', job, {
+    jobId: job.importId,
+    attempts: IMPORT_ATTEMPTS,
+    backoff: { type: 'exponential', delay: 30000 },
+    removeOnComplete: 100,
+    removeOnFail: 1000,
+  });
+}
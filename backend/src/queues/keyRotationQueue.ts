@@ -0,0 +1,29 @@
+import { Queue } from 'bullmq';
+import { connection } from './analysisQueue.js';
+
+export const keyRotationQueueName = 'key-rotation';
+
+export interface KeyRotationJob {
+  rotationId: string;
+}
+
+let keyRotationQueue: Queue<KeyRotationJob> | null = null;
+
+function getKeyRotationQueue(): Queue<KeyRotationJob> {
+  if (!keyRotationQueue) {
+    keyRotationQueue = new Queue<KeyRotationJob>(keyRotationQueueName, { connection });
+  }
+  return keyRotationQueue;
+}
+
+export async function enqueueKeyRotation(job: KeyRotationJob): Promise<void> {
+  const queue = getKeyRotationQueue();
+  // Rotations resume from their checkpoint, so a retry picks up where the failed attempt stopped
+  await queue.add('rotate-data-keys', job, {
+    jobId: job.rotationId,
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 60000 },
+    removeOnComplete: 100,
+    removeOnFail: 1000,
+  });
+}
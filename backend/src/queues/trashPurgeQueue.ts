@@ -0,0 +1,35 @@
+import { Queue } from 'bullmq';
+import { connection } from './analysisQueue.js';
+
+export const trashPurgeQueueName = 'trash-purge';
+
+// How often expired entries are purged from the trash
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let trashPurgeQueue: Queue | null = null;
+
+function getTrashPurgeQueue(): Queue {
+  if (!trashPurgeQueue) {
+    trashPurgeQueue = new Queue(trashPurgeQueueName, { connection });
+  }
+  return trashPurgeQueue;
+}
+
+/**
+ * Register the repeatable job that purges expired entries from the trash
+ * Safe to call on every worker start: the schedule is replaced rather than added twice
+ */
+export async function scheduleTrashPurge(): Promise<void> {
+  const queue = getTrashPurgeQueue();
+  await queue.upsertJobScheduler(
+    'purge-expired-trash',
+    { every: PURGE_INTERVAL_MS },
+    {
+      name: 'purge-expired-trash',
+      opts: {
+        removeOnComplete: 100,
+        removeOnFail: 1000,
+      },
+    }
+  );
+}
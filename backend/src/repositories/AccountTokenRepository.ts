@@ -0,0 +1,71 @@
+import { PrismaClient } from '@prisma/client';
+import { AccountTokenPurpose } from '../types/index.js';
+
+/**
+ * AccountTokenRepository
+ * Handles all database operations related to password reset and email verification tokens
+ */
+
+const prisma = new PrismaClient();
+
+export class AccountTokenRepository {
+  /**
+   * Record a newly issued token
+   * @param userId - The user the token was issued to
+   * @param purpose - What the token may be used for
+   * @param tokenHash - Hash of the token's jti
+   * @param expiresAt - When the token stops being valid
+   */
+  async create(
+    userId: string,
+    purpose: AccountTokenPurpose,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<void> {
+    try {
+      await prisma.accountToken.create({
+        data: { userId, purpose, tokenHash, expiresAt },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create account token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark an unused, unexpired token as used
+   * @param userId - The user the token was issued to
+   * @param purpose - What the token is being used for
+   * @param tokenHash - Hash of the token's jti
+   * @returns True if the token was valid and has now been consumed
+   */
+  async consume(userId: string, purpose: AccountTokenPurpose, tokenHash: string): Promise<boolean> {
+    try {
+      const now = new Date();
+      const result = await prisma.accountToken.updateMany({
+        where: { userId, purpose, tokenHash, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new Error(`Failed to use account token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Invalidate every outstanding token of a user for one purpose
+   * @param userId - The user's ID
+   * @param purpose - The purpose to invalidate
+   */
+  async invalidateForUser(userId: string, purpose: AccountTokenPurpose): Promise<void> {
+    try {
+      await prisma.accountToken.updateMany({
+        where: { userId, purpose, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+    } catch (error) {
+      throw new Error(`Failed to invalidate account tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default new AccountTokenRepository();
@@ -0,0 +1,355 @@
+import { PrismaClient } from '@prisma/client';
+import { EntryAttachment } from '../types/index.js';
+import { decryptText, encryptText } from '../utils/encryption.js';
+import DataKeyService, { ResolvedDataKey } from '../services/DataKeyService.js';
+
+/**
+ * AttachmentRepository
+ * Handles all database operations related to entry attachments
+ * File names and file keys are encrypted with the owner's data key; the files themselves
+ * are encrypted with their file key and kept in the storage backend.
+ */
+
+const prisma = new PrismaClient();
+
+// An attachment with where its encrypted file is stored and the key to decrypt it
+export interface StoredAttachment extends EntryAttachment {
+  userId: string;
+  storageKey: string;
+  thumbnailKey: string | null;
+  fileKey: Buffer;
+  fileIv: string;
+  thumbnailIv: string | null;
+}
+
+export interface CreateAttachmentData {
+  entryId: string;
+  userId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  storageKey: string;
+  thumbnailKey: string | null;
+  fileKey: Buffer;
+  fileIv: string;
+  thumbnailIv: string | null;
+}
+
+export class AttachmentRepository {
+  /**
+   * Encrypt a file name and wrap a file key with a data key
+   * @returns The columns to store
+   */
+  private encryptSecrets(dataKey: ResolvedDataKey, fileName: string, fileKey: Buffer) {
+    const encryptedName = encryptText(fileName, dataKey.key);
+    const wrappedKey = encryptText(fileKey.toString('base64'), dataKey.key);
+
+    return {
+      fileName: encryptedName.cipherText,
+      fileNameIv: encryptedName.iv,
+      fileNameTag: encryptedName.tag,
+      fileKey: wrappedKey.cipherText,
+      fileKeyIv: wrappedKey.iv,
+      fileKeyTag: wrappedKey.tag,
+      dataKeyId: dataKey.id,
+    };
+  }
+
+  /**
+   * Decrypt the file name and unwrap the file key of a stored attachment
+   */
+  private async decryptSecrets(attachment: any): Promise<{ fileName: string; fileKey: Buffer }> {
+    if (!attachment.dataKeyId) {
+      throw new Error(`Data key for attachment ${attachment.id} no longer exists`);
+    }
+    const key = await DataKeyService.getKey(attachment.dataKeyId, attachment.userId);
+
+    return {
+      fileName: decryptText(
+        { cipherText: attachment.fileName, iv: attachment.fileNameIv, tag: attachment.fileNameTag },
+        key
+      ),
+      fileKey: Buffer.from(
+        decryptText({ cipherText: attachment.fileKey, iv: attachment.fileKeyIv, tag: attachment.fileKeyTag }, key),
+        'base64'
+      ),
+    };
+  }
+
+  private toAttachment(attachment: any, fileName: string): EntryAttachment {
+    return {
+      id: attachment.id,
+      entryId: attachment.entryId,
+      fileName,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      hasThumbnail: !!attachment.thumbnailKey,
+      createdAt: attachment.createdAt,
+    };
+  }
+
+  private async toStoredAttachment(attachment: any): Promise<StoredAttachment> {
+    const { fileName, fileKey } = await this.decryptSecrets(attachment);
+
+    return {
+      ...this.toAttachment(attachment, fileName),
+      userId: attachment.userId,
+      storageKey: attachment.storageKey,
+      thumbnailKey: attachment.thumbnailKey,
+      fileKey,
+      fileIv: attachment.fileIv,
+      thumbnailIv: attachment.thumbnailIv,
+    };
+  }
+
+  /**
+   * Record an attachment whose file has been stored
+   * @param data - The attachment, with its plaintext file name and file key
+   * @returns The created attachment
+   */
+  async create(data: CreateAttachmentData): Promise<EntryAttachment> {
+    try {
+      const dataKey = await DataKeyService.getActiveKey(data.userId);
+      const attachment = await prisma.entryAttachment.create({
+        data: {
+          entryId: data.entryId,
+          userId: data.userId,
+          contentType: data.contentType,
+          size: data.size,
+          storageKey: data.storageKey,
+          thumbnailKey: data.thumbnailKey,
+          fileIv: data.fileIv,
+          thumbnailIv: data.thumbnailIv,
+          ...this.encryptSecrets(dataKey, data.fileName, data.fileKey),
+        },
+      });
+
+      return this.toAttachment(attachment, data.fileName);
+    } catch (error) {
+      throw new Error(
+        `Failed to create attachment: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find the attachments of an entry, oldest first
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   */
+  async findByEntryId(entryId: string, userId: string): Promise<EntryAttachment[]> {
+    try {
+      const attachments = await prisma.entryAttachment.findMany({
+        where: { entryId, userId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+
+      return await Promise.all(
+        attachments.map(async (attachment) =>
+          this.toAttachment(attachment, (await this.decryptSecrets(attachment)).fileName)
+        )
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to find attachments: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find an attachment of an entry with what is needed to read its file
+   * @param id - The attachment's ID
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @returns The attachment, or null if it is not on the user's entry
+   */
+  async findStoredById(id: string, entryId: string, userId: string): Promise<StoredAttachment | null> {
+    try {
+      const attachment = await prisma.entryAttachment.findFirst({
+        where: { id, entryId, userId },
+      });
+
+      return attachment ? await this.toStoredAttachment(attachment) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to find attachment: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find all of a user's attachments on entries that are not in the trash (for export)
+   */
+  async findAllStoredByUserId(userId: string): Promise<StoredAttachment[]> {
+    try {
+      const attachments = await prisma.entryAttachment.findMany({
+        where: { userId, entry: { deletedAt: null } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+
+      return await Promise.all(attachments.map((attachment) => this.toStoredAttachment(attachment)));
+    } catch (error) {
+      throw new Error(
+        `Failed to export attachments: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async countByEntryId(entryId: string): Promise<number> {
+    return prisma.entryAttachment.count({ where: { entryId } });
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    return prisma.entryAttachment.count({ where: { userId } });
+  }
+
+  /**
+   * Delete an attachment of an entry
+   * @param id - The attachment's ID
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @returns The storage keys of its files, or null if it is not on the user's entry
+   */
+  async delete(id: string, entryId: string, userId: string): Promise<string[] | null> {
+    try {
+      const attachment = await prisma.entryAttachment.findFirst({
+        where: { id, entryId, userId },
+        select: { storageKey: true, thumbnailKey: true },
+      });
+      if (!attachment) {
+        return null;
+      }
+
+      const { count } = await prisma.entryAttachment.deleteMany({ where: { id, entryId, userId } });
+      return count > 0 ? storageKeysOf([attachment]) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to delete attachment: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find the storage keys of the files attached to an entry
+   * Read before the entry is deleted, since its attachments are deleted with it
+   */
+  async findStorageKeysByEntryId(entryId: string, userId: string): Promise<string[]> {
+    const attachments = await prisma.entryAttachment.findMany({
+      where: { entryId, userId },
+      select: { storageKey: true, thumbnailKey: true },
+    });
+    return storageKeysOf(attachments);
+  }
+
+  /**
+   * Find the storage keys of all of a user's files
+   * Read before the account is deleted, since its attachments are deleted with it
+   */
+  async findStorageKeysByUserId(userId: string): Promise<string[]> {
+    const attachments = await prisma.entryAttachment.findMany({
+      where: { userId },
+      select: { storageKey: true, thumbnailKey: true },
+    });
+    return storageKeysOf(attachments);
+  }
+
+  /**
+   * Delete a batch of attachments, across all users, of entries moved to the trash before a cutoff
+   * @param cutoff - Attachments of entries trashed before this time are deleted
+   * @param limit - The batch size
+   * @returns How many attachments were examined, and the storage keys of the files of those deleted
+   */
+  async deleteTrashedBefore(cutoff: Date, limit: number): Promise<{ count: number; storageKeys: string[] }> {
+    try {
+      const attachments = await prisma.entryAttachment.findMany({
+        where: { entry: { deletedAt: { lt: cutoff } } },
+        select: { id: true, storageKey: true, thumbnailKey: true },
+        take: limit,
+      });
+
+      if (attachments.length === 0) {
+        return { count: 0, storageKeys: [] };
+      }
+
+      // Re-checked so the attachments of an entry restored since the batch was read are kept
+      const ids = attachments.map((attachment) => attachment.id);
+      await prisma.entryAttachment.deleteMany({
+        where: { id: { in: ids }, entry: { deletedAt: { lt: cutoff } } },
+      });
+      const kept = new Set(
+        (await prisma.entryAttachment.findMany({ where: { id: { in: ids } }, select: { id: true } })).map(
+          (attachment) => attachment.id
+        )
+      );
+
+      return {
+        count: attachments.length,
+        storageKeys: storageKeysOf(attachments.filter((attachment) => !kept.has(attachment.id))),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to purge trashed attachments: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Re-wrap a batch of a user's file keys and re-encrypt their file names with a given data key
+   * Used by key rotation. The files are not rewritten, since they are encrypted with their
+   * own keys.
+   * @param userId - The attachments' owner
+   * @param dataKey - The key to re-encrypt with, or null for a dry run that only checks
+   * every attachment can be decrypted
+   * @param afterId - Only consider attachments with a greater ID (the previous batch's last ID)
+   * @param limit - The batch size
+   * @returns The number of attachments re-encrypted (or that would be), and the last ID
+   * examined, which is null once there are no attachments left
+   */
+  async reencryptBatch(
+    userId: string,
+    dataKey: ResolvedDataKey | null,
+    afterId: string | null,
+    limit: number
+  ): Promise<{ count: number; lastId: string | null }> {
+    try {
+      const attachments = await prisma.entryAttachment.findMany({
+        where: {
+          userId,
+          ...(afterId && { id: { gt: afterId } }),
+          ...(dataKey && { OR: [{ dataKeyId: null }, { dataKeyId: { not: dataKey.id } }] }),
+        },
+        orderBy: { id: 'asc' },
+        take: limit,
+      });
+
+      let count = 0;
+      for (const attachment of attachments) {
+        const { fileName, fileKey } = await this.decryptSecrets(attachment);
+        if (!dataKey) {
+          count++;
+          continue;
+        }
+
+        const updated = await prisma.entryAttachment.updateMany({
+          where: { id: attachment.id, dataKeyId: attachment.dataKeyId },
+          data: this.encryptSecrets(dataKey, fileName, fileKey),
+        });
+        count += updated.count;
+      }
+
+      return { count, lastId: attachments.length > 0 ? attachments[attachments.length - 1].id : null };
+    } catch (error) {
+      throw new Error(
+        `Failed to re-encrypt attachments: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
+
+function storageKeysOf(attachments: { storageKey: string; thumbnailKey: string | null }[]): string[] {
+  return attachments.flatMap((attachment) =>
+    attachment.thumbnailKey ? [attachment.storageKey, attachment.thumbnailKey] : [attachment.storageKey]
+  );
+}
+
+export default new AttachmentRepository();
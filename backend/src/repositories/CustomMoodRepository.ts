@@ -0,0 +1,106 @@
+import { PrismaClient } from '@prisma/client';
+import { CustomMood } from '../types/index.js';
+
+/**
+ * CustomMoodRepository
+ * Handles all database operations related to users' custom moods
+ */
+
+const prisma = new PrismaClient();
+
+export class CustomMoodRepository {
+  /**
+   * Create a custom mood
+   * @param data - The custom mood data
+   * @returns The created custom mood
+   */
+  async create(data: {
+    userId: string;
+    label: string;
+    emoji: string | null;
+    baseMood: string;
+    valence: number;
+  }): Promise<CustomMood> {
+    try {
+      return await prisma.customMood.create({ data });
+    } catch (error) {
+      throw new Error(`Failed to create custom mood: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find every custom mood of a user
+   * @param userId - The owner
+   * @returns The custom moods, alphabetically
+   */
+  async findByUserId(userId: string): Promise<CustomMood[]> {
+    try {
+      return await prisma.customMood.findMany({
+        where: { userId },
+        orderBy: { label: 'asc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find custom moods: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Count the custom moods of a user
+   * @param userId - The owner
+   * @returns The number of custom moods
+   */
+  async countByUserId(userId: string): Promise<number> {
+    try {
+      return await prisma.customMood.count({ where: { userId } });
+    } catch (error) {
+      throw new Error(`Failed to count custom moods: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update a custom mood
+   * @param id - The custom mood ID
+   * @param userId - The owner
+   * @param data - The fields to change
+   * @returns The updated custom mood, or null if the user has no such custom mood
+   */
+  async update(
+    id: string,
+    userId: string,
+    data: { label?: string; emoji?: string | null; valence?: number }
+  ): Promise<CustomMood | null> {
+    try {
+      const { count } = await prisma.customMood.updateMany({
+        where: { id, userId },
+        data,
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      return await prisma.customMood.findUnique({ where: { id } });
+    } catch (error) {
+      throw new Error(`Failed to update custom mood: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a custom mood
+   * Entries that used it keep the emotion as its base emotion
+   * @param id - The custom mood ID
+   * @param userId - The owner
+   * @returns True if the user's custom mood was deleted
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    try {
+      const { count } = await prisma.customMood.deleteMany({
+        where: { id, userId },
+      });
+      return count > 0;
+    } catch (error) {
+      throw new Error(`Failed to delete custom mood: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default new CustomMoodRepository();
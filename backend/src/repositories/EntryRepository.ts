@@ -1,6 +1,23 @@
-import { PrismaClient } from '@prisma/client';
-import { JournalEntry, PaginatedResponse } from '../types/index.js';
-import { decryptText, encryptText, isEncryptedPayload } from '../utils/encryption.js';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  JournalEntry,
+  EntryFilters,
+  EntrySearchResult,
+  PaginatedResponse,
+  CursorPaginatedResponse,
+  EntryRevision,
+  EntryStatus,
+  EntryEmotion,
+  EntryField,
+  TagCount,
+} from '../types/index.js';
+import { decryptText, encryptText, toEncryptedPayload, EncryptionVersion } from '../utils/encryption.js';
+import { buildIndexTerms, buildQueryTerms } from '../utils/searchIndex.js';
+import { isDateOnly, startOfDayInTimeZone } from '../utils/timezone.js';
+import { EntryCursor, encodeEntryCursor } from '../utils/cursor.js';
+import { emotionsForMood } from '../utils/moods.js';
+import { entryText } from '../utils/templates.js';
+import DataKeyService, { ResolvedDataKey } from '../services/DataKeyService.js';
 
 /**
  * EntryRepository
@@ -9,69 +26,317 @@ import { decryptText, encryptText, isEncryptedPayload } from '../utils/encryptio
 
 const prisma = new PrismaClient();
 
+// Entries are read with their emotions, strongest first
+const entryInclude = {
+  emotions: {
+    select: { mood: true, customMoodId: true, intensity: true },
+    orderBy: { intensity: 'desc' },
+  },
+} as const;
+
+// What an entry says, decrypted
+interface EntryPlaintext {
+  title: string;
+  content: string;
+  fields: EntryField[] | null;
+}
+
+interface EncryptedEntryFields {
+  title: string;
+  titleIv: string;
+  titleTag: string;
+  content: string;
+  contentIv: string;
+  contentTag: string;
+  fields: string | null;
+  fieldsIv: string | null;
+  fieldsTag: string | null;
+  encryptionVersion: number;
+  dataKeyId: string;
+}
+
 export class EntryRepository {
-  private async decryptEntry(entry: any): Promise<JournalEntry> {
-    const titleIsEncrypted = isEncryptedPayload({ iv: entry.titleIv, tag: entry.titleTag });
-    const contentIsEncrypted = isEncryptedPayload({ iv: entry.contentIv, tag: entry.contentTag });
+  /**
+   * Decrypt the title, content and template fields of a stored entry
+   * Entries written before per-user keys were introduced are encrypted with the global key,
+   * and entries older still are stored in plaintext. Template fields were only added once
+   * entries were encrypted with per-user keys.
+   */
+  private async decryptFields(entry: any): Promise<EntryPlaintext> {
+    const key = entry.encryptionVersion === EncryptionVersion.ENVELOPE
+      ? await this.getEntryKey(entry)
+      : undefined;
+
+    const title = toEncryptedPayload(entry.title, entry.titleIv, entry.titleTag);
+    const content = toEncryptedPayload(entry.content, entry.contentIv, entry.contentTag);
+    const fields = toEncryptedPayload(entry.fields, entry.fieldsIv, entry.fieldsTag);
+
+    return {
+      title: title ? decryptText(title, key) : entry.title,
+      content: content ? decryptText(content, key) : entry.content,
+      fields: fields ? JSON.parse(decryptText(fields, key)) : null,
+    };
+  }
 
-    let decryptedTitle = entry.title;
-    let decryptedContent = entry.content;
+  /**
+   * Resolve the data key an entry was encrypted with
+   */
+  private async getEntryKey(entry: any): Promise<Buffer> {
+    if (!entry.dataKeyId) {
+      throw new Error(`Data key for entry ${entry.id} no longer exists`);
+    }
+    return DataKeyService.getKey(entry.dataKeyId, entry.userId);
+  }
+
+  /**
+   * Encrypt a title, content and template fields with the user's active data key
+   * @returns The columns to store
+   */
+  private async encryptFields(userId: string, plaintext: EntryPlaintext): Promise<EncryptedEntryFields> {
+    return this.encryptFieldsWithKey(await DataKeyService.getActiveKey(userId), plaintext);
+  }
+
+  /**
+   * Encrypt a title, content and template fields with a specific data key
+   * @returns The columns to store
+   */
+  private encryptFieldsWithKey(dataKey: ResolvedDataKey, plaintext: EntryPlaintext): EncryptedEntryFields {
+    const encryptedTitle = encryptText(plaintext.title, dataKey.key);
+    const encryptedContent = encryptText(plaintext.content, dataKey.key);
+    const encryptedFields = plaintext.fields?.length
+      ? encryptText(JSON.stringify(plaintext.fields), dataKey.key)
+      : null;
 
-    if (titleIsEncrypted) {
-      decryptedTitle = decryptText({
-        cipherText: entry.title,
-        iv: entry.titleIv,
-        tag: entry.titleTag,
+    return {
+      title: encryptedTitle.cipherText,
+      titleIv: encryptedTitle.iv,
+      titleTag: encryptedTitle.tag,
+      content: encryptedContent.cipherText,
+      contentIv: encryptedContent.iv,
+      contentTag: encryptedContent.tag,
+      fields: encryptedFields?.cipherText ?? null,
+      fieldsIv: encryptedFields?.iv ?? null,
+      fieldsTag: encryptedFields?.tag ?? null,
+      encryptionVersion: EncryptionVersion.ENVELOPE,
+      dataKeyId: dataKey.id,
+    };
+  }
+
+  /**
+   * Build the nested write that replaces an entry's search index terms
+   * Template fields are indexed along with the content
+   */
+  private indexTermsWrite(userId: string, { title, content, fields }: EntryPlaintext) {
+    return {
+      deleteMany: {},
+      createMany: {
+        data: buildIndexTerms(userId, title, entryText(content, fields)).map((term) => ({ userId, ...term })),
+      },
+    };
+  }
+
+  /**
+   * Build the conditions selecting a user's entries that match a set of filters
+   * Entries in the trash never match. Date bounds given as days cover the whole day in
+   * the filter's time zone.
+   */
+  private buildFilterWhere(userId: string, filters: EntryFilters = {}): Prisma.JournalEntryWhereInput {
+    const timeZone = filters.timezone || 'UTC';
+    const conditions: Prisma.JournalEntryWhereInput[] = [{ userId, deletedAt: null }];
+
+    // Any of an entry's emotions can match, custom moods by their base emotion
+    if (filters.moods?.length) {
+      conditions.push({
+        OR: [{ mood: { in: filters.moods } }, { emotions: { some: { mood: { in: filters.moods } } } }],
       });
     }
 
-    if (contentIsEncrypted) {
-      decryptedContent = decryptText({
-        cipherText: entry.content,
-        iv: entry.contentIv,
-        tag: entry.contentTag,
+    if (filters.tags?.length) {
+      conditions.push({
+        tags: filters.tagMode === 'all' ? { hasEvery: filters.tags } : { hasSome: filters.tags },
       });
     }
 
-    if (!titleIsEncrypted || !contentIsEncrypted) {
-      await this.reencryptEntryIfNeeded(entry, decryptedTitle, decryptedContent);
+    if (filters.from) {
+      conditions.push({
+        createdAt: {
+          gte: isDateOnly(filters.from) ? startOfDayInTimeZone(filters.from, timeZone) : new Date(filters.from),
+        },
+      });
+    }
+
+    if (filters.to) {
+      conditions.push({
+        createdAt: isDateOnly(filters.to)
+          ? { lt: startOfDayInTimeZone(filters.to, timeZone, 1) }
+          : { lte: new Date(filters.to) },
+      });
+    }
+
+    if (filters.hasInsight !== undefined) {
+      conditions.push({ insight: filters.hasInsight ? { isNot: null } : { is: null } });
+    }
+
+    if (filters.theme) {
+      conditions.push({ insight: { is: { themes: { has: filters.theme } } } });
+    }
+
+    if (filters.status) {
+      conditions.push({ status: filters.status });
+    }
+
+    return conditions.length === 1 ? conditions[0] : { AND: conditions };
+  }
+
+  private async decryptRevision(revision: any): Promise<EntryRevision> {
+    const { title, content, fields } = await this.decryptFields(revision);
+
+    return {
+      id: revision.id,
+      entryId: revision.entryId,
+      revision: revision.revision,
+      title,
+      content,
+      fields,
+      mood: revision.mood,
+      tags: revision.tags,
+      savedAt: revision.savedAt,
+      createdAt: revision.createdAt,
+    };
+  }
+
+  private async decryptEntry(entry: any): Promise<JournalEntry> {
+    const plaintext = await this.decryptFields(entry);
+
+    if (entry.encryptionVersion !== EncryptionVersion.ENVELOPE) {
+      await this.upgradeEncryption(entry, plaintext);
     }
 
     return {
       ...entry,
-      title: decryptedTitle,
-      content: decryptedContent,
+      ...plaintext,
     } as JournalEntry;
   }
 
-  private async reencryptEntryIfNeeded(entry: any, title: string, content: string): Promise<void> {
-    const needsTitle = !isEncryptedPayload({ iv: entry.titleIv, tag: entry.titleTag });
-    const needsContent = !isEncryptedPayload({ iv: entry.contentIv, tag: entry.contentTag });
+  /**
+   * Re-encrypt an entry stored in plaintext or with the global key under the owner's data key
+   */
+  private async upgradeEncryption(entry: any, plaintext: EntryPlaintext): Promise<void> {
+    await this.replaceEncryptedFields(entry, await this.encryptFields(entry.userId, plaintext));
+  }
 
-    if (!needsTitle && !needsContent) {
-      return;
-    }
+  /**
+   * Store re-encrypted title, content and fields without changing what the entry says
+   * The write only happens if the stored ciphertext is unchanged, so an edit made since
+   * the entry was read is never overwritten, and updatedAt is kept because the entry
+   * was not edited.
+   * @returns true if the entry was updated, false if it changed or was deleted meanwhile
+   */
+  private async replaceEncryptedFields(entry: any, fields: EncryptedEntryFields): Promise<boolean> {
+    const { count } = await prisma.journalEntry.updateMany({
+      where: { id: entry.id, title: entry.title, content: entry.content },
+      data: { ...fields, updatedAt: entry.updatedAt },
+    });
+    return count > 0;
+  }
 
-    const updates: Record<string, string> = {};
+  /**
+   * Re-encrypt a batch of a user's entries that are not encrypted with a given data key
+   * Used by key rotation. An entry edited while its batch runs is read again and re-encrypted,
+   * since the edit may have been encrypted with the key being replaced.
+   * @param userId - The entries' owner
+   * @param dataKey - The key to re-encrypt with, or null for a dry run that only checks
+   * every entry can be decrypted
+   * @param afterId - Only consider entries with a greater ID (the previous batch's last ID)
+   * @param limit - The batch size
+   * @returns The number of entries re-encrypted (or that would be), and the last ID
+   * examined, which is null once there are no entries left
+   */
+  async reencryptBatch(
+    userId: string,
+    dataKey: ResolvedDataKey | null,
+    afterId: string | null,
+    limit: number
+  ): Promise<{ count: number; lastId: string | null }> {
+    try {
+      const entries = await prisma.journalEntry.findMany({
+        where: {
+          userId,
+          ...(afterId && { id: { gt: afterId } }),
+          ...(dataKey && { OR: [{ dataKeyId: null }, { dataKeyId: { not: dataKey.id } }] }),
+        },
+        orderBy: { id: 'asc' },
+        take: limit,
+      });
 
-    if (needsTitle) {
-      const encryptedTitle = encryptText(title);
-      updates.title = encryptedTitle.cipherText;
-      updates.titleIv = encryptedTitle.iv;
-      updates.titleTag = encryptedTitle.tag;
-    }
+      let count = 0;
+      for (const found of entries) {
+        let entry: typeof found | null = found;
+        while (entry) {
+          const plaintext = await this.decryptFields(entry);
+          if (!dataKey || await this.replaceEncryptedFields(entry, this.encryptFieldsWithKey(dataKey, plaintext))) {
+            count++;
+            break;
+          }
+
+          // Edited meanwhile: done if the edit used the new key, otherwise try again
+          entry = await prisma.journalEntry.findFirst({
+            where: { id: entry.id, OR: [{ dataKeyId: null }, { dataKeyId: { not: dataKey.id } }] },
+          });
+        }
+      }
 
-    if (needsContent) {
-      const encryptedContent = encryptText(content);
-      updates.content = encryptedContent.cipherText;
-      updates.contentIv = encryptedContent.iv;
-      updates.contentTag = encryptedContent.tag;
+      return { count, lastId: entries.length > 0 ? entries[entries.length - 1].id : null };
+    } catch (error) {
+      throw new Error(
+        `Failed to re-encrypt journal entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
+  }
 
-    await prisma.journalEntry.update({
-      where: { id: entry.id },
-      data: updates,
-    });
+  /**
+   * Re-encrypt a batch of a user's entry revisions that are not encrypted with a given data key
+   * Used by key rotation, like reencryptBatch. Revisions never change once saved.
+   * @param userId - The revisions' owner
+   * @param dataKey - The key to re-encrypt with, or null for a dry run
+   * @param afterId - Only consider revisions with a greater ID (the previous batch's last ID)
+   * @param limit - The batch size
+   * @returns The number of revisions re-encrypted (or that would be), and the last ID
+   * examined, which is null once there are no revisions left
+   */
+  async reencryptRevisionBatch(
+    userId: string,
+    dataKey: ResolvedDataKey | null,
+    afterId: string | null,
+    limit: number
+  ): Promise<{ count: number; lastId: string | null }> {
+    try {
+      const revisions = await prisma.entryRevision.findMany({
+        where: {
+          userId,
+          ...(afterId && { id: { gt: afterId } }),
+          ...(dataKey && { OR: [{ dataKeyId: null }, { dataKeyId: { not: dataKey.id } }] }),
+        },
+        orderBy: { id: 'asc' },
+        take: limit,
+      });
+
+      for (const revision of revisions) {
+        const plaintext = await this.decryptFields(revision);
+        if (dataKey) {
+          await prisma.entryRevision.update({
+            where: { id: revision.id },
+            data: this.encryptFieldsWithKey(dataKey, plaintext),
+          });
+        }
+      }
+
+      return { count: revisions.length, lastId: revisions.length > 0 ? revisions[revisions.length - 1].id : null };
+    } catch (error) {
+      throw new Error(
+        `Failed to re-encrypt entry revisions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
   }
 
   /**
@@ -81,6 +346,11 @@ export class EntryRepository {
    * @param content - The entry content
    * @param mood - Optional mood indicator
    * @param tags - Optional tags array
+   * @param status - Whether the entry is a draft or published (default: published)
+   * @param emotions - Optional emotions; without them the mood is the only emotion
+   * @param template - Optional template the entry was written from, with its filled-in fields;
+   * imported entries keep their fields without a template when theirs is not available
+   * @param dates - When the entry was written and last edited, for imported entries (default: now)
    * @returns The created journal entry
    */
   async create(
@@ -88,24 +358,34 @@ export class EntryRepository {
     title: string,
     content: string,
     mood?: string,
-    tags?: string[]
+    tags?: string[],
+    status: EntryStatus = EntryStatus.PUBLISHED,
+    emotions?: EntryEmotion[],
+    template?: { id: string | null; fields: EntryField[] },
+    dates?: { createdAt: Date; updatedAt: Date }
   ): Promise<JournalEntry> {
     try {
-      const encryptedTitle = encryptText(title);
-      const encryptedContent = encryptText(content);
-
+      const plaintext = { title, content, fields: template?.fields ?? null };
       const entry = await prisma.journalEntry.create({
         data: {
           userId,
-          title: encryptedTitle.cipherText,
-          content: encryptedContent.cipherText,
-          titleIv: encryptedTitle.iv,
-          titleTag: encryptedTitle.tag,
-          contentIv: encryptedContent.iv,
-          contentTag: encryptedContent.tag,
+          ...(await this.encryptFields(userId, plaintext)),
+          templateId: template?.id,
           mood,
           tags: tags || [],
+          status,
+          ...dates,
+          emotions: { create: emotions ?? emotionsForMood(mood) },
+          searchTerms: {
+            createMany: {
+              data: buildIndexTerms(userId, title, entryText(content, plaintext.fields)).map((term) => ({
+                userId,
+                ...term,
+              })),
+            },
+          },
         },
+        include: entryInclude,
       });
       return await this.decryptEntry(entry);
     } catch (error) {
@@ -119,12 +399,13 @@ export class EntryRepository {
    * Find a journal entry by ID with ownership verification
    * @param id - The entry's ID
    * @param userId - The user's ID (for ownership verification)
-   * @returns The journal entry if found and owned by user, null otherwise
+   * @returns The journal entry if found, owned by user and not in the trash, null otherwise
    */
   async findById(id: string, userId: string): Promise<JournalEntry | null> {
     try {
       const entry = await prisma.journalEntry.findUnique({
         where: { id },
+        include: entryInclude,
       });
 
       // Verify ownership
@@ -132,7 +413,7 @@ export class EntryRepository {
         return null;
       }
 
-      if (!entry) {
+      if (!entry || entry.deletedAt) {
         return null;
       }
 
@@ -151,6 +432,7 @@ export class EntryRepository {
    * @param limit - The number of entries per page
    * @param sortBy - The field to sort by (default: createdAt)
    * @param order - The sort order (ASC or DESC, default: DESC)
+   * @param filters - Optional conditions the entries must match
    * @returns Paginated list of journal entries
    */
   async findByUserId(
@@ -158,9 +440,12 @@ export class EntryRepository {
     page: number = 1,
     limit: number = 10,
     sortBy: 'createdAt' | 'updatedAt' = 'createdAt',
-    order: 'asc' | 'desc' = 'desc'
+    order: 'asc' | 'desc' = 'desc',
+    filters: EntryFilters = {}
   ): Promise<PaginatedResponse<JournalEntry>> {
     try {
+      const where = this.buildFilterWhere(userId, filters);
+
       // Validate pagination parameters
       const validPage = Math.max(1, page);
       const validLimit = Math.min(Math.max(1, limit), 100); // Cap at 100 per page
@@ -169,15 +454,16 @@ export class EntryRepository {
       // Fetch entries and total count
       const [entries, total] = await Promise.all([
         prisma.journalEntry.findMany({
-          where: { userId },
+          where,
           orderBy: {
             [sortBy]: order,
           },
           skip,
           take: validLimit,
+          include: entryInclude,
         }),
         prisma.journalEntry.count({
-          where: { userId },
+          where,
         }),
       ]);
 
@@ -200,13 +486,229 @@ export class EntryRepository {
   }
 
   /**
-   * Find all journal entries for a user (for export)
+   * Find a page of a user's journal entries after a cursor
+   * Keyset pagination on (createdAt, id): each page starts strictly after the last entry of
+   * the previous one, so entries written while paging neither shift nor repeat entries, and
+   * no count is needed.
+   * @param userId - The user's ID
+   * @param limit - The number of entries per page
+   * @param order - The sort order by creation time (default: newest first)
+   * @param filters - Optional conditions the entries must match
+   * @param cursor - The position after the previous page's last entry, or null for the first page
+   * @returns The page, with the cursor for the next one
    */
-  async findAllByUserId(userId: string): Promise<JournalEntry[]> {
+  async findByUserIdAfterCursor(
+    userId: string,
+    limit: number = 10,
+    order: 'asc' | 'desc' = 'desc',
+    filters: EntryFilters = {},
+    cursor: EntryCursor | null = null
+  ): Promise<CursorPaginatedResponse<JournalEntry>> {
+    try {
+      const validLimit = Math.min(Math.max(1, limit), 100);
+      const direction = order === 'asc' ? 'gt' : 'lt';
+
+      const where: Prisma.JournalEntryWhereInput = cursor
+        ? {
+            AND: [
+              this.buildFilterWhere(userId, filters),
+              {
+                OR: [
+                  { createdAt: { [direction]: cursor.createdAt } },
+                  { createdAt: cursor.createdAt, id: { [direction]: cursor.id } },
+                ],
+              },
+            ],
+          }
+        : this.buildFilterWhere(userId, filters);
+
+      // One extra row tells whether there is another page
+      const entries = await prisma.journalEntry.findMany({
+        where,
+        orderBy: [{ createdAt: order }, { id: order }],
+        take: validLimit + 1,
+        include: entryInclude,
+      });
+
+      const hasMore = entries.length > validLimit;
+      const page = entries.slice(0, validLimit);
+      const decryptedEntries = await Promise.all(page.map((entry) => this.decryptEntry(entry)));
+
+      return {
+        data: decryptedEntries,
+        limit: validLimit,
+        nextCursor: hasMore ? encodeEntryCursor(page[page.length - 1]) : null,
+        hasMore,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to find journal entries by user ID: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Search a user's journal entries
+   * Every word of the query must match a word in the entry's title or content, either by
+   * stem or as the start of the word. Entries are ranked by how often and where the words
+   * occur, with whole-word and title matches ranking highest, then by newest first.
+   * @param userId - The user's ID
+   * @param query - The search text
+   * @param page - The page number (1-indexed)
+   * @param limit - The number of entries per page
+   * @returns Paginated list of matching journal entries with their scores
+   */
+  async search(
+    userId: string,
+    query: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<PaginatedResponse<EntrySearchResult>> {
+    try {
+      const validPage = Math.max(1, page);
+      const validLimit = Math.min(Math.max(1, limit), 100);
+      const queryTerms = buildQueryTerms(userId, query);
+
+      // A hash can satisfy more than one query word, e.g. "walk walking"
+      const wordsByHash = new Map<string, number[]>();
+      queryTerms.forEach((hashes, word) => {
+        for (const hash of hashes) {
+          wordsByHash.set(hash, [...(wordsByHash.get(hash) || []), word]);
+        }
+      });
+
+      const matches = wordsByHash.size === 0 ? [] : await prisma.entrySearchTerm.findMany({
+        where: { userId, termHash: { in: Array.from(wordsByHash.keys()) } },
+        select: { entryId: true, termHash: true, weight: true },
+      });
+
+      // Best weight per query word for each entry
+      const wordWeights = new Map<string, number[]>();
+      for (const match of matches) {
+        const weights = wordWeights.get(match.entryId) || new Array(queryTerms.length).fill(0);
+        for (const word of wordsByHash.get(match.termHash) || []) {
+          weights[word] = Math.max(weights[word], match.weight);
+        }
+        wordWeights.set(match.entryId, weights);
+      }
+
+      const scores = new Map<string, number>();
+      for (const [entryId, weights] of wordWeights) {
+        if (weights.every((weight) => weight > 0)) {
+          scores.set(entryId, weights.reduce((sum, weight) => sum + weight, 0));
+        }
+      }
+
+      const candidates = scores.size === 0 ? [] : await prisma.journalEntry.findMany({
+        where: { userId, deletedAt: null, id: { in: Array.from(scores.keys()) } },
+        select: { id: true, createdAt: true },
+      });
+
+      const ranked = candidates.sort((a, b) =>
+        (scores.get(b.id) as number) - (scores.get(a.id) as number) ||
+        b.createdAt.getTime() - a.createdAt.getTime()
+      );
+      const pageIds = ranked
+        .slice((validPage - 1) * validLimit, validPage * validLimit)
+        .map((candidate) => candidate.id);
+
+      const entries = pageIds.length === 0 ? [] : await prisma.journalEntry.findMany({
+        where: { id: { in: pageIds } },
+        include: entryInclude,
+      });
+      const entryMap = new Map(entries.map((entry) => [entry.id, entry]));
+
+      const results = await Promise.all(
+        pageIds
+          .filter((id) => entryMap.has(id))
+          .map(async (id) => ({
+            ...(await this.decryptEntry(entryMap.get(id))),
+            score: scores.get(id) as number,
+          }))
+      );
+
+      return {
+        data: results,
+        total: ranked.length,
+        page: validPage,
+        limit: validLimit,
+        totalPages: Math.ceil(ranked.length / validLimit),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to search journal entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Rebuild the search index of a batch of entries across all users
+   * Used by the search:reindex maintenance command, e.g. after SEARCH_INDEX_KEY changes
+   * @param afterId - Only consider entries with a greater ID (the previous batch's last ID)
+   * @param limit - The batch size
+   * @returns The number of entries reindexed, and the last ID examined, which is null once
+   * there are no entries left
+   */
+  async reindexBatch(afterId: string | null, limit: number): Promise<{ count: number; lastId: string | null }> {
     try {
       const entries = await prisma.journalEntry.findMany({
+        where: afterId ? { id: { gt: afterId } } : {},
+        orderBy: { id: 'asc' },
+        take: limit,
+      });
+
+      let count = 0;
+      for (const entry of entries) {
+        const plaintext = await this.decryptFields(entry);
+        try {
+          // Conditional on the ciphertext so an entry edited meanwhile keeps its newer terms
+          await prisma.journalEntry.update({
+            where: { id: entry.id, title: entry.title, content: entry.content },
+            data: {
+              updatedAt: entry.updatedAt,
+              searchTerms: this.indexTermsWrite(entry.userId, plaintext),
+            },
+          });
+          count++;
+        } catch (error) {
+          if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025')) {
+            throw error;
+          }
+        }
+      }
+
+      return { count, lastId: entries.length > 0 ? entries[entries.length - 1].id : null };
+    } catch (error) {
+      throw new Error(
+        `Failed to rebuild search index: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Count a user's journal entries, including those in the trash
+   */
+  async countByUserId(userId: string): Promise<number> {
+    try {
+      return await prisma.journalEntry.count({
         where: { userId },
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to count journal entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find all journal entries for a user that are not in the trash (for export)
+   */
+  async findAllByUserId(userId: string): Promise<JournalEntry[]> {
+    try {
+      const entries = await prisma.journalEntry.findMany({
+        where: { userId, deletedAt: null },
         orderBy: { createdAt: 'desc' },
+        include: entryInclude,
       });
 
       return await Promise.all(entries.map((entry) => this.decryptEntry(entry)));
@@ -217,12 +719,114 @@ export class EntryRepository {
     }
   }
 
+  /**
+   * Find all of a user's journal entries in the trash (for duplicate checks on import)
+   */
+  async findAllTrashedByUserId(userId: string): Promise<JournalEntry[]> {
+    try {
+      const entries = await prisma.journalEntry.findMany({
+        where: { userId, deletedAt: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        include: entryInclude,
+      });
+
+      return await Promise.all(entries.map((entry) => this.decryptEntry(entry)));
+    } catch (error) {
+      throw new Error(
+        `Failed to find trashed journal entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Count how many of a user's entries use each tag, leaving out entries in the trash
+   * @returns The tags, most used first and then alphabetically, with when each was last used
+   */
+  async findTagCounts(userId: string): Promise<TagCount[]> {
+    try {
+      const entries = await prisma.journalEntry.findMany({
+        where: { userId, deletedAt: null },
+        select: { tags: true, createdAt: true },
+      });
+
+      const counts = new Map<string, TagCount>();
+      for (const { tags, createdAt } of entries) {
+        for (const tag of new Set(tags)) {
+          const current = counts.get(tag);
+          counts.set(tag, {
+            tag,
+            count: (current?.count ?? 0) + 1,
+            lastUsedAt: current && current.lastUsedAt > createdAt ? current.lastUsedAt : createdAt,
+          });
+        }
+      }
+
+      return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+    } catch (error) {
+      throw new Error(
+        `Failed to count tags: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Replace tags on all of a user's entries, including those in the trash, in one transaction
+   * Renames, merges and deletes either apply to every entry or to none. Each changed entry's
+   * version is incremented, and if an entry is updated elsewhere meanwhile the whole
+   * replacement is rolled back, so neither change is lost.
+   * @param userId - The user's ID
+   * @param sources - The tags to replace
+   * @param target - The tag to replace them with, or null to remove them
+   * @returns How many entries were changed
+   * @throws Error 'Entries changed while updating tags' if an entry was updated meanwhile
+   */
+  async replaceTags(userId: string, sources: string[], target: string | null): Promise<number> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const entries = await tx.journalEntry.findMany({
+          where: { userId, tags: { hasSome: sources } },
+          select: { id: true, tags: true, version: true },
+        });
+
+        for (const entry of entries) {
+          const replaced = entry.tags.map((tag) => (sources.includes(tag) ? target : tag));
+          const tags = Array.from(new Set(replaced.filter((tag): tag is string => tag !== null)));
+
+          const { count } = await tx.journalEntry.updateMany({
+            where: { id: entry.id, version: entry.version },
+            data: { tags, version: { increment: 1 } },
+          });
+
+          if (count === 0) {
+            throw new Error('Entries changed while updating tags');
+          }
+        }
+
+        return entries.length;
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to update tags: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Update a journal entry
+   * If the title, content, fields, mood or tags of a published entry change, the previous version is
+   * kept as a revision. Drafts are saved over without keeping revisions.
+   * Every update increments the entry's version, and is refused if the entry was changed
+   * after it was read here, so concurrent updates can't silently overwrite each other.
+   * If key rotation re-encrypted the entry meanwhile, the update is encrypted again with the
+   * newest key rather than writing over the rotated entry with the replaced one.
+   * If the mood changes without new emotions, that mood becomes the only emotion so the two
+   * never disagree.
    * @param id - The entry's ID
    * @param userId - The user's ID (for ownership verification)
    * @param data - The data to update
+   * @param expectedVersions - Versions the caller edited; the update is refused unless the entry is at one of them
    * @returns The updated journal entry
+   * @throws Error 'Entry version mismatch' if the entry is not at an expected version
    */
   async update(
     id: string,
@@ -230,46 +834,96 @@ export class EntryRepository {
     data: {
       title?: string;
       content?: string;
-      mood?: string;
+      mood?: string | null;
+      emotions?: EntryEmotion[];
+      fields?: EntryField[] | null;
       tags?: string[];
-    }
+      status?: EntryStatus;
+    },
+    expectedVersions?: number[]
   ): Promise<JournalEntry> {
+    let readVersion: number | null = null;
+
     try {
       // Verify ownership before updating
       const entry = await prisma.journalEntry.findUnique({
         where: { id },
       });
 
-      if (!entry || entry.userId !== userId) {
+      if (!entry || entry.userId !== userId || entry.deletedAt) {
         throw new Error('Entry not found or access denied');
       }
+      readVersion = entry.version;
+
+      if (expectedVersions && !expectedVersions.includes(entry.version)) {
+        throw new Error('Entry version mismatch');
+      }
+
+      // Everything encrypted is re-encrypted together so it always shares one data key
+      const current = await this.decryptFields(entry);
+      const next: EntryPlaintext = {
+        title: data.title ?? current.title,
+        content: data.content ?? current.content,
+        fields: data.fields !== undefined ? data.fields : current.fields,
+      };
+      const changed =
+        next.title !== current.title ||
+        next.content !== current.content ||
+        JSON.stringify(next.fields ?? []) !== JSON.stringify(current.fields ?? []) ||
+        (data.mood !== undefined && data.mood !== entry.mood) ||
+        (data.tags !== undefined && JSON.stringify(data.tags) !== JSON.stringify(entry.tags));
 
       const updateData: Record<string, unknown> = {
         mood: data.mood,
         tags: data.tags,
+        status: data.status,
+        ...(await this.encryptFields(userId, next)),
+        searchTerms: this.indexTermsWrite(userId, next),
       };
 
-      if (data.title !== undefined) {
-        const encryptedTitle = encryptText(data.title);
-        updateData.title = encryptedTitle.cipherText;
-        updateData.titleIv = encryptedTitle.iv;
-        updateData.titleTag = encryptedTitle.tag;
+      if (data.emotions !== undefined) {
+        updateData.emotions = { deleteMany: {}, create: data.emotions };
+      } else if (data.mood !== undefined && data.mood !== entry.mood) {
+        updateData.emotions = { deleteMany: {}, create: emotionsForMood(data.mood) };
       }
 
-      if (data.content !== undefined) {
-        const encryptedContent = encryptText(data.content);
-        updateData.content = encryptedContent.cipherText;
-        updateData.contentIv = encryptedContent.iv;
-        updateData.contentTag = encryptedContent.tag;
+      if (changed && entry.status === EntryStatus.PUBLISHED) {
+        const { _max } = await prisma.entryRevision.aggregate({
+          where: { entryId: id },
+          _max: { revision: true },
+        });
+
+        updateData.revisions = {
+          create: {
+            userId,
+            revision: (_max.revision ?? 0) + 1,
+            ...(await this.encryptFields(userId, current)),
+            mood: entry.mood,
+            tags: entry.tags,
+            savedAt: entry.updatedAt,
+          },
+        };
       }
 
       const updatedEntry = await prisma.journalEntry.update({
-        where: { id },
-        data: updateData,
+        where: { id, version: entry.version, dataKeyId: entry.dataKeyId },
+        data: { ...updateData, version: { increment: 1 } },
+        include: entryInclude,
       });
 
       return await this.decryptEntry(updatedEntry);
     } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        // Only the key changed, so key rotation re-encrypted the entry without editing it
+        const current = await prisma.journalEntry.findUnique({ where: { id }, select: { version: true } });
+        if (current && current.version === readVersion) {
+          return this.update(id, userId, data, expectedVersions);
+        }
+
+        // The version matched when the entry was read, but another update got in first
+        throw new Error('Failed to update journal entry: Entry version mismatch');
+      }
+
       throw new Error(
         `Failed to update journal entry: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -277,33 +931,236 @@ export class EntryRepository {
   }
 
   /**
-   * Delete a journal entry
+   * Find an entry's earlier versions with ownership verification
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @returns The revisions, newest first, or null if the entry is not found or not owned by the user
+   */
+  async findRevisions(entryId: string, userId: string): Promise<EntryRevision[] | null> {
+    try {
+      const entry = await prisma.journalEntry.findUnique({
+        where: { id: entryId },
+        select: { userId: true, deletedAt: true },
+      });
+
+      if (!entry || entry.userId !== userId || entry.deletedAt) {
+        return null;
+      }
+
+      const revisions = await prisma.entryRevision.findMany({
+        where: { entryId },
+        orderBy: { revision: 'desc' },
+      });
+
+      return await Promise.all(revisions.map((revision) => this.decryptRevision(revision)));
+    } catch (error) {
+      throw new Error(
+        `Failed to find entry revisions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find one of an entry's earlier versions with ownership verification
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @param revision - The revision number
+   * @returns The revision, or null if it does not exist or the entry is not owned by the user
+   */
+  async findRevision(entryId: string, userId: string, revision: number): Promise<EntryRevision | null> {
+    try {
+      const found = await prisma.entryRevision.findUnique({
+        where: { entryId_revision: { entryId, revision } },
+        include: { entry: { select: { deletedAt: true } } },
+      });
+
+      if (!found || found.userId !== userId || found.entry.deletedAt) {
+        return null;
+      }
+
+      return await this.decryptRevision(found);
+    } catch (error) {
+      throw new Error(
+        `Failed to find entry revision: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find all of a user's entry revisions, except those of entries in the trash (for export)
+   * @returns The revisions, grouped by entry and newest first within each
+   */
+  async findAllRevisionsByUserId(userId: string): Promise<EntryRevision[]> {
+    try {
+      const revisions = await prisma.entryRevision.findMany({
+        where: { userId, entry: { deletedAt: null } },
+        orderBy: [{ entryId: 'asc' }, { revision: 'desc' }],
+      });
+
+      return await Promise.all(revisions.map((revision) => this.decryptRevision(revision)));
+    } catch (error) {
+      throw new Error(
+        `Failed to export entry revisions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Move a journal entry to the trash
+   * The entry keeps its revisions and can be restored until it is purged
    * @param id - The entry's ID
    * @param userId - The user's ID (for ownership verification)
-   * @returns true if deleted, false if not found or access denied
+   * @returns true if moved, false if not found, already in the trash or access denied
    */
-  async delete(id: string, userId: string): Promise<boolean> {
+  async moveToTrash(id: string, userId: string): Promise<boolean> {
     try {
-      // Verify ownership before deleting
       const entry = await prisma.journalEntry.findUnique({
         where: { id },
+        select: { userId: true, updatedAt: true },
       });
 
       if (!entry || entry.userId !== userId) {
         return false;
       }
 
-      await prisma.journalEntry.delete({
+      // Trashing is not an edit, so updatedAt is kept
+      const { count } = await prisma.journalEntry.updateMany({
+        where: { id, userId, deletedAt: null },
+        data: { deletedAt: new Date(), updatedAt: entry.updatedAt },
+      });
+
+      return count > 0;
+    } catch (error) {
+      throw new Error(
+        `Failed to move journal entry to trash: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find a user's journal entries in the trash, most recently deleted first
+   * @param userId - The user's ID
+   * @param page - The page number (1-indexed)
+   * @param limit - The number of entries per page
+   * @returns Paginated list of trashed journal entries
+   */
+  async findTrashedByUserId(
+    userId: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<PaginatedResponse<JournalEntry>> {
+    try {
+      const where = { userId, deletedAt: { not: null } };
+      const validPage = Math.max(1, page);
+      const validLimit = Math.min(Math.max(1, limit), 100);
+
+      const [entries, total] = await Promise.all([
+        prisma.journalEntry.findMany({
+          where,
+          orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+          skip: (validPage - 1) * validLimit,
+          take: validLimit,
+          include: entryInclude,
+        }),
+        prisma.journalEntry.count({ where }),
+      ]);
+
+      return {
+        data: await Promise.all(entries.map((entry) => this.decryptEntry(entry))),
+        total,
+        page: validPage,
+        limit: validLimit,
+        totalPages: Math.ceil(total / validLimit),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to find trashed journal entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Take a journal entry out of the trash
+   * @param id - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @returns The restored entry, or null if it is not in the user's trash
+   */
+  async restoreFromTrash(id: string, userId: string): Promise<JournalEntry | null> {
+    try {
+      const entry = await prisma.journalEntry.findUnique({
         where: { id },
+        select: { userId: true, updatedAt: true },
+      });
+
+      if (!entry || entry.userId !== userId) {
+        return null;
+      }
+
+      const { count } = await prisma.journalEntry.updateMany({
+        where: { id, userId, deletedAt: { not: null } },
+        data: { deletedAt: null, updatedAt: entry.updatedAt },
+      });
+
+      return count > 0 ? await this.findById(id, userId) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to restore journal entry: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Permanently delete a journal entry in the trash, with its revisions
+   * @param id - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @returns true if deleted, false if not in the user's trash
+   */
+  async deletePermanently(id: string, userId: string): Promise<boolean> {
+    try {
+      const { count } = await prisma.journalEntry.deleteMany({
+        where: { id, userId, deletedAt: { not: null } },
       });
 
-      return true;
+      return count > 0;
     } catch (error) {
       throw new Error(
         `Failed to delete journal entry: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
+
+  /**
+   * Permanently delete a batch of entries, across all users, that were moved to the trash
+   * before a cutoff. Their revisions, search terms and insights are deleted with them.
+   * @param cutoff - Entries trashed before this time are purged
+   * @param limit - The batch size
+   * @returns The number of entries purged
+   */
+  async purgeTrashedBefore(cutoff: Date, limit: number): Promise<number> {
+    try {
+      const entries = await prisma.journalEntry.findMany({
+        where: { deletedAt: { lt: cutoff } },
+        select: { id: true },
+        orderBy: { deletedAt: 'asc' },
+        take: limit,
+      });
+
+      if (entries.length === 0) {
+        return 0;
+      }
+
+      // Re-checked so an entry restored since the batch was read is kept
+      const { count } = await prisma.journalEntry.deleteMany({
+        where: { id: { in: entries.map((entry) => entry.id) }, deletedAt: { lt: cutoff } },
+      });
+
+      return count;
+    } catch (error) {
+      throw new Error(
+        `Failed to purge trashed journal entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 }
 
 export default new EntryRepository();
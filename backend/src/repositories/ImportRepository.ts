@@ -0,0 +1,269 @@
+import { PrismaClient } from '@prisma/client';
+import { EntryImport, ImportFormat, ImportIssue, ImportPreviewRow, ImportStatus } from '../types/index.js';
+import { decryptText, encryptText } from '../utils/encryption.js';
+import DataKeyService from '../services/DataKeyService.js';
+
+/**
+ * ImportRepository
+ * Handles all database operations related to entry imports
+ * The uploaded file's key and the report are encrypted with the data key that was active
+ * when the import was started, which is kept for the import's lifetime.
+ */
+
+const prisma = new PrismaClient();
+
+export interface ImportReport {
+  issues: ImportIssue[];
+  preview: ImportPreviewRow[];
+}
+
+// Where an import's uploaded file is stored and the key to decrypt it
+export interface ImportUpload {
+  storageKey: string;
+  fileKey: Buffer;
+  fileIv: string;
+}
+
+export class ImportRepository {
+  private async getKey(entryImport: { id: string; userId: string; dataKeyId: string | null }): Promise<Buffer> {
+    if (!entryImport.dataKeyId) {
+      throw new Error(`Data key for import ${entryImport.id} no longer exists`);
+    }
+    return DataKeyService.getKey(entryImport.dataKeyId, entryImport.userId);
+  }
+
+  private async toImport(entryImport: any): Promise<EntryImport> {
+    let report: ImportReport = { issues: [], preview: [] };
+    if (entryImport.report) {
+      report = JSON.parse(
+        decryptText(
+          { cipherText: entryImport.report, iv: entryImport.reportIv, tag: entryImport.reportTag },
+          await this.getKey(entryImport)
+        )
+      );
+    }
+
+    return {
+      id: entryImport.id,
+      userId: entryImport.userId,
+      format: entryImport.format as ImportFormat,
+      dryRun: entryImport.dryRun,
+      status: entryImport.status as ImportStatus,
+      rowsTotal: entryImport.rowsTotal,
+      rowsProcessed: entryImport.rowsProcessed,
+      imported: entryImport.imported,
+      duplicates: entryImport.duplicates,
+      failed: entryImport.failed,
+      issues: report.issues,
+      preview: report.preview.map((row) => ({ ...row, createdAt: new Date(row.createdAt) })),
+      error: entryImport.error,
+      startedAt: entryImport.startedAt,
+      completedAt: entryImport.completedAt,
+      createdAt: entryImport.createdAt,
+      updatedAt: entryImport.updatedAt,
+    };
+  }
+
+  /**
+   * Record a new import whose file has been stored
+   * @param data - The import settings, with the plaintext key of the stored file
+   * @returns The created import
+   */
+  async create(data: {
+    userId: string;
+    format: ImportFormat;
+    dryRun: boolean;
+    storageKey: string;
+    fileKey: Buffer;
+    fileIv: string;
+  }): Promise<EntryImport> {
+    try {
+      const dataKey = await DataKeyService.getActiveKey(data.userId);
+      const wrappedKey = encryptText(data.fileKey.toString('base64'), dataKey.key);
+
+      const entryImport = await prisma.entryImport.create({
+        data: {
+          userId: data.userId,
+          format: data.format,
+          dryRun: data.dryRun,
+          storageKey: data.storageKey,
+          fileKey: wrappedKey.cipherText,
+          fileKeyIv: wrappedKey.iv,
+          fileKeyTag: wrappedKey.tag,
+          fileIv: data.fileIv,
+          dataKeyId: dataKey.id,
+        },
+      });
+      return await this.toImport(entryImport);
+    } catch (error) {
+      throw new Error(`Failed to create import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find an import by ID
+   * @param id - The import ID
+   * @param userId - The owner, to check ownership; left out by the worker
+   * @returns The import if found, null otherwise
+   */
+  async findById(id: string, userId?: string): Promise<EntryImport | null> {
+    try {
+      const entryImport = await prisma.entryImport.findFirst({
+        where: { id, ...(userId && { userId }) },
+      });
+      return entryImport ? await this.toImport(entryImport) : null;
+    } catch (error) {
+      throw new Error(`Failed to find import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find a user's most recent imports, newest first
+   */
+  async findByUserId(userId: string, limit: number): Promise<EntryImport[]> {
+    try {
+      const imports = await prisma.entryImport.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+      return await Promise.all(imports.map((entryImport) => this.toImport(entryImport)));
+    } catch (error) {
+      throw new Error(`Failed to find imports: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Whether a user has an import that is waiting or running
+   */
+  async hasUnfinished(userId: string): Promise<boolean> {
+    const count = await prisma.entryImport.count({
+      where: { userId, status: { in: [ImportStatus.PENDING, ImportStatus.RUNNING] } },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Find where an import's file is stored, with its decrypted key
+   * @returns The upload, or null once the file has been deleted
+   */
+  async findUpload(id: string): Promise<ImportUpload | null> {
+    try {
+      const entryImport = await prisma.entryImport.findUnique({ where: { id } });
+      if (!entryImport?.storageKey || !entryImport.fileKey || !entryImport.fileIv) {
+        return null;
+      }
+
+      const fileKey = decryptText(
+        { cipherText: entryImport.fileKey, iv: entryImport.fileKeyIv!, tag: entryImport.fileKeyTag! },
+        await this.getKey(entryImport)
+      );
+      return { storageKey: entryImport.storageKey, fileKey: Buffer.from(fileKey, 'base64'), fileIv: entryImport.fileIv };
+    } catch (error) {
+      throw new Error(`Failed to read import file key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark an import as running, unless it is running elsewhere
+   * @param id - The import ID
+   * @param staleBefore - A running import last updated before this is assumed to have stopped
+   * @returns Whether the import was claimed
+   */
+  async claim(id: string, staleBefore: Date): Promise<boolean> {
+    try {
+      const { count } = await prisma.entryImport.updateMany({
+        where: {
+          id,
+          OR: [
+            { status: { in: [ImportStatus.PENDING, ImportStatus.FAILED] } },
+            { status: ImportStatus.RUNNING, updatedAt: { lt: staleBefore } },
+          ],
+        },
+        data: {
+          status: ImportStatus.RUNNING,
+          error: null,
+        },
+      });
+      return count > 0;
+    } catch (error) {
+      throw new Error(`Failed to claim import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update an import's progress or status
+   * @param id - The import ID
+   * @param data - The fields to update; the report replaces the stored one
+   * @returns The updated import
+   */
+  async update(
+    id: string,
+    data: {
+      status?: ImportStatus;
+      rowsTotal?: number;
+      rowsProcessed?: number;
+      imported?: number;
+      duplicates?: number;
+      failed?: number;
+      report?: ImportReport;
+      error?: string | null;
+      startedAt?: Date;
+      completedAt?: Date;
+    }
+  ): Promise<EntryImport> {
+    try {
+      const { report, ...fields } = data;
+
+      let encryptedReport = {};
+      if (report) {
+        const entryImport = await prisma.entryImport.findUniqueOrThrow({ where: { id } });
+        const encrypted = encryptText(JSON.stringify(report), await this.getKey(entryImport));
+        encryptedReport = { report: encrypted.cipherText, reportIv: encrypted.iv, reportTag: encrypted.tag };
+      }
+
+      const entryImport = await prisma.entryImport.update({
+        where: { id },
+        data: { ...fields, ...encryptedReport },
+      });
+      return await this.toImport(entryImport);
+    } catch (error) {
+      throw new Error(`Failed to update import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Forget an import's uploaded file once it is no longer needed
+   * @returns The storage key of the file to delete, or null if it was already forgotten
+   */
+  async clearUpload(id: string): Promise<string | null> {
+    try {
+      const entryImport = await prisma.entryImport.findUnique({ where: { id }, select: { storageKey: true } });
+      if (!entryImport?.storageKey) {
+        return null;
+      }
+
+      await prisma.entryImport.update({
+        where: { id },
+        data: { storageKey: null, fileKey: null, fileKeyIv: null, fileKeyTag: null, fileIv: null },
+      });
+      return entryImport.storageKey;
+    } catch (error) {
+      throw new Error(`Failed to clear import file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find the storage keys of a user's uploaded import files
+   * Read before the account is deleted, since its imports are deleted with it
+   */
+  async findStorageKeysByUserId(userId: string): Promise<string[]> {
+    const imports = await prisma.entryImport.findMany({
+      where: { userId, storageKey: { not: null } },
+      select: { storageKey: true },
+    });
+    return imports.map((entryImport) => entryImport.storageKey as string);
+  }
+}
+
+export default new ImportRepository();
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
-import { decryptText, encryptText, isEncryptedPayload } from '../utils/encryption.js';
+import { decryptText, encryptText, toEncryptedPayload, EncryptionVersion } from '../utils/encryption.js';
+import DataKeyService, { ResolvedDataKey } from '../services/DataKeyService.js';
 
 const prisma = new PrismaClient();
 
@@ -9,23 +10,39 @@ export interface EntryInsightRecord {
   themes: string[];
 }
 
+const insightSelect = {
+  entryId: true,
+  userId: true,
+  summary: true,
+  themes: true,
+  summaryIv: true,
+  summaryTag: true,
+  encryptionVersion: true,
+  dataKeyId: true,
+} as const;
+
 export class InsightRepository {
   async upsertInsight(entryId: string, userId: string, summary: string, themes: string[]): Promise<void> {
-    const encryptedSummary = encryptText(summary);
+    const dataKey = await DataKeyService.getActiveKey(userId);
+    const encryptedSummary = encryptText(summary, dataKey.key);
+    const encrypted = {
+      summary: encryptedSummary.cipherText,
+      summaryIv: encryptedSummary.iv,
+      summaryTag: encryptedSummary.tag,
+      encryptionVersion: EncryptionVersion.ENVELOPE,
+      dataKeyId: dataKey.id,
+    };
+
     await prisma.entryInsight.upsert({
       where: { entryId },
       update: {
-        summary: encryptedSummary.cipherText,
-        summaryIv: encryptedSummary.iv,
-        summaryTag: encryptedSummary.tag,
+        ...encrypted,
         themes,
       },
       create: {
         entryId,
         userId,
-        summary: encryptedSummary.cipherText,
-        summaryIv: encryptedSummary.iv,
-        summaryTag: encryptedSummary.tag,
+        ...encrypted,
         themes,
       },
     });
@@ -34,7 +51,7 @@ export class InsightRepository {
   async findByEntryId(entryId: string): Promise<EntryInsightRecord | null> {
     const insight = await prisma.entryInsight.findUnique({
       where: { entryId },
-      select: { entryId: true, summary: true, themes: true, summaryIv: true, summaryTag: true },
+      select: insightSelect,
     });
     if (!insight) {
       return null;
@@ -42,7 +59,7 @@ export class InsightRepository {
 
     return {
       entryId: insight.entryId,
-      summary: this.decryptSummaryIfNeeded(insight),
+      summary: await this.decryptSummaryIfNeeded(insight),
       themes: insight.themes,
     };
   }
@@ -53,13 +70,13 @@ export class InsightRepository {
     }
     const insights = await prisma.entryInsight.findMany({
       where: { entryId: { in: entryIds } },
-      select: { entryId: true, summary: true, themes: true, summaryIv: true, summaryTag: true },
+      select: insightSelect,
     });
-    return insights.map((insight) => ({
+    return Promise.all(insights.map(async (insight) => ({
       entryId: insight.entryId,
-      summary: this.decryptSummaryIfNeeded(insight),
+      summary: await this.decryptSummaryIfNeeded(insight),
       themes: insight.themes,
-    }));
+    })));
   }
 
   async findByUserId(userId: string, limit: number = 20): Promise<EntryInsightRecord[]> {
@@ -67,28 +84,99 @@ export class InsightRepository {
       where: { userId },
       orderBy: { createdAt: 'desc' },
       take: limit,
-      select: { entryId: true, summary: true, themes: true, summaryIv: true, summaryTag: true },
+      select: insightSelect,
     });
-    return insights.map((insight) => ({
+    return Promise.all(insights.map(async (insight) => ({
       entryId: insight.entryId,
-      summary: this.decryptSummaryIfNeeded(insight),
+      summary: await this.decryptSummaryIfNeeded(insight),
       themes: insight.themes,
-    }));
+    })));
   }
 
-  private decryptSummaryIfNeeded(insight: {
+  async countByUserId(userId: string): Promise<number> {
+    return prisma.entryInsight.count({ where: { userId } });
+  }
+
+  /**
+   * Re-encrypt a batch of a user's insight summaries that are not encrypted with a given data key
+   * Used by key rotation. A summary rewritten while its batch runs is skipped, since it was
+   * already encrypted with the user's newest key.
+   * @param userId - The insights' owner
+   * @param dataKey - The key to re-encrypt with, or null for a dry run that only checks
+   * every summary can be decrypted
+   * @param afterId - Only consider insights with a greater ID (the previous batch's last ID)
+   * @param limit - The batch size
+   * @returns The number of insights re-encrypted (or that would be), and the last ID
+   * examined, which is null once there are no insights left
+   */
+  async reencryptBatch(
+    userId: string,
+    dataKey: ResolvedDataKey | null,
+    afterId: string | null,
+    limit: number
+  ): Promise<{ count: number; lastId: string | null }> {
+    const insights = await prisma.entryInsight.findMany({
+      where: {
+        userId,
+        ...(afterId && { id: { gt: afterId } }),
+        ...(dataKey && { OR: [{ dataKeyId: null }, { dataKeyId: { not: dataKey.id } }] }),
+      },
+      orderBy: { id: 'asc' },
+      take: limit,
+      select: { ...insightSelect, id: true },
+    });
+
+    let count = 0;
+    for (const insight of insights) {
+      const summary = await this.decryptSummaryIfNeeded(insight);
+      if (!dataKey) {
+        count++;
+        continue;
+      }
+
+      const encryptedSummary = encryptText(summary, dataKey.key);
+      const updated = await prisma.entryInsight.updateMany({
+        where: { id: insight.id, summary: insight.summary },
+        data: {
+          summary: encryptedSummary.cipherText,
+          summaryIv: encryptedSummary.iv,
+          summaryTag: encryptedSummary.tag,
+          encryptionVersion: EncryptionVersion.ENVELOPE,
+          dataKeyId: dataKey.id,
+        },
+      });
+      count += updated.count;
+    }
+
+    return { count, lastId: insights.length > 0 ? insights[insights.length - 1].id : null };
+  }
+
+  /**
+   * Decrypt a summary with the key it was written with: the owner's data key,
+   * or the global key for insights written before per-user keys
+   */
+  private async decryptSummaryIfNeeded(insight: {
+    entryId: string;
+    userId: string;
     summary: string;
     summaryIv?: string | null;
     summaryTag?: string | null;
-  }): string {
-    if (isEncryptedPayload({ iv: insight.summaryIv, tag: insight.summaryTag })) {
-      return decryptText({
-        cipherText: insight.summary,
-        iv: insight.summaryIv,
-        tag: insight.summaryTag,
-      });
+    encryptionVersion: number;
+    dataKeyId: string | null;
+  }): Promise<string> {
+    const payload = toEncryptedPayload(insight.summary, insight.summaryIv, insight.summaryTag);
+    if (!payload) {
+      return insight.summary;
     }
-    return insight.summary;
+
+    if (insight.encryptionVersion === EncryptionVersion.ENVELOPE) {
+      if (!insight.dataKeyId) {
+        throw new Error(`Data key for insight on entry ${insight.entryId} no longer exists`);
+      }
+      return decryptText(payload, await DataKeyService.getKey(insight.dataKeyId, insight.userId));
+    }
+
+    return decryptText(payload);
   }
 }
 
@@ -0,0 +1,157 @@
+import { PrismaClient } from '@prisma/client';
+import { KeyRotation, KeyRotationStatus } from '../types/index.js';
+
+/**
+ * KeyRotationRepository
+ * Handles all database operations related to data key rotation progress
+ */
+
+const prisma = new PrismaClient();
+
+export class KeyRotationRepository {
+  /**
+   * Record a new rotation
+   * @param data - The rotation settings
+   * @returns The created rotation
+   */
+  async create(data: {
+    dryRun: boolean;
+    masterKeyId: string;
+    requestedBy?: string;
+    usersTotal: number;
+  }): Promise<KeyRotation> {
+    try {
+      const rotation = await prisma.keyRotation.create({ data });
+      return rotation as KeyRotation;
+    } catch (error) {
+      throw new Error(`Failed to create key rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find a rotation by ID
+   * @param id - The rotation ID
+   * @returns The rotation if found, null otherwise
+   */
+  async findById(id: string): Promise<KeyRotation | null> {
+    try {
+      const rotation = await prisma.keyRotation.findUnique({
+        where: { id },
+      });
+      return rotation as KeyRotation | null;
+    } catch (error) {
+      throw new Error(`Failed to find key rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find the most recent rotations
+   * @param limit - How many rotations to return
+   * @returns The rotations, newest first
+   */
+  async findRecent(limit: number): Promise<KeyRotation[]> {
+    try {
+      const rotations = await prisma.keyRotation.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+      return rotations as KeyRotation[];
+    } catch (error) {
+      throw new Error(`Failed to find key rotations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find the newest rotation that has not completed
+   * @returns The rotation, or null if every rotation has completed
+   */
+  async findUnfinished(): Promise<KeyRotation | null> {
+    try {
+      const rotation = await prisma.keyRotation.findFirst({
+        where: { status: { not: KeyRotationStatus.COMPLETED } },
+        orderBy: { createdAt: 'desc' },
+      });
+      return rotation as KeyRotation | null;
+    } catch (error) {
+      throw new Error(`Failed to find key rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark a rotation as running, unless another process is running it
+   * A RUNNING rotation whose last update is older than staleBefore is taken over,
+   * since the process running it has stopped.
+   * @param id - The rotation ID
+   * @param staleBefore - Heartbeat cut-off for RUNNING rotations
+   * @returns true if the caller now owns the rotation
+   */
+  async claim(id: string, staleBefore: Date): Promise<boolean> {
+    try {
+      const { count } = await prisma.keyRotation.updateMany({
+        where: {
+          id,
+          OR: [
+            { status: { in: [KeyRotationStatus.PENDING, KeyRotationStatus.FAILED] } },
+            { status: KeyRotationStatus.RUNNING, updatedAt: { lt: staleBefore } },
+          ],
+        },
+        data: {
+          status: KeyRotationStatus.RUNNING,
+          error: null,
+        },
+      });
+      return count > 0;
+    } catch (error) {
+      throw new Error(`Failed to claim key rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update a rotation's progress or status
+   * @param id - The rotation ID
+   * @param data - The fields to update; counters are added to the stored values
+   * @returns The updated rotation
+   */
+  async update(
+    id: string,
+    data: {
+      status?: KeyRotationStatus;
+      userCursor?: string;
+      usersProcessed?: number;
+      entriesReencrypted?: number;
+      insightsReencrypted?: number;
+      revisionsReencrypted?: number;
+      attachmentsReencrypted?: number;
+      error?: string | null;
+      startedAt?: Date;
+      completedAt?: Date;
+    }
+  ): Promise<KeyRotation> {
+    try {
+      const {
+        usersProcessed,
+        entriesReencrypted,
+        insightsReencrypted,
+        revisionsReencrypted,
+        attachmentsReencrypted,
+        ...fields
+      } = data;
+      const rotation = await prisma.keyRotation.update({
+        where: { id },
+        data: {
+          ...fields,
+          ...(usersProcessed && { usersProcessed: { increment: usersProcessed } }),
+          ...(entriesReencrypted && { entriesReencrypted: { increment: entriesReencrypted } }),
+          ...(insightsReencrypted && { insightsReencrypted: { increment: insightsReencrypted } }),
+          ...(revisionsReencrypted && { revisionsReencrypted: { increment: revisionsReencrypted } }),
+          ...(attachmentsReencrypted && { attachmentsReencrypted: { increment: attachmentsReencrypted } }),
+        },
+      });
+      return rotation as KeyRotation;
+    } catch (error) {
+      throw new Error(`Failed to update key rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default new KeyRotationRepository();
@@ -0,0 +1,75 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * MfaRecoveryCodeRepository
+ * Handles all database operations related to MFA recovery codes
+ */
+
+const prisma = new PrismaClient();
+
+export class MfaRecoveryCodeRepository {
+  /**
+   * Replace all recovery codes of a user with a new set
+   * @param userId - The user's ID
+   * @param codeHashes - Hashes of the new codes
+   */
+  async replaceForUser(userId: string, codeHashes: string[]): Promise<void> {
+    try {
+      await prisma.$transaction([
+        prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+        prisma.mfaRecoveryCode.createMany({
+          data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+        }),
+      ]);
+    } catch (error) {
+      throw new Error(`Failed to store recovery codes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark an unused recovery code as used
+   * @param userId - The user's ID
+   * @param codeHash - Hash of the code presented by the user
+   * @returns True if the code was valid and has now been consumed
+   */
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    try {
+      const result = await prisma.mfaRecoveryCode.updateMany({
+        where: { userId, codeHash, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new Error(`Failed to use recovery code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Count the unused recovery codes of a user
+   * @param userId - The user's ID
+   * @returns The number of remaining codes
+   */
+  async countRemaining(userId: string): Promise<number> {
+    try {
+      return await prisma.mfaRecoveryCode.count({
+        where: { userId, usedAt: null },
+      });
+    } catch (error) {
+      throw new Error(`Failed to count recovery codes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete all recovery codes of a user
+   * @param userId - The user's ID
+   */
+  async deleteForUser(userId: string): Promise<void> {
+    try {
+      await prisma.mfaRecoveryCode.deleteMany({ where: { userId } });
+    } catch (error) {
+      throw new Error(`Failed to delete recovery codes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default new MfaRecoveryCodeRepository();
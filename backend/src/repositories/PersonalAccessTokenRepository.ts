@@ -0,0 +1,137 @@
+import { PrismaClient } from '@prisma/client';
+import { PersonalAccessToken, UserRole } from '../types/index.js';
+
+/**
+ * PersonalAccessTokenRepository
+ * Handles all database operations related to personal access tokens
+ */
+
+const prisma = new PrismaClient();
+
+export type PersonalAccessTokenWithOwner = PersonalAccessToken & {
+  user: { id: string; email: string; role: UserRole };
+};
+
+export class PersonalAccessTokenRepository {
+  /**
+   * Record a newly issued token
+   * @param data - The token data
+   * @returns The created token
+   */
+  async create(data: {
+    userId: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    scopes: string[];
+    expiresAt?: Date | null;
+  }): Promise<PersonalAccessToken> {
+    try {
+      const token = await prisma.personalAccessToken.create({ data });
+      return token as PersonalAccessToken;
+    } catch (error) {
+      throw new Error(`Failed to create personal access token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find a token and its owner by the hash of the token
+   * @param tokenHash - The hashed token
+   * @returns The token if found, null otherwise
+   */
+  async findByTokenHash(tokenHash: string): Promise<PersonalAccessTokenWithOwner | null> {
+    try {
+      const token = await prisma.personalAccessToken.findUnique({
+        where: { tokenHash },
+        include: { user: { select: { id: true, email: true, role: true } } },
+      });
+      return token as PersonalAccessTokenWithOwner | null;
+    } catch (error) {
+      throw new Error(`Failed to find personal access token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find every token of a user that has not been revoked or expired
+   * @param userId - The token owner
+   * @returns Active tokens, newest first
+   */
+  async findActiveByUser(userId: string): Promise<PersonalAccessToken[]> {
+    try {
+      const tokens = await prisma.personalAccessToken.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      return tokens as PersonalAccessToken[];
+    } catch (error) {
+      throw new Error(`Failed to find personal access tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Count the tokens of a user that have not been revoked or expired
+   * @param userId - The token owner
+   * @returns The number of active tokens
+   */
+  async countActiveByUser(userId: string): Promise<number> {
+    try {
+      return await prisma.personalAccessToken.count({
+        where: {
+          userId,
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to count personal access tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke a token
+   * @param id - The token ID
+   * @param userId - The token owner
+   * @returns True if a live token was revoked
+   */
+  async revoke(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await prisma.personalAccessToken.updateMany({
+        where: { id, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new Error(`Failed to revoke personal access token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record use of a token
+   * Tokens used more recently than the given threshold are left untouched to avoid a write per request
+   * @param id - The token ID
+   * @param usedBefore - Only update tokens last used before this time
+   * @param ipAddress - The address the token was used from
+   */
+  async touch(id: string, usedBefore: Date, ipAddress?: string): Promise<void> {
+    try {
+      await prisma.personalAccessToken.updateMany({
+        where: {
+          id,
+          OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: usedBefore } }],
+        },
+        data: {
+          lastUsedAt: new Date(),
+          ...(ipAddress && { lastUsedIp: ipAddress }),
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to update personal access token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default new PersonalAccessTokenRepository();
@@ -0,0 +1,210 @@
+import { PrismaClient } from '@prisma/client';
+import { Session } from '../types/index.js';
+
+/**
+ * SessionRepository
+ * Handles all database operations related to refresh token sessions
+ */
+
+const prisma = new PrismaClient();
+
+export class SessionRepository {
+  /**
+   * Create a new session row for an issued refresh token
+   * @param data - The session data
+   * @returns The created session
+   */
+  async create(data: {
+    userId: string;
+    familyId: string;
+    tokenHash: string;
+    userAgent?: string;
+    ipAddress?: string;
+    expiresAt: Date;
+  }): Promise<Session> {
+    try {
+      const session = await prisma.session.create({ data });
+      return session as Session;
+    } catch (error) {
+      throw new Error(`Failed to create session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find a session by the hash of its refresh token
+   * @param tokenHash - The hashed refresh token
+   * @returns The session if found, null otherwise
+   */
+  async findByTokenHash(tokenHash: string): Promise<Session | null> {
+    try {
+      const session = await prisma.session.findUnique({
+        where: { tokenHash },
+      });
+      return session as Session | null;
+    } catch (error) {
+      throw new Error(`Failed to find session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace a session row with a freshly issued refresh token
+   * The current row is revoked and linked to its replacement in one transaction
+   * @param currentId - The ID of the session row being rotated
+   * @param next - The data for the replacement row
+   * @returns The replacement session, or null if the current row was already rotated
+   */
+  async rotate(
+    currentId: string,
+    next: {
+      userId: string;
+      familyId: string;
+      tokenHash: string;
+      userAgent?: string;
+      ipAddress?: string;
+      expiresAt: Date;
+      signedInAt?: Date;
+    }
+  ): Promise<Session | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Only one concurrent rotation may claim the current row
+        const claimed = await tx.session.updateMany({
+          where: { id: currentId, revokedAt: null },
+          data: { revokedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        const replacement = await tx.session.create({ data: next });
+        await tx.session.update({
+          where: { id: currentId },
+          data: { replacedById: replacement.id },
+        });
+
+        return replacement as Session;
+      });
+    } catch (error) {
+      throw new Error(`Failed to rotate session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find the owner of a session family that still has a live refresh token
+   * @param familyId - The session family ID
+   * @returns The owner's ID and token version, or null if the session is not active
+   */
+  async findActiveFamilyOwner(familyId: string): Promise<{ id: string; tokenVersion: number } | null> {
+    try {
+      const session = await prisma.session.findFirst({
+        where: {
+          familyId,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        select: { user: { select: { id: true, tokenVersion: true } } },
+      });
+      return session?.user ?? null;
+    } catch (error) {
+      throw new Error(`Failed to check session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke every refresh token in a session family
+   * @param familyId - The session family ID
+   * @param userId - Optional owner check
+   * @returns The number of rows revoked
+   */
+  async revokeFamily(familyId: string, userId?: string): Promise<number> {
+    try {
+      const result = await prisma.session.updateMany({
+        where: {
+          familyId,
+          revokedAt: null,
+          ...(userId && { userId }),
+        },
+        data: { revokedAt: new Date() },
+      });
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to revoke session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find the live refresh token row of every active session for a user
+   * @param userId - The session owner
+   * @returns Active sessions ordered by most recent activity
+   */
+  async findActiveByUser(userId: string): Promise<Session[]> {
+    try {
+      const sessions = await prisma.session.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { lastSeenAt: 'desc' },
+      });
+      return sessions as Session[];
+    } catch (error) {
+      throw new Error(`Failed to find sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke every session of a user
+   * @param userId - The session owner
+   * @param exceptFamilyId - Optional session family to keep
+   * @returns The number of rows revoked
+   */
+  async revokeAllForUser(userId: string, exceptFamilyId?: string): Promise<number> {
+    try {
+      const result = await prisma.session.updateMany({
+        where: {
+          userId,
+          revokedAt: null,
+          ...(exceptFamilyId && { familyId: { not: exceptFamilyId } }),
+        },
+        data: { revokedAt: new Date() },
+      });
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to revoke sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record activity on a session
+   * Rows seen more recently than the given threshold are left untouched to avoid a write per request
+   * @param familyId - The session family ID
+   * @param seenBefore - Only update rows last seen before this time
+   * @param data - The latest device information
+   */
+  async touch(
+    familyId: string,
+    seenBefore: Date,
+    data: { userAgent?: string; ipAddress?: string }
+  ): Promise<void> {
+    try {
+      await prisma.session.updateMany({
+        where: {
+          familyId,
+          revokedAt: null,
+          lastSeenAt: { lt: seenBefore },
+        },
+        data: {
+          lastSeenAt: new Date(),
+          ...(data.userAgent && { userAgent: data.userAgent }),
+          ...(data.ipAddress && { ipAddress: data.ipAddress }),
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to update session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default new SessionRepository();
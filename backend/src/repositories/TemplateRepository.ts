@@ -0,0 +1,128 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { JournalTemplate, TemplateSection } from '../types/index.js';
+
+/**
+ * TemplateRepository
+ * Handles all database operations related to journal templates
+ * Global templates have no owner; the owner passed to update and delete is null for them.
+ */
+
+const prisma = new PrismaClient();
+
+interface TemplateData {
+  name: string;
+  description: string | null;
+  sections: TemplateSection[];
+}
+
+function toTemplate(row: any): JournalTemplate {
+  return { ...row, sections: row.sections as TemplateSection[] };
+}
+
+export class TemplateRepository {
+  /**
+   * Create a template
+   * @param userId - The owner, or null for a global template
+   * @param data - The name, description and sections
+   * @returns The created template
+   */
+  async create(userId: string | null, data: TemplateData): Promise<JournalTemplate> {
+    try {
+      const template = await prisma.journalTemplate.create({
+        data: { userId, ...data, sections: data.sections as unknown as Prisma.InputJsonValue },
+      });
+      return toTemplate(template);
+    } catch (error) {
+      throw new Error(`Failed to create template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find the templates a user can write from
+   * @param userId - The user
+   * @returns The global templates, then the user's own, each alphabetically
+   */
+  async findAvailable(userId: string): Promise<JournalTemplate[]> {
+    try {
+      const templates = await prisma.journalTemplate.findMany({
+        where: { OR: [{ userId: null }, { userId }] },
+        orderBy: [{ userId: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }],
+      });
+      return templates.map(toTemplate);
+    } catch (error) {
+      throw new Error(`Failed to find templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find a template by ID
+   * @param id - The template ID
+   * @returns The template, or null if it doesn't exist
+   */
+  async findById(id: string): Promise<JournalTemplate | null> {
+    try {
+      const template = await prisma.journalTemplate.findUnique({ where: { id } });
+      return template && toTemplate(template);
+    } catch (error) {
+      throw new Error(`Failed to find template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Count a user's personal templates
+   * @param userId - The owner
+   * @returns The number of templates
+   */
+  async countByUserId(userId: string): Promise<number> {
+    try {
+      return await prisma.journalTemplate.count({ where: { userId } });
+    } catch (error) {
+      throw new Error(`Failed to count templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update a template
+   * Entries already written from it keep their sections as they were
+   * @param id - The template ID
+   * @param userId - The owner, or null for a global template
+   * @param data - The fields to change
+   * @returns The updated template, or null if the owner has no such template
+   */
+  async update(id: string, userId: string | null, data: Partial<TemplateData>): Promise<JournalTemplate | null> {
+    try {
+      const { count } = await prisma.journalTemplate.updateMany({
+        where: { id, userId },
+        data: {
+          ...data,
+          sections: data.sections as unknown as Prisma.InputJsonValue | undefined,
+        },
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      return await this.findById(id);
+    } catch (error) {
+      throw new Error(`Failed to update template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a template
+   * Entries written from it keep their fields
+   * @param id - The template ID
+   * @param userId - The owner, or null for a global template
+   * @returns True if the template was deleted
+   */
+  async delete(id: string, userId: string | null): Promise<boolean> {
+    try {
+      const { count } = await prisma.journalTemplate.deleteMany({ where: { id, userId } });
+      return count > 0;
+    } catch (error) {
+      throw new Error(`Failed to delete template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default new TemplateRepository();
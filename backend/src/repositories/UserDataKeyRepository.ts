@@ -0,0 +1,85 @@
+import { PrismaClient } from '@prisma/client';
+import { UserDataKey } from '../types/index.js';
+
+/**
+ * UserDataKeyRepository
+ * Handles all database operations related to users' wrapped data encryption keys
+ */
+
+const prisma = new PrismaClient();
+
+export class UserDataKeyRepository {
+  /**
+   * Store a newly generated data key
+   * @param data - The wrapped key and its version
+   * @returns The stored key
+   * @throws Error if the user already has a key with this version
+   */
+  async create(data: {
+    userId: string;
+    version: number;
+    wrappedKey: string;
+    wrapIv: string;
+    wrapTag: string;
+    masterKeyId: string;
+  }): Promise<UserDataKey> {
+    try {
+      const dataKey = await prisma.userDataKey.create({ data });
+      return dataKey as UserDataKey;
+    } catch (error) {
+      throw new Error(`Failed to create data key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find a data key by ID
+   * @param id - The data key ID
+   * @returns The data key if found, null otherwise
+   */
+  async findById(id: string): Promise<UserDataKey | null> {
+    try {
+      const dataKey = await prisma.userDataKey.findUnique({
+        where: { id },
+      });
+      return dataKey as UserDataKey | null;
+    } catch (error) {
+      throw new Error(`Failed to find data key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find the newest data key of a user
+   * @param userId - The key owner
+   * @returns The key with the highest version, or null if the user has none
+   */
+  async findLatestByUser(userId: string): Promise<UserDataKey | null> {
+    try {
+      const dataKey = await prisma.userDataKey.findFirst({
+        where: { userId },
+        orderBy: { version: 'desc' },
+      });
+      return dataKey as UserDataKey | null;
+    } catch (error) {
+      throw new Error(`Failed to find data key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete all of a user's data keys
+   * Anything encrypted with them can no longer be decrypted, including copies in backups
+   * @param userId - The key owner
+   * @returns The number of keys deleted
+   */
+  async deleteByUser(userId: string): Promise<number> {
+    try {
+      const { count } = await prisma.userDataKey.deleteMany({
+        where: { userId },
+      });
+      return count;
+    } catch (error) {
+      throw new Error(`Failed to delete data keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export default new UserDataKeyRepository();
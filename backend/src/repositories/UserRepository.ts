@@ -81,6 +81,12 @@ export class UserRepository {
       hasCompletedOnboarding?: boolean;
       role?: UserRole;
       aiConsent?: boolean;
+      mfaEnabled?: boolean;
+      mfaSecret?: string | null;
+      mfaSecretIv?: string | null;
+      mfaSecretTag?: string | null;
+      mfaLastUsedStep?: number | null;
+      emailVerifiedAt?: Date | null;
     }
   ): Promise<User> {
     try {
@@ -97,6 +103,52 @@ export class UserRepository {
     }
   }
 
+  /**
+   * Record the time step of a TOTP code the user just entered
+   * The step is only stored if it is later than the last one used, in a single update,
+   * so two requests with the same code cannot both succeed
+   * @param id - The user's ID
+   * @param step - The time step the code belongs to
+   * @returns True if the step had not been used yet and is now recorded
+   */
+  async claimMfaStep(id: string, step: number): Promise<boolean> {
+    try {
+      const result = await prisma.user.updateMany({
+        where: {
+          id,
+          OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+        },
+        data: { mfaLastUsedStep: step },
+      });
+      return result.count > 0;
+    } catch (error) {
+      throw new Error(`Failed to record MFA code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Change a user's role
+   * The token version is bumped in the same update so access tokens carrying the old role stop working
+   * @param id - The user's unique identifier
+   * @param role - The new role
+   * @returns The updated user
+   * @throws Error if update fails
+   */
+  async updateRole(id: string, role: UserRole): Promise<User> {
+    try {
+      const user = await prisma.user.update({
+        where: { id },
+        data: {
+          role,
+          tokenVersion: { increment: 1 },
+        },
+      });
+      return user as User;
+    } catch (error) {
+      throw new Error(`Failed to update user role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Find all users with pagination and search
    */
@@ -124,6 +176,8 @@ export class UserRepository {
             role: true,
             createdAt: true,
             hasCompletedOnboarding: true,
+            mfaEnabled: true,
+            emailVerifiedAt: true,
           },
           orderBy: { createdAt: 'desc' },
         }),
@@ -144,12 +198,13 @@ export class UserRepository {
 
   /**
    * Get system statistics
+   * Drafts are not counted until they are published
    */
   async getSystemStats(): Promise<any> {
     try {
       const [totalUsers, totalEntries, usersByRole] = await Promise.all([
         prisma.user.count(),
-        prisma.journalEntry.count(),
+        prisma.journalEntry.count({ where: { status: 'PUBLISHED' } }),
         prisma.user.groupBy({
           by: ['role'],
           _count: true,
@@ -169,6 +224,36 @@ export class UserRepository {
     }
   }
 
+  /**
+   * Count all users
+   */
+  async count(): Promise<number> {
+    try {
+      return await prisma.user.count();
+    } catch (error) {
+      throw new Error(`Failed to count users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List user IDs in ID order, for jobs that walk every user in batches
+   * @param afterId - Only return IDs greater than this one (the previous batch's last ID)
+   * @param limit - The batch size
+   */
+  async findIdsAfter(afterId: string | null, limit: number): Promise<string[]> {
+    try {
+      const users = await prisma.user.findMany({
+        where: afterId ? { id: { gt: afterId } } : undefined,
+        orderBy: { id: 'asc' },
+        take: limit,
+        select: { id: true },
+      });
+      return users.map((user) => user.id);
+    } catch (error) {
+      throw new Error(`Failed to list users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Delete a user
    */
@@ -1,10 +1,24 @@
-import { Router } from 'express';
-import { authMiddleware } from '../middleware/authMiddleware.js';
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
 import { requireAdmin } from '../middleware/roleMiddleware.js';
+import { validateRequest } from '../middleware/validationMiddleware.js';
+import { startKeyRotationSchema, createTemplateSchema, updateTemplateSchema } from '../utils/validators.js';
 import AdminController from '../controllers/AdminController.js';
 
 const router = Router();
 
+/**
+ * Wrapper function to handle async controller methods
+ * Catches errors and passes them to the error handler middleware
+ */
+function asyncHandler(
+    fn: (req: AuthenticatedRequest, res: Response) => Promise<void>
+) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        Promise.resolve(fn(req as AuthenticatedRequest, res)).catch(next);
+    };
+}
+
 /**
  * @swagger
  * /api/v1/admin/users:
@@ -116,7 +130,9 @@ router.put(
  * /api/v1/admin/users/{id}:
  *   delete:
  *     summary: Delete user (Admin only)
- *     description: Permanently delete a user
+ *     description: |
+ *       Permanently delete a user. Their data keys are destroyed and their queued analysis
+ *       jobs removed, and the response includes a signed deletion receipt.
  *     tags:
  *       - Admin
  *     security:
@@ -134,12 +150,237 @@ router.put(
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
  *         description: Forbidden - Admin role required
+ *       404:
+ *         description: User not found
  */
 router.delete(
     '/users/:id',
     authMiddleware,
     requireAdmin,
-    AdminController.deleteUser.bind(AdminController)
+    asyncHandler(AdminController.deleteUser.bind(AdminController))
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/key-rotations:
+ *   post:
+ *     summary: Start a data key rotation (Admin only)
+ *     description: |
+ *       Queue a job that gives every user a new data key wrapped by the active master key
+ *       and re-encrypts their entries and insight summaries with it. The API keeps serving
+ *       data encrypted with either key while the job runs. With dryRun, every entry and
+ *       insight is decrypted to check it can be rotated, but nothing is written.
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       202:
+ *         description: Rotation queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/KeyRotation'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *       409:
+ *         description: A rotation is already in progress
+ *   get:
+ *     summary: List data key rotations (Admin only)
+ *     description: The 20 most recent rotations, newest first
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rotations retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin role required
+ */
+router.post(
+    '/key-rotations',
+    authMiddleware,
+    requireAdmin,
+    validateRequest(startKeyRotationSchema),
+    asyncHandler(AdminController.startKeyRotation.bind(AdminController))
+);
+
+router.get(
+    '/key-rotations',
+    authMiddleware,
+    requireAdmin,
+    asyncHandler(AdminController.getKeyRotations.bind(AdminController))
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/key-rotations/{id}:
+ *   get:
+ *     summary: Get data key rotation progress (Admin only)
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rotation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/KeyRotation'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *       404:
+ *         description: Rotation not found
+ */
+router.get(
+    '/key-rotations/:id',
+    authMiddleware,
+    requireAdmin,
+    asyncHandler(AdminController.getKeyRotation.bind(AdminController))
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/templates:
+ *   post:
+ *     summary: Create a global template (Admin only)
+ *     description: Global templates are offered to every user alongside their personal ones
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TemplateInput'
+ *     responses:
+ *       201:
+ *         description: Template created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalTemplate'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin role required
+ * /api/v1/admin/templates/{id}:
+ *   put:
+ *     summary: Update a global template (Admin only)
+ *     description: Entries already written from the template keep the sections they were written with
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TemplateInput'
+ *     responses:
+ *       200:
+ *         description: Template updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *       404:
+ *         description: Template not found
+ *   delete:
+ *     summary: Delete a global template (Admin only)
+ *     description: Entries written from the template keep their fields
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Template deleted
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *       404:
+ *         description: Template not found
+ */
+router.post(
+    '/templates',
+    authMiddleware,
+    requireAdmin,
+    validateRequest(createTemplateSchema),
+    asyncHandler(AdminController.createTemplate.bind(AdminController))
+);
+
+router.put(
+    '/templates/:id',
+    authMiddleware,
+    requireAdmin,
+    validateRequest(updateTemplateSchema),
+    asyncHandler(AdminController.updateTemplate.bind(AdminController))
+);
+
+router.delete(
+    '/templates/:id',
+    authMiddleware,
+    requireAdmin,
+    asyncHandler(AdminController.deleteTemplate.bind(AdminController))
 );
 
 export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import AiController from '../controllers/AiController.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { requireSession } from '../middleware/scopeMiddleware.js';
 
 const router = Router();
 
@@ -13,6 +14,7 @@ function asyncHandler(fn: (req: AuthenticatedRequest, res: Response) => Promise<
 router.post(
   '/',
   authMiddleware,
+  requireSession,
   asyncHandler(AiController.generateInsight.bind(AiController))
 );
 
@@ -0,0 +1,280 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import AttachmentController from '../controllers/AttachmentController.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { requireScope } from '../middleware/scopeMiddleware.js';
+import { uploadSingleFile } from '../middleware/uploadMiddleware.js';
+import { TokenScope } from '../types/index.js';
+
+/**
+ * Attachment Routes
+ * - GET /api/v1/entries/:id/attachments - List an entry's attachments
+ * - POST /api/v1/entries/:id/attachments - Attach a file to an entry
+ * - GET /api/v1/entries/:id/attachments/:attachmentId - Download an attachment
+ * - GET /api/v1/entries/:id/attachments/:attachmentId/thumbnail - Download an image's thumbnail
+ * - DELETE /api/v1/entries/:id/attachments/:attachmentId - Delete an attachment
+ *
+ * All routes require authentication. Personal access tokens need the entries:read
+ * scope to list and download attachments and entries:write to change them.
+ * Attachments of entries in the trash cannot be reached until the entry is restored.
+ */
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /api/v1/entries/{id}/attachments:
+ *   get:
+ *     summary: List an entry's attachments
+ *     description: The files attached to the entry, oldest first
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EntryAttachment'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   post:
+ *     summary: Attach a file to an entry
+ *     description: |
+ *       Upload one file as multipart/form-data. Images (JPEG, PNG, WebP, GIF, HEIC), PDFs and
+ *       audio (MP3, M4A, WAV, WebM, Ogg) are accepted, up to ATTACHMENT_MAX_BYTES (10 MB by
+ *       default) and 10 files per entry. The file's contents must match its type. The file is
+ *       encrypted before it is stored, and images other than HEIC get a thumbnail.
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: File attached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/EntryAttachment'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - no file, a type that is not allowed, or contents that do not match the type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The entry already has as many attachments as it can have
+ *       413:
+ *         description: The file is larger than ATTACHMENT_MAX_BYTES
+ * /api/v1/entries/{id}/attachments/{attachmentId}:
+ *   get:
+ *     summary: Download an attachment
+ *     description: Streams the decrypted file with its original name and type. Responses are never cached.
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file
+ *         headers:
+ *           Content-Disposition:
+ *             schema:
+ *               type: string
+ *               example: attachment; filename="scan.pdf"; filename*=UTF-8''scan.pdf
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Delete an attachment
+ *     description: The attachment's stored file and thumbnail are deleted with it.
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Attachment deleted
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ * /api/v1/entries/{id}/attachments/{attachmentId}/thumbnail:
+ *   get:
+ *     summary: Download an image attachment's thumbnail
+ *     description: A WebP image at most 320 pixels on its longest side. Only attachments with hasThumbnail have one.
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The thumbnail
+ *         content:
+ *           image/webp:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
+/**
+ * Wrapper function to handle async controller methods
+ * Catches errors and passes them to the error handler middleware
+ */
+function asyncHandler(fn: (req: AuthenticatedRequest, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req as AuthenticatedRequest, res)).catch(next);
+  };
+}
+
+/**
+ * GET /api/v1/entries/:id/attachments
+ * List an entry's attachments
+ */
+router.get(
+  '/',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(AttachmentController.listAttachments.bind(AttachmentController))
+);
+
+/**
+ * POST /api/v1/entries/:id/attachments
+ * Attach a file to an entry
+ */
+router.post(
+  '/',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  uploadSingleFile('file'),
+  asyncHandler(AttachmentController.uploadAttachment.bind(AttachmentController))
+);
+
+/**
+ * GET /api/v1/entries/:id/attachments/:attachmentId
+ * Download an attachment
+ */
+router.get(
+  '/:attachmentId',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(AttachmentController.downloadAttachment.bind(AttachmentController))
+);
+
+/**
+ * GET /api/v1/entries/:id/attachments/:attachmentId/thumbnail
+ * Download an image attachment's thumbnail
+ */
+router.get(
+  '/:attachmentId/thumbnail',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(AttachmentController.downloadThumbnail.bind(AttachmentController))
+);
+
+/**
+ * DELETE /api/v1/entries/:id/attachments/:attachmentId
+ * Delete an attachment
+ */
+router.delete(
+  '/:attachmentId',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  asyncHandler(AttachmentController.deleteAttachment.bind(AttachmentController))
+);
+
+export default router;
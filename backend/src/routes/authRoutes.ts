@@ -1,11 +1,16 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import AuthController from '../controllers/AuthController.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
-import { loginLimiter, registerLimiter } from '../middleware/rateLimiter.js';
+import { requireSession } from '../middleware/scopeMiddleware.js';
+import { loginLimiter, registerLimiter, accountRecoveryLimiter } from '../middleware/rateLimiter.js';
 import { validateRequest } from '../middleware/validationMiddleware.js';
 import {
   registrationSchema,
   loginSchema,
+  mfaVerifySchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
 } from '../utils/validators.js';
 
 /**
@@ -14,8 +19,12 @@ import {
  * Requirements: 1.1, 1.2, 4.1, 4.2
  * - POST /api/v1/auth/register - User registration
  * - POST /api/v1/auth/login - User login
+ * - POST /api/v1/auth/mfa/verify - Second login step for MFA users
  * - POST /api/v1/auth/logout - User logout
  * - POST /api/v1/auth/refresh - Refresh access token
+ * - POST /api/v1/auth/forgot-password - Email a password reset link
+ * - POST /api/v1/auth/reset-password - Set a new password with a reset token
+ * - POST /api/v1/auth/verify-email - Confirm an email address
  */
 
 const router = Router();
@@ -120,7 +129,7 @@ const router = Router();
  * /api/v1/auth/login:
  *   post:
  *     summary: Login user
- *     description: Authenticate user with email and password, returns JWT tokens
+ *     description: Authenticate user with email and password, returns JWT tokens. Users with MFA enabled receive `{ mfaRequired: true, mfaToken }` instead and must call `/api/v1/auth/mfa/verify`.
  *     tags:
  *       - Authentication
  *     requestBody:
@@ -210,7 +219,7 @@ const router = Router();
  * /api/v1/auth/logout:
  *   post:
  *     summary: Logout user
- *     description: Invalidate user session (requires authentication)
+ *     description: Revoke the current session so its access and refresh tokens stop working (requires authentication)
  *     tags:
  *       - Authentication
  *     security:
@@ -263,7 +272,7 @@ const router = Router();
  * /api/v1/auth/refresh:
  *   post:
  *     summary: Refresh access token
- *     description: Get a new access token using a refresh token
+ *     description: Exchange a refresh token for a new token pair. Refresh tokens are single-use; replaying a rotated token revokes the session.
  *     tags:
  *       - Authentication
  *     requestBody:
@@ -347,6 +356,216 @@ const router = Router();
  *                   format: date-time
  */
 
+/**
+ * @swagger
+ * /api/v1/auth/mfa/verify:
+ *   post:
+ *     summary: Complete MFA login
+ *     description: Exchange the MFA challenge token returned by login and a TOTP or recovery code for JWT tokens
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mfaToken
+ *               - code
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *                 description: Challenge token from the login response (valid for 5 minutes)
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthResponse'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - missing or invalid fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         description: Invalid or expired challenge, or invalid code
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequestsError'
+ */
+
+/**
+ * @swagger
+ * /api/v1/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset
+ *     description: Email a single-use reset link valid for 60 minutes. The response is the same whether or not an account exists for the address.
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: user@example.com
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     message:
+ *                       type: string
+ *                       example: If an account exists for this email, a password reset link has been sent
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - missing or invalid email
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequestsError'
+ */
+
+/**
+ * @swagger
+ * /api/v1/auth/reset-password:
+ *   post:
+ *     summary: Reset password
+ *     description: Set a new password with the token from a reset email. The token can only be used once, and every existing session of the user is revoked.
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *                 example: NewSecurePassword123!
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     message:
+ *                       type: string
+ *                       example: Password has been reset. Please sign in with your new password.
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Weak password, or invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequestsError'
+ */
+
+/**
+ * @swagger
+ * /api/v1/auth/verify-email:
+ *   post:
+ *     summary: Verify email address
+ *     description: Confirm an email address with the token from a verification email (valid for 24 hours, single use)
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     emailVerified:
+ *                       type: boolean
+ *                       example: true
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequestsError'
+ */
+
 /**
  * Wrapper function to handle async controller methods
  * Catches errors and passes them to the error handler middleware
@@ -427,6 +646,16 @@ router.post(
  *   "timestamp": "2024-01-01T00:00:00Z"
  * }
  * 
+ * Response when MFA is enabled (200 OK):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "mfaRequired": true,
+ *     "mfaToken": "eyJhbGc..."
+ *   },
+ *   "timestamp": "2024-01-01T00:00:00Z"
+ * }
+ * 
  * Error responses:
  * - 400 Bad Request: Missing or invalid fields
  * - 401 Unauthorized: Invalid email or password
@@ -440,6 +669,31 @@ router.post(
   asyncHandler(AuthController.login.bind(AuthController))
 );
 
+/**
+ * POST /api/v1/auth/mfa/verify
+ * Complete a login for a user with MFA enabled
+ * 
+ * Request body:
+ * {
+ *   "mfaToken": "eyJhbGc...",
+ *   "code": "123456"
+ * }
+ * 
+ * Response (200 OK): same as /login
+ * 
+ * Error responses:
+ * - 400 Bad Request: Missing or invalid fields
+ * - 401 Unauthorized: Invalid or expired challenge, or invalid code
+ * - 429 Too Many Requests: Rate limit exceeded
+ * - 500 Internal Server Error: Server error
+ */
+router.post(
+  '/mfa/verify',
+  loginLimiter,
+  validateRequest(mfaVerifySchema),
+  asyncHandler(AuthController.verifyMfa.bind(AuthController))
+);
+
 /**
  * POST /api/v1/auth/logout
  * Logout a user (requires authentication)
@@ -465,6 +719,7 @@ router.post(
 router.post(
   '/logout',
   authMiddleware,
+  requireSession,
   asyncHandler(AuthController.logout.bind(AuthController))
 );
 
@@ -497,4 +752,95 @@ router.post(
   asyncHandler(AuthController.refresh.bind(AuthController))
 );
 
+/**
+ * POST /api/v1/auth/forgot-password
+ * Email a password reset link
+ * 
+ * Request body:
+ * {
+ *   "email": "user@example.com"
+ * }
+ * 
+ * Response (200 OK, also for unknown addresses):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "message": "If an account exists for this email, a password reset link has been sent"
+ *   },
+ *   "timestamp": "2024-01-01T00:00:00Z"
+ * }
+ * 
+ * Error responses:
+ * - 400 Bad Request: Missing or invalid email
+ * - 429 Too Many Requests: Rate limit exceeded
+ * - 500 Internal Server Error: Server error
+ */
+router.post(
+  '/forgot-password',
+  accountRecoveryLimiter,
+  validateRequest(forgotPasswordSchema),
+  asyncHandler(AuthController.forgotPassword.bind(AuthController))
+);
+
+/**
+ * POST /api/v1/auth/reset-password
+ * Set a new password with a reset token and sign out every session
+ * 
+ * Request body:
+ * {
+ *   "token": "eyJhbGc...",
+ *   "newPassword": "NewSecurePassword123!"
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "message": "Password has been reset. Please sign in with your new password."
+ *   },
+ *   "timestamp": "2024-01-01T00:00:00Z"
+ * }
+ * 
+ * Error responses:
+ * - 400 Bad Request: Weak password, or invalid, expired or used token
+ * - 429 Too Many Requests: Rate limit exceeded
+ * - 500 Internal Server Error: Server error
+ */
+router.post(
+  '/reset-password',
+  accountRecoveryLimiter,
+  validateRequest(resetPasswordSchema),
+  asyncHandler(AuthController.resetPassword.bind(AuthController))
+);
+
+/**
+ * POST /api/v1/auth/verify-email
+ * Confirm an email address with a verification token
+ * 
+ * Request body:
+ * {
+ *   "token": "eyJhbGc..."
+ * }
+ * 
+ * Response (200 OK):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "emailVerified": true
+ *   },
+ *   "timestamp": "2024-01-01T00:00:00Z"
+ * }
+ * 
+ * Error responses:
+ * - 400 Bad Request: Invalid, expired or used token
+ * - 429 Too Many Requests: Rate limit exceeded
+ * - 500 Internal Server Error: Server error
+ */
+router.post(
+  '/verify-email',
+  accountRecoveryLimiter,
+  validateRequest(verifyEmailSchema),
+  asyncHandler(AuthController.verifyEmail.bind(AuthController))
+);
+
 export default router;
@@ -1,11 +1,13 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import EntryController from '../controllers/EntryController.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { requireScope } from '../middleware/scopeMiddleware.js';
 import { validateRequest } from '../middleware/validationMiddleware.js';
 import {
   createEntrySchema,
   updateEntrySchema,
 } from '../utils/validators.js';
+import { TokenScope } from '../types/index.js';
 
 /**
  * Journal Entry Routes
@@ -13,11 +15,19 @@ import {
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 3.6
  * - POST /api/v1/entries - Create new entry
  * - GET /api/v1/entries - List user's entries (paginated)
+ * - GET /api/v1/entries/search - Search user's entries
  * - GET /api/v1/entries/:id - Get specific entry
  * - PUT /api/v1/entries/:id - Update entry
- * - DELETE /api/v1/entries/:id - Delete entry
+ * - DELETE /api/v1/entries/:id - Move entry to the trash
+ * - GET /api/v1/entries/trash - List entries in the trash
+ * - POST /api/v1/entries/trash/:id/restore - Take an entry out of the trash
+ * - DELETE /api/v1/entries/trash/:id - Permanently delete an entry in the trash
+ * - GET /api/v1/entries/:id/revisions - List an entry's earlier versions
+ * - GET /api/v1/entries/:id/revisions/diff - Compare two versions word by word
+ * - POST /api/v1/entries/:id/revisions/:rev/restore - Restore an earlier version
  * 
- * All endpoints require authentication
+ * All endpoints require authentication. Personal access tokens need the
+ * entries:read scope to read entries and entries:write to change them.
  */
 
 const router = Router();
@@ -40,24 +50,44 @@ const router = Router();
  *             type: object
  *             required:
  *               - title
- *               - content
  *             properties:
  *               title:
  *                 type: string
  *                 example: My Day
  *               content:
  *                 type: string
+ *                 description: Required unless the entry is written from a template, where it holds any notes besides the fields
  *                 example: Today was a good day...
  *               mood:
  *                 type: string
  *                 nullable: true
+ *                 description: One of the moods from GET /api/v1/moods. Leave out when sending emotions.
  *                 example: happy
+ *               emotions:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   $ref: '#/components/schemas/EntryEmotion'
+ *                 description: Several emotions with intensities, from the vocabulary or the user's custom moods. The strongest sets the mood.
  *               tags:
  *                 type: array
  *                 items:
  *                   type: string
  *                 nullable: true
  *                 example: ["work", "personal"]
+ *               templateId:
+ *                 type: string
+ *                 description: A template from GET /api/v1/templates to write the entry from
+ *               fields:
+ *                 type: object
+ *                 additionalProperties: true
+ *                 description: Answers to the template's sections by section key - text, a list of strings or a rating from 0 to 10. Sections left out are stored empty.
+ *                 example: { "situation": "Presentation at work", "belief_rating": 7 }
+ *               status:
+ *                 type: string
+ *                 enum: [DRAFT, PUBLISHED]
+ *                 default: PUBLISHED
+ *                 description: Drafts are left out of analytics and AI insights until published
  *     responses:
  *       201:
  *         description: Journal entry created successfully
@@ -141,9 +171,20 @@ const router = Router();
  *           enum: [asc, desc]
  *           default: desc
  *         description: Sort order
+ *       - $ref: '#/components/parameters/EntryPagination'
+ *       - $ref: '#/components/parameters/EntryCursor'
+ *       - $ref: '#/components/parameters/EntryMoodFilter'
+ *       - $ref: '#/components/parameters/EntryTagsFilter'
+ *       - $ref: '#/components/parameters/EntryTagModeFilter'
+ *       - $ref: '#/components/parameters/EntryFromFilter'
+ *       - $ref: '#/components/parameters/EntryToFilter'
+ *       - $ref: '#/components/parameters/EntryTimezoneFilter'
+ *       - $ref: '#/components/parameters/EntryHasInsightFilter'
+ *       - $ref: '#/components/parameters/EntryThemeFilter'
+ *       - $ref: '#/components/parameters/EntryStatusFilter'
  *     responses:
  *       200:
- *         description: Journal entries retrieved successfully
+ *         description: Journal entries retrieved successfully (CursorPaginatedEntries with cursor pagination)
  *         content:
  *           application/json:
  *             schema:
@@ -153,12 +194,14 @@ const router = Router();
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   $ref: '#/components/schemas/PaginatedEntries'
+ *                   oneOf:
+ *                     - $ref: '#/components/schemas/PaginatedEntries'
+ *                     - $ref: '#/components/schemas/CursorPaginatedEntries'
  *                 timestamp:
  *                   type: string
  *                   format: date-time
  *       400:
- *         description: Validation error - invalid pagination parameters
+ *         description: Validation error - invalid pagination or filter parameters
  *         content:
  *           application/json:
  *             schema:
@@ -186,6 +229,66 @@ const router = Router();
  *                   format: date-time
  */
 
+/**
+ * @swagger
+ * /api/v1/entries/search:
+ *   get:
+ *     summary: Search user's journal entries
+ *     description: >
+ *       Full-text search over the titles and contents of the authenticated user's entries.
+ *       Every word of the query must match, either as a whole word (ignoring endings such as
+ *       "-ing" or "-s") or as the start of a longer word. Results are ranked by relevance.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: q
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 200
+ *         description: Search text
+ *       - name: page
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number for pagination
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *         description: Number of entries per page
+ *     responses:
+ *       200:
+ *         description: Matching journal entries, most relevant first, each with a numeric score
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/PaginatedEntries'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - missing or too long query, or invalid pagination parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+
 /**
  * @swagger
  * /api/v1/entries/{id}:
@@ -207,6 +310,12 @@ const router = Router();
  *     responses:
  *       200:
  *         description: Journal entry retrieved successfully
+ *         headers:
+ *           ETag:
+ *             description: The entry's version, to send back in If-Match when updating it
+ *             schema:
+ *               type: string
+ *               example: '"3"'
  *         content:
  *           application/json:
  *             schema:
@@ -271,6 +380,13 @@ const router = Router();
  *           type: string
  *           format: uuid
  *         description: Journal entry ID
+ *       - name: If-Match
+ *         in: header
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: '"3"'
+ *         description: ETag of the version being edited; the update is refused if the entry has changed since
  *     requestBody:
  *       required: true
  *       content:
@@ -287,16 +403,36 @@ const router = Router();
  *               mood:
  *                 type: string
  *                 nullable: true
+ *                 description: One of the moods from GET /api/v1/moods, or null to clear it. Replaces the entry's emotions with just this one.
  *                 example: calm
+ *               emotions:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   $ref: '#/components/schemas/EntryEmotion'
+ *                 description: Replaces the entry's emotions, and sets the mood to the strongest; an empty list clears them
  *               tags:
  *                 type: array
  *                 items:
  *                   type: string
  *                 nullable: true
  *                 example: ["updated", "tags"]
+ *               fields:
+ *                 type: object
+ *                 additionalProperties: true
+ *                 description: Changed answers by section key, for entries written from a template. Sections left out keep their answers.
+ *               status:
+ *                 type: string
+ *                 enum: [DRAFT, PUBLISHED]
+ *                 description: Set to PUBLISHED to publish a draft. Published entries cannot become drafts again.
  *     responses:
  *       200:
  *         description: Journal entry updated successfully
+ *         headers:
+ *           ETag:
+ *             description: The entry's new version
+ *             schema:
+ *               type: string
  *         content:
  *           application/json:
  *             schema:
@@ -322,6 +458,35 @@ const router = Router();
  *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
+ *       412:
+ *         description: The entry was changed since the If-Match version; the current entry is returned
+ *         headers:
+ *           ETag:
+ *             description: The entry's current version
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 error:
+ *                   type: object
+ *                   properties:
+ *                     code:
+ *                       type: string
+ *                       example: PRECONDITION_FAILED
+ *                     message:
+ *                       type: string
+ *                       example: Entry was changed since it was loaded
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalEntry'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
  *       500:
  *         description: Internal server error
  *         content:
@@ -347,8 +512,8 @@ const router = Router();
  * @swagger
  * /api/v1/entries/{id}:
  *   delete:
- *     summary: Delete a journal entry
- *     description: Delete a journal entry (must be owned by authenticated user)
+ *     summary: Move a journal entry to the trash
+ *     description: Move a journal entry (must be owned by authenticated user) to the trash. It is left out of lists, search, exports and analytics, and permanently deleted with its revisions once the retention period (TRASH_RETENTION_DAYS, 30 days by default) has passed.
  *     tags:
  *       - Journal Entries
  *     security:
@@ -363,7 +528,7 @@ const router = Router();
  *         description: Journal entry ID
  *     responses:
  *       204:
- *         description: Journal entry deleted successfully
+ *         description: Journal entry moved to the trash
  *       400:
  *         description: Validation error - missing entry ID
  *         content:
@@ -397,6 +562,282 @@ const router = Router();
  *                   format: date-time
  */
 
+/**
+ * @swagger
+ * /api/v1/entries/{id}/revisions:
+ *   get:
+ *     summary: List an entry's earlier versions
+ *     description: Every change to an entry's title, content, mood or tags saves the version it replaced. Revisions are listed newest first and are deleted with the entry.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Journal entry ID
+ *     responses:
+ *       200:
+ *         description: Revisions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EntryRevision'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
+/**
+ * @swagger
+ * /api/v1/entries/{id}/revisions/diff:
+ *   get:
+ *     summary: Compare two versions of an entry
+ *     description: Word-level changes to the title and content from one revision to a later revision or to the current entry
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Journal entry ID
+ *       - name: from
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: The earlier revision number
+ *       - name: to
+ *         in: query
+ *         schema:
+ *           type: string
+ *           default: current
+ *         description: The later revision number, or current
+ *     responses:
+ *       200:
+ *         description: Changes between the two versions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/EntryRevisionDiff'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - invalid revision number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
+/**
+ * @swagger
+ * /api/v1/entries/{id}/revisions/{rev}/restore:
+ *   post:
+ *     summary: Restore an earlier version of an entry
+ *     description: Makes the revision the entry's current version. The version it replaces is saved as a new revision, so a restore can itself be undone.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Journal entry ID
+ *       - name: rev
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Revision number to restore
+ *     responses:
+ *       200:
+ *         description: Entry restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalEntry'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - invalid revision number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
+/**
+ * @swagger
+ * /api/v1/entries/trash:
+ *   get:
+ *     summary: List entries in the trash
+ *     description: The authenticated user's deleted entries, most recently deleted first, with when each will be permanently deleted
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: page
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Trashed entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/PaginatedEntries'
+ *                     - type: object
+ *                       properties:
+ *                         data:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/TrashedEntry'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - invalid pagination parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+
+/**
+ * @swagger
+ * /api/v1/entries/trash/{id}/restore:
+ *   post:
+ *     summary: Restore an entry from the trash
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Journal entry ID
+ *     responses:
+ *       200:
+ *         description: Entry restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalEntry'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
+/**
+ * @swagger
+ * /api/v1/entries/trash/{id}:
+ *   delete:
+ *     summary: Permanently delete an entry in the trash
+ *     description: Deletes the entry and its revisions now instead of at the end of the retention period. This cannot be undone.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Journal entry ID
+ *     responses:
+ *       204:
+ *         description: Entry permanently deleted
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
 /**
  * Wrapper function to handle async controller methods
  * Catches errors and passes them to the error handler middleware
@@ -450,6 +891,7 @@ function asyncHandler(
 router.post(
   '/',
   authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
   validateRequest(createEntrySchema),
   asyncHandler(EntryController.createEntry.bind(EntryController))
 );
@@ -468,8 +910,19 @@ router.post(
  * - limit: number (default: 10, max: 100) - Number of entries per page
  * - sortBy: string (default: createdAt) - Field to sort by (createdAt or updatedAt)
  * - order: string (default: desc) - Sort order (asc or desc)
+ * - pagination: string (default: offset) - offset, or cursor for keyset pagination
+ * - cursor: string - nextCursor from the previous page (implies pagination=cursor)
+ * - mood: string[] - Only entries with one of these moods, as the mood or any emotion (custom moods count as their base emotion)
+ * - tags: string[] - Only entries with these tags
+ * - tagMode: string (default: any) - Match any of the tags or all of them
+ * - from, to: string - Inclusive date range, as days (YYYY-MM-DD) or ISO 8601 date-times
+ * - timezone: string (default: UTC) - IANA time zone the from/to days are in
+ * - hasInsight: boolean - Only entries with (true) or without (false) an insight
+ * - theme: string - Only entries whose insight found this theme
+ * 
+ * List parameters can be repeated (?tags=a&tags=b) or comma-separated (?tags=a,b).
  * 
- * Example: GET /api/v1/entries?page=1&limit=10&sortBy=createdAt&order=desc
+ * Example: GET /api/v1/entries?page=1&limit=10&mood=happy,calm&from=2026-01-01&timezone=Europe/London
  * 
  * Response (200 OK):
  * {
@@ -495,17 +948,113 @@ router.post(
  *   "timestamp": "2024-01-01T00:00:00Z"
  * }
  * 
+ * With cursor pagination, data is { data, limit, nextCursor, hasMore } instead; request
+ * the next page with ?cursor=<nextCursor> and the same filters until hasMore is false.
+ * Cursor pages do not shift when entries are added, and skip the total count.
+ * 
  * Error responses:
- * - 400 Bad Request: Invalid pagination parameters
+ * - 400 Bad Request: Invalid pagination or filter parameters
  * - 401 Unauthorized: Not authenticated or invalid token
  * - 500 Internal Server Error: Server error
  */
 router.get(
   '/',
   authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
   asyncHandler(EntryController.getUserEntries.bind(EntryController))
 );
 
+/**
+ * GET /api/v1/entries/search
+ * Search user's journal entries
+ * 
+ * Headers:
+ * {
+ *   "Authorization": "Bearer <accessToken>"
+ * }
+ * 
+ * Query parameters:
+ * - q: string (required, max 200 characters) - Search text
+ * - page: number (default: 1) - Page number for pagination
+ * - limit: number (default: 10, max: 100) - Number of entries per page
+ * 
+ * Example: GET /api/v1/entries/search?q=morning%20walk
+ * 
+ * Response (200 OK): same shape as GET /api/v1/entries, ordered by relevance,
+ * with a "score" on each entry
+ * 
+ * Error responses:
+ * - 400 Bad Request: Missing or too long query, or invalid pagination parameters
+ * - 401 Unauthorized: Not authenticated or invalid token
+ * - 500 Internal Server Error: Server error
+ */
+router.get(
+  '/search',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(EntryController.searchEntries.bind(EntryController))
+);
+
+/**
+ * GET /api/v1/entries/trash
+ * List the user's entries in the trash, most recently deleted first
+ * 
+ * Query parameters:
+ * - page: number (default: 1) - Page number for pagination
+ * - limit: number (default: 10, max: 100) - Number of entries per page
+ * 
+ * Response (200 OK): same shape as GET /api/v1/entries, with "deletedAt" and
+ * "purgeAt" (when the entry will be permanently deleted) on each entry
+ * 
+ * Error responses:
+ * - 400 Bad Request: Invalid pagination parameters
+ * - 401 Unauthorized: Not authenticated or invalid token
+ * - 500 Internal Server Error: Server error
+ */
+router.get(
+  '/trash',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(EntryController.getTrash.bind(EntryController))
+);
+
+/**
+ * POST /api/v1/entries/trash/:id/restore
+ * Take an entry out of the trash
+ * 
+ * Response (200 OK): the restored entry, as for GET /api/v1/entries/:id
+ * 
+ * Error responses:
+ * - 401 Unauthorized: Not authenticated or invalid token
+ * - 404 Not Found: Entry is not in the user's trash
+ * - 500 Internal Server Error: Server error
+ */
+router.post(
+  '/trash/:id/restore',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  asyncHandler(EntryController.restoreEntry.bind(EntryController))
+);
+
+/**
+ * DELETE /api/v1/entries/trash/:id
+ * Permanently delete an entry in the trash, with its revisions
+ * 
+ * Response (204 No Content):
+ * (empty body)
+ * 
+ * Error responses:
+ * - 401 Unauthorized: Not authenticated or invalid token
+ * - 404 Not Found: Entry is not in the user's trash
+ * - 500 Internal Server Error: Server error
+ */
+router.delete(
+  '/trash/:id',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  asyncHandler(EntryController.deleteEntryPermanently.bind(EntryController))
+);
+
 /**
  * GET /api/v1/entries/:id
  * Get a specific journal entry by ID
@@ -544,9 +1093,109 @@ router.get(
 router.get(
   '/:id',
   authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
   asyncHandler(EntryController.getEntry.bind(EntryController))
 );
 
+/**
+ * GET /api/v1/entries/:id/revisions
+ * List the earlier versions of a journal entry, newest first
+ * 
+ * A revision is saved each time the entry's title, content, mood or tags change,
+ * and revisions are deleted along with the entry.
+ * 
+ * Response (200 OK):
+ * {
+ *   "success": true,
+ *   "data": [
+ *     {
+ *       "id": "uuid",
+ *       "entryId": "uuid",
+ *       "revision": 2,
+ *       "title": "My Day",
+ *       "content": "Today was a good day...",
+ *       "mood": "happy",
+ *       "tags": ["work"],
+ *       "savedAt": "2024-01-01T00:00:00Z",
+ *       "createdAt": "2024-01-02T00:00:00Z"
+ *     }
+ *   ],
+ *   "timestamp": "2024-01-02T00:00:00Z"
+ * }
+ * 
+ * Error responses:
+ * - 401 Unauthorized: Not authenticated or invalid token
+ * - 403 Forbidden: Entry belongs to another user
+ * - 404 Not Found: Entry not found
+ * - 500 Internal Server Error: Server error
+ */
+router.get(
+  '/:id/revisions',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(EntryController.getRevisions.bind(EntryController))
+);
+
+/**
+ * GET /api/v1/entries/:id/revisions/diff
+ * Compare two versions of a journal entry word by word
+ * 
+ * Query parameters:
+ * - from: number (required) - The earlier revision number
+ * - to: number or "current" (default: current) - The later version
+ * 
+ * Response (200 OK):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "from": 2,
+ *     "to": "current",
+ *     "title": [{ "type": "equal", "text": "My Day" }],
+ *     "content": [
+ *       { "type": "equal", "text": "Slept " },
+ *       { "type": "delete", "text": "badly" },
+ *       { "type": "insert", "text": "well" }
+ *     ]
+ *   },
+ *   "timestamp": "2024-01-01T00:00:00Z"
+ * }
+ * 
+ * Error responses:
+ * - 400 Bad Request: Invalid revision number
+ * - 401 Unauthorized: Not authenticated or invalid token
+ * - 403 Forbidden: Entry belongs to another user
+ * - 404 Not Found: Entry or revision not found
+ * - 500 Internal Server Error: Server error
+ */
+router.get(
+  '/:id/revisions/diff',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(EntryController.getRevisionDiff.bind(EntryController))
+);
+
+/**
+ * POST /api/v1/entries/:id/revisions/:rev/restore
+ * Restore an earlier version of a journal entry
+ * 
+ * The version being replaced is saved as a new revision first.
+ * 
+ * Response (200 OK): the updated entry, as for PUT /api/v1/entries/:id
+ * 
+ * Error responses:
+ * - 400 Bad Request: Invalid revision number
+ * - 401 Unauthorized: Not authenticated or invalid token
+ * - 403 Forbidden: Entry belongs to another user
+ * - 404 Not Found: Entry or revision not found
+ * - 500 Internal Server Error: Server error
+ */
+router.post(
+  '/:id/revisions/:rev/restore',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  asyncHandler(EntryController.restoreRevision.bind(EntryController))
+);
+
 /**
  * PUT /api/v1/entries/:id
  * Update a journal entry
@@ -593,13 +1242,17 @@ router.get(
 router.put(
   '/:id',
   authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
   validateRequest(updateEntrySchema),
   asyncHandler(EntryController.updateEntry.bind(EntryController))
 );
 
 /**
  * DELETE /api/v1/entries/:id
- * Delete a journal entry
+ * Move a journal entry to the trash
+ * 
+ * The entry can be restored from the trash until it is permanently deleted,
+ * TRASH_RETENTION_DAYS (default 30) days later.
  * 
  * Headers:
  * {
@@ -622,6 +1275,7 @@ router.put(
 router.delete(
   '/:id',
   authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
   asyncHandler(EntryController.deleteEntry.bind(EntryController))
 );
 
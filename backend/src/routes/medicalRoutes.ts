@@ -10,7 +10,7 @@ const router = Router();
  * /api/v1/medical/analytics:
  *   get:
  *     summary: Get mood analytics (Medical Professional/Admin only)
- *     description: Retrieve aggregated, anonymized mood analytics
+ *     description: Retrieve aggregated, anonymized mood analytics. moodDistribution counts entries by mood; emotionDistribution counts every emotion felt, with its average intensity, with custom moods rolled up to their base emotion.
  *     tags:
  *       - Medical
  *     security:
@@ -0,0 +1,277 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import MoodController from '../controllers/MoodController.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { requireScope } from '../middleware/scopeMiddleware.js';
+import { validateRequest } from '../middleware/validationMiddleware.js';
+import { createCustomMoodSchema, updateCustomMoodSchema } from '../utils/validators.js';
+import { TokenScope } from '../types/index.js';
+
+/**
+ * Mood Routes
+ * - GET /api/v1/moods - The shared mood vocabulary
+ * - /api/v1/moods/custom - Manage the user's custom moods
+ *
+ * The vocabulary is not personal, so no authentication is required. Custom moods
+ * require authentication; personal access tokens need the entries:read scope to
+ * list them and entries:write to change them.
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/moods:
+ *   get:
+ *     summary: List the mood vocabulary
+ *     description: The moods an entry can have, each with a valence and intensity so clients can score and chart them the same way the server does
+ *     tags:
+ *       - Journal Entries
+ *     responses:
+ *       200:
+ *         description: Moods retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MoodDefinition'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ * /api/v1/moods/custom:
+ *   get:
+ *     summary: List custom moods
+ *     description: The authenticated user's own moods, alphabetically. Each is counted as its base emotion in analytics.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Custom moods retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CustomMood'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *   post:
+ *     summary: Create a custom mood
+ *     description: Name a feeling of your own and place it under a base emotion from the vocabulary. Its valence defaults to the base emotion's.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - label
+ *               - baseMood
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 maxLength: 50
+ *                 example: Homesick
+ *               emoji:
+ *                 type: string
+ *                 nullable: true
+ *                 example: 🏠
+ *               baseMood:
+ *                 type: string
+ *                 example: sad
+ *               valence:
+ *                 type: number
+ *                 minimum: -1
+ *                 maximum: 1
+ *                 example: -0.4
+ *     responses:
+ *       201:
+ *         description: Custom mood created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CustomMood'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - missing label, unknown base mood or valence out of range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: A custom mood with the label already exists, or the user has too many custom moods
+ * /api/v1/moods/custom/{id}:
+ *   put:
+ *     summary: Update a custom mood
+ *     description: Change a custom mood's label, emoji or valence. The base emotion can't be changed, since entries have been counted as it.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 maxLength: 50
+ *               emoji:
+ *                 type: string
+ *                 nullable: true
+ *               valence:
+ *                 type: number
+ *                 minimum: -1
+ *                 maximum: 1
+ *     responses:
+ *       200:
+ *         description: Custom mood updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CustomMood'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: A custom mood with the label already exists
+ *   delete:
+ *     summary: Delete a custom mood
+ *     description: Entries that used the custom mood keep the emotion, counted as its base emotion.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Custom mood deleted
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
+/**
+ * Wrapper function to handle async controller methods
+ * Catches errors and passes them to the error handler middleware
+ */
+function asyncHandler(fn: (req: AuthenticatedRequest, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req as AuthenticatedRequest, res)).catch(next);
+  };
+}
+
+/**
+ * GET /api/v1/moods
+ * List the mood vocabulary
+ */
+router.get('/', asyncHandler(MoodController.getMoods.bind(MoodController)));
+
+/**
+ * GET /api/v1/moods/custom
+ * List the user's custom moods
+ */
+router.get(
+  '/custom',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(MoodController.listCustomMoods.bind(MoodController))
+);
+
+/**
+ * POST /api/v1/moods/custom
+ * Create a custom mood
+ */
+router.post(
+  '/custom',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  validateRequest(createCustomMoodSchema),
+  asyncHandler(MoodController.createCustomMood.bind(MoodController))
+);
+
+/**
+ * PUT /api/v1/moods/custom/:id
+ * Update a custom mood
+ */
+router.put(
+  '/custom/:id',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  validateRequest(updateCustomMoodSchema),
+  asyncHandler(MoodController.updateCustomMood.bind(MoodController))
+);
+
+/**
+ * DELETE /api/v1/moods/custom/:id
+ * Delete a custom mood
+ */
+router.delete(
+  '/custom/:id',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  asyncHandler(MoodController.deleteCustomMood.bind(MoodController))
+);
+
+export default router;
@@ -0,0 +1,78 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import TemplateController from '../controllers/TemplateController.js';
+import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+
+/**
+ * Prompt Routes
+ * - GET /api/v1/prompts - The guided prompt library
+ *
+ * The library is not personal, so no authentication is required.
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/prompts:
+ *   get:
+ *     summary: List the prompt library
+ *     description: Curated writing prompts for when you don't know where to start, grouped into categories
+ *     tags:
+ *       - Templates
+ *     parameters:
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [reflection, gratitude, anxiety, relationships, self-compassion, goals]
+ *         description: Only return prompts in this category
+ *     responses:
+ *       200:
+ *         description: Prompts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     categories:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PromptCategory'
+ *                     prompts:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/JournalPrompt'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Unknown category
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+
+/**
+ * Wrapper function to handle async controller methods
+ * Catches errors and passes them to the error handler middleware
+ */
+function asyncHandler(fn: (req: AuthenticatedRequest, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req as AuthenticatedRequest, res)).catch(next);
+  };
+}
+
+/**
+ * GET /api/v1/prompts
+ * List the prompt library
+ */
+router.get('/', asyncHandler(TemplateController.getPrompts.bind(TemplateController)));
+
+export default router;
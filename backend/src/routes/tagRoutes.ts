@@ -0,0 +1,262 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import TagController from '../controllers/TagController.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { requireScope } from '../middleware/scopeMiddleware.js';
+import { validateRequest } from '../middleware/validationMiddleware.js';
+import { mergeTagsSchema, renameTagSchema } from '../utils/validators.js';
+import { TokenScope } from '../types/index.js';
+
+/**
+ * Tag Routes
+ * - GET /api/v1/tags - List the user's tags with entry counts
+ * - PUT /api/v1/tags/:tag - Rename a tag on all entries
+ * - POST /api/v1/tags/merge - Merge tags into one on all entries
+ * - DELETE /api/v1/tags/:tag - Remove a tag from all entries
+ *
+ * All endpoints require authentication. Personal access tokens need the
+ * entries:read scope to list tags and entries:write to change them.
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/tags:
+ *   get:
+ *     summary: List tags
+ *     description: The tags on the authenticated user's entries, outside the trash, with how many entries use each and when the latest of them was written. Most used first.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tags retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TagCount'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ * /api/v1/tags/{tag}:
+ *   put:
+ *     summary: Rename a tag
+ *     description: Rename a tag on all of the authenticated user's entries, including those in the trash, in one transaction. Renaming to a tag that is already used merges the two.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tag
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The tag, URL-encoded
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: day job
+ *     responses:
+ *       200:
+ *         description: Tag renamed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TagChangeResult'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: An entry with the tag was changed at the same time; nothing was changed, so the request can be retried
+ *   delete:
+ *     summary: Delete a tag
+ *     description: Remove a tag from all of the authenticated user's entries, including those in the trash, in one transaction. The entries themselves are kept.
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tag
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The tag, URL-encoded
+ *     responses:
+ *       200:
+ *         description: Tag removed from all entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TagChangeResult'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: An entry with the tag was changed at the same time; nothing was changed, so the request can be retried
+ * /api/v1/tags/merge:
+ *   post:
+ *     summary: Merge tags
+ *     description: Replace several tags with one on all of the authenticated user's entries, including those in the trash, in one transaction
+ *     tags:
+ *       - Journal Entries
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *               - into
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 maxItems: 50
+ *                 items:
+ *                   type: string
+ *                 example: [job, office]
+ *               into:
+ *                 type: string
+ *                 example: work
+ *     responses:
+ *       200:
+ *         description: Tags merged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TagChangeResult'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: An entry with the tag was changed at the same time; nothing was changed, so the request can be retried
+ */
+
+/**
+ * Wrapper function to handle async controller methods
+ * Catches errors and passes them to the error handler middleware
+ */
+function asyncHandler(fn: (req: AuthenticatedRequest, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req as AuthenticatedRequest, res)).catch(next);
+  };
+}
+
+/**
+ * GET /api/v1/tags
+ * List the user's tags with entry counts
+ */
+router.get(
+  '/',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(TagController.getTags.bind(TagController))
+);
+
+/**
+ * POST /api/v1/tags/merge
+ * Merge tags into one on all entries
+ */
+router.post(
+  '/merge',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  validateRequest(mergeTagsSchema),
+  asyncHandler(TagController.mergeTags.bind(TagController))
+);
+
+/**
+ * PUT /api/v1/tags/:tag
+ * Rename a tag on all entries
+ */
+router.put(
+  '/:tag',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  validateRequest(renameTagSchema),
+  asyncHandler(TagController.renameTag.bind(TagController))
+);
+
+/**
+ * DELETE /api/v1/tags/:tag
+ * Remove a tag from all entries
+ */
+router.delete(
+  '/:tag',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  asyncHandler(TagController.deleteTag.bind(TagController))
+);
+
+export default router;
@@ -0,0 +1,214 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import TemplateController from '../controllers/TemplateController.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { requireScope } from '../middleware/scopeMiddleware.js';
+import { validateRequest } from '../middleware/validationMiddleware.js';
+import { createTemplateSchema, updateTemplateSchema } from '../utils/validators.js';
+import { TokenScope } from '../types/index.js';
+
+/**
+ * Template Routes
+ * - GET /api/v1/templates - The templates the user can write from
+ * - POST/PUT/DELETE /api/v1/templates - Manage the user's personal templates
+ *
+ * All routes require authentication. Personal access tokens need the entries:read
+ * scope to list templates and entries:write to change them. Global templates are
+ * managed under /api/v1/admin/templates.
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/templates:
+ *   get:
+ *     summary: List templates
+ *     description: The global templates every user can write from, then the authenticated user's personal templates, each group by name
+ *     tags:
+ *       - Templates
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Templates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/JournalTemplate'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *   post:
+ *     summary: Create a personal template
+ *     description: Section keys are derived from the labels when left out.
+ *     tags:
+ *       - Templates
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TemplateInput'
+ *     responses:
+ *       201:
+ *         description: Template created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalTemplate'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - missing name, or invalid or repeated sections
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: The user has too many personal templates
+ * /api/v1/templates/{id}:
+ *   put:
+ *     summary: Update a personal template
+ *     description: Entries already written from the template keep the sections they were written with.
+ *     tags:
+ *       - Templates
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TemplateInput'
+ *     responses:
+ *       200:
+ *         description: Template updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalTemplate'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Delete a personal template
+ *     description: Entries written from the template keep their fields.
+ *     tags:
+ *       - Templates
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Template deleted
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
+/**
+ * Wrapper function to handle async controller methods
+ * Catches errors and passes them to the error handler middleware
+ */
+function asyncHandler(fn: (req: AuthenticatedRequest, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(fn(req as AuthenticatedRequest, res)).catch(next);
+  };
+}
+
+/**
+ * GET /api/v1/templates
+ * List the templates the user can write from
+ */
+router.get(
+  '/',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(TemplateController.listTemplates.bind(TemplateController))
+);
+
+/**
+ * POST /api/v1/templates
+ * Create a personal template
+ */
+router.post(
+  '/',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  validateRequest(createTemplateSchema),
+  asyncHandler(TemplateController.createTemplate.bind(TemplateController))
+);
+
+/**
+ * PUT /api/v1/templates/:id
+ * Update a personal template
+ */
+router.put(
+  '/:id',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  validateRequest(updateTemplateSchema),
+  asyncHandler(TemplateController.updateTemplate.bind(TemplateController))
+);
+
+/**
+ * DELETE /api/v1/templates/:id
+ * Delete a personal template
+ */
+router.delete(
+  '/:id',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  asyncHandler(TemplateController.deleteTemplate.bind(TemplateController))
+);
+
+export default router;
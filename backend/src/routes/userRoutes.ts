@@ -1,11 +1,21 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import UserController from '../controllers/UserController.js';
+import MfaController from '../controllers/MfaController.js';
+import PersonalAccessTokenController from '../controllers/PersonalAccessTokenController.js';
+import ImportController from '../controllers/ImportController.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { requireScope, requireSession } from '../middleware/scopeMiddleware.js';
 import { validateRequest } from '../middleware/validationMiddleware.js';
+import { uploadSingleFile } from '../middleware/uploadMiddleware.js';
 import {
   updateProfileSchema,
   changePasswordSchema,
+  mfaCodeSchema,
+  mfaDisableSchema,
+  createPersonalAccessTokenSchema,
 } from '../utils/validators.js';
+import { TokenScope } from '../types/index.js';
+import { getEnvConfig } from '../utils/env.js';
 
 /**
  * User Profile Routes
@@ -14,8 +24,14 @@ import {
  * - GET /api/v1/users/profile - Get user profile
  * - PUT /api/v1/users/profile - Update user profile
  * - POST /api/v1/users/change-password - Change password
+ * - /api/v1/users/sessions - Manage signed-in devices
+ * - /api/v1/users/mfa - Manage two-factor authentication
+ * - /api/v1/users/tokens - Manage personal access tokens
+ * - /api/v1/users/entries/import - Import entries from other journals
  * 
- * All endpoints require authentication
+ * All endpoints require authentication. Personal access tokens may only
+ * export entries, with the export scope, and import them, with the entries
+ * scopes; every other endpoint needs a session.
  */
 
 const router = Router();
@@ -265,6 +281,7 @@ function asyncHandler(
 router.get(
   '/profile',
   authMiddleware,
+  requireSession,
   asyncHandler(UserController.getProfile.bind(UserController))
 );
 
@@ -306,6 +323,7 @@ router.get(
 router.put(
   '/profile',
   authMiddleware,
+  requireSession,
   validateRequest(updateProfileSchema),
   asyncHandler(UserController.updateProfile.bind(UserController))
 );
@@ -348,6 +366,7 @@ router.put(
 router.post(
   '/change-password',
   authMiddleware,
+  requireSession,
   validateRequest(changePasswordSchema),
   asyncHandler(UserController.changePassword.bind(UserController))
 );
@@ -355,10 +374,44 @@ router.post(
 /**
  * DELETE /api/v1/users/account
  * Delete authenticated user's account
+ *
+ * The user's data keys are destroyed, so their entries cannot be decrypted from backups,
+ * and analysis jobs still holding entry text are removed from the queue.
+ *
+ * Request body:
+ * {
+ *   "password": "CurrentPassword123!"
+ * }
+ *
+ * Response (200 OK):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "receiptId": "uuid",
+ *     "userId": "uuid",
+ *     "email": "user@example.com",
+ *     "deletedAt": "2024-01-01T00:00:00Z",
+ *     "initiatedBy": "user",
+ *     "entriesDeleted": 42,
+ *     "insightsDeleted": 40,
+ *     "attachmentsDeleted": 3,
+ *     "dataKeysDestroyed": 1,
+ *     "analysisJobsPurged": 0,
+ *     "signature": "<JWT over the receipt, verifiable with /.well-known/jwks.json>"
+ *   },
+ *   "timestamp": "2024-01-01T00:00:00Z"
+ * }
+ *
+ * Error responses:
+ * - 400 Bad Request: Missing or incorrect password
+ * - 401 Unauthorized: Not authenticated or invalid token
+ * - 404 Not Found: User not found
+ * - 500 Internal Server Error: Server error, including the job queue being unreachable
  */
 router.delete(
   '/account',
   authMiddleware,
+  requireSession,
   asyncHandler(UserController.deleteAccount.bind(UserController))
 );
 
@@ -367,14 +420,187 @@ router.delete(
  * Export all journal entries for authenticated user
  * 
  * Query parameters:
- * - format: pdf | json | txt
+ * - format: pdf | json | txt | markdown | csv | html | epub
  */
 router.get(
   '/entries/export',
   authMiddleware,
+  requireScope(TokenScope.EXPORT),
   asyncHandler(UserController.exportEntries.bind(UserController))
 );
 
+/**
+ * @swagger
+ * /api/v1/users/entries/import:
+ *   post:
+ *     summary: Import entries
+ *     description: |
+ *       Upload a file of entries to import as multipart/form-data. The file is stored encrypted
+ *       and imported by a background job; poll the import for its progress and report. Entries
+ *       keep the dates they were written and last edited. A row written on the same day with the
+ *       same text as an existing entry, or an earlier row, is skipped as a duplicate. Only one
+ *       import can run at a time.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         description: |
+ *           json - a MicroCare JSON export; markdown - a zip of Markdown files with front matter;
+ *           csv - a CSV file with a header row; dayone - a Day One JSON export, or its zip with photos
+ *         schema:
+ *           type: string
+ *           enum: [json, markdown, csv, dayone]
+ *       - in: query
+ *         name: dryRun
+ *         description: Check every row and preview the entries without creating them
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       202:
+ *         description: Import queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/EntryImport'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - no file or an unknown format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Another import is waiting or running
+ *       413:
+ *         description: The file is larger than IMPORT_MAX_BYTES
+ *   get:
+ *     summary: List imports
+ *     description: The 20 most recent imports, newest first
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Imports retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EntryImport'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ * /api/v1/users/entries/import/{id}:
+ *   get:
+ *     summary: Get an import
+ *     description: An import's progress, and once rows are processed its report and dry-run preview
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Import retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/EntryImport'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+
+/**
+ * POST /api/v1/users/entries/import
+ * Upload a file of entries to import
+ *
+ * Query parameters:
+ * - format: json | markdown | csv | dayone
+ * - dryRun: true to preview without creating entries
+ */
+router.post(
+  '/entries/import',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_WRITE),
+  uploadSingleFile('file', () => getEnvConfig().imports.maxBytes),
+  asyncHandler(ImportController.startImport.bind(ImportController))
+);
+
+/**
+ * GET /api/v1/users/entries/import
+ * List recent imports
+ */
+router.get(
+  '/entries/import',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(ImportController.listImports.bind(ImportController))
+);
+
+/**
+ * GET /api/v1/users/entries/import/:id
+ * Get an import's progress and report
+ */
+router.get(
+  '/entries/import/:id',
+  authMiddleware,
+  requireScope(TokenScope.ENTRIES_READ),
+  asyncHandler(ImportController.getImport.bind(ImportController))
+);
+
 /**
  * @swagger
  * /api/v1/users/complete-onboarding:
@@ -409,7 +635,451 @@ router.get(
 router.post(
   '/complete-onboarding',
   authMiddleware,
+  requireSession,
   asyncHandler(UserController.completeOnboarding.bind(UserController))
 );
 
+/**
+ * @swagger
+ * /api/v1/users/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: List the devices where the authenticated user is signed in, most recently used first
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       userAgent:
+ *                         type: string
+ *                         nullable: true
+ *                       ipAddress:
+ *                         type: string
+ *                         nullable: true
+ *                       signedInAt:
+ *                         type: string
+ *                         format: date-time
+ *                       lastSeenAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *                         description: True for the session making the request
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *   delete:
+ *     summary: Sign out everywhere else
+ *     description: Revoke every session of the authenticated user except the current one
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revokedCount:
+ *                       type: integer
+ *                       example: 2
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ * /api/v1/users/sessions/{id}:
+ *   delete:
+ *     summary: Sign out a session
+ *     description: Revoke one of the authenticated user's sessions. Revoking the current session signs this device out.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Session revoked
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+  '/sessions',
+  authMiddleware,
+  requireSession,
+  asyncHandler(UserController.getSessions.bind(UserController))
+);
+
+router.delete(
+  '/sessions',
+  authMiddleware,
+  requireSession,
+  asyncHandler(UserController.revokeOtherSessions.bind(UserController))
+);
+
+router.delete(
+  '/sessions/:id',
+  authMiddleware,
+  requireSession,
+  asyncHandler(UserController.revokeSession.bind(UserController))
+);
+
+/**
+ * @swagger
+ * /api/v1/users/mfa:
+ *   get:
+ *     summary: Get MFA status
+ *     description: Whether two-factor authentication is enabled and how many recovery codes remain
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: MFA status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                     recoveryCodesRemaining:
+ *                       type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ * /api/v1/users/mfa/setup:
+ *   post:
+ *     summary: Start TOTP enrollment
+ *     description: Generate a new authenticator secret. MFA is not enabled until the setup is confirmed with a code.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth:// provisioning URI for the QR code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                     otpauthUrl:
+ *                       type: string
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: MFA is already enabled
+ * /api/v1/users/mfa/confirm:
+ *   post:
+ *     summary: Confirm TOTP enrollment
+ *     description: Enable MFA with a code from the authenticator app. Returns one-time recovery codes that are only shown once.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: MFA enabled
+ *       400:
+ *         description: Invalid code or setup not started
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ * /api/v1/users/mfa/disable:
+ *   post:
+ *     summary: Disable MFA
+ *     description: Turn off two-factor authentication. Requires the password and a TOTP or recovery code.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: MFA disabled
+ *       400:
+ *         description: Incorrect password or invalid code
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ * /api/v1/users/mfa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replace all recovery codes. Requires a current TOTP code.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code or MFA not enabled
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get(
+  '/mfa',
+  authMiddleware,
+  requireSession,
+  asyncHandler(MfaController.getStatus.bind(MfaController))
+);
+
+router.post(
+  '/mfa/setup',
+  authMiddleware,
+  requireSession,
+  asyncHandler(MfaController.setup.bind(MfaController))
+);
+
+router.post(
+  '/mfa/confirm',
+  authMiddleware,
+  requireSession,
+  validateRequest(mfaCodeSchema),
+  asyncHandler(MfaController.confirm.bind(MfaController))
+);
+
+router.post(
+  '/mfa/disable',
+  authMiddleware,
+  requireSession,
+  validateRequest(mfaDisableSchema),
+  asyncHandler(MfaController.disable.bind(MfaController))
+);
+
+router.post(
+  '/mfa/recovery-codes',
+  authMiddleware,
+  requireSession,
+  validateRequest(mfaCodeSchema),
+  asyncHandler(MfaController.regenerateRecoveryCodes.bind(MfaController))
+);
+
+/**
+ * @swagger
+ * /api/v1/users/tokens:
+ *   get:
+ *     summary: List personal access tokens
+ *     description: List the authenticated user's active personal access tokens, newest first. The tokens themselves are never returned again after creation.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PersonalAccessToken'
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Create a personal access token
+ *     description: Create a scoped token for scripts and integrations. Send it as `Authorization: Bearer <token>`. The token is only shown in this response.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: Backup script
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [entries:read, entries:write, export]
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *                 description: Omit for a token that does not expire
+ *     responses:
+ *       201:
+ *         description: Token created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/PersonalAccessToken'
+ *                     - type: object
+ *                       properties:
+ *                         token:
+ *                           type: string
+ *                           example: mcp_3q2xY...
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Validation error - missing name, unknown scope or invalid expiry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Too many active tokens
+ * /api/v1/users/tokens/{id}:
+ *   delete:
+ *     summary: Revoke a personal access token
+ *     description: Revoke one of the authenticated user's personal access tokens. It stops working immediately.
+ *     tags:
+ *       - User Profile
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Token revoked
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+  '/tokens',
+  authMiddleware,
+  requireSession,
+  asyncHandler(PersonalAccessTokenController.listTokens.bind(PersonalAccessTokenController))
+);
+
+router.post(
+  '/tokens',
+  authMiddleware,
+  requireSession,
+  validateRequest(createPersonalAccessTokenSchema),
+  asyncHandler(PersonalAccessTokenController.createToken.bind(PersonalAccessTokenController))
+);
+
+router.delete(
+  '/tokens/:id',
+  authMiddleware,
+  requireSession,
+  asyncHandler(PersonalAccessTokenController.revokeToken.bind(PersonalAccessTokenController))
+);
+
 export default router;
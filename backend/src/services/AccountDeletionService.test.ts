@@ -0,0 +1,132 @@
+import { AccountDeletionService } from './AccountDeletionService.js';
+import UserRepository from '../repositories/UserRepository.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import InsightRepository from '../repositories/InsightRepository.js';
+import AttachmentRepository from '../repositories/AttachmentRepository.js';
+import ImportRepository from '../repositories/ImportRepository.js';
+import DataKeyService from './DataKeyService.js';
+import AttachmentService from './AttachmentService.js';
+import { purgeEntryAnalysisJobs } from '../queues/analysisQueue.js';
+import { signDeletionReceipt } from '../utils/jwt.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+
+// Mock dependencies
+jest.mock('../queues/analysisQueue.js');
+jest.mock('../repositories/UserRepository.js');
+jest.mock('../repositories/EntryRepository.js');
+jest.mock('../repositories/InsightRepository.js');
+jest.mock('../repositories/AttachmentRepository.js');
+jest.mock('../repositories/ImportRepository.js');
+jest.mock('./DataKeyService.js');
+jest.mock('./AttachmentService.js');
+jest.mock('../utils/jwt.js');
+jest.mock('../utils/audit.js');
+jest.mock('../utils/logger.js', () => ({ __esModule: true, default: {} }));
+
+describe('AccountDeletionService', () => {
+  let accountDeletionService: AccountDeletionService;
+
+  beforeEach(() => {
+    accountDeletionService = new AccountDeletionService();
+    jest.clearAllMocks();
+
+    (UserRepository.findById as jest.Mock).mockResolvedValue({ id: 'user-123', email: 'user@example.com' });
+    (EntryRepository.countByUserId as jest.Mock).mockResolvedValue(12);
+    (InsightRepository.countByUserId as jest.Mock).mockResolvedValue(10);
+    (AttachmentRepository.countByUserId as jest.Mock).mockResolvedValue(1);
+    (AttachmentRepository.findStorageKeysByUserId as jest.Mock).mockResolvedValue(['attachments/user-123/a']);
+    (ImportRepository.findStorageKeysByUserId as jest.Mock).mockResolvedValue(['imports/user-123/b']);
+    (purgeEntryAnalysisJobs as jest.Mock).mockResolvedValue(2);
+    (DataKeyService.destroyKeys as jest.Mock).mockResolvedValue(1);
+    (signDeletionReceipt as jest.Mock).mockResolvedValue('signed-receipt');
+  });
+
+  describe('deleteAccount', () => {
+    it('should purge jobs and destroy keys before deleting the account', async () => {
+      await accountDeletionService.deleteAccount('user-123', { initiatedBy: 'user' });
+
+      const purgeOrder = (purgeEntryAnalysisJobs as jest.Mock).mock.invocationCallOrder[0];
+      const destroyOrder = (DataKeyService.destroyKeys as jest.Mock).mock.invocationCallOrder[0];
+      const deleteOrder = (UserRepository.delete as jest.Mock).mock.invocationCallOrder[0];
+
+      expect(purgeEntryAnalysisJobs).toHaveBeenCalledWith('user-123');
+      expect(DataKeyService.destroyKeys).toHaveBeenCalledWith('user-123');
+      expect(UserRepository.delete).toHaveBeenCalledWith('user-123');
+      expect(purgeOrder).toBeLessThan(destroyOrder);
+      expect(destroyOrder).toBeLessThan(deleteOrder);
+    });
+
+    it('should remove attached and imported files from storage once the account is deleted', async () => {
+      await accountDeletionService.deleteAccount('user-123', { initiatedBy: 'user' });
+
+      const deleteOrder = (UserRepository.delete as jest.Mock).mock.invocationCallOrder[0];
+      const filesOrder = (AttachmentService.deleteStoredFiles as jest.Mock).mock.invocationCallOrder[0];
+
+      expect(AttachmentService.deleteStoredFiles).toHaveBeenCalledWith(['attachments/user-123/a', 'imports/user-123/b']);
+      expect(deleteOrder).toBeLessThan(filesOrder);
+    });
+
+    it('should return a signed receipt of what was deleted', async () => {
+      const receipt = await accountDeletionService.deleteAccount('user-123', { initiatedBy: 'user' });
+
+      expect(receipt).toEqual({
+        receiptId: expect.any(String),
+        userId: 'user-123',
+        email: 'user@example.com',
+        deletedAt: expect.any(String),
+        initiatedBy: 'user',
+        entriesDeleted: 12,
+        insightsDeleted: 10,
+        attachmentsDeleted: 1,
+        dataKeysDestroyed: 1,
+        analysisJobsPurged: 2,
+        signature: 'signed-receipt',
+      });
+
+      const { signature, ...signed } = receipt;
+      expect(signature).toBe('signed-receipt');
+      expect(signDeletionReceipt).toHaveBeenCalledWith(signed);
+    });
+
+    it('should write an ACCOUNT_DELETED audit record attributed to the admin', async () => {
+      const receipt = await accountDeletionService.deleteAccount('user-123', {
+        initiatedBy: 'admin',
+        actorId: 'admin-1',
+        ip: '203.0.113.7',
+      });
+
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        AuditEventType.ACCOUNT_DELETED,
+        expect.objectContaining({
+          userId: 'admin-1',
+          resourceId: 'user-123',
+          ip: '203.0.113.7',
+          success: true,
+          metadata: expect.objectContaining({ receiptId: receipt.receiptId, initiatedBy: 'admin' }),
+        })
+      );
+    });
+
+    it('should keep the account when the queue cannot be purged', async () => {
+      (purgeEntryAnalysisJobs as jest.Mock).mockRejectedValue(new Error('Connection is closed.'));
+
+      await expect(
+        accountDeletionService.deleteAccount('user-123', { initiatedBy: 'user' })
+      ).rejects.toThrow('Connection is closed.');
+
+      expect(DataKeyService.destroyKeys).not.toHaveBeenCalled();
+      expect(UserRepository.delete).not.toHaveBeenCalled();
+      expect(AttachmentService.deleteStoredFiles).not.toHaveBeenCalled();
+      expect(logAuditEvent).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the user does not exist', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        accountDeletionService.deleteAccount('missing', { initiatedBy: 'admin' })
+      ).rejects.toThrow('User not found');
+      expect(purgeEntryAnalysisJobs).not.toHaveBeenCalled();
+    });
+  });
+});
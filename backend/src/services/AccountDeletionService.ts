@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { AccountDeletionReceipt } from '../types/index.js';
+import { signDeletionReceipt } from '../utils/jwt.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+import { purgeEntryAnalysisJobs } from '../queues/analysisQueue.js';
+import UserRepository from '../repositories/UserRepository.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import InsightRepository from '../repositories/InsightRepository.js';
+import AttachmentRepository from '../repositories/AttachmentRepository.js';
+import ImportRepository from '../repositories/ImportRepository.js';
+import DataKeyService from './DataKeyService.js';
+import AttachmentService from './AttachmentService.js';
+
+/**
+ * AccountDeletionService
+ * Deletes accounts so their journal data cannot be recovered: analysis jobs holding plaintext
+ * are purged, after any that are running have finished, and the user's data keys are
+ * destroyed before the account is deleted,
+ * which leaves any copies of the ciphertext (e.g. in backups) undecryptable. Attached files
+ * and unfinished import uploads are removed from storage once the account is gone.
+ */
+
+export interface AccountDeletionOptions {
+  initiatedBy: 'user' | 'admin';
+  // The user who requested the deletion, when it is not the account owner
+  actorId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export class AccountDeletionService {
+  /**
+   * Delete an account and everything it owns
+   * @param userId - The account to delete
+   * @param options - Who requested the deletion, for the receipt and audit log
+   * @returns A signed receipt of what was deleted
+   * @throws Error if the user does not exist or the analysis queue cannot be purged, e.g. because
+   * the user's analysis jobs are still running
+   */
+  async deleteAccount(userId: string, options: AccountDeletionOptions): Promise<AccountDeletionReceipt> {
+    const user = await UserRepository.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const [entriesDeleted, insightsDeleted, attachmentKeys, attachmentsDeleted, importKeys] = await Promise.all([
+      EntryRepository.countByUserId(userId),
+      InsightRepository.countByUserId(userId),
+      AttachmentRepository.findStorageKeysByUserId(userId),
+      AttachmentRepository.countByUserId(userId),
+      ImportRepository.findStorageKeysByUserId(userId),
+    ]);
+
+    // Purged first: if Redis is unreachable or jobs keep running, the account is kept so the
+    // deletion can be retried
+    const analysisJobsPurged = await purgeEntryAnalysisJobs(userId);
+    const dataKeysDestroyed = await DataKeyService.destroyKeys(userId);
+    await UserRepository.delete(userId);
+    await AttachmentService.deleteStoredFiles([...attachmentKeys, ...importKeys]);
+
+    const receipt = {
+      receiptId: crypto.randomUUID(),
+      userId,
+      email: user.email,
+      deletedAt: new Date().toISOString(),
+      initiatedBy: options.initiatedBy,
+      entriesDeleted,
+      insightsDeleted,
+      attachmentsDeleted,
+      dataKeysDestroyed,
+      analysisJobsPurged,
+    };
+
+    logAuditEvent(AuditEventType.ACCOUNT_DELETED, {
+      userId: options.actorId ?? userId,
+      email: user.email,
+      ip: options.ip,
+      userAgent: options.userAgent,
+      resourceId: userId,
+      success: true,
+      metadata: {
+        receiptId: receipt.receiptId,
+        initiatedBy: receipt.initiatedBy,
+        entriesDeleted,
+        insightsDeleted,
+        attachmentsDeleted,
+        dataKeysDestroyed,
+        analysisJobsPurged,
+      },
+    });
+
+    return { ...receipt, signature: await signDeletionReceipt(receipt) };
+  }
+}
+
+export default new AccountDeletionService();
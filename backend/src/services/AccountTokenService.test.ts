@@ -0,0 +1,75 @@
+import { AccountTokenService } from './AccountTokenService.js';
+import AccountTokenRepository from '../repositories/AccountTokenRepository.js';
+import { decodeToken, generateAccountToken } from '../utils/jwt.js';
+import { hashToken } from '../utils/tokens.js';
+
+// Mock dependencies
+jest.mock('../repositories/AccountTokenRepository.js');
+
+describe('AccountTokenService', () => {
+  let accountTokenService: AccountTokenService;
+
+  beforeEach(() => {
+    accountTokenService = new AccountTokenService();
+    jest.clearAllMocks();
+  });
+
+  describe('issue', () => {
+    it('should store only the hash of the token id and invalidate older tokens', async () => {
+      const token = await accountTokenService.issue('user-123', 'password_reset', 3600);
+
+      const payload = decodeToken(token) as { userId: string; type: string; jti: string; exp: number };
+      expect(payload.userId).toBe('user-123');
+      expect(payload.type).toBe('password_reset');
+
+      expect(AccountTokenRepository.invalidateForUser).toHaveBeenCalledWith('user-123', 'password_reset');
+      const [userId, purpose, tokenHash, expiresAt] = (AccountTokenRepository.create as jest.Mock).mock.calls[0];
+      expect(userId).toBe('user-123');
+      expect(purpose).toBe('password_reset');
+      expect(tokenHash).toBe(hashToken(payload.jti));
+      expect(Math.abs(expiresAt.getTime() / 1000 - payload.exp)).toBeLessThan(2);
+    });
+  });
+
+  describe('redeem', () => {
+    it('should consume a valid token and return its user', async () => {
+      (AccountTokenRepository.consume as jest.Mock).mockResolvedValue(true);
+      const token = await generateAccountToken('user-123', 'email_verification', 'jti-1', 3600);
+
+      const userId = await accountTokenService.redeem(token, 'email_verification');
+
+      expect(userId).toBe('user-123');
+      expect(AccountTokenRepository.consume).toHaveBeenCalledWith(
+        'user-123',
+        'email_verification',
+        hashToken('jti-1')
+      );
+    });
+
+    it('should reject a token that was already used', async () => {
+      (AccountTokenRepository.consume as jest.Mock).mockResolvedValue(false);
+      const token = await generateAccountToken('user-123', 'password_reset', 'jti-1', 3600);
+
+      await expect(accountTokenService.redeem(token, 'password_reset')).rejects.toThrow(
+        'Invalid or expired token'
+      );
+    });
+
+    it('should reject a token issued for another purpose', async () => {
+      const token = await generateAccountToken('user-123', 'email_verification', 'jti-1', 3600);
+
+      await expect(accountTokenService.redeem(token, 'password_reset')).rejects.toThrow(
+        'Invalid or expired token'
+      );
+      expect(AccountTokenRepository.consume).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired token', async () => {
+      const token = await generateAccountToken('user-123', 'password_reset', 'jti-1', -10);
+
+      await expect(accountTokenService.redeem(token, 'password_reset')).rejects.toThrow(
+        'Invalid or expired token'
+      );
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { AccountTokenPurpose } from '../types/index.js';
+import AccountTokenRepository from '../repositories/AccountTokenRepository.js';
+import { generateAccountToken, verifyAccountToken } from '../utils/jwt.js';
+import { hashToken } from '../utils/tokens.js';
+
+/**
+ * AccountTokenService
+ * Issues and redeems signed, single-use, expiring tokens for password resets and email verification
+ */
+
+export class AccountTokenService {
+  /**
+   * Issue a new token, invalidating any earlier token of the same purpose
+   * @param userId - The user the token is for
+   * @param purpose - What the token may be used for
+   * @param ttlSeconds - How long the token stays valid
+   * @returns The signed token to send to the user
+   */
+  async issue(userId: string, purpose: AccountTokenPurpose, ttlSeconds: number): Promise<string> {
+    await AccountTokenRepository.invalidateForUser(userId, purpose);
+
+    const jti = crypto.randomUUID();
+    await AccountTokenRepository.create(
+      userId,
+      purpose,
+      hashToken(jti),
+      new Date(Date.now() + ttlSeconds * 1000)
+    );
+
+    return generateAccountToken(userId, purpose, jti, ttlSeconds);
+  }
+
+  /**
+   * Check a token's signature and mark it as used
+   * @param token - The signed token presented by the user
+   * @param purpose - The purpose the token must have been issued for
+   * @returns The ID of the user the token was issued to
+   * @throws Error if the token is invalid, expired or already used
+   */
+  async redeem(token: string, purpose: AccountTokenPurpose): Promise<string> {
+    const { userId, jti } = await verifyAccountToken(token, purpose);
+
+    const consumed = await AccountTokenRepository.consume(userId, purpose, hashToken(jti));
+    if (!consumed) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return userId;
+  }
+}
+
+export default new AccountTokenService();
@@ -0,0 +1,258 @@
+import { Readable } from 'stream';
+import { AttachmentService } from './AttachmentService.js';
+import AttachmentRepository from '../repositories/AttachmentRepository.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import { getStorageDriver } from '../storage/storage.js';
+import { createThumbnail } from '../utils/images.js';
+
+// Mock dependencies
+jest.mock('../repositories/AttachmentRepository.js');
+jest.mock('../repositories/EntryRepository.js');
+jest.mock('../storage/storage.js');
+jest.mock('../utils/images.js');
+jest.mock('../utils/env.js', () => ({
+  getEnvConfig: () => ({ attachments: { maxBytes: 1024 * 1024 } }),
+}));
+jest.mock('../utils/logger.js', () => ({ __esModule: true, default: { warn: jest.fn() } }));
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
+
+describe('AttachmentService', () => {
+  let attachmentService: AttachmentService;
+  const userId = 'user-123';
+  const entryId = 'entry-456';
+  const pdf = Buffer.from('%PDF-1.7\nscanned notes');
+
+  // An in-memory storage backend
+  let stored: Map<string, Buffer>;
+  const storage = {
+    put: jest.fn(async (key: string, data: Buffer) => {
+      stored.set(key, data);
+    }),
+    get: jest.fn(async (key: string) => {
+      const data = stored.get(key);
+      if (!data) {
+        throw new Error('Stored file not found');
+      }
+      return Readable.from([data]);
+    }),
+    delete: jest.fn(async (key: string) => {
+      stored.delete(key);
+    }),
+  };
+
+  beforeEach(() => {
+    attachmentService = new AttachmentService();
+    jest.clearAllMocks();
+    stored = new Map();
+
+    (getStorageDriver as jest.Mock).mockReturnValue(storage);
+    (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId });
+    (AttachmentRepository.countByEntryId as jest.Mock).mockResolvedValue(0);
+    (AttachmentRepository.create as jest.Mock).mockImplementation(async (data) => ({
+      id: 'attachment-1',
+      entryId: data.entryId,
+      fileName: data.fileName,
+      contentType: data.contentType,
+      size: data.size,
+      hasThumbnail: !!data.thumbnailKey,
+      createdAt: new Date(),
+    }));
+  });
+
+  /**
+   * Upload a file and make the repository return it as stored
+   */
+  async function upload(originalName: string, contentType: string, data: Buffer) {
+    const attachment = await attachmentService.uploadAttachment(entryId, userId, { originalName, contentType, data });
+    const created = (AttachmentRepository.create as jest.Mock).mock.calls[0][0];
+    (AttachmentRepository.findStoredById as jest.Mock).mockResolvedValue({ ...attachment, ...created, id: attachment.id });
+    return { attachment, created };
+  }
+
+  describe('uploadAttachment', () => {
+    it('should store the file encrypted', async () => {
+      const { attachment, created } = await upload('scan.pdf', 'application/pdf', pdf);
+
+      expect(attachment).toMatchObject({ fileName: 'scan.pdf', contentType: 'application/pdf', size: pdf.length });
+      expect(created.storageKey).toMatch(/^attachments\/user-123\/[0-9a-f-]+$/);
+      expect(created.thumbnailKey).toBeNull();
+      expect(stored.get(created.storageKey)).toBeDefined();
+      expect(stored.get(created.storageKey)!.includes(Buffer.from('scanned notes'))).toBe(false);
+    });
+
+    it('should make a thumbnail of an image', async () => {
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+      (createThumbnail as jest.Mock).mockResolvedValue(Buffer.from('RIFF thumbnail'));
+
+      const { attachment, created } = await upload('drawing.png', 'image/png', image);
+
+      expect(createThumbnail).toHaveBeenCalledWith(image);
+      expect(attachment.hasThumbnail).toBe(true);
+      expect(created.thumbnailKey).toBe(`${created.storageKey}.thumb`);
+
+      const download = await attachmentService.openAttachment(entryId, 'attachment-1', userId, true);
+      expect(download.contentType).toBe('image/webp');
+      await expect(readAll(download.stream)).resolves.toEqual(Buffer.from('RIFF thumbnail'));
+    });
+
+    it('should reject an image that cannot be read', async () => {
+      (createThumbnail as jest.Mock).mockRejectedValue(new Error('Invalid image: the file could not be read as an image'));
+
+      await expect(
+        upload('drawing.gif', 'image/gif', Buffer.from('GIF89a-truncated'))
+      ).rejects.toThrow('Invalid image');
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should clean up the original name', async () => {
+      const { attachment } = await upload('../../secret/scan.pdf', 'application/pdf', pdf);
+
+      expect(attachment.fileName).toBe('scan.pdf');
+    });
+
+    it('should reject a type that is not allowed', async () => {
+      await expect(
+        attachmentService.uploadAttachment(entryId, userId, {
+          originalName: 'page.html',
+          contentType: 'text/html',
+          data: Buffer.from('<html></html>'),
+        })
+      ).rejects.toThrow('File type must be one of');
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject a file whose contents do not match its type', async () => {
+      await expect(
+        attachmentService.uploadAttachment(entryId, userId, {
+          originalName: 'photo.jpg',
+          contentType: 'image/jpeg',
+          data: Buffer.from('<script>alert(1)</script>'),
+        })
+      ).rejects.toThrow('Invalid file');
+    });
+
+    it('should reject a missing or empty file', async () => {
+      await expect(attachmentService.uploadAttachment(entryId, userId, undefined)).rejects.toThrow('File is required');
+    });
+
+    it('should limit how many files an entry has', async () => {
+      (AttachmentRepository.countByEntryId as jest.Mock).mockResolvedValue(10);
+
+      await expect(upload('scan.pdf', 'application/pdf', pdf)).rejects.toThrow('Attachment limit reached');
+    });
+
+    it('should not attach files to an entry of another user', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue(null);
+
+      await expect(upload('scan.pdf', 'application/pdf', pdf)).rejects.toThrow('Entry not found or access denied');
+    });
+
+    it('should delete the stored file if the attachment cannot be recorded', async () => {
+      (AttachmentRepository.create as jest.Mock).mockRejectedValue(new Error('Failed to create attachment'));
+
+      await expect(
+        attachmentService.uploadAttachment(entryId, userId, {
+          originalName: 'scan.pdf',
+          contentType: 'application/pdf',
+          data: pdf,
+        })
+      ).rejects.toThrow('Failed to create attachment');
+      expect(stored.size).toBe(0);
+    });
+  });
+
+  describe('openAttachment', () => {
+    it('should stream the decrypted file', async () => {
+      await upload('scan.pdf', 'application/pdf', pdf);
+
+      const download = await attachmentService.openAttachment(entryId, 'attachment-1', userId);
+
+      expect(download).toMatchObject({ contentType: 'application/pdf', size: pdf.length });
+      await expect(readAll(download.stream)).resolves.toEqual(pdf);
+    });
+
+    it('should fail the stream when the stored file was tampered with', async () => {
+      const { created } = await upload('scan.pdf', 'application/pdf', pdf);
+      stored.get(created.storageKey)![3] ^= 1;
+
+      const download = await attachmentService.openAttachment(entryId, 'attachment-1', userId);
+
+      await expect(readAll(download.stream)).rejects.toThrow('Failed to decrypt file');
+    });
+
+    it('should report a missing thumbnail', async () => {
+      await upload('scan.pdf', 'application/pdf', pdf);
+
+      await expect(attachmentService.openAttachment(entryId, 'attachment-1', userId, true)).rejects.toThrow(
+        'Thumbnail not found'
+      );
+    });
+
+    it('should report an attachment of another entry as not found', async () => {
+      (AttachmentRepository.findStoredById as jest.Mock).mockResolvedValue(null);
+
+      await expect(attachmentService.openAttachment(entryId, 'attachment-9', userId)).rejects.toThrow(
+        'Attachment not found'
+      );
+    });
+  });
+
+  describe('deleteAttachment', () => {
+    it('should delete the stored files', async () => {
+      (AttachmentRepository.delete as jest.Mock).mockResolvedValue(['attachments/a', 'attachments/a.thumb']);
+
+      await attachmentService.deleteAttachment(entryId, 'attachment-1', userId);
+
+      expect(AttachmentRepository.delete).toHaveBeenCalledWith('attachment-1', entryId, userId);
+      expect(storage.delete).toHaveBeenCalledWith('attachments/a');
+      expect(storage.delete).toHaveBeenCalledWith('attachments/a.thumb');
+    });
+
+    it('should keep going when a stored file cannot be deleted', async () => {
+      (AttachmentRepository.delete as jest.Mock).mockResolvedValue(['attachments/a', 'attachments/a.thumb']);
+      storage.delete.mockRejectedValueOnce(new Error('Failed to delete stored file'));
+
+      await attachmentService.deleteAttachment(entryId, 'attachment-1', userId);
+
+      expect(storage.delete).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('purgeTrashedBefore', () => {
+    it('should delete attachments of long-trashed entries in batches, with their files', async () => {
+      const cutoff = new Date('2026-03-01T00:00:00Z');
+      (AttachmentRepository.deleteTrashedBefore as jest.Mock)
+        .mockResolvedValueOnce({ count: 500, storageKeys: ['attachments/a'] })
+        .mockResolvedValueOnce({ count: 3, storageKeys: ['attachments/b'] });
+
+      const purged = await attachmentService.purgeTrashedBefore(cutoff);
+
+      expect(purged).toBe(503);
+      expect(AttachmentRepository.deleteTrashedBefore).toHaveBeenCalledWith(cutoff, 500);
+      expect(storage.delete).toHaveBeenCalledWith('attachments/b');
+    });
+  });
+
+  describe('getFilesForExport', () => {
+    it('should open every file decrypted, only when asked', async () => {
+      const { created } = await upload('scan.pdf', 'application/pdf', pdf);
+      (AttachmentRepository.findAllStoredByUserId as jest.Mock).mockResolvedValue([
+        { ...created, id: 'attachment-1', hasThumbnail: false, createdAt: new Date() },
+      ]);
+
+      const files = await attachmentService.getFilesForExport(userId);
+
+      expect(files).toHaveLength(1);
+      expect(storage.get).not.toHaveBeenCalled();
+      expect(await readAll(await files[0].open())).toEqual(pdf);
+      expect(files[0]).not.toHaveProperty('fileKey');
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import { Readable, pipeline } from 'stream';
+import { AttachmentFile, EntryAttachment } from '../types/index.js';
+import AttachmentRepository, { StoredAttachment } from '../repositories/AttachmentRepository.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import { getStorageDriver } from '../storage/storage.js';
+import { createFileDecipher, encryptFile, generateFileKey } from '../utils/encryption.js';
+import {
+  ALLOWED_CONTENT_TYPES,
+  MAX_ATTACHMENTS_PER_ENTRY,
+  canThumbnail,
+  matchesContentType,
+  normalizeContentType,
+  sanitizeFileName,
+} from '../utils/attachments.js';
+import { createThumbnail } from '../utils/images.js';
+import { getEnvConfig } from '../utils/env.js';
+import logger from '../utils/logger.js';
+
+/**
+ * AttachmentService
+ * Handles files attached to journal entries. Each file is encrypted with its own key
+ * before it is handed to the storage backend, and decrypted again while it is streamed
+ * back to its owner.
+ */
+
+const PURGE_BATCH_SIZE = 500;
+
+export interface UploadedFile {
+  originalName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface AttachmentDownload {
+  attachment: EntryAttachment;
+  // The decrypted file
+  stream: Readable;
+  contentType: string;
+  // Size in bytes, when known up front
+  size?: number;
+}
+
+export class AttachmentService {
+  /**
+   * Check the entry exists, belongs to the user and is not in the trash
+   * @throws Error if it does not
+   */
+  private async requireEntry(entryId: string, userId: string): Promise<void> {
+    if (!entryId) {
+      throw new Error('Entry ID is required');
+    }
+
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if (!(await EntryRepository.findById(entryId, userId))) {
+      throw new Error('Entry not found or access denied');
+    }
+  }
+
+  /**
+   * Open a stored file as a stream of its decrypted contents
+   */
+  private async openFile(storageKey: string, fileKey: Buffer, iv: string): Promise<Readable> {
+    const source = await getStorageDriver().get(storageKey);
+    const decipher = createFileDecipher(fileKey, iv);
+    // Errors reading the stored file are passed on to the decrypted stream
+    pipeline(source, decipher, () => undefined);
+    return decipher;
+  }
+
+  /**
+   * List the files attached to an entry, oldest first
+   * @throws Error if the entry is not found or access is denied
+   */
+  async listAttachments(entryId: string, userId: string): Promise<EntryAttachment[]> {
+    await this.requireEntry(entryId, userId);
+    return AttachmentRepository.findByEntryId(entryId, userId);
+  }
+
+  /**
+   * Attach a file to an entry
+   * The file's type is checked against its contents, and images get a thumbnail.
+   * The file and thumbnail are stored encrypted before the attachment is recorded.
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @param file - The uploaded file
+   * @returns The attachment
+   * @throws Error if the entry is not found, the file is not allowed or the entry has
+   * as many attachments as it can have
+   */
+  async uploadAttachment(entryId: string, userId: string, file: UploadedFile | undefined): Promise<EntryAttachment> {
+    await this.requireEntry(entryId, userId);
+
+    if (!file || file.data.length === 0) {
+      throw new Error('File is required and cannot be empty');
+    }
+
+    const maxBytes = getEnvConfig().attachments.maxBytes;
+    if (file.data.length > maxBytes) {
+      throw new Error(`File must be at most ${maxBytes} bytes`);
+    }
+
+    const contentType = normalizeContentType(file.contentType);
+    if (!contentType) {
+      throw new Error(`File type must be one of: ${ALLOWED_CONTENT_TYPES.join(', ')}`);
+    }
+    if (!matchesContentType(file.data, contentType)) {
+      throw new Error(`Invalid file: its contents are not ${contentType}`);
+    }
+
+    if ((await AttachmentRepository.countByEntryId(entryId)) >= MAX_ATTACHMENTS_PER_ENTRY) {
+      throw new Error(`Attachment limit reached: an entry can have at most ${MAX_ATTACHMENTS_PER_ENTRY} attachments`);
+    }
+
+    const thumbnail = canThumbnail(contentType) ? await createThumbnail(file.data) : null;
+
+    const fileKey = generateFileKey();
+    const encryptedFile = encryptFile(file.data, fileKey);
+    const encryptedThumbnail = thumbnail ? encryptFile(thumbnail, fileKey) : null;
+
+    const storageKey = `attachments/${userId}/${crypto.randomUUID()}`;
+    const thumbnailKey = encryptedThumbnail ? `${storageKey}.thumb` : null;
+
+    const storage = getStorageDriver();
+    try {
+      await storage.put(storageKey, encryptedFile.data);
+      if (thumbnailKey && encryptedThumbnail) {
+        await storage.put(thumbnailKey, encryptedThumbnail.data);
+      }
+
+      return await AttachmentRepository.create({
+        entryId,
+        userId,
+        fileName: sanitizeFileName(file.originalName),
+        contentType,
+        size: file.data.length,
+        storageKey,
+        thumbnailKey,
+        fileKey,
+        fileIv: encryptedFile.iv,
+        thumbnailIv: encryptedThumbnail?.iv ?? null,
+      });
+    } catch (error) {
+      await this.deleteStoredFiles(thumbnailKey ? [storageKey, thumbnailKey] : [storageKey]);
+      throw error;
+    }
+  }
+
+  /**
+   * Open an attachment, or its thumbnail, for download
+   * @param entryId - The entry's ID
+   * @param attachmentId - The attachment's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @param thumbnail - Whether to open the thumbnail instead of the file
+   * @returns The attachment and a stream of its decrypted contents
+   * @throws Error if the entry or attachment is not found, or it has no thumbnail
+   */
+  async openAttachment(
+    entryId: string,
+    attachmentId: string,
+    userId: string,
+    thumbnail: boolean = false
+  ): Promise<AttachmentDownload> {
+    await this.requireEntry(entryId, userId);
+
+    const stored = await AttachmentRepository.findStoredById(attachmentId, entryId, userId);
+    if (!stored) {
+      throw new Error('Attachment not found');
+    }
+
+    const storageKey = thumbnail ? stored.thumbnailKey : stored.storageKey;
+    const iv = thumbnail ? stored.thumbnailIv : stored.fileIv;
+    if (!storageKey || !iv) {
+      throw new Error('Thumbnail not found');
+    }
+
+    return {
+      attachment: this.toAttachment(stored),
+      stream: await this.openFile(storageKey, stored.fileKey, iv),
+      contentType: thumbnail ? 'image/webp' : stored.contentType,
+      size: thumbnail ? undefined : stored.size,
+    };
+  }
+
+  /**
+   * Delete an attachment and its stored files
+   * @throws Error if the entry or attachment is not found
+   */
+  async deleteAttachment(entryId: string, attachmentId: string, userId: string): Promise<void> {
+    await this.requireEntry(entryId, userId);
+
+    const storageKeys = await AttachmentRepository.delete(attachmentId, entryId, userId);
+    if (!storageKeys) {
+      throw new Error('Attachment not found');
+    }
+
+    await this.deleteStoredFiles(storageKeys);
+  }
+
+  /**
+   * List all of a user's attachments for export
+   * Files are only read when an export opens them, so they are never all in memory at once
+   */
+  async getFilesForExport(userId: string): Promise<AttachmentFile[]> {
+    const attachments = await AttachmentRepository.findAllStoredByUserId(userId);
+
+    return attachments.map((stored) => ({
+      ...this.toAttachment(stored),
+      open: () => this.openFile(stored.storageKey, stored.fileKey, stored.fileIv),
+    }));
+  }
+
+  /**
+   * Delete the attachments of entries that were moved to the trash before a cutoff
+   * Run before the entries themselves are purged, since their attachments' stored
+   * files are only known while the attachments exist
+   * @returns The number of attachments examined
+   */
+  async purgeTrashedBefore(cutoff: Date): Promise<number> {
+    let purged = 0;
+    for (;;) {
+      const { count, storageKeys } = await AttachmentRepository.deleteTrashedBefore(cutoff, PURGE_BATCH_SIZE);
+      await this.deleteStoredFiles(storageKeys);
+      purged += count;
+      if (count < PURGE_BATCH_SIZE) {
+        return purged;
+      }
+    }
+  }
+
+  /**
+   * Delete stored files whose attachments are gone
+   * Failures are logged rather than thrown: a file left behind cannot be read, since
+   * its key was deleted with its attachment.
+   */
+  async deleteStoredFiles(storageKeys: string[]): Promise<void> {
+    const storage = getStorageDriver();
+    for (const storageKey of storageKeys) {
+      try {
+        await storage.delete(storageKey);
+      } catch (error) {
+        logger.warn('Failed to delete stored attachment file', {
+          storageKey,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  private toAttachment(stored: StoredAttachment): EntryAttachment {
+    return {
+      id: stored.id,
+      entryId: stored.entryId,
+      fileName: stored.fileName,
+      contentType: stored.contentType,
+      size: stored.size,
+      hasThumbnail: stored.hasThumbnail,
+      createdAt: stored.createdAt,
+    };
+  }
+}
+
+export default new AttachmentService();
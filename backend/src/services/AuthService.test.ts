@@ -1,12 +1,18 @@
 import { AuthService } from './AuthService.js';
 import UserRepository from '../repositories/UserRepository.js';
 import * as passwordUtils from '../utils/password.js';
-import * as jwtUtils from '../utils/jwt.js';
+import SessionService from './SessionService.js';
+import MfaService from './MfaService.js';
+import EmailVerificationService from './EmailVerificationService.js';
+import { AuthResponse } from '../types/index.js';
+import { generateMfaChallengeToken, verifyMfaChallengeToken } from '../utils/jwt.js';
 
 // Mock dependencies
 jest.mock('../repositories/UserRepository.js');
 jest.mock('../utils/password.js');
-jest.mock('../utils/jwt.js');
+jest.mock('./SessionService.js');
+jest.mock('./MfaService.js');
+jest.mock('./EmailVerificationService.js');
 
 describe('AuthService', () => {
   let authService: AuthService;
@@ -42,7 +48,7 @@ describe('AuthService', () => {
       (UserRepository.findByEmail as jest.Mock).mockResolvedValue(null);
       (passwordUtils.hashPassword as jest.Mock).mockResolvedValue('hashed-password');
       (UserRepository.create as jest.Mock).mockResolvedValue(mockUser);
-      (jwtUtils.generateTokenPair as jest.Mock).mockReturnValue({
+      (SessionService.createSession as jest.Mock).mockResolvedValue({
         accessToken: 'access-token',
         refreshToken: 'refresh-token',
       });
@@ -59,6 +65,7 @@ describe('AuthService', () => {
           role: mockUser.role,
           aiConsent: mockUser.aiConsent,
           hasCompletedOnboarding: mockUser.hasCompletedOnboarding,
+          emailVerified: false,
           createdAt: mockUser.createdAt,
           updatedAt: mockUser.updatedAt,
         },
@@ -67,7 +74,8 @@ describe('AuthService', () => {
       expect(UserRepository.findByEmail).toHaveBeenCalledWith(validEmail);
       expect(passwordUtils.hashPassword).toHaveBeenCalledWith(validPassword);
       expect(UserRepository.create).toHaveBeenCalledWith(validEmail, validName, 'hashed-password');
-      expect(jwtUtils.generateTokenPair).toHaveBeenCalledWith('user-123', validEmail);
+      expect(SessionService.createSession).toHaveBeenCalledWith(mockUser, {});
+      expect(EmailVerificationService.sendVerification).toHaveBeenCalledWith(mockUser);
     });
 
     it('should reject registration with missing email', async () => {
@@ -173,7 +181,7 @@ describe('AuthService', () => {
         (UserRepository.findByEmail as jest.Mock).mockResolvedValue(null);
         (passwordUtils.hashPassword as jest.Mock).mockResolvedValue('hashed-password');
         (UserRepository.create as jest.Mock).mockResolvedValue(mockUser);
-        (jwtUtils.generateTokenPair as jest.Mock).mockReturnValue({
+        (SessionService.createSession as jest.Mock).mockResolvedValue({
           accessToken: 'access-token',
           refreshToken: 'refresh-token',
         });
@@ -203,7 +211,7 @@ describe('AuthService', () => {
 
       (UserRepository.findByEmail as jest.Mock).mockResolvedValue(mockUser);
       (passwordUtils.comparePassword as jest.Mock).mockResolvedValue(true);
-      (jwtUtils.generateTokenPair as jest.Mock).mockReturnValue({
+      (SessionService.createSession as jest.Mock).mockResolvedValue({
         accessToken: 'access-token',
         refreshToken: 'refresh-token',
       });
@@ -220,6 +228,7 @@ describe('AuthService', () => {
           role: mockUser.role,
           aiConsent: mockUser.aiConsent,
           hasCompletedOnboarding: mockUser.hasCompletedOnboarding,
+          emailVerified: false,
           createdAt: mockUser.createdAt,
           updatedAt: mockUser.updatedAt,
         },
@@ -227,7 +236,7 @@ describe('AuthService', () => {
 
       expect(UserRepository.findByEmail).toHaveBeenCalledWith(validEmail);
       expect(passwordUtils.comparePassword).toHaveBeenCalledWith(validPassword, 'hashed-password');
-      expect(jwtUtils.generateTokenPair).toHaveBeenCalledWith('user-123', validEmail);
+      expect(SessionService.createSession).toHaveBeenCalledWith(mockUser, {});
     });
 
     it('should reject login with missing email', async () => {
@@ -269,7 +278,7 @@ describe('AuthService', () => {
         'Invalid email or password'
       );
 
-      expect(jwtUtils.generateTokenPair).not.toHaveBeenCalled();
+      expect(SessionService.createSession).not.toHaveBeenCalled();
     });
 
     it('should handle password comparison errors', async () => {
@@ -338,7 +347,7 @@ describe('AuthService', () => {
       (UserRepository.findByEmail as jest.Mock).mockResolvedValue(null);
       (passwordUtils.hashPassword as jest.Mock).mockResolvedValue('hashed-password');
       (UserRepository.create as jest.Mock).mockResolvedValue(mockUser);
-      (jwtUtils.generateTokenPair as jest.Mock).mockReturnValue({
+      (SessionService.createSession as jest.Mock).mockResolvedValue({
         accessToken: 'access-token-1',
         refreshToken: 'refresh-token-1',
       });
@@ -349,14 +358,78 @@ describe('AuthService', () => {
       // Login
       (UserRepository.findByEmail as jest.Mock).mockResolvedValue(mockUser);
       (passwordUtils.comparePassword as jest.Mock).mockResolvedValue(true);
-      (jwtUtils.generateTokenPair as jest.Mock).mockReturnValue({
+      (SessionService.createSession as jest.Mock).mockResolvedValue({
         accessToken: 'access-token-2',
         refreshToken: 'refresh-token-2',
       });
 
-      const loginResult = await authService.login(email, password);
+      const loginResult = (await authService.login(email, password)) as AuthResponse;
       expect(loginResult.user.email).toBe(email);
       expect(loginResult.user.id).toBe('user-123');
     });
   });
+
+  describe('MFA login', () => {
+    const validEmail = 'user@example.com';
+    const validPassword = 'ValidPass123!';
+    const mfaUser = {
+      id: 'user-123',
+      email: validEmail,
+      name: 'John Doe',
+      passwordHash: 'hashed-password',
+      role: 'USER',
+      aiConsent: false,
+      hasCompletedOnboarding: false,
+      failedLoginAttempts: 0,
+      lockoutUntil: null,
+      mfaEnabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should return a challenge instead of a session when MFA is enabled', async () => {
+      (UserRepository.findByEmail as jest.Mock).mockResolvedValue(mfaUser);
+      (passwordUtils.comparePassword as jest.Mock).mockResolvedValue(true);
+
+      const result = await authService.login(validEmail, validPassword);
+
+      expect(result).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+      if ('mfaToken' in result) {
+        expect((await verifyMfaChallengeToken(result.mfaToken)).userId).toBe('user-123');
+      }
+    });
+
+    it('should start a session once the second factor is verified', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mfaUser);
+      (MfaService.verifySecondFactor as jest.Mock).mockResolvedValue('totp');
+      (SessionService.createSession as jest.Mock).mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      });
+
+      const result = await authService.verifyMfa(await generateMfaChallengeToken('user-123'), '123456');
+
+      expect(result.accessToken).toBe('access-token');
+      expect(MfaService.verifySecondFactor).toHaveBeenCalledWith(mfaUser, '123456');
+      expect(SessionService.createSession).toHaveBeenCalledWith(mfaUser, {});
+    });
+
+    it('should reject an invalid second factor and count the failed attempt', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mfaUser);
+      (MfaService.verifySecondFactor as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        authService.verifyMfa(await generateMfaChallengeToken('user-123'), '000000')
+      ).rejects.toThrow('Invalid MFA code');
+
+      expect(UserRepository.incrementFailedLoginAttempts).toHaveBeenCalledWith('user-123');
+      expect(SessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tampered challenge token', async () => {
+      await expect(authService.verifyMfa('not-a-token', '123456')).rejects.toThrow('Invalid MFA token');
+      expect(MfaService.verifySecondFactor).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,7 +1,18 @@
-import { AuthResponse, UserProfile } from '../types/index.js';
+import {
+  AuthFactor,
+  AuthResponse,
+  LoginResult,
+  SessionContext,
+  User,
+  UserProfile,
+} from '../types/index.js';
 import { hashPassword, comparePassword, validatePassword } from '../utils/password.js';
-import { generateTokenPair } from '../utils/jwt.js';
 import UserRepository from '../repositories/UserRepository.js';
+import SessionService from './SessionService.js';
+import MfaService from './MfaService.js';
+import EmailVerificationService from './EmailVerificationService.js';
+import { generateMfaChallengeToken, verifyMfaChallengeToken } from '../utils/jwt.js';
+import { isTotpCode } from '../utils/totp.js';
 import { logAuditEvent, AuditEventType } from '../utils/audit.js';
 
 /**
@@ -25,10 +36,16 @@ export class AuthService {
    * @param email - The user's email
    * @param password - The user's password
    * @param name - The user's name
+   * @param context - Device information for the new session
    * @returns AuthResponse with tokens and user profile
    * @throws Error if registration fails
    */
-  async register(email: string, password: string, name: string): Promise<AuthResponse> {
+  async register(
+    email: string,
+    password: string,
+    name: string,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> {
     // Validate inputs
     if (!email || !password || !name) {
       throw new Error('Email, password, and name are required');
@@ -62,8 +79,11 @@ export class AuthService {
     // Create user
     const user = await UserRepository.create(email, name, passwordHash);
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokenPair(user.id, user.email);
+    // Start a server-side session and issue its tokens
+    const { accessToken, refreshToken } = await SessionService.createSession(user, context);
+
+    // Ask the user to confirm their address without holding up the response
+    void EmailVerificationService.sendVerification(user);
 
     // Audit log registration
     logAuditEvent(AuditEventType.USER_REGISTERED, {
@@ -81,6 +101,7 @@ export class AuthService {
       role: user.role,
       aiConsent: user.aiConsent,
       hasCompletedOnboarding: user.hasCompletedOnboarding,
+      emailVerified: !!user.emailVerifiedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -94,12 +115,14 @@ export class AuthService {
 
   /**
    * Login a user
+   * Users with MFA enabled receive a short-lived challenge token instead of a session
    * @param email - The user's email
    * @param password - The user's password
-   * @returns AuthResponse with tokens and user profile
+   * @param context - Device information for the new session
+   * @returns AuthResponse with tokens and user profile, or an MFA challenge
    * @throws Error if login fails
    */
-  async login(email: string, password: string): Promise<AuthResponse> {
+  async login(email: string, password: string, context: SessionContext = {}): Promise<LoginResult> {
     // Validate inputs
     if (!email || !password) {
       throw new Error('Email and password are required');
@@ -111,52 +134,121 @@ export class AuthService {
       throw new Error('Invalid email or password');
     }
 
-    // Check for account lockout
-    if (user.lockoutUntil && user.lockoutUntil > new Date()) {
-      const remainingTime = Math.ceil((user.lockoutUntil.getTime() - Date.now()) / 60000);
-
-      logAuditEvent(AuditEventType.USER_LOGIN_FAILURE, {
-        email,
-        success: false,
-        metadata: { reason: 'Account locked', remainingTimeMins: remainingTime },
-      });
-
-      throw new Error(`Account is temporarily locked. Please try again in ${remainingTime} minutes.`);
-    }
+    this.assertNotLocked(user);
 
     // Compare passwords
     const passwordMatch = await comparePassword(password, user.passwordHash);
     if (!passwordMatch) {
-      // Increment failed attempts and lock account if necessary
-      await UserRepository.incrementFailedLoginAttempts(user.id);
+      await this.recordFailedAttempt(user, 'Invalid password', 'password');
+      throw new Error('Invalid email or password');
+    }
 
-      const updatedUser = await UserRepository.findById(user.id);
-      const MAX_ATTEMPTS = 5;
-      const LOCKOUT_DURATION_MINS = 15;
+    // Hold off on the session until the second factor has been checked
+    if (user.mfaEnabled) {
+      return {
+        mfaRequired: true,
+        mfaToken: await generateMfaChallengeToken(user.id),
+      };
+    }
 
-      if (updatedUser && updatedUser.failedLoginAttempts >= MAX_ATTEMPTS) {
-        const lockoutTime = new Date(Date.now() + LOCKOUT_DURATION_MINS * 60000);
-        await UserRepository.lockAccount(user.id, lockoutTime);
+    return this.completeLogin(user, 'password', context);
+  }
 
-        logAuditEvent(AuditEventType.ACCOUNT_LOCKED, {
-          userId: user.id,
-          email: user.email,
-          success: true,
-          metadata: { durationMins: LOCKOUT_DURATION_MINS },
-        });
+  /**
+   * Complete an MFA login with a TOTP or recovery code
+   * @param mfaToken - The challenge token returned by login
+   * @param code - The TOTP or recovery code
+   * @param context - Device information for the new session
+   * @returns AuthResponse with tokens and user profile
+   * @throws Error if the challenge or code is invalid
+   */
+  async verifyMfa(mfaToken: string, code: string, context: SessionContext = {}): Promise<AuthResponse> {
+    if (!mfaToken || !code) {
+      throw new Error('MFA token and code are required');
+    }
 
-        throw new Error(`Too many failed attempts. Account locked for ${LOCKOUT_DURATION_MINS} minutes.`);
-      }
+    const { userId } = await verifyMfaChallengeToken(mfaToken);
+
+    const user = await UserRepository.findById(userId);
+    if (!user || !user.mfaEnabled) {
+      throw new Error('Invalid MFA token');
+    }
+
+    this.assertNotLocked(user);
+
+    const factor = await MfaService.verifySecondFactor(user, code);
+    if (!factor) {
+      await this.recordFailedAttempt(
+        user,
+        'Invalid MFA code',
+        isTotpCode(code) ? 'totp' : 'recovery_code'
+      );
+      throw new Error('Invalid MFA code');
+    }
+
+    return this.completeLogin(user, factor, context);
+  }
+
+  /**
+   * Reject logins while the account is locked
+   * @throws Error if the account is locked
+   */
+  private assertNotLocked(user: User): void {
+    if (user.lockoutUntil && user.lockoutUntil > new Date()) {
+      const remainingTime = Math.ceil((user.lockoutUntil.getTime() - Date.now()) / 60000);
 
       logAuditEvent(AuditEventType.USER_LOGIN_FAILURE, {
-        email,
+        email: user.email,
         success: false,
-        metadata: { reason: 'Invalid password', currentAttempts: updatedUser?.failedLoginAttempts },
+        metadata: { reason: 'Account locked', remainingTimeMins: remainingTime },
       });
 
-      throw new Error('Invalid email or password');
+      throw new Error(`Account is temporarily locked. Please try again in ${remainingTime} minutes.`);
     }
+  }
 
+  /**
+   * Count a failed login step and lock the account once too many have failed
+   * Password and MFA failures share the same counter
+   * @throws Error if the account has just been locked
+   */
+  private async recordFailedAttempt(user: User, reason: string, factor: AuthFactor): Promise<void> {
+    // Increment failed attempts and lock account if necessary
+    await UserRepository.incrementFailedLoginAttempts(user.id);
+
+    const updatedUser = await UserRepository.findById(user.id);
+    const MAX_ATTEMPTS = 5;
+    const LOCKOUT_DURATION_MINS = 15;
+
+    if (updatedUser && updatedUser.failedLoginAttempts >= MAX_ATTEMPTS) {
+      const lockoutTime = new Date(Date.now() + LOCKOUT_DURATION_MINS * 60000);
+      await UserRepository.lockAccount(user.id, lockoutTime);
+
+      logAuditEvent(AuditEventType.ACCOUNT_LOCKED, {
+        userId: user.id,
+        email: user.email,
+        success: true,
+        metadata: { durationMins: LOCKOUT_DURATION_MINS },
+      });
+
+      throw new Error(`Too many failed attempts. Account locked for ${LOCKOUT_DURATION_MINS} minutes.`);
+    }
+
+    logAuditEvent(AuditEventType.USER_LOGIN_FAILURE, {
+      email: user.email,
+      success: false,
+      metadata: { reason, factor, currentAttempts: updatedUser?.failedLoginAttempts },
+    });
+  }
+
+  /**
+   * Start a session once every required factor has been verified
+   * @param user - The authenticated user
+   * @param factor - The last factor the user presented
+   * @param context - Device information for the new session
+   * @returns AuthResponse with tokens and user profile
+   */
+  private async completeLogin(user: User, factor: AuthFactor, context: SessionContext): Promise<AuthResponse> {
     // Reset failed attempts on successful login
     if (user.failedLoginAttempts > 0 || user.lockoutUntil) {
       await UserRepository.resetFailedLoginAttempts(user.id);
@@ -170,14 +262,17 @@ export class AuthService {
       }
     }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokenPair(user.id, user.email);
+    // Start a server-side session and issue its tokens
+    const { accessToken, refreshToken } = await SessionService.createSession(user, context);
 
     // Audit log login
     logAuditEvent(AuditEventType.USER_LOGIN_SUCCESS, {
       userId: user.id,
       email: user.email,
+      ip: context.ipAddress,
+      userAgent: context.userAgent,
       success: true,
+      metadata: { factor },
     });
 
     // Return response
@@ -188,6 +283,7 @@ export class AuthService {
       role: user.role,
       aiConsent: user.aiConsent,
       hasCompletedOnboarding: user.hasCompletedOnboarding,
+      emailVerified: !!user.emailVerifiedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
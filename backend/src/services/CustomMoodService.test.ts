@@ -0,0 +1,119 @@
+import { CustomMoodService } from './CustomMoodService.js';
+import CustomMoodRepository from '../repositories/CustomMoodRepository.js';
+
+// Mock dependencies
+jest.mock('../repositories/CustomMoodRepository.js');
+
+describe('CustomMoodService', () => {
+  let customMoodService: CustomMoodService;
+  const userId = 'user-123';
+
+  const homesick = {
+    id: 'mood-1',
+    userId,
+    label: 'Homesick',
+    emoji: '🏠',
+    baseMood: 'sad',
+    valence: -0.4,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+  };
+
+  beforeEach(() => {
+    customMoodService = new CustomMoodService();
+    jest.clearAllMocks();
+    (CustomMoodRepository.findByUserId as jest.Mock).mockResolvedValue([homesick]);
+    (CustomMoodRepository.create as jest.Mock).mockImplementation(async (data) => ({ ...homesick, ...data }));
+  });
+
+  describe('createCustomMood', () => {
+    it("should default the valence to the base mood's", async () => {
+      await customMoodService.createCustomMood(userId, { label: ' Drained ', baseMood: 'Tired' });
+
+      expect(CustomMoodRepository.create).toHaveBeenCalledWith({
+        userId,
+        label: 'Drained',
+        emoji: null,
+        baseMood: 'tired',
+        valence: -0.3,
+      });
+    });
+
+    it('should reject a base mood outside the vocabulary', async () => {
+      await expect(
+        customMoodService.createCustomMood(userId, { label: 'Wistful', baseMood: 'melancholy' })
+      ).rejects.toThrow('Base mood must be one of');
+    });
+
+    it('should reject a valence out of range', async () => {
+      await expect(
+        customMoodService.createCustomMood(userId, { label: 'Elated', baseMood: 'happy', valence: 2 })
+      ).rejects.toThrow('Valence must be a number between -1 and 1');
+    });
+
+    it('should reject a label that is already used, ignoring case', async () => {
+      await expect(
+        customMoodService.createCustomMood(userId, { label: 'HOMESICK', baseMood: 'sad' })
+      ).rejects.toThrow('already exists');
+      expect(CustomMoodRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateCustomMood', () => {
+    it('should not change the base mood', async () => {
+      await expect(
+        customMoodService.updateCustomMood(userId, 'mood-1', { baseMood: 'happy' } as never)
+      ).rejects.toThrow('Base mood cannot be changed');
+      expect(CustomMoodRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should report a custom mood of another user as not found', async () => {
+      (CustomMoodRepository.update as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        customMoodService.updateCustomMood(userId, 'mood-2', { valence: 0 })
+      ).rejects.toThrow('Custom mood not found');
+    });
+  });
+
+  describe('resolveEmotions', () => {
+    it('should roll custom moods up to their base emotion, strongest first', async () => {
+      const emotions = await customMoodService.resolveEmotions(userId, [
+        { mood: 'calm' },
+        { customMoodId: 'mood-1', intensity: 0.7 },
+      ]);
+
+      expect(emotions).toEqual([
+        { mood: 'sad', customMoodId: 'mood-1', intensity: 0.7 },
+        { mood: 'calm', customMoodId: null, intensity: 0.2 },
+      ]);
+    });
+
+    it('should accept emotions as they were read from an entry', async () => {
+      const emotions = await customMoodService.resolveEmotions(userId, [
+        { mood: 'sad', customMoodId: 'mood-1', intensity: 0.7 },
+        { mood: 'calm', customMoodId: null, intensity: 0.2 },
+      ]);
+
+      expect(emotions).toHaveLength(2);
+    });
+
+    it('should reject repeated emotions', async () => {
+      await expect(
+        customMoodService.resolveEmotions(userId, [{ mood: 'calm' }, { mood: 'Calm', intensity: 0.5 }])
+      ).rejects.toThrow('Emotions must be different from each other');
+    });
+
+    it('should reject an intensity out of range', async () => {
+      await expect(
+        customMoodService.resolveEmotions(userId, [{ mood: 'calm', intensity: 1.5 }])
+      ).rejects.toThrow('Intensity must be a number between 0 and 1');
+    });
+
+    it('should limit how many emotions an entry has', async () => {
+      const emotions = ['happy', 'excited', 'calm', 'neutral', 'tired', 'sad'].map((mood) => ({ mood }));
+
+      await expect(customMoodService.resolveEmotions(userId, emotions)).rejects.toThrow('at most 5');
+    });
+  });
+});
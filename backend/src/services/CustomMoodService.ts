@@ -0,0 +1,227 @@
+import {
+  CreateCustomMoodRequest,
+  CustomMood,
+  EntryEmotion,
+  EntryEmotionInput,
+  UpdateCustomMoodRequest,
+} from '../types/index.js';
+import CustomMoodRepository from '../repositories/CustomMoodRepository.js';
+import { getMood, MOOD_IDS } from '../utils/moods.js';
+
+/**
+ * CustomMoodService
+ * Handles the moods users name themselves, each rolled up to a base emotion from the shared
+ * vocabulary, and resolves the emotions sent with an entry against them
+ */
+
+const MAX_CUSTOM_MOODS = 50;
+const MAX_LABEL_LENGTH = 50;
+const MAX_EMOJI_LENGTH = 16;
+
+// How many emotions one entry can have
+export const MAX_ENTRY_EMOTIONS = 5;
+
+export class CustomMoodService {
+  private normalizeLabel(label: unknown): string {
+    if (typeof label !== 'string' || label.trim().length === 0 || label.trim().length > MAX_LABEL_LENGTH) {
+      throw new Error(`Label is required and must be at most ${MAX_LABEL_LENGTH} characters`);
+    }
+    return label.trim();
+  }
+
+  private normalizeEmoji(emoji: unknown): string | null {
+    if (emoji === undefined || emoji === null || emoji === '') {
+      return null;
+    }
+    if (typeof emoji !== 'string' || emoji.trim().length > MAX_EMOJI_LENGTH) {
+      throw new Error(`Emoji must be a string of at most ${MAX_EMOJI_LENGTH} characters`);
+    }
+    return emoji.trim() || null;
+  }
+
+  private validateValence(valence: unknown): number {
+    if (typeof valence !== 'number' || !Number.isFinite(valence) || valence < -1 || valence > 1) {
+      throw new Error('Valence must be a number between -1 and 1');
+    }
+    return valence;
+  }
+
+  private validateIntensity(intensity: unknown): number {
+    if (typeof intensity !== 'number' || !Number.isFinite(intensity) || intensity < 0 || intensity > 1) {
+      throw new Error('Intensity must be a number between 0 and 1');
+    }
+    return intensity;
+  }
+
+  /**
+   * Make sure no other custom mood of the user has the label, ignoring case
+   */
+  private assertLabelFree(moods: CustomMood[], label: string, exceptId?: string): void {
+    const taken = moods.some(
+      (mood) => mood.id !== exceptId && mood.label.toLowerCase() === label.toLowerCase()
+    );
+    if (taken) {
+      throw new Error(`A custom mood named "${label}" already exists`);
+    }
+  }
+
+  /**
+   * List a user's custom moods
+   * @param userId - The owner
+   * @returns The custom moods, alphabetically
+   */
+  async listCustomMoods(userId: string): Promise<CustomMood[]> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    return CustomMoodRepository.findByUserId(userId);
+  }
+
+  /**
+   * Create a custom mood
+   * @param userId - The owner
+   * @param data - The label, optional emoji, base emotion and optional valence
+   * @returns The created custom mood
+   * @throws Error if the request is invalid, the label is taken or the user has too many custom moods
+   */
+  async createCustomMood(userId: string, data: CreateCustomMoodRequest): Promise<CustomMood> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const label = this.normalizeLabel(data.label);
+    const emoji = this.normalizeEmoji(data.emoji);
+    const base = typeof data.baseMood === 'string' ? getMood(data.baseMood) : undefined;
+    if (!base) {
+      throw new Error(`Base mood must be one of: ${MOOD_IDS.join(', ')}`);
+    }
+    const valence = data.valence === undefined ? base.valence : this.validateValence(data.valence);
+
+    const existing = await CustomMoodRepository.findByUserId(userId);
+    if (existing.length >= MAX_CUSTOM_MOODS) {
+      throw new Error(`Custom mood limit reached: delete a custom mood before creating another (maximum ${MAX_CUSTOM_MOODS})`);
+    }
+    this.assertLabelFree(existing, label);
+
+    return CustomMoodRepository.create({ userId, label, emoji, baseMood: base.id, valence });
+  }
+
+  /**
+   * Update a custom mood's label, emoji or valence
+   * @param userId - The owner
+   * @param id - The custom mood ID
+   * @param data - The fields to change
+   * @returns The updated custom mood
+   * @throws Error if the request is invalid, the label is taken or the custom mood is not found
+   */
+  async updateCustomMood(userId: string, id: string, data: UpdateCustomMoodRequest): Promise<CustomMood> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if ((data as { baseMood?: unknown }).baseMood !== undefined) {
+      throw new Error('Base mood cannot be changed; create a new custom mood instead');
+    }
+
+    const changes: { label?: string; emoji?: string | null; valence?: number } = {};
+    if (data.label !== undefined) {
+      changes.label = this.normalizeLabel(data.label);
+      this.assertLabelFree(await CustomMoodRepository.findByUserId(userId), changes.label, id);
+    }
+    if (data.emoji !== undefined) {
+      changes.emoji = this.normalizeEmoji(data.emoji);
+    }
+    if (data.valence !== undefined) {
+      changes.valence = this.validateValence(data.valence);
+    }
+
+    const updated = await CustomMoodRepository.update(id, userId, changes);
+    if (!updated) {
+      throw new Error('Custom mood not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a custom mood
+   * Entries that used it keep the emotion, counted as its base emotion
+   * @param userId - The owner
+   * @param id - The custom mood ID
+   * @returns True if the user's custom mood was deleted
+   */
+  async deleteCustomMood(userId: string, id: string): Promise<boolean> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    return CustomMoodRepository.delete(id, userId);
+  }
+
+  /**
+   * Check the emotions sent with an entry and fill in their base emotions and intensities
+   * @param userId - The entry's owner, whose custom moods may be used
+   * @param emotions - Moods from the vocabulary or the user's custom moods, with optional intensities
+   * @returns The emotions, strongest first
+   * @throws Error if an emotion is invalid, repeated or not one of the user's custom moods
+   */
+  async resolveEmotions(userId: string, emotions: EntryEmotionInput[]): Promise<EntryEmotion[]> {
+    if (!Array.isArray(emotions)) {
+      throw new Error('Emotions must be an array');
+    }
+    if (emotions.length > MAX_ENTRY_EMOTIONS) {
+      throw new Error(`Emotions must be a list of at most ${MAX_ENTRY_EMOTIONS} emotions`);
+    }
+
+    // Only look the user's custom moods up if they are used
+    const customMoods = emotions.some((emotion) => emotion?.customMoodId != null)
+      ? new Map((await CustomMoodRepository.findByUserId(userId)).map((mood) => [mood.id, mood]))
+      : new Map<string, CustomMood>();
+
+    const resolved: EntryEmotion[] = [];
+    const seen = new Set<string>();
+
+    for (const emotion of emotions) {
+      if (!emotion || typeof emotion !== 'object' || (emotion.mood == null && emotion.customMoodId == null)) {
+        throw new Error('Each emotion must be given as a mood or a customMoodId');
+      }
+
+      let mood: string;
+      let customMoodId: string | null = null;
+      // A custom mood's base emotion comes from the custom mood, so emotions read from an
+      // entry can be sent back as they are
+      if (emotion.customMoodId != null) {
+        const custom = customMoods.get(emotion.customMoodId);
+        if (!custom) {
+          throw new Error('Invalid emotion: customMoodId is not one of your custom moods');
+        }
+        mood = custom.baseMood;
+        customMoodId = custom.id;
+      } else {
+        const base = typeof emotion.mood === 'string' ? getMood(emotion.mood) : undefined;
+        if (!base) {
+          throw new Error(`Invalid emotion: mood must be one of: ${MOOD_IDS.join(', ')}`);
+        }
+        mood = base.id;
+      }
+
+      const key = customMoodId ?? mood;
+      if (seen.has(key)) {
+        throw new Error('Emotions must be different from each other');
+      }
+      seen.add(key);
+
+      resolved.push({
+        mood,
+        customMoodId,
+        intensity: emotion.intensity === undefined
+          ? (getMood(mood)?.intensity as number)
+          : this.validateIntensity(emotion.intensity),
+      });
+    }
+
+    return resolved.sort((a, b) => b.intensity - a.intensity);
+  }
+}
+
+export default new CustomMoodService();
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import { DataKeyService } from './DataKeyService.js';
+import UserDataKeyRepository from '../repositories/UserDataKeyRepository.js';
+import { publish } from '../utils/redis.js';
+import { generateDataKey, wrapDataKey } from '../utils/encryption.js';
+import { UserDataKey } from '../types/index.js';
+
+// Mock dependencies
+jest.mock('../repositories/UserDataKeyRepository.js');
+jest.mock('../utils/redis.js', () => ({ publish: jest.fn(), subscribe: jest.fn() }));
+
+describe('DataKeyService', () => {
+  let dataKeyService: DataKeyService;
+  const originalMasterKeys = process.env.MASTER_KEYS;
+  const masterKey = crypto.randomBytes(32).toString('base64');
+
+  const storeKey = (userId: string, version: number, key: Buffer = generateDataKey()): UserDataKey => {
+    const wrapped = wrapDataKey(key, `${userId}:${version}`);
+    return {
+      id: `key-${userId}-${version}`,
+      userId,
+      version,
+      wrappedKey: wrapped.wrappedKey,
+      wrapIv: wrapped.iv,
+      wrapTag: wrapped.tag,
+      masterKeyId: wrapped.masterKeyId,
+      createdAt: new Date(),
+    };
+  };
+
+  beforeEach(() => {
+    process.env.MASTER_KEYS = `k1:${masterKey}`;
+    dataKeyService = new DataKeyService();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    process.env.MASTER_KEYS = originalMasterKeys;
+  });
+
+  describe('getActiveKey', () => {
+    it('should create a first key for a user who has none', async () => {
+      (UserDataKeyRepository.findLatestByUser as jest.Mock).mockResolvedValue(null);
+      (UserDataKeyRepository.create as jest.Mock).mockImplementation(async (data) => ({
+        ...data,
+        id: 'key-1',
+        createdAt: new Date(),
+      }));
+
+      const result = await dataKeyService.getActiveKey('user-123');
+
+      expect(result.id).toBe('key-1');
+      expect(result.key).toHaveLength(32);
+      expect(UserDataKeyRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-123', version: 1, masterKeyId: 'k1' })
+      );
+      // The stored key is wrapped, never the raw key
+      const stored = (UserDataKeyRepository.create as jest.Mock).mock.calls[0][0];
+      expect(Buffer.from(stored.wrappedKey, 'base64').equals(result.key)).toBe(false);
+    });
+
+    it('should use the newest existing key', async () => {
+      const key = generateDataKey();
+      (UserDataKeyRepository.findLatestByUser as jest.Mock).mockResolvedValue(storeKey('user-123', 2, key));
+
+      const result = await dataKeyService.getActiveKey('user-123');
+
+      expect(result).toEqual({ id: 'key-user-123-2', key });
+      expect(UserDataKeyRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should use the key created by a concurrent request', async () => {
+      const existing = storeKey('user-123', 1);
+      (UserDataKeyRepository.findLatestByUser as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(existing);
+      (UserDataKeyRepository.create as jest.Mock).mockRejectedValue(new Error('Unique constraint failed'));
+
+      const result = await dataKeyService.getActiveKey('user-123');
+
+      expect(result.id).toBe(existing.id);
+    });
+  });
+
+  describe('rotateKey', () => {
+    const rotationStart = new Date('2026-10-18T00:00:00Z');
+
+    it('should create the next key version with the active master key', async () => {
+      (UserDataKeyRepository.findLatestByUser as jest.Mock).mockResolvedValue({
+        ...storeKey('user-123', 1),
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+      });
+      process.env.MASTER_KEYS = `k2:${crypto.randomBytes(32).toString('base64')},k1:${masterKey}`;
+      (UserDataKeyRepository.create as jest.Mock).mockImplementation(async (data) => ({
+        ...data,
+        id: 'key-2',
+        createdAt: new Date(),
+      }));
+
+      const result = await dataKeyService.rotateKey('user-123', rotationStart);
+
+      expect(result.id).toBe('key-2');
+      expect(UserDataKeyRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-123', version: 2, masterKeyId: 'k2' })
+      );
+    });
+
+    it('should reuse a key created since the rotation started', async () => {
+      const key = generateDataKey();
+      (UserDataKeyRepository.findLatestByUser as jest.Mock).mockResolvedValue({
+        ...storeKey('user-123', 2, key),
+        createdAt: new Date('2026-10-18T01:00:00Z'),
+      });
+
+      const result = await dataKeyService.rotateKey('user-123', rotationStart);
+
+      expect(result).toEqual({ id: 'key-user-123-2', key });
+      expect(UserDataKeyRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getKey', () => {
+    it('should unwrap a key wrapped by a master key that has since been rotated', async () => {
+      const key = generateDataKey();
+      const stored = storeKey('user-123', 1, key);
+      process.env.MASTER_KEYS = `k2:${crypto.randomBytes(32).toString('base64')},k1:${masterKey}`;
+      (UserDataKeyRepository.findById as jest.Mock).mockResolvedValue(stored);
+
+      await expect(dataKeyService.getKey(stored.id, 'user-123')).resolves.toEqual(key);
+    });
+
+    it('should reject a key that belongs to another user', async () => {
+      (UserDataKeyRepository.findById as jest.Mock).mockResolvedValue(storeKey('user-456', 1));
+
+      await expect(dataKeyService.getKey('key-user-456-1', 'user-123')).rejects.toThrow('Data key not found');
+    });
+
+    it('should reject a wrapped key copied to another user', async () => {
+      const stolen = { ...storeKey('user-456', 1), userId: 'user-123' };
+      (UserDataKeyRepository.findById as jest.Mock).mockResolvedValue(stolen);
+
+      await expect(dataKeyService.getKey(stolen.id, 'user-123')).rejects.toThrow();
+    });
+
+    it('should fail when the master key is not configured', async () => {
+      const stored = storeKey('user-123', 1);
+      process.env.MASTER_KEYS = `k2:${crypto.randomBytes(32).toString('base64')}`;
+      (UserDataKeyRepository.findById as jest.Mock).mockResolvedValue(stored);
+
+      await expect(dataKeyService.getKey(stored.id, 'user-123')).rejects.toThrow('Master key k1 is not configured');
+    });
+
+    it('should cache unwrapped keys', async () => {
+      (UserDataKeyRepository.findById as jest.Mock).mockResolvedValue(storeKey('user-123', 1));
+
+      await dataKeyService.getKey('key-user-123-1', 'user-123');
+      await dataKeyService.getKey('key-user-123-1', 'user-123');
+
+      expect(UserDataKeyRepository.findById).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('destroyKeys', () => {
+    it('should drop cached keys and tell other processes to drop theirs', async () => {
+      (UserDataKeyRepository.findById as jest.Mock).mockResolvedValue(storeKey('user-123', 1));
+      (UserDataKeyRepository.deleteByUser as jest.Mock).mockResolvedValue(1);
+      await dataKeyService.getKey('key-user-123-1', 'user-123');
+
+      await expect(dataKeyService.destroyKeys('user-123')).resolves.toBe(1);
+
+      expect(publish).toHaveBeenCalledWith('data-keys:destroyed', 'user-123');
+      (UserDataKeyRepository.findById as jest.Mock).mockResolvedValue(null);
+      await expect(dataKeyService.getKey('key-user-123-1', 'user-123')).rejects.toThrow('Data key not found');
+    });
+
+    it('should still destroy keys when other processes cannot be told', async () => {
+      (UserDataKeyRepository.deleteByUser as jest.Mock).mockResolvedValue(2);
+      (publish as jest.Mock).mockRejectedValue(new Error('Connection is closed'));
+
+      await expect(dataKeyService.destroyKeys('user-123')).resolves.toBe(2);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { UserDataKey } from '../types/index.js';
+import { generateDataKey, getMasterKeys, unwrapDataKey, wrapDataKey } from '../utils/encryption.js';
+import UserDataKeyRepository from '../repositories/UserDataKeyRepository.js';
+import { publish, subscribe } from '../utils/redis.js';
+import logger from '../utils/logger.js';
+
+/**
+ * DataKeyService
+ * Handles per-user data encryption keys for envelope encryption. Each user's journal
+ * data is encrypted with their own data key, which is stored wrapped by a master key.
+ */
+
+export interface ResolvedDataKey {
+  id: string;
+  key: Buffer;
+}
+
+// Unwrapped keys are cached briefly so that listing entries does not unwrap a key per row
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_KEYS = 1000;
+// Every API replica and worker hears about destroyed keys here and drops its cached copies
+const DESTROYED_KEYS_CHANNEL = 'data-keys:destroyed';
+
+export class DataKeyService {
+  private cache = new Map<string, { userId: string; key: Buffer; expiresAt: number }>();
+  // Keys are only cached while destroyed keys are being heard about; tests run in one process
+  private cacheEnabled = process.env.NODE_ENV === 'test';
+  private subscribed = false;
+
+  /**
+   * Start hearing about keys destroyed by other processes
+   * The cache is emptied and unused whenever the subscription is down, since a key
+   * destroyed meanwhile would not be heard about
+   */
+  private listenForDestroyedKeys(): void {
+    if (this.subscribed || process.env.NODE_ENV === 'test') {
+      return;
+    }
+    this.subscribed = true;
+
+    subscribe(
+      DESTROYED_KEYS_CHANNEL,
+      (userId) => this.forget(userId),
+      (live) => {
+        this.cacheEnabled = live;
+        if (!live) {
+          this.cache.clear();
+        }
+      }
+    );
+  }
+
+  /**
+   * Drop the cached keys of a user
+   */
+  private forget(userId: string): void {
+    for (const [id, cached] of this.cache) {
+      if (cached.userId === userId) {
+        this.cache.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Get a cached key that has not expired
+   */
+  private getCached(dataKeyId: string): { userId: string; key: Buffer } | undefined {
+    this.listenForDestroyedKeys();
+
+    const cached = this.cache.get(dataKeyId);
+    return this.cacheEnabled && cached && cached.expiresAt > Date.now() ? cached : undefined;
+  }
+
+  /**
+   * Build the associated data that binds a wrapped key to its owner and version,
+   * so a wrapped key copied to another user's row fails to unwrap
+   * @param dataKey - The stored key
+   * @returns The associated data
+   */
+  private getWrapContext(dataKey: Pick<UserDataKey, 'userId' | 'version'>): string {
+    return `${dataKey.userId}:${dataKey.version}`;
+  }
+
+  /**
+   * Unwrap a stored key and remember the result
+   * @param dataKey - The stored key
+   * @returns The data key
+   */
+  private unwrap(dataKey: UserDataKey): Buffer {
+    const cached = this.getCached(dataKey.id);
+    if (cached) {
+      return cached.key;
+    }
+
+    const key = unwrapDataKey(
+      {
+        wrappedKey: dataKey.wrappedKey,
+        iv: dataKey.wrapIv,
+        tag: dataKey.wrapTag,
+        masterKeyId: dataKey.masterKeyId,
+      },
+      this.getWrapContext(dataKey)
+    );
+
+    if (this.cacheEnabled) {
+      if (this.cache.size >= MAX_CACHED_KEYS) {
+        // Maps iterate in insertion order, so this drops the oldest entry
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+      this.cache.set(dataKey.id, { userId: dataKey.userId, key, expiresAt: Date.now() + CACHE_TTL_MS });
+    }
+
+    return key;
+  }
+
+  /**
+   * Generate and store a new data key version for a user
+   * @param userId - The key owner
+   * @param version - The version of the new key
+   * @returns The stored key
+   */
+  private async createKey(userId: string, version: number): Promise<UserDataKey> {
+    const wrapped = wrapDataKey(generateDataKey(), this.getWrapContext({ userId, version }));
+
+    return UserDataKeyRepository.create({
+      userId,
+      version,
+      wrappedKey: wrapped.wrappedKey,
+      wrapIv: wrapped.iv,
+      wrapTag: wrapped.tag,
+      masterKeyId: wrapped.masterKeyId,
+    });
+  }
+
+  /**
+   * Get the key new data for a user is encrypted with
+   * The user's first key is created on first use
+   * @param userId - The key owner
+   * @returns The ID and value of the user's newest data key
+   */
+  async getActiveKey(userId: string): Promise<ResolvedDataKey> {
+    let dataKey = await UserDataKeyRepository.findLatestByUser(userId);
+
+    if (!dataKey) {
+      try {
+        dataKey = await this.createKey(userId, 1);
+      } catch (error) {
+        // A concurrent request may have created the first key already
+        dataKey = await UserDataKeyRepository.findLatestByUser(userId);
+        if (!dataKey) {
+          throw error;
+        }
+      }
+    }
+
+    return { id: dataKey.id, key: this.unwrap(dataKey) };
+  }
+
+  /**
+   * Create the next data key version for a user, which becomes the active key
+   * Data encrypted with older versions stays readable until it is re-encrypted.
+   * If the user already has a key wrapped by the active master key that was created
+   * at or after `since`, that key is returned instead, so a resumed rotation does
+   * not create a second new key for the same user.
+   * @param userId - The key owner
+   * @param since - When the rotation started
+   * @returns The ID and value of the new key
+   */
+  async rotateKey(userId: string, since: Date): Promise<ResolvedDataKey> {
+    const [masterKey] = getMasterKeys();
+    const isCurrent = (dataKey: UserDataKey | null): boolean =>
+      !!dataKey && dataKey.masterKeyId === masterKey.id && dataKey.createdAt >= since;
+
+    const latest = await UserDataKeyRepository.findLatestByUser(userId);
+    if (latest && isCurrent(latest)) {
+      return { id: latest.id, key: this.unwrap(latest) };
+    }
+
+    let dataKey: UserDataKey;
+    try {
+      dataKey = await this.createKey(userId, (latest?.version ?? 0) + 1);
+    } catch (error) {
+      // A concurrent request may have created the user's first key meanwhile
+      const current = await UserDataKeyRepository.findLatestByUser(userId);
+      if (!current || !isCurrent(current)) {
+        throw error;
+      }
+      dataKey = current;
+    }
+
+    return { id: dataKey.id, key: this.unwrap(dataKey) };
+  }
+
+  /**
+   * Get the key a piece of a user's data was encrypted with
+   * @param dataKeyId - The key ID recorded with the data
+   * @param userId - The owner of the data
+   * @returns The data key
+   * @throws Error if the key does not exist or belongs to another user
+   */
+  async getKey(dataKeyId: string, userId: string): Promise<Buffer> {
+    const cached = this.getCached(dataKeyId);
+    if (cached && cached.userId === userId) {
+      return cached.key;
+    }
+
+    const dataKey = await UserDataKeyRepository.findById(dataKeyId);
+    if (!dataKey || dataKey.userId !== userId) {
+      throw new Error('Data key not found');
+    }
+
+    return this.unwrap(dataKey);
+  }
+
+  /**
+   * Destroy all of a user's data keys, making their encrypted data unrecoverable
+   * Other processes are told to drop their cached copies. If that message cannot be sent,
+   * Redis is down and they are not using their caches anyway.
+   * @param userId - The key owner
+   * @returns The number of keys destroyed
+   */
+  async destroyKeys(userId: string): Promise<number> {
+    const count = await UserDataKeyRepository.deleteByUser(userId);
+    this.forget(userId);
+
+    try {
+      await publish(DESTROYED_KEYS_CHANNEL, userId);
+    } catch (error) {
+      logger.warn('Failed to announce destroyed data keys', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return count;
+  }
+}
+
+export default new DataKeyService();
@@ -0,0 +1,82 @@
+import { EmailVerificationService } from './EmailVerificationService.js';
+import UserRepository from '../repositories/UserRepository.js';
+import AccountTokenService from './AccountTokenService.js';
+import { sendMail } from '../mail/mailer.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+
+// Mock dependencies
+jest.mock('../repositories/UserRepository.js');
+jest.mock('./AccountTokenService.js');
+jest.mock('../mail/mailer.js');
+jest.mock('../utils/audit.js');
+jest.mock('../utils/logger.js');
+
+describe('EmailVerificationService', () => {
+  let emailVerificationService: EmailVerificationService;
+
+  const mockUser = {
+    id: 'user-123',
+    email: 'user@example.com',
+    name: 'John Doe',
+    emailVerifiedAt: null,
+  };
+
+  beforeEach(() => {
+    emailVerificationService = new EmailVerificationService();
+    jest.clearAllMocks();
+  });
+
+  describe('sendVerification', () => {
+    it('should email a verification link', async () => {
+      (AccountTokenService.issue as jest.Mock).mockResolvedValue('verify-token');
+
+      await emailVerificationService.sendVerification(mockUser);
+
+      expect(AccountTokenService.issue).toHaveBeenCalledWith('user-123', 'email_verification', 86400);
+      const message = (sendMail as jest.Mock).mock.calls[0][0];
+      expect(message.to).toBe('user@example.com');
+      expect(message.text).toContain('/verify-email?token=verify-token');
+    });
+
+    it('should swallow delivery failures', async () => {
+      (AccountTokenService.issue as jest.Mock).mockResolvedValue('verify-token');
+      (sendMail as jest.Mock).mockRejectedValue(new Error('SMTP down'));
+
+      await expect(emailVerificationService.sendVerification(mockUser)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email as verified', async () => {
+      (AccountTokenService.redeem as jest.Mock).mockResolvedValue('user-123');
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mockUser);
+
+      await emailVerificationService.verifyEmail('verify-token');
+
+      expect(AccountTokenService.redeem).toHaveBeenCalledWith('verify-token', 'email_verification');
+      expect(UserRepository.update).toHaveBeenCalledWith('user-123', { emailVerifiedAt: expect.any(Date) });
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        AuditEventType.EMAIL_VERIFIED,
+        expect.objectContaining({ userId: 'user-123', success: true })
+      );
+    });
+
+    it('should leave an already verified user untouched', async () => {
+      (AccountTokenService.redeem as jest.Mock).mockResolvedValue('user-123');
+      (UserRepository.findById as jest.Mock).mockResolvedValue({ ...mockUser, emailVerifiedAt: new Date() });
+
+      await emailVerificationService.verifyEmail('verify-token');
+
+      expect(UserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid token', async () => {
+      (AccountTokenService.redeem as jest.Mock).mockRejectedValue(new Error('Invalid or expired token'));
+
+      await expect(emailVerificationService.verifyEmail('bad-token')).rejects.toThrow(
+        'Invalid or expired token'
+      );
+      expect(UserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { User } from '../types/index.js';
+import UserRepository from '../repositories/UserRepository.js';
+import AccountTokenService from './AccountTokenService.js';
+import { sendMail } from '../mail/mailer.js';
+import { emailVerificationEmail } from '../mail/templates.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+import logger from '../utils/logger.js';
+
+/**
+ * EmailVerificationService
+ * Confirms that users own the email address on their account
+ */
+
+const VERIFICATION_TOKEN_TTL_HOURS = 24;
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+export class EmailVerificationService {
+  /**
+   * Email a verification link to the user's current address
+   * Failures are logged and ignored so that a mail outage never blocks sign-up or profile updates
+   * @param user - The user to verify
+   */
+  async sendVerification(user: Pick<User, 'id' | 'email' | 'name'>): Promise<void> {
+    try {
+      const token = await AccountTokenService.issue(
+        user.id,
+        'email_verification',
+        VERIFICATION_TOKEN_TTL_HOURS * 60 * 60
+      );
+      const verifyUrl = `${FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+      await sendMail(emailVerificationEmail(user.email, user.name, verifyUrl, VERIFICATION_TOKEN_TTL_HOURS));
+    } catch (error) {
+      logger.error('Failed to send verification email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Mark the user's email address as verified
+   * @param token - The verification token from the email link
+   * @throws Error if the token is invalid, expired or already used
+   */
+  async verifyEmail(token: string): Promise<void> {
+    if (!token) {
+      throw new Error('Token is required');
+    }
+
+    const userId = await AccountTokenService.redeem(token, 'email_verification');
+
+    const user = await UserRepository.findById(userId);
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    if (user.emailVerifiedAt) {
+      return;
+    }
+
+    await UserRepository.update(user.id, { emailVerifiedAt: new Date() });
+
+    logAuditEvent(AuditEventType.EMAIL_VERIFIED, {
+      userId: user.id,
+      email: user.email,
+      success: true,
+    });
+  }
+}
+
+export default new EmailVerificationService();
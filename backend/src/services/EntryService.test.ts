@@ -1,8 +1,28 @@
+import { Readable } from 'stream';
 import { EntryService } from './EntryService.js';
 import EntryRepository from '../repositories/EntryRepository.js';
+import CustomMoodRepository from '../repositories/CustomMoodRepository.js';
+import TemplateRepository from '../repositories/TemplateRepository.js';
+import AttachmentRepository from '../repositories/AttachmentRepository.js';
+import InsightRepository from '../repositories/InsightRepository.js';
+import AttachmentService from './AttachmentService.js';
+import { EntryStatus } from '../types/index.js';
 
 // Mock dependencies
 jest.mock('../repositories/EntryRepository.js');
+jest.mock('../repositories/CustomMoodRepository.js');
+jest.mock('../repositories/TemplateRepository.js');
+jest.mock('../repositories/AttachmentRepository.js');
+jest.mock('../repositories/InsightRepository.js');
+jest.mock('./AttachmentService.js');
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
 
 describe('EntryService', () => {
   let entryService: EntryService;
@@ -12,6 +32,9 @@ describe('EntryService', () => {
   beforeEach(() => {
     entryService = new EntryService();
     jest.clearAllMocks();
+    (AttachmentService.getFilesForExport as jest.Mock).mockResolvedValue([]);
+    (AttachmentRepository.findStorageKeysByEntryId as jest.Mock).mockResolvedValue([]);
+    (InsightRepository.findByEntryIds as jest.Mock).mockResolvedValue([]);
   });
 
   describe('createEntry', () => {
@@ -44,7 +67,10 @@ describe('EntryService', () => {
         validCreateData.title,
         validCreateData.content,
         validCreateData.mood,
-        validCreateData.tags
+        validCreateData.tags,
+        EntryStatus.PUBLISHED,
+        undefined,
+        undefined
       );
     });
 
@@ -68,7 +94,7 @@ describe('EntryService', () => {
       const result = await entryService.createEntry(userId, createData);
 
       expect(result).toEqual(mockEntry);
-      expect(EntryRepository.create).toHaveBeenCalledWith(userId, createData.title, createData.content, undefined, undefined);
+      expect(EntryRepository.create).toHaveBeenCalledWith(userId, createData.title, createData.content, undefined, undefined, EntryStatus.PUBLISHED, undefined, undefined);
     });
 
     it('should reject creation with missing user ID', async () => {
@@ -170,7 +196,7 @@ describe('EntryService', () => {
 
       await entryService.createEntry(userId, createData);
 
-      expect(EntryRepository.create).toHaveBeenCalledWith(userId, 'My Entry', 'Entry content', undefined, undefined);
+      expect(EntryRepository.create).toHaveBeenCalledWith(userId, 'My Entry', 'Entry content', undefined, undefined, EntryStatus.PUBLISHED, undefined, undefined);
     });
 
     it('should lowercase mood value', async () => {
@@ -195,7 +221,27 @@ describe('EntryService', () => {
         createData.title,
         createData.content,
         'happy',
-        validCreateData.tags
+        validCreateData.tags,
+        EntryStatus.PUBLISHED,
+        undefined,
+        undefined
+      );
+    });
+
+    it('should normalize tags and drop duplicates', async () => {
+      (EntryRepository.create as jest.Mock).mockResolvedValue({ id: entryId });
+
+      await entryService.createEntry(userId, { ...validCreateData, tags: ['Work ', 'work', '  Family  Time'] });
+
+      expect(EntryRepository.create).toHaveBeenCalledWith(
+        userId,
+        validCreateData.title,
+        validCreateData.content,
+        validCreateData.mood,
+        ['work', 'family time'],
+        EntryStatus.PUBLISHED,
+        undefined,
+        undefined
       );
     });
 
@@ -288,7 +334,7 @@ describe('EntryService', () => {
       const result = await entryService.getUserEntries(userId);
 
       expect(result).toEqual(mockResponse);
-      expect(EntryRepository.findByUserId).toHaveBeenCalledWith(userId, 1, 10, 'createdAt', 'desc');
+      expect(EntryRepository.findByUserId).toHaveBeenCalledWith(userId, 1, 10, 'createdAt', 'desc', {});
     });
 
     it('should retrieve entries with custom pagination parameters', async () => {
@@ -305,7 +351,35 @@ describe('EntryService', () => {
       const result = await entryService.getUserEntries(userId, 2, 5, 'updatedAt', 'asc');
 
       expect(result).toEqual(mockResponse);
-      expect(EntryRepository.findByUserId).toHaveBeenCalledWith(userId, 2, 5, 'updatedAt', 'asc');
+      expect(EntryRepository.findByUserId).toHaveBeenCalledWith(userId, 2, 5, 'updatedAt', 'asc', {});
+    });
+
+    it('should pass normalized filters to the repository', async () => {
+      (EntryRepository.findByUserId as jest.Mock).mockResolvedValue({
+        data: [],
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0,
+      });
+
+      await entryService.getUserEntries(userId, 1, 10, 'createdAt', 'desc', {
+        moods: ['Happy'],
+        tags: [' Work '],
+        tagMode: 'all',
+        from: '2026-01-01',
+        timezone: 'Europe/Paris',
+        theme: 'Garden',
+      });
+
+      expect(EntryRepository.findByUserId).toHaveBeenCalledWith(userId, 1, 10, 'createdAt', 'desc', {
+        moods: ['happy'],
+        tags: ['work'],
+        tagMode: 'all',
+        from: '2026-01-01',
+        timezone: 'Europe/Paris',
+        theme: 'garden',
+      });
     });
 
     it('should reject retrieval with missing user ID', async () => {
@@ -337,6 +411,82 @@ describe('EntryService', () => {
     });
   });
 
+  describe('getUserEntriesFeed', () => {
+    it('should decode the cursor for the repository', async () => {
+      const position = { createdAt: new Date('2026-10-01T08:00:00.000Z'), id: 'entry-9' };
+      const cursor = Buffer.from(JSON.stringify([position.createdAt.toISOString(), position.id])).toString('base64url');
+      const mockFeed = { data: [], limit: 10, nextCursor: null, hasMore: false };
+
+      (EntryRepository.findByUserIdAfterCursor as jest.Mock).mockResolvedValue(mockFeed);
+
+      const result = await entryService.getUserEntriesFeed(userId, 10, 'desc', {}, cursor);
+
+      expect(result).toEqual(mockFeed);
+      expect(EntryRepository.findByUserIdAfterCursor).toHaveBeenCalledWith(userId, 10, 'desc', {}, position);
+    });
+
+    it('should start from the beginning without a cursor', async () => {
+      (EntryRepository.findByUserIdAfterCursor as jest.Mock).mockResolvedValue({
+        data: [],
+        limit: 10,
+        nextCursor: null,
+        hasMore: false,
+      });
+
+      await entryService.getUserEntriesFeed(userId);
+
+      expect(EntryRepository.findByUserIdAfterCursor).toHaveBeenCalledWith(userId, 10, 'desc', {}, null);
+    });
+
+    it('should reject an invalid cursor', async () => {
+      await expect(entryService.getUserEntriesFeed(userId, 10, 'desc', {}, 'garbage')).rejects.toThrow(
+        'Cursor must be a nextCursor returned by a previous page'
+      );
+      expect(EntryRepository.findByUserIdAfterCursor).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid limit', async () => {
+      await expect(entryService.getUserEntriesFeed(userId, 101)).rejects.toThrow('Limit must be between 1 and 100');
+    });
+  });
+
+  describe('searchEntries', () => {
+    it('should search with the trimmed query and pagination parameters', async () => {
+      const mockResponse = {
+        data: [],
+        total: 0,
+        page: 2,
+        limit: 5,
+        totalPages: 0,
+      };
+
+      (EntryRepository.search as jest.Mock).mockResolvedValue(mockResponse);
+
+      const result = await entryService.searchEntries(userId, '  morning walk ', 2, 5);
+
+      expect(result).toEqual(mockResponse);
+      expect(EntryRepository.search).toHaveBeenCalledWith(userId, 'morning walk', 2, 5);
+    });
+
+    it('should reject a missing query', async () => {
+      await expect(entryService.searchEntries(userId, '   ')).rejects.toThrow('Search query is required');
+      expect(EntryRepository.search).not.toHaveBeenCalled();
+    });
+
+    it('should reject a query longer than 200 characters', async () => {
+      await expect(entryService.searchEntries(userId, 'a'.repeat(201))).rejects.toThrow(
+        'Search query must be at most 200 characters'
+      );
+    });
+
+    it('should reject invalid pagination parameters', async () => {
+      await expect(entryService.searchEntries(userId, 'walk', 0)).rejects.toThrow('Page must be greater than 0');
+      await expect(entryService.searchEntries(userId, 'walk', 1, 101)).rejects.toThrow(
+        'Limit must be between 1 and 100'
+      );
+    });
+  });
+
   describe('updateEntry', () => {
     const validUpdateData = {
       title: 'Updated Title',
@@ -367,7 +517,7 @@ describe('EntryService', () => {
       const result = await entryService.updateEntry(entryId, userId, validUpdateData);
 
       expect(result).toEqual(updatedEntry);
-      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, validUpdateData);
+      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, validUpdateData, undefined);
     });
 
     it('should update only provided fields', async () => {
@@ -389,7 +539,16 @@ describe('EntryService', () => {
       const result = await entryService.updateEntry(entryId, userId, partialUpdate);
 
       expect(result).toEqual(updatedEntry);
-      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, partialUpdate);
+      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, partialUpdate, undefined);
+    });
+
+    it('should only update the versions the client edited', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId, version: 3 });
+      (EntryRepository.update as jest.Mock).mockResolvedValue({ id: entryId, userId, version: 4 });
+
+      await entryService.updateEntry(entryId, userId, { content: 'Edited' }, [3]);
+
+      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, { content: 'Edited' }, [3]);
     });
 
     it('should return existing entry if no updates provided', async () => {
@@ -481,6 +640,69 @@ describe('EntryService', () => {
       ).rejects.toThrow('Invalid mood value');
     });
 
+    it('should clear the mood', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId, mood: 'sad' });
+      (EntryRepository.update as jest.Mock).mockResolvedValue({ id: entryId, userId, mood: null });
+
+      await entryService.updateEntry(entryId, userId, { mood: null });
+
+      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, { mood: null }, undefined);
+    });
+
+    it('should accept every mood in the shared vocabulary', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId });
+      (EntryRepository.update as jest.Mock).mockResolvedValue({ id: entryId, userId });
+
+      await entryService.updateEntry(entryId, userId, { mood: 'Tired' });
+
+      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, { mood: 'tired' }, undefined);
+    });
+
+    it('should set the mood from the strongest emotion', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId, mood: 'sad' });
+      (EntryRepository.update as jest.Mock).mockResolvedValue({ id: entryId, userId });
+      (CustomMoodRepository.findByUserId as jest.Mock).mockResolvedValue([
+        { id: 'mood-1', userId, label: 'Homesick', emoji: null, baseMood: 'sad', valence: -0.4 },
+      ]);
+
+      await entryService.updateEntry(entryId, userId, {
+        emotions: [
+          { customMoodId: 'mood-1', intensity: 0.3 },
+          { mood: 'Calm', intensity: 0.8 },
+        ],
+      });
+
+      expect(EntryRepository.update).toHaveBeenCalledWith(
+        entryId,
+        userId,
+        {
+          mood: 'calm',
+          emotions: [
+            { mood: 'calm', customMoodId: null, intensity: 0.8 },
+            { mood: 'sad', customMoodId: 'mood-1', intensity: 0.3 },
+          ],
+        },
+        undefined
+      );
+    });
+
+    it('should clear the mood with the emotions', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId, mood: 'sad' });
+      (EntryRepository.update as jest.Mock).mockResolvedValue({ id: entryId, userId });
+
+      await entryService.updateEntry(entryId, userId, { emotions: [] });
+
+      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, { mood: null, emotions: [] }, undefined);
+    });
+
+    it('should reject a mood sent with emotions', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId });
+
+      await expect(
+        entryService.updateEntry(entryId, userId, { mood: 'happy', emotions: [{ mood: 'sad' }] })
+      ).rejects.toThrow('Mood must be left out when emotions are given');
+    });
+
     it('should reject update with invalid tags', async () => {
       const existingEntry = {
         id: entryId,
@@ -508,7 +730,7 @@ describe('EntryService', () => {
   });
 
   describe('deleteEntry', () => {
-    it('should successfully delete an entry', async () => {
+    it('should move an entry to the trash', async () => {
       const existingEntry = {
         id: entryId,
         userId,
@@ -519,12 +741,12 @@ describe('EntryService', () => {
       };
 
       (EntryRepository.findById as jest.Mock).mockResolvedValue(existingEntry);
-      (EntryRepository.delete as jest.Mock).mockResolvedValue(true);
+      (EntryRepository.moveToTrash as jest.Mock).mockResolvedValue(true);
 
       const result = await entryService.deleteEntry(entryId, userId);
 
       expect(result).toBe(true);
-      expect(EntryRepository.delete).toHaveBeenCalledWith(entryId, userId);
+      expect(EntryRepository.moveToTrash).toHaveBeenCalledWith(entryId, userId);
     });
 
     it('should reject deletion with missing entry ID', async () => {
@@ -568,7 +790,7 @@ describe('EntryService', () => {
       };
 
       (EntryRepository.findById as jest.Mock).mockResolvedValue(existingEntry);
-      (EntryRepository.delete as jest.Mock).mockRejectedValue(new Error('Database error'));
+      (EntryRepository.moveToTrash as jest.Mock).mockRejectedValue(new Error('Database error'));
 
       await expect(entryService.deleteEntry(entryId, userId)).rejects.toThrow('Database error');
     });
@@ -584,12 +806,450 @@ describe('EntryService', () => {
       };
 
       (EntryRepository.findById as jest.Mock).mockResolvedValue(existingEntry);
-      (EntryRepository.delete as jest.Mock).mockResolvedValue(false);
+      (EntryRepository.moveToTrash as jest.Mock).mockResolvedValue(false);
 
       await expect(entryService.deleteEntry(entryId, userId)).rejects.toThrow('Failed to delete entry');
     });
   });
 
+  describe('templates', () => {
+    const template = {
+      id: 'template_gratitude_list',
+      userId: null,
+      name: 'Gratitude list',
+      description: null,
+      sections: [
+        { key: 'grateful_for', label: 'Grateful for', type: 'list' },
+        { key: 'best_moment', label: 'Best moment', type: 'text' },
+      ],
+      createdAt: new Date('2026-01-01'),
+      updatedAt: new Date('2026-01-01'),
+    };
+    const fields = [
+      { key: 'grateful_for', label: 'Grateful for', type: 'list', value: ['Sunshine', 'Tea'] },
+      { key: 'best_moment', label: 'Best moment', type: 'text', value: 'Lunch with Sam' },
+    ];
+
+    it('should create an entry from a template without content', async () => {
+      (TemplateRepository.findById as jest.Mock).mockResolvedValue(template);
+      (EntryRepository.create as jest.Mock).mockResolvedValue({ id: entryId, userId });
+
+      await entryService.createEntry(userId, {
+        title: 'Thankful',
+        content: '',
+        templateId: template.id,
+        fields: { grateful_for: [' Sunshine ', 'Tea', ''], best_moment: 'Lunch with Sam' },
+      });
+
+      expect(EntryRepository.create).toHaveBeenCalledWith(
+        userId,
+        'Thankful',
+        '',
+        undefined,
+        undefined,
+        EntryStatus.PUBLISHED,
+        undefined,
+        { id: template.id, fields }
+      );
+    });
+
+    it('should still need content when no section is filled in', async () => {
+      (TemplateRepository.findById as jest.Mock).mockResolvedValue(template);
+
+      await expect(
+        entryService.createEntry(userId, { title: 'Blank', content: ' ', templateId: template.id, fields: {} })
+      ).rejects.toThrow('Content is required and cannot be empty');
+    });
+
+    it("should reject another user's template", async () => {
+      (TemplateRepository.findById as jest.Mock).mockResolvedValue({ ...template, userId: 'user-789' });
+
+      await expect(
+        entryService.createEntry(userId, { title: 'Mine', content: 'Notes', templateId: template.id })
+      ).rejects.toThrow('Template not found');
+      expect(EntryRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject fields without a template', async () => {
+      await expect(
+        entryService.createEntry(userId, { title: 'Loose', content: 'Notes', fields: { best_moment: 'Now' } })
+      ).rejects.toThrow('Fields must be sent with a templateId');
+    });
+
+    it('should keep the sections left out of an update', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId, content: '', fields });
+      (EntryRepository.update as jest.Mock).mockResolvedValue({ id: entryId });
+
+      await entryService.updateEntry(entryId, userId, { fields: { best_moment: 'Dinner' } });
+
+      expect(EntryRepository.update).toHaveBeenCalledWith(
+        entryId,
+        userId,
+        { fields: [fields[0], { ...fields[1], value: 'Dinner' }] },
+        undefined
+      );
+    });
+
+    it('should not clear every section of an entry without content', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId, content: '', fields });
+
+      await expect(
+        entryService.updateEntry(entryId, userId, { fields: { grateful_for: [], best_moment: null } })
+      ).rejects.toThrow('Content cannot be empty');
+      expect(EntryRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject fields for an entry not written from a template', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, userId, content: 'Notes' });
+
+      await expect(
+        entryService.updateEntry(entryId, userId, { fields: { best_moment: 'Now' } })
+      ).rejects.toThrow('Fields must only be sent for entries written from a template');
+    });
+  });
+
+  describe('emotions', () => {
+    it('should create an entry with several emotions', async () => {
+      (EntryRepository.create as jest.Mock).mockResolvedValue({ id: entryId, userId });
+
+      await entryService.createEntry(userId, {
+        title: 'Mixed',
+        content: 'Nervous but excited',
+        emotions: [{ mood: 'anxious', intensity: 0.5 }, { mood: 'excited' }],
+      });
+
+      expect(EntryRepository.create).toHaveBeenCalledWith(
+        userId,
+        'Mixed',
+        'Nervous but excited',
+        'excited',
+        undefined,
+        EntryStatus.PUBLISHED,
+        [
+          { mood: 'excited', customMoodId: null, intensity: 0.9 },
+          { mood: 'anxious', customMoodId: null, intensity: 0.5 },
+        ],
+        undefined
+      );
+      expect(CustomMoodRepository.findByUserId).not.toHaveBeenCalled();
+    });
+
+    it("should reject another user's custom mood", async () => {
+      (CustomMoodRepository.findByUserId as jest.Mock).mockResolvedValue([]);
+
+      await expect(
+        entryService.createEntry(userId, {
+          title: 'Mixed',
+          content: 'Text',
+          emotions: [{ customMoodId: 'someone-elses' }],
+        })
+      ).rejects.toThrow('Invalid emotion');
+      expect(EntryRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('drafts', () => {
+    it('should create a draft', async () => {
+      (EntryRepository.create as jest.Mock).mockResolvedValue({ id: entryId, status: EntryStatus.DRAFT });
+
+      await entryService.createEntry(userId, { title: 'Draft', content: 'Half a thought', status: EntryStatus.DRAFT });
+
+      expect(EntryRepository.create).toHaveBeenCalledWith(
+        userId,
+        'Draft',
+        'Half a thought',
+        undefined,
+        undefined,
+        EntryStatus.DRAFT,
+        undefined,
+        undefined
+      );
+    });
+
+    it('should reject an invalid status', async () => {
+      await expect(
+        entryService.createEntry(userId, { title: 'Draft', content: 'Text', status: 'HIDDEN' as EntryStatus })
+      ).rejects.toThrow('Invalid status value');
+    });
+
+    it('should publish a draft', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, status: EntryStatus.DRAFT });
+      (EntryRepository.update as jest.Mock).mockResolvedValue({ id: entryId, status: EntryStatus.PUBLISHED });
+
+      const result = await entryService.updateEntry(entryId, userId, { status: EntryStatus.PUBLISHED });
+
+      expect(EntryRepository.update).toHaveBeenCalledWith(
+        entryId,
+        userId,
+        { status: EntryStatus.PUBLISHED },
+        undefined
+      );
+      expect(result.status).toBe(EntryStatus.PUBLISHED);
+    });
+
+    it('should not turn a published entry back into a draft', async () => {
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId, status: EntryStatus.PUBLISHED });
+
+      await expect(
+        entryService.updateEntry(entryId, userId, { status: EntryStatus.DRAFT })
+      ).rejects.toThrow('Status must be PUBLISHED once an entry is published');
+      expect(EntryRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revisions', () => {
+    const revision = {
+      id: 'revision-1',
+      entryId,
+      revision: 1,
+      title: 'My Day',
+      content: 'Slept badly today',
+      mood: null,
+      tags: ['sleep'],
+      savedAt: new Date('2026-01-01T08:00:00Z'),
+      createdAt: new Date('2026-01-01T09:00:00Z'),
+    };
+
+    it('should list revisions of an owned entry', async () => {
+      (EntryRepository.findRevisions as jest.Mock).mockResolvedValue([revision]);
+
+      const result = await entryService.getRevisions(entryId, userId);
+
+      expect(result).toEqual([revision]);
+      expect(EntryRepository.findRevisions).toHaveBeenCalledWith(entryId, userId);
+    });
+
+    it('should reject listing revisions of an entry the user does not own', async () => {
+      (EntryRepository.findRevisions as jest.Mock).mockResolvedValue(null);
+
+      await expect(entryService.getRevisions(entryId, 'different-user')).rejects.toThrow(
+        'Entry not found or access denied'
+      );
+    });
+
+    it('should diff a revision against the current entry', async () => {
+      (EntryRepository.findRevision as jest.Mock).mockResolvedValue(revision);
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({
+        ...revision,
+        id: entryId,
+        content: 'Slept well today',
+      });
+
+      const result = await entryService.diffRevisions(entryId, userId, 1);
+
+      expect(result).toEqual({
+        from: 1,
+        to: 'current',
+        title: [{ type: 'equal', text: 'My Day' }],
+        content: [
+          { type: 'equal', text: 'Slept ' },
+          { type: 'delete', text: 'badly' },
+          { type: 'insert', text: 'well' },
+          { type: 'equal', text: ' today' },
+        ],
+      });
+    });
+
+    it('should diff two revisions', async () => {
+      (EntryRepository.findRevision as jest.Mock)
+        .mockResolvedValueOnce(revision)
+        .mockResolvedValueOnce({ ...revision, revision: 2, title: 'My Night' });
+
+      const result = await entryService.diffRevisions(entryId, userId, 1, 2);
+
+      expect(EntryRepository.findRevision).toHaveBeenCalledWith(entryId, userId, 2);
+      expect(EntryRepository.findById).not.toHaveBeenCalled();
+      expect(result.title).toEqual([
+        { type: 'equal', text: 'My ' },
+        { type: 'delete', text: 'Day' },
+        { type: 'insert', text: 'Night' },
+      ]);
+    });
+
+    it('should reject a diff with a missing revision', async () => {
+      (EntryRepository.findRevision as jest.Mock).mockResolvedValue(null);
+      (EntryRepository.findById as jest.Mock).mockResolvedValue({ id: entryId });
+
+      await expect(entryService.diffRevisions(entryId, userId, 9)).rejects.toThrow('Revision not found');
+    });
+
+    it('should restore a revision as the current version', async () => {
+      (EntryRepository.findRevision as jest.Mock).mockResolvedValue(revision);
+      (EntryRepository.update as jest.Mock).mockResolvedValue({ id: entryId });
+
+      await entryService.restoreRevision(entryId, userId, 1);
+
+      expect(EntryRepository.update).toHaveBeenCalledWith(entryId, userId, {
+        title: 'My Day',
+        content: 'Slept badly today',
+        mood: null,
+        tags: ['sleep'],
+        fields: null,
+      });
+    });
+
+    it('should reject restoring a missing revision', async () => {
+      (EntryRepository.findRevision as jest.Mock).mockResolvedValue(null);
+
+      await expect(entryService.restoreRevision(entryId, userId, 3)).rejects.toThrow('Revision not found');
+      expect(EntryRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportEntries', () => {
+    it('should include each entry\'s revisions in JSON exports', async () => {
+      (EntryRepository.findAllByUserId as jest.Mock).mockResolvedValue([
+        { id: 'entry-1', title: 'One', content: 'First', tags: [], createdAt: new Date() },
+        { id: 'entry-2', title: 'Two', content: 'Second', tags: [], createdAt: new Date() },
+      ]);
+      (EntryRepository.findAllRevisionsByUserId as jest.Mock).mockResolvedValue([
+        { id: 'revision-1', entryId: 'entry-1', revision: 1, title: 'One', content: 'Draft' },
+      ]);
+
+      const result = await entryService.exportEntries(userId, 'json');
+      const exported = JSON.parse((await readAll(result.stream)).toString('utf8'));
+
+      expect(exported[0].revisions).toHaveLength(1);
+      expect(exported[0].revisions[0].content).toBe('Draft');
+      expect(exported[1].revisions).toEqual([]);
+    });
+
+    it('should include attached files as base64 in JSON exports', async () => {
+      (EntryRepository.findAllByUserId as jest.Mock).mockResolvedValue([
+        { id: 'entry-1', title: 'One', content: 'First', tags: [], createdAt: new Date() },
+      ]);
+      (EntryRepository.findAllRevisionsByUserId as jest.Mock).mockResolvedValue([]);
+      (AttachmentService.getFilesForExport as jest.Mock).mockResolvedValue([
+        {
+          id: 'attachment-1',
+          entryId: 'entry-1',
+          fileName: 'notes.pdf',
+          contentType: 'application/pdf',
+          size: 9,
+          hasThumbnail: false,
+          createdAt: new Date(),
+          // Read in pieces that do not split evenly into base64
+          open: async () => Readable.from([Buffer.from('%PD'), Buffer.from('F-'), Buffer.from('1.7')]),
+        },
+      ]);
+
+      const result = await entryService.exportEntries(userId, 'json');
+      const exported = JSON.parse((await readAll(result.stream)).toString('utf8'));
+
+      expect(exported[0].attachments).toHaveLength(1);
+      expect(exported[0].attachments[0]).toMatchObject({
+        fileName: 'notes.pdf',
+        data: Buffer.from('%PDF-1.7').toString('base64'),
+      });
+    });
+
+    it('should list attached files in text exports', async () => {
+      (EntryRepository.findAllByUserId as jest.Mock).mockResolvedValue([
+        { id: 'entry-1', title: 'One', content: 'First', tags: [], createdAt: new Date() },
+      ]);
+      (EntryRepository.findAllRevisionsByUserId as jest.Mock).mockResolvedValue([]);
+      (AttachmentService.getFilesForExport as jest.Mock).mockResolvedValue([
+        {
+          id: 'attachment-1',
+          entryId: 'entry-1',
+          fileName: 'memo.m4a',
+          contentType: 'audio/mp4',
+          size: 2048,
+          hasThumbnail: false,
+          createdAt: new Date(),
+          open: async () => Readable.from([Buffer.alloc(2048)]),
+        },
+      ]);
+
+      const result = await entryService.exportEntries(userId, 'txt');
+
+      expect((await readAll(result.stream)).toString('utf8')).toContain('- memo.m4a (audio/mp4, 2.0 KB)');
+    });
+
+    it('should include each entry\'s insight in CSV exports', async () => {
+      (EntryRepository.findAllByUserId as jest.Mock).mockResolvedValue([
+        { id: 'entry-1', title: 'One', content: 'First', tags: ['work'], createdAt: new Date(), updatedAt: new Date() },
+      ]);
+      (EntryRepository.findAllRevisionsByUserId as jest.Mock).mockResolvedValue([]);
+      (InsightRepository.findByEntryIds as jest.Mock).mockResolvedValue([
+        { entryId: 'entry-1', summary: 'A steady start', themes: ['routine', 'work'] },
+      ]);
+
+      const result = await entryService.exportEntries(userId, 'csv');
+
+      expect(result.contentType).toBe('text/csv; charset=utf-8');
+      expect((await readAll(result.stream)).toString('utf8')).toContain(',A steady start,routine; work,');
+    });
+  });
+
+  describe('trash', () => {
+    it('should list trashed entries with when they will be purged', async () => {
+      const deletedAt = new Date('2026-01-01T00:00:00Z');
+      (EntryRepository.findTrashedByUserId as jest.Mock).mockResolvedValue({
+        data: [{ id: entryId, userId, title: 'Old', content: 'Gone', deletedAt }],
+        total: 1,
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+      });
+
+      const result = await entryService.getTrash(userId);
+
+      expect(EntryRepository.findTrashedByUserId).toHaveBeenCalledWith(userId, 1, 10);
+      expect(result.data[0].purgeAt).toEqual(new Date('2026-01-31T00:00:00Z'));
+    });
+
+    it('should reject invalid trash pagination', async () => {
+      await expect(entryService.getTrash(userId, 0)).rejects.toThrow('Page must be greater than 0');
+      await expect(entryService.getTrash(userId, 1, 101)).rejects.toThrow('Limit must be between 1 and 100');
+    });
+
+    it('should reject restoring an entry that is not in the trash', async () => {
+      (EntryRepository.restoreFromTrash as jest.Mock).mockResolvedValue(null);
+
+      await expect(entryService.restoreEntry(entryId, userId)).rejects.toThrow('Entry not found in trash');
+    });
+
+    it('should permanently delete an entry in the trash', async () => {
+      (EntryRepository.deletePermanently as jest.Mock).mockResolvedValue(true);
+
+      await entryService.deleteEntryPermanently(entryId, userId);
+
+      expect(EntryRepository.deletePermanently).toHaveBeenCalledWith(entryId, userId);
+    });
+
+    it('should delete the stored files of a permanently deleted entry', async () => {
+      (AttachmentRepository.findStorageKeysByEntryId as jest.Mock).mockResolvedValue(['attachments/a', 'attachments/a.thumb']);
+      (EntryRepository.deletePermanently as jest.Mock).mockResolvedValue(true);
+
+      await entryService.deleteEntryPermanently(entryId, userId);
+
+      expect(AttachmentService.deleteStoredFiles).toHaveBeenCalledWith(['attachments/a', 'attachments/a.thumb']);
+    });
+
+    it('should reject permanently deleting an entry that is not in the trash', async () => {
+      (EntryRepository.deletePermanently as jest.Mock).mockResolvedValue(false);
+
+      await expect(entryService.deleteEntryPermanently(entryId, userId)).rejects.toThrow(
+        'Entry not found in trash'
+      );
+      expect(AttachmentService.deleteStoredFiles).not.toHaveBeenCalled();
+    });
+
+    it('should purge entries trashed before the retention period in batches', async () => {
+      (EntryRepository.purgeTrashedBefore as jest.Mock)
+        .mockResolvedValueOnce(500)
+        .mockResolvedValueOnce(12);
+
+      const purged = await entryService.purgeExpiredTrash(new Date('2026-03-31T00:00:00Z'));
+
+      expect(purged).toBe(512);
+      expect(EntryRepository.purgeTrashedBefore).toHaveBeenCalledTimes(2);
+      expect(EntryRepository.purgeTrashedBefore).toHaveBeenCalledWith(new Date('2026-03-01T00:00:00Z'), 500);
+      expect(AttachmentService.purgeTrashedBefore).toHaveBeenCalledWith(new Date('2026-03-01T00:00:00Z'));
+    });
+  });
+
   describe('Integration: CRUD Operations', () => {
     it('should create, retrieve, update, and delete an entry', async () => {
       const createData = {
@@ -627,7 +1287,7 @@ describe('EntryService', () => {
 
       // Delete
       (EntryRepository.findById as jest.Mock).mockResolvedValue(updatedEntry);
-      (EntryRepository.delete as jest.Mock).mockResolvedValue(true);
+      (EntryRepository.moveToTrash as jest.Mock).mockResolvedValue(true);
       const deleted = await entryService.deleteEntry(entryId, userId);
       expect(deleted).toBe(true);
     });
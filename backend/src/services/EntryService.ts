@@ -1,21 +1,55 @@
 import {
   JournalEntry,
+  EntrySearchResult,
+  EntryFilters,
   CreateEntryRequest,
   UpdateEntryRequest,
   PaginatedResponse,
+  CursorPaginatedResponse,
+  EntryRevision,
+  EntryRevisionDiff,
+  TrashedEntry,
+  EntryStatus,
+  EntryEmotion,
+  EntryField,
+  AttachmentFile,
 } from '../types/index.js';
 import EntryRepository from '../repositories/EntryRepository.js';
 import UserRepository from '../repositories/UserRepository.js';
+import CustomMoodService from './CustomMoodService.js';
+import TemplateService from './TemplateService.js';
+import AttachmentService from './AttachmentService.js';
 import { enqueueEntryAnalysis } from '../queues/analysisQueue.js';
 import logger from '../utils/logger.js';
-import { exportAsJson, exportAsPdf, exportAsTxt, ExportResult } from '../utils/exportUtils.js';
+import { normalizeTag, normalizeTags } from '../utils/tags.js';
+import { buildEntryFields, entryText, hasFieldValues } from '../utils/templates.js';
+import {
+  exportAsCsv,
+  exportAsEpub,
+  exportAsHtml,
+  exportAsJson,
+  exportAsMarkdown,
+  exportAsPdf,
+  exportAsTxt,
+  ExportFormat,
+  ExportResult,
+} from '../utils/exportUtils.js';
 import InsightRepository from '../repositories/InsightRepository.js';
+import AttachmentRepository from '../repositories/AttachmentRepository.js';
+import { decodeEntryCursor } from '../utils/cursor.js';
+import { diffWords } from '../utils/wordDiff.js';
+import { isMood } from '../utils/moods.js';
 
 /**
  * EntryService
  * Handles journal entry management operations including CRUD operations with ownership verification
  */
 
+// Days an entry stays in the trash before it is permanently deleted
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 500;
+
 export class EntryService {
   /**
    * Validate entry title
@@ -42,8 +76,7 @@ export class EntryService {
    */
   private validateMood(mood?: string): boolean {
     if (!mood) return true; // mood is optional
-    const validMoods = ['happy', 'sad', 'anxious', 'calm', 'angry', 'neutral'];
-    return validMoods.includes(mood.toLowerCase());
+    return isMood(mood);
   }
 
   /**
@@ -57,6 +90,74 @@ export class EntryService {
     return tags.every((tag) => typeof tag === 'string' && tag.trim().length > 0);
   }
 
+  /**
+   * Validate entry status (if provided)
+   * @param status - The status to validate
+   * @returns True if status is valid, false otherwise
+   */
+  private validateStatus(status?: string): boolean {
+    if (status === undefined) return true; // status is optional
+    return status === EntryStatus.DRAFT || status === EntryStatus.PUBLISHED;
+  }
+
+  /**
+   * Queue AI analysis of a published entry, if the user has consented to it
+   * Failures are logged rather than failing the request
+   */
+  private async enqueueAnalysis(entry: JournalEntry, userId: string): Promise<void> {
+    if (process.env.NODE_ENV === 'test') {
+      return;
+    }
+
+    try {
+      const user = await UserRepository.findById(userId);
+      if (user?.aiConsent) {
+        await enqueueEntryAnalysis({
+          entryId: entry.id,
+          userId,
+          title: entry.title,
+          content: entryText(entry.content, entry.fields),
+        });
+      }
+    } catch (error) {
+      logger.warn('Failed to enqueue entry analysis job', {
+        entryId: entry.id,
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Normalize filters to match how entries are stored
+   * Moods and themes are stored in lowercase, and tags normalized, as entries are created
+   */
+  private normalizeFilters(filters: EntryFilters): EntryFilters {
+    return {
+      ...filters,
+      ...(filters.moods && { moods: filters.moods.map((mood) => mood.toLowerCase()) }),
+      ...(filters.tags && { tags: filters.tags.map(normalizeTag) }),
+      ...(filters.theme && { theme: filters.theme.trim().toLowerCase() }),
+    };
+  }
+
+  /**
+   * Add each entry's insight summary and themes
+   */
+  private async withInsights<T extends JournalEntry>(entries: T[]): Promise<T[]> {
+    const insights = await InsightRepository.findByEntryIds(entries.map((entry) => entry.id));
+    const insightMap = new Map(insights.map((insight) => [insight.entryId, insight]));
+
+    return entries.map((entry) => {
+      const insight = insightMap.get(entry.id);
+      return {
+        ...entry,
+        insight: insight?.summary,
+        insightThemes: insight?.themes,
+      };
+    });
+  }
+
   /**
    * Create a new journal entry with validation
    * @param userId - The user's ID
@@ -75,8 +176,18 @@ export class EntryService {
       throw new Error('Title is required and must be between 1 and 255 characters');
     }
 
-    // Validate content
-    if (!this.validateContent(createData.content)) {
+    // Fill the template's sections in
+    let template: { id: string; fields: EntryField[] } | undefined;
+    if (createData.templateId !== undefined) {
+      const found = await TemplateService.getTemplate(userId, createData.templateId);
+      template = { id: found.id, fields: buildEntryFields(found.sections, createData.fields ?? {}) };
+    } else if (createData.fields !== undefined) {
+      throw new Error('Fields must be sent with a templateId');
+    }
+
+    // Validate content; entries written from a template only need a section filled in
+    const content = createData.content ?? '';
+    if (!this.validateContent(content) && !hasFieldValues(template?.fields)) {
       throw new Error('Content is required and cannot be empty');
     }
 
@@ -85,38 +196,44 @@ export class EntryService {
       throw new Error('Invalid mood value');
     }
 
+    // The strongest emotion sets the mood
+    let mood = createData.mood?.toLowerCase();
+    let emotions: EntryEmotion[] | undefined;
+    if (createData.emotions !== undefined) {
+      if (createData.mood) {
+        throw new Error('Mood must be left out when emotions are given');
+      }
+      emotions = await CustomMoodService.resolveEmotions(userId, createData.emotions);
+      mood = emotions[0]?.mood;
+    }
+
     // Validate tags if provided
     if (createData.tags && !this.validateTags(createData.tags)) {
       throw new Error('Tags must be an array of non-empty strings');
     }
 
+    // Validate status if provided
+    if (!this.validateStatus(createData.status)) {
+      throw new Error('Invalid status value');
+    }
+
+    const status = createData.status ?? EntryStatus.PUBLISHED;
+
     // Create entry in repository
     const entry = await EntryRepository.create(
       userId,
       createData.title.trim(),
-      createData.content.trim(),
-      createData.mood?.toLowerCase(),
-      createData.tags?.map((tag) => tag.trim())
+      content.trim(),
+      mood,
+      createData.tags && normalizeTags(createData.tags),
+      status,
+      emotions,
+      template
     );
 
-    if (process.env.NODE_ENV !== 'test') {
-      try {
-        const user = await UserRepository.findById(userId);
-        if (user?.aiConsent) {
-          await enqueueEntryAnalysis({
-            entryId: entry.id,
-            userId,
-            title: entry.title,
-            content: entry.content,
-          });
-        }
-      } catch (error) {
-        logger.warn('Failed to enqueue entry analysis job', {
-          entryId: entry.id,
-          userId,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
+    // Drafts are analyzed once they are published
+    if (status === EntryStatus.PUBLISHED) {
+      await this.enqueueAnalysis(entry, userId);
     }
 
     return entry;
@@ -161,6 +278,7 @@ export class EntryService {
    * @param limit - The number of entries per page
    * @param sortBy - The field to sort by (default: createdAt)
    * @param order - The sort order (default: desc)
+   * @param filters - Optional mood, tag, date and insight filters
    * @returns Paginated list of journal entries
    * @throws Error if user ID is missing
    */
@@ -169,7 +287,8 @@ export class EntryService {
     page: number = 1,
     limit: number = 10,
     sortBy: 'createdAt' | 'updatedAt' = 'createdAt',
-    order: 'asc' | 'desc' = 'desc'
+    order: 'asc' | 'desc' = 'desc',
+    filters: EntryFilters = {}
   ): Promise<PaginatedResponse<JournalEntry>> {
     // Validate user ID
     if (!userId) {
@@ -186,20 +305,105 @@ export class EntryService {
     }
 
     // Fetch entries from repository
-    const result = await EntryRepository.findByUserId(userId, page, limit, sortBy, order);
-    const insights = await InsightRepository.findByEntryIds(result.data.map((entry) => entry.id));
-    const insightMap = new Map(insights.map((insight) => [insight.entryId, insight]));
+    const result = await EntryRepository.findByUserId(
+      userId,
+      page,
+      limit,
+      sortBy,
+      order,
+      this.normalizeFilters(filters)
+    );
 
     return {
       ...result,
-      data: result.data.map((entry) => {
-        const insight = insightMap.get(entry.id);
-        return {
-          ...entry,
-          insight: insight?.summary,
-          insightThemes: insight?.themes,
-        };
-      }),
+      data: await this.withInsights(result.data),
+    };
+  }
+
+  /**
+   * Get a page of a user's journal entries after a cursor, for feeds and infinite scroll
+   * @param userId - The user's ID
+   * @param limit - The number of entries per page
+   * @param order - The sort order by creation time (default: desc)
+   * @param filters - Optional mood, tag, date and insight filters
+   * @param cursor - The nextCursor of the previous page, or undefined for the first page
+   * @returns The page of journal entries, with the cursor for the next one
+   * @throws Error if user ID is missing or the cursor or limit is invalid
+   */
+  async getUserEntriesFeed(
+    userId: string,
+    limit: number = 10,
+    order: 'asc' | 'desc' = 'desc',
+    filters: EntryFilters = {},
+    cursor?: string
+  ): Promise<CursorPaginatedResponse<JournalEntry>> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if (limit < 1 || limit > 100) {
+      throw new Error('Limit must be between 1 and 100');
+    }
+
+    const position = cursor ? decodeEntryCursor(cursor) : null;
+    if (cursor && !position) {
+      throw new Error('Cursor must be a nextCursor returned by a previous page');
+    }
+
+    const result = await EntryRepository.findByUserIdAfterCursor(
+      userId,
+      limit,
+      order,
+      this.normalizeFilters(filters),
+      position
+    );
+
+    return {
+      ...result,
+      data: await this.withInsights(result.data),
+    };
+  }
+
+  /**
+   * Search a user's journal entries
+   * @param userId - The user's ID
+   * @param query - The search text
+   * @param page - The page number (1-indexed)
+   * @param limit - The number of entries per page
+   * @returns Paginated list of matching journal entries, most relevant first
+   * @throws Error if the query or pagination parameters are invalid
+   */
+  async searchEntries(
+    userId: string,
+    query: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<PaginatedResponse<EntrySearchResult>> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if (!query || query.trim().length === 0) {
+      throw new Error('Search query is required');
+    }
+
+    if (query.length > 200) {
+      throw new Error('Search query must be at most 200 characters');
+    }
+
+    if (page < 1) {
+      throw new Error('Page must be greater than 0');
+    }
+
+    if (limit < 1 || limit > 100) {
+      throw new Error('Limit must be between 1 and 100');
+    }
+
+    const result = await EntryRepository.search(userId, query.trim(), page, limit);
+
+    return {
+      ...result,
+      data: await this.withInsights(result.data),
     };
   }
 
@@ -208,13 +412,15 @@ export class EntryService {
    * @param entryId - The entry's ID
    * @param userId - The user's ID (for ownership verification)
    * @param updateData - The data to update
+   * @param expectedVersions - Versions the client edited, from If-Match; leave out to update any version
    * @returns The updated journal entry
-   * @throws Error if entry not found, access denied, or validation fails
+   * @throws Error if entry not found, access denied, validation fails, or the entry is at another version
    */
   async updateEntry(
     entryId: string,
     userId: string,
-    updateData: UpdateEntryRequest
+    updateData: UpdateEntryRequest,
+    expectedVersions?: number[]
   ): Promise<JournalEntry> {
     // Validate inputs
     if (!entryId) {
@@ -235,8 +441,11 @@ export class EntryService {
     const updatePayload: {
       title?: string;
       content?: string;
-      mood?: string;
+      mood?: string | null;
+      emotions?: EntryEmotion[];
+      fields?: EntryField[];
       tags?: string[];
+      status?: EntryStatus;
     } = {};
 
     if (updateData.title !== undefined) {
@@ -246,25 +455,60 @@ export class EntryService {
       updatePayload.title = updateData.title.trim();
     }
 
+    // Sections left out keep their values
+    if (updateData.fields !== undefined) {
+      if (!entry.fields?.length) {
+        throw new Error('Fields must only be sent for entries written from a template');
+      }
+      const values = updateData.fields;
+      const given = buildEntryFields(entry.fields, values);
+      updatePayload.fields = entry.fields.map((field, index) => (field.key in values ? given[index] : field));
+    }
+
+    // Entries written from a template may have empty content while a section is filled in
+    const hasFields = hasFieldValues(updatePayload.fields ?? entry.fields);
     if (updateData.content !== undefined) {
-      if (!this.validateContent(updateData.content)) {
+      if (!this.validateContent(updateData.content) && !hasFields) {
         throw new Error('Content cannot be empty');
       }
       updatePayload.content = updateData.content.trim();
+    } else if (updatePayload.fields && !hasFields && !this.validateContent(entry.content)) {
+      throw new Error('Content cannot be empty');
     }
 
-    if (updateData.mood !== undefined) {
+    if (updateData.mood === null) {
+      updatePayload.mood = null;
+    } else if (updateData.mood !== undefined) {
       if (!this.validateMood(updateData.mood)) {
         throw new Error('Invalid mood value');
       }
       updatePayload.mood = updateData.mood.toLowerCase();
     }
 
+    // The strongest emotion sets the mood
+    if (updateData.emotions !== undefined) {
+      if (updateData.mood !== undefined) {
+        throw new Error('Mood must be left out when emotions are given');
+      }
+      updatePayload.emotions = await CustomMoodService.resolveEmotions(userId, updateData.emotions);
+      updatePayload.mood = updatePayload.emotions[0]?.mood ?? null;
+    }
+
     if (updateData.tags !== undefined) {
       if (!this.validateTags(updateData.tags)) {
         throw new Error('Tags must be an array of non-empty strings');
       }
-      updatePayload.tags = updateData.tags.map((tag) => tag.trim());
+      updatePayload.tags = normalizeTags(updateData.tags);
+    }
+
+    if (updateData.status !== undefined) {
+      if (!this.validateStatus(updateData.status)) {
+        throw new Error('Invalid status value');
+      }
+      if (updateData.status === EntryStatus.DRAFT && entry.status === EntryStatus.PUBLISHED) {
+        throw new Error('Status must be PUBLISHED once an entry is published');
+      }
+      updatePayload.status = updateData.status;
     }
 
     // If no valid updates, return current entry
@@ -273,11 +517,113 @@ export class EntryService {
     }
 
     // Update entry in repository
-    const updatedEntry = await EntryRepository.update(entryId, userId, updatePayload);
+    const updatedEntry = await EntryRepository.update(entryId, userId, updatePayload, expectedVersions);
+
+    if (entry.status === EntryStatus.DRAFT && updatedEntry.status === EntryStatus.PUBLISHED) {
+      await this.enqueueAnalysis(updatedEntry, userId);
+    }
 
     return updatedEntry;
   }
 
+  /**
+   * Get an entry's earlier versions with ownership verification
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @returns The revisions, newest first
+   * @throws Error if entry not found or access denied
+   */
+  async getRevisions(entryId: string, userId: string): Promise<EntryRevision[]> {
+    if (!entryId) {
+      throw new Error('Entry ID is required');
+    }
+
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const revisions = await EntryRepository.findRevisions(entryId, userId);
+    if (!revisions) {
+      throw new Error('Entry not found or access denied');
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Compare two versions of an entry word by word
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @param from - The earlier revision number
+   * @param to - The later revision number, or 'current' for the entry as it is now
+   * @returns The changes to the title and content
+   * @throws Error if the entry or either revision is not found
+   */
+  async diffRevisions(
+    entryId: string,
+    userId: string,
+    from: number,
+    to: number | 'current' = 'current'
+  ): Promise<EntryRevisionDiff> {
+    if (!entryId) {
+      throw new Error('Entry ID is required');
+    }
+
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const [before, after] = await Promise.all([
+      EntryRepository.findRevision(entryId, userId, from),
+      to === 'current'
+        ? EntryRepository.findById(entryId, userId)
+        : EntryRepository.findRevision(entryId, userId, to),
+    ]);
+
+    if (!before || !after) {
+      throw new Error('Revision not found');
+    }
+
+    return {
+      from,
+      to,
+      title: diffWords(before.title, after.title),
+      content: diffWords(before.content, after.content),
+    };
+  }
+
+  /**
+   * Make an earlier version of an entry its current version
+   * The version being replaced is kept as a new revision, so a restore can be undone
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @param revision - The revision number to restore
+   * @returns The updated journal entry
+   * @throws Error if the entry or revision is not found
+   */
+  async restoreRevision(entryId: string, userId: string, revision: number): Promise<JournalEntry> {
+    if (!entryId) {
+      throw new Error('Entry ID is required');
+    }
+
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const restored = await EntryRepository.findRevision(entryId, userId, revision);
+    if (!restored) {
+      throw new Error('Revision not found');
+    }
+
+    return EntryRepository.update(entryId, userId, {
+      title: restored.title,
+      content: restored.content,
+      mood: restored.mood ?? null,
+      fields: restored.fields ?? null,
+      tags: normalizeTags(restored.tags),
+    });
+  }
+
   /**
    * Delete a journal entry with ownership verification
    * @param entryId - The entry's ID
@@ -301,8 +647,8 @@ export class EntryService {
       throw new Error('Entry not found or access denied');
     }
 
-    // Delete entry from repository
-    const deleted = await EntryRepository.delete(entryId, userId);
+    // Move the entry to the trash, where it stays until the retention period has passed
+    const deleted = await EntryRepository.moveToTrash(entryId, userId);
 
     if (!deleted) {
       throw new Error('Failed to delete entry');
@@ -312,14 +658,144 @@ export class EntryService {
   }
 
   /**
-   * Export all entries for a user
+   * Get a page of a user's entries in the trash, most recently deleted first
+   * @param userId - The user's ID
+   * @param page - The page number (1-indexed)
+   * @param limit - The number of entries per page
+   * @returns Paginated list of trashed entries, each with when it will be permanently deleted
+   * @throws Error if user ID is missing or pagination is invalid
+   */
+  async getTrash(userId: string, page: number = 1, limit: number = 10): Promise<PaginatedResponse<TrashedEntry>> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if (page < 1) {
+      throw new Error('Page must be greater than 0');
+    }
+
+    if (limit < 1 || limit > 100) {
+      throw new Error('Limit must be between 1 and 100');
+    }
+
+    const result = await EntryRepository.findTrashedByUserId(userId, page, limit);
+
+    return {
+      ...result,
+      data: result.data.map((entry) => {
+        const deletedAt = new Date(entry.deletedAt as Date);
+        return {
+          ...entry,
+          deletedAt,
+          purgeAt: new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Take an entry out of the trash
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @returns The restored journal entry
+   * @throws Error if the entry is not in the user's trash
    */
-  async exportEntries(userId: string, format: 'pdf' | 'json' | 'txt'): Promise<ExportResult> {
+  async restoreEntry(entryId: string, userId: string): Promise<JournalEntry> {
+    if (!entryId) {
+      throw new Error('Entry ID is required');
+    }
+
     if (!userId) {
       throw new Error('User ID is required');
     }
 
-    const entries = await EntryRepository.findAllByUserId(userId);
+    const entry = await EntryRepository.restoreFromTrash(entryId, userId);
+    if (!entry) {
+      throw new Error('Entry not found in trash');
+    }
+
+    const [withInsight] = await this.withInsights([entry]);
+    return withInsight;
+  }
+
+  /**
+   * Permanently delete an entry in the trash without waiting for the retention period
+   * @param entryId - The entry's ID
+   * @param userId - The user's ID (for ownership verification)
+   * @throws Error if the entry is not in the user's trash
+   */
+  async deleteEntryPermanently(entryId: string, userId: string): Promise<void> {
+    if (!entryId) {
+      throw new Error('Entry ID is required');
+    }
+
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    // Read first, since the entry's attachments are deleted with it
+    const storageKeys = await AttachmentRepository.findStorageKeysByEntryId(entryId, userId);
+    if (!(await EntryRepository.deletePermanently(entryId, userId))) {
+      throw new Error('Entry not found in trash');
+    }
+
+    await AttachmentService.deleteStoredFiles(storageKeys);
+  }
+
+  /**
+   * Permanently delete every entry that has been in the trash longer than the retention period
+   * Run on a schedule by the worker
+   * @param now - The current time
+   * @returns The number of entries purged
+   */
+  async purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+
+    // Attachments go first, while the stored files they point to are still known
+    await AttachmentService.purgeTrashedBefore(cutoff);
+
+    let purged = 0;
+    for (;;) {
+      const count = await EntryRepository.purgeTrashedBefore(cutoff, PURGE_BATCH_SIZE);
+      purged += count;
+      if (count < PURGE_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('Purged expired entries from trash', { purged, cutoff: cutoff.toISOString() });
+    }
+
+    return purged;
+  }
+
+  /**
+   * Export all entries for a user, with their insights, revisions and attached files
+   */
+  async exportEntries(userId: string, format: ExportFormat): Promise<ExportResult> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const [entries, revisions, attachments] = await Promise.all([
+      EntryRepository.findAllByUserId(userId).then((found) => this.withInsights(found)),
+      EntryRepository.findAllRevisionsByUserId(userId),
+      AttachmentService.getFilesForExport(userId),
+    ]);
+
+    const revisionsByEntry = new Map<string, EntryRevision[]>();
+    for (const revision of revisions) {
+      revisionsByEntry.set(revision.entryId, [...(revisionsByEntry.get(revision.entryId) || []), revision]);
+    }
+    const attachmentsByEntry = new Map<string, AttachmentFile[]>();
+    for (const attachment of attachments) {
+      attachmentsByEntry.set(attachment.entryId, [...(attachmentsByEntry.get(attachment.entryId) || []), attachment]);
+    }
+    for (const entry of entries) {
+      entry.revisions = revisionsByEntry.get(entry.id) || [];
+      entry.attachments = attachmentsByEntry.get(entry.id) || [];
+    }
 
     switch (format) {
       case 'pdf':
@@ -328,6 +804,14 @@ export class EntryService {
         return exportAsTxt(entries);
       case 'json':
         return exportAsJson(entries);
+      case 'markdown':
+        return exportAsMarkdown(entries);
+      case 'csv':
+        return exportAsCsv(entries);
+      case 'html':
+        return exportAsHtml(entries);
+      case 'epub':
+        return exportAsEpub(entries);
       default:
         throw new Error('Unsupported export format');
     }
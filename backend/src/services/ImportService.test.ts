@@ -0,0 +1,327 @@
+import { Readable } from 'stream';
+import { ImportService } from './ImportService.js';
+import ImportRepository from '../repositories/ImportRepository.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import CustomMoodRepository from '../repositories/CustomMoodRepository.js';
+import AttachmentService from './AttachmentService.js';
+import { enqueueImport } from '../queues/importQueue.js';
+import { getStorageDriver } from '../storage/storage.js';
+import { decryptFile, encryptFile, generateFileKey } from '../utils/encryption.js';
+import { EntryImport, EntryStatus, ImportFormat, ImportStatus } from '../types/index.js';
+
+// Mock dependencies
+jest.mock('../repositories/ImportRepository.js');
+jest.mock('../repositories/EntryRepository.js');
+jest.mock('../repositories/CustomMoodRepository.js');
+jest.mock('./TemplateService.js');
+jest.mock('./AttachmentService.js');
+jest.mock('../queues/importQueue.js');
+jest.mock('../storage/storage.js');
+jest.mock('../utils/env.js', () => ({
+  getEnvConfig: () => ({ attachments: { maxBytes: 1024 * 1024 } }),
+}));
+jest.mock('../utils/logger.js', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+describe('ImportService', () => {
+  let importService: ImportService;
+  const userId = 'user-123';
+
+  // An in-memory storage backend
+  let stored: Map<string, Buffer>;
+  const storage = {
+    put: jest.fn(async (key: string, data: Buffer) => {
+      stored.set(key, data);
+    }),
+    get: jest.fn(async (key: string) => Readable.from([stored.get(key)!])),
+    delete: jest.fn(async (key: string) => {
+      stored.delete(key);
+    }),
+  };
+
+  let entryImport: EntryImport;
+
+  const createImport = (overrides: Partial<EntryImport> = {}): EntryImport => ({
+    id: 'import-1',
+    userId,
+    format: ImportFormat.JSON,
+    dryRun: false,
+    status: ImportStatus.PENDING,
+    rowsTotal: 0,
+    rowsProcessed: 0,
+    imported: 0,
+    duplicates: 0,
+    failed: 0,
+    issues: [],
+    preview: [],
+    error: null,
+    startedAt: null,
+    completedAt: null,
+    createdAt: new Date('2026-10-18T00:00:00Z'),
+    updatedAt: new Date('2026-10-18T00:00:00Z'),
+    ...overrides,
+  });
+
+  /**
+   * Store a file as an upload of the current import
+   */
+  function upload(contents: unknown) {
+    const fileKey = generateFileKey();
+    const encrypted = encryptFile(Buffer.from(JSON.stringify(contents)), fileKey);
+    stored.set('imports/user-123/file', encrypted.data);
+    (ImportRepository.findUpload as jest.Mock).mockResolvedValue({
+      storageKey: 'imports/user-123/file',
+      fileKey,
+      fileIv: encrypted.iv,
+    });
+  }
+
+  beforeEach(() => {
+    importService = new ImportService();
+    jest.clearAllMocks();
+    stored = new Map();
+    entryImport = createImport();
+
+    (getStorageDriver as jest.Mock).mockReturnValue(storage);
+    (ImportRepository.hasUnfinished as jest.Mock).mockResolvedValue(false);
+    (ImportRepository.create as jest.Mock).mockImplementation(async (data) => createImport({ format: data.format, dryRun: data.dryRun }));
+    (ImportRepository.findById as jest.Mock).mockImplementation(async () => entryImport);
+    (ImportRepository.claim as jest.Mock).mockResolvedValue(true);
+    (ImportRepository.clearUpload as jest.Mock).mockResolvedValue('imports/user-123/file');
+    // Updates apply to the stored import, with the report replacing the previous one
+    (ImportRepository.update as jest.Mock).mockImplementation(async (_id, data) => {
+      const { report, ...fields } = data;
+      entryImport = { ...entryImport, ...fields, ...(report && { issues: report.issues, preview: report.preview }) };
+      return entryImport;
+    });
+    (EntryRepository.findAllByUserId as jest.Mock).mockResolvedValue([]);
+    (EntryRepository.findAllTrashedByUserId as jest.Mock).mockResolvedValue([]);
+    (EntryRepository.create as jest.Mock).mockImplementation(async (...args) => ({ id: `entry-${args[1]}` }));
+    (CustomMoodRepository.findByUserId as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('startImport', () => {
+    const file = { originalName: 'export.json', contentType: 'application/json', data: Buffer.from('[]') };
+
+    it('should store the file encrypted and queue the import', async () => {
+      const result = await importService.startImport(userId, 'json', true, file);
+
+      const [storageKey, data] = storage.put.mock.calls[0];
+      const { fileKey, fileIv } = (ImportRepository.create as jest.Mock).mock.calls[0][0];
+      expect(storageKey).toMatch(/^imports\/user-123\/[0-9a-f-]{36}$/);
+      expect(data.equals(file.data)).toBe(false);
+      expect((await decryptFile(data, fileKey, fileIv)).toString()).toBe('[]');
+      expect(ImportRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, format: ImportFormat.JSON, dryRun: true, storageKey })
+      );
+      expect(enqueueImport).toHaveBeenCalledWith({ importId: 'import-1' });
+      expect(result.percentComplete).toBe(0);
+    });
+
+    it('should reject an unknown format or a missing file', async () => {
+      await expect(importService.startImport(userId, 'xml', false, file)).rejects.toThrow(
+        'Format must be one of: json, markdown, csv, dayone'
+      );
+      await expect(importService.startImport(userId, 'csv', false, undefined)).rejects.toThrow(
+        'File is required and cannot be empty'
+      );
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second import while one is unfinished', async () => {
+      (ImportRepository.hasUnfinished as jest.Mock).mockResolvedValue(true);
+
+      await expect(importService.startImport(userId, 'json', false, file)).rejects.toThrow(
+        'An import is already in progress'
+      );
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runImport', () => {
+    it('should create entries with their original dates and delete the file', async () => {
+      upload([
+        {
+          title: 'Morning',
+          content: 'Went running',
+          mood: 'happy',
+          tags: ['Health', 'health'],
+          status: 'DRAFT',
+          createdAt: '2024-01-31T07:00:00.000Z',
+          updatedAt: '2024-01-31T08:00:00.000Z',
+        },
+      ]);
+
+      const result = await importService.runImport('import-1');
+
+      expect(EntryRepository.create).toHaveBeenCalledWith(
+        userId,
+        'Morning',
+        'Went running',
+        'happy',
+        ['health'],
+        EntryStatus.DRAFT,
+        undefined,
+        undefined,
+        { createdAt: new Date('2024-01-31T07:00:00.000Z'), updatedAt: new Date('2024-01-31T08:00:00.000Z') }
+      );
+      expect(result).toMatchObject({ status: ImportStatus.COMPLETED, rowsTotal: 1, imported: 1, percentComplete: 100 });
+      expect(stored.size).toBe(0);
+    });
+
+    it('should skip rows matching an existing entry or an earlier row', async () => {
+      (EntryRepository.findAllByUserId as jest.Mock).mockResolvedValue([
+        { id: 'existing-1', content: 'Went  running', fields: null, createdAt: new Date('2024-01-31T20:00:00Z') },
+      ]);
+      upload([
+        { content: 'went running', createdAt: '2024-01-31T07:00:00Z' },
+        { content: 'Rest day', createdAt: '2024-02-01T07:00:00Z' },
+        { content: 'Rest day', createdAt: '2024-02-01T21:00:00Z' },
+        { content: 'Rest day', createdAt: '2024-02-02T07:00:00Z' },
+      ]);
+
+      const result = await importService.runImport('import-1');
+
+      expect(EntryRepository.create).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ imported: 2, duplicates: 2, failed: 0 });
+      expect(result.issues).toEqual([
+        { row: 1, type: 'duplicate', entryId: 'existing-1', message: expect.stringContaining('already exists') },
+        { row: 3, type: 'duplicate', entryId: 'entry-Rest day', message: 'Same day and text as row 2' },
+      ]);
+    });
+
+    it('should skip rows matching an entry in the trash', async () => {
+      (EntryRepository.findAllTrashedByUserId as jest.Mock).mockResolvedValue([
+        { id: 'trashed-1', content: 'Went running', fields: null, createdAt: new Date('2024-01-31T20:00:00Z') },
+      ]);
+      upload([{ content: 'Went running', createdAt: '2024-01-31T07:00:00Z' }]);
+
+      const result = await importService.runImport('import-1');
+
+      expect(EntryRepository.create).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ imported: 0, duplicates: 1 });
+      expect(result.issues).toEqual([
+        { row: 1, type: 'duplicate', entryId: 'trashed-1', message: expect.stringContaining('in the trash') },
+      ]);
+    });
+
+    it('should report rows that cannot be imported and keep going', async () => {
+      upload([
+        { content: '', createdAt: '2024-01-31T07:00:00Z' },
+        { content: 'Bad date', createdAt: 'yesterday' },
+        'not an entry',
+        { content: 'Fine', mood: 'meh', createdAt: '2024-01-31T07:00:00Z' },
+      ]);
+
+      const result = await importService.runImport('import-1');
+
+      expect(result).toMatchObject({ status: ImportStatus.COMPLETED, imported: 1, failed: 3 });
+      expect(result.issues).toEqual([
+        { row: 1, type: 'failed', message: 'Content is required and cannot be empty' },
+        { row: 2, type: 'failed', message: 'Invalid date: yesterday' },
+        { row: 3, type: 'failed', message: 'Row is not an entry' },
+        { row: 4, type: 'warning', entryId: 'entry-Fine', message: expect.stringContaining('Mood "meh"') },
+      ]);
+      expect(EntryRepository.create).toHaveBeenCalledWith(
+        userId, 'Fine', 'Fine', undefined, [], EntryStatus.PUBLISHED, undefined, undefined, expect.any(Object)
+      );
+    });
+
+    it('should match a mood to a custom mood by its label', async () => {
+      (CustomMoodRepository.findByUserId as jest.Mock).mockResolvedValue([
+        { id: 'custom-1', userId, label: 'Cozy', emoji: null, baseMood: 'content', valence: 0.6 },
+      ]);
+      upload([{ title: 'Evening', content: 'Tea and a book', mood: 'cozy', createdAt: '2024-01-31T20:00:00Z' }]);
+
+      await importService.runImport('import-1');
+
+      const args = (EntryRepository.create as jest.Mock).mock.calls[0];
+      expect(args[3]).toBe('content');
+      expect(args[6]).toEqual([expect.objectContaining({ mood: 'content', customMoodId: 'custom-1' })]);
+    });
+
+    it('should attach files and turn rejected ones into warnings', async () => {
+      (AttachmentService.uploadAttachment as jest.Mock).mockRejectedValueOnce(new Error('Storage unavailable'));
+      upload([
+        {
+          title: 'Scans',
+          content: 'Two scans',
+          createdAt: '2024-01-31T07:00:00Z',
+          attachments: [
+            { fileName: 'a.pdf', contentType: 'application/pdf', data: Buffer.from('%PDF-1.7 a').toString('base64') },
+            { fileName: 'b.pdf', contentType: 'application/pdf', data: Buffer.from('not a pdf').toString('base64') },
+          ],
+        },
+      ]);
+
+      const result = await importService.runImport('import-1');
+
+      expect(AttachmentService.uploadAttachment).toHaveBeenCalledTimes(1);
+      expect(result.issues.map((issue) => issue.message)).toEqual([
+        'Attachment b.pdf was left out: its contents are not application/pdf',
+        'Attachment a.pdf was left out: Storage unavailable',
+      ]);
+    });
+
+    it('should only preview the entries in a dry run', async () => {
+      entryImport = createImport({ dryRun: true });
+      upload([
+        { title: 'Morning', content: 'Went running', tags: ['health'], createdAt: '2024-01-31T07:00:00Z' },
+        { title: 'Again', content: 'Went running', createdAt: '2024-01-31T09:00:00Z' },
+      ]);
+
+      const result = await importService.runImport('import-1');
+
+      expect(EntryRepository.create).not.toHaveBeenCalled();
+      expect(AttachmentService.uploadAttachment).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ imported: 1, duplicates: 1 });
+      expect(result.preview).toEqual([
+        { row: 1, title: 'Morning', createdAt: new Date('2024-01-31T07:00:00Z'), mood: undefined, tags: ['health'], attachments: 0 },
+      ]);
+    });
+
+    it('should resume after the rows an earlier attempt processed', async () => {
+      entryImport = createImport({ status: ImportStatus.FAILED, rowsTotal: 2, rowsProcessed: 1, imported: 1 });
+      upload([
+        { content: 'Went running', createdAt: '2024-01-31T07:00:00Z' },
+        { content: 'Went running', createdAt: '2024-01-31T09:00:00Z' },
+      ]);
+      const onProgress = jest.fn();
+
+      const result = await importService.runImport('import-1', onProgress);
+
+      expect(EntryRepository.create).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ rowsProcessed: 2, imported: 1, duplicates: 1 });
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ rowsProcessed: 2, percentComplete: 99 }));
+    });
+
+    it('should fail without retrying a file that cannot be read', async () => {
+      upload({ notEntries: true });
+
+      const result = await importService.runImport('import-1');
+
+      expect(result).toMatchObject({
+        status: ImportStatus.FAILED,
+        error: 'Invalid import file: expected a list of entries',
+      });
+      expect(stored.size).toBe(0);
+    });
+
+    it('should record other errors and throw them so the job is retried', async () => {
+      upload([{ content: 'Went running', createdAt: '2024-01-31T07:00:00Z' }]);
+      (EntryRepository.create as jest.Mock).mockRejectedValue(new Error('Failed to create entry: connection lost'));
+
+      await expect(importService.runImport('import-1')).rejects.toThrow('connection lost');
+      expect(entryImport).toMatchObject({ status: ImportStatus.FAILED, error: 'Failed to create entry: connection lost' });
+      expect(stored.size).toBe(1);
+    });
+
+    it('should not run an import that is running elsewhere', async () => {
+      (ImportRepository.claim as jest.Mock).mockResolvedValue(false);
+
+      await expect(importService.runImport('import-1')).rejects.toThrow('Import is already running');
+    });
+  });
+});
@@ -0,0 +1,688 @@
+import crypto from 'crypto';
+import {
+  CustomMood,
+  EntryEmotion,
+  EntryEmotionInput,
+  EntryField,
+  EntryImport,
+  EntryImportProgress,
+  EntryStatus,
+  ImportFormat,
+  ImportIssue,
+  ImportStatus,
+  TemplateSection,
+} from '../types/index.js';
+import ImportRepository, { ImportReport, ImportUpload } from '../repositories/ImportRepository.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import CustomMoodRepository from '../repositories/CustomMoodRepository.js';
+import CustomMoodService from './CustomMoodService.js';
+import TemplateService from './TemplateService.js';
+import AttachmentService, { UploadedFile } from './AttachmentService.js';
+import { enqueueImport } from '../queues/importQueue.js';
+import { getStorageDriver } from '../storage/storage.js';
+import { decryptFile, encryptFile, generateFileKey } from '../utils/encryption.js';
+import { ImportedAttachment, ImportedEntry, ImportRow, readImportFile } from '../utils/importFormats.js';
+import {
+  ALLOWED_CONTENT_TYPES,
+  MAX_ATTACHMENTS_PER_ENTRY,
+  matchesContentType,
+  normalizeContentType,
+} from '../utils/attachments.js';
+import { buildEntryFields, entryText, hasFieldValues } from '../utils/templates.js';
+import { normalizeTags } from '../utils/tags.js';
+import { getMood } from '../utils/moods.js';
+import { getEnvConfig } from '../utils/env.js';
+import logger from '../utils/logger.js';
+
+/**
+ * ImportService
+ * Imports entries from MicroCare JSON exports, zips of Markdown files, CSV files and
+ * Day One exports. The uploaded file is stored encrypted and processed by the worker in
+ * batches, with progress checkpointed after each one so an interrupted import resumes
+ * where it stopped. A dry run reads and checks every row without creating anything.
+ *
+ * Entries keep the dates they were written and last edited. A row is a duplicate when an
+ * existing entry, or an earlier row, was written on the same day with the same text.
+ * Imported entries are not sent for AI insights.
+ */
+
+const ROW_BATCH_SIZE = 50;
+// A RUNNING import not updated for this long is assumed to have stopped and may be taken over
+const STALE_AFTER_MS = 5 * 60 * 1000;
+// Most problems kept in an import's report; the counts include every row
+const MAX_REPORTED_ISSUES = 1000;
+const PREVIEW_ROWS = 20;
+const RECENT_IMPORTS = 20;
+const MAX_TITLE_LENGTH = 255;
+// Longest title taken from the first line of an entry without one
+const DERIVED_TITLE_LENGTH = 80;
+const SECTION_TYPES = ['text', 'list', 'rating'];
+
+// An imported row, checked and ready to create
+interface PreparedEntry {
+  title: string;
+  content: string;
+  mood?: string;
+  emotions?: EntryEmotion[];
+  tags: string[];
+  status: EntryStatus;
+  template?: { id: string | null; fields: EntryField[] };
+  createdAt: Date;
+  updatedAt: Date;
+  attachments: ImportedAttachment[];
+  warnings: string[];
+}
+
+// What an import needs to know about the user, loaded once per run
+interface ImportContext {
+  userId: string;
+  customMoods: CustomMood[];
+  // Whether each template ID the rows use is available to the user
+  templates: Map<string, boolean>;
+  // Entries, including those in the trash, and earlier rows by fingerprint
+  seen: Map<string, { row?: number; file?: string; entryId?: string; trashed?: boolean }>;
+}
+
+// The state of a run, written back after every batch
+interface ImportTally {
+  imported: number;
+  duplicates: number;
+  failed: number;
+  report: ImportReport;
+}
+
+function isFormat(value: unknown): value is ImportFormat {
+  return Object.values(ImportFormat).includes(value as ImportFormat);
+}
+
+/**
+ * Identify an entry by the day it was written and its text, ignoring case and spacing
+ * Rows without a date only match each other, since every entry has one
+ */
+function fingerprint(createdAt: Date | null, content: string, fields?: EntryField[] | null): string {
+  const day = createdAt ? createdAt.toISOString().slice(0, 10) : 'undated';
+  const text = entryText(content, fields).replace(/\s+/g, ' ').trim().toLowerCase();
+  return crypto.createHash('sha256').update(`${day}\n${text}`).digest('hex');
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * A title from the first line of an entry's text, or its date when it has no text
+ */
+function deriveTitle(content: string, createdAt: Date): string {
+  const firstLine = content
+    .split('\n')
+    .map((line) => line.replace(/^[#>*\-\s]+/, '').trim())
+    .find((line) => line.length > 0);
+  if (!firstLine) {
+    return `Entry from ${createdAt.toISOString().slice(0, 10)}`;
+  }
+  return firstLine.length > DERIVED_TITLE_LENGTH ? `${firstLine.slice(0, DERIVED_TITLE_LENGTH - 1).trimEnd()}…` : firstLine;
+}
+
+/**
+ * Why an attachment would not be accepted, or null if it would be
+ */
+function checkAttachment(attachment: ImportedAttachment): string | null {
+  const contentType = normalizeContentType(attachment.contentType);
+  if (!contentType) {
+    return `its type must be one of: ${ALLOWED_CONTENT_TYPES.join(', ')}`;
+  }
+  if (attachment.data.length === 0) {
+    return 'it is empty';
+  }
+  if (attachment.data.length > getEnvConfig().attachments.maxBytes) {
+    return `it is larger than ${getEnvConfig().attachments.maxBytes} bytes`;
+  }
+  if (!matchesContentType(attachment.data, contentType)) {
+    return `its contents are not ${contentType}`;
+  }
+  return null;
+}
+
+export class ImportService {
+  /**
+   * Store an uploaded file and queue it to be imported
+   * @param userId - The user importing entries
+   * @param format - The file's format
+   * @param dryRun - Check every row without creating anything
+   * @param file - The uploaded file
+   * @returns The new import
+   * @throws Error if the format or file is missing or invalid, or another import is unfinished
+   */
+  async startImport(
+    userId: string,
+    format: unknown,
+    dryRun: boolean,
+    file: UploadedFile | undefined
+  ): Promise<EntryImportProgress> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if (!isFormat(format)) {
+      throw new Error(`Format must be one of: ${Object.values(ImportFormat).join(', ')}`);
+    }
+
+    if (!file || file.data.length === 0) {
+      throw new Error('File is required and cannot be empty');
+    }
+
+    if (await ImportRepository.hasUnfinished(userId)) {
+      throw new Error('An import is already in progress');
+    }
+
+    const fileKey = generateFileKey();
+    const encrypted = encryptFile(file.data, fileKey);
+    const storageKey = `imports/${userId}/${crypto.randomUUID()}`;
+
+    await getStorageDriver().put(storageKey, encrypted.data);
+    let entryImport: EntryImport;
+    try {
+      entryImport = await ImportRepository.create({ userId, format, dryRun, storageKey, fileKey, fileIv: encrypted.iv });
+    } catch (error) {
+      await this.deleteStoredFile(storageKey);
+      throw error;
+    }
+
+    try {
+      await enqueueImport({ importId: entryImport.id });
+    } catch (error) {
+      // Otherwise the import would wait forever and block the next one
+      await this.finish(entryImport.id, ImportStatus.FAILED, 'The import could not be queued');
+      throw error;
+    }
+
+    logger.info('Entry import queued', { importId: entryImport.id, userId, format, dryRun });
+
+    return this.toProgress(entryImport);
+  }
+
+  /**
+   * Run an import to completion, starting after its last checkpoint
+   * A file that cannot be read fails the import without a retry; other errors are thrown
+   * so the job is retried.
+   * @param id - The import ID
+   * @param onProgress - Called after each batch of rows
+   * @returns The finished import
+   * @throws Error if the import does not exist, is running elsewhere, or fails
+   */
+  async runImport(
+    id: string,
+    onProgress?: (progress: EntryImportProgress) => void | Promise<void>
+  ): Promise<EntryImportProgress> {
+    const entryImport = await ImportRepository.findById(id);
+    if (!entryImport) {
+      throw new Error('Import not found');
+    }
+    if (entryImport.status === ImportStatus.COMPLETED) {
+      return this.toProgress(entryImport);
+    }
+
+    if (!(await ImportRepository.claim(id, new Date(Date.now() - STALE_AFTER_MS)))) {
+      throw new Error('Import is already running');
+    }
+
+    logger.info('Entry import started', {
+      importId: id,
+      format: entryImport.format,
+      dryRun: entryImport.dryRun,
+      resumingAfter: entryImport.rowsProcessed,
+    });
+
+    try {
+      const upload = await ImportRepository.findUpload(id);
+      if (!upload) {
+        return await this.finish(id, ImportStatus.FAILED, 'The uploaded file is no longer available');
+      }
+
+      let rows: ImportRow[];
+      try {
+        rows = await readImportFile(entryImport.format, await this.readUpload(upload));
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Invalid import file')) {
+          return await this.finish(id, ImportStatus.FAILED, error.message);
+        }
+        throw error;
+      }
+
+      await ImportRepository.update(id, {
+        rowsTotal: rows.length,
+        ...(!entryImport.startedAt && { startedAt: new Date() }),
+      });
+
+      const context = await this.loadContext(entryImport.userId);
+      const tally: ImportTally = {
+        imported: entryImport.imported,
+        duplicates: entryImport.duplicates,
+        failed: entryImport.failed,
+        report: { issues: entryImport.issues, preview: entryImport.preview },
+      };
+
+      // Rows an earlier attempt handled can still be matched by the rows after them
+      for (const row of rows.slice(0, entryImport.rowsProcessed)) {
+        this.rememberRow(context, row);
+      }
+
+      for (let start = entryImport.rowsProcessed; start < rows.length; start += ROW_BATCH_SIZE) {
+        for (const row of rows.slice(start, start + ROW_BATCH_SIZE)) {
+          await this.importRow(entryImport, context, tally, row);
+        }
+
+        const progress = await ImportRepository.update(id, {
+          rowsProcessed: Math.min(start + ROW_BATCH_SIZE, rows.length),
+          imported: tally.imported,
+          duplicates: tally.duplicates,
+          failed: tally.failed,
+          report: tally.report,
+        });
+        await onProgress?.(this.toProgress(progress));
+      }
+
+      return await this.finish(id, ImportStatus.COMPLETED);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Entry import failed', { importId: id, error: message });
+
+      await ImportRepository.update(id, { status: ImportStatus.FAILED, error: message });
+      throw error;
+    }
+  }
+
+  /**
+   * Get one of a user's imports, with its progress and report
+   * @throws Error if the import does not exist or is another user's
+   */
+  async getImport(id: string, userId: string): Promise<EntryImportProgress> {
+    const entryImport = await ImportRepository.findById(id, userId);
+    if (!entryImport) {
+      throw new Error('Import not found');
+    }
+    return this.toProgress(entryImport);
+  }
+
+  /**
+   * List a user's most recent imports, newest first
+   */
+  async listImports(userId: string): Promise<EntryImportProgress[]> {
+    const imports = await ImportRepository.findByUserId(userId, RECENT_IMPORTS);
+    return imports.map((entryImport) => this.toProgress(entryImport));
+  }
+
+  /**
+   * Delete an import's uploaded file, once it will not be retried
+   */
+  async discardUpload(id: string): Promise<void> {
+    const storageKey = await ImportRepository.clearUpload(id);
+    if (storageKey) {
+      await this.deleteStoredFile(storageKey);
+    }
+  }
+
+  /**
+   * Record how an import ended and delete its uploaded file
+   */
+  private async finish(id: string, status: ImportStatus, error?: string): Promise<EntryImportProgress> {
+    const finished = await ImportRepository.update(id, {
+      status,
+      error: error ?? null,
+      completedAt: new Date(),
+    });
+    await this.discardUpload(id);
+
+    logger.info('Entry import finished', {
+      importId: id,
+      status,
+      dryRun: finished.dryRun,
+      rowsTotal: finished.rowsTotal,
+      imported: finished.imported,
+      duplicates: finished.duplicates,
+      failed: finished.failed,
+      error,
+    });
+
+    return this.toProgress(finished);
+  }
+
+  private async readUpload(upload: ImportUpload): Promise<Buffer> {
+    const parts: Buffer[] = [];
+    for await (const part of await getStorageDriver().get(upload.storageKey)) {
+      parts.push(Buffer.from(part));
+    }
+    return decryptFile(Buffer.concat(parts), upload.fileKey, upload.fileIv);
+  }
+
+  /**
+   * Failures are logged rather than thrown: a file left behind cannot be read, since
+   * its key is forgotten first
+   */
+  private async deleteStoredFile(storageKey: string): Promise<void> {
+    try {
+      await getStorageDriver().delete(storageKey);
+    } catch (error) {
+      logger.warn('Failed to delete stored import file', {
+        storageKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async loadContext(userId: string): Promise<ImportContext> {
+    const [entries, trashed, customMoods] = await Promise.all([
+      EntryRepository.findAllByUserId(userId),
+      EntryRepository.findAllTrashedByUserId(userId),
+      CustomMoodRepository.findByUserId(userId),
+    ]);
+
+    // Trashed entries count too, or importing a file again would bring back copies of them
+    const seen: ImportContext['seen'] = new Map();
+    for (const entry of trashed) {
+      seen.set(fingerprint(new Date(entry.createdAt), entry.content, entry.fields), { entryId: entry.id, trashed: true });
+    }
+    for (const entry of entries) {
+      seen.set(fingerprint(new Date(entry.createdAt), entry.content, entry.fields), { entryId: entry.id });
+    }
+
+    return { userId, customMoods, templates: new Map(), seen };
+  }
+
+  /**
+   * Remember a row handled by an earlier attempt, if it could be read
+   */
+  private rememberRow(context: ImportContext, row: ImportRow): void {
+    if (!row.entry) {
+      return;
+    }
+    try {
+      const createdAt = row.entry.createdAt ? parseDate(row.entry.createdAt) : null;
+      const key = fingerprint(createdAt, row.entry.content.trim(), row.entry.fields);
+      if (!context.seen.has(key)) {
+        context.seen.set(key, { row: row.row, file: row.file });
+      }
+    } catch {
+      // Rows with an invalid date failed, so there is nothing to match
+    }
+  }
+
+  private addIssue(tally: ImportTally, issue: ImportIssue): void {
+    if (tally.report.issues.length < MAX_REPORTED_ISSUES) {
+      tally.report.issues.push(issue);
+    }
+  }
+
+  /**
+   * Check, and unless this is a dry run create, one row
+   */
+  private async importRow(
+    entryImport: EntryImport,
+    context: ImportContext,
+    tally: ImportTally,
+    row: ImportRow
+  ): Promise<void> {
+    const where = { row: row.row, ...(row.file && { file: row.file }) };
+
+    let prepared: PreparedEntry;
+    try {
+      if (!row.entry) {
+        throw new Error(row.error ?? 'Row could not be read');
+      }
+      prepared = await this.prepareEntry(context, row.entry);
+    } catch (error) {
+      tally.failed++;
+      this.addIssue(tally, {
+        ...where,
+        type: 'failed',
+        message: error instanceof Error ? error.message : 'Row could not be read',
+      });
+      return;
+    }
+
+    const key = fingerprint(row.entry.createdAt ? prepared.createdAt : null, prepared.content, prepared.template?.fields);
+    const match = context.seen.get(key);
+    if (match) {
+      tally.duplicates++;
+      this.addIssue(tally, {
+        ...where,
+        type: 'duplicate',
+        message: match.trashed
+          ? 'An entry written on the same day with the same text is in the trash'
+          : match.row === undefined
+            ? 'An entry written on the same day with the same text already exists'
+            : `Same day and text as row ${match.row}${match.file ? ` (${match.file})` : ''}`,
+        ...(match.entryId && { entryId: match.entryId }),
+      });
+      return;
+    }
+
+    let entryId: string | undefined;
+    if (entryImport.dryRun) {
+      if (tally.report.preview.length < PREVIEW_ROWS) {
+        tally.report.preview.push({
+          ...where,
+          title: prepared.title,
+          createdAt: prepared.createdAt,
+          mood: prepared.mood,
+          tags: prepared.tags,
+          attachments: prepared.attachments.length,
+        });
+      }
+    } else {
+      const entry = await EntryRepository.create(
+        context.userId,
+        prepared.title,
+        prepared.content,
+        prepared.mood,
+        prepared.tags,
+        prepared.status,
+        prepared.emotions,
+        prepared.template,
+        { createdAt: prepared.createdAt, updatedAt: prepared.updatedAt }
+      );
+      entryId = entry.id;
+
+      for (const attachment of prepared.attachments) {
+        try {
+          await AttachmentService.uploadAttachment(entry.id, context.userId, {
+            originalName: attachment.fileName,
+            contentType: attachment.contentType,
+            data: attachment.data,
+          });
+        } catch (error) {
+          prepared.warnings.push(
+            `Attachment ${attachment.fileName} was left out: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+    }
+
+    context.seen.set(key, { ...where, entryId });
+    tally.imported++;
+    for (const message of prepared.warnings) {
+      this.addIssue(tally, { ...where, type: 'warning', message, ...(entryId && { entryId }) });
+    }
+  }
+
+  /**
+   * Check a row the way a new entry is checked, filling in what can be
+   * Rows are only rejected for what cannot be imported at all; parts that cannot be
+   * kept, like an unknown mood, are left out with a warning.
+   * @throws Error with the reason the row cannot be imported
+   */
+  private async prepareEntry(context: ImportContext, entry: ImportedEntry): Promise<PreparedEntry> {
+    const warnings = [...entry.warnings];
+
+    let createdAt = new Date();
+    if (entry.createdAt) {
+      createdAt = parseDate(entry.createdAt);
+    } else {
+      warnings.push('The row has no date, so it is dated when it was imported');
+    }
+    let updatedAt = createdAt;
+    if (entry.updatedAt) {
+      const parsed = new Date(entry.updatedAt);
+      if (!isNaN(parsed.getTime()) && parsed > createdAt) {
+        updatedAt = parsed;
+      }
+    }
+
+    const template = await this.prepareFields(context, entry);
+    const content = entry.content.trim();
+    if (!content && !hasFieldValues(template?.fields)) {
+      throw new Error('Content is required and cannot be empty');
+    }
+
+    let title = entry.title?.trim() || deriveTitle(content, createdAt);
+    if (title.length > MAX_TITLE_LENGTH) {
+      title = title.slice(0, MAX_TITLE_LENGTH);
+      warnings.push(`The title was shortened to ${MAX_TITLE_LENGTH} characters`);
+    }
+
+    const { mood, emotions } = await this.prepareEmotions(context, entry, warnings);
+
+    let status = EntryStatus.PUBLISHED;
+    if (entry.status) {
+      const upper = entry.status.toUpperCase();
+      if (upper === EntryStatus.DRAFT || upper === EntryStatus.PUBLISHED) {
+        status = upper as EntryStatus;
+      } else {
+        warnings.push(`Status "${entry.status}" is not DRAFT or PUBLISHED, so the entry is published`);
+      }
+    }
+
+    let attachments = entry.attachments.filter((attachment) => {
+      const problem = checkAttachment(attachment);
+      if (problem) {
+        warnings.push(`Attachment ${attachment.fileName} was left out: ${problem}`);
+      }
+      return !problem;
+    });
+    if (attachments.length > MAX_ATTACHMENTS_PER_ENTRY) {
+      warnings.push(`Only the first ${MAX_ATTACHMENTS_PER_ENTRY} attachments were kept`);
+      attachments = attachments.slice(0, MAX_ATTACHMENTS_PER_ENTRY);
+    }
+
+    return {
+      title,
+      content,
+      mood,
+      emotions,
+      tags: normalizeTags(entry.tags),
+      status,
+      template,
+      createdAt,
+      updatedAt,
+      attachments,
+      warnings,
+    };
+  }
+
+  /**
+   * Check a row's template fields, keeping the template only if the user can still use it
+   * @throws Error if the fields are not valid template fields
+   */
+  private async prepareFields(
+    context: ImportContext,
+    entry: ImportedEntry
+  ): Promise<{ id: string | null; fields: EntryField[] } | undefined> {
+    if (!entry.fields || entry.fields.length === 0) {
+      return undefined;
+    }
+
+    const sections: TemplateSection[] = [];
+    const values: Record<string, unknown> = {};
+    for (const field of entry.fields) {
+      if (
+        !field ||
+        typeof field.key !== 'string' ||
+        typeof field.label !== 'string' ||
+        !SECTION_TYPES.includes(field.type) ||
+        field.key in values
+      ) {
+        throw new Error('Invalid fields: each needs a unique key, a label and a type of text, list or rating');
+      }
+      sections.push({ key: field.key, label: field.label, type: field.type });
+      values[field.key] = field.value;
+    }
+    const fields = buildEntryFields(sections, values);
+
+    let templateId: string | null = null;
+    if (entry.templateId) {
+      if (!context.templates.has(entry.templateId)) {
+        const available = await TemplateService.getTemplate(context.userId, entry.templateId).then(
+          () => true,
+          () => false
+        );
+        context.templates.set(entry.templateId, available);
+      }
+      templateId = context.templates.get(entry.templateId) ? entry.templateId : null;
+    }
+
+    return { id: templateId, fields };
+  }
+
+  /**
+   * Work out a row's emotions
+   * Emotions with a custom mood the user does not have keep their base mood, and a mood
+   * that is not in the vocabulary may be the label of one of the user's custom moods.
+   */
+  private async prepareEmotions(
+    context: ImportContext,
+    entry: ImportedEntry,
+    warnings: string[]
+  ): Promise<{ mood?: string; emotions?: EntryEmotion[] }> {
+    const customIds = new Set(context.customMoods.map((custom) => custom.id));
+
+    let inputs: EntryEmotionInput[] | undefined;
+    if (entry.emotions && entry.emotions.length > 0) {
+      inputs = [];
+      for (const emotion of entry.emotions) {
+        if (emotion.customMoodId && customIds.has(emotion.customMoodId)) {
+          inputs.push({ customMoodId: emotion.customMoodId, intensity: emotion.intensity });
+        } else if (emotion.mood) {
+          inputs.push({ mood: emotion.mood, intensity: emotion.intensity });
+        } else {
+          warnings.push('An emotion with a custom mood that is not one of yours was left out');
+        }
+      }
+    } else if (entry.mood) {
+      if (getMood(entry.mood)) {
+        return { mood: entry.mood.toLowerCase() };
+      }
+      const custom = context.customMoods.find((mood) => mood.label.toLowerCase() === entry.mood!.toLowerCase());
+      if (!custom) {
+        warnings.push(`Mood "${entry.mood}" is not a mood or one of your custom moods, so it was left out`);
+        return {};
+      }
+      inputs = [{ customMoodId: custom.id }];
+    }
+
+    if (!inputs || inputs.length === 0) {
+      return {};
+    }
+    const emotions = await CustomMoodService.resolveEmotions(context.userId, inputs);
+    return { mood: emotions[0]?.mood, emotions };
+  }
+
+  /**
+   * Add the share of rows processed
+   */
+  private toProgress(entryImport: EntryImport): EntryImportProgress {
+    let percentComplete = 100;
+    if (entryImport.status !== ImportStatus.COMPLETED) {
+      percentComplete = entryImport.rowsTotal > 0
+        ? Math.min(99, Math.floor((entryImport.rowsProcessed / entryImport.rowsTotal) * 100))
+        : 0;
+    }
+
+    return { ...entryImport, percentComplete };
+  }
+}
+
+export default new ImportService();
@@ -0,0 +1,236 @@
+import { KeyRotationService } from './KeyRotationService.js';
+import KeyRotationRepository from '../repositories/KeyRotationRepository.js';
+import UserRepository from '../repositories/UserRepository.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import InsightRepository from '../repositories/InsightRepository.js';
+import AttachmentRepository from '../repositories/AttachmentRepository.js';
+import DataKeyService from './DataKeyService.js';
+import { enqueueKeyRotation } from '../queues/keyRotationQueue.js';
+import { KeyRotation, KeyRotationStatus } from '../types/index.js';
+
+// Mock dependencies
+jest.mock('../repositories/KeyRotationRepository.js');
+jest.mock('../repositories/UserRepository.js');
+jest.mock('../repositories/EntryRepository.js');
+jest.mock('../repositories/InsightRepository.js');
+jest.mock('../repositories/AttachmentRepository.js');
+jest.mock('./DataKeyService.js');
+jest.mock('../queues/keyRotationQueue.js');
+jest.mock('../utils/logger.js', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn() },
+}));
+
+describe('KeyRotationService', () => {
+  let keyRotationService: KeyRotationService;
+  const originalMasterKeys = process.env.MASTER_KEYS;
+
+  const createRotation = (overrides: Partial<KeyRotation> = {}): KeyRotation => ({
+    id: 'rotation-1',
+    status: KeyRotationStatus.PENDING,
+    dryRun: false,
+    masterKeyId: 'k2',
+    requestedBy: 'admin-1',
+    userCursor: null,
+    usersTotal: 2,
+    usersProcessed: 0,
+    entriesReencrypted: 0,
+    insightsReencrypted: 0,
+    revisionsReencrypted: 0,
+    attachmentsReencrypted: 0,
+    error: null,
+    startedAt: null,
+    completedAt: null,
+    createdAt: new Date('2026-10-18T00:00:00Z'),
+    updatedAt: new Date('2026-10-18T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    process.env.MASTER_KEYS = `k2:${Buffer.alloc(32, 2).toString('base64')},k1:${Buffer.alloc(32, 1).toString('base64')}`;
+    keyRotationService = new KeyRotationService();
+    jest.clearAllMocks();
+
+    // Progress updates return the rotation with the counters applied
+    let stored = createRotation();
+    (KeyRotationRepository.update as jest.Mock).mockImplementation(async (_id, data) => {
+      stored = {
+        ...stored,
+        ...data,
+        usersProcessed: stored.usersProcessed + (data.usersProcessed ?? 0),
+        entriesReencrypted: stored.entriesReencrypted + (data.entriesReencrypted ?? 0),
+        insightsReencrypted: stored.insightsReencrypted + (data.insightsReencrypted ?? 0),
+        revisionsReencrypted: stored.revisionsReencrypted + (data.revisionsReencrypted ?? 0),
+        attachmentsReencrypted: stored.attachmentsReencrypted + (data.attachmentsReencrypted ?? 0),
+      };
+      return stored;
+    });
+    (KeyRotationRepository.claim as jest.Mock).mockResolvedValue(true);
+    (UserRepository.findIdsAfter as jest.Mock).mockImplementation(async (afterId) =>
+      ['user-1', 'user-2'].filter((id) => !afterId || id > afterId)
+    );
+    (EntryRepository.reencryptBatch as jest.Mock).mockImplementation(async (_userId, _key, afterId) =>
+      afterId ? { count: 0, lastId: null } : { count: 3, lastId: 'entry-3' }
+    );
+    (EntryRepository.reencryptRevisionBatch as jest.Mock).mockImplementation(async (_userId, _key, afterId) =>
+      afterId ? { count: 0, lastId: null } : { count: 2, lastId: 'revision-2' }
+    );
+    (InsightRepository.reencryptBatch as jest.Mock).mockImplementation(async (_userId, _key, afterId) =>
+      afterId ? { count: 0, lastId: null } : { count: 1, lastId: 'insight-1' }
+    );
+    (AttachmentRepository.reencryptBatch as jest.Mock).mockImplementation(async (_userId, _key, afterId) =>
+      afterId ? { count: 0, lastId: null } : { count: 1, lastId: 'attachment-1' }
+    );
+    (DataKeyService.rotateKey as jest.Mock).mockImplementation(async (userId) => ({
+      id: `key-${userId}`,
+      key: Buffer.alloc(32),
+    }));
+  });
+
+  afterAll(() => {
+    process.env.MASTER_KEYS = originalMasterKeys;
+  });
+
+  describe('startRotation', () => {
+    it('should record the rotation against the active master key and queue it', async () => {
+      (KeyRotationRepository.findUnfinished as jest.Mock).mockResolvedValue(null);
+      (UserRepository.count as jest.Mock).mockResolvedValue(2);
+      (KeyRotationRepository.create as jest.Mock).mockResolvedValue(createRotation());
+
+      const result = await keyRotationService.startRotation({ requestedBy: 'admin-1' });
+
+      expect(KeyRotationRepository.create).toHaveBeenCalledWith({
+        dryRun: false,
+        masterKeyId: 'k2',
+        requestedBy: 'admin-1',
+        usersTotal: 2,
+      });
+      expect(enqueueKeyRotation).toHaveBeenCalledWith({ rotationId: 'rotation-1' });
+      expect(result.percentComplete).toBe(0);
+    });
+
+    it('should refuse to start while another rotation is running', async () => {
+      (KeyRotationRepository.findUnfinished as jest.Mock).mockResolvedValue(
+        createRotation({ status: KeyRotationStatus.RUNNING })
+      );
+
+      await expect(keyRotationService.startRotation()).rejects.toThrow('A key rotation is already in progress');
+      expect(KeyRotationRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should allow a new rotation after one failed', async () => {
+      (KeyRotationRepository.findUnfinished as jest.Mock).mockResolvedValue(
+        createRotation({ status: KeyRotationStatus.FAILED })
+      );
+      (UserRepository.count as jest.Mock).mockResolvedValue(2);
+      (KeyRotationRepository.create as jest.Mock).mockResolvedValue(createRotation({ id: 'rotation-2' }));
+
+      const result = await keyRotationService.startRotation();
+
+      expect(result.id).toBe('rotation-2');
+    });
+  });
+
+  describe('runRotation', () => {
+    it('should re-encrypt every user with a new key and complete', async () => {
+      (KeyRotationRepository.findById as jest.Mock).mockResolvedValue(createRotation());
+      const onProgress = jest.fn();
+
+      const result = await keyRotationService.runRotation('rotation-1', onProgress);
+
+      expect(DataKeyService.rotateKey).toHaveBeenCalledWith('user-1', new Date('2026-10-18T00:00:00Z'));
+      expect(DataKeyService.rotateKey).toHaveBeenCalledWith('user-2', new Date('2026-10-18T00:00:00Z'));
+      expect(EntryRepository.reencryptBatch).toHaveBeenCalledWith('user-1', { id: 'key-user-1', key: expect.any(Buffer) }, null, 100);
+      expect(EntryRepository.reencryptRevisionBatch).toHaveBeenCalledWith('user-2', { id: 'key-user-2', key: expect.any(Buffer) }, null, 100);
+      expect(result).toMatchObject({
+        status: KeyRotationStatus.COMPLETED,
+        usersProcessed: 2,
+        entriesReencrypted: 6,
+        insightsReencrypted: 2,
+        revisionsReencrypted: 4,
+        attachmentsReencrypted: 2,
+        percentComplete: 100,
+      });
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(onProgress.mock.calls[0][0].percentComplete).toBe(50);
+    });
+
+    it('should resume after the checkpointed user', async () => {
+      (KeyRotationRepository.findById as jest.Mock).mockResolvedValue(
+        createRotation({ status: KeyRotationStatus.FAILED, userCursor: 'user-1', usersProcessed: 1 })
+      );
+
+      await keyRotationService.runRotation('rotation-1');
+
+      expect(DataKeyService.rotateKey).toHaveBeenCalledTimes(1);
+      expect(DataKeyService.rotateKey).toHaveBeenCalledWith('user-2', expect.any(Date));
+      expect(UserRepository.findIdsAfter).toHaveBeenCalledWith('user-1', 100);
+    });
+
+    it('should only decrypt data in a dry run', async () => {
+      (KeyRotationRepository.findById as jest.Mock).mockResolvedValue(createRotation({ dryRun: true }));
+
+      await keyRotationService.runRotation('rotation-1');
+
+      expect(DataKeyService.rotateKey).not.toHaveBeenCalled();
+      expect(EntryRepository.reencryptBatch).toHaveBeenCalledWith('user-1', null, null, 100);
+      expect(InsightRepository.reencryptBatch).toHaveBeenCalledWith('user-2', null, null, 100);
+      expect(AttachmentRepository.reencryptBatch).toHaveBeenCalledWith('user-2', null, null, 100);
+    });
+
+    it('should not run a rotation another process is running', async () => {
+      (KeyRotationRepository.findById as jest.Mock).mockResolvedValue(
+        createRotation({ status: KeyRotationStatus.RUNNING })
+      );
+      (KeyRotationRepository.claim as jest.Mock).mockResolvedValue(false);
+
+      await expect(keyRotationService.runRotation('rotation-1')).rejects.toThrow('Key rotation is already running');
+      expect(DataKeyService.rotateKey).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to continue after the active master key changed', async () => {
+      (KeyRotationRepository.findById as jest.Mock).mockResolvedValue(createRotation({ masterKeyId: 'k1' }));
+
+      await expect(keyRotationService.runRotation('rotation-1')).rejects.toThrow(
+        'Key rotation was started for master key k1, but the active master key is k2'
+      );
+      expect(KeyRotationRepository.claim).not.toHaveBeenCalled();
+    });
+
+    it('should record the failure and keep the checkpoint', async () => {
+      (KeyRotationRepository.findById as jest.Mock).mockResolvedValue(createRotation());
+      (EntryRepository.reencryptBatch as jest.Mock).mockImplementation(async (userId) => {
+        if (userId === 'user-2') {
+          throw new Error('Failed to re-encrypt journal entries: Data key not found');
+        }
+        return { count: 0, lastId: null };
+      });
+
+      await expect(keyRotationService.runRotation('rotation-1')).rejects.toThrow('Data key not found');
+
+      expect(KeyRotationRepository.update).toHaveBeenCalledWith('rotation-1', { userCursor: 'user-1', usersProcessed: 1 });
+      expect(KeyRotationRepository.update).toHaveBeenLastCalledWith('rotation-1', {
+        status: KeyRotationStatus.FAILED,
+        error: 'Failed to re-encrypt journal entries: Data key not found',
+      });
+    });
+  });
+
+  describe('getRotation', () => {
+    it('should report progress of a running rotation', async () => {
+      (KeyRotationRepository.findById as jest.Mock).mockResolvedValue(
+        createRotation({ status: KeyRotationStatus.RUNNING, usersTotal: 3, usersProcessed: 1 })
+      );
+
+      const result = await keyRotationService.getRotation('rotation-1');
+
+      expect(result.percentComplete).toBe(33);
+    });
+
+    it('should throw when the rotation does not exist', async () => {
+      (KeyRotationRepository.findById as jest.Mock).mockResolvedValue(null);
+
+      await expect(keyRotationService.getRotation('missing')).rejects.toThrow('Key rotation not found');
+    });
+  });
+});
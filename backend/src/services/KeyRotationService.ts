@@ -0,0 +1,230 @@
+import { KeyRotation, KeyRotationProgress, KeyRotationStatus } from '../types/index.js';
+import { getMasterKeys } from '../utils/encryption.js';
+import logger from '../utils/logger.js';
+import { enqueueKeyRotation } from '../queues/keyRotationQueue.js';
+import KeyRotationRepository from '../repositories/KeyRotationRepository.js';
+import UserRepository from '../repositories/UserRepository.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import InsightRepository from '../repositories/InsightRepository.js';
+import AttachmentRepository from '../repositories/AttachmentRepository.js';
+import DataKeyService from './DataKeyService.js';
+
+/**
+ * KeyRotationService
+ * Rotates every user's data key: each user gets a new key version wrapped by the active
+ * master key, and their entries, insight summaries and attachments' file keys are
+ * re-encrypted with it in batches.
+ * Rows record the key they were encrypted with, so the API keeps reading both versions
+ * while a rotation runs. Progress is checkpointed after every user, so an interrupted
+ * rotation resumes where it stopped. Once a rotation completes, older master keys can be
+ * removed from MASTER_KEYS.
+ */
+
+const USER_BATCH_SIZE = 100;
+const ROW_BATCH_SIZE = 100;
+// A RUNNING rotation not updated for this long is assumed to have stopped and may be taken over
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+export class KeyRotationService {
+  /**
+   * Record a new rotation without scheduling it
+   * @param options - dryRun decrypts everything without writing; requestedBy is the admin's ID
+   * @returns The new rotation
+   * @throws Error if another rotation is pending or running
+   */
+  async createRotation(options: { dryRun?: boolean; requestedBy?: string } = {}): Promise<KeyRotation> {
+    const unfinished = await KeyRotationRepository.findUnfinished();
+    if (unfinished && unfinished.status !== KeyRotationStatus.FAILED) {
+      throw new Error('A key rotation is already in progress');
+    }
+
+    const [masterKey] = getMasterKeys();
+
+    return KeyRotationRepository.create({
+      dryRun: options.dryRun ?? false,
+      masterKeyId: masterKey.id,
+      requestedBy: options.requestedBy,
+      usersTotal: await UserRepository.count(),
+    });
+  }
+
+  /**
+   * Record a new rotation and queue it for the worker
+   * @param options - dryRun decrypts everything without writing; requestedBy is the admin's ID
+   * @returns The new rotation
+   * @throws Error if another rotation is pending or running
+   */
+  async startRotation(options: { dryRun?: boolean; requestedBy?: string } = {}): Promise<KeyRotationProgress> {
+    const rotation = await this.createRotation(options);
+    await enqueueKeyRotation({ rotationId: rotation.id });
+
+    logger.info('Key rotation queued', { rotationId: rotation.id, dryRun: rotation.dryRun });
+
+    return this.toProgress(rotation);
+  }
+
+  /**
+   * Run a rotation to completion, starting after its last checkpoint
+   * @param id - The rotation ID
+   * @param onProgress - Called after each user is processed
+   * @returns The completed rotation
+   * @throws Error if the rotation does not exist, is running elsewhere, or fails
+   */
+  async runRotation(
+    id: string,
+    onProgress?: (progress: KeyRotationProgress) => void | Promise<void>
+  ): Promise<KeyRotationProgress> {
+    const rotation = await KeyRotationRepository.findById(id);
+    if (!rotation) {
+      throw new Error('Key rotation not found');
+    }
+    if (rotation.status === KeyRotationStatus.COMPLETED) {
+      return this.toProgress(rotation);
+    }
+
+    const [masterKey] = getMasterKeys();
+    if (!rotation.dryRun && masterKey.id !== rotation.masterKeyId) {
+      throw new Error(
+        `Key rotation was started for master key ${rotation.masterKeyId}, but the active master key is ${masterKey.id}`
+      );
+    }
+
+    if (!(await KeyRotationRepository.claim(id, new Date(Date.now() - STALE_AFTER_MS)))) {
+      throw new Error('Key rotation is already running');
+    }
+
+    logger.info('Key rotation started', {
+      rotationId: id,
+      dryRun: rotation.dryRun,
+      resumingAfter: rotation.userCursor,
+    });
+
+    try {
+      if (!rotation.startedAt) {
+        await KeyRotationRepository.update(id, { startedAt: new Date() });
+      }
+
+      let cursor = rotation.userCursor;
+      for (;;) {
+        const userIds = await UserRepository.findIdsAfter(cursor, USER_BATCH_SIZE);
+        if (userIds.length === 0) {
+          break;
+        }
+
+        for (const userId of userIds) {
+          await this.rotateUser(rotation, userId);
+          cursor = userId;
+
+          const progress = await KeyRotationRepository.update(id, { userCursor: userId, usersProcessed: 1 });
+          await onProgress?.(this.toProgress(progress));
+        }
+      }
+
+      const completed = await KeyRotationRepository.update(id, {
+        status: KeyRotationStatus.COMPLETED,
+        completedAt: new Date(),
+      });
+
+      logger.info('Key rotation completed', {
+        rotationId: id,
+        dryRun: completed.dryRun,
+        usersProcessed: completed.usersProcessed,
+        entriesReencrypted: completed.entriesReencrypted,
+        insightsReencrypted: completed.insightsReencrypted,
+        revisionsReencrypted: completed.revisionsReencrypted,
+        attachmentsReencrypted: completed.attachmentsReencrypted,
+      });
+
+      return this.toProgress(completed);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Key rotation failed', { rotationId: id, error: message });
+
+      await KeyRotationRepository.update(id, { status: KeyRotationStatus.FAILED, error: message });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a rotation's progress
+   * @param id - The rotation ID
+   * @throws Error if the rotation does not exist
+   */
+  async getRotation(id: string): Promise<KeyRotationProgress> {
+    const rotation = await KeyRotationRepository.findById(id);
+    if (!rotation) {
+      throw new Error('Key rotation not found');
+    }
+    return this.toProgress(rotation);
+  }
+
+  /**
+   * List the most recent rotations, newest first
+   */
+  async listRotations(limit: number = 20): Promise<KeyRotationProgress[]> {
+    const rotations = await KeyRotationRepository.findRecent(limit);
+    return rotations.map((rotation) => this.toProgress(rotation));
+  }
+
+  /**
+   * Move one user's entries, their revisions, insights and attachments to a new data key
+   * In a dry run no key is created and rows are only decrypted, which finds rows that
+   * could not be rotated without changing anything.
+   */
+  private async rotateUser(rotation: KeyRotation, userId: string): Promise<void> {
+    const dataKey = rotation.dryRun ? null : await DataKeyService.rotateKey(userId, rotation.createdAt);
+
+    await this.reencryptAll(rotation.id, 'entriesReencrypted', (afterId) =>
+      EntryRepository.reencryptBatch(userId, dataKey, afterId, ROW_BATCH_SIZE)
+    );
+    await this.reencryptAll(rotation.id, 'revisionsReencrypted', (afterId) =>
+      EntryRepository.reencryptRevisionBatch(userId, dataKey, afterId, ROW_BATCH_SIZE)
+    );
+    await this.reencryptAll(rotation.id, 'insightsReencrypted', (afterId) =>
+      InsightRepository.reencryptBatch(userId, dataKey, afterId, ROW_BATCH_SIZE)
+    );
+    await this.reencryptAll(rotation.id, 'attachmentsReencrypted', (afterId) =>
+      AttachmentRepository.reencryptBatch(userId, dataKey, afterId, ROW_BATCH_SIZE)
+    );
+  }
+
+  /**
+   * Run re-encryption batches until none are left, recording progress after each one
+   * Recording progress also keeps the rotation's heartbeat fresh for users with many rows
+   */
+  private async reencryptAll(
+    rotationId: string,
+    counter: 'entriesReencrypted' | 'revisionsReencrypted' | 'insightsReencrypted' | 'attachmentsReencrypted',
+    reencryptBatch: (afterId: string | null) => Promise<{ count: number; lastId: string | null }>
+  ): Promise<void> {
+    let afterId: string | null = null;
+
+    for (;;) {
+      const { count, lastId } = await reencryptBatch(afterId);
+      if (!lastId) {
+        return;
+      }
+
+      await KeyRotationRepository.update(rotationId, { [counter]: count });
+      afterId = lastId;
+    }
+  }
+
+  /**
+   * Add the share of users processed
+   * Users who sign up during a rotation are processed too, so the share is capped
+   * below 100 until the rotation completes
+   */
+  private toProgress(rotation: KeyRotation): KeyRotationProgress {
+    let percentComplete = 100;
+    if (rotation.status !== KeyRotationStatus.COMPLETED) {
+      percentComplete = rotation.usersTotal > 0
+        ? Math.min(99, Math.floor((rotation.usersProcessed / rotation.usersTotal) * 100))
+        : 0;
+    }
+
+    return { ...rotation, percentComplete };
+  }
+}
+
+export default new KeyRotationService();
@@ -0,0 +1,180 @@
+import { MfaService } from './MfaService.js';
+import { User, UserRole } from '../types/index.js';
+import UserRepository from '../repositories/UserRepository.js';
+import MfaRecoveryCodeRepository from '../repositories/MfaRecoveryCodeRepository.js';
+import * as passwordUtils from '../utils/password.js';
+import { encryptText } from '../utils/encryption.js';
+import { hashToken } from '../utils/tokens.js';
+import { generateTotpSecret, generateTotpCode, getTimeStep } from '../utils/totp.js';
+
+// Mock dependencies
+jest.mock('../repositories/UserRepository.js');
+jest.mock('../repositories/MfaRecoveryCodeRepository.js');
+jest.mock('../utils/password.js');
+
+describe('MfaService', () => {
+  let mfaService: MfaService;
+  const secret = generateTotpSecret();
+  const encrypted = encryptText(secret);
+
+  const baseUser: User = {
+    id: 'user-123',
+    email: 'user@example.com',
+    name: 'John Doe',
+    passwordHash: 'hashed-password',
+    role: UserRole.USER,
+    aiConsent: false,
+    hasCompletedOnboarding: false,
+    failedLoginAttempts: 0,
+    lockoutUntil: null,
+    mfaEnabled: false,
+    mfaSecret: null,
+    mfaSecretIv: null,
+    mfaSecretTag: null,
+    mfaLastUsedStep: null,
+    emailVerifiedAt: null,
+    tokenVersion: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const enrolledUser: User = {
+    ...baseUser,
+    mfaSecret: encrypted.cipherText,
+    mfaSecretIv: encrypted.iv,
+    mfaSecretTag: encrypted.tag,
+  };
+
+  beforeEach(() => {
+    mfaService = new MfaService();
+    jest.clearAllMocks();
+    (UserRepository.claimMfaStep as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('beginEnrollment', () => {
+    it('should store an encrypted secret and return a provisioning URI', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(baseUser);
+
+      const result = await mfaService.beginEnrollment('user-123');
+
+      expect(result.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(result.otpauthUrl).toContain(`secret=${result.secret}`);
+
+      const stored = (UserRepository.update as jest.Mock).mock.calls[0][1];
+      expect(stored.mfaSecret).toBeDefined();
+      expect(stored.mfaSecret).not.toBe(result.secret);
+      expect(stored.mfaEnabled).toBeUndefined();
+    });
+
+    it('should reject enrollment when MFA is already enabled', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue({ ...enrolledUser, mfaEnabled: true });
+
+      await expect(mfaService.beginEnrollment('user-123')).rejects.toThrow('MFA is already enabled');
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable MFA and issue hashed recovery codes', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(enrolledUser);
+
+      const codes = await mfaService.confirmEnrollment('user-123', generateTotpCode(secret));
+
+      expect(codes).toHaveLength(10);
+      expect(UserRepository.update).toHaveBeenCalledWith('user-123', { mfaEnabled: true });
+      expect(MfaRecoveryCodeRepository.replaceForUser).toHaveBeenCalledWith(
+        'user-123',
+        codes.map((code) => hashToken(code))
+      );
+    });
+
+    it('should reject a wrong code', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(enrolledUser);
+      const wrongCode = generateTotpCode(secret, getTimeStep() - 10);
+
+      await expect(mfaService.confirmEnrollment('user-123', wrongCode)).rejects.toThrow('Invalid MFA code');
+      expect(UserRepository.update).not.toHaveBeenCalledWith('user-123', { mfaEnabled: true });
+    });
+
+    it('should require enrollment to have been started', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(baseUser);
+
+      await expect(mfaService.confirmEnrollment('user-123', '123456')).rejects.toThrow(
+        'MFA enrollment has not been started'
+      );
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    const mfaUser = { ...enrolledUser, mfaEnabled: true };
+
+    it('should accept a valid TOTP code', async () => {
+      const step = getTimeStep();
+
+      const factor = await mfaService.verifySecondFactor(mfaUser, generateTotpCode(secret, step));
+
+      expect(factor).toBe('totp');
+      expect(UserRepository.claimMfaStep).toHaveBeenCalledWith('user-123', step);
+    });
+
+    it('should reject a TOTP code that was already used', async () => {
+      const step = getTimeStep();
+      (UserRepository.claimMfaStep as jest.Mock).mockResolvedValue(false);
+
+      const factor = await mfaService.verifySecondFactor(mfaUser, generateTotpCode(secret, step));
+
+      expect(factor).toBeNull();
+    });
+
+    it('should not record a TOTP code that is wrong', async () => {
+      const factor = await mfaService.verifySecondFactor(mfaUser, generateTotpCode(secret, getTimeStep() - 10));
+
+      expect(factor).toBeNull();
+      expect(UserRepository.claimMfaStep).not.toHaveBeenCalled();
+    });
+
+    it('should consume a recovery code', async () => {
+      (MfaRecoveryCodeRepository.consume as jest.Mock).mockResolvedValue(true);
+
+      const factor = await mfaService.verifySecondFactor(mfaUser, 'ABCDE-FGHJK');
+
+      expect(factor).toBe('recovery_code');
+      expect(MfaRecoveryCodeRepository.consume).toHaveBeenCalledWith('user-123', hashToken('abcde-fghjk'));
+    });
+
+    it('should reject an unknown or used recovery code', async () => {
+      (MfaRecoveryCodeRepository.consume as jest.Mock).mockResolvedValue(false);
+
+      expect(await mfaService.verifySecondFactor(mfaUser, 'abcde-fghjk')).toBeNull();
+    });
+  });
+
+  describe('disable', () => {
+    const mfaUser = { ...enrolledUser, mfaEnabled: true };
+
+    it('should clear the secret and recovery codes', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mfaUser);
+      (passwordUtils.comparePassword as jest.Mock).mockResolvedValue(true);
+
+      await mfaService.disable('user-123', 'ValidPass123!', generateTotpCode(secret));
+
+      expect(UserRepository.update).toHaveBeenCalledWith('user-123', {
+        mfaEnabled: false,
+        mfaSecret: null,
+        mfaSecretIv: null,
+        mfaSecretTag: null,
+        mfaLastUsedStep: null,
+      });
+      expect(MfaRecoveryCodeRepository.deleteForUser).toHaveBeenCalledWith('user-123');
+    });
+
+    it('should require the correct password', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mfaUser);
+      (passwordUtils.comparePassword as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        mfaService.disable('user-123', 'WrongPass123!', generateTotpCode(secret))
+      ).rejects.toThrow('Password is incorrect');
+      expect(MfaRecoveryCodeRepository.deleteForUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { AuthFactor, MfaEnrollment, MfaStatus, User } from '../types/index.js';
+import UserRepository from '../repositories/UserRepository.js';
+import MfaRecoveryCodeRepository from '../repositories/MfaRecoveryCodeRepository.js';
+import { comparePassword } from '../utils/password.js';
+import { encryptText, decryptText } from '../utils/encryption.js';
+import { hashToken } from '../utils/tokens.js';
+import {
+  generateTotpSecret,
+  verifyTotpCode,
+  isTotpCode,
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from '../utils/totp.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+
+/**
+ * MfaService
+ * Handles TOTP enrollment, second-factor verification and recovery codes
+ */
+
+export class MfaService {
+  /**
+   * Get the MFA status of a user
+   * @param userId - The user's ID
+   * @returns Whether MFA is enabled and how many recovery codes are left
+   */
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const user = await this.getUser(userId);
+
+    return {
+      enabled: user.mfaEnabled,
+      recoveryCodesRemaining: user.mfaEnabled
+        ? await MfaRecoveryCodeRepository.countRemaining(userId)
+        : 0,
+    };
+  }
+
+  /**
+   * Start TOTP enrollment by generating a secret
+   * The secret is stored encrypted but MFA stays disabled until the user confirms a code
+   * @param userId - The user's ID
+   * @returns The secret and its provisioning URI
+   * @throws Error if MFA is already enabled
+   */
+  async beginEnrollment(userId: string): Promise<MfaEnrollment> {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new Error('MFA is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const encrypted = encryptText(secret);
+
+    await UserRepository.update(userId, {
+      mfaSecret: encrypted.cipherText,
+      mfaSecretIv: encrypted.iv,
+      mfaSecretTag: encrypted.tag,
+      mfaLastUsedStep: null,
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUrl(secret, user.email),
+    };
+  }
+
+  /**
+   * Finish TOTP enrollment once the user proves their authenticator works
+   * @param userId - The user's ID
+   * @param code - A current code from the authenticator app
+   * @returns One-time recovery codes, shown to the user only once
+   * @throws Error if enrollment was not started or the code is invalid
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new Error('MFA is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new Error('MFA enrollment has not been started');
+    }
+
+    if (!(await this.verifyTotp(user, code))) {
+      throw new Error('Invalid MFA code');
+    }
+
+    await UserRepository.update(userId, { mfaEnabled: true });
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    logAuditEvent(AuditEventType.MFA_ENABLED, {
+      userId,
+      email: user.email,
+      success: true,
+      metadata: { factor: 'totp' },
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn MFA off after re-checking both factors
+   * @param userId - The user's ID
+   * @param password - The user's current password
+   * @param code - A TOTP or recovery code
+   * @throws Error if MFA is not enabled or either factor is wrong
+   */
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled) {
+      throw new Error('MFA is not enabled');
+    }
+
+    if (!(await comparePassword(password, user.passwordHash))) {
+      throw new Error('Password is incorrect');
+    }
+
+    if (!(await this.verifySecondFactor(user, code))) {
+      throw new Error('Invalid MFA code');
+    }
+
+    await UserRepository.update(userId, {
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaSecretIv: null,
+      mfaSecretTag: null,
+      mfaLastUsedStep: null,
+    });
+    await MfaRecoveryCodeRepository.deleteForUser(userId);
+
+    logAuditEvent(AuditEventType.MFA_DISABLED, {
+      userId,
+      email: user.email,
+      success: true,
+    });
+  }
+
+  /**
+   * Replace all recovery codes with a fresh set
+   * @param userId - The user's ID
+   * @param code - A current TOTP code
+   * @returns The new recovery codes
+   * @throws Error if MFA is not enabled or the code is invalid
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled) {
+      throw new Error('MFA is not enabled');
+    }
+
+    if (!(await this.verifyTotp(user, code))) {
+      throw new Error('Invalid MFA code');
+    }
+
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    logAuditEvent(AuditEventType.MFA_RECOVERY_CODES_REGENERATED, {
+      userId,
+      email: user.email,
+      success: true,
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a second factor presented at login
+   * Six-digit codes are treated as TOTP codes, anything else as a recovery code
+   * @param user - The user logging in
+   * @param code - The code entered by the user
+   * @returns The factor that matched, or null if the code is invalid
+   */
+  async verifySecondFactor(user: User, code: string): Promise<AuthFactor | null> {
+    if (isTotpCode(code)) {
+      return (await this.verifyTotp(user, code)) ? 'totp' : null;
+    }
+
+    const consumed = await MfaRecoveryCodeRepository.consume(
+      user.id,
+      hashToken(normalizeRecoveryCode(code))
+    );
+    return consumed ? 'recovery_code' : null;
+  }
+
+  /**
+   * Verify a TOTP code and remember its time step so it cannot be replayed
+   */
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    if (!user.mfaSecret || !user.mfaSecretIv || !user.mfaSecretTag) {
+      return false;
+    }
+
+    const secret = decryptText({
+      cipherText: user.mfaSecret,
+      iv: user.mfaSecretIv,
+      tag: user.mfaSecretTag,
+    });
+
+    const step = verifyTotpCode(secret, code);
+    if (step === null) {
+      return false;
+    }
+
+    return UserRepository.claimMfaStep(user.id, step);
+  }
+
+  /**
+   * Generate and store a new set of hashed recovery codes
+   */
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await MfaRecoveryCodeRepository.replaceForUser(
+      userId,
+      recoveryCodes.map((code) => hashToken(code))
+    );
+    return recoveryCodes;
+  }
+
+  /**
+   * Load a user or fail
+   */
+  private async getUser(userId: string): Promise<User> {
+    const user = await UserRepository.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+}
+
+export default new MfaService();
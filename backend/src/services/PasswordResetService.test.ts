@@ -0,0 +1,146 @@
+import { PasswordResetService } from './PasswordResetService.js';
+import { User, UserRole } from '../types/index.js';
+import UserRepository from '../repositories/UserRepository.js';
+import AccountTokenRepository from '../repositories/AccountTokenRepository.js';
+import AccountTokenService from './AccountTokenService.js';
+import SessionService from './SessionService.js';
+import * as passwordUtils from '../utils/password.js';
+import { sendMail } from '../mail/mailer.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+
+// Mock dependencies
+jest.mock('../repositories/UserRepository.js');
+jest.mock('../repositories/AccountTokenRepository.js');
+jest.mock('./AccountTokenService.js');
+jest.mock('./SessionService.js');
+jest.mock('../utils/password.js');
+jest.mock('../mail/mailer.js');
+jest.mock('../utils/audit.js');
+jest.mock('../utils/logger.js');
+
+describe('PasswordResetService', () => {
+  let passwordResetService: PasswordResetService;
+
+  const mockUser: User = {
+    id: 'user-123',
+    email: 'user@example.com',
+    name: 'John Doe',
+    passwordHash: 'old-hash',
+    role: UserRole.USER,
+    aiConsent: false,
+    hasCompletedOnboarding: true,
+    failedLoginAttempts: 3,
+    lockoutUntil: null,
+    mfaEnabled: false,
+    mfaSecret: null,
+    mfaSecretIv: null,
+    mfaSecretTag: null,
+    mfaLastUsedStep: null,
+    emailVerifiedAt: null,
+    tokenVersion: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    passwordResetService = new PasswordResetService();
+    jest.clearAllMocks();
+    (passwordUtils.validatePassword as jest.Mock).mockReturnValue({ valid: true });
+  });
+
+  describe('requestReset', () => {
+    it('should email a reset link to a known user', async () => {
+      (UserRepository.findByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (AccountTokenService.issue as jest.Mock).mockResolvedValue('reset-token');
+
+      await passwordResetService.requestReset('user@example.com');
+
+      expect(AccountTokenService.issue).toHaveBeenCalledWith('user-123', 'password_reset', 3600);
+      const message = (sendMail as jest.Mock).mock.calls[0][0];
+      expect(message.to).toBe('user@example.com');
+      expect(message.text).toContain('/reset-password?token=reset-token');
+    });
+
+    it('should do nothing visible for an unknown email', async () => {
+      (UserRepository.findByEmail as jest.Mock).mockResolvedValue(null);
+
+      await expect(passwordResetService.requestReset('nobody@example.com')).resolves.toBeUndefined();
+
+      expect(AccountTokenService.issue).not.toHaveBeenCalled();
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should not fail when the email cannot be delivered', async () => {
+      (UserRepository.findByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (AccountTokenService.issue as jest.Mock).mockResolvedValue('reset-token');
+      (sendMail as jest.Mock).mockRejectedValue(new Error('SMTP down'));
+
+      await expect(passwordResetService.requestReset('user@example.com')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke every session', async () => {
+      (AccountTokenService.redeem as jest.Mock).mockResolvedValue('user-123');
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mockUser);
+      (passwordUtils.hashPassword as jest.Mock).mockResolvedValue('new-hash');
+      (SessionService.revokeAllSessions as jest.Mock).mockResolvedValue(2);
+
+      await passwordResetService.resetPassword('reset-token', 'NewValidPass123!', { ipAddress: '127.0.0.1' });
+
+      expect(UserRepository.update).toHaveBeenCalledWith('user-123', {
+        passwordHash: 'new-hash',
+        emailVerifiedAt: expect.any(Date),
+      });
+      expect(UserRepository.resetFailedLoginAttempts).toHaveBeenCalledWith('user-123');
+      expect(AccountTokenRepository.invalidateForUser).toHaveBeenCalledWith('user-123', 'password_reset');
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user-123');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        AuditEventType.PASSWORD_CHANGE_SUCCESS,
+        expect.objectContaining({
+          userId: 'user-123',
+          ip: '127.0.0.1',
+          success: true,
+          metadata: { method: 'reset', revokedSessions: 2 },
+        })
+      );
+    });
+
+    it('should keep the original verification date', async () => {
+      const verifiedAt = new Date('2024-01-01');
+      (AccountTokenService.redeem as jest.Mock).mockResolvedValue('user-123');
+      (UserRepository.findById as jest.Mock).mockResolvedValue({ ...mockUser, emailVerifiedAt: verifiedAt });
+      (passwordUtils.hashPassword as jest.Mock).mockResolvedValue('new-hash');
+
+      await passwordResetService.resetPassword('reset-token', 'NewValidPass123!');
+
+      expect(UserRepository.update).toHaveBeenCalledWith('user-123', { passwordHash: 'new-hash' });
+    });
+
+    it('should reject a weak password without using the token', async () => {
+      (passwordUtils.validatePassword as jest.Mock).mockReturnValue({
+        valid: false,
+        error: 'Password must contain at least one number',
+      });
+
+      await expect(
+        passwordResetService.resetPassword('reset-token', 'weakpassword')
+      ).rejects.toThrow('Password must contain at least one number');
+      expect(AccountTokenService.redeem).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid token', async () => {
+      (AccountTokenService.redeem as jest.Mock).mockRejectedValue(new Error('Invalid or expired token'));
+
+      await expect(
+        passwordResetService.resetPassword('bad-token', 'NewValidPass123!')
+      ).rejects.toThrow('Invalid or expired token');
+      expect(UserRepository.update).not.toHaveBeenCalled();
+      expect(SessionService.revokeAllSessions).not.toHaveBeenCalled();
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        AuditEventType.PASSWORD_CHANGE_FAILURE,
+        expect.objectContaining({ success: false })
+      );
+    });
+  });
+});
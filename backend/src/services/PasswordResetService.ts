@@ -0,0 +1,127 @@
+import { SessionContext } from '../types/index.js';
+import { hashPassword, validatePassword } from '../utils/password.js';
+import UserRepository from '../repositories/UserRepository.js';
+import AccountTokenRepository from '../repositories/AccountTokenRepository.js';
+import AccountTokenService from './AccountTokenService.js';
+import SessionService from './SessionService.js';
+import { sendMail } from '../mail/mailer.js';
+import { passwordResetEmail } from '../mail/templates.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+import logger from '../utils/logger.js';
+
+/**
+ * PasswordResetService
+ * Handles forgotten passwords: emailing reset links and setting a new password
+ */
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+export class PasswordResetService {
+  /**
+   * Email a password reset link
+   * Unknown addresses and delivery failures are only logged so the response never reveals
+   * whether an account exists
+   * @param email - The address the user entered
+   * @param context - Device information for the request
+   */
+  async requestReset(email: string, context: SessionContext = {}): Promise<void> {
+    if (!email) {
+      throw new Error('Email is required');
+    }
+
+    const user = await UserRepository.findByEmail(email.trim());
+    if (!user) {
+      logAuditEvent(AuditEventType.PASSWORD_RESET_REQUESTED, {
+        email,
+        ip: context.ipAddress,
+        userAgent: context.userAgent,
+        success: false,
+        metadata: { reason: 'Unknown email' },
+      });
+      return;
+    }
+
+    const token = await AccountTokenService.issue(user.id, 'password_reset', RESET_TOKEN_TTL_MINUTES * 60);
+    const resetUrl = `${FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+    try {
+      await sendMail(passwordResetEmail(user.email, user.name, resetUrl, RESET_TOKEN_TTL_MINUTES));
+    } catch (error) {
+      logger.error('Failed to send password reset email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    logAuditEvent(AuditEventType.PASSWORD_RESET_REQUESTED, {
+      userId: user.id,
+      email: user.email,
+      ip: context.ipAddress,
+      userAgent: context.userAgent,
+      success: true,
+    });
+  }
+
+  /**
+   * Set a new password using a reset token
+   * Every existing session is revoked so a stolen session cannot outlive the reset
+   * @param token - The reset token from the email link
+   * @param newPassword - The new password
+   * @param context - Device information for the request
+   * @throws Error if the password is invalid or the token is invalid, expired or already used
+   */
+  async resetPassword(token: string, newPassword: string, context: SessionContext = {}): Promise<void> {
+    if (!token || !newPassword) {
+      throw new Error('Token and new password are required');
+    }
+
+    // Validate before redeeming so a rejected password does not burn the link
+    const passwordValidation = validatePassword(newPassword);
+    if (!passwordValidation.valid) {
+      throw new Error(passwordValidation.error);
+    }
+
+    let userId: string;
+    try {
+      userId = await AccountTokenService.redeem(token, 'password_reset');
+    } catch (error) {
+      logAuditEvent(AuditEventType.PASSWORD_CHANGE_FAILURE, {
+        ip: context.ipAddress,
+        userAgent: context.userAgent,
+        success: false,
+        metadata: { method: 'reset', reason: error instanceof Error ? error.message : 'Unknown error' },
+      });
+      throw error;
+    }
+
+    const user = await UserRepository.findById(userId);
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+
+    // Following the emailed link also proves the address belongs to the user
+    await UserRepository.update(user.id, {
+      passwordHash,
+      ...(!user.emailVerifiedAt && { emailVerifiedAt: new Date() }),
+    });
+    await UserRepository.resetFailedLoginAttempts(user.id);
+    await AccountTokenRepository.invalidateForUser(user.id, 'password_reset');
+
+    const revokedSessions = await SessionService.revokeAllSessions(user.id);
+
+    logAuditEvent(AuditEventType.PASSWORD_CHANGE_SUCCESS, {
+      userId: user.id,
+      email: user.email,
+      ip: context.ipAddress,
+      userAgent: context.userAgent,
+      success: true,
+      metadata: { method: 'reset', revokedSessions },
+    });
+  }
+}
+
+export default new PasswordResetService();
@@ -0,0 +1,180 @@
+import { PersonalAccessTokenService } from './PersonalAccessTokenService.js';
+import PersonalAccessTokenRepository from '../repositories/PersonalAccessTokenRepository.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+import { hashToken } from '../utils/tokens.js';
+import { TokenScope, UserRole } from '../types/index.js';
+
+// Mock dependencies
+jest.mock('../repositories/PersonalAccessTokenRepository.js');
+jest.mock('../utils/audit.js');
+
+describe('PersonalAccessTokenService', () => {
+  let tokenService: PersonalAccessTokenService;
+
+  const storedToken = {
+    id: 'token-1',
+    userId: 'user-123',
+    name: 'Backup script',
+    tokenHash: hashToken('mcp_secret'),
+    tokenPrefix: 'mcp_secret',
+    scopes: [TokenScope.EXPORT],
+    expiresAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    revokedAt: null,
+    createdAt: new Date('2024-01-01'),
+    user: { id: 'user-123', email: 'user@example.com', role: UserRole.USER },
+  };
+
+  beforeEach(() => {
+    tokenService = new PersonalAccessTokenService();
+    jest.clearAllMocks();
+    (PersonalAccessTokenRepository.countActiveByUser as jest.Mock).mockResolvedValue(0);
+    (PersonalAccessTokenRepository.create as jest.Mock).mockImplementation(async (data) => ({
+      ...storedToken,
+      ...data,
+    }));
+  });
+
+  describe('createToken', () => {
+    it('should return the token once and store only its hash', async () => {
+      const result = await tokenService.createToken('user-123', {
+        name: ' Backup script ',
+        scopes: [TokenScope.EXPORT, TokenScope.EXPORT],
+      });
+
+      expect(result.token).toMatch(/^mcp_[A-Za-z0-9_-]{43}$/);
+      expect(PersonalAccessTokenRepository.create).toHaveBeenCalledWith({
+        userId: 'user-123',
+        name: 'Backup script',
+        tokenHash: hashToken(result.token),
+        tokenPrefix: result.token.slice(0, 12),
+        scopes: [TokenScope.EXPORT],
+        expiresAt: null,
+      });
+      expect(result).not.toHaveProperty('tokenHash');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        AuditEventType.PERSONAL_ACCESS_TOKEN_CREATED,
+        expect.objectContaining({ userId: 'user-123', resourceId: 'token-1' })
+      );
+    });
+
+    it('should set an expiry when a lifetime is given', async () => {
+      const before = Date.now();
+
+      const result = await tokenService.createToken('user-123', {
+        name: 'CI',
+        scopes: [TokenScope.ENTRIES_READ],
+        expiresInDays: 30,
+      });
+
+      const expiresAt = (result.expiresAt as Date).getTime();
+      expect(expiresAt).toBeGreaterThanOrEqual(before + 30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject unknown scopes', async () => {
+      await expect(
+        tokenService.createToken('user-123', {
+          name: 'Admin',
+          scopes: ['admin' as TokenScope],
+        })
+      ).rejects.toThrow('Invalid scope: admin');
+
+      expect(PersonalAccessTokenRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token without scopes', async () => {
+      await expect(
+        tokenService.createToken('user-123', { name: 'Empty', scopes: [] })
+      ).rejects.toThrow('At least one scope is required');
+    });
+
+    it('should reject an out of range lifetime', async () => {
+      await expect(
+        tokenService.createToken('user-123', {
+          name: 'Forever',
+          scopes: [TokenScope.EXPORT],
+          expiresInDays: 366,
+        })
+      ).rejects.toThrow('Invalid expiry');
+    });
+
+    it('should refuse to create more tokens than the limit', async () => {
+      (PersonalAccessTokenRepository.countActiveByUser as jest.Mock).mockResolvedValue(20);
+
+      await expect(
+        tokenService.createToken('user-123', { name: 'One more', scopes: [TokenScope.EXPORT] })
+      ).rejects.toThrow('Token limit reached');
+    });
+  });
+
+  describe('revokeToken', () => {
+    it('should audit a revoked token', async () => {
+      (PersonalAccessTokenRepository.revoke as jest.Mock).mockResolvedValue(true);
+
+      await expect(tokenService.revokeToken('user-123', 'token-1')).resolves.toBe(true);
+
+      expect(PersonalAccessTokenRepository.revoke).toHaveBeenCalledWith('token-1', 'user-123');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        AuditEventType.PERSONAL_ACCESS_TOKEN_REVOKED,
+        expect.objectContaining({ resourceId: 'token-1' })
+      );
+    });
+
+    it('should report a token that is not the user\'s', async () => {
+      (PersonalAccessTokenRepository.revoke as jest.Mock).mockResolvedValue(false);
+
+      await expect(tokenService.revokeToken('user-123', 'token-2')).resolves.toBe(false);
+      expect(logAuditEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the owner and scopes of a valid token', async () => {
+      (PersonalAccessTokenRepository.findByTokenHash as jest.Mock).mockResolvedValue(storedToken);
+
+      const result = await tokenService.authenticate('mcp_secret');
+
+      expect(PersonalAccessTokenRepository.findByTokenHash).toHaveBeenCalledWith(hashToken('mcp_secret'));
+      expect(result).toEqual({
+        tokenId: 'token-1',
+        userId: 'user-123',
+        email: 'user@example.com',
+        role: UserRole.USER,
+        scopes: [TokenScope.EXPORT],
+      });
+    });
+
+    it('should reject an unknown token', async () => {
+      (PersonalAccessTokenRepository.findByTokenHash as jest.Mock).mockResolvedValue(null);
+
+      await expect(tokenService.authenticate('mcp_unknown')).rejects.toThrow('Invalid token');
+    });
+
+    it('should reject a revoked token', async () => {
+      (PersonalAccessTokenRepository.findByTokenHash as jest.Mock).mockResolvedValue({
+        ...storedToken,
+        revokedAt: new Date(),
+      });
+
+      await expect(tokenService.authenticate('mcp_secret')).rejects.toThrow('Invalid token');
+    });
+
+    it('should reject an expired token', async () => {
+      (PersonalAccessTokenRepository.findByTokenHash as jest.Mock).mockResolvedValue({
+        ...storedToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(tokenService.authenticate('mcp_secret')).rejects.toThrow('expired');
+    });
+  });
+
+  describe('touchToken', () => {
+    it('should not throw when use cannot be recorded', async () => {
+      (PersonalAccessTokenRepository.touch as jest.Mock).mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(tokenService.touchToken('token-1')).resolves.toBeUndefined();
+    });
+  });
+});
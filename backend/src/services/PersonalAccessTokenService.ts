@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import {
+  CreatePersonalAccessTokenRequest,
+  PersonalAccessToken,
+  PersonalAccessTokenInfo,
+  SessionContext,
+  TokenScope,
+  UserRole,
+} from '../types/index.js';
+import { hashToken } from '../utils/tokens.js';
+import PersonalAccessTokenRepository from '../repositories/PersonalAccessTokenRepository.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+import logger from '../utils/logger.js';
+
+/**
+ * PersonalAccessTokenService
+ * Handles long-lived, scoped API tokens that users create for scripts and integrations
+ */
+
+export interface AuthenticatedToken {
+  tokenId: string;
+  userId: string;
+  email: string;
+  role: UserRole;
+  scopes: TokenScope[];
+}
+
+// Prefix that lets authMiddleware tell personal access tokens apart from JWTs
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'mcp_';
+
+// Number of leading characters shown to the user to tell tokens apart
+const DISPLAY_PREFIX_LENGTH = 12;
+
+const MAX_ACTIVE_TOKENS = 20;
+const MAX_EXPIRY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minimum time between last-used updates for the same token
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+const VALID_SCOPES = Object.values(TokenScope) as string[];
+
+export class PersonalAccessTokenService {
+  /**
+   * Strip a stored token down to what its owner may see
+   * @param token - The stored token
+   * @returns The token without its hash
+   */
+  private toInfo(token: PersonalAccessToken): PersonalAccessTokenInfo {
+    return {
+      id: token.id,
+      name: token.name,
+      tokenPrefix: token.tokenPrefix,
+      scopes: token.scopes as TokenScope[],
+      expiresAt: token.expiresAt,
+      lastUsedAt: token.lastUsedAt,
+      createdAt: token.createdAt,
+    };
+  }
+
+  /**
+   * Check whether a string looks like a personal access token
+   * @param token - The bearer credential
+   * @returns True if the credential should be authenticated as a personal access token
+   */
+  isPersonalAccessToken(token: string): boolean {
+    return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+  }
+
+  /**
+   * Create a token
+   * The token itself is only returned here; only its hash is stored
+   * @param userId - The token owner
+   * @param data - The token name, scopes and optional lifetime
+   * @param context - Device information for the audit log
+   * @returns The token details and the token
+   * @throws Error if the request is invalid or the user has too many tokens
+   */
+  async createToken(
+    userId: string,
+    data: CreatePersonalAccessTokenRequest,
+    context: SessionContext = {}
+  ): Promise<PersonalAccessTokenInfo & { token: string }> {
+    const scopes = Array.from(new Set(data.scopes));
+    if (scopes.length === 0) {
+      throw new Error('At least one scope is required');
+    }
+
+    const invalidScopes = scopes.filter((scope) => !VALID_SCOPES.includes(scope));
+    if (invalidScopes.length > 0) {
+      throw new Error(`Invalid scope: ${invalidScopes.join(', ')}. Must be one of: ${VALID_SCOPES.join(', ')}`);
+    }
+
+    let expiresAt: Date | null = null;
+    if (data.expiresInDays !== undefined) {
+      if (!Number.isInteger(data.expiresInDays) || data.expiresInDays < 1 || data.expiresInDays > MAX_EXPIRY_DAYS) {
+        throw new Error(`Invalid expiry: expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}`);
+      }
+      expiresAt = new Date(Date.now() + data.expiresInDays * DAY_MS);
+    }
+
+    if ((await PersonalAccessTokenRepository.countActiveByUser(userId)) >= MAX_ACTIVE_TOKENS) {
+      throw new Error(`Token limit reached: revoke a token before creating another (maximum ${MAX_ACTIVE_TOKENS})`);
+    }
+
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const created = await PersonalAccessTokenRepository.create({
+      userId,
+      name: data.name.trim(),
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes,
+      expiresAt,
+    });
+
+    logAuditEvent(AuditEventType.PERSONAL_ACCESS_TOKEN_CREATED, {
+      userId,
+      ip: context.ipAddress,
+      userAgent: context.userAgent,
+      resourceId: created.id,
+      success: true,
+      metadata: { scopes, expiresAt },
+    });
+
+    return { ...this.toInfo(created), token };
+  }
+
+  /**
+   * List the active tokens of a user
+   * @param userId - The token owner
+   * @returns Active tokens, newest first
+   */
+  async listTokens(userId: string): Promise<PersonalAccessTokenInfo[]> {
+    const tokens = await PersonalAccessTokenRepository.findActiveByUser(userId);
+    return tokens.map((token) => this.toInfo(token));
+  }
+
+  /**
+   * Revoke one of a user's tokens
+   * @param userId - The token owner
+   * @param tokenId - The token ID
+   * @param context - Device information for the audit log
+   * @returns True if the token belonged to the user and was active
+   */
+  async revokeToken(userId: string, tokenId: string, context: SessionContext = {}): Promise<boolean> {
+    const revoked = await PersonalAccessTokenRepository.revoke(tokenId, userId);
+
+    if (revoked) {
+      logAuditEvent(AuditEventType.PERSONAL_ACCESS_TOKEN_REVOKED, {
+        userId,
+        ip: context.ipAddress,
+        userAgent: context.userAgent,
+        resourceId: tokenId,
+        success: true,
+      });
+    }
+
+    return revoked;
+  }
+
+  /**
+   * Authenticate a request made with a personal access token
+   * @param token - The bearer credential
+   * @returns The token owner and the scopes granted
+   * @throws Error if the token is unknown, revoked or expired
+   */
+  async authenticate(token: string): Promise<AuthenticatedToken> {
+    const stored = await PersonalAccessTokenRepository.findByTokenHash(hashToken(token));
+
+    if (!stored || stored.revokedAt) {
+      throw new Error('Invalid token');
+    }
+
+    if (stored.expiresAt && stored.expiresAt <= new Date()) {
+      throw new Error('Token has expired');
+    }
+
+    return {
+      tokenId: stored.id,
+      userId: stored.user.id,
+      email: stored.user.email,
+      role: stored.user.role,
+      scopes: stored.scopes as TokenScope[],
+    };
+  }
+
+  /**
+   * Record that a token was used
+   * Failures are logged and ignored so that usage tracking never blocks a request
+   * @param tokenId - The token ID
+   * @param ipAddress - The address the token was used from
+   */
+  async touchToken(tokenId: string, ipAddress?: string): Promise<void> {
+    try {
+      await PersonalAccessTokenRepository.touch(
+        tokenId,
+        new Date(Date.now() - LAST_USED_INTERVAL_MS),
+        ipAddress
+      );
+    } catch (error) {
+      logger.warn('Failed to record personal access token use', {
+        tokenId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+export default new PersonalAccessTokenService();
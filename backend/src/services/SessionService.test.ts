@@ -0,0 +1,336 @@
+import { SessionService } from './SessionService.js';
+import SessionRepository from '../repositories/SessionRepository.js';
+import UserRepository from '../repositories/UserRepository.js';
+import * as jwtUtils from '../utils/jwt.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+import { hashToken } from '../utils/tokens.js';
+import { getRedisClient } from '../utils/redis.js';
+import { UserRole } from '../types/index.js';
+
+// Mock dependencies
+jest.mock('../repositories/SessionRepository.js');
+jest.mock('../repositories/UserRepository.js');
+jest.mock('../utils/jwt.js');
+jest.mock('../utils/audit.js');
+jest.mock('../utils/redis.js', () => ({ getRedisClient: jest.fn() }));
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+  const expiresAt = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60;
+
+  const mockUser = {
+    id: 'user-123',
+    email: 'user@example.com',
+    name: 'John Doe',
+    passwordHash: 'hashed-password',
+    role: UserRole.USER,
+    tokenVersion: 2,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const activeSession = {
+    id: 'session-row-1',
+    userId: 'user-123',
+    familyId: 'family-1',
+    tokenHash: hashToken('refresh-token-1'),
+    userAgent: 'Mozilla/5.0',
+    ipAddress: '127.0.0.1',
+    expiresAt: new Date(expiresAt * 1000),
+    revokedAt: null,
+    replacedById: null,
+    signedInAt: new Date('2024-01-01'),
+    lastSeenAt: new Date('2024-01-02'),
+    createdAt: new Date(),
+  };
+
+  const expectedClaims = {
+    userId: 'user-123',
+    email: 'user@example.com',
+    role: UserRole.USER,
+    tokenVersion: 2,
+  };
+
+  // An in-memory Redis
+  const cache = new Map<string, string>();
+  const redis = {
+    get: jest.fn(async (key: string) => cache.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => {
+      cache.set(key, value);
+      return 'OK';
+    }),
+    del: jest.fn(async (...keys: string[]) => keys.filter((key) => cache.delete(key)).length),
+  };
+
+  beforeEach(() => {
+    sessionService = new SessionService();
+    jest.clearAllMocks();
+    cache.clear();
+    (getRedisClient as jest.Mock).mockReturnValue(redis);
+    (jwtUtils.decodeToken as jest.Mock).mockReturnValue({ exp: expiresAt });
+  });
+
+  describe('createSession', () => {
+    it('should issue tokens bound to a new session and store the hashed refresh token', async () => {
+      (jwtUtils.generateTokenPair as jest.Mock).mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+      });
+
+      const result = await sessionService.createSession(mockUser, {
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '127.0.0.1',
+      });
+
+      expect(result).toEqual({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+
+      const familyId = (jwtUtils.generateTokenPair as jest.Mock).mock.calls[0][1];
+      expect(jwtUtils.generateTokenPair).toHaveBeenCalledWith(expectedClaims, familyId);
+      expect(SessionRepository.create).toHaveBeenCalledWith({
+        userId: 'user-123',
+        familyId,
+        tokenHash: hashToken('refresh-token'),
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '127.0.0.1',
+        expiresAt: new Date(expiresAt * 1000),
+      });
+    });
+  });
+
+  describe('rotateSession', () => {
+    beforeEach(() => {
+      (jwtUtils.verifyRefreshToken as jest.Mock).mockResolvedValue({
+        userId: 'user-123',
+        type: 'refresh',
+        jti: 'jti-1',
+        sessionId: 'family-1',
+      });
+      (jwtUtils.generateTokenPair as jest.Mock).mockResolvedValue({
+        accessToken: 'access-token-2',
+        refreshToken: 'refresh-token-2',
+      });
+    });
+
+    it('should rotate an active refresh token', async () => {
+      (SessionRepository.findByTokenHash as jest.Mock).mockResolvedValue(activeSession);
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mockUser);
+      (SessionRepository.rotate as jest.Mock).mockResolvedValue({ ...activeSession, id: 'session-row-2' });
+
+      const result = await sessionService.rotateSession('refresh-token-1');
+
+      expect(result).toEqual({ accessToken: 'access-token-2', refreshToken: 'refresh-token-2' });
+      expect(SessionRepository.findByTokenHash).toHaveBeenCalledWith(hashToken('refresh-token-1'));
+      expect(jwtUtils.generateTokenPair).toHaveBeenCalledWith(expectedClaims, 'family-1');
+      expect(SessionRepository.rotate).toHaveBeenCalledWith('session-row-1', expect.objectContaining({
+        familyId: 'family-1',
+        tokenHash: hashToken('refresh-token-2'),
+        signedInAt: activeSession.signedInAt,
+      }));
+      expect(logAuditEvent).toHaveBeenCalledWith(AuditEventType.TOKEN_REFRESHED, expect.anything());
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      (SessionRepository.findByTokenHash as jest.Mock).mockResolvedValue(null);
+
+      await expect(sessionService.rotateSession('refresh-token-1')).rejects.toThrow('Invalid refresh token');
+      expect(SessionRepository.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole family when a rotated token is replayed', async () => {
+      (SessionRepository.findByTokenHash as jest.Mock).mockResolvedValue({
+        ...activeSession,
+        revokedAt: new Date(),
+        replacedById: 'session-row-2',
+      });
+
+      await expect(sessionService.rotateSession('refresh-token-1')).rejects.toThrow('Invalid refresh token');
+
+      expect(SessionRepository.revokeFamily).toHaveBeenCalledWith('family-1');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        AuditEventType.REFRESH_TOKEN_REUSE_DETECTED,
+        expect.objectContaining({ userId: 'user-123', success: false })
+      );
+      expect(SessionRepository.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token from a logged out session without flagging reuse', async () => {
+      (SessionRepository.findByTokenHash as jest.Mock).mockResolvedValue({
+        ...activeSession,
+        revokedAt: new Date(),
+      });
+
+      await expect(sessionService.rotateSession('refresh-token-1')).rejects.toThrow('Invalid refresh token');
+      expect(SessionRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired session', async () => {
+      (SessionRepository.findByTokenHash as jest.Mock).mockResolvedValue({
+        ...activeSession,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(sessionService.rotateSession('refresh-token-1')).rejects.toThrow('Refresh token has expired');
+    });
+
+    it('should treat losing a concurrent rotation as reuse', async () => {
+      (SessionRepository.findByTokenHash as jest.Mock).mockResolvedValue(activeSession);
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mockUser);
+      (SessionRepository.rotate as jest.Mock).mockResolvedValue(null);
+
+      await expect(sessionService.rotateSession('refresh-token-1')).rejects.toThrow('Invalid refresh token');
+      expect(SessionRepository.revokeFamily).toHaveBeenCalledWith('family-1');
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke an active session and log the event', async () => {
+      (SessionRepository.revokeFamily as jest.Mock).mockResolvedValue(1);
+
+      const result = await sessionService.revokeSession('user-123', 'family-1');
+
+      expect(result).toBe(true);
+      expect(SessionRepository.revokeFamily).toHaveBeenCalledWith('family-1', 'user-123');
+      expect(logAuditEvent).toHaveBeenCalledWith(AuditEventType.SESSION_REVOKED, expect.anything());
+    });
+
+    it('should return false when nothing was revoked', async () => {
+      (SessionRepository.revokeFamily as jest.Mock).mockResolvedValue(0);
+
+      const result = await sessionService.revokeSession('user-123', 'family-1');
+
+      expect(result).toBe(false);
+      expect(logAuditEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should expose session families and flag the current one', async () => {
+      (SessionRepository.findActiveByUser as jest.Mock).mockResolvedValue([
+        activeSession,
+        { ...activeSession, id: 'session-row-9', familyId: 'family-2', userAgent: null, ipAddress: null },
+      ]);
+
+      const result = await sessionService.listSessions('user-123', 'family-2');
+
+      expect(result).toEqual([
+        {
+          id: 'family-1',
+          userAgent: 'Mozilla/5.0',
+          ipAddress: '127.0.0.1',
+          signedInAt: activeSession.signedInAt,
+          lastSeenAt: activeSession.lastSeenAt,
+          current: false,
+        },
+        {
+          id: 'family-2',
+          userAgent: null,
+          ipAddress: null,
+          signedInAt: activeSession.signedInAt,
+          lastSeenAt: activeSession.lastSeenAt,
+          current: true,
+        },
+      ]);
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('should keep the current session and revoke the rest', async () => {
+      (SessionRepository.findActiveByUser as jest.Mock).mockResolvedValue([
+        activeSession,
+        { ...activeSession, familyId: 'family-2' },
+        { ...activeSession, familyId: 'family-3' },
+      ]);
+      (SessionRepository.revokeAllForUser as jest.Mock).mockResolvedValue(2);
+
+      const result = await sessionService.revokeOtherSessions('user-123', 'family-1');
+
+      expect(result).toBe(2);
+      expect(SessionRepository.revokeAllForUser).toHaveBeenCalledWith('user-123', 'family-1');
+      expect(redis.del).toHaveBeenCalledWith('session-owner:family-2', 'session-owner:family-3');
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        AuditEventType.SESSION_REVOKED,
+        expect.objectContaining({ metadata: { revokedCount: 2 } })
+      );
+    });
+  });
+
+  describe('touchSession', () => {
+    it('should not throw when activity cannot be recorded', async () => {
+      (SessionRepository.touch as jest.Mock).mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(sessionService.touchSession('family-1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('isAccessTokenCurrent', () => {
+    const payload = {
+      ...expectedClaims,
+      sessionId: 'family-1',
+      iat: 0,
+      exp: 0,
+    };
+
+    it('should accept a token whose session is active and version matches', async () => {
+      (SessionRepository.findActiveFamilyOwner as jest.Mock).mockResolvedValue({ id: 'user-123', tokenVersion: 2 });
+
+      await expect(sessionService.isAccessTokenCurrent(payload)).resolves.toBe(true);
+      expect(SessionRepository.findActiveFamilyOwner).toHaveBeenCalledWith('family-1');
+    });
+
+    it('should reject a token whose session was revoked', async () => {
+      (SessionRepository.findActiveFamilyOwner as jest.Mock).mockResolvedValue(null);
+
+      await expect(sessionService.isAccessTokenCurrent(payload)).resolves.toBe(false);
+    });
+
+    it('should reject a token issued before the role changed', async () => {
+      (SessionRepository.findActiveFamilyOwner as jest.Mock).mockResolvedValue({ id: 'user-123', tokenVersion: 3 });
+
+      await expect(sessionService.isAccessTokenCurrent(payload)).resolves.toBe(false);
+    });
+
+    it('should check the user directly for tokens without a session', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(mockUser);
+
+      const { sessionId: _sessionId, ...sessionless } = payload;
+
+      await expect(sessionService.isAccessTokenCurrent(sessionless)).resolves.toBe(true);
+      expect(UserRepository.findById).toHaveBeenCalledWith('user-123');
+    });
+
+    it('should cache the session owner until the session is revoked', async () => {
+      (SessionRepository.findActiveFamilyOwner as jest.Mock).mockResolvedValue({ id: 'user-123', tokenVersion: 2 });
+      (SessionRepository.revokeFamily as jest.Mock).mockResolvedValue(1);
+
+      await expect(sessionService.isAccessTokenCurrent(payload)).resolves.toBe(true);
+      await expect(sessionService.isAccessTokenCurrent(payload)).resolves.toBe(true);
+      expect(SessionRepository.findActiveFamilyOwner).toHaveBeenCalledTimes(1);
+      expect(redis.set).toHaveBeenCalledWith('session-owner:family-1', expect.any(String), 'EX', 30);
+
+      await sessionService.revokeSession('user-123', 'family-1');
+      (SessionRepository.findActiveFamilyOwner as jest.Mock).mockResolvedValue(null);
+
+      await expect(sessionService.isAccessTokenCurrent(payload)).resolves.toBe(false);
+    });
+
+    it('should stop using cached owners once the token version changes', async () => {
+      (SessionRepository.findActiveFamilyOwner as jest.Mock).mockResolvedValue({ id: 'user-123', tokenVersion: 2 });
+      (SessionRepository.findActiveByUser as jest.Mock).mockResolvedValue([activeSession]);
+      await sessionService.isAccessTokenCurrent(payload);
+
+      (SessionRepository.findActiveFamilyOwner as jest.Mock).mockResolvedValue({ id: 'user-123', tokenVersion: 3 });
+      await sessionService.forgetTokenVersion('user-123');
+
+      await expect(sessionService.isAccessTokenCurrent(payload)).resolves.toBe(false);
+    });
+
+    it('should check the database when Redis is unavailable', async () => {
+      redis.get.mockRejectedValueOnce(new Error('Connection is closed.'));
+      redis.set.mockRejectedValueOnce(new Error('Connection is closed.'));
+      (SessionRepository.findActiveFamilyOwner as jest.Mock).mockResolvedValue({ id: 'user-123', tokenVersion: 2 });
+
+      await expect(sessionService.isAccessTokenCurrent(payload)).resolves.toBe(true);
+      expect(SessionRepository.findActiveFamilyOwner).toHaveBeenCalledWith('family-1');
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import crypto from 'crypto';
+import { SessionContext, SessionInfo, JWTPayload, AccessTokenClaims, User } from '../types/index.js';
+import { generateTokenPair, verifyRefreshToken, decodeToken } from '../utils/jwt.js';
+import { hashToken } from '../utils/tokens.js';
+import SessionRepository from '../repositories/SessionRepository.js';
+import UserRepository from '../repositories/UserRepository.js';
+import { logAuditEvent, AuditEventType } from '../utils/audit.js';
+import logger from '../utils/logger.js';
+import { getRedisClient } from '../utils/redis.js';
+
+/**
+ * SessionService
+ * Handles server-side refresh token sessions including rotation, reuse detection and revocation
+ */
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Minimum time between last-seen updates for the same session
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+// How long a session's owner is cached for access token checks; also how long a
+// revocation can go unnoticed if clearing the cache fails
+const OWNER_CACHE_TTL_SECONDS = 30;
+
+interface SessionOwner {
+  id: string;
+  tokenVersion: number;
+}
+
+function ownerCacheKey(familyId: string): string {
+  return `session-owner:${familyId}`;
+}
+
+export class SessionService {
+  /**
+   * Read the expiry of a freshly signed refresh token
+   * @param refreshToken - The refresh token
+   * @returns The expiry as a Date
+   */
+  private getExpiry(refreshToken: string): Date {
+    const decoded = decodeToken(refreshToken);
+    return new Date((decoded?.exp as number) * 1000);
+  }
+
+  /**
+   * Build the claims embedded in a user's access tokens
+   * @param user - The user the tokens are issued to
+   * @returns The access token claims
+   */
+  private getClaims(user: Pick<User, 'id' | 'email' | 'role' | 'tokenVersion'>): AccessTokenClaims {
+    return {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      tokenVersion: user.tokenVersion,
+    };
+  }
+
+  /**
+   * Start a new session for a user and issue its first token pair
+   * @param user - The authenticated user
+   * @param context - Device information for the session
+   * @returns The access and refresh tokens
+   */
+  async createSession(
+    user: Pick<User, 'id' | 'email' | 'role' | 'tokenVersion'>,
+    context: SessionContext = {}
+  ): Promise<TokenPair> {
+    const familyId = crypto.randomUUID();
+    const tokens = await generateTokenPair(this.getClaims(user), familyId);
+
+    await SessionRepository.create({
+      userId: user.id,
+      familyId,
+      tokenHash: hashToken(tokens.refreshToken),
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      expiresAt: this.getExpiry(tokens.refreshToken),
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * A token that was already rotated is treated as stolen and its whole family is revoked
+   * @param refreshToken - The refresh token presented by the client
+   * @param context - Device information for the request
+   * @returns The new access and refresh tokens
+   * @throws Error if the token is invalid, expired, revoked or reused
+   */
+  async rotateSession(refreshToken: string, context: SessionContext = {}): Promise<TokenPair> {
+    const payload = await verifyRefreshToken(refreshToken);
+
+    const session = await SessionRepository.findByTokenHash(hashToken(refreshToken));
+    if (!session || session.userId !== payload.userId) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.revokedAt) {
+      if (session.replacedById) {
+        await this.handleReuse(session.familyId, session.userId, context);
+      }
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.expiresAt <= new Date()) {
+      throw new Error('Refresh token has expired');
+    }
+
+    const user = await UserRepository.findById(session.userId);
+    if (!user) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const tokens = await generateTokenPair(this.getClaims(user), session.familyId);
+
+    const replacement = await SessionRepository.rotate(session.id, {
+      userId: user.id,
+      familyId: session.familyId,
+      tokenHash: hashToken(tokens.refreshToken),
+      userAgent: context.userAgent ?? session.userAgent ?? undefined,
+      ipAddress: context.ipAddress ?? session.ipAddress ?? undefined,
+      expiresAt: this.getExpiry(tokens.refreshToken),
+      signedInAt: session.signedInAt,
+    });
+
+    // Another request rotated this token first
+    if (!replacement) {
+      await this.handleReuse(session.familyId, session.userId, context);
+      throw new Error('Invalid refresh token');
+    }
+
+    logAuditEvent(AuditEventType.TOKEN_REFRESHED, {
+      userId: user.id,
+      ip: context.ipAddress,
+      userAgent: context.userAgent,
+      resourceId: session.familyId,
+      success: true,
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Revoke a session so that neither its access nor refresh tokens are accepted
+   * @param userId - The session owner
+   * @param sessionId - The session family ID
+   * @returns True if an active session was revoked
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const revoked = await SessionRepository.revokeFamily(sessionId, userId);
+    await this.forgetOwners([sessionId]);
+
+    if (revoked > 0) {
+      logAuditEvent(AuditEventType.SESSION_REVOKED, {
+        userId,
+        resourceId: sessionId,
+        success: true,
+      });
+    }
+
+    return revoked > 0;
+  }
+
+  /**
+   * List the active sessions of a user
+   * @param userId - The session owner
+   * @param currentSessionId - The session making the request, flagged as current
+   * @returns The active sessions, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    const sessions = await SessionRepository.findActiveByUser(userId);
+
+    return sessions.map((session) => ({
+      id: session.familyId,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      signedInAt: session.signedInAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session.familyId === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke every session of a user except the current one
+   * @param userId - The session owner
+   * @param currentSessionId - The session to keep
+   * @returns The number of sessions revoked
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    const revoked = await this.revokeAllSessions(userId, currentSessionId);
+
+    if (revoked > 0) {
+      logAuditEvent(AuditEventType.SESSION_REVOKED, {
+        userId,
+        success: true,
+        action: 'REVOKE_OTHER_SESSIONS',
+        metadata: { revokedCount: revoked },
+      });
+    }
+
+    return revoked;
+  }
+
+  /**
+   * Revoke every session of a user
+   * @param userId - The session owner
+   * @param exceptSessionId - A session to keep
+   * @returns The number of sessions revoked
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    // Listed first, since revoked sessions are no longer found
+    const sessions = await SessionRepository.findActiveByUser(userId);
+    const revoked = await SessionRepository.revokeAllForUser(userId, exceptSessionId);
+    await this.forgetOwners(
+      sessions.map((session) => session.familyId).filter((familyId) => familyId !== exceptSessionId)
+    );
+    return revoked;
+  }
+
+  /**
+   * Stop relying on the cached token version of a user's sessions, after it was changed
+   * @param userId - The session owner
+   */
+  async forgetTokenVersion(userId: string): Promise<void> {
+    const sessions = await SessionRepository.findActiveByUser(userId);
+    await this.forgetOwners(sessions.map((session) => session.familyId));
+  }
+
+  /**
+   * Record that a session was used
+   * Failures are logged and ignored so that activity tracking never blocks a request
+   * @param sessionId - The session family ID
+   * @param context - Device information for the request
+   */
+  async touchSession(sessionId: string, context: SessionContext = {}): Promise<void> {
+    try {
+      await SessionRepository.touch(
+        sessionId,
+        new Date(Date.now() - LAST_SEEN_INTERVAL_MS),
+        context
+      );
+    } catch (error) {
+      logger.warn('Failed to record session activity', {
+        sessionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Check whether an access token may still be used
+   * The token's session must be active and its token version must match the user's,
+   * so that changing a user's role invalidates tokens carrying the old one
+   * @param payload - The verified access token payload
+   * @returns True if the token is still current
+   */
+  async isAccessTokenCurrent(payload: JWTPayload): Promise<boolean> {
+    const owner = payload.sessionId
+      ? await this.findSessionOwner(payload.sessionId)
+      : await UserRepository.findById(payload.userId);
+
+    return !!owner && owner.id === payload.userId && owner.tokenVersion === payload.tokenVersion;
+  }
+
+  /**
+   * Find the owner of an active session, cached briefly since every authenticated request
+   * checks it. Redis being unreachable only costs the database query.
+   */
+  private async findSessionOwner(familyId: string): Promise<SessionOwner | null> {
+    const key = ownerCacheKey(familyId);
+    try {
+      const cached = await getRedisClient().get(key);
+      if (cached) {
+        return JSON.parse(cached) as SessionOwner;
+      }
+    } catch {
+      // Fall through to the database
+    }
+
+    const owner = await SessionRepository.findActiveFamilyOwner(familyId);
+    if (owner) {
+      await getRedisClient()
+        .set(key, JSON.stringify({ id: owner.id, tokenVersion: owner.tokenVersion }), 'EX', OWNER_CACHE_TTL_SECONDS)
+        .catch(() => undefined);
+    }
+    return owner;
+  }
+
+  /**
+   * Clear the cached owners of sessions that were revoked or whose token version changed
+   * A failure is logged; the stale entries then expire on their own.
+   */
+  private async forgetOwners(familyIds: string[]): Promise<void> {
+    if (familyIds.length === 0) {
+      return;
+    }
+    try {
+      await getRedisClient().del(...familyIds.map(ownerCacheKey));
+    } catch (error) {
+      logger.warn('Failed to clear cached session owners', {
+        sessionIds: familyIds,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Revoke a whole session family after a refresh token was replayed
+   */
+  private async handleReuse(familyId: string, userId: string, context: SessionContext): Promise<void> {
+    await SessionRepository.revokeFamily(familyId);
+    await this.forgetOwners([familyId]);
+
+    logAuditEvent(AuditEventType.REFRESH_TOKEN_REUSE_DETECTED, {
+      userId,
+      ip: context.ipAddress,
+      userAgent: context.userAgent,
+      resourceId: familyId,
+      success: false,
+      metadata: { action: 'Session family revoked' },
+    });
+  }
+}
+
+export default new SessionService();
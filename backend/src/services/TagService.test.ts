@@ -0,0 +1,85 @@
+import { TagService } from './TagService.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+
+// Mock dependencies
+jest.mock('../repositories/EntryRepository.js');
+
+describe('TagService', () => {
+  let tagService: TagService;
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    tagService = new TagService();
+    jest.clearAllMocks();
+    (EntryRepository.replaceTags as jest.Mock).mockResolvedValue(2);
+  });
+
+  describe('getTags', () => {
+    it('should return the tag counts from the repository', async () => {
+      const tags = [
+        { tag: 'work', count: 3, lastUsedAt: new Date('2026-03-01') },
+        { tag: 'family', count: 1, lastUsedAt: new Date('2026-02-01') },
+      ];
+      (EntryRepository.findTagCounts as jest.Mock).mockResolvedValue(tags);
+
+      const result = await tagService.getTags(userId);
+
+      expect(EntryRepository.findTagCounts).toHaveBeenCalledWith(userId);
+      expect(result).toEqual(tags);
+    });
+
+    it('should reject a missing user ID', async () => {
+      await expect(tagService.getTags('')).rejects.toThrow('User ID is required');
+    });
+  });
+
+  describe('renameTag', () => {
+    it('should rename the normalized tag on every entry', async () => {
+      const result = await tagService.renameTag(userId, 'Work ', '  Day  Job');
+
+      expect(EntryRepository.replaceTags).toHaveBeenCalledWith(userId, ['work'], 'day job');
+      expect(result).toEqual({ tag: 'day job', entriesUpdated: 2 });
+    });
+
+    it('should reject a name that only differs in case or spacing', async () => {
+      await expect(tagService.renameTag(userId, 'work', ' WORK ')).rejects.toThrow(
+        'Name must be different from the current tag'
+      );
+      expect(EntryRepository.replaceTags).not.toHaveBeenCalled();
+    });
+
+    it('should report a tag no entry has as not found', async () => {
+      (EntryRepository.replaceTags as jest.Mock).mockResolvedValue(0);
+
+      await expect(tagService.renameTag(userId, 'missing', 'found')).rejects.toThrow('Tag not found');
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('should merge the other tags into the target', async () => {
+      const result = await tagService.mergeTags(userId, ['Job', 'work', 'office', 'JOB'], 'Work');
+
+      expect(EntryRepository.replaceTags).toHaveBeenCalledWith(userId, ['job', 'office'], 'work');
+      expect(result).toEqual({ tag: 'work', entriesUpdated: 2 });
+    });
+
+    it('should reject merging a tag only into itself', async () => {
+      await expect(tagService.mergeTags(userId, ['work'], 'Work')).rejects.toThrow(
+        'Tags must list between 1 and 50 tags other than the target'
+      );
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should remove the tag from every entry', async () => {
+      const result = await tagService.deleteTag(userId, 'Work');
+
+      expect(EntryRepository.replaceTags).toHaveBeenCalledWith(userId, ['work'], null);
+      expect(result).toEqual({ tag: null, entriesUpdated: 2 });
+    });
+
+    it('should reject an empty tag', async () => {
+      await expect(tagService.deleteTag(userId, '   ')).rejects.toThrow('Tag is required');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { TagChangeResult, TagCount } from '../types/index.js';
+import EntryRepository from '../repositories/EntryRepository.js';
+import { normalizeTag, normalizeTags } from '../utils/tags.js';
+
+/**
+ * TagService
+ * Handles the tags on a user's journal entries: listing them, and renaming, merging and
+ * deleting them across every entry at once
+ */
+
+// How many tags can be merged in one request
+const MAX_MERGE_TAGS = 50;
+
+export class TagService {
+  private requireTag(tag: unknown, field: string): string {
+    const normalized = typeof tag === 'string' ? normalizeTag(tag) : '';
+    if (!normalized) {
+      throw new Error(`${field} is required and must be a non-empty string`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Replace tags on all of the user's entries
+   * @throws Error 'Tag not found' if no entry has any of the tags
+   */
+  private async replace(userId: string, sources: string[], target: string | null): Promise<TagChangeResult> {
+    const entriesUpdated = await EntryRepository.replaceTags(userId, sources, target);
+    if (entriesUpdated === 0) {
+      throw new Error('Tag not found');
+    }
+
+    return { tag: target, entriesUpdated };
+  }
+
+  /**
+   * Get the tags a user has used, with how many entries use each, for autocomplete and the tag manager
+   * @param userId - The user's ID
+   * @returns The tags, most used first
+   * @throws Error if the user ID is missing
+   */
+  async getTags(userId: string): Promise<TagCount[]> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    return EntryRepository.findTagCounts(userId);
+  }
+
+  /**
+   * Rename a tag on all of the user's entries
+   * Renaming to a tag that is already used merges the two.
+   * @param userId - The user's ID
+   * @param tag - The tag to rename
+   * @param name - The new name
+   * @returns The new tag and how many entries were changed
+   * @throws Error if the names are missing or the same, or no entry has the tag
+   */
+  async renameTag(userId: string, tag: string, name: string): Promise<TagChangeResult> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const from = this.requireTag(tag, 'Tag');
+    const to = this.requireTag(name, 'Name');
+    if (from === to) {
+      throw new Error('Name must be different from the current tag');
+    }
+
+    return this.replace(userId, [from], to);
+  }
+
+  /**
+   * Merge tags into one on all of the user's entries
+   * @param userId - The user's ID
+   * @param tags - The tags to merge; may include the target
+   * @param into - The tag the entries get instead
+   * @returns The target tag and how many entries were changed
+   * @throws Error if no tags are given, or no entry has any of them
+   */
+  async mergeTags(userId: string, tags: string[], into: string): Promise<TagChangeResult> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string')) {
+      throw new Error('Tags must be an array of strings');
+    }
+
+    const target = this.requireTag(into, 'Target tag');
+    const sources = normalizeTags(tags).filter((tag) => tag !== target);
+    if (sources.length === 0 || sources.length > MAX_MERGE_TAGS) {
+      throw new Error(`Tags must list between 1 and ${MAX_MERGE_TAGS} tags other than the target`);
+    }
+
+    return this.replace(userId, sources, target);
+  }
+
+  /**
+   * Remove a tag from all of the user's entries
+   * @param userId - The user's ID
+   * @param tag - The tag to remove
+   * @returns How many entries were changed
+   * @throws Error if no entry has the tag
+   */
+  async deleteTag(userId: string, tag: string): Promise<TagChangeResult> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    return this.replace(userId, [this.requireTag(tag, 'Tag')], null);
+  }
+}
+
+export default new TagService();
@@ -0,0 +1,133 @@
+import { TemplateService } from './TemplateService.js';
+import TemplateRepository from '../repositories/TemplateRepository.js';
+
+// Mock dependencies
+jest.mock('../repositories/TemplateRepository.js');
+
+describe('TemplateService', () => {
+  let templateService: TemplateService;
+  const userId = 'user-123';
+
+  const morningPages = {
+    id: 'template-1',
+    userId,
+    name: 'Morning pages',
+    description: null,
+    sections: [{ key: 'pages', label: 'Pages', type: 'text' }],
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+  };
+  const gratitudeList = { ...morningPages, id: 'template_gratitude_list', userId: null, name: 'Gratitude list' };
+
+  beforeEach(() => {
+    templateService = new TemplateService();
+    jest.clearAllMocks();
+    (TemplateRepository.countByUserId as jest.Mock).mockResolvedValue(1);
+    (TemplateRepository.create as jest.Mock).mockImplementation(async (owner, data) => ({
+      ...morningPages,
+      userId: owner,
+      ...data,
+    }));
+  });
+
+  describe('createTemplate', () => {
+    it('should derive section keys from the labels and default the type to text', async () => {
+      await templateService.createTemplate(userId, {
+        name: ' Weekly review ',
+        sections: [
+          { label: 'What went well?' },
+          { label: 'Energy', type: 'rating', prompt: ' How much energy did you have? ' },
+          { label: '!!!', type: 'list' },
+        ],
+      });
+
+      expect(TemplateRepository.create).toHaveBeenCalledWith(userId, {
+        name: 'Weekly review',
+        description: null,
+        sections: [
+          { key: 'what_went_well', label: 'What went well?', type: 'text' },
+          { key: 'energy', label: 'Energy', type: 'rating', prompt: 'How much energy did you have?' },
+          { key: 'section_3', label: '!!!', type: 'list' },
+        ],
+      });
+    });
+
+    it('should reject sections with the same key', async () => {
+      await expect(
+        templateService.createTemplate(userId, {
+          name: 'Twice',
+          sections: [{ label: 'Notes' }, { label: 'notes' }],
+        })
+      ).rejects.toThrow('Section keys must be different from each other');
+      expect(TemplateRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown section type', async () => {
+      await expect(
+        templateService.createTemplate(userId, {
+          name: 'Odd',
+          sections: [{ label: 'Mood', type: 'slider' as never }],
+        })
+      ).rejects.toThrow('Section type must be one of: text, list, rating');
+    });
+
+    it('should reject a template without sections', async () => {
+      await expect(
+        templateService.createTemplate(userId, { name: 'Empty', sections: [] })
+      ).rejects.toThrow('Sections must be a list of between 1 and 20 sections');
+    });
+
+    it('should limit how many personal templates a user has', async () => {
+      (TemplateRepository.countByUserId as jest.Mock).mockResolvedValue(50);
+
+      await expect(
+        templateService.createTemplate(userId, { name: 'One more', sections: [{ label: 'Notes' }] })
+      ).rejects.toThrow('Template limit reached');
+      expect(TemplateRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTemplate', () => {
+    it('should return a global template to any user', async () => {
+      (TemplateRepository.findById as jest.Mock).mockResolvedValue(gratitudeList);
+
+      await expect(templateService.getTemplate('user-456', gratitudeList.id)).resolves.toEqual(gratitudeList);
+    });
+
+    it("should report another user's template as not found", async () => {
+      (TemplateRepository.findById as jest.Mock).mockResolvedValue(morningPages);
+
+      await expect(templateService.getTemplate('user-456', morningPages.id)).rejects.toThrow('Template not found');
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should only change the fields sent', async () => {
+      (TemplateRepository.update as jest.Mock).mockResolvedValue({ ...morningPages, name: 'Evening pages' });
+
+      await templateService.updateTemplate(userId, morningPages.id, { name: 'Evening pages' });
+
+      expect(TemplateRepository.update).toHaveBeenCalledWith(morningPages.id, userId, { name: 'Evening pages' });
+    });
+
+    it("should report a global or another user's template as not found", async () => {
+      (TemplateRepository.update as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        templateService.updateTemplate(userId, gratitudeList.id, { name: 'Mine now' })
+      ).rejects.toThrow('Template not found');
+    });
+  });
+
+  describe('createGlobalTemplate', () => {
+    it('should create a template without an owner', async () => {
+      const template = await templateService.createGlobalTemplate({
+        name: 'Sleep diary',
+        sections: [{ label: 'Hours slept', type: 'rating' }],
+      });
+
+      expect(template.userId).toBeNull();
+      expect(TemplateRepository.countByUserId).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import {
+  CreateTemplateRequest,
+  JournalTemplate,
+  TemplateSection,
+  TemplateSectionType,
+  UpdateTemplateRequest,
+} from '../types/index.js';
+import TemplateRepository from '../repositories/TemplateRepository.js';
+
+/**
+ * TemplateService
+ * Handles the templates entries can be written from: global templates managed by admins,
+ * and personal templates managed by their owner
+ */
+
+const MAX_PERSONAL_TEMPLATES = 50;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_SECTIONS = 20;
+const MAX_LABEL_LENGTH = 100;
+const MAX_PROMPT_LENGTH = 300;
+const SECTION_TYPES: readonly TemplateSectionType[] = ['text', 'list', 'rating'];
+const SECTION_KEY_PATTERN = /^[a-z0-9_]{1,50}$/;
+
+export class TemplateService {
+  private normalizeName(name: unknown): string {
+    if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_NAME_LENGTH) {
+      throw new Error(`Name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    return name.trim();
+  }
+
+  private normalizeDescription(description: unknown): string | null {
+    if (description === undefined || description === null) {
+      return null;
+    }
+    if (typeof description !== 'string' || description.trim().length > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    return description.trim() || null;
+  }
+
+  /**
+   * Check a template's sections, filling in their types and keys
+   * Keys are derived from the labels unless given, and must be different from each other
+   */
+  private normalizeSections(sections: unknown): TemplateSection[] {
+    if (!Array.isArray(sections) || sections.length === 0 || sections.length > MAX_SECTIONS) {
+      throw new Error(`Sections must be a list of between 1 and ${MAX_SECTIONS} sections`);
+    }
+
+    const normalized = sections.map((section, index): TemplateSection => {
+      if (!section || typeof section !== 'object') {
+        throw new Error('Each section must be an object with a label');
+      }
+
+      const { key, label, type = 'text', prompt } = section as Record<string, unknown>;
+      if (typeof label !== 'string' || label.trim().length === 0 || label.trim().length > MAX_LABEL_LENGTH) {
+        throw new Error(`Section labels are required and must be at most ${MAX_LABEL_LENGTH} characters`);
+      }
+      if (!SECTION_TYPES.includes(type as TemplateSectionType)) {
+        throw new Error(`Section type must be one of: ${SECTION_TYPES.join(', ')}`);
+      }
+      if (prompt !== undefined && prompt !== null && (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH)) {
+        throw new Error(`Section prompts must be at most ${MAX_PROMPT_LENGTH} characters`);
+      }
+      if (key !== undefined && (typeof key !== 'string' || !SECTION_KEY_PATTERN.test(key))) {
+        throw new Error('Section keys must be lowercase letters, digits and underscores');
+      }
+
+      const derivedKey = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 50);
+      return {
+        key: (key as string | undefined) ?? (derivedKey || `section_${index + 1}`),
+        label: label.trim(),
+        type: type as TemplateSectionType,
+        ...(typeof prompt === 'string' && prompt.trim() && { prompt: prompt.trim() }),
+      };
+    });
+
+    if (new Set(normalized.map((section) => section.key)).size !== normalized.length) {
+      throw new Error('Section keys must be different from each other');
+    }
+
+    return normalized;
+  }
+
+  private normalizeChanges(data: UpdateTemplateRequest) {
+    return {
+      ...(data.name !== undefined && { name: this.normalizeName(data.name) }),
+      ...(data.description !== undefined && { description: this.normalizeDescription(data.description) }),
+      ...(data.sections !== undefined && { sections: this.normalizeSections(data.sections) }),
+    };
+  }
+
+  /**
+   * List the templates a user can write from
+   * @param userId - The user
+   * @returns The global templates, then the user's own
+   */
+  async listTemplates(userId: string): Promise<JournalTemplate[]> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    return TemplateRepository.findAvailable(userId);
+  }
+
+  /**
+   * Get a template the user can write from
+   * @param userId - The user
+   * @param id - The template ID
+   * @returns The template
+   * @throws Error if the template doesn't exist or is another user's
+   */
+  async getTemplate(userId: string, id: string): Promise<JournalTemplate> {
+    const template = typeof id === 'string' ? await TemplateRepository.findById(id) : null;
+    if (!template || (template.userId !== null && template.userId !== userId)) {
+      throw new Error('Template not found');
+    }
+    return template;
+  }
+
+  /**
+   * Create a personal template
+   * @param userId - The owner
+   * @param data - The name, optional description and sections
+   * @returns The created template
+   * @throws Error if the request is invalid or the user has too many templates
+   */
+  async createTemplate(userId: string, data: CreateTemplateRequest): Promise<JournalTemplate> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const template = {
+      name: this.normalizeName(data.name),
+      description: this.normalizeDescription(data.description),
+      sections: this.normalizeSections(data.sections),
+    };
+
+    if ((await TemplateRepository.countByUserId(userId)) >= MAX_PERSONAL_TEMPLATES) {
+      throw new Error(`Template limit reached: delete a template before creating another (maximum ${MAX_PERSONAL_TEMPLATES})`);
+    }
+
+    return TemplateRepository.create(userId, template);
+  }
+
+  /**
+   * Update a personal template
+   * Entries already written from it are not changed
+   * @param userId - The owner
+   * @param id - The template ID
+   * @param data - The fields to change
+   * @returns The updated template
+   * @throws Error if the request is invalid or the user has no such template
+   */
+  async updateTemplate(userId: string, id: string, data: UpdateTemplateRequest): Promise<JournalTemplate> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    const updated = await TemplateRepository.update(id, userId, this.normalizeChanges(data));
+    if (!updated) {
+      throw new Error('Template not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a personal template
+   * Entries written from it keep their fields
+   * @param userId - The owner
+   * @param id - The template ID
+   * @returns True if the user's template was deleted
+   */
+  async deleteTemplate(userId: string, id: string): Promise<boolean> {
+    if (!userId) {
+      throw new Error('User ID is required');
+    }
+
+    return TemplateRepository.delete(id, userId);
+  }
+
+  /**
+   * Create a global template, offered to every user
+   * @param data - The name, optional description and sections
+   * @returns The created template
+   * @throws Error if the request is invalid
+   */
+  async createGlobalTemplate(data: CreateTemplateRequest): Promise<JournalTemplate> {
+    return TemplateRepository.create(null, {
+      name: this.normalizeName(data.name),
+      description: this.normalizeDescription(data.description),
+      sections: this.normalizeSections(data.sections),
+    });
+  }
+
+  /**
+   * Update a global template
+   * @param id - The template ID
+   * @param data - The fields to change
+   * @returns The updated template
+   * @throws Error if the request is invalid or there is no such global template
+   */
+  async updateGlobalTemplate(id: string, data: UpdateTemplateRequest): Promise<JournalTemplate> {
+    const updated = await TemplateRepository.update(id, null, this.normalizeChanges(data));
+    if (!updated) {
+      throw new Error('Template not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a global template
+   * @param id - The template ID
+   * @returns True if the global template was deleted
+   */
+  async deleteGlobalTemplate(id: string): Promise<boolean> {
+    return TemplateRepository.delete(id, null);
+  }
+}
+
+export default new TemplateService();
@@ -2,10 +2,12 @@ import { UserService } from './UserService.js';
 import { UserRole } from '../types/index.js';
 import UserRepository from '../repositories/UserRepository.js';
 import * as passwordUtils from '../utils/password.js';
+import EmailVerificationService from './EmailVerificationService.js';
 
 // Mock dependencies
 jest.mock('../repositories/UserRepository.js');
 jest.mock('../utils/password.js');
+jest.mock('./EmailVerificationService.js');
 
 describe('UserService', () => {
   let userService: UserService;
@@ -40,6 +42,7 @@ describe('UserService', () => {
         role: UserRole.USER,
         aiConsent: false,
         hasCompletedOnboarding: false,
+        emailVerified: false,
         createdAt: mockUser.createdAt,
         updatedAt: mockUser.updatedAt,
       });
@@ -113,7 +116,11 @@ describe('UserService', () => {
 
       expect(result.email).toBe('newemail@example.com');
       expect(UserRepository.findByEmail).toHaveBeenCalledWith('newemail@example.com');
-      expect(UserRepository.update).toHaveBeenCalledWith(userId, { email: 'newemail@example.com' });
+      expect(UserRepository.update).toHaveBeenCalledWith(userId, {
+        email: 'newemail@example.com',
+        emailVerifiedAt: null,
+      });
+      expect(EmailVerificationService.sendVerification).toHaveBeenCalledWith(updatedUser);
     });
 
     it('should successfully update both name and email', async () => {
@@ -138,6 +145,7 @@ describe('UserService', () => {
       expect(UserRepository.update).toHaveBeenCalledWith(userId, {
         name: 'Jane Smith',
         email: 'jane@example.com',
+        emailVerifiedAt: null,
       });
     });
 
@@ -202,6 +210,7 @@ describe('UserService', () => {
 
       expect(result.email).toBe('user@example.com');
       expect(UserRepository.findByEmail).not.toHaveBeenCalled();
+      expect(EmailVerificationService.sendVerification).not.toHaveBeenCalled();
     });
 
     it('should return current profile when no updates provided', async () => {
@@ -241,6 +250,7 @@ describe('UserService', () => {
       expect(UserRepository.update).toHaveBeenCalledWith(userId, {
         name: 'Jane Doe',
         email: 'jane@example.com',
+        emailVerifiedAt: null,
       });
     });
   });
@@ -1,6 +1,8 @@
-import { UserProfile, UpdateProfileRequest, ChangePasswordRequest } from '../types/index.js';
+import { UserProfile, UpdateProfileRequest, ChangePasswordRequest, AccountDeletionReceipt } from '../types/index.js';
 import { hashPassword, comparePassword, validatePassword } from '../utils/password.js';
 import UserRepository from '../repositories/UserRepository.js';
+import EmailVerificationService from './EmailVerificationService.js';
+import AccountDeletionService from './AccountDeletionService.js';
 
 /**
  * UserService
@@ -41,6 +43,7 @@ export class UserService {
       role: user.role,
       aiConsent: user.aiConsent,
       hasCompletedOnboarding: user.hasCompletedOnboarding,
+      emailVerified: !!user.emailVerifiedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -73,7 +76,12 @@ export class UserService {
     }
 
     // Validate input data
-    const updatePayload: { name?: string; email?: string; aiConsent?: boolean } = {};
+    const updatePayload: {
+      name?: string;
+      email?: string;
+      aiConsent?: boolean;
+      emailVerifiedAt?: Date | null;
+    } = {};
 
     if (updateData.name !== undefined) {
       const trimmedName = updateData.name.trim();
@@ -98,6 +106,11 @@ export class UserService {
       }
 
       updatePayload.email = trimmedEmail;
+
+      // A new address has to be verified again
+      if (trimmedEmail !== user.email) {
+        updatePayload.emailVerifiedAt = null;
+      }
     }
 
     if (updateData.aiConsent !== undefined) {
@@ -112,6 +125,10 @@ export class UserService {
     // Update user in database
     const updatedUser = await UserRepository.update(userId, updatePayload);
 
+    if (updatePayload.emailVerifiedAt === null) {
+      void EmailVerificationService.sendVerification(updatedUser);
+    }
+
     const userProfile: UserProfile = {
       id: updatedUser.id,
       email: updatedUser.email,
@@ -119,6 +136,7 @@ export class UserService {
       role: updatedUser.role,
       aiConsent: updatedUser.aiConsent,
       hasCompletedOnboarding: updatedUser.hasCompletedOnboarding,
+      emailVerified: !!updatedUser.emailVerifiedAt,
       createdAt: updatedUser.createdAt,
       updatedAt: updatedUser.updatedAt,
     };
@@ -186,6 +204,7 @@ export class UserService {
       role: updatedUser.role,
       aiConsent: updatedUser.aiConsent,
       hasCompletedOnboarding: updatedUser.hasCompletedOnboarding,
+      emailVerified: !!updatedUser.emailVerifiedAt,
       createdAt: updatedUser.createdAt,
       updatedAt: updatedUser.updatedAt,
     };
@@ -219,6 +238,7 @@ export class UserService {
       role: updatedUser.role,
       aiConsent: updatedUser.aiConsent,
       hasCompletedOnboarding: updatedUser.hasCompletedOnboarding,
+      emailVerified: !!updatedUser.emailVerifiedAt,
       createdAt: updatedUser.createdAt,
       updatedAt: updatedUser.updatedAt,
     };
@@ -228,8 +248,16 @@ export class UserService {
 
   /**
    * Delete a user account after password verification
+   * @param userId - The user's ID
+   * @param password - The user's current password
+   * @param context - Where the request came from, for the audit log
+   * @returns A signed receipt of what was deleted
    */
-  async deleteAccount(userId: string, password: string): Promise<void> {
+  async deleteAccount(
+    userId: string,
+    password: string,
+    context: { ip?: string; userAgent?: string } = {}
+  ): Promise<AccountDeletionReceipt> {
     if (!userId) {
       throw new Error('User ID is required');
     }
@@ -248,7 +276,7 @@ export class UserService {
       throw new Error('Password is incorrect');
     }
 
-    await UserRepository.delete(userId);
+    return AccountDeletionService.deleteAccount(userId, { initiatedBy: 'user', ...context });
   }
 }
 
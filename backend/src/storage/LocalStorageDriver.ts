@@ -0,0 +1,69 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from '../types/index.js';
+
+/**
+ * LocalStorageDriver
+ * Keeps stored files on the local disk under a root directory
+ * Suited to development and single-server deployments
+ */
+
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private rootDir: string) {}
+
+  /**
+   * Resolve a key to a path inside the root directory
+   * @throws Error if the key would point outside of it
+   */
+  private pathOf(key: string): string {
+    if (!/^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)*$/.test(key) || key.split('/').some((part) => /^\.+$/.test(part))) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.rootDir, key);
+  }
+
+  /**
+   * Store a file, replacing any file with the same key
+   * @param key - Where to store it
+   * @param data - The contents
+   * @throws Error if the file cannot be written
+   */
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathOf(key);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    } catch (error) {
+      throw new Error(`Failed to store file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read a stored file
+   * @param key - Where it is stored
+   * @returns A stream of its contents
+   * @throws Error if there is no file with that key
+   */
+  async get(key: string): Promise<Readable> {
+    const filePath = this.pathOf(key);
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new Error('Stored file not found');
+    }
+    return createReadStream(filePath);
+  }
+
+  /**
+   * Delete a stored file; deleting a missing file is not an error
+   * @param key - Where it is stored
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.rm(this.pathOf(key), { force: true });
+    } catch (error) {
+      throw new Error(`Failed to delete stored file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
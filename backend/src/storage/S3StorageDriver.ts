@@ -0,0 +1,87 @@
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { StorageDriver } from '../types/index.js';
+
+export interface S3Options {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services such as MinIO
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * S3StorageDriver
+ * Keeps stored files as objects in an S3 bucket, or a bucket of any S3-compatible service
+ * Without explicit credentials the SDK's default credential chain is used
+ */
+
+export class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: S3Options) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      ...(options.accessKeyId && {
+        credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey ?? '' },
+      }),
+    });
+  }
+
+  /**
+   * Store a file, replacing any object with the same key
+   * @param key - The object key
+   * @param data - The contents
+   * @throws Error if the upload fails
+   */
+  async put(key: string, data: Buffer): Promise<void> {
+    try {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: data,
+          ContentType: 'application/octet-stream',
+        })
+      );
+    } catch (error) {
+      throw new Error(`Failed to store file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read a stored file
+   * @param key - The object key
+   * @returns A stream of its contents
+   * @throws Error if there is no object with that key
+   */
+  async get(key: string): Promise<Readable> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return result.Body as Readable;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw new Error('Stored file not found');
+      }
+      throw new Error(`Failed to read stored file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a stored file; deleting a missing object is not an error
+   * @param key - The object key
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    } catch (error) {
+      throw new Error(`Failed to delete stored file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from '../types/index.js';
+import { LocalStorageDriver } from './LocalStorageDriver.js';
+import { S3StorageDriver } from './S3StorageDriver.js';
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * The behaviour every storage driver must have
+ */
+function describeDriver(createDriver: () => StorageDriver) {
+  let driver: StorageDriver;
+
+  beforeAll(() => {
+    driver = createDriver();
+  });
+
+  it('should read back a stored file', async () => {
+    await driver.put('user-1/file-1', Buffer.from('encrypted bytes'));
+
+    await expect(readAll(await driver.get('user-1/file-1'))).resolves.toEqual(Buffer.from('encrypted bytes'));
+  });
+
+  it('should replace a file stored under the same key', async () => {
+    await driver.put('user-1/file-2', Buffer.from('first'));
+    await driver.put('user-1/file-2', Buffer.from('second'));
+
+    await expect(readAll(await driver.get('user-1/file-2'))).resolves.toEqual(Buffer.from('second'));
+  });
+
+  it('should report a missing file as not found', async () => {
+    await expect(driver.get('user-1/missing')).rejects.toThrow('Stored file not found');
+  });
+
+  it('should delete a file, and ignore deleting it twice', async () => {
+    await driver.put('user-1/file-3', Buffer.from('bytes'));
+    await driver.delete('user-1/file-3');
+    await driver.delete('user-1/file-3');
+
+    await expect(driver.get('user-1/file-3')).rejects.toThrow('Stored file not found');
+  });
+}
+
+describe('LocalStorageDriver', () => {
+  let rootDir: string;
+
+  beforeAll(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'microcare-storage-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  describeDriver(() => new LocalStorageDriver(rootDir));
+
+  it('should reject keys that leave the storage directory', async () => {
+    const driver = new LocalStorageDriver(rootDir);
+
+    await expect(driver.put('../outside', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+    await expect(driver.get('user-1/../../outside')).rejects.toThrow('Invalid storage key');
+  });
+});
+
+// Runs against a local S3 stand-in such as MinIO when one is configured, e.g.
+// S3_TEST_ENDPOINT=http://localhost:9000 S3_TEST_BUCKET=microcare-test with
+// S3_TEST_ACCESS_KEY_ID and S3_TEST_SECRET_ACCESS_KEY for an existing bucket
+const s3Endpoint = process.env.S3_TEST_ENDPOINT;
+
+(s3Endpoint ? describe : describe.skip)('S3StorageDriver', () => {
+  describeDriver(
+    () =>
+      new S3StorageDriver({
+        bucket: process.env.S3_TEST_BUCKET || 'microcare-test',
+        region: 'us-east-1',
+        endpoint: s3Endpoint,
+        accessKeyId: process.env.S3_TEST_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_TEST_SECRET_ACCESS_KEY,
+        forcePathStyle: true,
+      })
+  );
+});
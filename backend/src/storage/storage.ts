@@ -0,0 +1,38 @@
+import { StorageDriver } from '../types/index.js';
+import { getEnvConfig } from '../utils/env.js';
+import { LocalStorageDriver } from './LocalStorageDriver.js';
+import { S3StorageDriver } from './S3StorageDriver.js';
+
+/**
+ * File storage abstraction
+ * The driver is chosen with STORAGE_DRIVER: `local` keeps files under a directory on
+ * disk, `s3` keeps them in an S3 bucket or any S3-compatible service such as MinIO.
+ * Callers encrypt files before storing them; drivers only see ciphertext.
+ */
+
+type StorageConfig = ReturnType<typeof getEnvConfig>['storage'];
+
+/**
+ * Build a driver for the configured backend
+ * @param config - Storage settings (default: validated environment)
+ * @returns The storage driver
+ */
+export function createStorageDriver(config: StorageConfig = getEnvConfig().storage): StorageDriver {
+  if (config.driver === 's3') {
+    return new S3StorageDriver(config.s3);
+  }
+
+  return new LocalStorageDriver(config.dir);
+}
+
+let storageDriver: StorageDriver | null = null;
+
+/**
+ * Get the driver for the configured backend, creating it on first use
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!storageDriver) {
+    storageDriver = createStorageDriver();
+  }
+  return storageDriver;
+}
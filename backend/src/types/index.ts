@@ -1,3 +1,5 @@
+import type { Readable } from 'stream';
+
 // User types
 export enum UserRole {
   USER = 'USER',
@@ -5,6 +7,12 @@ export enum UserRole {
   ADMIN = 'ADMIN',
 }
 
+// Drafts are autosaved while being written and left out of analytics until published
+export enum EntryStatus {
+  DRAFT = 'DRAFT',
+  PUBLISHED = 'PUBLISHED',
+}
+
 export interface User {
   id: string;
   email: string;
@@ -15,6 +23,13 @@ export interface User {
   hasCompletedOnboarding: boolean;
   failedLoginAttempts: number;
   lockoutUntil: Date | null;
+  mfaEnabled: boolean;
+  mfaSecret: string | null;
+  mfaSecretIv: string | null;
+  mfaSecretTag: string | null;
+  mfaLastUsedStep: number | null;
+  emailVerifiedAt: Date | null;
+  tokenVersion: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,6 +41,7 @@ export interface UserProfile {
   role: UserRole;
   aiConsent: boolean;
   hasCompletedOnboarding: boolean;
+  emailVerified: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -36,14 +52,215 @@ export interface JournalEntry {
   userId: string;
   title: string;
   content: string;
+  // The base emotion of the strongest of the entry's emotions
   mood?: string;
+  emotions?: EntryEmotion[];
   tags?: string[];
+  // The template the entry was written from, and its filled-in sections in order
+  templateId?: string | null;
+  fields?: EntryField[] | null;
+  status?: EntryStatus;
+  // Incremented on every edit; sent as the entry's ETag
+  version?: number;
   insight?: string;
   insightThemes?: string[];
+  // Earlier versions, newest first; only included in exports
+  revisions?: EntryRevision[];
+  // Attached files with their contents; only included in exports
+  attachments?: AttachmentFile[];
+  // Set while the entry is in the trash
+  deletedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TrashedEntry extends JournalEntry {
+  deletedAt: Date;
+  // When the entry will be permanently deleted
+  purgeAt: Date;
+}
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  // Numbered from 1 in the order the versions were replaced
+  revision: number;
+  title: string;
+  content: string;
+  mood?: string | null;
+  tags: string[];
+  fields?: EntryField[] | null;
+  // When this version was written, and when an edit replaced it
+  savedAt: Date;
+  createdAt: Date;
+}
+
+// A file attached to an entry
+export interface EntryAttachment {
+  id: string;
+  entryId: string;
+  fileName: string;
+  contentType: string;
+  // Size of the file in bytes
+  size: number;
+  // Whether a thumbnail can be downloaded (images only)
+  hasThumbnail: boolean;
+  createdAt: Date;
+}
+
+// An attachment whose decrypted contents can be read
+export interface AttachmentFile extends EntryAttachment {
+  // Open a stream of the decrypted file
+  open: () => Promise<Readable>;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface EntryRevisionDiff {
+  from: number;
+  // A revision number, or 'current' for the entry as it is now
+  to: number | 'current';
+  title: DiffPart[];
+  content: DiffPart[];
+}
+
+export interface EntryFilters {
+  // Entries with any of these moods
+  moods?: string[];
+  tags?: string[];
+  // Whether entries need any of the tags or all of them (default: any)
+  tagMode?: 'any' | 'all';
+  // Inclusive bounds, as dates (YYYY-MM-DD) in the time zone or exact ISO 8601 date-times
+  from?: string;
+  to?: string;
+  // IANA time zone for date bounds (default: UTC)
+  timezone?: string;
+  hasInsight?: boolean;
+  theme?: string;
+  status?: EntryStatus;
+}
+
+export interface EntrySearchResult extends JournalEntry {
+  // Relevance of the entry to the search query; higher is better
+  score: number;
+}
+
+// A mood in the shared vocabulary, placed on the valence (unpleasant to pleasant) and
+// intensity (calm to aroused) axes so moods can be averaged and compared
+export interface MoodDefinition {
+  id: string;
+  label: string;
+  emoji: string;
+  // -1 (most unpleasant) to 1 (most pleasant)
+  valence: number;
+  // 0 (lowest energy) to 1 (highest energy)
+  intensity: number;
+}
+
+export type TemplateSectionType = 'text' | 'list' | 'rating';
+
+// A section of a template: free text, a list of items, or a rating from 0 to 10
+export interface TemplateSection {
+  key: string;
+  label: string;
+  type: TemplateSectionType;
+  // Shown as the placeholder while the section is empty
+  prompt?: string;
+}
+
+export interface JournalTemplate {
+  id: string;
+  // Null for global templates
+  userId: string | null;
+  name: string;
+  description: string | null;
+  sections: TemplateSection[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A filled-in section of an entry written from a template
+// Its label and type are kept with the value, so the entry still reads the same after
+// the template is changed or deleted
+export interface EntryField {
+  key: string;
+  label: string;
+  type: TemplateSectionType;
+  value: EntryFieldValue;
+}
+
+export type EntryFieldValue = string | string[] | number | null;
+
+// A prompt from the curated library, to help start an entry
+export interface JournalPrompt {
+  id: string;
+  category: string;
+  text: string;
+}
+
+export interface PromptCategory {
+  id: string;
+  label: string;
+}
+
+// A user's own name for a feeling, rolled up to a base emotion in the vocabulary
+export interface CustomMood {
+  id: string;
+  userId: string;
+  label: string;
+  emoji: string | null;
+  // The id of a mood in the vocabulary
+  baseMood: string;
+  // -1 (most unpleasant) to 1 (most pleasant)
+  valence: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One of the emotions felt in an entry
+export interface EntryEmotion {
+  // The base emotion, also for custom moods
+  mood: string;
+  customMoodId: string | null;
+  // 0 (barely) to 1 (overwhelmingly)
+  intensity: number;
+}
+
+// An emotion as sent by a client: a mood in the vocabulary or one of the user's custom moods
+export interface EntryEmotionInput {
+  mood?: string | null;
+  // Takes the place of mood when given
+  customMoodId?: string | null;
+  // Defaults to the base emotion's usual intensity
+  intensity?: number;
+}
+
+// A tag, how many of the user's entries use it and when the latest of them was written
+export interface TagCount {
+  tag: string;
+  count: number;
+  lastUsedAt: Date;
+}
+
+// The outcome of renaming, merging or deleting a tag
+export interface TagChangeResult {
+  // The tag the entries now have, or null if it was deleted
+  tag: string | null;
+  entriesUpdated: number;
+}
+
+export interface RenameTagRequest {
+  name: string;
+}
+
+export interface MergeTagsRequest {
+  tags: string[];
+  into: string;
+}
+
 // Request/Response types
 export interface AuthRequest {
   email: string;
@@ -56,20 +273,257 @@ export interface AuthResponse {
   user: UserProfile;
 }
 
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export type LoginResult = AuthResponse | MfaChallengeResponse;
+
+export type AuthFactor = 'password' | 'totp' | 'recovery_code';
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
 export interface JWTPayload {
   userId: string;
   email: string;
+  role: UserRole;
+  tokenVersion: number;
+  sessionId?: string;
   iat: number;
   exp: number;
 }
 
+export type AccessTokenClaims = Pick<JWTPayload, 'userId' | 'email' | 'role' | 'tokenVersion'>;
+
 export interface RefreshTokenPayload {
   userId: string;
   type: 'refresh';
+  jti: string;
+  sessionId?: string;
+  iat: number;
+  exp: number;
+}
+
+export interface MfaChallengePayload {
+  userId: string;
+  type: 'mfa_challenge';
+  iat: number;
+  exp: number;
+}
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+export interface AccountTokenPayload {
+  userId: string;
+  type: AccountTokenPurpose;
+  jti: string;
   iat: number;
   exp: number;
 }
 
+// Account deletion types
+export interface AccountDeletionReceipt {
+  receiptId: string;
+  userId: string;
+  email: string;
+  deletedAt: string;
+  initiatedBy: 'user' | 'admin';
+  entriesDeleted: number;
+  insightsDeleted: number;
+  attachmentsDeleted: number;
+  dataKeysDestroyed: number;
+  analysisJobsPurged: number;
+  // JWT over the other fields, verifiable with the keys at /.well-known/jwks.json
+  signature: string;
+}
+
+// Session types
+export interface Session {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedById: string | null;
+  signedInAt: Date;
+  lastSeenAt: Date;
+  createdAt: Date;
+}
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Encryption key types
+export interface UserDataKey {
+  id: string;
+  userId: string;
+  version: number;
+  wrappedKey: string;
+  wrapIv: string;
+  wrapTag: string;
+  masterKeyId: string;
+  createdAt: Date;
+}
+
+export enum KeyRotationStatus {
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+export interface KeyRotation {
+  id: string;
+  status: KeyRotationStatus;
+  dryRun: boolean;
+  masterKeyId: string;
+  requestedBy: string | null;
+  userCursor: string | null;
+  usersTotal: number;
+  usersProcessed: number;
+  entriesReencrypted: number;
+  insightsReencrypted: number;
+  revisionsReencrypted: number;
+  attachmentsReencrypted: number;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface KeyRotationProgress extends KeyRotation {
+  percentComplete: number;
+}
+
+// Entry import types
+export enum ImportFormat {
+  // MicroCare's own JSON export
+  JSON = 'json',
+  // A zip of Markdown files with front matter
+  MARKDOWN = 'markdown',
+  CSV = 'csv',
+  // A Day One JSON export, or the zip it comes in
+  DAY_ONE = 'dayone',
+}
+
+export enum ImportStatus {
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+// A row that was not imported as it was, and why
+export interface ImportIssue {
+  // Rows count from 1 in file order; CSV rows do not count the header
+  row: number;
+  // The file in a zip the row was read from
+  file?: string;
+  // failed rows were skipped; warnings are about rows that were imported anyway
+  type: 'failed' | 'duplicate' | 'warning';
+  message: string;
+  // The entry a duplicate matches, or the imported entry a warning is about
+  entryId?: string;
+}
+
+// A row a dry run would import
+export interface ImportPreviewRow {
+  row: number;
+  file?: string;
+  title: string;
+  createdAt: Date;
+  mood?: string;
+  tags: string[];
+  attachments: number;
+}
+
+export interface EntryImport {
+  id: string;
+  userId: string;
+  format: ImportFormat;
+  dryRun: boolean;
+  status: ImportStatus;
+  rowsTotal: number;
+  rowsProcessed: number;
+  // In a dry run, the rows that would be imported
+  imported: number;
+  duplicates: number;
+  failed: number;
+  issues: ImportIssue[];
+  // The first rows a dry run would import; empty for real imports
+  preview: ImportPreviewRow[];
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EntryImportProgress extends EntryImport {
+  percentComplete: number;
+}
+
+// Personal access token types
+export enum TokenScope {
+  ENTRIES_READ = 'entries:read',
+  ENTRIES_WRITE = 'entries:write',
+  EXPORT = 'export',
+}
+
+export interface PersonalAccessToken {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface PersonalAccessTokenInfo {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatePersonalAccessTokenRequest {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays?: number;
+}
+
 export interface UpdateProfileRequest {
   name?: string;
   email?: string;
@@ -85,14 +539,65 @@ export interface CreateEntryRequest {
   title: string;
   content: string;
   mood?: string;
+  // Replaces mood; the strongest emotion sets it
+  emotions?: EntryEmotionInput[];
   tags?: string[];
+  // Write the entry from a template; content may then be left empty if a section is filled in
+  templateId?: string;
+  // The template's sections by key
+  fields?: Record<string, EntryFieldValue>;
+  // Defaults to PUBLISHED
+  status?: EntryStatus;
 }
 
 export interface UpdateEntryRequest {
   title?: string;
   content?: string;
-  mood?: string;
+  // null clears the mood
+  mood?: string | null;
+  // Replaces mood and the entry's emotions; an empty list clears them
+  emotions?: EntryEmotionInput[];
   tags?: string[];
+  // Sections by key, for entries written from a template; sections left out are kept
+  fields?: Record<string, EntryFieldValue>;
+  // A draft can be published, but a published entry cannot go back to being a draft
+  status?: EntryStatus;
+}
+
+export interface TemplateSectionInput {
+  // Derived from the label if left out
+  key?: string;
+  label: string;
+  // Defaults to text
+  type?: TemplateSectionType;
+  prompt?: string;
+}
+
+export interface CreateTemplateRequest {
+  name: string;
+  description?: string | null;
+  sections: TemplateSectionInput[];
+}
+
+export interface UpdateTemplateRequest {
+  name?: string;
+  description?: string | null;
+  sections?: TemplateSectionInput[];
+}
+
+export interface CreateCustomMoodRequest {
+  label: string;
+  emoji?: string | null;
+  baseMood: string;
+  // Defaults to the base emotion's valence
+  valence?: number;
+}
+
+// The base emotion can't be changed, since entries have been counted as it
+export interface UpdateCustomMoodRequest {
+  label?: string;
+  emoji?: string | null;
+  valence?: number;
 }
 
 export interface PaginationQuery {
@@ -110,6 +615,14 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  limit: number;
+  // Pass as the cursor parameter to get the next page; null on the last page
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
 // Error types
 export interface ApiError {
   statusCode: number;
@@ -133,5 +646,27 @@ export interface AuthenticatedRequest {
   user?: {
     userId: string;
     email: string;
+    role: UserRole;
+    sessionId?: string;
+    scopes?: TokenScope[];
   };
 }
+
+// Mail types
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Storage types
+export interface StorageDriver {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
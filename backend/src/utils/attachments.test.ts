@@ -0,0 +1,43 @@
+import { matchesContentType, normalizeContentType, sanitizeFileName } from './attachments.js';
+
+describe('Attachment Rules', () => {
+  describe('normalizeContentType', () => {
+    it('should accept allowed types and their aliases', () => {
+      expect(normalizeContentType('image/png')).toBe('image/png');
+      expect(normalizeContentType('IMAGE/JPG')).toBe('image/jpeg');
+      expect(normalizeContentType('audio/x-m4a')).toBe('audio/mp4');
+      expect(normalizeContentType('audio/webm;codecs=opus')).toBe('audio/webm');
+    });
+
+    it('should reject other types', () => {
+      expect(normalizeContentType('text/html')).toBeNull();
+      expect(normalizeContentType('image/svg+xml')).toBeNull();
+    });
+  });
+
+  describe('matchesContentType', () => {
+    it('should recognize files by their leading bytes', () => {
+      expect(matchesContentType(Buffer.from('%PDF-1.7\n'), 'application/pdf')).toBe(true);
+      expect(matchesContentType(Buffer.from('RIFF\x10\x00\x00\x00WEBPVP8 ', 'latin1'), 'image/webp')).toBe(true);
+      expect(matchesContentType(Buffer.from('RIFF\x10\x00\x00\x00WAVEfmt ', 'latin1'), 'image/webp')).toBe(false);
+    });
+
+    it('should reject a file sent as a type it is not', () => {
+      expect(matchesContentType(Buffer.from('<html><script>'), 'image/png')).toBe(false);
+      expect(matchesContentType(Buffer.alloc(0), 'image/jpeg')).toBe(false);
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('should drop directories and control characters', () => {
+      expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+      expect(sanitizeFileName('C:\\Users\\me\\scan.pdf')).toBe('scan.pdf');
+      expect(sanitizeFileName(' memo\r\n.m4a ')).toBe('memo.m4a');
+    });
+
+    it('should name a file that has no usable name', () => {
+      expect(sanitizeFileName('')).toBe('attachment');
+      expect(sanitizeFileName('folder/')).toBe('attachment');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Attachment Rules
+ * Which files can be attached to entries, and checks that an upload is what it claims to be
+ */
+
+// How many files one entry can have
+export const MAX_ATTACHMENTS_PER_ENTRY = 10;
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+// Leading bytes of each allowed type; `null` matches any byte
+const SIGNATURES: Record<string, (number | null)[][]> = {
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  'image/webp': [[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+  'image/heic': [[null, null, null, null, 0x66, 0x74, 0x79, 0x70]],
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+  'audio/mpeg': [[0x49, 0x44, 0x33], [0xff, 0xfb], [0xff, 0xf3], [0xff, 0xf2]],
+  'audio/mp4': [[null, null, null, null, 0x66, 0x74, 0x79, 0x70]],
+  'audio/wav': [[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45]],
+  'audio/webm': [[0x1a, 0x45, 0xdf, 0xa3]],
+  'audio/ogg': [[0x4f, 0x67, 0x67, 0x53]],
+};
+
+// Other names browsers send for the allowed types
+const ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/heif': 'image/heic',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+};
+
+export const ALLOWED_CONTENT_TYPES = Object.keys(SIGNATURES);
+
+// Images a thumbnail can be made of
+const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/**
+ * Resolve the type an upload was sent as to one of the allowed types
+ * @returns The allowed type, or null if files of that type cannot be attached
+ */
+export function normalizeContentType(contentType: string): string | null {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  const resolved = ALIASES[type] ?? type;
+  return ALLOWED_CONTENT_TYPES.includes(resolved) ? resolved : null;
+}
+
+/**
+ * Check that a file's contents start the way files of its type do
+ * Stops files from being stored, and later served, as a type they are not
+ */
+export function matchesContentType(data: Buffer, contentType: string): boolean {
+  return (SIGNATURES[contentType] ?? []).some(
+    (signature) =>
+      data.length >= signature.length && signature.every((byte, index) => byte === null || data[index] === byte)
+  );
+}
+
+export function canThumbnail(contentType: string): boolean {
+  return THUMBNAIL_TYPES.includes(contentType);
+}
+
+/**
+ * Clean up an uploaded file name for storing and for Content-Disposition
+ * Directories, control characters and surrounding whitespace are removed
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  // eslint-disable-next-line no-control-regex
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  return cleaned.slice(0, MAX_FILE_NAME_LENGTH) || 'attachment';
+}
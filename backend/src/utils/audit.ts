@@ -5,12 +5,24 @@ export enum AuditEventType {
     USER_LOGIN_SUCCESS = 'USER_LOGIN_SUCCESS',
     USER_LOGIN_FAILURE = 'USER_LOGIN_FAILURE',
     USER_LOGOUT = 'USER_LOGOUT',
+    TOKEN_REFRESHED = 'TOKEN_REFRESHED',
+    REFRESH_TOKEN_REUSE_DETECTED = 'REFRESH_TOKEN_REUSE_DETECTED',
+    SESSION_REVOKED = 'SESSION_REVOKED',
+    PERSONAL_ACCESS_TOKEN_CREATED = 'PERSONAL_ACCESS_TOKEN_CREATED',
+    PERSONAL_ACCESS_TOKEN_REVOKED = 'PERSONAL_ACCESS_TOKEN_REVOKED',
     PASSWORD_CHANGE_SUCCESS = 'PASSWORD_CHANGE_SUCCESS',
     PASSWORD_CHANGE_FAILURE = 'PASSWORD_CHANGE_FAILURE',
+    PASSWORD_RESET_REQUESTED = 'PASSWORD_RESET_REQUESTED',
+    EMAIL_VERIFIED = 'EMAIL_VERIFIED',
     ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
     ACCOUNT_UNLOCKED = 'ACCOUNT_UNLOCKED',
     ACCOUNT_DELETED = 'ACCOUNT_DELETED',
+    MFA_ENABLED = 'MFA_ENABLED',
+    MFA_DISABLED = 'MFA_DISABLED',
+    MFA_RECOVERY_CODES_REGENERATED = 'MFA_RECOVERY_CODES_REGENERATED',
     ROLE_CHANGE = 'ROLE_CHANGE',
+    KEY_ROTATION_STARTED = 'KEY_ROTATION_STARTED',
+    GLOBAL_TEMPLATE_CHANGED = 'GLOBAL_TEMPLATE_CHANGED',
     SENSITIVE_DATA_ACCESS = 'SENSITIVE_DATA_ACCESS',
 }
 
@@ -0,0 +1,39 @@
+import { parseCsv, toCsv } from './csv.js';
+
+describe('CSV', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('date,content\n2024-01-31,Went running\r\n2024-02-01,Rest day\n')).toEqual([
+      ['date', 'content'],
+      ['2024-01-31', 'Went running'],
+      ['2024-02-01', 'Rest day'],
+    ]);
+  });
+
+  it('should keep commas, quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('content,tags\n"Said ""hi"", then left\nearly","work, family"')).toEqual([
+      ['content', 'tags'],
+      ['Said "hi", then left\nearly', 'work, family'],
+    ]);
+  });
+
+  it('should skip a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFcontent\n\nOne\n\n')).toEqual([['content'], ['One']]);
+  });
+
+  it('should reject a quoted field that is not closed', () => {
+    expect(() => parseCsv('content\n"Never closed')).toThrow('Invalid CSV: a quoted field is not closed');
+  });
+
+  it('should quote only the fields that need it when writing', () => {
+    const records = [
+      ['content', 'tags'],
+      ['Said "hi", then left\nearly', 'work'],
+      [' padded', ''],
+    ];
+
+    const csv = toCsv(records);
+
+    expect(csv).toBe('content,tags\r\n"Said ""hi"", then left\nearly",work\r\n" padded",\r\n');
+    expect(parseCsv(csv)).toEqual(records);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * CSV
+ * Reads and writes comma-separated values as described in RFC 4180: fields may be quoted, quoted
+ * fields may hold commas, line breaks and doubled quotes, and lines may end in CRLF or LF
+ */
+
+/**
+ * Split CSV text into records of fields
+ * A byte order mark is dropped and blank lines are skipped.
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  const endRecord = () => {
+    record.push(field);
+    // A blank line reads as one empty field
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 2;
+      } else if (char === '"') {
+        quoted = false;
+        i++;
+      } else {
+        field += char;
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' && input[i + 1] === '\n') {
+      endRecord();
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      endRecord();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (quoted) {
+    throw new Error('Invalid CSV: a quoted field is not closed');
+  }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+function quoteField(field: string): string {
+  return /[",\r\n]/.test(field) || field !== field.trim() ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Join records into CSV text with CRLF line endings, quoting only the fields that need it
+ */
+export function toCsv(records: string[][]): string {
+  return records.map((record) => `${record.map(quoteField).join(',')}\r\n`).join('');
+}
@@ -0,0 +1,21 @@
+import { encodeEntryCursor, decodeEntryCursor } from './cursor.js';
+
+describe('Pagination Cursors', () => {
+  it('should round-trip an entry position', () => {
+    const entry = { createdAt: new Date('2026-10-18T12:34:56.789Z'), id: 'entry-123' };
+
+    expect(decodeEntryCursor(encodeEntryCursor(entry))).toEqual(entry);
+  });
+
+  it('should produce URL-safe tokens', () => {
+    const token = encodeEntryCursor({ createdAt: new Date(), id: 'entry/with+chars?' });
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should reject tokens that are not cursors', () => {
+    expect(decodeEntryCursor('not-a-cursor')).toBeNull();
+    expect(decodeEntryCursor(Buffer.from('{"id":"x"}').toString('base64url'))).toBeNull();
+    expect(decodeEntryCursor(Buffer.from('["yesterday","x"]').toString('base64url'))).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Pagination Cursors
+ * Opaque tokens marking the last entry of a page, for keyset pagination on (createdAt, id)
+ */
+
+export interface EntryCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Encode the position after an entry as a URL-safe token
+ */
+export function encodeEntryCursor(entry: { createdAt: Date; id: string }): string {
+  return Buffer.from(JSON.stringify([entry.createdAt.toISOString(), entry.id])).toString('base64url');
+}
+
+/**
+ * Decode a token made by encodeEntryCursor
+ * @returns The position, or null if the token is not a valid cursor
+ */
+export function decodeEntryCursor(token: string): EntryCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) {
+      return null;
+    }
+
+    const [createdAt, id] = decoded;
+    if (typeof createdAt !== 'string' || typeof id !== 'string' || id.length === 0) {
+      return null;
+    }
+
+    const date = new Date(createdAt);
+    return Number.isNaN(date.getTime()) ? null : { createdAt: date, id };
+  } catch {
+    return null;
+  }
+}
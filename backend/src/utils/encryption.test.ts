@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import { createFileDecipher, decryptFile, encryptFile, generateFileKey } from './encryption.js';
+
+describe('File Encryption', () => {
+  const key = generateFileKey();
+  const chunkSize = 64 * 1024;
+
+  it.each([
+    ['an empty file', 0],
+    ['a small file', 100],
+    ['a file of exactly one chunk', chunkSize],
+    ['a file of several chunks', chunkSize * 2 + 123],
+  ])('should round-trip %s', async (_label, size) => {
+    const plain = crypto.randomBytes(size);
+    const { data, iv } = encryptFile(plain, key);
+
+    expect(data.length).toBe(size + 16 * Math.max(1, Math.ceil(size / chunkSize)));
+    await expect(decryptFile(data, key, iv)).resolves.toEqual(plain);
+  });
+
+  it('should decrypt a file streamed in arbitrary pieces', async () => {
+    const plain = crypto.randomBytes(chunkSize * 3 + 7);
+    const { data, iv } = encryptFile(plain, key);
+    const decipher = createFileDecipher(key, iv);
+    const parts: Buffer[] = [];
+    decipher.on('data', (part: Buffer) => parts.push(part));
+    const done = new Promise((resolve, reject) => decipher.on('end', resolve).on('error', reject));
+
+    for (let offset = 0; offset < data.length; offset += 1000) {
+      decipher.write(data.subarray(offset, offset + 1000));
+    }
+    decipher.end();
+    await done;
+
+    expect(Buffer.concat(parts)).toEqual(plain);
+  });
+
+  it('should reject a tampered file', async () => {
+    const { data, iv } = encryptFile(Buffer.from('a drawing of a cat'), key);
+    data[0] ^= 1;
+
+    await expect(decryptFile(data, key, iv)).rejects.toThrow('Failed to decrypt file');
+  });
+
+  it('should reject a file with its last chunk cut off', async () => {
+    const { data, iv } = encryptFile(crypto.randomBytes(chunkSize + 10), key);
+
+    await expect(decryptFile(data.subarray(0, chunkSize + 16), key, iv)).rejects.toThrow('Failed to decrypt file');
+  });
+
+  it('should reject the wrong key', async () => {
+    const { data, iv } = encryptFile(Buffer.from('notes'), key);
+
+    await expect(decryptFile(data, generateFileKey(), iv)).rejects.toThrow('Failed to decrypt file');
+  });
+});
@@ -1,7 +1,22 @@
 import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const TAG_LENGTH = 16;
+// Files are encrypted in chunks so they can be decrypted while streaming
+const FILE_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Encryption schemes recorded in each row's encryptionVersion column
+ * - LEGACY: encrypted with the global ENCRYPTION_KEY
+ * - ENVELOPE: encrypted with the owner's data key, which is stored wrapped by a master key
+ */
+export const EncryptionVersion = {
+  LEGACY: 1,
+  ENVELOPE: 2,
+} as const;
 
 function getEncryptionKey(): Buffer {
   const key = process.env.ENCRYPTION_KEY;
@@ -10,7 +25,7 @@ function getEncryptionKey(): Buffer {
   }
 
   const decoded = Buffer.from(key, 'base64');
-  if (decoded.length !== 32) {
+  if (decoded.length !== KEY_LENGTH) {
     throw new Error('ENCRYPTION_KEY must be 32 bytes (base64-encoded)');
   }
 
@@ -23,8 +38,121 @@ export interface EncryptedPayload {
   tag: string;
 }
 
-export function encryptText(plainText: string): EncryptedPayload {
-  const key = getEncryptionKey();
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface WrappedKey {
+  wrappedKey: string;
+  iv: string;
+  tag: string;
+  masterKeyId: string;
+}
+
+/**
+ * Read the master key-encryption keys
+ * MASTER_KEYS is a comma-separated list of id:base64-key pairs. The first key wraps new
+ * data keys; the others are only used to unwrap keys wrapped before a rotation.
+ * Without MASTER_KEYS, ENCRYPTION_KEY is used as a single master key with the ID "default".
+ * @returns The master keys, active key first
+ */
+export function getMasterKeys(): MasterKey[] {
+  const configured = process.env.MASTER_KEYS;
+  if (!configured) {
+    return [{ id: 'default', key: getEncryptionKey() }];
+  }
+
+  return configured.split(',').map((entry) => {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(id)) {
+      throw new Error('MASTER_KEYS must be a comma-separated list of id:base64-key pairs');
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Master key ${id} must be 32 bytes (base64-encoded)`);
+    }
+
+    return { id, key };
+  });
+}
+
+/**
+ * Read the key used to compute the search blind index
+ * SEARCH_INDEX_KEY is a base64-encoded 32-byte key; without it a key is derived from
+ * ENCRYPTION_KEY. Changing it requires rebuilding the search index.
+ */
+export function getSearchIndexKey(): Buffer {
+  const configured = process.env.SEARCH_INDEX_KEY;
+  if (!configured) {
+    return Buffer.from(crypto.hkdfSync('sha256', getEncryptionKey(), Buffer.alloc(0), 'microcare-search-index', KEY_LENGTH));
+  }
+
+  const decoded = Buffer.from(configured, 'base64');
+  if (decoded.length !== KEY_LENGTH) {
+    throw new Error('SEARCH_INDEX_KEY must be 32 bytes (base64-encoded)');
+  }
+
+  return decoded;
+}
+
+/**
+ * Generate a new random data key
+ */
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Encrypt a data key with the active master key
+ * @param dataKey - The data key
+ * @param context - Associated data binding the wrapped key to its owner, checked when unwrapping
+ * @returns The wrapped key and the ID of the master key that wrapped it
+ */
+export function wrapDataKey(dataKey: Buffer, context: string): WrappedKey {
+  const [masterKey] = getMasterKeys();
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, masterKey.key, iv);
+  cipher.setAAD(Buffer.from(context, 'utf8'));
+
+  const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+  return {
+    wrappedKey: wrapped.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    masterKeyId: masterKey.id,
+  };
+}
+
+/**
+ * Decrypt a data key wrapped by wrapDataKey
+ * @param wrapped - The wrapped key
+ * @param context - The associated data the key was wrapped with
+ * @returns The data key
+ * @throws Error if the master key is not configured or the wrapped key was tampered with
+ */
+export function unwrapDataKey(wrapped: WrappedKey, context: string): Buffer {
+  const masterKey = getMasterKeys().find((candidate) => candidate.id === wrapped.masterKeyId);
+  if (!masterKey) {
+    throw new Error(`Master key ${wrapped.masterKeyId} is not configured`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, masterKey.key, Buffer.from(wrapped.iv, 'base64'));
+  decipher.setAAD(Buffer.from(context, 'utf8'));
+  decipher.setAuthTag(Buffer.from(wrapped.tag, 'base64'));
+
+  return Buffer.concat([decipher.update(Buffer.from(wrapped.wrappedKey, 'base64')), decipher.final()]);
+}
+
+/**
+ * Encrypt text
+ * @param plainText - The text to encrypt
+ * @param key - The data key to use; defaults to the global ENCRYPTION_KEY
+ */
+export function encryptText(plainText: string, key: Buffer = getEncryptionKey()): EncryptedPayload {
   const iv = crypto.randomBytes(IV_LENGTH);
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
 
@@ -38,8 +166,12 @@ export function encryptText(plainText: string): EncryptedPayload {
   };
 }
 
-export function decryptText(payload: EncryptedPayload): string {
-  const key = getEncryptionKey();
+/**
+ * Decrypt text encrypted by encryptText
+ * @param payload - The encrypted text
+ * @param key - The data key it was encrypted with; defaults to the global ENCRYPTION_KEY
+ */
+export function decryptText(payload: EncryptedPayload, key: Buffer = getEncryptionKey()): string {
   const iv = Buffer.from(payload.iv, 'base64');
   const tag = Buffer.from(payload.tag, 'base64');
   const cipherText = Buffer.from(payload.cipherText, 'base64');
@@ -57,3 +189,143 @@ export function isEncryptedPayload(payload: {
 }): payload is { iv: string; tag: string } {
   return !!payload.iv && !!payload.tag;
 }
+
+/**
+ * Read an encrypted column and its IV and tag columns, if the value is encrypted
+ * @param cipherText - The stored value
+ * @param iv - The stored IV, if any
+ * @param tag - The stored auth tag, if any
+ * @returns The encrypted payload, or null for a plaintext value
+ */
+export function toEncryptedPayload(
+  cipherText: string,
+  iv?: string | null,
+  tag?: string | null
+): EncryptedPayload | null {
+  return iv && tag ? { cipherText, iv, tag } : null;
+}
+
+export interface EncryptedFile {
+  data: Buffer;
+  iv: string;
+}
+
+/**
+ * Generate a new random key for encrypting one file
+ */
+export function generateFileKey(): Buffer {
+  return crypto.randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Derive the IV and associated data of one chunk of a file
+ * Each chunk gets its own IV, and its index and whether it is the last chunk are
+ * authenticated, so chunks cannot be reordered, dropped or the file truncated
+ */
+function chunkParams(baseIv: Buffer, index: number, final: boolean): { iv: Buffer; aad: Buffer } {
+  const iv = Buffer.from(baseIv);
+  iv.writeUInt32BE((iv.readUInt32BE(IV_LENGTH - 4) ^ index) >>> 0, IV_LENGTH - 4);
+
+  const aad = Buffer.alloc(5);
+  aad.writeUInt32BE(index, 0);
+  aad.writeUInt8(final ? 1 : 0, 4);
+
+  return { iv, aad };
+}
+
+function decryptChunk(chunk: Buffer, key: Buffer, baseIv: Buffer, index: number, final: boolean): Buffer {
+  const { iv, aad } = chunkParams(baseIv, index, final);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(chunk.subarray(chunk.length - TAG_LENGTH));
+
+  return Buffer.concat([decipher.update(chunk.subarray(0, chunk.length - TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Encrypt a file
+ * The file is split into 64 KiB chunks, each encrypted and followed by its auth tag.
+ * An empty file is stored as a single empty chunk.
+ * @param plain - The file contents
+ * @param key - The file's key
+ * @returns The encrypted file and its base IV
+ */
+export function encryptFile(plain: Buffer, key: Buffer): EncryptedFile {
+  const baseIv = crypto.randomBytes(IV_LENGTH);
+  const chunkCount = Math.max(1, Math.ceil(plain.length / FILE_CHUNK_SIZE));
+  const parts: Buffer[] = [];
+
+  for (let index = 0; index < chunkCount; index++) {
+    const { iv, aad } = chunkParams(baseIv, index, index === chunkCount - 1);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(aad);
+
+    const chunk = plain.subarray(index * FILE_CHUNK_SIZE, (index + 1) * FILE_CHUNK_SIZE);
+    parts.push(cipher.update(chunk), cipher.final(), cipher.getAuthTag());
+  }
+
+  return { data: Buffer.concat(parts), iv: baseIv.toString('base64') };
+}
+
+/**
+ * Create a stream that decrypts a file encrypted by encryptFile
+ * Each chunk is verified before any of it is passed on, so tampered or truncated
+ * files fail with an error instead of yielding altered data.
+ * @param key - The file's key
+ * @param iv - The file's base IV
+ */
+export function createFileDecipher(key: Buffer, iv: string): Transform {
+  const baseIv = Buffer.from(iv, 'base64');
+  const sealedChunkSize = FILE_CHUNK_SIZE + TAG_LENGTH;
+  let pending = Buffer.alloc(0);
+  let index = 0;
+
+  return new Transform({
+    transform(data: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      pending = Buffer.concat([pending, data]);
+      try {
+        // A full chunk is only known not to be the last once more data follows it
+        while (pending.length > sealedChunkSize) {
+          this.push(decryptChunk(pending.subarray(0, sealedChunkSize), key, baseIv, index++, false));
+          pending = pending.subarray(sealedChunkSize);
+        }
+        callback();
+      } catch {
+        callback(new Error('Failed to decrypt file'));
+      }
+    },
+    flush(callback: TransformCallback) {
+      if (pending.length < TAG_LENGTH) {
+        callback(new Error('Failed to decrypt file'));
+        return;
+      }
+      try {
+        callback(null, decryptChunk(pending, key, baseIv, index, true));
+      } catch {
+        callback(new Error('Failed to decrypt file'));
+      }
+    },
+  });
+}
+
+/**
+ * Decrypt a whole file encrypted by encryptFile
+ * @param data - The encrypted file
+ * @param key - The file's key
+ * @param iv - The file's base IV
+ * @returns The file contents
+ * @throws Error if the file was tampered with or truncated
+ */
+export async function decryptFile(data: Buffer, key: Buffer, iv: string): Promise<Buffer> {
+  const decipher = createFileDecipher(key, iv);
+  const parts: Buffer[] = [];
+  decipher.on('data', (part: Buffer) => parts.push(part));
+
+  await new Promise<void>((resolve, reject) => {
+    decipher.on('end', resolve);
+    decipher.on('error', reject);
+    decipher.end(data);
+  });
+
+  return Buffer.concat(parts);
+}
@@ -1,3 +1,6 @@
+import { JWT_ALGORITHMS, JwtAlgorithm, loadJwtKeys } from './jwtKeys.js';
+import { getMasterKeys } from './encryption.js';
+
 /**
  * Environment variable validation utility
  * Ensures all required environment variables are set on startup
@@ -9,7 +12,8 @@ interface EnvConfig {
     urlUnpooled: string;
   };
   jwt: {
-    secret: string;
+    keysDir: string;
+    keyAlgorithm: JwtAlgorithm;
     expiration: string;
     refreshTokenExpiration: string;
   };
@@ -30,6 +34,36 @@ interface EnvConfig {
     httpsOnly: boolean;
     trustProxy: boolean;
   };
+  mail: {
+    driver: 'smtp' | 'file';
+    from: string;
+    outboxDir: string;
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user?: string;
+      password?: string;
+    };
+  };
+  storage: {
+    driver: 'local' | 's3';
+    dir: string;
+    s3: {
+      bucket: string;
+      region: string;
+      endpoint?: string;
+      accessKeyId?: string;
+      secretAccessKey?: string;
+      forcePathStyle: boolean;
+    };
+  };
+  attachments: {
+    maxBytes: number;
+  };
+  imports: {
+    maxBytes: number;
+  };
 }
 
 /**
@@ -40,7 +74,6 @@ export function validateEnv(): EnvConfig {
   const requiredVars = [
     'DATABASE_URL',
     'DATABASE_URL_UNPOOLED',
-    'JWT_SECRET',
     'JWT_EXPIRATION',
     'REFRESH_TOKEN_EXPIRATION',
     'ENCRYPTION_KEY',
@@ -82,13 +115,85 @@ export function validateEnv(): EnvConfig {
   const httpsOnly = nodeEnv === 'production' || process.env.HTTPS_ONLY === 'true';
   const trustProxy = nodeEnv === 'production' || process.env.TRUST_PROXY === 'true';
 
+  const jwtKeysDir = process.env.JWT_KEYS_DIR || 'keys/jwt';
+  const jwtKeyAlgorithm = (process.env.JWT_KEY_ALGORITHM || 'RS256') as JwtAlgorithm;
+  if (!JWT_ALGORITHMS.includes(jwtKeyAlgorithm)) {
+    throw new Error(
+      `Invalid JWT_KEY_ALGORITHM value: ${jwtKeyAlgorithm}. Must be one of: ${JWT_ALGORITHMS.join(', ')}`
+    );
+  }
+
+  // Development environments generate a signing key on first use; production must be given real ones
+  if (nodeEnv === 'production') {
+    let keyCount: number;
+    try {
+      keyCount = loadJwtKeys(jwtKeysDir).length;
+    } catch (error) {
+      throw new Error(`Invalid JWT signing key in ${jwtKeysDir}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (keyCount === 0) {
+      throw new Error(
+        `No JWT signing keys found in ${jwtKeysDir}. ` +
+        `Create one with "npm run jwt:rotate" and set JWT_KEYS_DIR to its directory.`
+      );
+    }
+  }
+
+  if (process.env.MASTER_KEYS) {
+    try {
+      getMasterKeys();
+    } catch (error) {
+      throw new Error(`Invalid MASTER_KEYS: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (process.env.TRASH_RETENTION_DAYS !== undefined) {
+    const retentionDays = Number(process.env.TRASH_RETENTION_DAYS);
+    if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+      throw new Error(
+        `Invalid TRASH_RETENTION_DAYS value: ${process.env.TRASH_RETENTION_DAYS}. Must be a whole number of days, at least 1.`
+      );
+    }
+  }
+
+  const mailDriver = process.env.MAIL_DRIVER || (nodeEnv === 'production' ? 'smtp' : 'file');
+  if (mailDriver !== 'smtp' && mailDriver !== 'file') {
+    throw new Error(`Invalid MAIL_DRIVER value: ${mailDriver}. Must be one of: smtp, file`);
+  }
+  if (mailDriver === 'smtp' && !process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST is required when MAIL_DRIVER is smtp');
+  }
+
+  const storageDriver = process.env.STORAGE_DRIVER || 'local';
+  if (storageDriver !== 'local' && storageDriver !== 's3') {
+    throw new Error(`Invalid STORAGE_DRIVER value: ${storageDriver}. Must be one of: local, s3`);
+  }
+  if (storageDriver === 's3' && !process.env.S3_BUCKET) {
+    throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3');
+  }
+
+  const attachmentMaxBytes = Number(process.env.ATTACHMENT_MAX_BYTES || 10 * 1024 * 1024);
+  if (!Number.isInteger(attachmentMaxBytes) || attachmentMaxBytes < 1) {
+    throw new Error(
+      `Invalid ATTACHMENT_MAX_BYTES value: ${process.env.ATTACHMENT_MAX_BYTES}. Must be a whole number of bytes, at least 1.`
+    );
+  }
+
+  const importMaxBytes = Number(process.env.IMPORT_MAX_BYTES || 50 * 1024 * 1024);
+  if (!Number.isInteger(importMaxBytes) || importMaxBytes < 1) {
+    throw new Error(
+      `Invalid IMPORT_MAX_BYTES value: ${process.env.IMPORT_MAX_BYTES}. Must be a whole number of bytes, at least 1.`
+    );
+  }
+
   return {
     database: {
       url: process.env.DATABASE_URL!,
       urlUnpooled: process.env.DATABASE_URL_UNPOOLED!,
     },
     jwt: {
-      secret: process.env.JWT_SECRET!,
+      keysDir: jwtKeysDir,
+      keyAlgorithm: jwtKeyAlgorithm,
       expiration: process.env.JWT_EXPIRATION!,
       refreshTokenExpiration: process.env.REFRESH_TOKEN_EXPIRATION!,
     },
@@ -109,6 +214,36 @@ export function validateEnv(): EnvConfig {
       httpsOnly,
       trustProxy,
     },
+    mail: {
+      driver: mailDriver,
+      from: process.env.MAIL_FROM || 'MicroCare <no-reply@microcare.app>',
+      outboxDir: process.env.MAIL_OUTBOX_DIR || 'outbox',
+      smtp: {
+        host: process.env.SMTP_HOST || 'localhost',
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      },
+    },
+    storage: {
+      driver: storageDriver,
+      dir: process.env.STORAGE_DIR || 'storage',
+      s3: {
+        bucket: process.env.S3_BUCKET || '',
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      },
+    },
+    attachments: {
+      maxBytes: attachmentMaxBytes,
+    },
+    imports: {
+      maxBytes: importMaxBytes,
+    },
   };
 }
 
@@ -0,0 +1,22 @@
+import { formatEntryEtag, parseIfMatch } from './etag.js';
+
+describe('Entity Tags', () => {
+  it('should round-trip an entry version', () => {
+    expect(parseIfMatch(formatEntryEtag(7))).toEqual([7]);
+  });
+
+  it('should accept a list of tags', () => {
+    expect(parseIfMatch('"3", "4"')).toEqual([3, 4]);
+  });
+
+  it('should match any version for a missing header or "*"', () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch('*')).toBeUndefined();
+  });
+
+  it('should not match weak or malformed tags', () => {
+    expect(parseIfMatch('W/"3"')).toEqual([]);
+    expect(parseIfMatch('3')).toEqual([]);
+    expect(parseIfMatch('"abc", "5"')).toEqual([5]);
+  });
+});
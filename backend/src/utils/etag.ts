@@ -0,0 +1,32 @@
+/**
+ * Entity Tags
+ * ETags for entries are their version counter, so a client can send back the version
+ * it edited in If-Match and the update is refused if the entry changed in the meantime
+ */
+
+/**
+ * Format an entry version as a strong ETag
+ */
+export function formatEntryEtag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parse an If-Match header into the entry versions it accepts
+ * Weak and malformed tags are kept out, since If-Match only matches strong tags
+ * @returns The accepted versions, possibly none, or undefined if the header is absent or "*"
+ */
+export function parseIfMatch(header: string | undefined): number[] | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  const versions: number[] = [];
+  for (const tag of header.split(',')) {
+    const match = /^"(\d+)"$/.exec(tag.trim());
+    if (match) {
+      versions.push(parseInt(match[1], 10));
+    }
+  }
+  return versions;
+}
@@ -0,0 +1,206 @@
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import { exportAsCsv, exportAsEpub, exportAsHtml, exportAsMarkdown, exportAsPdf } from './exportUtils.js';
+import { readImportFile } from './importFormats.js';
+import { parseCsv } from './csv.js';
+import { ImportFormat, JournalEntry } from '../types/index.js';
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
+
+function entry(overrides: Partial<JournalEntry>): JournalEntry {
+  return {
+    id: 'entry-1',
+    userId: 'user-1',
+    title: 'Morning',
+    content: 'Went running',
+    tags: [],
+    createdAt: new Date('2024-01-31T07:00:00Z'),
+    updatedAt: new Date('2024-01-31T08:00:00Z'),
+    ...overrides,
+  };
+}
+
+const pdfData = Buffer.from('%PDF-1.7');
+const pdf = {
+  id: 'attachment-1',
+  entryId: 'entry-1',
+  fileName: 'route.pdf',
+  contentType: 'application/pdf',
+  size: 8,
+  hasThumbnail: false,
+  createdAt: new Date('2024-01-31T07:00:00Z'),
+  open: async () => Readable.from([pdfData]),
+};
+
+describe('Export Formats', () => {
+  describe('PDF', () => {
+    it('should write a document that lists attached files', async () => {
+      const data = await readAll((await exportAsPdf([entry({ attachments: [pdf] })])).stream);
+
+      expect(data.subarray(0, 5).toString('ascii')).toBe('%PDF-');
+      expect(data.subarray(-6).toString('ascii')).toContain('%%EOF');
+    });
+
+    it('should end the download when an attached file cannot be read', async () => {
+      const photo = { ...pdf, fileName: 'photo.jpg', contentType: 'image/jpeg', open: () => Promise.reject(new Error('Stored file not found')) };
+
+      const result = await exportAsPdf([entry({ attachments: [photo] })]);
+
+      await expect(readAll(result.stream)).rejects.toThrow('Stored file not found');
+    });
+  });
+
+  describe('Markdown zip', () => {
+    it('should write a file per entry that imports back with its front matter', async () => {
+      const entries = [
+        entry({ mood: 'happy', tags: ['health', 'true'], insight: 'Energized', insightThemes: ['exercise'], attachments: [pdf] }),
+        entry({ id: 'entry-2', title: 'Morning', content: 'Rest day' }),
+      ];
+
+      const result = await exportAsMarkdown(entries);
+      const data = await readAll(result.stream);
+      const zip = await JSZip.loadAsync(data);
+
+      expect(result.contentType).toBe('application/zip');
+      expect(Object.keys(zip.files).filter((name) => !zip.files[name].dir).sort()).toEqual([
+        '2024-01-31-morning-2.md',
+        '2024-01-31-morning.md',
+        'attachments/2024-01-31-morning/route.pdf',
+      ]);
+      expect(await zip.file('2024-01-31-morning.md')!.async('string')).toContain(
+        'insight: Energized\nthemes:\n  - exercise\n---\nWent running\n\n## Attachments\n\n- [route.pdf](attachments/2024-01-31-morning/route.pdf)\n'
+      );
+
+      const rows = await readImportFile(ImportFormat.MARKDOWN, data);
+      expect(rows.find((row) => row.file === '2024-01-31-morning.md')?.entry).toMatchObject({
+        title: 'Morning',
+        mood: 'happy',
+        tags: ['health', 'true'],
+        createdAt: '2024-01-31T07:00:00.000Z',
+        updatedAt: '2024-01-31T08:00:00.000Z',
+      });
+    });
+
+    it('should read attached files one at a time, as the zip is written', async () => {
+      let reading = 0;
+      let mostReading = 0;
+      const file = (id: string) => ({
+        ...pdf,
+        id,
+        fileName: `${id}.pdf`,
+        open: jest.fn(async () => {
+          reading += 1;
+          mostReading = Math.max(mostReading, reading);
+          return Readable.from(
+            (async function* () {
+              yield pdfData;
+              reading -= 1;
+            })()
+          );
+        }),
+      });
+      const files = [file('a'), file('b'), file('c')];
+
+      const result = await exportAsMarkdown([entry({ attachments: files })]);
+      expect(files[0].open).not.toHaveBeenCalled();
+      const zip = await JSZip.loadAsync(await readAll(result.stream));
+
+      expect(mostReading).toBe(1);
+      expect(await zip.file('attachments/2024-01-31-morning/c.pdf')!.async('string')).toBe('%PDF-1.7');
+    });
+  });
+
+  describe('CSV', () => {
+    it('should write a row per entry and keep cells from running as formulas', async () => {
+      const result = await exportAsCsv([
+        entry({
+          title: '=HYPERLINK("http://example.com")',
+          emotions: [{ mood: 'calm', customMoodId: null, intensity: 3 }],
+          tags: ['health', 'food'],
+          attachments: [pdf],
+        }),
+      ]);
+      const data = await readAll(result.stream);
+      const text = data.toString('utf8');
+      const [header, row] = parseCsv(text);
+
+      expect(text.startsWith('\uFEFF')).toBe(true);
+      expect(Object.fromEntries(header.map((column, index) => [column, row[index]]))).toMatchObject({
+        date: '2024-01-31T07:00:00.000Z',
+        title: '\'=HYPERLINK("http://example.com")',
+        content: 'Went running',
+        tags: 'health; food',
+        emotions: 'calm (3)',
+        attachments: 'route.pdf',
+        id: 'entry-1',
+      });
+      const rows = await readImportFile(ImportFormat.CSV, data);
+      expect(rows[0].entry?.content).toBe('Went running');
+    });
+  });
+
+  describe('HTML', () => {
+    it('should write a single page with escaped text and embedded files', async () => {
+      const result = await exportAsHtml([
+        entry({ title: '<script>alert(1)</script>', content: 'One\ntwo\n\nThree', mood: 'calm', attachments: [pdf] }),
+      ]);
+      const html = (await readAll(result.stream)).toString('utf8');
+
+      expect(result.contentType).toBe('text/html; charset=utf-8');
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('<h2>&lt;script&gt;alert(1)&lt;/script&gt;</h2>');
+      expect(html).toContain('<p>One<br/>two</p>\n<p>Three</p>');
+      expect(html).toContain('Calm');
+      expect(html).toContain(`href="data:application/pdf;base64,${pdfData.toString('base64')}" download="route.pdf"`);
+    });
+  });
+
+  describe('EPUB', () => {
+    it('should write a book with the mimetype first and a chapter per month, oldest first', async () => {
+      const result = await exportAsEpub([
+        entry({ id: 'entry-2', title: 'February', createdAt: new Date('2024-02-02T07:00:00Z') }),
+        entry({ title: 'January & more' }),
+      ]);
+      const data = await readAll(result.stream);
+      const zip = await JSZip.loadAsync(data);
+
+      expect(result.contentType).toBe('application/epub+zip');
+      expect(data.subarray(30, 38).toString('ascii')).toBe('mimetype');
+      expect(await zip.file('mimetype')!.async('string')).toBe('application/epub+zip');
+      expect(await zip.file('OEBPS/chapter-001.xhtml')!.async('string')).toContain('<h2>January &amp; more</h2>');
+      expect(await zip.file('OEBPS/chapter-002.xhtml')!.async('string')).toContain('<h1>February 2024</h1>');
+
+      const opf = await zip.file('OEBPS/content.opf')!.async('string');
+      expect(opf).toContain('<itemref idref="chapter-1"/>\n<itemref idref="chapter-2"/>');
+      expect(await zip.file('OEBPS/nav.xhtml')!.async('string')).toContain('href="chapter-002.xhtml#entry-entry-2"');
+    });
+
+    it('should include the images that convert and leave out the rest', async () => {
+      const png = await sharp({ create: { width: 40, height: 30, channels: 3, background: '#336699' } }).png().toBuffer();
+      const photo = { ...pdf, id: 'photo', fileName: 'photo.png', contentType: 'image/png', open: async () => Readable.from([png]) };
+      const broken = { ...pdf, id: 'broken', fileName: 'broken.png', contentType: 'image/png', open: async () => Readable.from([pdfData]) };
+
+      const zip = await JSZip.loadAsync(await readAll((await exportAsEpub([entry({ attachments: [photo, broken] })])).stream));
+
+      const chapter = await zip.file('OEBPS/chapter-001.xhtml')!.async('string');
+      expect(chapter).toContain('<img src="images/photo.jpg" alt="photo.png"/>');
+      expect(chapter).toContain('<p class="file">broken.png (image/png, 8 B)</p>');
+      const opf = await zip.file('OEBPS/content.opf')!.async('string');
+      expect(opf).toContain('<item id="image-1" href="images/photo.jpg" media-type="image/jpeg"/>');
+      expect(opf).not.toContain('broken');
+    });
+
+    it('should write a placeholder chapter when there are no entries', async () => {
+      const zip = await JSZip.loadAsync(await readAll((await exportAsEpub([])).stream));
+
+      expect(await zip.file('OEBPS/chapter-001.xhtml')!.async('string')).toContain('No entries yet');
+    });
+  });
+});
@@ -1,25 +1,124 @@
+import crypto from 'crypto';
+import { PassThrough, Readable } from 'stream';
+import JSZip from 'jszip';
 import PDFDocument from 'pdfkit';
-import { JournalEntry } from '../types/index.js';
+import { AttachmentFile, EntryField, EntryRevision, JournalEntry } from '../types/index.js';
+import { RATING_MAX, fieldsToText } from './templates.js';
+import { toExportImage } from './images.js';
+import { getMood } from './moods.js';
+import { stringifyFrontMatter } from './frontMatter.js';
+import { toCsv } from './csv.js';
+
+export const EXPORT_FORMATS = ['pdf', 'json', 'txt', 'markdown', 'csv', 'html', 'epub'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
 
 export interface ExportResult {
   filename: string;
   contentType: string;
-  data: Buffer;
+  // The export, written as it is read so attached files are never all in memory at once
+  stream: Readable;
 }
 
 function formatDate(date: Date): string {
   return new Date(date).toISOString().split('T')[0];
 }
 
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function attachmentLine(attachment: AttachmentFile): string {
+  return `${attachment.fileName} (${attachment.contentType}, ${formatSize(attachment.size)})`;
+}
+
+/**
+ * Read a whole attached file
+ */
+async function readAttachment(attachment: AttachmentFile): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of await attachment.open()) {
+    parts.push(Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * A stream that only starts producing its pieces once it is read
+ * JSZip takes each member's stream as soon as the member is added, but reads it only when
+ * the archive reaches it, so attached files are opened one at a time.
+ */
+function deferred(pieces: () => AsyncGenerator<Buffer>): Readable {
+  return Readable.from(pieces());
+}
+
+/**
+ * Write a zip archive as it is read
+ */
+function zipStream(zip: JSZip): Readable {
+  const stream = new PassThrough();
+  zip
+    .generateNodeStream({ type: 'nodebuffer', compression: 'DEFLATE' })
+    .on('error', (error) => stream.destroy(error))
+    .pipe(stream);
+  return stream;
+}
+
+/**
+ * Base64-encode a file as it is read
+ * Pieces are cut at multiples of three bytes, so their encodings join without padding
+ */
+async function* base64Pieces(stream: Readable): AsyncGenerator<string> {
+  let rest = Buffer.alloc(0);
+  for await (const part of stream) {
+    const data = Buffer.concat([rest, Buffer.from(part)]);
+    const whole = data.length - (data.length % 3);
+    yield data.subarray(0, whole).toString('base64');
+    rest = data.subarray(whole);
+  }
+  yield rest.toString('base64');
+}
+
+/**
+ * Write entries as a JSON array, one attached file at a time
+ */
+async function* jsonPieces(entries: JournalEntry[]): AsyncGenerator<string> {
+  yield '[';
+  for (const [index, { attachments, ...entry }] of entries.entries()) {
+    yield index > 0 ? ',\n' : '\n';
+    if (!attachments) {
+      yield JSON.stringify(entry);
+      continue;
+    }
+    // Each object is written without its closing brace, so its files can follow
+    yield `${JSON.stringify(entry).slice(0, -1)},"attachments":[`;
+    for (const [i, { open, ...attachment }] of attachments.entries()) {
+      yield `${i > 0 ? ',' : ''}${JSON.stringify(attachment).slice(0, -1)},"data":"`;
+      yield* base64Pieces(await open());
+      yield '"}';
+    }
+    yield ']}';
+  }
+  yield '\n]\n';
+}
+
+/**
+ * Export entries as JSON, with attached files included as base64
+ */
 export async function exportAsJson(entries: JournalEntry[]): Promise<ExportResult> {
-  const data = Buffer.from(JSON.stringify(entries, null, 2), 'utf8');
   return {
     filename: `microcare-entries-${formatDate(new Date())}.json`,
     contentType: 'application/json',
-    data,
+    stream: Readable.from(jsonPieces(entries)),
   };
 }
 
+function revisionHeading(revision: EntryRevision): string {
+  return `Revision ${revision.revision} (saved ${new Date(revision.savedAt).toLocaleString()})`;
+}
+
 export async function exportAsTxt(entries: JournalEntry[]): Promise<ExportResult> {
   const text = entries
     .map((entry) => {
@@ -29,8 +128,23 @@ export async function exportAsTxt(entries: JournalEntry[]): Promise<ExportResult
         entry.mood ? `Mood: ${entry.mood}` : undefined,
         entry.tags && entry.tags.length > 0 ? `Tags: ${entry.tags.join(', ')}` : undefined,
         '',
+        fieldsToText(entry.fields),
         entry.content,
         '',
+        ...(entry.attachments && entry.attachments.length > 0
+          ? ['Attachments:', ...entry.attachments.map((attachment) => `- ${attachmentLine(attachment)}`), '']
+          : []),
+        ...(entry.revisions && entry.revisions.length > 0
+          ? [
+              'Previous versions:',
+              ...entry.revisions.flatMap((revision) => [
+                revisionHeading(revision),
+                `Title: ${revision.title}`,
+                fieldsToText(revision.fields),
+                revision.content,
+              ]),
+            ]
+          : []),
         '---',
         '',
       ]
@@ -42,16 +156,65 @@ export async function exportAsTxt(entries: JournalEntry[]): Promise<ExportResult
   return {
     filename: `microcare-entries-${formatDate(new Date())}.txt`,
     contentType: 'text/plain',
-    data: Buffer.from(text, 'utf8'),
+    stream: Readable.from([Buffer.from(text, 'utf8')]),
   };
 }
 
-export async function exportAsPdf(entries: JournalEntry[]): Promise<ExportResult> {
-  const doc = new PDFDocument({ size: 'A4', margin: 50 });
-  const chunks: Buffer[] = [];
+/**
+ * Write an entry's filled-in template sections, each under its label
+ */
+function renderFields(doc: PDFKit.PDFDocument, fields: EntryField[] | null | undefined): void {
+  const filled = (fields ?? []).filter((field) => field.value !== null);
+  filled.forEach((field) => {
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('black').text(field.label);
+    doc.font('Helvetica');
+    if (Array.isArray(field.value)) {
+      doc.list(field.value, { bulletRadius: 1.5, textIndent: 10 });
+    } else if (field.type === 'rating') {
+      doc.text(`${field.value} / ${RATING_MAX}`);
+    } else {
+      doc.text(String(field.value), { align: 'left' });
+    }
+    doc.moveDown(0.5);
+  });
+}
+
+// Tallest an attached image is drawn in a PDF export, in points
+const PDF_IMAGE_MAX_HEIGHT = 300;
+
+/**
+ * Write an entry's attachments: images are drawn, other files are listed by name
+ * PDF documents can only embed JPEG and PNG, so each image is read and converted in turn.
+ */
+async function renderAttachments(doc: PDFKit.PDFDocument, attachments: AttachmentFile[]): Promise<void> {
+  const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
 
-  doc.on('data', (chunk) => chunks.push(chunk));
+  doc.moveDown(0.75);
+  doc.font('Helvetica-Bold').fontSize(11).fillColor('black').text('Attachments');
+  doc.font('Helvetica');
+  for (const attachment of attachments) {
+    doc.moveDown(0.25);
+    const image = attachment.contentType.startsWith('image/')
+      ? await toExportImage(await readAttachment(attachment))
+      : null;
+    if (image) {
+      const scale = Math.min(1, contentWidth / image.width, PDF_IMAGE_MAX_HEIGHT / image.height);
+      const height = image.height * scale;
+      if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+      doc.image(image.data, doc.page.margins.left, doc.y, { width: image.width * scale, height });
+      doc.y += height;
+      doc.moveDown(0.25);
+    }
+    doc.fontSize(9).fillColor('gray').text(attachmentLine(attachment));
+  }
+}
 
+/**
+ * Write entries into a PDF document, with attached images drawn under their entries
+ */
+async function renderPdf(doc: PDFKit.PDFDocument, entries: JournalEntry[]): Promise<void> {
   doc.fontSize(20).text('MicroCare Journal Export', { align: 'center' });
   doc.moveDown(0.5);
   doc.fontSize(10).fillColor('gray').text(`Generated: ${new Date().toLocaleString()}`, {
@@ -59,7 +222,7 @@ export async function exportAsPdf(entries: JournalEntry[]): Promise<ExportResult
   });
   doc.moveDown(1.5);
 
-  entries.forEach((entry, index) => {
+  for (const [index, entry] of entries.entries()) {
     doc.fillColor('black').fontSize(14).text(entry.title || 'Untitled Entry');
     doc.moveDown(0.25);
     doc.fontSize(10).fillColor('gray').text(
@@ -69,9 +232,30 @@ export async function exportAsPdf(entries: JournalEntry[]): Promise<ExportResult
       doc.fontSize(10).text(`Tags: ${entry.tags.join(', ')}`);
     }
     doc.moveDown(0.5);
-    doc.fontSize(11).fillColor('black').text(entry.content, {
-      align: 'left',
-    });
+    renderFields(doc, entry.fields);
+    if (entry.content) {
+      doc.fontSize(11).fillColor('black').text(entry.content, {
+        align: 'left',
+      });
+    }
+
+    if (entry.attachments && entry.attachments.length > 0) {
+      await renderAttachments(doc, entry.attachments);
+    }
+
+    if (entry.revisions && entry.revisions.length > 0) {
+      doc.moveDown(0.75);
+      doc.fontSize(11).fillColor('black').text('Previous versions');
+      entry.revisions.forEach((revision) => {
+        doc.moveDown(0.5);
+        doc.fontSize(9).fillColor('gray').text(`${revisionHeading(revision)} • ${revision.title}`);
+        const fieldsText = fieldsToText(revision.fields);
+        if (fieldsText) {
+          doc.fontSize(10).fillColor('gray').text(fieldsText, { align: 'left' });
+        }
+        doc.fontSize(10).fillColor('gray').text(revision.content, { align: 'left' });
+      });
+    }
 
     if (index < entries.length - 1) {
       doc.moveDown(1);
@@ -81,18 +265,565 @@ export async function exportAsPdf(entries: JournalEntry[]): Promise<ExportResult
         .stroke();
       doc.moveDown(1);
     }
+  }
+}
+
+/**
+ * Export entries as a PDF, with attached images drawn under their entries
+ */
+export async function exportAsPdf(entries: JournalEntry[]): Promise<ExportResult> {
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  const stream = new PassThrough();
+  doc.pipe(stream);
+  // Pages are sent as they are written; a file that cannot be read ends the download
+  renderPdf(doc, entries).then(
+    () => doc.end(),
+    (error) => stream.destroy(error)
+  );
+
+  return {
+    filename: `microcare-entries-${formatDate(new Date())}.pdf`,
+    contentType: 'application/pdf',
+    stream,
+  };
+}
+
+/**
+ * Name each entry's file after its date and title, numbering names that repeat
+ */
+function entryFileNames(entries: JournalEntry[]): string[] {
+  const used = new Set<string>();
+  return entries.map((entry) => {
+    const slug = (entry.title || '')
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60)
+      .replace(/-+$/, '');
+    const base = `${formatDate(entry.createdAt)}-${slug || 'entry'}`;
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base}-${n}`;
+    }
+    used.add(name);
+    return name;
   });
+}
 
-  doc.end();
+/**
+ * Give each of an entry's attachments a file name no other attachment of the entry has
+ */
+function attachmentFileNames(attachments: AttachmentFile[]): string[] {
+  const used = new Set<string>();
+  return attachments.map((attachment) => {
+    const safe = attachment.fileName.replace(/[\\/]/g, '_');
+    let name = safe;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const dot = safe.lastIndexOf('.');
+      name = dot > 0 ? `${safe.slice(0, dot)}-${n}${safe.slice(dot)}` : `${safe}-${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Write an entry's filled-in template sections as Markdown, each under its label
+ */
+function fieldsToMarkdown(fields: EntryField[] | null | undefined): string {
+  return (fields ?? [])
+    .filter((field) => field.value !== null)
+    .map((field) => {
+      if (Array.isArray(field.value)) {
+        return `## ${field.label}\n\n${field.value.map((item) => `- ${item}`).join('\n')}`;
+      }
+      if (field.type === 'rating') {
+        return `## ${field.label}\n\n${field.value} / ${RATING_MAX}`;
+      }
+      return `## ${field.label}\n\n${field.value}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Export entries as a zip of Markdown files, one per entry, with their attached files
+ * The front matter holds the entry's dates, mood, tags, status and insight, in the keys
+ * the Markdown import reads back.
+ */
+export async function exportAsMarkdown(entries: JournalEntry[]): Promise<ExportResult> {
+  const zip = new JSZip();
+  const names = entryFileNames(entries);
+
+  entries.forEach((entry, index) => {
+    const attachments = entry.attachments ?? [];
+    const links = attachmentFileNames(attachments).map((fileName, i) => {
+      const path = `attachments/${names[index]}/${fileName}`;
+      zip.file(
+        path,
+        deferred(async function* () {
+          yield* await attachments[i].open();
+        })
+      );
+      const href = path.split('/').map(encodeURIComponent).join('/');
+      return attachments[i].contentType.startsWith('image/') ? `- ![${fileName}](${href})` : `- [${fileName}](${href})`;
+    });
 
-  const data = await new Promise<Buffer>((resolve, reject) => {
-    doc.on('end', () => resolve(Buffer.concat(chunks)));
-    doc.on('error', (err) => reject(err));
+    const frontMatter = stringifyFrontMatter({
+      title: entry.title,
+      date: new Date(entry.createdAt).toISOString(),
+      updated: new Date(entry.updatedAt).toISOString(),
+      mood: entry.mood,
+      tags: entry.tags,
+      status: entry.status,
+      insight: entry.insight,
+      themes: entry.insightThemes,
+    });
+    const body = [
+      fieldsToMarkdown(entry.fields),
+      entry.content.trim(),
+      links.length > 0 ? `## Attachments\n\n${links.join('\n')}` : '',
+    ]
+      .filter((part) => part.length > 0)
+      .join('\n\n');
+    zip.file(`${names[index]}.md`, `${frontMatter}${body}\n`);
   });
 
   return {
-    filename: `microcare-entries-${formatDate(new Date())}.pdf`,
-    contentType: 'application/pdf',
-    data,
+    filename: `microcare-entries-${formatDate(new Date())}.zip`,
+    contentType: 'application/zip',
+    stream: zipStream(zip),
+  };
+}
+
+/**
+ * Keep spreadsheets from running a cell as a formula
+ */
+function spreadsheetCell(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Export entries as CSV, one row per entry, for spreadsheets
+ * The columns the CSV import reads come first. Cells that start like a formula are
+ * prefixed with an apostrophe.
+ */
+export async function exportAsCsv(entries: JournalEntry[]): Promise<ExportResult> {
+  const header = [
+    'date', 'updated', 'title', 'content', 'mood', 'tags', 'status',
+    'emotions', 'fields', 'insight', 'themes', 'attachments', 'id',
+  ];
+  const rows = entries.map((entry) =>
+    [
+      new Date(entry.createdAt).toISOString(),
+      new Date(entry.updatedAt).toISOString(),
+      entry.title,
+      entry.content,
+      entry.mood ?? '',
+      (entry.tags ?? []).join('; '),
+      entry.status ?? '',
+      (entry.emotions ?? []).map((emotion) => `${emotion.mood} (${emotion.intensity})`).join('; '),
+      fieldsToText(entry.fields),
+      entry.insight ?? '',
+      (entry.insightThemes ?? []).join('; '),
+      (entry.attachments ?? []).map((attachment) => attachment.fileName).join('; '),
+      entry.id,
+    ].map(spreadsheetCell)
+  );
+
+  return {
+    filename: `microcare-entries-${formatDate(new Date())}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    // The byte order mark tells spreadsheets the file is UTF-8
+    stream: Readable.from([Buffer.from(`\uFEFF${toCsv([header, ...rows])}`, 'utf8')]),
+  };
+}
+
+/**
+ * Escape text for HTML and XHTML, dropping characters XML does not allow
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Text as paragraphs, split at blank lines, keeping single line breaks
+ */
+function paragraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .map((paragraph) => `<p>${paragraph.split('\n').map(escapeXml).join('<br/>')}</p>`)
+    .join('\n');
+}
+
+function fieldsToHtml(fields: EntryField[] | null | undefined): string {
+  return (fields ?? [])
+    .filter((field) => field.value !== null)
+    .map((field) => {
+      const heading = `<h3>${escapeXml(field.label)}</h3>`;
+      if (Array.isArray(field.value)) {
+        return `${heading}\n<ul>${field.value.map((item) => `<li>${escapeXml(item)}</li>`).join('')}</ul>`;
+      }
+      if (field.type === 'rating') {
+        return `${heading}\n<p>${field.value} / ${RATING_MAX}</p>`;
+      }
+      return `${heading}\n${paragraphs(String(field.value))}`;
+    })
+    .join('\n');
+}
+
+interface HtmlEntryOptions {
+  // Where an image attachment's converted copy is, if it could be converted
+  imageSrc: (attachment: AttachmentFile) => Promise<string | undefined>;
+  // Where other attachments can be downloaded from, in pieces, if they are included
+  fileHref?: (attachment: AttachmentFile) => AsyncGenerator<string>;
+  revisions: boolean;
+}
+
+/**
+ * Join the parts that are not empty, each on its own line
+ */
+function lines(parts: string[]): string {
+  return parts
+    .filter((part) => part.length > 0)
+    .map((part) => `${part}\n`)
+    .join('');
+}
+
+/**
+ * Render an entry as XHTML, which HTML pages and EPUB chapters both accept
+ * Attachments are written one at a time, so only one file is read at once.
+ */
+async function* entryToHtml(entry: JournalEntry, options: HtmlEntryOptions): AsyncGenerator<string> {
+  const createdAt = new Date(entry.createdAt);
+  const mood = entry.mood ? getMood(entry.mood) : undefined;
+  const parts = [
+    `<article class="entry" id="entry-${escapeXml(entry.id)}">`,
+    `<h2>${escapeXml(entry.title || 'Untitled Entry')}</h2>`,
+    `<p class="meta"><time datetime="${createdAt.toISOString()}">${escapeXml(createdAt.toLocaleString())}</time>` +
+      (entry.mood ? ` · ${escapeXml(mood ? `${mood.emoji} ${mood.label}` : entry.mood)}` : '') +
+      '</p>',
+  ];
+  if (entry.tags && entry.tags.length > 0) {
+    parts.push(`<p class="tags">${entry.tags.map((tag) => `<span class="tag">#${escapeXml(tag)}</span>`).join(' ')}</p>`);
+  }
+  parts.push(fieldsToHtml(entry.fields), paragraphs(entry.content));
+  yield lines(parts);
+
+  const attachments = entry.attachments ?? [];
+  if (attachments.length > 0) {
+    yield '<div class="attachments">\n';
+    for (const attachment of attachments) {
+      const src = await options.imageSrc(attachment);
+      if (src) {
+        yield `<figure><img src="${escapeXml(src)}" alt="${escapeXml(attachment.fileName)}"/>` +
+          `<figcaption>${escapeXml(attachment.fileName)}</figcaption></figure>\n`;
+      } else if (options.fileHref) {
+        yield '<p class="file"><a href="';
+        for await (const piece of options.fileHref(attachment)) {
+          yield escapeXml(piece);
+        }
+        yield `" download="${escapeXml(attachment.fileName)}">${escapeXml(attachmentLine(attachment))}</a></p>\n`;
+      } else {
+        yield `<p class="file">${escapeXml(attachmentLine(attachment))}</p>\n`;
+      }
+    }
+    yield '</div>\n';
+  }
+
+  const rest: string[] = [];
+  if (entry.insight) {
+    rest.push(
+      '<aside class="insight">',
+      '<h3>Insight</h3>',
+      paragraphs(entry.insight),
+      entry.insightThemes && entry.insightThemes.length > 0
+        ? `<p class="themes">Themes: ${escapeXml(entry.insightThemes.join(', '))}</p>`
+        : '',
+      '</aside>'
+    );
+  }
+
+  if (options.revisions && entry.revisions && entry.revisions.length > 0) {
+    rest.push(`<details class="revisions"><summary>Previous versions (${entry.revisions.length})</summary>`);
+    for (const revision of entry.revisions) {
+      rest.push(
+        '<div class="revision">',
+        `<p class="meta">${escapeXml(`${revisionHeading(revision)} • ${revision.title}`)}</p>`,
+        paragraphs(fieldsToText(revision.fields)),
+        paragraphs(revision.content),
+        '</div>'
+      );
+    }
+    rest.push('</details>');
+  }
+
+  rest.push('</article>');
+  yield lines(rest);
+}
+
+const EXPORT_CSS = `
+body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #1f2937; max-width: 42em; margin: 0 auto; padding: 1em; }
+h1, h2, h3 { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.25; }
+h2 { margin-bottom: 0.25em; }
+h3 { font-size: 1em; margin: 1em 0 0.25em; }
+.meta, .tags, .file, .themes, figcaption { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; font-size: 0.85em; color: #6b7280; }
+.meta { margin-top: 0; }
+.tag { margin-right: 0.5em; }
+.entry { border-bottom: 1px solid #e5e7eb; padding-bottom: 1.5em; margin-bottom: 1.5em; }
+figure { margin: 1em 0; }
+img { max-width: 100%; height: auto; }
+.insight { background: #f3f4f6; border-radius: 6px; padding: 0.5em 1em; margin-top: 1em; }
+.revisions { margin-top: 1em; color: #6b7280; }
+.revision { border-left: 3px solid #e5e7eb; padding-left: 1em; margin-top: 0.75em; }
+nav ol { padding-left: 1.25em; }
+`.trim();
+
+/**
+ * Convert an image attachment to a JPEG both browsers and e-readers show
+ */
+async function convertImage(attachment: AttachmentFile): Promise<Buffer | null> {
+  if (!attachment.contentType.startsWith('image/')) {
+    return null;
+  }
+  const image = await toExportImage(await readAttachment(attachment));
+  return image?.data ?? null;
+}
+
+/**
+ * Write entries as one HTML page, one attached file at a time
+ */
+async function* htmlPieces(entries: JournalEntry[]): AsyncGenerator<string> {
+  const options: HtmlEntryOptions = {
+    imageSrc: async (attachment) => {
+      const image = await convertImage(attachment);
+      return image ? `data:image/jpeg;base64,${image.toString('base64')}` : undefined;
+    },
+    fileHref: async function* (attachment) {
+      yield `data:${attachment.contentType};base64,`;
+      yield* base64Pieces(await attachment.open());
+    },
+    revisions: true,
+  };
+
+  yield lines([
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8"/>',
+    '<meta name="viewport" content="width=device-width, initial-scale=1"/>',
+    '<title>MicroCare Journal</title>',
+    `<style>\n${EXPORT_CSS}\n</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    '<h1>MicroCare Journal</h1>',
+    `<p class="meta">Exported ${escapeXml(new Date().toLocaleString())} · ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}</p>`,
+    '</header>',
+    entries.length > 0
+      ? `<nav><h2>Contents</h2><ol>${entries
+          .map(
+            (entry) =>
+              `<li><a href="#entry-${escapeXml(entry.id)}">${escapeXml(entry.title || 'Untitled Entry')}</a> ` +
+              `<span class="meta">${formatDate(entry.createdAt)}</span></li>`
+          )
+          .join('\n')}</ol></nav>`
+      : '',
+    '<main>',
+  ]);
+  for (const entry of entries) {
+    yield* entryToHtml(entry, options);
+  }
+  yield lines(['</main>', '</body>', '</html>']);
+}
+
+/**
+ * Export entries as one self-contained HTML page
+ * Images and other attached files are embedded, so the page can be opened and its files
+ * downloaded without a connection.
+ */
+export async function exportAsHtml(entries: JournalEntry[]): Promise<ExportResult> {
+  return {
+    filename: `microcare-entries-${formatDate(new Date())}.html`,
+    contentType: 'text/html; charset=utf-8',
+    stream: Readable.from(htmlPieces(entries)),
+  };
+}
+
+function xhtmlDocument(title: string, body: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html>',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">',
+    '<head>',
+    '<meta charset="UTF-8"/>',
+    `<title>${escapeXml(title)}</title>`,
+    '<link rel="stylesheet" type="text/css" href="style.css"/>',
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Export entries as an EPUB 3 book for e-readers
+ * Entries are in the order they were written, with a chapter for each month. Attached
+ * images are included; other files are listed by name, and earlier versions are left out.
+ */
+export async function exportAsEpub(entries: JournalEntry[]): Promise<ExportResult> {
+  const chronological = [...entries].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const months = new Map<string, JournalEntry[]>();
+  for (const entry of chronological) {
+    const month = formatDate(entry.createdAt).slice(0, 7);
+    months.set(month, [...(months.get(month) ?? []), entry]);
+  }
+
+  const chapters = [...months.entries()].map(([month, monthEntries], index) => ({
+    file: `chapter-${String(index + 1).padStart(3, '0')}.xhtml`,
+    title: new Date(`${month}-01T00:00:00Z`).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+    entries: monthEntries,
+  }));
+  if (chapters.length === 0) {
+    chapters.push({ file: 'chapter-001.xhtml', title: 'No entries yet', entries: [] });
+  }
+
+  const zip = new JSZip();
+  // The mimetype comes first and uncompressed, so readers can recognize the file
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file(
+    'META-INF/container.xml',
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+      '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>',
+      '</container>',
+      '',
+    ].join('\n')
+  );
+  zip.file('OEBPS/style.css', `${EXPORT_CSS}\n`);
+
+  // Images are converted as the archive reaches them. Chapters and the package document
+  // come after them, so they only refer to the images that could be converted; an image
+  // that could not be is left empty and out of the manifest.
+  const images = new Set<string>();
+  const imageAttachments = chronological
+    .flatMap((entry) => entry.attachments ?? [])
+    .filter((attachment) => attachment.contentType.startsWith('image/'));
+  for (const attachment of imageAttachments) {
+    zip.file(
+      `OEBPS/images/${attachment.id}.jpg`,
+      deferred(async function* () {
+        const image = await convertImage(attachment);
+        if (image) {
+          images.add(attachment.id);
+          yield image;
+        }
+      })
+    );
+  }
+
+  const options: HtmlEntryOptions = {
+    imageSrc: async (attachment) => (images.has(attachment.id) ? `images/${attachment.id}.jpg` : undefined),
+    revisions: false,
+  };
+  for (const chapter of chapters) {
+    zip.file(
+      `OEBPS/${chapter.file}`,
+      deferred(async function* () {
+        let body = `<section epub:type="chapter">\n<h1>${escapeXml(chapter.title)}</h1>\n`;
+        for (const entry of chapter.entries) {
+          for await (const piece of entryToHtml(entry, options)) {
+            body += piece;
+          }
+        }
+        yield Buffer.from(xhtmlDocument(chapter.title, `${body}</section>`), 'utf8');
+      })
+    );
+  }
+
+  zip.file(
+    'OEBPS/nav.xhtml',
+    xhtmlDocument(
+      'Contents',
+      [
+        '<nav epub:type="toc" id="toc">',
+        '<h1>Contents</h1>',
+        '<ol>',
+        ...chapters.map(
+          (chapter) =>
+            `<li><a href="${chapter.file}">${escapeXml(chapter.title)}</a>` +
+            (chapter.entries.length > 0
+              ? `<ol>${chapter.entries
+                  .map(
+                    (entry) =>
+                      `<li><a href="${chapter.file}#entry-${escapeXml(entry.id)}">${escapeXml(entry.title || 'Untitled Entry')}</a></li>`
+                  )
+                  .join('')}</ol>`
+              : '') +
+            '</li>'
+        ),
+        '</ol>',
+        '</nav>',
+      ].join('\n')
+    )
+  );
+
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  zip.file(
+    'OEBPS/content.opf',
+    deferred(async function* () {
+      yield Buffer.from(
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">',
+          '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+          `<dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>`,
+          '<dc:title>MicroCare Journal</dc:title>',
+          '<dc:language>en</dc:language>',
+          `<dc:date>${formatDate(new Date())}</dc:date>`,
+          `<meta property="dcterms:modified">${modified}</meta>`,
+          '</metadata>',
+          '<manifest>',
+          '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+          '<item id="style" href="style.css" media-type="text/css"/>',
+          ...chapters.map(
+            (chapter, index) => `<item id="chapter-${index + 1}" href="${chapter.file}" media-type="application/xhtml+xml"/>`
+          ),
+          ...imageAttachments
+            .filter((attachment) => images.has(attachment.id))
+            .map(
+              (attachment, index) =>
+                `<item id="image-${index + 1}" href="images/${attachment.id}.jpg" media-type="image/jpeg"/>`
+            ),
+          '</manifest>',
+          '<spine>',
+          ...chapters.map((_chapter, index) => `<itemref idref="chapter-${index + 1}"/>`),
+          '</spine>',
+          '</package>',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+    })
+  );
+
+  return {
+    filename: `microcare-entries-${formatDate(new Date())}.epub`,
+    contentType: 'application/epub+zip',
+    stream: zipStream(zip),
   };
 }
@@ -0,0 +1,31 @@
+import { parseFrontMatter, stringifyFrontMatter } from './frontMatter.js';
+
+describe('Front Matter', () => {
+  it('should read values, quoted values and inline lists', () => {
+    const document = parseFrontMatter(
+      '---\nTitle: "Morning: pages"\ndate: 2024-01-31\ntags: [work, \'family\']\n---\nWrote a lot.\n'
+    );
+
+    expect(document.data).toEqual({ title: 'Morning: pages', date: '2024-01-31', tags: ['work', 'family'] });
+    expect(document.body).toBe('Wrote a lot.\n');
+  });
+
+  it('should read lists written one item per line', () => {
+    const document = parseFrontMatter('---\ntags:\n  - work\n  - "long run"\nmood: happy\n---\nBody');
+
+    expect(document.data).toEqual({ tags: ['work', 'long run'], mood: 'happy' });
+  });
+
+  it('should treat a file without front matter as all body', () => {
+    expect(parseFrontMatter('# Heading\r\n\r\nText')).toEqual({ data: {}, body: '# Heading\n\nText' });
+  });
+
+  it('should write values and lists that read back the same', () => {
+    const data = { title: 'Morning: "pages"', mood: 'calm', tags: ['work', 'yes'], status: undefined, themes: [] };
+
+    const written = stringifyFrontMatter(data);
+
+    expect(written).toBe('---\ntitle: "Morning: \\"pages\\""\nmood: calm\ntags:\n  - work\n  - "yes"\n---\n');
+    expect(parseFrontMatter(`${written}Body`).data).toEqual({ title: 'Morning: "pages"', mood: 'calm', tags: ['work', 'yes'] });
+  });
+});
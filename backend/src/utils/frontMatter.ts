@@ -0,0 +1,110 @@
+/**
+ * Front Matter
+ * Reads and writes the block of YAML-style settings at the top of a Markdown file,
+ * between two lines of `---`. Only what journal apps write there is understood:
+ * `key: value` lines, where a value may be quoted, and lists written as `[a, b]` or
+ * as `- item` lines under a key with no value.
+ */
+
+export type FrontMatterValue = string | string[];
+
+export interface FrontMatterDocument {
+  // Keys in lowercase
+  data: Record<string, FrontMatterValue>;
+  // The Markdown after the front matter
+  body: string;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed[0] === '"' && trimmed[trimmed.length - 1] === '"') {
+    return trimmed.slice(1, -1).replace(/\\(["\\])/g, '$1');
+  }
+  if (trimmed.length >= 2 && trimmed[0] === "'" && trimmed[trimmed.length - 1] === "'") {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+function parseValue(value: string): FrontMatterValue {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    return trimmed
+      .slice(1, -1)
+      .split(',')
+      .map(unquote)
+      .filter((item) => item.length > 0);
+  }
+  return unquote(trimmed);
+}
+
+/**
+ * Split a Markdown file into its front matter and body
+ * A file without front matter has empty data and is all body.
+ */
+export function parseFrontMatter(markdown: string): FrontMatterDocument {
+  const text = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const match = /^---\n([\s\S]*?)\n---(?:\n|$)/.exec(text);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split('\n')) {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      const list = data[listKey];
+      data[listKey] = [...(Array.isArray(list) ? list : []), unquote(item[1])];
+      continue;
+    }
+
+    const pair = /^([A-Za-z0-9_ -]+):(.*)$/.exec(line);
+    if (!pair) {
+      continue;
+    }
+    const key = pair[1].trim().toLowerCase();
+    if (pair[2].trim() === '') {
+      // The value is the list on the following lines, if there is one
+      listKey = key;
+      data[key] = [];
+    } else {
+      listKey = null;
+      data[key] = parseValue(pair[2]);
+    }
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+// Values YAML would read as something other than text
+const YAML_KEYWORDS = /^(true|false|yes|no|on|off|null|~)$/i;
+
+function quote(value: string): string {
+  const line = value.replace(/\s*\n\s*/g, ' ');
+  if (/^[A-Za-z][\w .,'()/-]*$/.test(line) && line === line.trim() && !YAML_KEYWORDS.test(line)) {
+    return line;
+  }
+  return `"${line.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Write front matter that parseFrontMatter, and YAML readers, can read back
+ * Empty values are left out, lists are written one item per line, and line breaks in a
+ * value become spaces.
+ */
+export function stringifyFrontMatter(data: Record<string, FrontMatterValue | null | undefined>): string {
+  const lines = ['---'];
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      if (value.length > 0) {
+        lines.push(`${key}:`, ...value.map((item) => `  - ${quote(item)}`));
+      }
+    } else if (value) {
+      lines.push(`${key}: ${quote(value)}`);
+    }
+  }
+  lines.push('---');
+  return `${lines.join('\n')}\n`;
+}
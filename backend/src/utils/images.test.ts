@@ -0,0 +1,42 @@
+import sharp from 'sharp';
+import { createThumbnail, toExportImage } from './images.js';
+
+describe('Image Processing', () => {
+  const photo = () =>
+    sharp({ create: { width: 1200, height: 800, channels: 3, background: '#336699' } }).png().toBuffer();
+
+  describe('createThumbnail', () => {
+    it('should shrink an image to fit the thumbnail size, as WebP', async () => {
+      const metadata = await sharp(await createThumbnail(await photo())).metadata();
+
+      expect(metadata).toMatchObject({ format: 'webp', width: 320, height: 213 });
+    });
+
+    it('should not enlarge a small image', async () => {
+      const small = await sharp({ create: { width: 40, height: 30, channels: 3, background: '#000000' } })
+        .png()
+        .toBuffer();
+
+      const metadata = await sharp(await createThumbnail(small)).metadata();
+
+      expect(metadata).toMatchObject({ width: 40, height: 30 });
+    });
+
+    it('should reject a file that is not an image', async () => {
+      await expect(createThumbnail(Buffer.from('GIF89a-truncated'))).rejects.toThrow('Invalid image');
+    });
+  });
+
+  describe('toExportImage', () => {
+    it('should convert an image to a JPEG with its size', async () => {
+      const image = await toExportImage(await photo());
+
+      expect(image).toMatchObject({ width: 1000, height: 667 });
+      expect((await sharp(image!.data).metadata()).format).toBe('jpeg');
+    });
+
+    it('should skip an image that cannot be read', async () => {
+      await expect(toExportImage(Buffer.from('not an image'))).resolves.toBeNull();
+    });
+  });
+});
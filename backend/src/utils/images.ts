@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+
+/**
+ * Image Processing
+ * Thumbnails of attached images, and copies of them small enough to embed in PDF exports
+ */
+
+// Longest side of a thumbnail, in pixels
+export const THUMBNAIL_SIZE = 320;
+// Longest side of an image embedded in a PDF export, in pixels
+const EXPORT_IMAGE_SIZE = 1000;
+
+/**
+ * Make a thumbnail of an image, turned upright and fitting in a square of THUMBNAIL_SIZE
+ * @returns The thumbnail as WebP
+ * @throws Error if the image cannot be read
+ */
+export async function createThumbnail(image: Buffer): Promise<Buffer> {
+  try {
+    return await sharp(image)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  } catch {
+    throw new Error('Invalid image: the file could not be read as an image');
+  }
+}
+
+export interface ExportImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Convert an image to a JPEG that PDF documents can embed
+ * @returns The JPEG and its size in pixels, or null if the image cannot be read
+ */
+export async function toExportImage(image: Buffer): Promise<ExportImage | null> {
+  try {
+    const { data, info } = await sharp(image)
+      .rotate()
+      .resize(EXPORT_IMAGE_SIZE, EXPORT_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  } catch {
+    return null;
+  }
+}
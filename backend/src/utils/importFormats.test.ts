@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import { readImportFile } from './importFormats.js';
+import { ImportFormat } from '../types/index.js';
+
+async function zip(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const archive = new JSZip();
+  for (const [name, contents] of Object.entries(files)) {
+    archive.file(name, contents);
+  }
+  return archive.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('Import Formats', () => {
+  describe('MicroCare JSON', () => {
+    it('should read entries as they were exported, with their attachments', async () => {
+      const exported = {
+        exportDate: '2024-02-01T00:00:00.000Z',
+        totalEntries: 1,
+        entries: [
+          {
+            id: 'entry-1',
+            title: 'Morning',
+            content: 'Went running',
+            mood: 'happy',
+            emotions: [{ mood: 'happy', customMoodId: null, intensity: 4 }],
+            tags: ['health'],
+            status: 'PUBLISHED',
+            templateId: null,
+            fields: null,
+            createdAt: '2024-01-31T07:00:00.000Z',
+            updatedAt: '2024-01-31T08:00:00.000Z',
+            revisions: [{ revision: 1, content: 'Went' }],
+            attachments: [
+              { fileName: 'route.pdf', contentType: 'application/pdf', data: Buffer.from('%PDF-1.7').toString('base64') },
+              { fileName: 'broken.pdf' },
+            ],
+          },
+        ],
+      };
+
+      const rows = await readImportFile(ImportFormat.JSON, Buffer.from(JSON.stringify(exported)));
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].row).toBe(1);
+      expect(rows[0].entry).toMatchObject({
+        title: 'Morning',
+        content: 'Went running',
+        mood: 'happy',
+        emotions: [{ mood: 'happy', customMoodId: null, intensity: 4 }],
+        tags: ['health'],
+        status: 'PUBLISHED',
+        createdAt: '2024-01-31T07:00:00.000Z',
+        updatedAt: '2024-01-31T08:00:00.000Z',
+        warnings: ['An attachment without a file name, type or data was left out'],
+      });
+      expect(rows[0].entry!.attachments).toEqual([
+        { fileName: 'route.pdf', contentType: 'application/pdf', data: Buffer.from('%PDF-1.7') },
+      ]);
+    });
+
+    it('should report rows that are not entries without failing the file', async () => {
+      const rows = await readImportFile(ImportFormat.JSON, Buffer.from(JSON.stringify([{ content: 'One' }, 'two'])));
+
+      expect(rows[0].entry?.content).toBe('One');
+      expect(rows[1]).toEqual({ row: 2, error: 'Row is not an entry' });
+    });
+
+    it('should reject a file that is not JSON', async () => {
+      await expect(readImportFile(ImportFormat.JSON, Buffer.from('not json'))).rejects.toThrow(
+        'Invalid import file: the file is not valid JSON'
+      );
+    });
+  });
+
+  describe('Markdown zip', () => {
+    it('should read front matter, headings and dates from file names', async () => {
+      const data = await zip({
+        'journal/2024-01-31 Long run.md': 'Ran 10k.',
+        'journal/notes.md': '---\ntitle: Planning\ndate: 2024-02-01T09:00:00Z\nmood: calm\ntags: [work]\n---\nThe plan.',
+        'journal/heading.markdown': '# A heading\n\nText under it.',
+        'journal/.hidden.md': 'Ignored',
+        '__MACOSX/journal/._notes.md': 'Ignored',
+        'journal/photo.jpg': Buffer.from([0xff, 0xd8, 0xff]),
+      });
+
+      const rows = await readImportFile(ImportFormat.MARKDOWN, data);
+
+      expect(rows.map((row) => row.file)).toEqual([
+        'journal/2024-01-31 Long run.md',
+        'journal/heading.markdown',
+        'journal/notes.md',
+      ]);
+      expect(rows[0].entry).toMatchObject({ title: 'Long run', content: 'Ran 10k.', createdAt: '2024-01-31' });
+      expect(rows[1].entry).toMatchObject({ title: 'A heading', content: 'Text under it.', createdAt: undefined });
+      expect(rows[2].entry).toMatchObject({
+        title: 'Planning',
+        content: 'The plan.',
+        mood: 'calm',
+        tags: ['work'],
+        createdAt: '2024-02-01T09:00:00Z',
+      });
+    });
+
+    it('should reject a zip without Markdown files', async () => {
+      await expect(readImportFile(ImportFormat.MARKDOWN, await zip({ 'a.txt': 'text' }))).rejects.toThrow(
+        'Invalid import file: the zip has no Markdown files'
+      );
+    });
+
+    it('should reject a file that is not a zip', async () => {
+      await expect(readImportFile(ImportFormat.MARKDOWN, Buffer.from('# Just Markdown'))).rejects.toThrow(
+        'Invalid import file: it is not a zip archive'
+      );
+    });
+  });
+
+  describe('CSV', () => {
+    it('should find columns by their usual names', async () => {
+      const csv = 'Date,Title,Text,Tags,Mood\n2024-01-31,Morning,"Ran, then ate",health; food,happy\n';
+
+      const rows = await readImportFile(ImportFormat.CSV, Buffer.from(csv));
+
+      expect(rows).toEqual([
+        {
+          row: 1,
+          entry: {
+            title: 'Morning',
+            content: 'Ran, then ate',
+            mood: 'happy',
+            tags: ['health', ' food'],
+            status: undefined,
+            createdAt: '2024-01-31',
+            updatedAt: undefined,
+            attachments: [],
+            warnings: [],
+          },
+        },
+      ]);
+    });
+
+    it('should report rows with more columns than the header', async () => {
+      const rows = await readImportFile(ImportFormat.CSV, Buffer.from('content\nOne\nTwo,extra\n'));
+
+      expect(rows[1]).toEqual({ row: 2, error: 'Row has 2 columns, but the header has 1' });
+    });
+
+    it('should reject a CSV without a content column', async () => {
+      await expect(readImportFile(ImportFormat.CSV, Buffer.from('date,title\n2024-01-31,Morning\n'))).rejects.toThrow(
+        'Invalid import file: the CSV needs a header row with a content column'
+      );
+    });
+  });
+
+  describe('Day One', () => {
+    const photo = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.from('jpeg data')]);
+    const md5 = crypto.createHash('md5').update(photo).digest('hex');
+
+    const journal = {
+      metadata: { version: '1.0' },
+      entries: [
+        {
+          uuid: 'A1',
+          creationDate: '2024-01-31T07:00:00Z',
+          modifiedDate: '2024-01-31T08:00:00Z',
+          text: '# Beach day\n\n![](dayone-moment://P1)\nSwam \\- a lot\\!',
+          tags: ['summer'],
+          photos: [
+            { identifier: 'P1', md5, type: 'jpeg' },
+            { identifier: 'P2', md5: 'missing', type: 'jpeg' },
+          ],
+        },
+      ],
+    };
+
+    it('should read entries and attach their photos from the zip', async () => {
+      const data = await zip({
+        'Journal.json': JSON.stringify(journal),
+        [`photos/${md5}.jpeg`]: photo,
+      });
+
+      const rows = await readImportFile(ImportFormat.DAY_ONE, data);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].entry).toMatchObject({
+        title: 'Beach day',
+        content: 'Swam - a lot!',
+        tags: ['summer'],
+        createdAt: '2024-01-31T07:00:00Z',
+        updatedAt: '2024-01-31T08:00:00Z',
+        warnings: ['A jpeg file was not in the export and was left out'],
+      });
+      expect(rows[0].entry!.attachments).toEqual([
+        { fileName: `${md5}.jpeg`, contentType: 'image/jpeg', data: photo },
+      ]);
+    });
+
+    it('should read a journal exported as JSON alone', async () => {
+      const rows = await readImportFile(ImportFormat.DAY_ONE, Buffer.from(JSON.stringify(journal)));
+
+      expect(rows[0].entry?.attachments).toEqual([]);
+      expect(rows[0].entry?.warnings).toHaveLength(2);
+    });
+
+    it('should reject JSON that is not a Day One export', async () => {
+      await expect(readImportFile(ImportFormat.DAY_ONE, Buffer.from('[]'))).rejects.toThrow(
+        'Invalid import file: Journal.json is not a Day One export'
+      );
+    });
+  });
+});
@@ -0,0 +1,454 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { EntryField, ImportFormat } from '../types/index.js';
+import { parseCsv } from './csv.js';
+import { parseFrontMatter, FrontMatterValue } from './frontMatter.js';
+
+/**
+ * Import Formats
+ * Reads the entries out of an uploaded import file. Every format is read into the same
+ * rows, which the import service then validates, checks for duplicates and creates, so
+ * nothing here decides whether an entry is acceptable beyond whether it could be read.
+ *
+ * Problems with a single row are returned with the row; a file that cannot be read at
+ * all throws an Error starting with "Invalid import file".
+ */
+
+// Most entries one file may hold
+export const MAX_IMPORT_ROWS = 10000;
+// Most bytes a zip may unpack to, so a small archive cannot exhaust memory
+const MAX_UNZIPPED_BYTES = 500 * 1024 * 1024;
+
+export interface ImportedAttachment {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// An entry as read from a file, before it is validated
+export interface ImportedEntry {
+  title?: string;
+  content: string;
+  mood?: string;
+  emotions?: { mood?: string | null; customMoodId?: string | null; intensity?: number }[];
+  tags: string[];
+  status?: string;
+  templateId?: string | null;
+  fields?: EntryField[] | null;
+  // Dates as written in the file
+  createdAt?: string;
+  updatedAt?: string;
+  attachments: ImportedAttachment[];
+  // Parts of the row that were left out, such as a missing photo
+  warnings: string[];
+}
+
+export interface ImportRow {
+  // Counted from 1 in file order; CSV rows do not count the header
+  row: number;
+  // The file in a zip the row was read from
+  file?: string;
+  entry?: ImportedEntry;
+  // Why the row could not be read, when it could not
+  error?: string;
+}
+
+const MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+};
+
+// CSV headers each column is known by, compared in lowercase without spaces, dashes or underscores
+const CSV_COLUMNS: Record<string, string[]> = {
+  createdAt: ['date', 'created', 'createdat', 'creationdate', 'datecreated'],
+  updatedAt: ['updated', 'updatedat', 'modified', 'modifieddate', 'datemodified'],
+  title: ['title', 'subject'],
+  content: ['content', 'text', 'body', 'entry'],
+  mood: ['mood'],
+  tags: ['tags'],
+  status: ['status'],
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  if (value instanceof Date || typeof value === 'number') {
+    return String(value);
+  }
+  return undefined;
+}
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(/[;,]/);
+  }
+  return [];
+}
+
+function assertRowCount(count: number): void {
+  if (count > MAX_IMPORT_ROWS) {
+    throw new Error(`Invalid import file: at most ${MAX_IMPORT_ROWS} entries can be imported at once`);
+  }
+}
+
+function parseJsonFile(data: Buffer, name: string = 'the file'): unknown {
+  try {
+    return JSON.parse(data.toString('utf8').replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error(`Invalid import file: ${name} is not valid JSON`);
+  }
+}
+
+function isZip(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === 0x04034b50;
+}
+
+/**
+ * Open a zip archive, leaving out folders, hidden files and macOS resource forks
+ * Files are unpacked one at a time as they are read, within MAX_UNZIPPED_BYTES in total.
+ */
+async function openZip(data: Buffer): Promise<{ files: string[]; read: (name: string) => Promise<Buffer> }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('Invalid import file: it is not a zip archive');
+  }
+
+  let remaining = MAX_UNZIPPED_BYTES;
+  const files = Object.values(zip.files)
+    .filter((file) => !file.dir && !file.name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX'))
+    .map((file) => file.name)
+    .sort((a, b) => a.localeCompare(b));
+
+  const read = (name: string) =>
+    new Promise<Buffer>((resolve, reject) => {
+      const parts: Buffer[] = [];
+      const stream = zip.files[name].nodeStream('nodebuffer');
+      stream.on('data', (chunk: Buffer) => {
+        remaining -= chunk.length;
+        if (remaining < 0) {
+          stream.pause();
+          reject(new Error(`Invalid import file: it unzips to more than ${MAX_UNZIPPED_BYTES / (1024 * 1024)} MB`));
+          return;
+        }
+        parts.push(chunk);
+      });
+      stream.on('end', () => resolve(Buffer.concat(parts)));
+      stream.on('error', () => reject(new Error(`Invalid import file: ${name} could not be unzipped`)));
+    });
+
+  return { files, read };
+}
+
+/**
+ * Read MicroCare's own JSON export
+ * Revisions are not imported; attachments are, from their base64 data.
+ */
+function readMicroCareJson(data: Buffer): ImportRow[] {
+  const parsed = parseJsonFile(data);
+  const entries = Array.isArray(parsed) ? parsed : isObject(parsed) ? parsed.entries : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error('Invalid import file: expected a list of entries');
+  }
+  assertRowCount(entries.length);
+
+  return entries.map((item, index): ImportRow => {
+    const row = index + 1;
+    if (!isObject(item)) {
+      return { row, error: 'Row is not an entry' };
+    }
+
+    const warnings: string[] = [];
+    const attachments: ImportedAttachment[] = [];
+    for (const attachment of Array.isArray(item.attachments) ? item.attachments : []) {
+      if (
+        isObject(attachment) &&
+        typeof attachment.fileName === 'string' &&
+        typeof attachment.contentType === 'string' &&
+        typeof attachment.data === 'string'
+      ) {
+        attachments.push({
+          fileName: attachment.fileName,
+          contentType: attachment.contentType,
+          data: Buffer.from(attachment.data, 'base64'),
+        });
+      } else {
+        warnings.push('An attachment without a file name, type or data was left out');
+      }
+    }
+
+    return {
+      row,
+      entry: {
+        title: optionalString(item.title),
+        content: typeof item.content === 'string' ? item.content : '',
+        mood: optionalString(item.mood),
+        emotions: Array.isArray(item.emotions) ? item.emotions.filter(isObject) : undefined,
+        tags: stringList(item.tags),
+        status: optionalString(item.status),
+        templateId: optionalString(item.templateId) ?? null,
+        fields: Array.isArray(item.fields) ? (item.fields as EntryField[]) : null,
+        createdAt: optionalString(item.createdAt),
+        updatedAt: optionalString(item.updatedAt),
+        attachments,
+        warnings,
+      },
+    };
+  });
+}
+
+function frontMatterString(value: FrontMatterValue | undefined): string | undefined {
+  return typeof value === 'string' ? value.trim() || undefined : undefined;
+}
+
+/**
+ * Read a zip of Markdown files, one entry per file
+ * The title, date, mood, tags and status come from the front matter. Without a title, a
+ * leading `# Heading` is used, then the file name; without a date, a file name that
+ * starts with one (2024-01-31 Morning.md).
+ */
+async function readMarkdownZip(data: Buffer): Promise<ImportRow[]> {
+  const zip = await openZip(data);
+  const files = zip.files.filter((file) => /\.(md|markdown)$/i.test(file));
+  if (files.length === 0) {
+    throw new Error('Invalid import file: the zip has no Markdown files');
+  }
+  assertRowCount(files.length);
+
+  const rows: ImportRow[] = [];
+  for (const [index, file] of files.entries()) {
+    const { data: meta, body } = parseFrontMatter((await zip.read(file)).toString('utf8'));
+    const baseName = path.posix.basename(file).replace(/\.(md|markdown)$/i, '');
+    const datePrefix = /^(\d{4}-\d{2}-\d{2})[\sT_-]*(.*)$/.exec(baseName);
+
+    let title = frontMatterString(meta.title);
+    let content = body;
+    const heading = /^\s*#\s+(.+)\n?/.exec(body);
+    if (!title && heading) {
+      title = heading[1].trim();
+      content = body.slice(heading[0].length);
+    }
+    title ??= (datePrefix ? datePrefix[2] : baseName).trim() || undefined;
+
+    rows.push({
+      row: index + 1,
+      file,
+      entry: {
+        title,
+        content: content.trim(),
+        mood: frontMatterString(meta.mood),
+        tags: stringList(meta.tags),
+        status: frontMatterString(meta.status),
+        createdAt: frontMatterString(meta.date ?? meta.created ?? meta.createdat) ?? datePrefix?.[1],
+        updatedAt: frontMatterString(meta.updated ?? meta.modified ?? meta.updatedat),
+        attachments: [],
+        warnings: [],
+      },
+    });
+  }
+  return rows;
+}
+
+/**
+ * Read a CSV file with a header row
+ * Only a content column is required; tags are separated by commas or semicolons.
+ */
+function readCsv(data: Buffer): ImportRow[] {
+  let records: string[][];
+  try {
+    records = parseCsv(data.toString('utf8'));
+  } catch (error) {
+    throw new Error(`Invalid import file: ${error instanceof Error ? error.message : 'it is not CSV'}`);
+  }
+
+  const [header, ...body] = records;
+  const columns: Record<string, number> = {};
+  (header ?? []).forEach((name, index) => {
+    const normalized = name.trim().toLowerCase().replace(/[\s_-]/g, '');
+    const column = Object.keys(CSV_COLUMNS).find((key) => CSV_COLUMNS[key].includes(normalized));
+    if (column && columns[column] === undefined) {
+      columns[column] = index;
+    }
+  });
+  if (columns.content === undefined) {
+    throw new Error('Invalid import file: the CSV needs a header row with a content column');
+  }
+  assertRowCount(body.length);
+
+  return body.map((record, index): ImportRow => {
+    const row = index + 1;
+    if (record.length > header.length) {
+      return { row, error: `Row has ${record.length} columns, but the header has ${header.length}` };
+    }
+    const cell = (column: string) => (columns[column] === undefined ? undefined : record[columns[column]]?.trim() || undefined);
+
+    return {
+      row,
+      entry: {
+        title: cell('title'),
+        content: cell('content') ?? '',
+        mood: cell('mood'),
+        tags: stringList(cell('tags')),
+        status: cell('status'),
+        createdAt: cell('createdAt'),
+        updatedAt: cell('updatedAt'),
+        attachments: [],
+        warnings: [],
+      },
+    };
+  });
+}
+
+/**
+ * Turn Day One's Markdown into plain Markdown
+ * Day One escapes punctuation and marks where photos go with dayone-moment links, which
+ * are dropped since the photos are attached instead
+ */
+function cleanDayOneText(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:\/\/[^)]*\)\n?/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>|~])/g, '$1')
+    .trim();
+}
+
+/**
+ * Read one Day One journal's entries, attaching the photos and audio they refer to
+ */
+async function readDayOneJournal(
+  parsed: unknown,
+  name: string,
+  media: Map<string, { file: string; read: () => Promise<Buffer> }>,
+  firstRow: number
+): Promise<ImportRow[]> {
+  if (!isObject(parsed) || !Array.isArray(parsed.entries)) {
+    throw new Error(`Invalid import file: ${name} is not a Day One export`);
+  }
+
+  const rows: ImportRow[] = [];
+  for (const [index, item] of parsed.entries.entries()) {
+    const row = firstRow + index;
+    if (!isObject(item)) {
+      rows.push({ row, error: 'Row is not an entry' });
+      continue;
+    }
+
+    let title: string | undefined;
+    let content = cleanDayOneText(typeof item.text === 'string' ? item.text : '');
+    const heading = /^#+\s+(.+)\n?/.exec(content);
+    if (heading) {
+      title = heading[1].trim();
+      content = content.slice(heading[0].length).trim();
+    }
+
+    const warnings: string[] = [];
+    const attachments: ImportedAttachment[] = [];
+    const references = [
+      ...(Array.isArray(item.photos) ? item.photos : []),
+      ...(Array.isArray(item.audios) ? item.audios : []),
+      ...(Array.isArray(item.pdfAttachments) ? item.pdfAttachments : []),
+    ].filter(isObject);
+    for (const reference of references) {
+      const found = typeof reference.md5 === 'string' ? media.get(reference.md5) : undefined;
+      if (!found) {
+        warnings.push(`A ${optionalString(reference.type ?? reference.format) ?? 'media'} file was not in the export and was left out`);
+        continue;
+      }
+      const extension = path.posix.extname(found.file).slice(1).toLowerCase();
+      attachments.push({
+        fileName: path.posix.basename(found.file),
+        contentType: MEDIA_TYPES[extension] ?? 'application/octet-stream',
+        data: await found.read(),
+      });
+    }
+
+    rows.push({
+      row,
+      file: name,
+      entry: {
+        title,
+        content,
+        tags: stringList(item.tags),
+        createdAt: optionalString(item.creationDate),
+        updatedAt: optionalString(item.modifiedDate),
+        attachments,
+        warnings,
+      },
+    });
+  }
+  return rows;
+}
+
+/**
+ * Read a Day One JSON export, or the zip Day One exports it in with its media folders
+ */
+async function readDayOne(data: Buffer): Promise<ImportRow[]> {
+  if (!isZip(data)) {
+    const parsed = parseJsonFile(data);
+    assertRowCount(isObject(parsed) && Array.isArray(parsed.entries) ? parsed.entries.length : 0);
+    return readDayOneJournal(parsed, 'Journal.json', new Map(), 1);
+  }
+
+  const zip = await openZip(data);
+  const journals = zip.files.filter((file) => /\.json$/i.test(file));
+  if (journals.length === 0) {
+    throw new Error('Invalid import file: the zip has no Day One journal');
+  }
+
+  // Media files are named by the MD5 of their contents
+  const media = new Map<string, { file: string; read: () => Promise<Buffer> }>();
+  for (const file of zip.files) {
+    const extension = path.posix.extname(file).slice(1).toLowerCase();
+    if (MEDIA_TYPES[extension]) {
+      media.set(path.posix.basename(file, path.posix.extname(file)), { file, read: () => zip.read(file) });
+    }
+  }
+
+  const rows: ImportRow[] = [];
+  for (const journal of journals) {
+    const parsed = parseJsonFile(await zip.read(journal), journal);
+    assertRowCount(rows.length + (isObject(parsed) && Array.isArray(parsed.entries) ? parsed.entries.length : 0));
+    rows.push(...(await readDayOneJournal(parsed, journal, media, rows.length + 1)));
+  }
+  return rows;
+}
+
+/**
+ * Read the entries out of an import file
+ * @param format - The file's format
+ * @param data - The file's contents
+ * @returns Every row in file order, each with its entry or why it could not be read
+ * @throws Error starting with "Invalid import file" if the file cannot be read at all
+ */
+export async function readImportFile(format: ImportFormat, data: Buffer): Promise<ImportRow[]> {
+  switch (format) {
+    case ImportFormat.JSON:
+      return readMicroCareJson(data);
+    case ImportFormat.MARKDOWN:
+      return readMarkdownZip(data);
+    case ImportFormat.CSV:
+      return readCsv(data);
+    case ImportFormat.DAY_ONE:
+      return readDayOne(data);
+    default:
+      throw new Error('Invalid import file: unsupported format');
+  }
+}
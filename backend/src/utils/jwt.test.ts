@@ -1,3 +1,4 @@
+import { SignJWT, decodeProtectedHeader } from 'jose';
 import {
   generateAccessToken,
   generateRefreshToken,
@@ -6,30 +7,41 @@ import {
   verifyRefreshToken,
   decodeToken,
   isTokenExpired,
+  getJwks,
 } from './jwt.js';
+import { generateJwtKey } from './jwtKeys.js';
+import { UserRole } from '../types/index.js';
 
 describe('JWT Token Manager', () => {
   const testUserId = 'test-user-123';
   const testEmail = 'test@example.com';
+  const testClaims = {
+    userId: testUserId,
+    email: testEmail,
+    role: UserRole.USER,
+    tokenVersion: 0,
+  };
 
   describe('generateAccessToken', () => {
-    it('should generate a valid access token', () => {
-      const token = generateAccessToken(testUserId, testEmail);
+    it('should generate a valid access token', async () => {
+      const token = await generateAccessToken(testClaims);
       expect(token).toBeDefined();
       expect(typeof token).toBe('string');
       expect(token.split('.').length).toBe(3); // JWT has 3 parts
     });
 
-    it('should generate token with correct payload', () => {
-      const token = generateAccessToken(testUserId, testEmail);
+    it('should generate token with correct payload', async () => {
+      const token = await generateAccessToken(testClaims);
       const decoded = decodeToken(token);
       expect(decoded).toBeDefined();
       expect(decoded?.userId).toBe(testUserId);
       expect(decoded?.email).toBe(testEmail);
+      expect(decoded?.role).toBe(UserRole.USER);
+      expect(decoded?.tokenVersion).toBe(0);
     });
 
-    it('should support custom expiration', () => {
-      const token = generateAccessToken(testUserId, testEmail, '1h');
+    it('should support custom expiration', async () => {
+      const token = await generateAccessToken(testClaims, '1h');
       const decoded = decodeToken(token);
       expect(decoded).toBeDefined();
       expect(decoded?.exp).toBeDefined();
@@ -37,15 +49,15 @@ describe('JWT Token Manager', () => {
   });
 
   describe('generateRefreshToken', () => {
-    it('should generate a valid refresh token', () => {
-      const token = generateRefreshToken(testUserId);
+    it('should generate a valid refresh token', async () => {
+      const token = await generateRefreshToken(testUserId);
       expect(token).toBeDefined();
       expect(typeof token).toBe('string');
       expect(token.split('.').length).toBe(3);
     });
 
-    it('should generate token with correct payload', () => {
-      const token = generateRefreshToken(testUserId);
+    it('should generate token with correct payload', async () => {
+      const token = await generateRefreshToken(testUserId);
       const decoded = decodeToken(token);
       expect(decoded).toBeDefined();
       expect(decoded?.userId).toBe(testUserId);
@@ -54,16 +66,16 @@ describe('JWT Token Manager', () => {
   });
 
   describe('generateTokenPair', () => {
-    it('should generate both access and refresh tokens', () => {
-      const { accessToken, refreshToken } = generateTokenPair(testUserId, testEmail);
+    it('should generate both access and refresh tokens', async () => {
+      const { accessToken, refreshToken } = await generateTokenPair(testClaims);
       expect(accessToken).toBeDefined();
       expect(refreshToken).toBeDefined();
       expect(typeof accessToken).toBe('string');
       expect(typeof refreshToken).toBe('string');
     });
 
-    it('should generate tokens with correct payloads', () => {
-      const { accessToken, refreshToken } = generateTokenPair(testUserId, testEmail);
+    it('should generate tokens with correct payloads', async () => {
+      const { accessToken, refreshToken } = await generateTokenPair(testClaims);
       const accessDecoded = decodeToken(accessToken);
       const refreshDecoded = decodeToken(refreshToken);
 
@@ -75,53 +87,92 @@ describe('JWT Token Manager', () => {
   });
 
   describe('verifyAccessToken', () => {
-    it('should verify a valid access token', () => {
-      const token = generateAccessToken(testUserId, testEmail);
-      const payload = verifyAccessToken(token);
+    it('should verify a valid access token', async () => {
+      const token = await generateAccessToken(testClaims);
+      const payload = await verifyAccessToken(token);
       expect(payload.userId).toBe(testUserId);
       expect(payload.email).toBe(testEmail);
+      expect(payload.role).toBe(UserRole.USER);
+      expect(payload.tokenVersion).toBe(0);
     });
 
-    it('should throw error for invalid token', () => {
-      expect(() => {
-        verifyAccessToken('invalid.token.here');
-      }).toThrow();
+    it('should throw error for invalid token', async () => {
+      await expect(verifyAccessToken('invalid.token.here')).rejects.toThrow('Invalid token');
     });
 
-    it('should throw error for tampered token', () => {
-      const token = generateAccessToken(testUserId, testEmail);
+    it('should throw error for tampered token', async () => {
+      const token = await generateAccessToken(testClaims);
       const tampered = token.slice(0, -5) + 'xxxxx';
-      expect(() => {
-        verifyAccessToken(tampered);
-      }).toThrow();
+      await expect(verifyAccessToken(tampered)).rejects.toThrow('Invalid token');
+    });
+
+    it('should throw error for expired token', async () => {
+      const token = await generateAccessToken(testClaims, -10);
+      await expect(verifyAccessToken(token)).rejects.toThrow('Token has expired');
+    });
+
+    it('should reject tokens signed with a shared secret', async () => {
+      const token = await new SignJWT({ ...testClaims })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setExpirationTime('15m')
+        .sign(new TextEncoder().encode('your-secret-key-change-in-production'));
+      await expect(verifyAccessToken(token)).rejects.toThrow('Invalid token');
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const key = generateJwtKey('EdDSA');
+      const token = await new SignJWT({ ...testClaims })
+        .setProtectedHeader({ alg: key.alg, kid: key.kid })
+        .setExpirationTime('15m')
+        .sign(key.privateKey);
+      await expect(verifyAccessToken(token)).rejects.toThrow('Invalid token');
+    });
+
+    it('should reject tokens without role claims', async () => {
+      const token = await generateAccessToken({ userId: testUserId, email: testEmail } as typeof testClaims);
+      await expect(verifyAccessToken(token)).rejects.toThrow('Invalid token');
     });
   });
 
   describe('verifyRefreshToken', () => {
-    it('should verify a valid refresh token', () => {
-      const token = generateRefreshToken(testUserId);
-      const payload = verifyRefreshToken(token);
+    it('should verify a valid refresh token', async () => {
+      const token = await generateRefreshToken(testUserId);
+      const payload = await verifyRefreshToken(token);
       expect(payload.userId).toBe(testUserId);
       expect(payload.type).toBe('refresh');
     });
 
-    it('should throw error for invalid refresh token', () => {
-      expect(() => {
-        verifyRefreshToken('invalid.token.here');
-      }).toThrow();
+    it('should throw error for invalid refresh token', async () => {
+      await expect(verifyRefreshToken('invalid.token.here')).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should throw error if token type is not refresh', async () => {
+      const accessToken = await generateAccessToken(testClaims);
+      await expect(verifyRefreshToken(accessToken)).rejects.toThrow('Invalid token type');
+    });
+  });
+
+  describe('getJwks', () => {
+    it('should publish the key that signed a token', async () => {
+      const token = await generateAccessToken(testClaims);
+      const { kid, alg } = decodeProtectedHeader(token);
+
+      const jwk = getJwks().keys.find((key) => key.kid === kid);
+      expect(jwk).toBeDefined();
+      expect(jwk?.alg).toBe(alg);
+      expect(jwk?.use).toBe('sig');
     });
 
-    it('should throw error if token type is not refresh', () => {
-      const accessToken = generateAccessToken(testUserId, testEmail);
-      expect(() => {
-        verifyRefreshToken(accessToken);
-      }).toThrow('Invalid token type');
+    it('should not expose private key material', () => {
+      for (const jwk of getJwks().keys) {
+        expect(jwk.d).toBeUndefined();
+      }
     });
   });
 
   describe('decodeToken', () => {
-    it('should decode a token without verification', () => {
-      const token = generateAccessToken(testUserId, testEmail);
+    it('should decode a token without verification', async () => {
+      const token = await generateAccessToken(testClaims);
       const decoded = decodeToken(token);
       expect(decoded).toBeDefined();
       expect(decoded?.userId).toBe(testUserId);
@@ -135,8 +186,8 @@ describe('JWT Token Manager', () => {
   });
 
   describe('isTokenExpired', () => {
-    it('should return false for valid token', () => {
-      const token = generateAccessToken(testUserId, testEmail);
+    it('should return false for valid token', async () => {
+      const token = await generateAccessToken(testClaims);
       expect(isTokenExpired(token)).toBe(false);
     });
 
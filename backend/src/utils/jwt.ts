@@ -1,74 +1,191 @@
-import jwt, { VerifyOptions } from 'jsonwebtoken';
-import { JWTPayload } from '../types/index.js';
+import crypto from 'crypto';
+import { SignJWT, jwtVerify, decodeJwt, errors as joseErrors, JWTHeaderParameters } from 'jose';
+import {
+  JWTPayload,
+  AccessTokenClaims,
+  RefreshTokenPayload,
+  MfaChallengePayload,
+  AccountTokenPayload,
+  AccountTokenPurpose,
+  AccountDeletionReceipt,
+} from '../types/index.js';
+import {
+  JwtKey,
+  JwtAlgorithm,
+  Jwk,
+  JWT_ALGORITHMS,
+  generateJwtKey,
+  loadJwtKeys,
+  selectSigningKey,
+  toPublicJwk,
+  writeJwtKey,
+} from './jwtKeys.js';
 
 /**
  * JWT Token Manager
  * Handles token generation, verification, and refresh token logic
+ * Tokens are signed with asymmetric keys loaded from JWT_KEYS_DIR and carry the signing key's ID,
+ * so other services can verify them against the published JWKS
  */
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+const JWT_KEYS_DIR = process.env.JWT_KEYS_DIR || 'keys/jwt';
+const JWT_KEY_ALGORITHM = (process.env.JWT_KEY_ALGORITHM || 'RS256') as JwtAlgorithm;
 const JWT_EXPIRATION = process.env.JWT_EXPIRATION || '15m';
 const REFRESH_TOKEN_EXPIRATION = process.env.REFRESH_TOKEN_EXPIRATION || '7d';
+const MFA_CHALLENGE_EXPIRATION = '5m';
+
+// Keys are re-read periodically so that rotated keys are picked up without a restart
+const KEY_RELOAD_INTERVAL_MS = 60 * 1000;
+// New keys are published for two reload intervals before they sign anything
+const KEY_ACTIVATION_DELAY_MS = 2 * KEY_RELOAD_INTERVAL_MS;
+
+let keyCache: { keys: JwtKey[]; loadedAt: number } | null = null;
+
+/**
+ * Create a signing key for environments that have none configured
+ * Development keys are saved so that sessions survive restarts; test keys only live in memory
+ */
+function createFallbackKey(): JwtKey {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`No JWT signing keys found in ${JWT_KEYS_DIR}`);
+  }
+
+  const key = generateJwtKey(JWT_KEY_ALGORITHM);
+  if (process.env.NODE_ENV !== 'test') {
+    writeJwtKey(JWT_KEYS_DIR, key);
+    // Loaded here because the logger validates the environment as soon as it is imported
+    import('./logger.js')
+      .then(({ default: logger }) =>
+        logger.warn('Generated development JWT signing key', { kid: key.kid, directory: JWT_KEYS_DIR })
+      )
+      .catch(() => undefined);
+  }
+  return key;
+}
+
+/**
+ * Get the current signing and verification keys
+ * @returns The keys ordered from oldest to newest
+ */
+function getKeys(): JwtKey[] {
+  if (keyCache && Date.now() - keyCache.loadedAt < KEY_RELOAD_INTERVAL_MS) {
+    return keyCache.keys;
+  }
+
+  let keys = loadJwtKeys(JWT_KEYS_DIR);
+  if (keys.length === 0) {
+    keys = keyCache ? keyCache.keys : [createFallbackKey()];
+  }
+
+  keyCache = { keys, loadedAt: Date.now() };
+  return keys;
+}
+
+/**
+ * Find the key a token claims to be signed with
+ * The algorithm must match the key so a token cannot pick how its signature is checked
+ */
+async function getVerificationKey(header: JWTHeaderParameters): Promise<crypto.KeyObject> {
+  const key = getKeys().find((candidate) => candidate.kid === header.kid);
+  if (!key || key.alg !== header.alg) {
+    throw new joseErrors.JWKSNoMatchingKey();
+  }
+  return key.publicKey;
+}
+
+/**
+ * Sign a token with the current signing key
+ * @param payload - The token claims
+ * @param expiresIn - Token lifetime, as seconds or a duration such as 15m
+ * @returns The signed token
+ */
+async function signToken(payload: object, expiresIn: string | number): Promise<string> {
+  const key = selectSigningKey(getKeys(), KEY_ACTIVATION_DELAY_MS);
+
+  return new SignJWT({ ...payload })
+    .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: 'JWT' })
+    .setIssuedAt()
+    .setExpirationTime(typeof expiresIn === 'number' ? `${expiresIn}s` : expiresIn)
+    .sign(key.privateKey);
+}
+
+/**
+ * Verify a token's signature and expiry
+ * @param token - The token to verify
+ * @returns The decoded token claims
+ */
+async function verifyToken<T>(token: string): Promise<T> {
+  const { payload } = await jwtVerify(token, getVerificationKey, { algorithms: JWT_ALGORITHMS });
+  return payload as T;
+}
+
+/**
+ * Get the public keys that tokens may be signed with, as a JSON Web Key Set
+ * @returns The JWKS served at /.well-known/jwks.json
+ */
+export function getJwks(): { keys: Jwk[] } {
+  return { keys: getKeys().map(toPublicJwk) };
+}
 
 /**
  * Generate an access token with configurable expiration
- * @param userId - The user's unique identifier
- * @param email - The user's email address
+ * @param claims - The user's ID, email, role and current token version
  * @param expiresIn - Token expiration time (default: 15m)
+ * @param sessionId - The server-side session the token belongs to
  * @returns The generated JWT token
  */
-export function generateAccessToken(
-  userId: string,
-  email: string,
-  expiresIn: string | number = JWT_EXPIRATION
-): string {
+export async function generateAccessToken(
+  claims: AccessTokenClaims,
+  expiresIn: string | number = JWT_EXPIRATION,
+  sessionId?: string
+): Promise<string> {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
-    userId,
-    email,
+    userId: claims.userId,
+    email: claims.email,
+    role: claims.role,
+    tokenVersion: claims.tokenVersion,
+    ...(sessionId && { sessionId }),
   };
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn,
-    algorithm: 'HS256',
-  } as any);
+  return signToken(payload, expiresIn);
 }
 
 /**
  * Generate a refresh token with configurable expiration
+ * Every token carries a random jti so that each rotation yields a distinct token
  * @param userId - The user's unique identifier
  * @param expiresIn - Token expiration time (default: 7d)
+ * @param sessionId - The server-side session the token belongs to
  * @returns The generated refresh token
  */
-export function generateRefreshToken(
+export async function generateRefreshToken(
   userId: string,
-  expiresIn: string | number = REFRESH_TOKEN_EXPIRATION
-): string {
-  const payload = {
+  expiresIn: string | number = REFRESH_TOKEN_EXPIRATION,
+  sessionId?: string
+): Promise<string> {
+  const payload: Omit<RefreshTokenPayload, 'iat' | 'exp'> = {
     userId,
     type: 'refresh',
+    jti: crypto.randomUUID(),
+    ...(sessionId && { sessionId }),
   };
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn,
-    algorithm: 'HS256',
-  } as any);
+  return signToken(payload, expiresIn);
 }
 
 /**
  * Generate both access and refresh tokens
- * @param userId - The user's unique identifier
- * @param email - The user's email address
+ * @param claims - The user's ID, email, role and current token version
+ * @param sessionId - The server-side session both tokens belong to
  * @returns Object containing both access and refresh tokens
  */
-export function generateTokenPair(
-  userId: string,
-  email: string
-): { accessToken: string; refreshToken: string } {
+export async function generateTokenPair(
+  claims: AccessTokenClaims,
+  sessionId?: string
+): Promise<{ accessToken: string; refreshToken: string }> {
   return {
-    accessToken: generateAccessToken(userId, email),
-    refreshToken: generateRefreshToken(userId),
+    accessToken: await generateAccessToken(claims, JWT_EXPIRATION, sessionId),
+    refreshToken: await generateRefreshToken(claims.userId, REFRESH_TOKEN_EXPIRATION, sessionId),
   };
 }
 
@@ -78,19 +195,26 @@ export function generateTokenPair(
  * @returns The decoded token payload
  * @throws Error if token is invalid or expired
  */
-export function verifyAccessToken(token: string): JWTPayload {
+export async function verifyAccessToken(token: string): Promise<JWTPayload> {
   try {
-    const options: VerifyOptions = {
-      algorithms: ['HS256'],
-    };
-    const decoded = jwt.verify(token, JWT_SECRET, options);
+    const decoded = await verifyToken<JWTPayload & { type?: string }>(token);
+
+    // Refresh and MFA challenge tokens are signed with the same key but must not grant access
+    if (decoded.type) {
+      throw new Error('Invalid token type');
+    }
+
+    // Tokens issued before role claims were embedded cannot be authorized
+    if (!decoded.role || typeof decoded.tokenVersion !== 'number') {
+      throw new Error('Invalid token');
+    }
 
-    return decoded as JWTPayload;
+    return decoded;
   } catch (error) {
-    if (error instanceof jwt.TokenExpiredError) {
+    if (error instanceof joseErrors.JWTExpired) {
       throw new Error('Token has expired');
     }
-    if (error instanceof jwt.JsonWebTokenError) {
+    if (error instanceof joseErrors.JOSEError) {
       throw new Error('Invalid token');
     }
     throw error;
@@ -103,16 +227,9 @@ export function verifyAccessToken(token: string): JWTPayload {
  * @returns The decoded token payload
  * @throws Error if token is invalid or expired
  */
-export function verifyRefreshToken(
-  token: string
-): { userId: string; type: string; iat: number; exp: number } {
+export async function verifyRefreshToken(token: string): Promise<RefreshTokenPayload> {
   try {
-    const options: VerifyOptions = {
-      algorithms: ['HS256'],
-    };
-    const decoded = jwt.verify(token, JWT_SECRET, options);
-
-    const payload = decoded as { userId: string; type: string; iat: number; exp: number };
+    const payload = await verifyToken<RefreshTokenPayload>(token);
 
     if (payload.type !== 'refresh') {
       throw new Error('Invalid token type');
@@ -120,23 +237,134 @@ export function verifyRefreshToken(
 
     return payload;
   } catch (error) {
-    if (error instanceof jwt.TokenExpiredError) {
+    if (error instanceof joseErrors.JWTExpired) {
       throw new Error('Refresh token has expired');
     }
-    if (error instanceof jwt.JsonWebTokenError) {
+    if (error instanceof joseErrors.JOSEError) {
       throw new Error('Invalid refresh token');
     }
     throw error;
   }
 }
 
+/**
+ * Generate a short-lived token proving that the password step of an MFA login succeeded
+ * @param userId - The user's unique identifier
+ * @returns The signed challenge token
+ */
+export async function generateMfaChallengeToken(userId: string): Promise<string> {
+  const payload: Omit<MfaChallengePayload, 'iat' | 'exp'> = {
+    userId,
+    type: 'mfa_challenge',
+  };
+
+  return signToken(payload, MFA_CHALLENGE_EXPIRATION);
+}
+
+/**
+ * Verify an MFA challenge token and extract payload
+ * @param token - The challenge token to verify
+ * @returns The decoded token payload
+ * @throws Error if token is invalid or expired
+ */
+export async function verifyMfaChallengeToken(token: string): Promise<MfaChallengePayload> {
+  try {
+    const payload = await verifyToken<MfaChallengePayload>(token);
+
+    if (payload.type !== 'mfa_challenge') {
+      throw new Error('Invalid MFA token');
+    }
+
+    return payload;
+  } catch (error) {
+    if (error instanceof joseErrors.JWTExpired) {
+      throw new Error('MFA challenge has expired');
+    }
+    if (error instanceof joseErrors.JOSEError) {
+      throw new Error('Invalid MFA token');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate a signed password reset or email verification token
+ * The jti is recorded server-side so the token can only be used once
+ * @param userId - The user's unique identifier
+ * @param purpose - What the token may be used for
+ * @param jti - Random identifier of this token
+ * @param expiresIn - Token expiration time
+ * @returns The signed token
+ */
+export async function generateAccountToken(
+  userId: string,
+  purpose: AccountTokenPurpose,
+  jti: string,
+  expiresIn: string | number
+): Promise<string> {
+  const payload: Omit<AccountTokenPayload, 'iat' | 'exp'> = {
+    userId,
+    type: purpose,
+    jti,
+  };
+
+  return signToken(payload, expiresIn);
+}
+
+/**
+ * Verify a password reset or email verification token
+ * @param token - The token to verify
+ * @param purpose - The purpose the token must have been issued for
+ * @returns The decoded token payload
+ * @throws Error if token is invalid, expired or issued for another purpose
+ */
+export async function verifyAccountToken(token: string, purpose: AccountTokenPurpose): Promise<AccountTokenPayload> {
+  try {
+    const payload = await verifyToken<AccountTokenPayload>(token);
+
+    if (payload.type !== purpose || !payload.jti) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return payload;
+  } catch (error) {
+    if (error instanceof joseErrors.JOSEError) {
+      throw new Error('Invalid or expired token');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sign an account deletion receipt
+ * The receipt does not expire and can be checked against the published JWKS for as long
+ * as the signing key is listed there. Its type claim keeps it from being accepted as an
+ * access token.
+ * @param receipt - The receipt contents
+ * @returns The signed receipt
+ */
+export async function signDeletionReceipt(receipt: Omit<AccountDeletionReceipt, 'signature'>): Promise<string> {
+  const key = selectSigningKey(getKeys(), KEY_ACTIVATION_DELAY_MS);
+
+  return new SignJWT({ ...receipt, type: 'account_deletion' })
+    .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: 'JWT' })
+    .setSubject(receipt.userId)
+    .setJti(receipt.receiptId)
+    .setIssuedAt()
+    .sign(key.privateKey);
+}
+
 /**
  * Decode a token without verification (for debugging/inspection only)
  * @param token - The JWT token to decode
  * @returns The decoded token payload
  */
 export function decodeToken(token: string): Record<string, unknown> | null {
-  return jwt.decode(token) as Record<string, unknown> | null;
+  try {
+    return decodeJwt(token);
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -146,8 +374,8 @@ export function decodeToken(token: string): Record<string, unknown> | null {
  */
 export function isTokenExpired(token: string): boolean {
   try {
-    const decoded = jwt.decode(token) as { exp?: number } | null;
-    if (!decoded || !decoded.exp) {
+    const decoded = decodeJwt(token);
+    if (!decoded.exp) {
       return true;
     }
 
@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  generateJwtKey,
+  loadJwtKeys,
+  removeJwtKey,
+  selectSigningKey,
+  toPublicJwk,
+  writeJwtKey,
+} from './jwtKeys.js';
+
+describe('JWT key management', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('loadJwtKeys', () => {
+    it('should return no keys for a missing directory', () => {
+      expect(loadJwtKeys(path.join(dir, 'missing'))).toEqual([]);
+    });
+
+    it('should load saved keys from oldest to newest', () => {
+      const newer = generateJwtKey('EdDSA', new Date('2024-02-01T00:00:00Z'));
+      const older = generateJwtKey('RS256', new Date('2024-01-01T00:00:00Z'));
+      writeJwtKey(dir, newer);
+      writeJwtKey(dir, older);
+
+      const keys = loadJwtKeys(dir);
+
+      expect(keys.map((key) => key.kid)).toEqual([older.kid, newer.kid]);
+      expect(keys.map((key) => key.alg)).toEqual(['RS256', 'EdDSA']);
+      expect(keys[0].createdAt).toEqual(new Date('2024-01-01T00:00:00Z'));
+    });
+
+    it('should reject RSA keys shorter than 2048 bits', () => {
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+      fs.writeFileSync(
+        path.join(dir, '20240101T000000Z-00000000.pem'),
+        privateKey.export({ format: 'pem', type: 'pkcs8' })
+      );
+
+      expect(() => loadJwtKeys(dir)).toThrow('too weak');
+    });
+
+    it('should reject unsupported key types', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      fs.writeFileSync(
+        path.join(dir, '20240101T000000Z-00000000.pem'),
+        privateKey.export({ format: 'pem', type: 'pkcs8' })
+      );
+
+      expect(() => loadJwtKeys(dir)).toThrow('unsupported type');
+    });
+  });
+
+  describe('writeJwtKey', () => {
+    it('should save the key readable by its owner only', () => {
+      const file = writeJwtKey(dir, generateJwtKey('EdDSA'));
+
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    });
+  });
+
+  describe('removeJwtKey', () => {
+    it('should delete a key', () => {
+      const key = generateJwtKey('EdDSA');
+      writeJwtKey(dir, key);
+
+      removeJwtKey(dir, key.kid);
+
+      expect(loadJwtKeys(dir)).toEqual([]);
+    });
+  });
+
+  describe('selectSigningKey', () => {
+    const now = new Date('2024-03-01T12:00:00Z');
+    const older = generateJwtKey('EdDSA', new Date('2024-02-01T00:00:00Z'));
+    const fresh = generateJwtKey('EdDSA', new Date('2024-03-01T11:59:30Z'));
+
+    it('should keep signing with the previous key while a new key is published', () => {
+      expect(selectSigningKey([older, fresh], 120000, now)).toBe(older);
+    });
+
+    it('should sign with the newest key once it is active', () => {
+      expect(selectSigningKey([older, fresh], 10000, now)).toBe(fresh);
+    });
+
+    it('should sign with a new key when there is no other', () => {
+      expect(selectSigningKey([fresh], 120000, now)).toBe(fresh);
+    });
+  });
+
+  describe('toPublicJwk', () => {
+    it('should export only the public key', () => {
+      const key = generateJwtKey('RS256');
+
+      const jwk = toPublicJwk(key);
+
+      expect(jwk).toMatchObject({ kid: key.kid, alg: 'RS256', use: 'sig', kty: 'RSA' });
+      expect(jwk.n).toBeDefined();
+      expect(jwk.d).toBeUndefined();
+    });
+  });
+});
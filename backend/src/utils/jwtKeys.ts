@@ -0,0 +1,191 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * JWT signing key management
+ * Keys live in a directory as one PKCS#8 PEM file per key, named after its key ID (kid).
+ * Key IDs start with their creation time, so sorting them orders keys from oldest to newest.
+ */
+
+export type JwtAlgorithm = 'RS256' | 'EdDSA';
+
+export const JWT_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'EdDSA'];
+
+export interface JwtKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  createdAt: Date;
+}
+
+export interface Jwk {
+  kid: string;
+  alg: JwtAlgorithm;
+  use: 'sig';
+  kty: string;
+  [parameter: string]: unknown;
+}
+
+const KEY_FILE_EXTENSION = '.pem';
+const MIN_RSA_MODULUS_LENGTH = 2048;
+const KID_PATTERN = /^(\d{8}T\d{6}Z)-[0-9a-f]+$/;
+
+/**
+ * Build a key ID from a creation time
+ * @param createdAt - When the key was created
+ * @returns A key ID such as 20240101T120000Z-1a2b3c4d
+ */
+function createKid(createdAt: Date): string {
+  const timestamp = createdAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  return `${timestamp}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Read the creation time encoded in a key ID
+ * @param kid - The key ID
+ * @returns The creation time
+ * @throws Error if the key ID is not in the expected format
+ */
+function parseKidTimestamp(kid: string): Date {
+  const match = KID_PATTERN.exec(kid);
+  if (!match) {
+    throw new Error(`Invalid JWT key ID: ${kid}`);
+  }
+
+  const [, stamp] = match;
+  return new Date(
+    `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T` +
+    `${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}Z`
+  );
+}
+
+/**
+ * Work out which JWT algorithm a private key is used with
+ * @param kid - The key ID, for error messages
+ * @param privateKey - The private key
+ * @returns The JWT algorithm
+ * @throws Error if the key type is unsupported or the key is too weak
+ */
+function getAlgorithm(kid: string, privateKey: KeyObject): JwtAlgorithm {
+  if (privateKey.asymmetricKeyType === 'ed25519') {
+    return 'EdDSA';
+  }
+
+  if (privateKey.asymmetricKeyType === 'rsa') {
+    const modulusLength = privateKey.asymmetricKeyDetails?.modulusLength ?? 0;
+    if (modulusLength < MIN_RSA_MODULUS_LENGTH) {
+      throw new Error(`JWT key ${kid} is too weak: RSA keys need at least ${MIN_RSA_MODULUS_LENGTH} bits`);
+    }
+    return 'RS256';
+  }
+
+  throw new Error(`JWT key ${kid} has unsupported type ${privateKey.asymmetricKeyType}: use RSA or Ed25519`);
+}
+
+/**
+ * Generate a new signing key
+ * @param alg - The algorithm the key is used with
+ * @param createdAt - The creation time recorded in the key ID
+ * @returns The new key
+ */
+export function generateJwtKey(alg: JwtAlgorithm, createdAt: Date = new Date()): JwtKey {
+  const { privateKey, publicKey } = alg === 'EdDSA'
+    ? crypto.generateKeyPairSync('ed25519')
+    : crypto.generateKeyPairSync('rsa', { modulusLength: MIN_RSA_MODULUS_LENGTH });
+
+  return {
+    kid: createKid(createdAt),
+    alg,
+    privateKey,
+    publicKey,
+    createdAt,
+  };
+}
+
+/**
+ * Save a key to a key directory, readable by the owner only
+ * @param dir - The key directory
+ * @param key - The key to save
+ * @returns The path of the written key file
+ */
+export function writeJwtKey(dir: string, key: JwtKey): string {
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  const file = path.join(dir, `${key.kid}${KEY_FILE_EXTENSION}`);
+  const pem = key.privateKey.export({ format: 'pem', type: 'pkcs8' }) as string;
+  fs.writeFileSync(file, pem, { mode: 0o600, flag: 'wx' });
+
+  return file;
+}
+
+/**
+ * Load every key in a key directory
+ * @param dir - The key directory
+ * @returns The keys ordered from oldest to newest, or an empty list if the directory does not exist
+ * @throws Error if a key file cannot be used
+ */
+export function loadJwtKeys(dir: string): JwtKey[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith(KEY_FILE_EXTENSION))
+    .sort()
+    .map((file) => {
+      const kid = path.basename(file, KEY_FILE_EXTENSION);
+      const privateKey = crypto.createPrivateKey(fs.readFileSync(path.join(dir, file), 'utf8'));
+
+      return {
+        kid,
+        alg: getAlgorithm(kid, privateKey),
+        privateKey,
+        publicKey: crypto.createPublicKey(privateKey),
+        createdAt: parseKidTimestamp(kid),
+      };
+    });
+}
+
+/**
+ * Delete a key from a key directory
+ * @param dir - The key directory
+ * @param kid - The ID of the key to delete
+ */
+export function removeJwtKey(dir: string, kid: string): void {
+  fs.unlinkSync(path.join(dir, `${kid}${KEY_FILE_EXTENSION}`));
+}
+
+/**
+ * Pick the key new tokens are signed with
+ * A new key is only used once it is older than the activation delay, giving every
+ * running instance time to load it before tokens signed with it reach them
+ * @param keys - The keys ordered from oldest to newest
+ * @param activationDelayMs - How long a new key is published before it signs tokens
+ * @param now - The current time
+ * @returns The signing key
+ */
+export function selectSigningKey(keys: JwtKey[], activationDelayMs: number, now: Date = new Date()): JwtKey {
+  const activeKeys = keys.filter((key) => now.getTime() - key.createdAt.getTime() >= activationDelayMs);
+
+  // A fresh key directory only has new keys, so sign with the newest rather than not at all
+  return activeKeys.length > 0 ? activeKeys[activeKeys.length - 1] : keys[keys.length - 1];
+}
+
+/**
+ * Export the public half of a key as a JSON Web Key
+ * @param key - The key to export
+ * @returns The public JWK
+ */
+export function toPublicJwk(key: JwtKey): Jwk {
+  const jwk = key.publicKey.export({ format: 'jwk' });
+
+  return {
+    ...jwk,
+    kty: jwk.kty as string,
+    kid: key.kid,
+    alg: key.alg,
+    use: 'sig',
+  };
+}
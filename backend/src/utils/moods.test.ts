@@ -0,0 +1,29 @@
+import { MOODS, emotionsForMood, isMood } from './moods.js';
+
+describe('Mood Vocabulary', () => {
+  it('should have unique ids', () => {
+    const ids = MOODS.map((mood) => mood.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should place every mood within the valence and intensity ranges', () => {
+    MOODS.forEach((mood) => {
+      expect(mood.valence).toBeGreaterThanOrEqual(-1);
+      expect(mood.valence).toBeLessThanOrEqual(1);
+      expect(mood.intensity).toBeGreaterThanOrEqual(0);
+      expect(mood.intensity).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('should recognize moods regardless of case', () => {
+    expect(isMood('happy')).toBe(true);
+    expect(isMood('Anxious')).toBe(true);
+    expect(isMood('very_happy')).toBe(false);
+  });
+
+  it('should turn a mood into a single emotion at its usual intensity', () => {
+    expect(emotionsForMood('Calm')).toEqual([{ mood: 'calm', customMoodId: null, intensity: 0.2 }]);
+    expect(emotionsForMood(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { EntryEmotion, MoodDefinition } from '../types/index.js';
+
+/**
+ * Mood Vocabulary
+ * The moods an entry can be tagged with, shared with the client through GET /api/v1/moods
+ * so the picker, the validation and the analytics all agree
+ */
+
+export const MOODS: readonly MoodDefinition[] = [
+  { id: 'happy', label: 'Happy', emoji: '😊', valence: 0.8, intensity: 0.6 },
+  { id: 'excited', label: 'Excited', emoji: '🤩', valence: 0.8, intensity: 0.9 },
+  { id: 'calm', label: 'Calm', emoji: '😌', valence: 0.6, intensity: 0.2 },
+  { id: 'neutral', label: 'Neutral', emoji: '😐', valence: 0, intensity: 0.3 },
+  { id: 'tired', label: 'Tired', emoji: '😴', valence: -0.3, intensity: 0.1 },
+  { id: 'sad', label: 'Sad', emoji: '😢', valence: -0.7, intensity: 0.4 },
+  { id: 'anxious', label: 'Anxious', emoji: '😰', valence: -0.6, intensity: 0.8 },
+  { id: 'angry', label: 'Angry', emoji: '😠', valence: -0.8, intensity: 0.9 },
+];
+
+export const MOOD_IDS: readonly string[] = MOODS.map((mood) => mood.id);
+
+/**
+ * Whether a value is a mood in the vocabulary, ignoring case
+ */
+export function isMood(value: string): boolean {
+  return MOOD_IDS.includes(value.toLowerCase());
+}
+
+/**
+ * Find a mood in the vocabulary, ignoring case
+ */
+export function getMood(id: string): MoodDefinition | undefined {
+  return MOODS.find((mood) => mood.id === id.toLowerCase());
+}
+
+/**
+ * The emotions of an entry that only has a mood: that mood, felt as strongly as it usually is
+ */
+export function emotionsForMood(mood: string | null | undefined): EntryEmotion[] {
+  const definition = mood ? getMood(mood) : undefined;
+  return definition ? [{ mood: definition.id, customMoodId: null, intensity: definition.intensity }] : [];
+}
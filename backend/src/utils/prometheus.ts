@@ -17,7 +17,14 @@ const httpRequestsTotal = new client.Counter({
   labelNames: ['method', 'route', 'status_code'],
 });
 
+const rateLimitThrottledTotal = new client.Counter({
+  name: 'rate_limit_throttled_total',
+  help: 'Total number of requests rejected or delayed by a rate limiter',
+  labelNames: ['limiter', 'action'],
+});
+
 register.registerMetric(httpRequestDuration);
 register.registerMetric(httpRequestsTotal);
+register.registerMetric(rateLimitThrottledTotal);
 
-export { register, httpRequestDuration, httpRequestsTotal };
+export { register, httpRequestDuration, httpRequestsTotal, rateLimitThrottledTotal };
@@ -0,0 +1,16 @@
+import { PROMPTS, PROMPT_CATEGORIES, getPrompts } from './prompts.js';
+
+describe('Prompt Library', () => {
+  it('should have unique ids', () => {
+    const ids = PROMPTS.map((prompt) => prompt.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should place every prompt in a known category, and every category should have prompts', () => {
+    const categories = PROMPT_CATEGORIES.map((category) => category.id);
+
+    PROMPTS.forEach((prompt) => expect(categories).toContain(prompt.category));
+    categories.forEach((category) => expect(getPrompts(category).length).toBeGreaterThan(0));
+  });
+});
@@ -0,0 +1,49 @@
+import { JournalPrompt, PromptCategory } from '../types/index.js';
+
+/**
+ * Prompt Library
+ * Curated prompts to help start an entry, served through GET /api/v1/prompts
+ */
+
+export const PROMPT_CATEGORIES: readonly PromptCategory[] = [
+  { id: 'reflection', label: 'Reflection' },
+  { id: 'gratitude', label: 'Gratitude' },
+  { id: 'anxiety', label: 'Worry and anxiety' },
+  { id: 'relationships', label: 'Relationships' },
+  { id: 'self-compassion', label: 'Self-compassion' },
+  { id: 'goals', label: 'Goals and growth' },
+];
+
+export const PROMPTS: readonly JournalPrompt[] = [
+  { id: 'reflection-1', category: 'reflection', text: 'What took up most of your attention today?' },
+  { id: 'reflection-2', category: 'reflection', text: 'When did you feel most like yourself this week?' },
+  { id: 'reflection-3', category: 'reflection', text: 'What is something you changed your mind about recently?' },
+  { id: 'reflection-4', category: 'reflection', text: 'Describe a moment today you would like to remember.' },
+  { id: 'gratitude-1', category: 'gratitude', text: 'Who made your day a little easier, and how?' },
+  { id: 'gratitude-2', category: 'gratitude', text: 'What is something ordinary you would miss if it were gone?' },
+  { id: 'gratitude-3', category: 'gratitude', text: 'What went better than you expected?' },
+  { id: 'gratitude-4', category: 'gratitude', text: 'What about your body are you thankful for today?' },
+  { id: 'anxiety-1', category: 'anxiety', text: 'What are you worried about? Write it all down, then circle what you can control.' },
+  { id: 'anxiety-2', category: 'anxiety', text: 'What is the worst that could happen, the best, and the most likely?' },
+  { id: 'anxiety-3', category: 'anxiety', text: 'What would you tell a friend who had this worry?' },
+  { id: 'anxiety-4', category: 'anxiety', text: 'What helped the last time you felt this way?' },
+  { id: 'relationships-1', category: 'relationships', text: 'Who do you want to spend more time with, and what stops you?' },
+  { id: 'relationships-2', category: 'relationships', text: 'Is there a conversation you have been putting off? What would you say?' },
+  { id: 'relationships-3', category: 'relationships', text: 'How did someone show they care about you recently?' },
+  { id: 'relationships-4', category: 'relationships', text: 'What boundary would make your life easier?' },
+  { id: 'self-compassion-1', category: 'self-compassion', text: 'What are you being hard on yourself about? How would you speak to a friend about it?' },
+  { id: 'self-compassion-2', category: 'self-compassion', text: 'What is something you did well today, however small?' },
+  { id: 'self-compassion-3', category: 'self-compassion', text: 'What do you need right now, and how could you give it to yourself?' },
+  { id: 'self-compassion-4', category: 'self-compassion', text: 'Write a short letter to yourself from someone who loves you.' },
+  { id: 'goals-1', category: 'goals', text: 'What is one small step you could take tomorrow towards something that matters to you?' },
+  { id: 'goals-2', category: 'goals', text: 'What habit would you like to build, and what gets in the way?' },
+  { id: 'goals-3', category: 'goals', text: 'Where do you hope to be a year from now?' },
+  { id: 'goals-4', category: 'goals', text: 'What have you learned from something that did not go to plan?' },
+];
+
+/**
+ * The prompts in the library, optionally only those in one category
+ */
+export function getPrompts(category?: string): JournalPrompt[] {
+  return PROMPTS.filter((prompt) => !category || prompt.category === category);
+}
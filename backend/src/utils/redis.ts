@@ -0,0 +1,88 @@
+import { Redis } from 'ioredis';
+import logger from './logger.js';
+
+/**
+ * Shared Redis connection for request-path features such as rate limiting
+ * BullMQ manages its own connections from the same REDIS_URL
+ */
+
+let client: Redis | null = null;
+const subscribers: Redis[] = [];
+
+/**
+ * Get or create the shared Redis client
+ * Commands fail immediately while Redis is unreachable instead of queueing,
+ * so callers can fall back rather than hold requests open
+ */
+export function getRedisClient(): Redis {
+  if (!client) {
+    client = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+    });
+
+    client.on('error', (error) => {
+      logger.warn('Redis connection error', { error: error.message });
+    });
+  }
+  return client;
+}
+
+/**
+ * Publish a message to every process subscribed to a channel
+ * @param channel - The channel
+ * @param message - The message
+ */
+export async function publish(channel: string, message: string): Promise<void> {
+  await getRedisClient().publish(channel, message);
+}
+
+/**
+ * Receive the messages published to a channel
+ * A subscription needs a connection of its own. Messages published while that connection
+ * is down are lost, so `onStatus` is told when messages start and stop being received.
+ * @param channel - The channel
+ * @param onMessage - Called with each message
+ * @param onStatus - Called with true once subscribed, and false when the connection drops
+ */
+export function subscribe(
+  channel: string,
+  onMessage: (message: string) => void,
+  onStatus: (live: boolean) => void
+): void {
+  const subscriber = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+    // Subscribed again on every reconnect below, so the status is only reported once it holds
+    autoResubscribe: false,
+  });
+
+  subscriber.on('error', (error) => {
+    logger.warn('Redis subscriber connection error', { channel, error: error.message });
+  });
+  subscriber.on('message', (received: string, message: string) => {
+    if (received === channel) {
+      onMessage(message);
+    }
+  });
+  subscriber.on('ready', () => {
+    subscriber
+      .subscribe(channel)
+      .then(() => onStatus(true))
+      .catch((error: Error) => {
+        logger.warn('Failed to subscribe to Redis channel', { channel, error: error.message });
+      });
+  });
+  subscriber.on('close', () => onStatus(false));
+
+  subscribers.push(subscriber);
+}
+
+/**
+ * Close the shared Redis client and any subscriptions
+ */
+export async function disconnectRedis(): Promise<void> {
+  if (client) {
+    await client.quit();
+    client = null;
+  }
+  await Promise.all(subscribers.splice(0).map((subscriber) => subscriber.quit()));
+}
@@ -0,0 +1,71 @@
+import { buildIndexTerms, buildQueryTerms } from './searchIndex.js';
+
+describe('Search Index Utilities', () => {
+  const userId = 'user-123';
+
+  // Whether every word of a query is satisfied by an entry's terms, as the repository checks
+  const matches = (terms: string[], query: string, user = userId) => {
+    const indexed = new Set(terms);
+    const queryTerms = buildQueryTerms(user, query);
+    return queryTerms.length > 0 && queryTerms.every((hashes) => hashes.some((hash) => indexed.has(hash)));
+  };
+
+  const index = (title: string, content: string) =>
+    buildIndexTerms(userId, title, content).map((term) => term.termHash);
+
+  describe('buildIndexTerms', () => {
+    it('should not store any word in plaintext', () => {
+      const terms = buildIndexTerms(userId, 'Therapy', 'Talked about my sister and the garden');
+      const serialized = JSON.stringify(terms).toLowerCase();
+
+      for (const word of ['therapy', 'talked', 'sister', 'garden']) {
+        expect(serialized).not.toContain(word);
+      }
+    });
+
+    it('should weight title words above content words', () => {
+      const inTitle = buildIndexTerms(userId, 'garden', '');
+      const inContent = buildIndexTerms(userId, '', 'garden');
+
+      expect(Math.max(...inTitle.map((term) => term.weight))).toBeGreaterThan(
+        Math.max(...inContent.map((term) => term.weight))
+      );
+    });
+
+    it('should hash the same word differently for different users', () => {
+      const first = buildIndexTerms('user-1', '', 'garden').map((term) => term.termHash);
+      const second = buildIndexTerms('user-2', '', 'garden').map((term) => term.termHash);
+
+      expect(first.some((hash) => second.includes(hash))).toBe(false);
+    });
+  });
+
+  describe('buildQueryTerms', () => {
+    const terms = index('Morning walk', 'Walking by the river made me feel calmer. Café with Zoë.');
+
+    it('should match every word of a multi-word query', () => {
+      expect(matches(terms, 'morning river')).toBe(true);
+      expect(matches(terms, 'morning ocean')).toBe(false);
+    });
+
+    it('should match words with different endings', () => {
+      expect(matches(terms, 'walked')).toBe(true);
+      expect(matches(terms, 'walks')).toBe(true);
+    });
+
+    it('should match the start of a word', () => {
+      expect(matches(terms, 'riv')).toBe(true);
+      expect(matches(terms, 'calm')).toBe(true);
+      expect(matches(terms, 'ver')).toBe(false);
+    });
+
+    it('should ignore case, accents and stopwords', () => {
+      expect(matches(terms, 'CAFE zoe')).toBe(true);
+      expect(matches(terms, 'the')).toBe(false);
+    });
+
+    it("should not match another user's entries", () => {
+      expect(matches(terms, 'river', 'user-456')).toBe(false);
+    });
+  });
+});
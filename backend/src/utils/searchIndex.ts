@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { getSearchIndexKey } from './encryption.js';
+
+/**
+ * Blind index for searching encrypted entries
+ * Entry text is split into normalized words, and each word is stored as keyed HMACs of its
+ * stem and of its leading characters. Searches compute the same HMACs for the query words,
+ * so terms are matched without the server storing them in plaintext. The HMAC key differs
+ * per user, so the same word in two users' entries does not produce the same hash.
+ */
+
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_LENGTH = 10;
+const MAX_WORD_LENGTH = 40;
+const MAX_QUERY_WORDS = 10;
+const TITLE_BOOST = 3;
+// Whole-word matches rank above matches on the start of a longer word
+const EXACT_BOOST = 2;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'a', 'an', 'to', 'of', 'in', 'for', 'on', 'with', 'is', 'it', 'that', 'this', 'i', 'you',
+  'my', 'me', 'we', 'our', 'your', 'was', 'were', 'are', 'be', 'been', 'but', 'or', 'as', 'at', 'by', 'so',
+  'if', 'from',
+]);
+
+const SUFFIXES = ['ations', 'ation', 'ness', 'ment', 'ings', 'ing', 'edly', 'ed', 'ies', 'ly', 'es', 's'];
+
+export interface SearchTerm {
+  termHash: string;
+  weight: number;
+}
+
+/**
+ * Split text into lowercase words without accents, dropping stopwords
+ */
+function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [];
+
+  return words.filter((word) => word.length <= MAX_WORD_LENGTH && !STOPWORDS.has(word));
+}
+
+/**
+ * Reduce a word to a crude stem so that e.g. "walks", "walked" and "walking" match
+ * Only needs to be consistent, since the same function is applied to queries
+ */
+function stem(word: string): string {
+  if (word.length <= 4 || /\d/.test(word)) {
+    return word;
+  }
+
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3 && !(suffix === 's' && word.endsWith('ss'))) {
+      const base = word.slice(0, -suffix.length);
+      return suffix === 'ies' ? `${base}y` : base;
+    }
+  }
+
+  return word;
+}
+
+/**
+ * Create the hash function for one user's terms
+ */
+function createHasher(userId: string): (term: string) => string {
+  const userKey = Buffer.from(crypto.hkdfSync('sha256', getSearchIndexKey(), Buffer.from(userId), 'entry-search', 32));
+
+  return (term: string) =>
+    crypto.createHmac('sha256', userKey).update(term).digest().subarray(0, 16).toString('base64url');
+}
+
+/**
+ * Compute the index terms for an entry
+ * @param userId - The entry's owner, whose key the terms are hashed with
+ * @param title - The entry title
+ * @param content - The entry content
+ * @returns One hashed term per distinct stem and prefix, weighted by how often and where it occurs
+ */
+export function buildIndexTerms(userId: string, title: string, content: string): SearchTerm[] {
+  const weights = new Map<string, number>();
+  const add = (term: string, weight: number) => weights.set(term, (weights.get(term) || 0) + weight);
+
+  const fields: Array<[string, number]> = [[title, TITLE_BOOST], [content, 1]];
+  for (const [text, boost] of fields) {
+    for (const word of tokenize(text)) {
+      add(`t:${stem(word)}`, boost * EXACT_BOOST);
+
+      for (let length = MIN_PREFIX_LENGTH; length <= Math.min(word.length, MAX_PREFIX_LENGTH); length++) {
+        add(`p:${word.slice(0, length)}`, boost);
+      }
+    }
+  }
+
+  const hash = createHasher(userId);
+  return Array.from(weights, ([term, weight]) => ({ termHash: hash(term), weight }));
+}
+
+/**
+ * Compute the hashes to look up for a search query
+ * A word matches an entry containing a word with the same stem, or one starting with it
+ * @param userId - The searching user
+ * @param query - The search text
+ * @returns For each query word, the hashes any of which satisfies it
+ */
+export function buildQueryTerms(userId: string, query: string): string[][] {
+  const hash = createHasher(userId);
+  const words = Array.from(new Set(tokenize(query))).slice(0, MAX_QUERY_WORDS);
+
+  return words.map((word) => {
+    const hashes = [hash(`t:${stem(word)}`)];
+    if (word.length >= MIN_PREFIX_LENGTH) {
+      hashes.push(hash(`p:${word.slice(0, MAX_PREFIX_LENGTH)}`));
+    }
+    return hashes;
+  });
+}
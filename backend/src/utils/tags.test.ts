@@ -0,0 +1,12 @@
+import { normalizeTag, normalizeTags } from './tags.js';
+
+describe('Tag Normalization', () => {
+  it('should trim, lowercase and collapse whitespace', () => {
+    expect(normalizeTag('  Work  Trip ')).toBe('work trip');
+    expect(normalizeTag('WORK\tTRIP')).toBe('work trip');
+  });
+
+  it('should drop empty tags and tags that normalize to one already listed', () => {
+    expect(normalizeTags(['Work', 'family', 'work ', '  ', 'WORK'])).toEqual(['work', 'family']);
+  });
+});
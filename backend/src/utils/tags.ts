@@ -0,0 +1,20 @@
+/**
+ * Tag Normalization
+ * Tags are stored trimmed, lowercase and with single spaces, so "Work", "work " and
+ * "WORK" are one tag everywhere: on entries, in filters and in the tags API
+ */
+
+/**
+ * Normalize one tag
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Normalize a list of tags, dropping empty tags and tags that normalize to one already listed
+ * The first occurrence of each tag keeps its place
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0)));
+}
@@ -0,0 +1,45 @@
+import { buildEntryFields, entryText } from './templates.js';
+import { TemplateSection } from '../types/index.js';
+
+describe('Template Fields', () => {
+  const sections: TemplateSection[] = [
+    { key: 'situation', label: 'Situation', type: 'text' },
+    { key: 'thoughts', label: 'Thoughts', type: 'list' },
+    { key: 'belief', label: 'Belief', type: 'rating' },
+  ];
+
+  it('should keep every section in order, empty ones as null', () => {
+    const fields = buildEntryFields(sections, { belief: 7, situation: '  Missed the bus  ' });
+
+    expect(fields).toEqual([
+      { key: 'situation', label: 'Situation', type: 'text', value: 'Missed the bus' },
+      { key: 'thoughts', label: 'Thoughts', type: 'list', value: null },
+      { key: 'belief', label: 'Belief', type: 'rating', value: 7 },
+    ]);
+  });
+
+  it('should drop blank list items', () => {
+    const [, thoughts] = buildEntryFields(sections, { thoughts: ['I am always late', '  '] });
+
+    expect(thoughts.value).toEqual(['I am always late']);
+  });
+
+  it('should reject keys that are not sections of the template', () => {
+    expect(() => buildEntryFields(sections, { mood: 'fine' })).toThrow('Invalid field');
+  });
+
+  it('should reject values that do not suit their section', () => {
+    expect(() => buildEntryFields(sections, { belief: 11 })).toThrow(
+      'Belief must be a whole number between 0 and 10'
+    );
+    expect(() => buildEntryFields(sections, { thoughts: 'one thought' })).toThrow('Thoughts must be a list');
+  });
+
+  it('should render the content and filled-in fields as text', () => {
+    const fields = buildEntryFields(sections, { situation: 'Missed the bus', thoughts: ['Late again'], belief: 4 });
+
+    expect(entryText('Notes', fields)).toBe(
+      'Notes\n\nSituation:\nMissed the bus\n\nThoughts:\n- Late again\n\nBelief: 4/10'
+    );
+  });
+});
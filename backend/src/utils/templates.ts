@@ -0,0 +1,109 @@
+import { EntryField, EntryFieldValue, TemplateSection } from '../types/index.js';
+
+/**
+ * Template Fields
+ * Turns the values sent for a template's sections into an entry's fields, and the fields
+ * back into plain text for search, analysis and exports
+ */
+
+export const RATING_MIN = 0;
+export const RATING_MAX = 10;
+
+const MAX_TEXT_LENGTH = 10000;
+const MAX_LIST_ITEMS = 50;
+const MAX_LIST_ITEM_LENGTH = 500;
+
+/**
+ * Validate and normalize the value of one section
+ * Empty values are stored as null, so a section can be cleared
+ */
+function normalizeValue(section: TemplateSection, value: unknown): EntryFieldValue {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  switch (section.type) {
+    case 'text': {
+      if (typeof value !== 'string' || value.trim().length > MAX_TEXT_LENGTH) {
+        throw new Error(`${section.label} must be text of at most ${MAX_TEXT_LENGTH} characters`);
+      }
+      return value.trim() || null;
+    }
+    case 'list': {
+      if (
+        !Array.isArray(value) ||
+        value.length > MAX_LIST_ITEMS ||
+        value.some((item) => typeof item !== 'string' || item.trim().length > MAX_LIST_ITEM_LENGTH)
+      ) {
+        throw new Error(
+          `${section.label} must be a list of at most ${MAX_LIST_ITEMS} items of at most ${MAX_LIST_ITEM_LENGTH} characters`
+        );
+      }
+      const items = (value as string[]).map((item) => item.trim()).filter((item) => item.length > 0);
+      return items.length > 0 ? items : null;
+    }
+    case 'rating': {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < RATING_MIN || value > RATING_MAX) {
+        throw new Error(`${section.label} must be a whole number between ${RATING_MIN} and ${RATING_MAX}`);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Build an entry's fields from a template's sections and the values sent for them
+ * @param sections - The sections, in order
+ * @param values - Values by section key; sections left out are empty
+ * @returns One field per section, in the sections' order
+ * @throws Error if a key is not one of the sections, or a value doesn't suit its section
+ */
+export function buildEntryFields(sections: TemplateSection[], values: Record<string, unknown>): EntryField[] {
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    throw new Error('Fields must be an object of values by section key');
+  }
+
+  const unknownKey = Object.keys(values).find((key) => !sections.some((section) => section.key === key));
+  if (unknownKey) {
+    throw new Error(`Invalid field: "${unknownKey}" is not a section of the template`);
+  }
+
+  return sections.map((section) => ({
+    key: section.key,
+    label: section.label,
+    type: section.type,
+    value: normalizeValue(section, values[section.key]),
+  }));
+}
+
+/**
+ * Whether any of an entry's fields has been filled in
+ */
+export function hasFieldValues(fields: EntryField[] | null | undefined): boolean {
+  return !!fields?.some((field) => field.value !== null);
+}
+
+/**
+ * Render the filled-in fields as plain text, one section after another
+ */
+export function fieldsToText(fields: EntryField[] | null | undefined): string {
+  return (fields ?? [])
+    .filter((field) => field.value !== null)
+    .map((field) => {
+      if (Array.isArray(field.value)) {
+        return `${field.label}:\n${field.value.map((item) => `- ${item}`).join('\n')}`;
+      }
+      if (field.type === 'rating') {
+        return `${field.label}: ${field.value}/${RATING_MAX}`;
+      }
+      return `${field.label}:\n${field.value}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * An entry's content followed by its filled-in fields, for indexing and analysis
+ */
+export function entryText(content: string, fields: EntryField[] | null | undefined): string {
+  return [content, fieldsToText(fields)].filter((part) => part.length > 0).join('\n\n');
+}
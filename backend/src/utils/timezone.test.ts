@@ -0,0 +1,42 @@
+import { isValidTimeZone, isDateOnly, startOfDayInTimeZone } from './timezone.js';
+
+describe('Time Zone Utilities', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA time zone names', () => {
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('America/New_York')).toBe(true);
+    });
+
+    it('should reject unknown time zones', () => {
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('isDateOnly', () => {
+    it('should distinguish dates from date-times', () => {
+      expect(isDateOnly('2026-03-08')).toBe(true);
+      expect(isDateOnly('2026-03-08T10:00:00Z')).toBe(false);
+    });
+  });
+
+  describe('startOfDayInTimeZone', () => {
+    it('should return UTC midnight for UTC', () => {
+      expect(startOfDayInTimeZone('2026-01-15', 'UTC').toISOString()).toBe('2026-01-15T00:00:00.000Z');
+    });
+
+    it('should apply the time zone offset', () => {
+      expect(startOfDayInTimeZone('2026-01-15', 'America/New_York').toISOString()).toBe('2026-01-15T05:00:00.000Z');
+      expect(startOfDayInTimeZone('2026-01-15', 'Asia/Tokyo').toISOString()).toBe('2026-01-14T15:00:00.000Z');
+    });
+
+    it('should use the offset in effect on that day across DST changes', () => {
+      // New York switches to daylight time at 2am on 2026-03-08
+      expect(startOfDayInTimeZone('2026-03-08', 'America/New_York').toISOString()).toBe('2026-03-08T05:00:00.000Z');
+      expect(startOfDayInTimeZone('2026-03-09', 'America/New_York').toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    });
+
+    it('should add a day offset', () => {
+      expect(startOfDayInTimeZone('2026-12-31', 'UTC', 1).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+    });
+  });
+});
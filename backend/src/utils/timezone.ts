@@ -0,0 +1,65 @@
+/**
+ * Time Zone Utilities
+ * Converts calendar dates in a user's time zone to instants, without a date library
+ */
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check whether a string names a time zone known to the runtime (e.g. "Europe/Paris")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a string is a calendar date (YYYY-MM-DD) rather than a date and time
+ */
+export function isDateOnly(value: string): boolean {
+  return DATE_ONLY_PATTERN.test(value);
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Get the instant a calendar day starts in a time zone
+ * @param date - The day, as YYYY-MM-DD
+ * @param timeZone - An IANA time zone name
+ * @param dayOffset - Days to add to the date, e.g. 1 for the end of the day (the start of the next)
+ * @returns The first instant of the day in that time zone
+ */
+export function startOfDayInTimeZone(date: string, timeZone: string, dayOffset: number = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const midnightUtc = Date.UTC(year, month - 1, day + dayOffset);
+
+  // The offset at UTC midnight can differ from the one at local midnight across a DST change
+  const offset = getTimeZoneOffset(midnightUtc, timeZone);
+  const adjustedOffset = getTimeZoneOffset(midnightUtc - offset, timeZone);
+
+  return new Date(midnightUtc - adjustedOffset);
+}
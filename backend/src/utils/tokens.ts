@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+/**
+ * Token hashing helpers
+ * Bearer credentials handed to clients are only ever persisted as digests
+ */
+
+/**
+ * Hash a token for storage and lookup
+ * @param token - The raw token string
+ * @returns Hex-encoded SHA-256 digest of the token
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
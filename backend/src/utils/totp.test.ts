@@ -0,0 +1,106 @@
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotpCode,
+  getTimeStep,
+  isTotpCode,
+  verifyTotpCode,
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from './totp.js';
+
+describe('TOTP Utilities', () => {
+  // RFC 6238 Appendix B test secret ("12345678901234567890")
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should encode the RFC 6238 secret', () => {
+      expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpCode', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 vector at %i seconds', (seconds, expected) => {
+      expect(generateTotpCode(rfcSecret, getTimeStep(seconds * 1000))).toBe(expected);
+    });
+  });
+
+  describe('verifyTotpCode', () => {
+    it('should accept the current code and return its time step', () => {
+      const secret = generateTotpSecret();
+      const step = getTimeStep();
+
+      expect(verifyTotpCode(secret, generateTotpCode(secret, step))).toBe(step);
+    });
+
+    it('should accept codes from the adjacent time step', () => {
+      const secret = generateTotpSecret();
+      const step = getTimeStep() - 1;
+
+      expect(verifyTotpCode(secret, generateTotpCode(secret, step))).toBe(step);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      const secret = generateTotpSecret();
+      const code = generateTotpCode(secret, getTimeStep() - 5);
+
+      expect(verifyTotpCode(secret, code)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      const secret = generateTotpSecret();
+
+      expect(verifyTotpCode(secret, 'abcdef')).toBeNull();
+      expect(verifyTotpCode(secret, '12345')).toBeNull();
+    });
+  });
+
+  describe('isTotpCode', () => {
+    it('should distinguish TOTP codes from recovery codes', () => {
+      expect(isTotpCode('123456')).toBe(true);
+      expect(isTotpCode('123 456')).toBe(true);
+      expect(isTotpCode('abcde-fghjk')).toBe(false);
+    });
+  });
+
+  describe('buildOtpAuthUrl', () => {
+    it('should build a provisioning URI for authenticator apps', () => {
+      const url = buildOtpAuthUrl('JBSWY3DPEHPK3PXP', 'user@example.com');
+
+      expect(url.startsWith('otpauth://totp/MicroCare%3Auser%40example.com?')).toBe(true);
+      expect(url).toContain('secret=JBSWY3DPEHPK3PXP');
+      expect(url).toContain('issuer=MicroCare');
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate unique codes in the expected format', () => {
+      const codes = generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach((code) => expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/));
+    });
+
+    it('should normalize user input before comparison', () => {
+      expect(normalizeRecoveryCode(' ABCDE FGHJK ')).toBe('abcde-fghjk');
+      expect(normalizeRecoveryCode('abcde-fghjk')).toBe('abcde-fghjk');
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+
+/**
+ * TOTP Utilities
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 second steps)
+ * compatible with common authenticator apps
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SECRET_BYTES = 20;
+const CODE_DIGITS = 6;
+const STEP_SECONDS = 30;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+/**
+ * Encode a buffer as RFC 4648 base32 without padding
+ * @param buffer - The bytes to encode
+ * @returns The base32 string
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string
+ * @param input - The base32 string (case and padding insensitive)
+ * @returns The decoded bytes
+ * @throws Error if the input contains invalid characters
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(output);
+}
+
+/**
+ * Generate a new random TOTP secret
+ * @returns The base32-encoded secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Get the time step for a point in time
+ * @param timestamp - Milliseconds since the epoch (default: now)
+ * @returns The TOTP time step counter
+ */
+export function getTimeStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Generate the TOTP code for a time step
+ * @param secret - The base32-encoded secret
+ * @param step - The time step counter
+ * @returns The zero-padded code
+ */
+export function generateTotpCode(secret: string, step: number = getTimeStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** CODE_DIGITS).toString().padStart(CODE_DIGITS, '0');
+}
+
+/**
+ * Check whether user input looks like a TOTP code rather than a recovery code
+ * @param code - The code entered by the user
+ * @returns True if the code is six digits
+ */
+export function isTotpCode(code: string): boolean {
+  return new RegExp(`^\\d{${CODE_DIGITS}}$`).test(code.replace(/\s/g, ''));
+}
+
+/**
+ * Verify a TOTP code, allowing for small clock drift
+ * @param secret - The base32-encoded secret
+ * @param code - The code entered by the user
+ * @param window - Number of steps accepted either side of the current one
+ * @returns The matching time step, or null if the code is invalid
+ */
+export function verifyTotpCode(secret: string, code: string, window = 1): number | null {
+  if (!isTotpCode(code)) {
+    return null;
+  }
+
+  const normalized = code.replace(/\s/g, '');
+  const currentStep = getTimeStep();
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = generateTotpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// provisioning URI rendered as a QR code by authenticator apps
+ * @param secret - The base32-encoded secret
+ * @param accountName - The account label, usually the user's email
+ * @param issuer - The service name shown in the app
+ * @returns The provisioning URI
+ */
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer = 'MicroCare'): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: CODE_DIGITS.toString(),
+    period: STEP_SECONDS.toString(),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Generate one-time recovery codes in the form xxxxx-xxxxx
+ * @param count - Number of codes to generate
+ * @returns The plain recovery codes
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(
+      crypto.randomBytes(10),
+      (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]
+    ).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+/**
+ * Normalize a recovery code before hashing so formatting differences do not matter
+ * @param code - The recovery code entered by the user
+ * @returns The normalized code
+ */
+export function normalizeRecoveryCode(code: string): string {
+  const compact = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return `${compact.slice(0, 5)}-${compact.slice(5)}`;
+}
@@ -8,6 +8,11 @@ import {
   validateMood,
   validateTags,
   validatePagination,
+  validateMoodFilter,
+  validateTagFilter,
+  validateDateRange,
+  validateBooleanParam,
+  validateEntryStatus,
   validateField,
   validateSchema,
   registrationSchema,
@@ -226,6 +231,18 @@ describe('Mood Validation', () => {
   });
 });
 
+describe('Entry Status Validation', () => {
+  it('should accept draft and published', () => {
+    expect(validateEntryStatus('DRAFT').valid).toBe(true);
+    expect(validateEntryStatus('PUBLISHED').valid).toBe(true);
+  });
+
+  it('should reject other values', () => {
+    expect(validateEntryStatus('draft')).toEqual({ valid: false, error: 'Status must be DRAFT or PUBLISHED' });
+    expect(validateEntryStatus(true).valid).toBe(false);
+  });
+});
+
 describe('Tags Validation', () => {
   it('should validate correct tags array', () => {
     const result = validateTags(['tag1', 'tag2', 'tag3']);
@@ -291,6 +308,42 @@ describe('Pagination Validation', () => {
   });
 });
 
+describe('Entry Filter Validation', () => {
+  it('should validate a list of moods', () => {
+    expect(validateMoodFilter(['happy', 'calm']).valid).toBe(true);
+    expect(validateMoodFilter(['happy', 'elated']).valid).toBe(false);
+    expect(validateMoodFilter([]).valid).toBe(false);
+  });
+
+  it('should validate tags and the tag mode', () => {
+    expect(validateTagFilter(['work'], 'all').valid).toBe(true);
+    expect(validateTagFilter(['work']).valid).toBe(true);
+    expect(validateTagFilter(['work'], 'some').valid).toBe(false);
+    expect(validateTagFilter([]).valid).toBe(false);
+  });
+
+  it('should accept dates and date-times', () => {
+    expect(validateDateRange('2026-01-01', '2026-01-31', 'Europe/London').valid).toBe(true);
+    expect(validateDateRange('2026-01-01T08:00:00Z', undefined).valid).toBe(true);
+  });
+
+  it('should reject impossible dates and unknown time zones', () => {
+    expect(validateDateRange('2026-02-31', undefined).valid).toBe(false);
+    expect(validateDateRange('yesterday', undefined).valid).toBe(false);
+    expect(validateDateRange('2026-01-01', undefined, 'Nowhere/City').valid).toBe(false);
+  });
+
+  it('should reject a range that ends before it starts', () => {
+    expect(validateDateRange('2026-02-01', '2026-01-01').valid).toBe(false);
+    expect(validateDateRange('2026-01-01', '2026-01-01').valid).toBe(true);
+  });
+
+  it('should validate boolean parameters', () => {
+    expect(validateBooleanParam('true', 'hasInsight').valid).toBe(true);
+    expect(validateBooleanParam('yes', 'hasInsight').error).toBe('hasInsight must be true or false');
+  });
+});
+
 describe('Field Validation', () => {
   it('should validate required field', () => {
     const rule = { required: true, type: 'string' as const };
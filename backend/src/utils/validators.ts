@@ -7,6 +7,9 @@
  * - Ensures data integrity and compliance with business rules
  */
 
+import { isValidTimeZone, isDateOnly, startOfDayInTimeZone } from './timezone.js';
+import { isMood, MOOD_IDS } from './moods.js';
+
 /**
  * Email validation result
  */
@@ -251,7 +254,7 @@ export function validateEntryContent(content: string): ValidationResult {
  * Validate mood value
  * 
  * Requirements: 4.1, 4.2
- * - Validates mood is one of the allowed values
+ * - Validates mood is one of the moods in the shared vocabulary
  * 
  * @param mood - The mood to validate
  * @returns Validation result with error message if invalid
@@ -265,18 +268,30 @@ export function validateMood(mood: string): ValidationResult {
     return { valid: false, error: 'Mood must be a string' };
   }
 
-  const allowedMoods = ['happy', 'sad', 'anxious', 'calm', 'angry', 'neutral', 'excited', 'tired'];
-
-  if (!allowedMoods.includes(mood.toLowerCase())) {
+  if (!isMood(mood)) {
     return {
       valid: false,
-      error: `Mood must be one of: ${allowedMoods.join(', ')}`,
+      error: `Mood must be one of: ${MOOD_IDS.join(', ')}`,
     };
   }
 
   return { valid: true };
 }
 
+/**
+ * Validate an entry status
+ * 
+ * @param status - The status to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateEntryStatus(status: unknown): ValidationResult {
+  if (status !== 'DRAFT' && status !== 'PUBLISHED') {
+    return { valid: false, error: 'Status must be DRAFT or PUBLISHED' };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validate tags array
  * 
@@ -349,6 +364,115 @@ export function validatePagination(page: unknown, limit: unknown): ValidationRes
   return { valid: true };
 }
 
+/**
+ * Validate a mood filter
+ * 
+ * @param moods - The moods to match any of
+ * @returns Validation result with error message if invalid
+ */
+export function validateMoodFilter(moods: unknown): ValidationResult {
+  if (!Array.isArray(moods) || moods.length === 0) {
+    return { valid: false, error: 'Mood filter must list at least one mood' };
+  }
+
+  if (moods.length > 10) {
+    return { valid: false, error: 'Mood filter allows at most 10 moods' };
+  }
+
+  for (const mood of moods) {
+    const result = validateMood(mood);
+    if (!result.valid) {
+      return result;
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a tag filter
+ * 
+ * @param tags - The tags to match
+ * @param tagMode - Whether entries need any of the tags or all of them (default: any)
+ * @returns Validation result with error message if invalid
+ */
+export function validateTagFilter(tags: unknown, tagMode?: unknown): ValidationResult {
+  if (Array.isArray(tags) && tags.length === 0) {
+    return { valid: false, error: 'Tag filter must list at least one tag' };
+  }
+
+  const result = validateTags(tags);
+  if (!result.valid) {
+    return result;
+  }
+
+  if (tagMode !== undefined && tagMode !== 'any' && tagMode !== 'all') {
+    return { valid: false, error: 'Tag mode must be any or all' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a date range filter
+ * 
+ * Dates (YYYY-MM-DD) are whole days in the given time zone; date-times are exact instants.
+ * 
+ * @param from - The earliest date, inclusive
+ * @param to - The latest date, inclusive
+ * @param timezone - IANA time zone the dates are in (default: UTC)
+ * @returns Validation result with error message if invalid
+ */
+export function validateDateRange(from: unknown, to: unknown, timezone?: unknown): ValidationResult {
+  if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+    return { valid: false, error: 'Timezone must be an IANA time zone name, e.g. Europe/London' };
+  }
+
+  const zone = (timezone as string | undefined) || 'UTC';
+  const bounds: Date[] = [];
+
+  for (const [name, value, dayOffset] of [['From', from, 0], ['To', to, 1]] as const) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      return { valid: false, error: `${name} must be a date (YYYY-MM-DD) or an ISO 8601 date-time` };
+    }
+
+    // Date.parse accepts many formats and rolls 2026-02-31 over to March, so check the shape too
+    const validDate = isDateOnly(value)
+      ? !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value)
+      : /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value));
+    if (!validDate) {
+      return { valid: false, error: `${name} must be a date (YYYY-MM-DD) or an ISO 8601 date-time` };
+    }
+
+    bounds.push(isDateOnly(value) ? startOfDayInTimeZone(value, zone, dayOffset) : new Date(value));
+  }
+
+  if (bounds.length === 2 && bounds[0] > bounds[1]) {
+    return { valid: false, error: 'From must not be after to' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a true/false query parameter
+ * 
+ * @param value - The raw parameter value
+ * @param fieldName - The parameter name for error messages
+ * @returns Validation result with error message if invalid
+ */
+export function validateBooleanParam(value: unknown, fieldName: string): ValidationResult {
+  if (value !== 'true' && value !== 'false') {
+    return { valid: false, error: `${fieldName} must be true or false` };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validate a single field against a validation rule
  * 
@@ -541,21 +665,39 @@ export const createEntrySchema: ValidationSchema = {
     type: 'string',
     custom: (value) => validateEntryTitle(value as string),
   },
+  // Only required for entries not written from a template; checked by the controller
   content: {
-    required: true,
+    required: false,
     type: 'string',
-    custom: (value) => validateEntryContent(value as string),
+    custom: (value) => (value ? validateEntryContent(value as string) : { valid: true }),
   },
   mood: {
     required: false,
     type: 'string',
     custom: (value) => (value ? validateMood(value as string) : { valid: true }),
   },
+  emotions: {
+    required: false,
+    type: 'array',
+  },
+  templateId: {
+    required: false,
+    type: 'string',
+  },
+  fields: {
+    required: false,
+    type: 'object',
+  },
   tags: {
     required: false,
     type: 'array',
     custom: (value) => (value ? validateTags(value) : { valid: true }),
   },
+  status: {
+    required: false,
+    type: 'string',
+    custom: (value) => (value ? validateEntryStatus(value) : { valid: true }),
+  },
 };
 
 /**
@@ -577,9 +719,249 @@ export const updateEntrySchema: ValidationSchema = {
     type: 'string',
     custom: (value) => (value ? validateMood(value as string) : { valid: true }),
   },
+  emotions: {
+    required: false,
+    type: 'array',
+  },
+  fields: {
+    required: false,
+    type: 'object',
+  },
   tags: {
     required: false,
     type: 'array',
     custom: (value) => (value ? validateTags(value) : { valid: true }),
   },
+  status: {
+    required: false,
+    type: 'string',
+    custom: (value) => (value ? validateEntryStatus(value) : { valid: true }),
+  },
+};
+
+/**
+ * Schema for creating a custom mood
+ */
+export const createCustomMoodSchema: ValidationSchema = {
+  label: {
+    required: true,
+    type: 'string',
+    minLength: 1,
+    maxLength: 50,
+  },
+  emoji: {
+    required: false,
+    type: 'string',
+  },
+  baseMood: {
+    required: true,
+    type: 'string',
+    custom: (value) => validateMood(value as string),
+  },
+  valence: {
+    required: false,
+    type: 'number',
+  },
+};
+
+/**
+ * Schema for updating a custom mood
+ */
+export const updateCustomMoodSchema: ValidationSchema = {
+  label: {
+    required: false,
+    type: 'string',
+    minLength: 1,
+    maxLength: 50,
+  },
+  emoji: {
+    required: false,
+    type: 'string',
+  },
+  valence: {
+    required: false,
+    type: 'number',
+  },
+};
+
+/**
+ * Schema for renaming a tag
+ */
+export const renameTagSchema: ValidationSchema = {
+  name: {
+    required: true,
+    type: 'string',
+    minLength: 1,
+  },
+};
+
+/**
+ * Schema for merging tags into one
+ */
+export const mergeTagsSchema: ValidationSchema = {
+  tags: {
+    required: true,
+    type: 'array',
+  },
+  into: {
+    required: true,
+    type: 'string',
+    minLength: 1,
+  },
+};
+
+/**
+ * Schema for creating a template
+ */
+export const createTemplateSchema: ValidationSchema = {
+  name: {
+    required: true,
+    type: 'string',
+    minLength: 1,
+    maxLength: 100,
+  },
+  description: {
+    required: false,
+    type: 'string',
+    maxLength: 500,
+  },
+  sections: {
+    required: true,
+    type: 'array',
+  },
+};
+
+/**
+ * Schema for updating a template
+ */
+export const updateTemplateSchema: ValidationSchema = {
+  name: {
+    required: false,
+    type: 'string',
+    minLength: 1,
+    maxLength: 100,
+  },
+  description: {
+    required: false,
+    type: 'string',
+    maxLength: 500,
+  },
+  sections: {
+    required: false,
+    type: 'array',
+  },
+};
+
+/**
+ * Schema for completing an MFA login
+ */
+export const mfaVerifySchema: ValidationSchema = {
+  mfaToken: {
+    required: true,
+    type: 'string',
+  },
+  code: {
+    required: true,
+    type: 'string',
+    maxLength: 32,
+  },
+};
+
+/**
+ * Schema for requests that only need a TOTP code
+ */
+export const mfaCodeSchema: ValidationSchema = {
+  code: {
+    required: true,
+    type: 'string',
+    pattern: /^\s*\d{3}\s?\d{3}\s*$/,
+    errorMessage: 'Code must be a 6-digit number',
+  },
+};
+
+/**
+ * Schema for disabling MFA
+ */
+export const mfaDisableSchema: ValidationSchema = {
+  password: {
+    required: true,
+    type: 'string',
+  },
+  code: {
+    required: true,
+    type: 'string',
+    maxLength: 32,
+  },
+};
+
+/**
+ * Schema for requesting a password reset email
+ */
+export const forgotPasswordSchema: ValidationSchema = {
+  email: {
+    required: true,
+    type: 'string',
+    custom: (value) => validateEmail(value as string),
+  },
+};
+
+/**
+ * Schema for setting a new password with a reset token
+ */
+export const resetPasswordSchema: ValidationSchema = {
+  token: {
+    required: true,
+    type: 'string',
+    maxLength: 2048,
+  },
+  newPassword: {
+    required: true,
+    type: 'string',
+    custom: (value) => validatePasswordStrength(value as string),
+  },
+};
+
+/**
+ * Schema for confirming an email address
+ */
+export const verifyEmailSchema: ValidationSchema = {
+  token: {
+    required: true,
+    type: 'string',
+    maxLength: 2048,
+  },
+};
+
+/**
+ * Schema for creating a personal access token
+ */
+export const createPersonalAccessTokenSchema: ValidationSchema = {
+  name: {
+    required: true,
+    type: 'string',
+    minLength: 1,
+    maxLength: 100,
+  },
+  scopes: {
+    required: true,
+    type: 'array',
+    custom: (value) =>
+      (value as unknown[]).length > 0
+        ? { valid: true }
+        : { valid: false, error: 'At least one scope is required' },
+  },
+  expiresInDays: {
+    required: false,
+    type: 'number',
+  },
+};
+
+/**
+ * Schema for starting a data key rotation
+ */
+export const startKeyRotationSchema: ValidationSchema = {
+  dryRun: {
+    required: false,
+    type: 'boolean',
+  },
 };
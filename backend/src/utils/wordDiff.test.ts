@@ -0,0 +1,47 @@
+import { diffWords } from './wordDiff.js';
+import { DiffPart } from '../types/index.js';
+
+describe('Word Diff', () => {
+  const join = (parts: DiffPart[], side: 'before' | 'after') =>
+    parts
+      .filter((part) => part.type === 'equal' || part.type === (side === 'before' ? 'delete' : 'insert'))
+      .map((part) => part.text)
+      .join('');
+
+  it('should report identical texts as unchanged', () => {
+    expect(diffWords('Slept well today', 'Slept well today')).toEqual([
+      { type: 'equal', text: 'Slept well today' },
+    ]);
+  });
+
+  it('should mark replaced words', () => {
+    expect(diffWords('Slept badly today', 'Slept well today')).toEqual([
+      { type: 'equal', text: 'Slept ' },
+      { type: 'delete', text: 'badly' },
+      { type: 'insert', text: 'well' },
+      { type: 'equal', text: ' today' },
+    ]);
+  });
+
+  it('should mark inserted and deleted words', () => {
+    const parts = diffWords('A long walk by the river', 'A walk by the quiet river');
+
+    expect(parts).toContainEqual({ type: 'delete', text: 'long ' });
+    expect(parts).toContainEqual({ type: 'insert', text: ' quiet' });
+  });
+
+  it('should reconstruct both texts', () => {
+    const before = 'First line.\nSecond line with   spacing.\n';
+    const after = 'First line, edited.\nSecond line.\nThird line.';
+    const parts = diffWords(before, after);
+
+    expect(join(parts, 'before')).toBe(before);
+    expect(join(parts, 'after')).toBe(after);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', 'New entry')).toEqual([{ type: 'insert', text: 'New entry' }]);
+    expect(diffWords('Old entry', '')).toEqual([{ type: 'delete', text: 'Old entry' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { DiffPart } from '../types/index.js';
+
+/**
+ * Word Diff
+ * Compares two texts word by word, for showing what an edit changed
+ */
+
+// Above this many word pairs the changed middle is shown as replaced outright, to bound memory
+const MAX_TABLE_SIZE = 4_000_000;
+
+/**
+ * Split text into words and the whitespace between them, so joining the tokens restores it
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+/**
+ * Append a part, merging it into the previous one when they have the same type
+ */
+function push(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else if (text) {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Diff the tokens between a common prefix and suffix by longest common subsequence
+ */
+function diffMiddle(before: string[], after: string[], parts: DiffPart[]): void {
+  const rows = before.length;
+  const cols = after.length;
+
+  if (rows * cols > MAX_TABLE_SIZE) {
+    push(parts, 'delete', before.join(''));
+    push(parts, 'insert', after.join(''));
+    return;
+  }
+
+  // lengths[i * (cols + 1) + j] is the LCS length of before[i:] and after[j:]
+  const width = cols + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * width + j] = before[i] === after[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      push(parts, 'equal', before[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push(parts, 'delete', before[i++]);
+    } else {
+      push(parts, 'insert', after[j++]);
+    }
+  }
+  push(parts, 'delete', before.slice(i).join(''));
+  push(parts, 'insert', after.slice(j).join(''));
+}
+
+/**
+ * Compute the word-level changes from one text to another
+ * @param before - The earlier text
+ * @param after - The later text
+ * @returns Consecutive runs of unchanged, inserted and deleted text; joining the equal and
+ * delete parts gives the earlier text, and the equal and insert parts the later one
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const beforeTokens = tokenize(before);
+  const afterTokens = tokenize(after);
+
+  let start = 0;
+  while (
+    start < beforeTokens.length &&
+    start < afterTokens.length &&
+    beforeTokens[start] === afterTokens[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < beforeTokens.length - start &&
+    end < afterTokens.length - start &&
+    beforeTokens[beforeTokens.length - 1 - end] === afterTokens[afterTokens.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', beforeTokens.slice(0, start).join(''));
+  diffMiddle(
+    beforeTokens.slice(start, beforeTokens.length - end),
+    afterTokens.slice(start, afterTokens.length - end),
+    parts
+  );
+  push(parts, 'equal', beforeTokens.slice(beforeTokens.length - end).join(''));
+
+  return parts;
+}
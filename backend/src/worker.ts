@@ -3,11 +3,26 @@ import { analysisQueueName, connection } from './queues/analysisQueue.js';
 import logger from './utils/logger.js';
 import { generateInsightFromEntry } from './utils/insights.js';
 import InsightRepository from './repositories/InsightRepository.js';
+import UserRepository from './repositories/UserRepository.js';
+import { keyRotationQueueName, KeyRotationJob } from './queues/keyRotationQueue.js';
+import KeyRotationService from './services/KeyRotationService.js';
+import { trashPurgeQueueName, scheduleTrashPurge } from './queues/trashPurgeQueue.js';
+import EntryService from './services/EntryService.js';
+import { importQueueName, ImportJob, IMPORT_ATTEMPTS } from './queues/importQueue.js';
+import ImportService from './services/ImportService.js';
 
 const worker = new Worker(
   analysisQueueName,
   async (job) => {
     const { entryId, userId, title } = job.data;
+
+    // The account was deleted after this job was queued; drop the plaintext it still holds
+    if (!(await UserRepository.findById(userId))) {
+      logger.info('Skipping entry analysis for deleted user', { entryId, userId });
+      await job.updateData({ ...job.data, title: '', content: '' });
+      return;
+    }
+
     logger.info('Processing entry analysis job', { entryId, userId, title });
 
     const insight = generateInsightFromEntry(job.data.content);
@@ -29,3 +44,69 @@ worker.on('failed', (job, err) => {
 worker.on('completed', (job) => {
   logger.info('Entry analysis job completed', { jobId: job.id, entryId: job.data.entryId });
 });
+
+const keyRotationWorker = new Worker<KeyRotationJob>(
+  keyRotationQueueName,
+  async (job) => {
+    const { rotationId } = job.data;
+    await KeyRotationService.runRotation(rotationId, (progress) => job.updateProgress(progress.percentComplete));
+  },
+  { connection }
+);
+
+keyRotationWorker.on('failed', (job, err) => {
+  logger.error('Key rotation job failed', {
+    jobId: job?.id,
+    rotationId: job?.data?.rotationId,
+    attempt: job?.attemptsMade,
+    error: err.message,
+  });
+});
+
+const importWorker = new Worker<ImportJob>(
+  importQueueName,
+  async (job) => {
+    const { importId } = job.data;
+    await ImportService.runImport(importId, (progress) => job.updateProgress(progress.percentComplete));
+  },
+  { connection }
+);
+
+importWorker.on('failed', (job, err) => {
+  logger.error('Entry import job failed', {
+    jobId: job?.id,
+    importId: job?.data?.importId,
+    attempt: job?.attemptsMade,
+    error: err.message,
+  });
+
+  // The uploaded file is only kept for the retries
+  if (job && job.attemptsMade >= IMPORT_ATTEMPTS) {
+    ImportService.discardUpload(job.data.importId).catch((discardErr) => {
+      logger.error('Failed to delete import file', {
+        importId: job.data.importId,
+        error: discardErr instanceof Error ? discardErr.message : String(discardErr),
+      });
+    });
+  }
+});
+
+const trashPurgeWorker = new Worker(
+  trashPurgeQueueName,
+  async () => {
+    const purged = await EntryService.purgeExpiredTrash();
+    return { purged };
+  },
+  { connection }
+);
+
+trashPurgeWorker.on('failed', (job, err) => {
+  logger.error('Trash purge job failed', {
+    jobId: job?.id,
+    error: err.message,
+  });
+});
+
+scheduleTrashPurge().catch((err) => {
+  logger.error('Failed to schedule trash purge', { error: err instanceof Error ? err.message : String(err) });
+});
@@ -13,12 +13,17 @@ import { ErrorBoundary } from "@/components/common/ErrorBoundary";
 import Landing from "./pages/Landing";
 import Register from "./pages/Register";
 import Login from "./pages/Login";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
 import UserDashboard from "./pages/UserDashboard";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import MedicalDashboard from "./pages/medical/MedicalDashboard";
 import NewEntry from "./pages/NewEntry";
 import Entries from "./pages/Entries";
 import EntryDetail from "./pages/EntryDetail";
+import Trash from "./pages/Trash";
+import Tags from "./pages/Tags";
 import Profile from "./pages/Profile";
 import About from "./pages/About";
 import Contact from "./pages/Contact";
@@ -45,6 +50,9 @@ const App = () => (
                   <Route path="/" element={<Landing />} />
                   <Route path="/register" element={<Register />} />
                   <Route path="/login" element={<Login />} />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
+                  <Route path="/verify-email" element={<VerifyEmail />} />
                   <Route path="/about" element={<About />} />
                   <Route path="/contact" element={<Contact />} />
                   <Route path="/privacy-terms" element={<PrivacyTerms />} />
@@ -104,6 +112,22 @@ const App = () => (
                       </ProtectedRoute>
                     }
                   />
+                  <Route
+                    path="/entries/trash"
+                    element={
+                      <ProtectedRoute>
+                        <Trash />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/entries/tags"
+                    element={
+                      <ProtectedRoute>
+                        <Tags />
+                      </ProtectedRoute>
+                    }
+                  />
                   <Route
                     path="/entries/:id"
                     element={
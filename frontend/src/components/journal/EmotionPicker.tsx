@@ -0,0 +1,132 @@
+import { Link } from 'react-router-dom';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Slider } from '@/components/ui/slider';
+import { useMoods } from '@/hooks/useMoods';
+import { useCustomMoods } from '@/hooks/useCustomMoods';
+import { EntryEmotion } from '@/hooks/useEntries';
+
+// How many emotions one entry can have
+const MAX_EMOTIONS = 5;
+
+interface EmotionPickerProps {
+  value: EntryEmotion[];
+  onChange: (emotions: EntryEmotion[]) => void;
+}
+
+interface EmotionOption {
+  key: string;
+  label: string;
+  emoji: string;
+  // The emotion as first picked, at its base mood's usual intensity
+  emotion: EntryEmotion;
+}
+
+function keyOf(emotion: EntryEmotion): string {
+  return emotion.customMoodId ? `custom:${emotion.customMoodId}` : emotion.mood;
+}
+
+export function EmotionPicker({ value, onChange }: EmotionPickerProps) {
+  const { moods, getMood } = useMoods();
+  const { customMoods, describeEmotion } = useCustomMoods();
+
+  const options: EmotionOption[] = [
+    ...moods.map((mood) => ({
+      key: mood.id,
+      label: mood.label,
+      emoji: mood.emoji,
+      emotion: { mood: mood.id, customMoodId: null, intensity: mood.intensity },
+    })),
+    ...customMoods.map((custom) => {
+      const base = getMood(custom.baseMood);
+      return {
+        key: `custom:${custom.id}`,
+        label: custom.label,
+        emoji: custom.emoji ?? base?.emoji ?? '',
+        emotion: { mood: custom.baseMood, customMoodId: custom.id, intensity: base?.intensity ?? 0.5 },
+      };
+    }),
+  ];
+
+  const selected = value.map(keyOf);
+
+  const handleToggle = (keys: string[]) => {
+    if (keys.length > MAX_EMOTIONS) return;
+    onChange(
+      keys
+        .map((key) => value.find((emotion) => keyOf(emotion) === key) ?? options.find((o) => o.key === key)?.emotion)
+        .filter((emotion): emotion is EntryEmotion => emotion !== undefined)
+    );
+  };
+
+  const setIntensity = (key: string, intensity: number) => {
+    onChange(value.map((emotion) => (keyOf(emotion) === key ? { ...emotion, intensity } : emotion)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        className="flex-wrap justify-start"
+        value={selected}
+        onValueChange={handleToggle}
+        aria-label="Emotions"
+      >
+        {options.map((option) => (
+          <ToggleGroupItem
+            key={option.key}
+            value={option.key}
+            aria-label={option.label}
+            disabled={selected.length >= MAX_EMOTIONS && !selected.includes(option.key)}
+          >
+            <span className="mr-1" aria-hidden="true">
+              {option.emoji}
+            </span>
+            {option.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {value.length > 0 && (
+        <div className="space-y-3">
+          {value.map((emotion) => {
+            const key = keyOf(emotion);
+            const display = describeEmotion(emotion);
+            return (
+              <div key={key} className="grid grid-cols-[8rem_1fr_3rem] items-center gap-3">
+                <span className="truncate text-sm">
+                  {display?.emoji} {display?.label ?? emotion.mood}
+                </span>
+                <Slider
+                  value={[Math.round(emotion.intensity * 100)]}
+                  onValueChange={([percent]) => setIntensity(key, percent / 100)}
+                  min={0}
+                  max={100}
+                  step={5}
+                  aria-label={`How strongly you felt ${display?.label ?? emotion.mood}`}
+                />
+                <span className="text-right text-xs text-muted-foreground">
+                  {Math.round(emotion.intensity * 100)}%
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Pick up to {MAX_EMOTIONS} and set how strongly you felt each.{' '}
+        {customMoods.length === 0 && (
+          <>
+            You can name your own moods in your{' '}
+            <Link to="/profile" className="underline">
+              profile
+            </Link>
+            .
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, FileAudio, FileText, Image as ImageIcon, Paperclip, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useAttachments,
+  formatFileSize,
+  ATTACHMENT_ACCEPT,
+  EntryAttachment,
+  MAX_ATTACHMENTS_PER_ENTRY,
+} from '@/hooks/useAttachments';
+
+interface EntryAttachmentsProps {
+  entryId: string;
+}
+
+function FileIcon({ contentType }: { contentType: string }) {
+  const className = 'h-6 w-6 text-muted-foreground';
+  if (contentType.startsWith('image/')) return <ImageIcon className={className} />;
+  if (contentType.startsWith('audio/')) return <FileAudio className={className} />;
+  return <FileText className={className} />;
+}
+
+function Thumbnail({
+  attachment,
+  load,
+}: {
+  attachment: EntryAttachment;
+  load: (attachment: EntryAttachment) => Promise<string>;
+}) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: string | null = null;
+    load(attachment)
+      .then((objectUrl) => {
+        loaded = objectUrl;
+        if (cancelled) {
+          window.URL.revokeObjectURL(objectUrl);
+        } else {
+          setUrl(objectUrl);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+      if (loaded) window.URL.revokeObjectURL(loaded);
+    };
+  }, [attachment, load]);
+
+  return url ? (
+    <img src={url} alt={attachment.fileName} className="h-12 w-12 rounded-md object-cover" />
+  ) : (
+    <div className="flex h-12 w-12 items-center justify-center rounded-md bg-muted">
+      <FileIcon contentType={attachment.contentType} />
+    </div>
+  );
+}
+
+export function EntryAttachments({ entryId }: EntryAttachmentsProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { attachments, isLoading, uploadAttachment, deleteAttachment, getThumbnailUrl, downloadAttachment } =
+    useAttachments(entryId);
+  const { toast } = useToast();
+
+  const handleUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      await uploadAttachment(file);
+      toast({ title: 'File attached', description: file.name });
+    } catch (err) {
+      toast({
+        title: 'Failed to attach file',
+        description: (err as Error).message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleDownload = async (attachment: EntryAttachment) => {
+    try {
+      await downloadAttachment(attachment);
+    } catch (err) {
+      toast({
+        title: 'Failed to download file',
+        description: (err as Error).message || 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (attachment: EntryAttachment) => {
+    setDeletingId(attachment.id);
+    try {
+      await deleteAttachment(attachment.id);
+      toast({ title: 'File removed', description: attachment.fileName });
+    } catch (err) {
+      toast({
+        title: 'Failed to remove file',
+        description: (err as Error).message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const isFull = attachments.length >= MAX_ATTACHMENTS_PER_ENTRY;
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Paperclip className="h-5 w-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Attachments</h2>
+        </div>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          className="hidden"
+          onChange={(event) => handleUpload(event.target.files)}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading || isFull}
+          title={isFull ? `An entry can have at most ${MAX_ATTACHMENTS_PER_ENTRY} files` : undefined}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {isUploading ? 'Uploading...' : 'Attach file'}
+        </Button>
+      </div>
+
+      {isLoading && attachments.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Attach photos, PDFs or voice memos. Files are encrypted before they are stored.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-3 rounded-md border p-2">
+              {attachment.hasThumbnail ? (
+                <Thumbnail attachment={attachment} load={getThumbnailUrl} />
+              ) : (
+                <div className="flex h-12 w-12 items-center justify-center rounded-md bg-muted">
+                  <FileIcon contentType={attachment.contentType} />
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-foreground">{attachment.fileName}</p>
+                <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDownload(attachment)}
+                aria-label={`Download ${attachment.fileName}`}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(attachment)}
+                disabled={deletingId === attachment.id}
+                aria-label={`Remove ${attachment.fileName}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,432 @@
+import { ReactNode, useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Check, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { EmotionPicker } from '@/components/journal/EmotionPicker';
+import { TagInput } from '@/components/journal/TagInput';
+import { TemplateFields } from '@/components/journal/TemplateFields';
+import { PromptLibrary } from '@/components/journal/PromptLibrary';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useTags } from '@/hooks/useTags';
+import { useTemplates, emptyFields, fieldsToText, hasFieldValues } from '@/hooks/useTemplates';
+import { ApiError, isPreconditionFailed } from '@/lib/apiClient';
+import { useEntries, EntryEmotion, EntryField, EntryFieldValue, JournalEntry } from '@/hooks/useEntries';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+// How long typing has to pause before a draft is saved
+const AUTOSAVE_DELAY_MS = 1500;
+
+type DraftState = 'idle' | 'saving' | 'saved' | 'error';
+
+// The template picker's value for an entry without a template
+const BLANK = 'blank';
+
+interface EntryForm {
+  title: string;
+  content: string;
+  emotions: EntryEmotion[];
+  tags: string[];
+  templateId: string | null;
+  // The answers to the template's sections
+  fields: EntryField[];
+}
+
+interface EntryEditorProps {
+  // The entry to edit; leave out to write a new one
+  entry?: JournalEntry;
+  onSaved: (entry: JournalEntry) => void;
+  // Called after each autosave, so the page can keep its copy of a draft current
+  onDraftSaved?: (entry: JournalEntry) => void;
+  onCancel?: () => void;
+  // Extra buttons shown next to Save, given the text being written
+  renderActions?: (content: string) => ReactNode;
+}
+
+function formFrom(entry?: JournalEntry | null): EntryForm {
+  return {
+    title: entry?.title ?? '',
+    content: entry?.content ?? '',
+    emotions: entry?.emotions ?? [],
+    tags: entry?.tags ?? [],
+    templateId: entry?.templateId ?? null,
+    fields: entry?.fields ?? [],
+  };
+}
+
+/**
+ * A comparable copy of the form, to tell whether it changed since the last save
+ */
+function snapshot(form: EntryForm): string {
+  return JSON.stringify(form);
+}
+
+/**
+ * Whether anything was written, in the content or a section of the template
+ */
+function hasWriting(form: EntryForm): boolean {
+  return form.content.trim().length > 0 || hasFieldValues(form.fields);
+}
+
+/**
+ * An untitled entry is titled with its first line, or the first answer to its template
+ */
+function titleOf(form: EntryForm, templateName = ''): string {
+  const answer = form.fields.map((field) => field.value).find((value) => typeof value === 'string' && value.trim());
+  const firstLine = (form.content.trim() || String(answer ?? '')).split('\n')[0].substring(0, 100);
+  return form.title.trim() || firstLine || templateName;
+}
+
+/**
+ * The entry as sent to the server; the template is only sent when the entry is created
+ */
+function payloadOf(form: EntryForm, templateName?: string) {
+  const values: Record<string, EntryFieldValue> = Object.fromEntries(
+    form.fields.map((field) => [field.key, field.value])
+  );
+  return {
+    title: titleOf(form, templateName),
+    content: form.content,
+    emotions: form.emotions,
+    tags: form.tags,
+    ...(form.fields.length > 0 && { fields: values }),
+  };
+}
+
+/**
+ * The text written, with the answers to the template's sections first
+ */
+function textOf(form: EntryForm): string {
+  return [fieldsToText(form.fields), form.content.trim()].filter(Boolean).join('\n\n');
+}
+
+export function EntryEditor({ entry, onSaved, onDraftSaved, onCancel, renderActions }: EntryEditorProps) {
+  const [form, setForm] = useState<EntryForm>(() => formFrom(entry));
+  const [saved, setSaved] = useState<JournalEntry | null>(entry ?? null);
+  const [draftState, setDraftState] = useState<DraftState>('idle');
+  const [conflict, setConflict] = useState<JournalEntry | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { createEntry, updateEntry } = useEntries();
+  const { tags: knownTags } = useTags();
+  const { templates } = useTemplates();
+  const { toast } = useToast();
+
+  // Refs let the debounced save and the unmount flush see the latest values
+  const formRef = useRef(form);
+  const savedRef = useRef(saved);
+  const lastSavedRef = useRef(snapshot(form));
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const mountedRef = useRef(true);
+  const onDraftSavedRef = useRef(onDraftSaved);
+
+  formRef.current = form;
+  savedRef.current = saved;
+  onDraftSavedRef.current = onDraftSaved;
+
+  // Published entries are only saved when the user asks, so they don't collect a revision per keystroke
+  const autosaves = !saved || saved.status === 'DRAFT';
+  const isDirty = snapshot(form) !== lastSavedRef.current;
+  const template = templates.find((item) => item.id === form.templateId);
+  const templateNameRef = useRef(template?.name);
+  templateNameRef.current = template?.name;
+
+  const update = (changes: Partial<EntryForm>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  /**
+   * Record what the server has, and the form as it was when that was saved
+   */
+  const remember = useCallback((latest: JournalEntry, savedForm: EntryForm) => {
+    savedRef.current = latest;
+    lastSavedRef.current = snapshot(savedForm);
+    if (mountedRef.current) setSaved(latest);
+  }, []);
+
+  /**
+   * Open the conflict warning if a save failed because the entry was changed elsewhere
+   * @returns Whether it did
+   */
+  const showConflict = useCallback((err: unknown): boolean => {
+    if (!isPreconditionFailed<JournalEntry>(err)) return false;
+    if (mountedRef.current) setConflict(err.current);
+    return true;
+  }, []);
+
+  /**
+   * Save the form as a draft, creating it on the first save
+   * Saves run one after another so a slow request can't overwrite a newer one
+   */
+  const saveDraft = useCallback((): Promise<void> => {
+    queueRef.current = queueRef.current.then(async () => {
+      const draftForm = formRef.current;
+      if (!hasWriting(draftForm) || snapshot(draftForm) === lastSavedRef.current) return;
+
+      if (mountedRef.current) setDraftState('saving');
+      try {
+        const current = savedRef.current;
+        const fields = payloadOf(draftForm, templateNameRef.current);
+        const draft = current
+          ? await updateEntry(current.id, fields, current.version)
+          : await createEntry({ ...fields, templateId: draftForm.templateId ?? undefined, status: 'DRAFT' });
+
+        remember(draft, draftForm);
+        onDraftSavedRef.current?.(draft);
+        if (mountedRef.current) setDraftState('saved');
+      } catch (err) {
+        if (mountedRef.current) setDraftState(showConflict(err) ? 'idle' : 'error');
+      }
+    });
+    return queueRef.current;
+  }, [createEntry, updateEntry, showConflict, remember]);
+
+  useEffect(() => {
+    if (!autosaves || conflict || !hasWriting(form) || !isDirty) return;
+
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      saveDraft();
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+    };
+  }, [form, isDirty, autosaves, conflict, saveDraft]);
+
+  // Save what was written since the last autosave when leaving the page
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      const current = savedRef.current;
+      if (!current || current.status === 'DRAFT') saveDraft();
+    };
+  }, [saveDraft]);
+
+  const handleSave = async () => {
+    if (!hasWriting(form)) {
+      toast({
+        title: 'Entry is empty',
+        description: 'Please write something before saving.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    setIsSaving(true);
+    try {
+      // Let an autosave that is already running finish first
+      await queueRef.current;
+
+      const current = savedRef.current;
+      const fields = payloadOf(form, template?.name);
+      const result = current
+        ? await updateEntry(
+            current.id,
+            current.status === 'DRAFT' ? { ...fields, status: 'PUBLISHED' } : fields,
+            current.version
+          )
+        : await createEntry({ ...fields, templateId: form.templateId ?? undefined });
+
+      remember(result, form);
+      onSaved(result);
+    } catch (err) {
+      if (showConflict(err)) return;
+      toast({
+        title: 'Failed to save entry',
+        description: (err as ApiError).message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      if (mountedRef.current) setIsSaving(false);
+    }
+  };
+
+  // Switching templates keeps the notes written so far
+  const chooseTemplate = (id: string) => {
+    const chosen = templates.find((item) => item.id === id);
+    update({ templateId: chosen?.id ?? null, fields: chosen ? emptyFields(chosen) : [] });
+  };
+
+  const insertPrompt = (prompt: string) => {
+    update({ content: form.content.trim() ? `${form.content.trimEnd()}\n\n${prompt}\n` : `${prompt}\n` });
+  };
+
+  // Overwrite the other device's changes with the next save
+  const keepMine = () => {
+    if (!conflict) return;
+    remember(conflict, formFrom(conflict));
+    setConflict(null);
+  };
+
+  const loadTheirs = () => {
+    if (!conflict) return;
+    const theirs = formFrom(conflict);
+    remember(conflict, theirs);
+    setForm(theirs);
+    setDraftState('idle');
+    setConflict(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="space-y-4 p-6">
+        <Input
+          value={form.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder="Title (optional)"
+          maxLength={255}
+          className="border-0 px-3 text-lg font-semibold shadow-none focus-visible:ring-0"
+          aria-label="Title"
+        />
+        {/* The template can only be chosen until the entry is first saved */}
+        {!saved && templates.length > 0 && (
+          <div className="space-y-1 px-3">
+            <Label htmlFor="entry-template">Template</Label>
+            <Select value={form.templateId ?? BLANK} onValueChange={chooseTemplate}>
+              <SelectTrigger id="entry-template" className="sm:max-w-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BLANK}>Blank entry</SelectItem>
+                {templates.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {template?.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+          </div>
+        )}
+        {form.fields.length > 0 && (
+          <div className="px-3">
+            <TemplateFields
+              fields={form.fields}
+              onChange={(fields) => update({ fields })}
+              sections={template?.sections}
+            />
+          </div>
+        )}
+        {form.fields.length > 0 ? (
+          <div className="space-y-1 px-3">
+            <Label htmlFor="entry-content">Notes</Label>
+            <Textarea
+              id="entry-content"
+              value={form.content}
+              onChange={(e) => update({ content: e.target.value })}
+              placeholder="Anything else on your mind? (optional)"
+              className="min-h-[120px]"
+            />
+          </div>
+        ) : (
+          <Textarea
+            value={form.content}
+            onChange={(e) => update({ content: e.target.value })}
+            placeholder="How are you feeling? What's on your mind today?"
+            className="min-h-[300px] resize-none border-0 text-base focus-visible:ring-0"
+            autoFocus
+          />
+        )}
+        {autosaves && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground" aria-live="polite">
+            {draftState === 'saving' && 'Saving draft...'}
+            {draftState === 'saved' && (
+              <>
+                <Check className="h-3 w-3" />
+                Draft saved
+              </>
+            )}
+            {draftState === 'error' && "Couldn't save the draft. It will be retried as you keep writing."}
+          </p>
+        )}
+      </Card>
+
+      {/* Prompts help with a blank page; a template already asks its own questions */}
+      {!entry && form.fields.length === 0 && (
+        <Card className="p-6">
+          <PromptLibrary onUse={insertPrompt} />
+        </Card>
+      )}
+
+      <Card className="space-y-4 p-6">
+        <div className="space-y-2">
+          <Label>How are you feeling?</Label>
+          <EmotionPicker value={form.emotions} onChange={(emotions) => update({ emotions })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="entry-tags">Tags</Label>
+          <TagInput
+            id="entry-tags"
+            value={form.tags}
+            onChange={(tags) => update({ tags })}
+            suggestions={knownTags}
+          />
+        </div>
+      </Card>
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        {renderActions?.(textOf(form))}
+
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} disabled={isSaving} className="flex-1">
+            Cancel
+          </Button>
+        )}
+
+        <Button onClick={handleSave} disabled={isSaving || !hasWriting(form)} className="flex-1">
+          {isSaving ? (
+            <>
+              <LoadingSpinner size="sm" />
+              <span className="ml-2">Saving...</span>
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" />
+              {autosaves ? 'Save Entry' : 'Save Changes'}
+            </>
+          )}
+        </Button>
+      </div>
+
+      <AlertDialog open={conflict !== null}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Changed on another device
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This entry was changed somewhere else
+              {conflict && ` on ${new Date(conflict.updatedAt).toLocaleString()}`} while you were
+              editing it. Keep your version to overwrite those changes, or load theirs to continue from
+              it. Your unsaved text is discarded if you load theirs.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={loadTheirs}>Load their version</AlertDialogCancel>
+            <AlertDialogAction onClick={keepMine}>Keep my version</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { EntryField } from '@/hooks/useEntries';
+import { RATING_MAX, hasFieldValues } from '@/hooks/useTemplates';
+
+interface EntryFieldsProps {
+  fields: EntryField[];
+}
+
+/**
+ * An entry's answers to its template's sections, each under its label
+ * Sections left empty are not shown
+ */
+export function EntryFields({ fields }: EntryFieldsProps) {
+  const filled = fields.filter((field) => hasFieldValues([field]));
+  if (filled.length === 0) return null;
+
+  return (
+    <dl className="space-y-5">
+      {filled.map((field) => (
+        <div key={field.key}>
+          <dt className="mb-1 text-sm font-semibold uppercase tracking-wide text-muted-foreground">{field.label}</dt>
+          <dd className="text-lg leading-relaxed text-foreground">
+            {Array.isArray(field.value) ? (
+              <ul className="list-disc space-y-1 pl-6">
+                {field.value
+                  .filter((item) => item.trim())
+                  .map((item, index) => (
+                    <li key={index}>{item}</li>
+                  ))}
+              </ul>
+            ) : field.type === 'rating' ? (
+              <div className="flex items-center gap-3">
+                <div className="h-2 w-40 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full rounded-full bg-primary"
+                    style={{ width: `${(Number(field.value) / RATING_MAX) * 100}%` }}
+                  />
+                </div>
+                <span>
+                  {field.value} / {RATING_MAX}
+                </span>
+              </div>
+            ) : (
+              <p className="whitespace-pre-wrap">{field.value}</p>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { EntryFilters, hasActiveFilters } from '@/hooks/useEntries';
+import { useMoods } from '@/hooks/useMoods';
+
+interface EntryFilterBarProps {
+  filters: EntryFilters;
+  onChange: (filters: EntryFilters) => void;
+}
+
+export function EntryFilterBar({ filters, onChange }: EntryFilterBarProps) {
+  // Tags are typed as comma-separated text, kept as typed so spaces can be entered
+  const [tagsText, setTagsText] = useState(filters.tags?.join(', ') ?? '');
+  const { moods } = useMoods();
+  const update = (changes: Partial<EntryFilters>) => onChange({ ...filters, ...changes });
+
+  useEffect(() => {
+    if (!filters.tags?.length) {
+      setTagsText((text) => (text.replace(/[\s,]/g, '') ? '' : text));
+    }
+  }, [filters.tags]);
+
+  const insightValue = filters.hasInsight === undefined ? 'any' : filters.hasInsight ? 'with' : 'without';
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border bg-card p-4">
+      <div className="space-y-2">
+        <Label>Mood</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start"
+          value={filters.moods ?? []}
+          onValueChange={(moods) => update({ moods })}
+        >
+          {moods.map((mood) => (
+            <ToggleGroupItem key={mood.id} value={mood.id}>
+              <span className="mr-1" aria-hidden="true">
+                {mood.emoji}
+              </span>
+              {mood.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="filter-tags">Tags</Label>
+          <div className="flex gap-2">
+            <Input
+              id="filter-tags"
+              placeholder="work, family"
+              value={tagsText}
+              onChange={(e) => {
+                setTagsText(e.target.value);
+                update({
+                  tags: e.target.value
+                    .split(',')
+                    .map((tag) => tag.trim())
+                    .filter((tag) => tag.length > 0),
+                });
+              }}
+            />
+            <Select
+              value={filters.tagMode ?? 'any'}
+              onValueChange={(tagMode) => update({ tagMode: tagMode as EntryFilters['tagMode'] })}
+            >
+              <SelectTrigger className="w-[90px]" aria-label="Tag match">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-from">From</Label>
+          <Input
+            id="filter-from"
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-to">To</Label>
+          <Input
+            id="filter-to"
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Insight</Label>
+          <Select
+            value={insightValue}
+            onValueChange={(value) =>
+              update({ hasInsight: value === 'any' ? undefined : value === 'with' })
+            }
+          >
+            <SelectTrigger aria-label="Insight">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="with">With insight</SelectItem>
+              <SelectItem value="without">Without insight</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="filter-theme">Insight theme</Label>
+          <Input
+            id="filter-theme"
+            placeholder="e.g. sleep"
+            value={filters.theme ?? ''}
+            onChange={(e) => update({ theme: e.target.value || undefined })}
+          />
+        </div>
+        <Button
+          variant="ghost"
+          onClick={() => onChange({})}
+          disabled={!hasActiveFilters(filters)}
+        >
+          <X className="mr-2 h-4 w-4" />
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  );
+}
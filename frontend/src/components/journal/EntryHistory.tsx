@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { ApiError } from '@/lib/apiClient';
+import {
+  useEntries,
+  DiffPart,
+  EntryRevision,
+  EntryRevisionDiff,
+  JournalEntry,
+} from '@/hooks/useEntries';
+
+interface EntryHistoryProps {
+  entry: JournalEntry;
+  onRestored: (entry: JournalEntry) => void;
+}
+
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.type === 'insert' ? (
+          <ins key={index} className="rounded-sm bg-green-500/20 text-foreground no-underline">
+            {part.text}
+          </ins>
+        ) : part.type === 'delete' ? (
+          <del key={index} className="rounded-sm bg-red-500/20 text-muted-foreground">
+            {part.text}
+          </del>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function EntryHistory({ entry, onRestored }: EntryHistoryProps) {
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<EntryRevisionDiff | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { getRevisions, getRevisionDiff, restoreRevision } = useEntries();
+  const { toast } = useToast();
+
+  // Reload whenever the entry changes, since every change adds a revision
+  useEffect(() => {
+    let cancelled = false;
+    setSelected(null);
+    getRevisions(entry.id)
+      .then((loaded) => !cancelled && setRevisions(loaded))
+      .catch(() => !cancelled && setRevisions([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.id, entry.updatedAt, getRevisions]);
+
+  useEffect(() => {
+    if (selected === null) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    getRevisionDiff(entry.id, selected)
+      .then((loaded) => !cancelled && setDiff(loaded))
+      .catch((err) => {
+        if (cancelled) return;
+        toast({
+          title: 'Failed to compare versions',
+          description: (err as ApiError).message || 'Please try again.',
+          variant: 'destructive',
+        });
+        setSelected(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.id, entry.updatedAt, selected, getRevisionDiff, toast]);
+
+  const handleRestore = async () => {
+    if (selected === null) return;
+
+    setIsRestoring(true);
+    try {
+      const restored = await restoreRevision(entry.id, selected);
+      toast({
+        title: 'Version restored',
+        description: `Revision ${selected} is now the current version. The version it replaced was kept in the history.`,
+      });
+      onRestored(restored);
+    } catch (err) {
+      toast({
+        title: 'Failed to restore version',
+        description: (err as ApiError).message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center gap-2">
+        <History className="h-5 w-5 text-muted-foreground" />
+        <h2 className="text-lg font-semibold text-foreground">History</h2>
+      </div>
+
+      {revisions === null ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This entry hasn't been edited yet.</p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-[200px_1fr]">
+          <ul className="space-y-1">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelected(revision.revision === selected ? null : revision.revision)}
+                  className={`w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-muted ${
+                    revision.revision === selected ? 'bg-muted font-medium' : ''
+                  }`}
+                >
+                  <span className="block">Revision {revision.revision}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {new Date(revision.savedAt).toLocaleString()}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="min-w-0">
+            {selected === null ? (
+              <p className="text-sm text-muted-foreground">
+                Select a revision to see what has changed since.
+              </p>
+            ) : !diff ? (
+              <div className="flex justify-center py-4">
+                <LoadingSpinner />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Changes from revision {diff.from} to the current version
+                </p>
+                <p className="font-semibold text-foreground">
+                  <DiffText parts={diff.title} />
+                </p>
+                <p className="whitespace-pre-wrap leading-relaxed text-foreground">
+                  <DiffText parts={diff.content} />
+                </p>
+                <Button variant="outline" size="sm" onClick={handleRestore} disabled={isRestoring}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  {isRestoring ? 'Restoring...' : `Restore revision ${diff.from}`}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,11 +1,16 @@
 import { Calendar, Sparkles } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { EntryField } from '@/hooks/useEntries';
+import { fieldsToText } from '@/hooks/useTemplates';
 
 interface JournalEntry {
   id: string;
   content: string;
+  fields?: EntryField[] | null;
   insight?: string;
+  status?: 'DRAFT' | 'PUBLISHED';
   createdAt: string;
 }
 
@@ -29,6 +34,7 @@ export function JournalEntryCard({ entry, onClick }: JournalEntryCardProps) {
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Calendar className="h-4 w-4" />
             <span>{formattedDate}</span>
+            {entry.status === 'DRAFT' && <Badge variant="secondary">Draft</Badge>}
           </div>
           {entry.insight && (
             <div className="rounded-full bg-accent/10 p-1">
@@ -37,7 +43,9 @@ export function JournalEntryCard({ entry, onClick }: JournalEntryCardProps) {
           )}
         </div>
         
-        <p className="mb-4 line-clamp-3 text-foreground">{entry.content}</p>
+        <p className="mb-4 line-clamp-3 whitespace-pre-line text-foreground">
+          {entry.content || fieldsToText(entry.fields)}
+        </p>
         
         <Button variant="ghost" size="sm" className="group-hover:text-primary">
           Read more →
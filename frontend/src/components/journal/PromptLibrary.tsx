@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { Lightbulb } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { usePrompts } from '@/hooks/usePrompts';
+
+interface PromptLibraryProps {
+  onUse: (prompt: string) => void;
+}
+
+/**
+ * Curated prompts to start writing from, by category
+ */
+export function PromptLibrary({ onUse }: PromptLibraryProps) {
+  const { categories, prompts } = usePrompts();
+  const [category, setCategory] = useState('');
+
+  const selected = category || categories[0]?.id;
+  const visible = prompts.filter((prompt) => prompt.category === selected);
+
+  if (categories.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <Lightbulb className="h-4 w-4 text-muted-foreground" />
+        Need a place to start?
+      </div>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        className="flex-wrap justify-start"
+        value={selected}
+        onValueChange={(value) => value && setCategory(value)}
+        aria-label="Prompt categories"
+      >
+        {categories.map((item) => (
+          <ToggleGroupItem key={item.id} value={item.id}>
+            {item.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <ul className="space-y-2">
+        {visible.map((prompt) => (
+          <li key={prompt.id} className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+            <span className="text-sm text-foreground">{prompt.text}</span>
+            <Button variant="ghost" size="sm" onClick={() => onUse(prompt.text)} className="shrink-0">
+              Use
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
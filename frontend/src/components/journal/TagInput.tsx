@@ -0,0 +1,99 @@
+import { KeyboardEvent, useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { TagCount, normalizeTag } from '@/hooks/useTags';
+
+// How many of the user's tags are suggested at once
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // The user's existing tags, most used first
+  suggestions: TagCount[];
+}
+
+export function TagInput({ id, value, onChange, suggestions }: TagInputProps) {
+  const [text, setText] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const query = text.trim().toLowerCase();
+  const matches = suggestions
+    .filter(({ tag }) => !value.includes(tag) && tag.toLowerCase().includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setText('');
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter((item) => item !== tag));
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(text);
+    } else if (e.key === 'Backspace' && !text && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-input px-3 py-2">
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="rounded-full hover:text-foreground"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          // Add what was typed when leaving the field
+          onBlur={() => {
+            setIsFocused(false);
+            if (text.trim()) addTag(text);
+          }}
+          placeholder={value.length === 0 ? 'Add tags' : ''}
+          className="h-7 min-w-[120px] flex-1 border-0 p-0 shadow-none focus-visible:ring-0"
+          autoComplete="off"
+        />
+      </div>
+
+      {isFocused && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover p-1 shadow-md">
+          {matches.map(({ tag, count }) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // Keep focus in the input so the list stays open
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className="flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-left text-sm hover:bg-muted"
+              >
+                <span>{tag}</span>
+                <span className="text-xs text-muted-foreground">{count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
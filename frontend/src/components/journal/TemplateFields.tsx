@@ -0,0 +1,83 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { EntryField, EntryFieldValue } from '@/hooks/useEntries';
+import { RATING_MAX, TemplateSection } from '@/hooks/useTemplates';
+
+interface TemplateFieldsProps {
+  fields: EntryField[];
+  onChange: (fields: EntryField[]) => void;
+  // The template's sections, for their prompts; entries keep their fields after the template is gone
+  sections?: TemplateSection[];
+}
+
+/**
+ * Answer a template's sections: text as free writing, lists one item per line and ratings on a slider
+ */
+export function TemplateFields({ fields, onChange, sections }: TemplateFieldsProps) {
+  const setValue = (key: string, value: EntryFieldValue) => {
+    onChange(fields.map((field) => (field.key === key ? { ...field, value } : field)));
+  };
+
+  return (
+    <div className="space-y-6">
+      {fields.map((field) => {
+        const id = `field-${field.key}`;
+        const prompt = sections?.find((section) => section.key === field.key)?.prompt;
+        return (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={id}>{field.label}</Label>
+            {prompt && <p className="text-sm text-muted-foreground">{prompt}</p>}
+
+            {field.type === 'text' && (
+              <Textarea
+                id={id}
+                value={typeof field.value === 'string' ? field.value : ''}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                className="min-h-[100px]"
+              />
+            )}
+
+            {field.type === 'list' && (
+              <>
+                <Textarea
+                  id={id}
+                  value={Array.isArray(field.value) ? field.value.join('\n') : ''}
+                  onChange={(e) => setValue(field.key, e.target.value ? e.target.value.split('\n') : null)}
+                  className="min-h-[100px]"
+                />
+                <p className="text-xs text-muted-foreground">One item per line.</p>
+              </>
+            )}
+
+            {field.type === 'rating' && (
+              <div className="grid grid-cols-[1fr_5rem_auto] items-center gap-3">
+                <Slider
+                  id={id}
+                  value={[typeof field.value === 'number' ? field.value : 0]}
+                  onValueChange={([value]) => setValue(field.key, value)}
+                  min={0}
+                  max={RATING_MAX}
+                  step={1}
+                  aria-label={field.label}
+                />
+                <span className="text-right text-sm text-muted-foreground">
+                  {typeof field.value === 'number' ? `${field.value} / ${RATING_MAX}` : 'Not rated'}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setValue(field.key, null)}
+                  disabled={field.value === null}
+                >
+                  Clear
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EntryFieldType } from '@/hooks/useEntries';
+import { CreateTemplateData, JournalTemplate, TemplateSectionInput } from '@/hooks/useTemplates';
+
+// Matches the server's limit
+const MAX_SECTIONS = 20;
+
+const SECTION_TYPES: { value: EntryFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'list', label: 'List' },
+  { value: 'rating', label: 'Rating (0–10)' },
+];
+
+interface TemplateFormProps {
+  // The template to edit; leave out to create one
+  template?: JournalTemplate;
+  isSaving: boolean;
+  onSubmit: (data: CreateTemplateData) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_SECTION: TemplateSectionInput = { label: '', type: 'text', prompt: '' };
+
+/**
+ * Create or edit a template's name, description and sections
+ */
+export function TemplateForm({ template, isSaving, onSubmit, onCancel }: TemplateFormProps) {
+  const [name, setName] = useState(template?.name ?? '');
+  const [description, setDescription] = useState(template?.description ?? '');
+  // Existing sections keep their keys, so new entries answer them under the same names
+  const [sections, setSections] = useState<TemplateSectionInput[]>(
+    template?.sections.map((section) => ({ ...section, prompt: section.prompt ?? '' })) ?? [EMPTY_SECTION]
+  );
+
+  const updateSection = (index: number, changes: Partial<TemplateSectionInput>) => {
+    setSections((prev) => prev.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    setSections((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const isValid = name.trim().length > 0 && sections.every((section) => section.label.trim());
+
+  const handleSubmit = () => {
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || null,
+      sections: sections.map(({ key, label, type, prompt }) => ({
+        ...(key && { key }),
+        label: label.trim(),
+        type,
+        ...(prompt?.trim() && { prompt: prompt.trim() }),
+      })),
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4">
+      <div>
+        <Label htmlFor="template-name">Name</Label>
+        <Input
+          id="template-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Morning pages"
+          maxLength={100}
+        />
+      </div>
+      <div>
+        <Label htmlFor="template-description">Description</Label>
+        <Textarea
+          id="template-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="What the template is for (optional)"
+          maxLength={500}
+          className="min-h-[60px]"
+        />
+      </div>
+
+      <div className="space-y-3">
+        <Label>Sections</Label>
+        {sections.map((section, index) => (
+          <div key={index} className="space-y-2 rounded-md bg-muted/40 p-3">
+            <div className="flex gap-2">
+              <Input
+                value={section.label}
+                onChange={(e) => updateSection(index, { label: e.target.value })}
+                placeholder="Question or heading"
+                maxLength={100}
+                aria-label={`Section ${index + 1} label`}
+              />
+              <Select
+                value={section.type}
+                onValueChange={(type) => updateSection(index, { type: type as EntryFieldType })}
+              >
+                <SelectTrigger className="w-40 shrink-0" aria-label={`Section ${index + 1} type`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SECTION_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={section.prompt ?? ''}
+                onChange={(e) => updateSection(index, { prompt: e.target.value })}
+                placeholder="A hint shown under the question (optional)"
+                maxLength={300}
+                aria-label={`Section ${index + 1} hint`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => moveSection(index, -1)}
+                disabled={index === 0}
+                aria-label="Move section up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => moveSection(index, 1)}
+                disabled={index === sections.length - 1}
+                aria-label="Move section down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSections((prev) => prev.filter((_, i) => i !== index))}
+                disabled={sections.length === 1}
+                aria-label="Remove section"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setSections((prev) => [...prev, EMPTY_SECTION])}
+          disabled={sections.length >= MAX_SECTIONS}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add section
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} disabled={isSaving || !isValid}>
+          {isSaving ? 'Saving...' : template ? 'Save template' : 'Create template'}
+        </Button>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
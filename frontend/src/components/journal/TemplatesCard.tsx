@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { LayoutTemplate, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { TemplateForm } from '@/components/journal/TemplateForm';
+import { useToast } from '@/hooks/use-toast';
+import { useTemplates, CreateTemplateData, JournalTemplate } from '@/hooks/useTemplates';
+
+interface TemplatesCardProps {
+  // Manage the global templates offered to every user instead of the user's own; admins only
+  global?: boolean;
+}
+
+function sectionsLabel(count: number): string {
+  return `${count} ${count === 1 ? 'section' : 'sections'}`;
+}
+
+/**
+ * Lists templates and lets the user create, edit and delete them
+ */
+export function TemplatesCard({ global = false }: TemplatesCardProps) {
+  const { toast } = useToast();
+  const {
+    templates,
+    isLoading,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    createGlobalTemplate,
+    updateGlobalTemplate,
+    deleteGlobalTemplate,
+  } = useTemplates();
+
+  // null while the form is closed, 'new' while creating, or the id of the template being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const managed = templates.filter((template) => (template.userId === null) === global);
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      title,
+      description: (err as { message?: string })?.message || 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const handleSubmit = async (data: CreateTemplateData) => {
+    try {
+      if (editing === 'new') {
+        await (global ? createGlobalTemplate(data) : createTemplate(data));
+      } else if (editing) {
+        await (global ? updateGlobalTemplate(editing, data) : updateTemplate(editing, data));
+      }
+      setEditing(null);
+    } catch (err) {
+      showError(editing === 'new' ? 'Failed to create template' : 'Failed to update template', err);
+    }
+  };
+
+  const handleDelete = async (template: JournalTemplate) => {
+    setDeletingId(template.id);
+    try {
+      await (global ? deleteGlobalTemplate(template.id) : deleteTemplate(template.id));
+      toast({
+        title: 'Template deleted',
+        description: `Entries written from "${template.name}" keep their answers.`,
+      });
+    } catch (err) {
+      showError('Failed to delete template', err);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <LayoutTemplate className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">{global ? 'Journal Templates' : 'Your Templates'}</h3>
+            <p className="text-sm text-muted-foreground">
+              {global
+                ? 'Templates offered to every user when they start an entry.'
+                : 'Questions you like to answer, ready to start an entry from.'}
+            </p>
+          </div>
+        </div>
+        {editing === null && (
+          <Button variant="outline" size="sm" onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            New template
+          </Button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <div className="mb-4">
+          <TemplateForm
+            template={managed.find((template) => template.id === editing)}
+            isSaving={isLoading}
+            onSubmit={handleSubmit}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {managed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {global ? 'There are no global templates.' : "You haven't made any templates of your own."}
+          </p>
+        ) : (
+          managed.map((template) => (
+            <div
+              key={template.id}
+              className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-foreground">{template.name}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {sectionsLabel(template.sections.length)}
+                  {template.description && ` · ${template.description}`}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditing(template.id)}
+                  aria-label={`Edit ${template.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(template)}
+                  disabled={deletingId === template.id}
+                  aria-label={`Delete ${template.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import { KeySquare, Copy, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  usePersonalAccessTokens,
+  PersonalAccessToken,
+  TokenScope,
+  TOKEN_SCOPES,
+} from '@/hooks/usePersonalAccessTokens';
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+/**
+ * Personal access token settings
+ * Creates scoped tokens for scripts and integrations and lists the active ones
+ */
+export function AccessTokensCard() {
+  const { toast } = useToast();
+  const { tokens, isLoading, fetchTokens, createToken, revokeToken } = usePersonalAccessTokens();
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(['entries:read']);
+  const [expiry, setExpiry] = useState('90');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [revokingTokenId, setRevokingTokenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTokens().catch(() => undefined);
+  }, [fetchTokens]);
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      title,
+      description: (err as { message?: string })?.message || 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const toggleScope = (scope: TokenScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName('');
+    setScopes(['entries:read']);
+    setExpiry('90');
+  };
+
+  const handleCreate = async () => {
+    try {
+      const created = await createToken({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiry === 'never' ? undefined : Number(expiry),
+      });
+      setNewToken(created.token);
+      resetForm();
+    } catch (err) {
+      showError('Failed to create token', err);
+    }
+  };
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    setRevokingTokenId(token.id);
+    try {
+      await revokeToken(token.id);
+      toast({
+        title: 'Token revoked',
+        description: `"${token.name}" no longer has access to your account.`,
+      });
+    } catch (err) {
+      showError('Failed to revoke token', err);
+    } finally {
+      setRevokingTokenId(null);
+    }
+  };
+
+  const handleCopyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast({ title: 'Token copied' });
+    } catch {
+      showError('Could not copy token', null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <KeySquare className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Access Tokens</h3>
+            <p className="text-sm text-muted-foreground">
+              Let scripts and other apps use your journal without your password.
+            </p>
+          </div>
+        </div>
+        {!isCreating && (
+          <Button variant="outline" size="sm" onClick={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New token
+          </Button>
+        )}
+      </div>
+
+      {newToken && (
+        <Alert className="mb-4">
+          <AlertDescription>
+            <p className="mb-3 text-sm">
+              Copy your new token now. It will not be shown again.
+            </p>
+            <p className="mb-3 break-all rounded bg-muted p-2 font-mono text-sm">{newToken}</p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopyToken}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setNewToken(null)}>
+                Done
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isCreating && (
+        <div className="mb-4 space-y-4 rounded-lg border border-border p-4">
+          <div>
+            <Label htmlFor="token-name">Name</Label>
+            <Input
+              id="token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Nightly backup"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Access</Label>
+            {TOKEN_SCOPES.map((scope) => (
+              <div key={scope.value} className="flex items-start gap-3">
+                <Checkbox
+                  id={`token-scope-${scope.value}`}
+                  checked={scopes.includes(scope.value)}
+                  onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                />
+                <div>
+                  <Label htmlFor={`token-scope-${scope.value}`} className="text-sm">
+                    {scope.label}
+                  </Label>
+                  <p className="text-xs text-muted-foreground">{scope.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div>
+            <Label htmlFor="token-expiry">Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="token-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleCreate} disabled={isLoading || !name.trim() || scopes.length === 0}>
+              {isLoading ? 'Creating...' : 'Create token'}
+            </Button>
+            <Button variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have no access tokens.</p>
+        ) : (
+          tokens.map((token) => (
+            <div
+              key={token.id}
+              className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+            >
+              <div>
+                <p className="text-sm font-medium text-foreground">
+                  {token.name}
+                  <span className="ml-2 font-mono text-xs font-normal text-muted-foreground">
+                    {token.tokenPrefix}…
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {token.scopes.join(', ')} ·{' '}
+                  {token.lastUsedAt
+                    ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                    : 'Never used'}
+                  {token.expiresAt && ` · Expires ${new Date(token.expiresAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRevoke(token)}
+                disabled={revokingTokenId === token.id}
+              >
+                {revokingTokenId === token.id ? 'Revoking...' : 'Revoke'}
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </Card>
+  );
+}
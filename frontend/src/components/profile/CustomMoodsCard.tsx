@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Pencil, Plus, Smile, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useMoods } from '@/hooks/useMoods';
+import { useCustomMoods, CustomMood } from '@/hooks/useCustomMoods';
+
+interface CustomMoodForm {
+  label: string;
+  emoji: string;
+  baseMood: string;
+  valence: number;
+}
+
+const EMPTY_FORM: CustomMoodForm = { label: '', emoji: '', baseMood: '', valence: 0 };
+
+/**
+ * Describe a valence in words for the slider
+ */
+function describeValence(valence: number): string {
+  if (valence >= 0.5) return 'Pleasant';
+  if (valence > 0.1) return 'Somewhat pleasant';
+  if (valence >= -0.1) return 'Neutral';
+  if (valence > -0.5) return 'Somewhat unpleasant';
+  return 'Unpleasant';
+}
+
+/**
+ * Custom mood settings
+ * Lets the user name their own moods, each counted as a base mood in charts and analytics
+ */
+export function CustomMoodsCard() {
+  const { toast } = useToast();
+  const { moods, getMood } = useMoods();
+  const { customMoods, isLoading, createCustomMood, updateCustomMood, deleteCustomMood } = useCustomMoods();
+
+  // null while the form is closed, 'new' while creating, or the id of the mood being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<CustomMoodForm>(EMPTY_FORM);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      title,
+      description: (err as { message?: string })?.message || 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const startCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditing('new');
+  };
+
+  const startEdit = (mood: CustomMood) => {
+    setForm({ label: mood.label, emoji: mood.emoji ?? '', baseMood: mood.baseMood, valence: mood.valence });
+    setEditing(mood.id);
+  };
+
+  const close = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  // A new mood starts out as pleasant as its base mood
+  const chooseBaseMood = (baseMood: string) => {
+    setForm((prev) => ({ ...prev, baseMood, valence: getMood(baseMood)?.valence ?? prev.valence }));
+  };
+
+  const handleSave = async () => {
+    const data = { label: form.label.trim(), emoji: form.emoji.trim() || null, valence: form.valence };
+    try {
+      if (editing === 'new') {
+        await createCustomMood({ ...data, baseMood: form.baseMood });
+      } else if (editing) {
+        await updateCustomMood(editing, data);
+      }
+      close();
+    } catch (err) {
+      showError(editing === 'new' ? 'Failed to create mood' : 'Failed to update mood', err);
+    }
+  };
+
+  const handleDelete = async (mood: CustomMood) => {
+    setDeletingId(mood.id);
+    try {
+      await deleteCustomMood(mood.id);
+      toast({
+        title: 'Mood deleted',
+        description: `Entries where you felt "${mood.label}" now show ${getMood(mood.baseMood)?.label ?? mood.baseMood}.`,
+      });
+    } catch (err) {
+      showError('Failed to delete mood', err);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Smile className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Your Moods</h3>
+            <p className="text-sm text-muted-foreground">
+              Name feelings in your own words. Each is counted as the mood it's closest to in your charts.
+            </p>
+          </div>
+        </div>
+        {editing === null && (
+          <Button variant="outline" size="sm" onClick={startCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New mood
+          </Button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <div className="mb-4 space-y-4 rounded-lg border border-border p-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_6rem]">
+            <div>
+              <Label htmlFor="custom-mood-label">Name</Label>
+              <Input
+                id="custom-mood-label"
+                value={form.label}
+                onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+                placeholder="e.g. Homesick"
+                maxLength={50}
+              />
+            </div>
+            <div>
+              <Label htmlFor="custom-mood-emoji">Emoji</Label>
+              <Input
+                id="custom-mood-emoji"
+                value={form.emoji}
+                onChange={(e) => setForm((prev) => ({ ...prev, emoji: e.target.value }))}
+                placeholder="🏠"
+                maxLength={16}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="custom-mood-base">Closest to</Label>
+            <Select value={form.baseMood} onValueChange={chooseBaseMood} disabled={editing !== 'new'}>
+              <SelectTrigger id="custom-mood-base">
+                <SelectValue placeholder="Choose a mood" />
+              </SelectTrigger>
+              <SelectContent>
+                {moods.map((mood) => (
+                  <SelectItem key={mood.id} value={mood.id}>
+                    {mood.emoji} {mood.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {editing !== 'new' && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                This can't be changed, since your entries have been counted as it.
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>How it feels</Label>
+              <span className="text-xs text-muted-foreground">{describeValence(form.valence)}</span>
+            </div>
+            <Slider
+              value={[Math.round(form.valence * 100)]}
+              onValueChange={([value]) => setForm((prev) => ({ ...prev, valence: value / 100 }))}
+              min={-100}
+              max={100}
+              step={5}
+              aria-label="How pleasant the mood feels"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={isLoading || !form.label.trim() || !form.baseMood}>
+              {isLoading ? 'Saving...' : editing === 'new' ? 'Create mood' : 'Save mood'}
+            </Button>
+            <Button variant="outline" onClick={close}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {customMoods.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven't added any moods of your own.</p>
+        ) : (
+          customMoods.map((mood) => {
+            const base = getMood(mood.baseMood);
+            return (
+              <div
+                key={mood.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+              >
+                <div>
+                  <p className="text-sm font-medium text-foreground">
+                    {mood.emoji ?? base?.emoji} {mood.label}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Counted as {base?.label ?? mood.baseMood} · {describeValence(mood.valence)}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => startEdit(mood)} aria-label={`Edit ${mood.label}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(mood)}
+                    disabled={deletingId === mood.id}
+                    aria-label={`Delete ${mood.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useImports,
+  isImportFinished,
+  EntryImport,
+  ImportFormat,
+  IMPORT_FORMATS,
+} from '@/hooks/useImports';
+
+// Most issues listed under an import; the counts include all of them
+const SHOWN_ISSUES = 50;
+
+const ISSUE_LABELS = {
+  failed: 'Not imported',
+  duplicate: 'Duplicate',
+  warning: 'Note',
+};
+
+/**
+ * Describe where an issue or preview row is in the file
+ */
+function describeRow(item: { row: number; file?: string }): string {
+  return item.file ? `${item.file} (#${item.row})` : `Row ${item.row}`;
+}
+
+function ImportSummary({ entryImport }: { entryImport: EntryImport }) {
+  if (!isImportFinished(entryImport)) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          {entryImport.dryRun ? 'Checking' : 'Importing'} your file
+          {entryImport.rowsTotal > 0 && ` · ${entryImport.rowsProcessed} of ${entryImport.rowsTotal} entries`}
+        </p>
+        <Progress value={entryImport.percentComplete} className="h-2" />
+      </div>
+    );
+  }
+
+  if (entryImport.status === 'FAILED') {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{entryImport.error || 'The import failed. Please try again.'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <p className="text-sm text-foreground">
+      {entryImport.imported} {entryImport.dryRun ? 'would be imported' : 'imported'} ·{' '}
+      {entryImport.duplicates} duplicate{entryImport.duplicates === 1 ? '' : 's'} skipped ·{' '}
+      {entryImport.failed} could not be imported
+    </p>
+  );
+}
+
+/**
+ * Import settings
+ * Uploads a journal from another app or an earlier export, optionally previewing it first
+ */
+export function ImportEntriesCard() {
+  const { toast } = useToast();
+  const { imports, isLoading, fetchImports, startImport } = useImports();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [format, setFormat] = useState<ImportFormat>('json');
+  const [file, setFile] = useState<File | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+
+  useEffect(() => {
+    fetchImports().catch(() => undefined);
+  }, [fetchImports]);
+
+  const latest = imports[0];
+  const isRunning = !!latest && !isImportFinished(latest);
+  const selectedFormat = IMPORT_FORMATS.find((option) => option.value === format)!;
+
+  const upload = async (preview: boolean) => {
+    if (!file) {
+      return;
+    }
+    try {
+      await startImport(file, format, preview);
+    } catch (err) {
+      toast({
+        title: 'Import failed',
+        description: (err as { message?: string })?.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const chooseFormat = (value: string) => {
+    setFormat(value as ImportFormat);
+    setFile(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-foreground">Import Entries</h3>
+        <p className="text-sm text-muted-foreground">
+          Bring in a journal from another app or an earlier export. Entries keep their original dates,
+          and ones you already have are skipped.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="import-format">Format</Label>
+            <Select value={format} onValueChange={chooseFormat}>
+              <SelectTrigger id="import-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMPORT_FORMATS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{selectedFormat.description}</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <input
+              id="import-file"
+              ref={fileInputRef}
+              type="file"
+              accept={selectedFormat.accept}
+              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-2 file:text-sm file:text-secondary-foreground"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox id="import-dry-run" checked={dryRun} onCheckedChange={(checked) => setDryRun(checked === true)} />
+          <Label htmlFor="import-dry-run" className="text-sm font-normal">
+            Preview first, without importing anything
+          </Label>
+        </div>
+
+        <Button onClick={() => upload(dryRun)} disabled={!file || isRunning || isLoading}>
+          <Upload className="mr-2 h-4 w-4" />
+          {dryRun ? 'Preview import' : 'Import'}
+        </Button>
+
+        {latest && (
+          <div className="space-y-3 rounded-lg border border-border p-4">
+            <ImportSummary entryImport={latest} />
+
+            {latest.status === 'COMPLETED' && latest.preview.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-foreground">
+                  First {latest.preview.length} of {latest.imported} entries
+                </p>
+                <ul className="space-y-1">
+                  {latest.preview.map((row) => (
+                    <li key={`${row.file ?? ''}-${row.row}`} className="text-sm text-muted-foreground">
+                      <span className="text-foreground">{row.title}</span> ·{' '}
+                      {new Date(row.createdAt).toLocaleDateString()}
+                      {row.mood && ` · ${row.mood}`}
+                      {row.tags.length > 0 && ` · ${row.tags.join(', ')}`}
+                      {row.attachments > 0 && ` · ${row.attachments} attachment${row.attachments === 1 ? '' : 's'}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {isImportFinished(latest) && latest.issues.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-foreground">Issues</p>
+                <ul className="max-h-48 space-y-1 overflow-y-auto">
+                  {latest.issues.slice(0, SHOWN_ISSUES).map((issue, index) => (
+                    <li key={index} className="text-xs text-muted-foreground">
+                      <span className="font-medium">{ISSUE_LABELS[issue.type]}</span> · {describeRow(issue)}:{' '}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+                {latest.issues.length > SHOWN_ISSUES && (
+                  <p className="text-xs text-muted-foreground">
+                    And {latest.issues.length - SHOWN_ISSUES} more.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {latest.dryRun && latest.status === 'COMPLETED' && latest.imported > 0 && file && (
+              <Button variant="outline" onClick={() => upload(false)} disabled={isLoading}>
+                Import {latest.imported} entr{latest.imported === 1 ? 'y' : 'ies'}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { ShieldCheck, ShieldOff, KeyRound, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useToast } from '@/hooks/use-toast';
+import { useMfa } from '@/hooks/useMfa';
+
+/**
+ * Two-factor authentication settings
+ * Walks the user through TOTP enrollment and manages recovery codes
+ */
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const {
+    status,
+    enrollment,
+    isLoading,
+    fetchStatus,
+    startSetup,
+    confirmSetup,
+    cancelSetup,
+    disable,
+    regenerateRecoveryCodes,
+  } = useMfa();
+
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    fetchStatus().catch(() => undefined);
+  }, [fetchStatus]);
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      title,
+      description: (err as { message?: string })?.message || 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setRecoveryCodes(null);
+      await startSetup();
+    } catch (err) {
+      showError('Failed to start setup', err);
+    }
+  };
+
+  const handleConfirmSetup = async () => {
+    try {
+      const codes = await confirmSetup(code);
+      setRecoveryCodes(codes);
+      setCode('');
+      toast({
+        title: 'Two-factor authentication enabled',
+        description: 'Save your recovery codes somewhere safe.',
+      });
+    } catch (err) {
+      showError('Invalid code', err);
+    }
+  };
+
+  const handleCancelSetup = () => {
+    cancelSetup();
+    setCode('');
+  };
+
+  const handleDisable = async () => {
+    try {
+      await disable(password, code);
+      setIsDisabling(false);
+      setPassword('');
+      setCode('');
+      setRecoveryCodes(null);
+      toast({
+        title: 'Two-factor authentication disabled',
+        description: 'Your account is now protected by your password only.',
+      });
+    } catch (err) {
+      showError('Failed to disable two-factor authentication', err);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      const codes = await regenerateRecoveryCodes(code);
+      setRecoveryCodes(codes);
+      setCode('');
+      toast({
+        title: 'Recovery codes replaced',
+        description: 'Your previous recovery codes no longer work.',
+      });
+    } catch (err) {
+      showError('Failed to regenerate recovery codes', err);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({ title: 'Recovery codes copied' });
+    } catch {
+      showError('Could not copy recovery codes', null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center gap-3">
+        {status?.enabled ? (
+          <ShieldCheck className="h-5 w-5 text-primary" />
+        ) : (
+          <ShieldOff className="h-5 w-5 text-muted-foreground" />
+        )}
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Two-Factor Authentication</h3>
+          <p className="text-sm text-muted-foreground">
+            {status?.enabled
+              ? `Enabled · ${status.recoveryCodesRemaining} recovery codes left`
+              : 'Require a code from an authenticator app when you sign in.'}
+          </p>
+        </div>
+      </div>
+
+      {recoveryCodes && (
+        <Alert className="mb-4">
+          <AlertDescription>
+            <p className="mb-3 text-sm">
+              Each recovery code can be used once if you lose access to your authenticator app.
+              They will not be shown again.
+            </p>
+            <div className="mb-3 grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                I've saved them
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!status ? (
+        <LoadingSpinner size="sm" />
+      ) : enrollment ? (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="inline-block rounded-lg bg-white p-3">
+            <QRCodeSVG value={enrollment.otpauthUrl} size={176} />
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">Can't scan? Enter this key manually</Label>
+            <p className="break-all font-mono text-sm">{enrollment.secret}</p>
+          </div>
+          <div>
+            <Label htmlFor="mfa-setup-code">Verification code</Label>
+            <Input
+              id="mfa-setup-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleConfirmSetup} disabled={isLoading || !code}>
+              {isLoading ? 'Verifying...' : 'Enable'}
+            </Button>
+            <Button variant="outline" onClick={handleCancelSetup}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : !status.enabled ? (
+        <Button variant="outline" onClick={handleStartSetup} disabled={isLoading}>
+          <KeyRound className="mr-2 h-4 w-4" />
+          Set up two-factor authentication
+        </Button>
+      ) : isDisabling ? (
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="mfa-disable-password">Password</Label>
+            <Input
+              id="mfa-disable-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter your password"
+            />
+          </div>
+          <div>
+            <Label htmlFor="mfa-disable-code">Authenticator or recovery code</Label>
+            <Input
+              id="mfa-disable-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              autoComplete="one-time-code"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="destructive" onClick={handleDisable} disabled={isLoading || !password || !code}>
+              {isLoading ? 'Disabling...' : 'Disable'}
+            </Button>
+            <Button variant="outline" onClick={() => setIsDisabling(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="mfa-regenerate-code">Authenticator code</Label>
+            <div className="mt-1 flex flex-col gap-2 sm:flex-row">
+              <Input
+                id="mfa-regenerate-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+                inputMode="numeric"
+              />
+              <Button variant="outline" onClick={handleRegenerate} disabled={isLoading || !code}>
+                New recovery codes
+              </Button>
+            </div>
+          </div>
+          <Button variant="ghost" className="text-destructive" onClick={() => setIsDisabling(true)}>
+            Turn off two-factor authentication
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
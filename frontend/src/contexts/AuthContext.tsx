@@ -14,15 +14,34 @@ interface User {
   role: UserRole;
   hasCompletedOnboarding: boolean;
   aiConsent: boolean;
+  emailVerified?: boolean;
+}
+
+interface AuthResponse {
+  accessToken: string;
+  refreshToken: string;
+  user: User;
+}
+
+interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export interface LoginOutcome {
+  mfaRequired: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   error: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  mfaPending: boolean;
+  login: (email: string, password: string) => Promise<LoginOutcome>;
+  verifyMfa: (code: string) => Promise<void>;
+  cancelMfa: () => void;
   register: (name: string, email: string, password: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
   clearError: () => void;
 }
 
@@ -32,6 +51,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
 
   useEffect(() => {
     // Check for stored JWT on mount
@@ -65,23 +85,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginOutcome> => {
     setError(null);
     setIsLoading(true);
     try {
-      const response = await apiClient.post<{
-        accessToken: string;
-        refreshToken: string;
-        user: User;
-      }>(
+      const response = await apiClient.post<AuthResponse | MfaChallenge>(
         '/api/v1/auth/login',
         { email, password },
         { skipAuth: true }
       );
 
+      // Accounts with two-factor authentication need a second step before tokens are issued
+      if ('mfaRequired' in response) {
+        setMfaToken(response.mfaToken);
+        return { mfaRequired: true };
+      }
+
       // Store both access and refresh tokens securely
       apiClient.setToken(response.accessToken, response.refreshToken);
       setUser(response.user);
+      return { mfaRequired: false };
     } catch (err) {
       const apiError = err as ApiError;
       const errorMessage = apiError.message || 'Login failed. Please try again.';
@@ -92,15 +115,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const verifyMfa = async (code: string) => {
+    if (!mfaToken) {
+      throw new Error('Your sign-in session has expired. Please sign in again.');
+    }
+
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await apiClient.post<AuthResponse>(
+        '/api/v1/auth/mfa/verify',
+        { mfaToken, code },
+        { skipAuth: true }
+      );
+
+      apiClient.setToken(response.accessToken, response.refreshToken);
+      setUser(response.user);
+      setMfaToken(null);
+    } catch (err) {
+      const apiError = err as ApiError;
+      const errorMessage = apiError.message || 'Verification failed. Please try again.';
+      // An expired challenge cannot be retried, start over from the password step
+      if (errorMessage.includes('expired')) {
+        setMfaToken(null);
+      }
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelMfa = () => {
+    setMfaToken(null);
+  };
+
   const register = async (name: string, email: string, password: string) => {
     setError(null);
     setIsLoading(true);
     try {
-      const response = await apiClient.post<{
-        accessToken: string;
-        refreshToken: string;
-        user: User;
-      }>(
+      const response = await apiClient.post<AuthResponse>(
         '/api/v1/auth/register',
         { name, email, password },
         { skipAuth: true }
@@ -119,8 +173,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('jwt');
+  const logout = async () => {
+    await apiClient.logout();
     setUser(null);
     setError(null);
   };
@@ -130,7 +184,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, error, login, register, logout, clearError }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        isLoading,
+        error,
+        mfaPending: !!mfaToken,
+        login,
+        verifyMfa,
+        cancelMfa,
+        register,
+        logout,
+        clearError,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
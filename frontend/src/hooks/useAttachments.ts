@@ -0,0 +1,166 @@
+import { useState, useCallback, useEffect } from 'react';
+import { apiClient, ApiError } from '../lib/apiClient';
+
+// What the server accepts, for the file picker
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,image/gif,image/heic,application/pdf,audio/*';
+export const MAX_ATTACHMENTS_PER_ENTRY = 10;
+
+export interface EntryAttachment {
+  id: string;
+  entryId: string;
+  fileName: string;
+  contentType: string;
+  // Size in bytes
+  size: number;
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+interface UseAttachmentsState {
+  attachments: EntryAttachment[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+const baseUrl = import.meta.env.VITE_API_URL || '';
+
+/**
+ * Send a request the JSON client can't (a file upload or download), with the signed-in token
+ */
+async function fetchWithToken(url: string, init: RequestInit, fallbackError: string): Promise<Response> {
+  const token = localStorage.getItem('jwt');
+  const response = await fetch(`${baseUrl}${url}`, {
+    ...init,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  if (!response.ok) {
+    const apiError = await response.json().catch(() => null);
+    throw new Error(apiError?.error?.message || fallbackError);
+  }
+  return response;
+}
+
+/**
+ * A file size for people, like "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * The files attached to an entry, loaded on mount
+ * Files are decrypted by the server and fetched with the user's token, so thumbnails and
+ * downloads go through object URLs rather than links to the API
+ */
+export function useAttachments(entryId: string) {
+  const [state, setState] = useState<UseAttachmentsState>({
+    attachments: [],
+    isLoading: false,
+    error: null,
+  });
+
+  /**
+   * Run an attachment request with shared loading and error handling
+   */
+  const run = useCallback(async <T,>(request: () => Promise<T>, fallbackError: string): Promise<T> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const result = await request();
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return result;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || fallbackError,
+        isLoading: false,
+      }));
+      throw err;
+    }
+  }, []);
+
+  const fetchAttachments = useCallback(async (): Promise<EntryAttachment[]> => {
+    const attachments = await run(
+      () => apiClient.get<EntryAttachment[]>(`/api/v1/entries/${entryId}/attachments`),
+      'Failed to fetch attachments'
+    );
+    setState((prev) => ({ ...prev, attachments }));
+    return attachments;
+  }, [entryId, run]);
+
+  const uploadAttachment = useCallback(async (file: File): Promise<EntryAttachment> => {
+    const body = new FormData();
+    body.append('file', file);
+
+    const attachment = await run(async () => {
+      const response = await fetchWithToken(
+        `/api/v1/entries/${entryId}/attachments`,
+        { method: 'POST', body },
+        'Failed to upload attachment'
+      );
+      return ((await response.json()) as { data: EntryAttachment }).data;
+    }, 'Failed to upload attachment');
+
+    setState((prev) => ({ ...prev, attachments: [...prev.attachments, attachment] }));
+    return attachment;
+  }, [entryId, run]);
+
+  const deleteAttachment = useCallback(async (id: string): Promise<void> => {
+    await run(
+      () => apiClient.delete(`/api/v1/entries/${entryId}/attachments/${id}`),
+      'Failed to delete attachment'
+    );
+    setState((prev) => ({ ...prev, attachments: prev.attachments.filter((item) => item.id !== id) }));
+  }, [entryId, run]);
+
+  /**
+   * Fetch an image attachment's thumbnail
+   * @returns An object URL for it, to be revoked by the caller
+   */
+  const getThumbnailUrl = useCallback(async (attachment: EntryAttachment): Promise<string> => {
+    const response = await fetchWithToken(
+      `/api/v1/entries/${entryId}/attachments/${attachment.id}/thumbnail`,
+      { method: 'GET' },
+      'Failed to load thumbnail'
+    );
+    return window.URL.createObjectURL(await response.blob());
+  }, [entryId]);
+
+  /**
+   * Download an attachment under its original name
+   */
+  const downloadAttachment = useCallback(async (attachment: EntryAttachment): Promise<void> => {
+    const response = await fetchWithToken(
+      `/api/v1/entries/${entryId}/attachments/${attachment.id}`,
+      { method: 'GET' },
+      'Failed to download attachment'
+    );
+    const url = window.URL.createObjectURL(await response.blob());
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = attachment.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  }, [entryId]);
+
+  useEffect(() => {
+    fetchAttachments().catch(() => undefined);
+  }, [fetchAttachments]);
+
+  return {
+    attachments: state.attachments,
+    isLoading: state.isLoading,
+    error: state.error,
+    fetchAttachments,
+    uploadAttachment,
+    deleteAttachment,
+    getThumbnailUrl,
+    downloadAttachment,
+  };
+}
@@ -0,0 +1,152 @@
+import { useState, useCallback, useEffect } from 'react';
+import { apiClient, ApiError } from '../lib/apiClient';
+import { useMoods } from './useMoods';
+import type { EntryEmotion } from './useEntries';
+
+export interface CustomMood {
+  id: string;
+  label: string;
+  emoji: string | null;
+  // The mood in the vocabulary it is counted as
+  baseMood: string;
+  // -1 (most unpleasant) to 1 (most pleasant)
+  valence: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCustomMoodData {
+  label: string;
+  emoji?: string | null;
+  baseMood: string;
+  valence?: number;
+}
+
+// The base mood can't be changed, since entries have been counted as it
+export interface UpdateCustomMoodData {
+  label?: string;
+  emoji?: string | null;
+  valence?: number;
+}
+
+// How an emotion is shown: its custom mood if it has one, otherwise its base mood
+export interface EmotionDisplay {
+  label: string;
+  emoji: string;
+  valence: number;
+}
+
+interface UseCustomMoodsState {
+  customMoods: CustomMood[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * The user's custom moods, loaded on mount
+ */
+export function useCustomMoods() {
+  const [state, setState] = useState<UseCustomMoodsState>({
+    customMoods: [],
+    isLoading: false,
+    error: null,
+  });
+  const { getMood } = useMoods();
+
+  /**
+   * Run a custom mood request with shared loading and error handling
+   */
+  const run = useCallback(async <T,>(request: () => Promise<T>, fallbackError: string): Promise<T> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const result = await request();
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return result;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || fallbackError,
+        isLoading: false,
+      }));
+      throw err;
+    }
+  }, []);
+
+  const fetchCustomMoods = useCallback(async (): Promise<CustomMood[]> => {
+    const customMoods = await run(
+      () => apiClient.get<CustomMood[]>('/api/v1/moods/custom'),
+      'Failed to fetch custom moods'
+    );
+    setState((prev) => ({ ...prev, customMoods }));
+    return customMoods;
+  }, [run]);
+
+  const createCustomMood = useCallback(async (data: CreateCustomMoodData): Promise<CustomMood> => {
+    const created = await run(
+      () => apiClient.post<CustomMood>('/api/v1/moods/custom', data),
+      'Failed to create custom mood'
+    );
+    setState((prev) => ({
+      ...prev,
+      customMoods: [...prev.customMoods, created].sort((a, b) => a.label.localeCompare(b.label)),
+    }));
+    return created;
+  }, [run]);
+
+  const updateCustomMood = useCallback(async (id: string, data: UpdateCustomMoodData): Promise<CustomMood> => {
+    const updated = await run(
+      () => apiClient.put<CustomMood>(`/api/v1/moods/custom/${id}`, data),
+      'Failed to update custom mood'
+    );
+    setState((prev) => ({
+      ...prev,
+      customMoods: prev.customMoods.map((mood) => (mood.id === id ? updated : mood)),
+    }));
+    return updated;
+  }, [run]);
+
+  /**
+   * Delete a custom mood; entries that used it keep the emotion as its base mood
+   */
+  const deleteCustomMood = useCallback(async (id: string): Promise<void> => {
+    await run(
+      () => apiClient.delete(`/api/v1/moods/custom/${id}`),
+      'Failed to delete custom mood'
+    );
+    setState((prev) => ({ ...prev, customMoods: prev.customMoods.filter((mood) => mood.id !== id) }));
+  }, [run]);
+
+  useEffect(() => {
+    fetchCustomMoods().catch(() => undefined);
+  }, [fetchCustomMoods]);
+
+  /**
+   * How to show an emotion of an entry
+   * Emotions whose custom mood was deleted are shown as their base mood
+   */
+  const describeEmotion = useCallback(
+    (emotion: EntryEmotion): EmotionDisplay | undefined => {
+      const custom = emotion.customMoodId
+        ? state.customMoods.find((mood) => mood.id === emotion.customMoodId)
+        : undefined;
+      const base = getMood(custom?.baseMood ?? emotion.mood);
+      if (custom) {
+        return { label: custom.label, emoji: custom.emoji ?? base?.emoji ?? '', valence: custom.valence };
+      }
+      return base && { label: base.label, emoji: base.emoji, valence: base.valence };
+    },
+    [state.customMoods, getMood]
+  );
+
+  return {
+    customMoods: state.customMoods,
+    isLoading: state.isLoading,
+    error: state.error,
+    fetchCustomMoods,
+    createCustomMood,
+    updateCustomMood,
+    deleteCustomMood,
+    describeEmotion,
+  };
+}
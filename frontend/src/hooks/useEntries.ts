@@ -1,15 +1,51 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { apiClient, ApiError } from '../lib/apiClient';
 
+export type EntryStatus = 'DRAFT' | 'PUBLISHED';
+
+// One of the emotions felt in an entry
+export interface EntryEmotion {
+  // The base mood, also for custom moods
+  mood: string;
+  customMoodId: string | null;
+  // 0 (barely) to 1 (overwhelmingly)
+  intensity: number;
+}
+
+export type EntryFieldType = 'text' | 'list' | 'rating';
+
+export type EntryFieldValue = string | string[] | number | null;
+
+// An answer to a template section, kept with its label so it reads the same after the template changes
+export interface EntryField {
+  key: string;
+  label: string;
+  type: EntryFieldType;
+  // Text, list items or a rating from 0 to 10; null when left empty
+  value: EntryFieldValue;
+}
+
 export interface JournalEntry {
   id: string;
   userId: string;
   title: string;
   content: string;
+  // The base mood of the strongest emotion
   mood?: string;
+  // Strongest first
+  emotions?: EntryEmotion[];
   tags?: string[];
+  // The template the entry was written from, and the answers to its sections
+  templateId?: string | null;
+  fields?: EntryField[] | null;
   insight?: string;
   insightThemes?: string[];
+  // Drafts are autosaved while writing and left out of analytics until published
+  status?: EntryStatus;
+  // Incremented on every edit; pass it to updateEntry to detect changes made elsewhere
+  version?: number;
+  // Relevance to the query, only set on search results
+  score?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -22,23 +58,94 @@ export interface PaginatedEntries {
   totalPages: number;
 }
 
+export interface CursorPaginatedEntries {
+  data: JournalEntry[];
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface TrashedEntry extends JournalEntry {
+  deletedAt: string;
+  // When the entry will be permanently deleted
+  purgeAt: string;
+}
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  revision: number;
+  title: string;
+  content: string;
+  mood?: string | null;
+  tags: string[];
+  fields?: EntryField[] | null;
+  // When this version was saved, and when it was replaced
+  savedAt: string;
+  createdAt: string;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface EntryRevisionDiff {
+  from: number;
+  to: number | 'current';
+  title: DiffPart[];
+  content: DiffPart[];
+}
+
+export interface FetchEntriesOptions {
+  // Load pages by cursor, so fetchMoreEntries can append the next one while scrolling
+  infinite?: boolean;
+}
+
+export interface EntryFilters {
+  moods?: string[];
+  tags?: string[];
+  tagMode?: 'any' | 'all';
+  // Inclusive days (YYYY-MM-DD) in the user's time zone
+  from?: string;
+  to?: string;
+  hasInsight?: boolean;
+  theme?: string;
+  status?: EntryStatus;
+}
+
 export interface CreateEntryInput {
   title: string;
+  // May be empty when a section of the template is filled in
   content: string;
   mood?: string;
+  // Sent instead of mood; the strongest sets it
+  emotions?: EntryEmotion[];
   tags?: string[];
+  templateId?: string;
+  // Answers by section key
+  fields?: Record<string, EntryFieldValue>;
+  status?: EntryStatus;
 }
 
 export interface UpdateEntryInput {
   title?: string;
   content?: string;
-  mood?: string;
+  // null clears the mood
+  mood?: string | null;
+  // Replaces the emotions and sets the mood; an empty list clears them
+  emotions?: EntryEmotion[];
   tags?: string[];
+  // Changed answers by section key; sections left out keep theirs
+  fields?: Record<string, EntryFieldValue>;
+  status?: EntryStatus;
 }
 
 interface UseEntriesState {
   entries: JournalEntry[];
   isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
   error: string | null;
   pagination: {
     page: number;
@@ -48,10 +155,45 @@ interface UseEntriesState {
   };
 }
 
+/**
+ * Whether any filter is set
+ */
+export function hasActiveFilters(filters: EntryFilters): boolean {
+  return Boolean(
+    filters.moods?.length ||
+    filters.tags?.length ||
+    filters.from ||
+    filters.to ||
+    filters.hasInsight !== undefined ||
+    filters.theme ||
+    filters.status
+  );
+}
+
+/**
+ * Convert filters to query parameters, leaving out the ones that are not set
+ * Day bounds are sent with the browser's time zone so they match the user's calendar
+ */
+function toFilterParams(filters: EntryFilters): Record<string, unknown> {
+  return {
+    mood: filters.moods?.length ? filters.moods.join(',') : undefined,
+    tags: filters.tags?.length ? filters.tags.join(',') : undefined,
+    tagMode: filters.tags?.length ? filters.tagMode : undefined,
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    timezone: filters.from || filters.to ? Intl.DateTimeFormat().resolvedOptions().timeZone : undefined,
+    hasInsight: filters.hasInsight,
+    theme: filters.theme || undefined,
+    status: filters.status,
+  };
+}
+
 export function useEntries() {
   const [state, setState] = useState<UseEntriesState>({
     entries: [],
     isLoading: false,
+    isLoadingMore: false,
+    hasMore: false,
     error: null,
     pagination: {
       page: 1,
@@ -61,20 +203,60 @@ export function useEntries() {
     },
   });
 
+  // The query the loaded cursor pages belong to, and a counter so a page that arrives after
+  // the query changed is dropped instead of appended
+  const feedRef = useRef<{ limit: number; filters: EntryFilters; nextCursor: string | null; request: number }>({
+    limit: 10,
+    filters: {},
+    nextCursor: null,
+    request: 0,
+  });
+
   /**
-   * Fetch entries with pagination
+   * Fetch entries with pagination, optionally filtered on the server
+   * With options.infinite the first page is loaded by cursor and later pages are appended
+   * with fetchMoreEntries; the page number is then ignored and no total is available.
    */
   const fetchEntries = useCallback(
-    async (page: number = 1, limit: number = 10) => {
-      setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    async (page: number = 1, limit: number = 10, filters: EntryFilters = {}, options: FetchEntriesOptions = {}) => {
+      const request = ++feedRef.current.request;
+      setState((prev) => ({ ...prev, isLoading: true, isLoadingMore: false, error: null }));
       try {
+        if (options.infinite) {
+          const response = await apiClient.get<CursorPaginatedEntries>('/api/v1/entries', {
+            params: { pagination: 'cursor', limit, ...toFilterParams(filters) },
+          });
+          if (request !== feedRef.current.request) {
+            return;
+          }
+
+          feedRef.current = { limit, filters, nextCursor: response.nextCursor, request };
+          setState((prev) => ({
+            ...prev,
+            entries: response.data,
+            hasMore: response.hasMore,
+            pagination: {
+              page: 1,
+              limit: response.limit,
+              total: response.data.length,
+              totalPages: response.hasMore ? 2 : 1,
+            },
+            isLoading: false,
+          }));
+          return;
+        }
+
         const response = await apiClient.get<PaginatedEntries>('/api/v1/entries', {
-          params: { page, limit },
+          params: { page, limit, ...toFilterParams(filters) },
         });
+        if (request !== feedRef.current.request) {
+          return;
+        }
 
         setState((prev) => ({
           ...prev,
           entries: response.data,
+          hasMore: response.page < response.totalPages,
           pagination: {
             page: response.page,
             limit: response.limit,
@@ -84,19 +266,85 @@ export function useEntries() {
           isLoading: false,
         }));
       } catch (err) {
-        const apiError = err as ApiError;
-        const errorMessage = apiError.message || 'Failed to fetch entries';
-        setState((prev) => ({
-          ...prev,
-          error: errorMessage,
-          isLoading: false,
-        }));
+        if (request === feedRef.current.request) {
+          const apiError = err as ApiError;
+          const errorMessage = apiError.message || 'Failed to fetch entries';
+          setState((prev) => ({
+            ...prev,
+            error: errorMessage,
+            isLoading: false,
+          }));
+        }
         throw err;
       }
     },
     []
   );
 
+  /**
+   * Append the next page of an infinite feed started with fetchEntries(..., { infinite: true })
+   * Does nothing when there are no more entries or a page is already loading
+   */
+  const fetchMoreEntries = useCallback(async () => {
+    const feed = feedRef.current;
+    if (!feed.nextCursor || state.isLoading || state.isLoadingMore) {
+      return;
+    }
+
+    const { request } = feed;
+    setState((prev) => ({ ...prev, isLoadingMore: true, error: null }));
+    try {
+      const response = await apiClient.get<CursorPaginatedEntries>('/api/v1/entries', {
+        params: { cursor: feed.nextCursor, limit: feed.limit, ...toFilterParams(feed.filters) },
+      });
+      if (request !== feedRef.current.request) {
+        return;
+      }
+
+      feedRef.current = { ...feed, nextCursor: response.nextCursor };
+      setState((prev) => {
+        // An entry created while scrolling is already at the top, so skip it if it shows up again
+        const loadedIds = new Set(prev.entries.map((entry) => entry.id));
+        const entries = [...prev.entries, ...response.data.filter((entry) => !loadedIds.has(entry.id))];
+        return {
+          ...prev,
+          entries,
+          hasMore: response.hasMore,
+          pagination: {
+            ...prev.pagination,
+            page: prev.pagination.page + 1,
+            total: entries.length,
+            totalPages: response.hasMore ? prev.pagination.page + 2 : prev.pagination.page + 1,
+          },
+          isLoadingMore: false,
+        };
+      });
+    } catch (err) {
+      if (request !== feedRef.current.request) {
+        return;
+      }
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || 'Failed to fetch entries',
+        isLoadingMore: false,
+      }));
+    }
+  }, [state.isLoading, state.isLoadingMore]);
+
+  /**
+   * Search all of the user's entries on the server, most relevant first
+   * Leaves the loaded entries and loading state untouched so results can be shown alongside them
+   */
+  const searchEntries = useCallback(
+    async (query: string, page: number = 1, limit: number = 20): Promise<PaginatedEntries> => {
+      return apiClient.get<PaginatedEntries>('/api/v1/entries/search', {
+        params: { q: query, page, limit },
+      });
+    },
+    []
+  );
+
   /**
    * Get a specific entry by ID
    */
@@ -152,14 +400,17 @@ export function useEntries() {
 
   /**
    * Update an existing journal entry
+   * With the version that was edited, the update fails with a 412 carrying the current entry
+   * if the entry was changed elsewhere since (see isPreconditionFailed)
    */
   const updateEntry = useCallback(
-    async (id: string, input: UpdateEntryInput): Promise<JournalEntry> => {
+    async (id: string, input: UpdateEntryInput, version?: number): Promise<JournalEntry> => {
       setState((prev) => ({ ...prev, isLoading: true, error: null }));
       try {
         const updatedEntry = await apiClient.put<JournalEntry>(
           `/api/v1/entries/${id}`,
-          input
+          input,
+          version !== undefined ? { ifMatch: `"${version}"` } : undefined
         );
         setState((prev) => ({
           ...prev,
@@ -211,6 +462,66 @@ export function useEntries() {
     }
   }, []);
 
+  /**
+   * Get a page of entries in the trash, most recently deleted first
+   */
+  const fetchTrash = useCallback(
+    async (page: number = 1, limit: number = 20): Promise<PaginatedEntries & { data: TrashedEntry[] }> => {
+      return apiClient.get<PaginatedEntries & { data: TrashedEntry[] }>('/api/v1/entries/trash', {
+        params: { page, limit },
+      });
+    },
+    []
+  );
+
+  /**
+   * Take an entry out of the trash
+   */
+  const restoreEntry = useCallback(async (id: string): Promise<JournalEntry> => {
+    return apiClient.post<JournalEntry>(`/api/v1/entries/trash/${id}/restore`);
+  }, []);
+
+  /**
+   * Permanently delete an entry in the trash
+   */
+  const deleteEntryPermanently = useCallback(async (id: string): Promise<void> => {
+    await apiClient.delete(`/api/v1/entries/trash/${id}`);
+  }, []);
+
+  /**
+   * List an entry's earlier versions, newest first
+   */
+  const getRevisions = useCallback(async (id: string): Promise<EntryRevision[]> => {
+    return apiClient.get<EntryRevision[]>(`/api/v1/entries/${id}/revisions`);
+  }, []);
+
+  /**
+   * Compare a revision with a later one, or with the entry as it is now
+   */
+  const getRevisionDiff = useCallback(
+    async (id: string, from: number, to: number | 'current' = 'current'): Promise<EntryRevisionDiff> => {
+      return apiClient.get<EntryRevisionDiff>(`/api/v1/entries/${id}/revisions/diff`, {
+        params: { from, to },
+      });
+    },
+    []
+  );
+
+  /**
+   * Make an earlier version the entry's current version
+   * The replaced version is kept as a new revision
+   */
+  const restoreRevision = useCallback(async (id: string, revision: number): Promise<JournalEntry> => {
+    const restoredEntry = await apiClient.post<JournalEntry>(
+      `/api/v1/entries/${id}/revisions/${revision}/restore`
+    );
+    setState((prev) => ({
+      ...prev,
+      entries: prev.entries.map((entry) => (entry.id === id ? restoredEntry : entry)),
+    }));
+    return restoredEntry;
+  }, []);
+
   /**
    * Clear error state
    */
@@ -221,13 +532,23 @@ export function useEntries() {
   return {
     entries: state.entries,
     isLoading: state.isLoading,
+    isLoadingMore: state.isLoadingMore,
+    hasMore: state.hasMore,
     error: state.error,
     pagination: state.pagination,
     fetchEntries,
+    fetchMoreEntries,
+    searchEntries,
     getEntry,
     createEntry,
     updateEntry,
     deleteEntry,
+    getRevisions,
+    getRevisionDiff,
+    restoreRevision,
+    fetchTrash,
+    restoreEntry,
+    deleteEntryPermanently,
     clearError,
   };
 }
@@ -0,0 +1,166 @@
+import { useState, useCallback, useEffect } from 'react';
+import { apiClient, ApiError } from '../lib/apiClient';
+
+export type ImportFormat = 'json' | 'markdown' | 'csv' | 'dayone';
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string; description: string; accept: string }[] = [
+  { value: 'json', label: 'MicroCare JSON', description: 'A JSON export from MicroCare', accept: '.json,application/json' },
+  { value: 'markdown', label: 'Markdown (zip)', description: 'A zip of .md files, with optional front matter', accept: '.zip,application/zip' },
+  { value: 'csv', label: 'CSV', description: 'A header row with a content column, and optionally date, title, mood and tags', accept: '.csv,text/csv' },
+  { value: 'dayone', label: 'Day One', description: 'A Day One JSON export, or its zip with photos', accept: '.json,.zip,application/json,application/zip' },
+];
+
+export type ImportStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface ImportIssue {
+  row: number;
+  file?: string;
+  type: 'failed' | 'duplicate' | 'warning';
+  message: string;
+  entryId?: string;
+}
+
+export interface ImportPreviewRow {
+  row: number;
+  file?: string;
+  title: string;
+  createdAt: string;
+  mood?: string;
+  tags: string[];
+  attachments: number;
+}
+
+export interface EntryImport {
+  id: string;
+  format: ImportFormat;
+  dryRun: boolean;
+  status: ImportStatus;
+  rowsTotal: number;
+  rowsProcessed: number;
+  imported: number;
+  duplicates: number;
+  failed: number;
+  issues: ImportIssue[];
+  preview: ImportPreviewRow[];
+  percentComplete: number;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+interface UseImportsState {
+  imports: EntryImport[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// How often an unfinished import is checked on
+const POLL_INTERVAL_MS = 2000;
+
+export function isImportFinished(entryImport: EntryImport): boolean {
+  return entryImport.status === 'COMPLETED' || entryImport.status === 'FAILED';
+}
+
+/**
+ * The user's recent imports, newest first
+ * Imports run in the background, so one that has not finished is fetched again every few
+ * seconds until it does
+ */
+export function useImports() {
+  const baseUrl = import.meta.env.VITE_API_URL || '';
+  const [state, setState] = useState<UseImportsState>({
+    imports: [],
+    isLoading: false,
+    error: null,
+  });
+
+  /**
+   * Run an import request with shared loading and error handling
+   */
+  const run = useCallback(async <T,>(request: () => Promise<T>, fallbackError: string): Promise<T> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const result = await request();
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return result;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || fallbackError,
+        isLoading: false,
+      }));
+      throw err;
+    }
+  }, []);
+
+  const fetchImports = useCallback(async (): Promise<EntryImport[]> => {
+    const imports = await run(
+      () => apiClient.get<EntryImport[]>('/api/v1/users/entries/import'),
+      'Failed to fetch imports'
+    );
+    setState((prev) => ({ ...prev, imports }));
+    return imports;
+  }, [run]);
+
+  /**
+   * Upload a file to import
+   * @param dryRun - Only check the file and preview its entries
+   */
+  const startImport = useCallback(async (file: File, format: ImportFormat, dryRun: boolean): Promise<EntryImport> => {
+    const body = new FormData();
+    body.append('file', file);
+
+    const entryImport = await run(async () => {
+      const token = localStorage.getItem('jwt');
+      const response = await fetch(
+        `${baseUrl}/api/v1/users/entries/import?format=${format}&dryRun=${dryRun}`,
+        {
+          method: 'POST',
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+          body,
+        }
+      );
+
+      if (!response.ok) {
+        const apiError = await response.json().catch(() => null);
+        throw new Error(apiError?.error?.message || 'Failed to start import');
+      }
+      return ((await response.json()) as { data: EntryImport }).data;
+    }, 'Failed to start import');
+
+    setState((prev) => ({ ...prev, imports: [entryImport, ...prev.imports] }));
+    return entryImport;
+  }, [baseUrl, run]);
+
+  const unfinishedId = state.imports.find((entryImport) => !isImportFinished(entryImport))?.id;
+
+  useEffect(() => {
+    if (!unfinishedId) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const entryImport = await apiClient.get<EntryImport>(`/api/v1/users/entries/import/${unfinishedId}`);
+        setState((prev) => ({
+          ...prev,
+          imports: prev.imports.map((item) => (item.id === entryImport.id ? entryImport : item)),
+        }));
+      } catch (err) {
+        const apiError = err as ApiError;
+        setState((prev) => ({ ...prev, error: apiError.message || 'Failed to fetch import' }));
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [unfinishedId, state.imports]);
+
+  return {
+    imports: state.imports,
+    isLoading: state.isLoading,
+    error: state.error,
+    fetchImports,
+    startImport,
+  };
+}
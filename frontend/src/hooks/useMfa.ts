@@ -0,0 +1,139 @@
+import { useState, useCallback } from 'react';
+import { apiClient, ApiError } from '../lib/apiClient';
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+interface UseMfaState {
+  status: MfaStatus | null;
+  enrollment: MfaEnrollment | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useMfa() {
+  const [state, setState] = useState<UseMfaState>({
+    status: null,
+    enrollment: null,
+    isLoading: false,
+    error: null,
+  });
+
+  /**
+   * Run an MFA request with shared loading and error handling
+   */
+  const run = useCallback(async <T,>(request: () => Promise<T>, fallbackError: string): Promise<T> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const result = await request();
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return result;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || fallbackError,
+        isLoading: false,
+      }));
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Fetch MFA status
+   */
+  const fetchStatus = useCallback(async (): Promise<MfaStatus> => {
+    const status = await run(
+      () => apiClient.get<MfaStatus>('/api/v1/users/mfa'),
+      'Failed to fetch two-factor status'
+    );
+    setState((prev) => ({ ...prev, status }));
+    return status;
+  }, [run]);
+
+  /**
+   * Start enrollment and receive the authenticator secret
+   */
+  const startSetup = useCallback(async (): Promise<MfaEnrollment> => {
+    const enrollment = await run(
+      () => apiClient.post<MfaEnrollment>('/api/v1/users/mfa/setup'),
+      'Failed to start two-factor setup'
+    );
+    setState((prev) => ({ ...prev, enrollment }));
+    return enrollment;
+  }, [run]);
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * @returns The one-time recovery codes
+   */
+  const confirmSetup = useCallback(async (code: string): Promise<string[]> => {
+    const { recoveryCodes } = await run(
+      () => apiClient.post<{ recoveryCodes: string[] }>('/api/v1/users/mfa/confirm', { code }),
+      'Failed to confirm two-factor setup'
+    );
+    setState((prev) => ({
+      ...prev,
+      enrollment: null,
+      status: { enabled: true, recoveryCodesRemaining: recoveryCodes.length },
+    }));
+    return recoveryCodes;
+  }, [run]);
+
+  /**
+   * Abandon an enrollment that has not been confirmed
+   */
+  const cancelSetup = useCallback(() => {
+    setState((prev) => ({ ...prev, enrollment: null }));
+  }, []);
+
+  /**
+   * Turn off two-factor authentication
+   */
+  const disable = useCallback(async (password: string, code: string): Promise<void> => {
+    await run(
+      () => apiClient.post('/api/v1/users/mfa/disable', { password, code }),
+      'Failed to disable two-factor authentication'
+    );
+    setState((prev) => ({
+      ...prev,
+      status: { enabled: false, recoveryCodesRemaining: 0 },
+    }));
+  }, [run]);
+
+  /**
+   * Replace all recovery codes
+   * @returns The new recovery codes
+   */
+  const regenerateRecoveryCodes = useCallback(async (code: string): Promise<string[]> => {
+    const { recoveryCodes } = await run(
+      () => apiClient.post<{ recoveryCodes: string[] }>('/api/v1/users/mfa/recovery-codes', { code }),
+      'Failed to regenerate recovery codes'
+    );
+    setState((prev) => ({
+      ...prev,
+      status: { enabled: true, recoveryCodesRemaining: recoveryCodes.length },
+    }));
+    return recoveryCodes;
+  }, [run]);
+
+  return {
+    status: state.status,
+    enrollment: state.enrollment,
+    isLoading: state.isLoading,
+    error: state.error,
+    fetchStatus,
+    startSetup,
+    confirmSetup,
+    cancelSetup,
+    disable,
+    regenerateRecoveryCodes,
+  };
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient } from '../lib/apiClient';
+
+export interface MoodDefinition {
+  id: string;
+  label: string;
+  emoji: string;
+  // -1 (most unpleasant) to 1 (most pleasant)
+  valence: number;
+  // 0 (lowest energy) to 1 (highest energy)
+  intensity: number;
+}
+
+// The vocabulary only changes with a deploy, so it is fetched once per page load
+let moodsRequest: Promise<MoodDefinition[]> | null = null;
+
+function loadMoods(): Promise<MoodDefinition[]> {
+  if (!moodsRequest) {
+    moodsRequest = apiClient.get<MoodDefinition[]>('/api/v1/moods', { skipAuth: true }).catch((err) => {
+      moodsRequest = null;
+      throw err;
+    });
+  }
+  return moodsRequest;
+}
+
+/**
+ * Convert a valence to the 1 to 5 scale mood scores are shown on
+ */
+export function valenceToScore(valence: number): number {
+  return 3 + valence * 2;
+}
+
+/**
+ * The shared mood vocabulary, as served by the API
+ */
+export function useMoods() {
+  const [moods, setMoods] = useState<MoodDefinition[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMoods()
+      .then((loaded) => !cancelled && setMoods(loaded))
+      .catch(() => !cancelled && setMoods([]));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /**
+   * Look up a mood by id, ignoring case
+   */
+  const getMood = useCallback(
+    (id?: string | null): MoodDefinition | undefined =>
+      id ? moods.find((mood) => mood.id === id.toLowerCase()) : undefined,
+    [moods]
+  );
+
+  return { moods, getMood };
+}
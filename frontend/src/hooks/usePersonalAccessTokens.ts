@@ -0,0 +1,114 @@
+import { useState, useCallback } from 'react';
+import { apiClient, ApiError } from '../lib/apiClient';
+
+export type TokenScope = 'entries:read' | 'entries:write' | 'export';
+
+export const TOKEN_SCOPES: { value: TokenScope; label: string; description: string }[] = [
+  { value: 'entries:read', label: 'Read entries', description: 'List and view journal entries' },
+  { value: 'entries:write', label: 'Write entries', description: 'Create, edit and delete journal entries' },
+  { value: 'export', label: 'Export', description: 'Download a full export of your journal' },
+];
+
+export interface PersonalAccessToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreatedPersonalAccessToken extends PersonalAccessToken {
+  token: string;
+}
+
+export interface CreatePersonalAccessTokenData {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays?: number;
+}
+
+interface UsePersonalAccessTokensState {
+  tokens: PersonalAccessToken[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function usePersonalAccessTokens() {
+  const [state, setState] = useState<UsePersonalAccessTokensState>({
+    tokens: [],
+    isLoading: false,
+    error: null,
+  });
+
+  /**
+   * Run a token request with shared loading and error handling
+   */
+  const run = useCallback(async <T,>(request: () => Promise<T>, fallbackError: string): Promise<T> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const result = await request();
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return result;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || fallbackError,
+        isLoading: false,
+      }));
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Fetch the active tokens
+   */
+  const fetchTokens = useCallback(async (): Promise<PersonalAccessToken[]> => {
+    const tokens = await run(
+      () => apiClient.get<PersonalAccessToken[]>('/api/v1/users/tokens'),
+      'Failed to fetch access tokens'
+    );
+    setState((prev) => ({ ...prev, tokens }));
+    return tokens;
+  }, [run]);
+
+  /**
+   * Create a token
+   * @returns The new token, including the secret that is only shown once
+   */
+  const createToken = useCallback(async (data: CreatePersonalAccessTokenData): Promise<CreatedPersonalAccessToken> => {
+    const created = await run(
+      () => apiClient.post<CreatedPersonalAccessToken>('/api/v1/users/tokens', data),
+      'Failed to create access token'
+    );
+    // Keep the secret out of the list so it is not shown again after this response
+    const { id, name, tokenPrefix, scopes, expiresAt, lastUsedAt, createdAt } = created;
+    setState((prev) => ({
+      ...prev,
+      tokens: [{ id, name, tokenPrefix, scopes, expiresAt, lastUsedAt, createdAt }, ...prev.tokens],
+    }));
+    return created;
+  }, [run]);
+
+  /**
+   * Revoke a token
+   */
+  const revokeToken = useCallback(async (id: string): Promise<void> => {
+    await run(
+      () => apiClient.delete(`/api/v1/users/tokens/${id}`),
+      'Failed to revoke access token'
+    );
+    setState((prev) => ({ ...prev, tokens: prev.tokens.filter((token) => token.id !== id) }));
+  }, [run]);
+
+  return {
+    tokens: state.tokens,
+    isLoading: state.isLoading,
+    error: state.error,
+    fetchTokens,
+    createToken,
+    revokeToken,
+  };
+}
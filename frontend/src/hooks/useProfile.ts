@@ -8,6 +8,7 @@ export interface UserProfile {
   aiConsent: boolean;
   role?: string;
   hasCompletedOnboarding?: boolean;
+  emailVerified?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -23,8 +24,44 @@ export interface ChangePasswordInput {
   newPassword: string;
 }
 
+export type ExportFormat = 'pdf' | 'json' | 'txt' | 'markdown' | 'csv' | 'html' | 'epub';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string; extension: string }[] = [
+  { value: 'pdf', label: 'PDF', description: 'A printable document with your photos', extension: 'pdf' },
+  { value: 'html', label: 'Web page (HTML)', description: 'A single styled page that opens in any browser, with your attachments', extension: 'html' },
+  { value: 'epub', label: 'E-book (EPUB)', description: 'A book for e-readers, a chapter per month', extension: 'epub' },
+  { value: 'markdown', label: 'Markdown (zip)', description: 'A .md file per entry with front matter, and your attachments', extension: 'zip' },
+  { value: 'csv', label: 'CSV', description: 'A row per entry, for spreadsheets', extension: 'csv' },
+  { value: 'json', label: 'JSON', description: 'Everything, including earlier versions, to import again later', extension: 'json' },
+  { value: 'txt', label: 'Plain text', description: 'Your entries as plain text', extension: 'txt' },
+];
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+export interface AccountDeletionReceipt {
+  receiptId: string;
+  userId: string;
+  email: string;
+  deletedAt: string;
+  initiatedBy: 'user' | 'admin';
+  entriesDeleted: number;
+  insightsDeleted: number;
+  attachmentsDeleted: number;
+  dataKeysDestroyed: number;
+  analysisJobsPurged: number;
+  signature: string;
+}
+
 interface UseProfileState {
   profile: UserProfile | null;
+  sessions: ActiveSession[];
   isLoading: boolean;
   error: string | null;
 }
@@ -33,6 +70,7 @@ export function useProfile() {
   const baseUrl = import.meta.env.VITE_API_URL || '';
   const [state, setState] = useState<UseProfileState>({
     profile: null,
+    sessions: [],
     isLoading: false,
     error: null,
   });
@@ -122,7 +160,7 @@ export function useProfile() {
   /**
    * Export user entries in a given format
    */
-  const exportEntries = useCallback(async (format: 'pdf' | 'json' | 'txt'): Promise<void> => {
+  const exportEntries = useCallback(async (format: ExportFormat): Promise<void> => {
     const token = localStorage.getItem('jwt');
     const response = await fetch(`${baseUrl}/api/v1/users/entries/export?format=${format}`, {
       method: 'GET',
@@ -137,7 +175,7 @@ export function useProfile() {
     const blob = await response.blob();
     const url = window.URL.createObjectURL(blob);
     const filename = response.headers.get('Content-Disposition')?.split('filename=')[1]?.replace(/"/g, '') 
-      || `microcare-entries.${format}`;
+      || `microcare-entries.${EXPORT_FORMATS.find((option) => option.value === format)?.extension ?? format}`;
 
     const link = document.createElement('a');
     link.href = url;
@@ -150,8 +188,9 @@ export function useProfile() {
 
   /**
    * Delete user account
+   * Returns the signed receipt the server issues as proof of deletion
    */
-  const deleteAccount = useCallback(async (password: string): Promise<void> => {
+  const deleteAccount = useCallback(async (password: string): Promise<AccountDeletionReceipt> => {
     const token = localStorage.getItem('jwt');
     const response = await fetch(`${baseUrl}/api/v1/users/account`, {
       method: 'DELETE',
@@ -166,6 +205,70 @@ export function useProfile() {
       const apiError = await response.json().catch(() => null);
       throw new Error(apiError?.error?.message || 'Failed to delete account');
     }
+
+    const result = await response.json();
+    return result.data as AccountDeletionReceipt;
+  }, []);
+
+  /**
+   * Fetch the devices where the user is signed in
+   */
+  const fetchSessions = useCallback(async (): Promise<ActiveSession[]> => {
+    try {
+      const sessions = await apiClient.get<ActiveSession[]>('/api/v1/users/sessions');
+      setState((prev) => ({ ...prev, sessions }));
+      return sessions;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || 'Failed to fetch sessions',
+      }));
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Sign out a single device
+   */
+  const revokeSession = useCallback(async (sessionId: string): Promise<void> => {
+    try {
+      await apiClient.delete(`/api/v1/users/sessions/${encodeURIComponent(sessionId)}`);
+      setState((prev) => ({
+        ...prev,
+        sessions: prev.sessions.filter((session) => session.id !== sessionId),
+      }));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || 'Failed to sign out device',
+      }));
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Sign out every device except this one
+   */
+  const revokeOtherSessions = useCallback(async (): Promise<number> => {
+    try {
+      const { revokedCount } = await apiClient.delete<{ revokedCount: number }>(
+        '/api/v1/users/sessions'
+      );
+      setState((prev) => ({
+        ...prev,
+        sessions: prev.sessions.filter((session) => session.current),
+      }));
+      return revokedCount;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || 'Failed to sign out other devices',
+      }));
+      throw err;
+    }
   }, []);
 
   /**
@@ -177,6 +280,7 @@ export function useProfile() {
 
   return {
     profile: state.profile,
+    sessions: state.sessions,
     isLoading: state.isLoading,
     error: state.error,
     fetchProfile,
@@ -184,6 +288,9 @@ export function useProfile() {
     changePassword,
     exportEntries,
     deleteAccount,
+    fetchSessions,
+    revokeSession,
+    revokeOtherSessions,
     clearError,
   };
 }
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { apiClient } from '../lib/apiClient';
+
+export interface PromptCategory {
+  id: string;
+  label: string;
+}
+
+export interface JournalPrompt {
+  id: string;
+  category: string;
+  text: string;
+}
+
+interface PromptLibrary {
+  categories: PromptCategory[];
+  prompts: JournalPrompt[];
+}
+
+// The library only changes with a deploy, so it is fetched once per page load
+let libraryRequest: Promise<PromptLibrary> | null = null;
+
+function loadLibrary(): Promise<PromptLibrary> {
+  if (!libraryRequest) {
+    libraryRequest = apiClient.get<PromptLibrary>('/api/v1/prompts', { skipAuth: true }).catch((err) => {
+      libraryRequest = null;
+      throw err;
+    });
+  }
+  return libraryRequest;
+}
+
+/**
+ * The guided prompt library, as served by the API
+ */
+export function usePrompts() {
+  const [library, setLibrary] = useState<PromptLibrary>({ categories: [], prompts: [] });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLibrary()
+      .then((loaded) => !cancelled && setLibrary(loaded))
+      .catch(() => !cancelled && setLibrary({ categories: [], prompts: [] }));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return library;
+}
@@ -0,0 +1,117 @@
+import { useState, useCallback, useEffect } from 'react';
+import { apiClient, ApiError } from '../lib/apiClient';
+
+export interface TagCount {
+  tag: string;
+  // Entries with the tag
+  count: number;
+  // When the latest entry with the tag was written
+  lastUsedAt: string;
+}
+
+export interface TagChangeResult {
+  // The tag the entries now have, or null if it was deleted
+  tag: string | null;
+  entriesUpdated: number;
+}
+
+interface UseTagsState {
+  tags: TagCount[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Normalize a tag the way the server stores it: trimmed, lowercase, with single spaces
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * The tags on the user's entries, most used first
+ */
+export function useTags() {
+  const [state, setState] = useState<UseTagsState>({
+    tags: [],
+    isLoading: false,
+    error: null,
+  });
+
+  /**
+   * Run a tags request with shared loading and error handling
+   */
+  const run = useCallback(async <T,>(request: () => Promise<T>, fallbackError: string): Promise<T> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const result = await request();
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return result;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || fallbackError,
+        isLoading: false,
+      }));
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Fetch the tags with their entry counts
+   */
+  const fetchTags = useCallback(async (): Promise<TagCount[]> => {
+    const tags = await run(() => apiClient.get<TagCount[]>('/api/v1/tags'), 'Failed to fetch tags');
+    setState((prev) => ({ ...prev, tags }));
+    return tags;
+  }, [run]);
+
+  /**
+   * Rename a tag on every entry; renaming to a tag already in use merges the two
+   */
+  const renameTag = useCallback(async (tag: string, name: string): Promise<TagChangeResult> => {
+    const result = await run(
+      () => apiClient.put<TagChangeResult>(`/api/v1/tags/${encodeURIComponent(tag)}`, { name }),
+      'Failed to rename tag'
+    );
+    await fetchTags();
+    return result;
+  }, [run, fetchTags]);
+
+  /**
+   * Replace several tags with one on every entry
+   */
+  const mergeTags = useCallback(async (tags: string[], into: string): Promise<TagChangeResult> => {
+    const result = await run(
+      () => apiClient.post<TagChangeResult>('/api/v1/tags/merge', { tags, into }),
+      'Failed to merge tags'
+    );
+    await fetchTags();
+    return result;
+  }, [run, fetchTags]);
+
+  /**
+   * Remove a tag from every entry
+   */
+  const deleteTag = useCallback(async (tag: string): Promise<TagChangeResult> => {
+    const result = await run(
+      () => apiClient.delete<TagChangeResult>(`/api/v1/tags/${encodeURIComponent(tag)}`),
+      'Failed to delete tag'
+    );
+    setState((prev) => ({ ...prev, tags: prev.tags.filter((item) => item.tag !== tag) }));
+    return result;
+  }, [run]);
+
+  useEffect(() => {
+    fetchTags().catch(() => undefined);
+  }, [fetchTags]);
+
+  return {
+    ...state,
+    fetchTags,
+    renameTag,
+    mergeTags,
+    deleteTag,
+  };
+}
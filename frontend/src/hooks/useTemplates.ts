@@ -0,0 +1,205 @@
+import { useState, useCallback, useEffect } from 'react';
+import { apiClient, ApiError } from '../lib/apiClient';
+import type { EntryField, EntryFieldType } from './useEntries';
+
+// Ratings run from 0 to this
+export const RATING_MAX = 10;
+
+export interface TemplateSection {
+  key: string;
+  label: string;
+  type: EntryFieldType;
+  // Shown under the label to help the user answer
+  prompt?: string;
+}
+
+export interface JournalTemplate {
+  id: string;
+  // null for the global templates offered to every user
+  userId: string | null;
+  name: string;
+  description: string | null;
+  sections: TemplateSection[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Keys are derived from the labels when left out
+export interface TemplateSectionInput {
+  key?: string;
+  label: string;
+  type: EntryFieldType;
+  prompt?: string;
+}
+
+export interface CreateTemplateData {
+  name: string;
+  description?: string | null;
+  sections: TemplateSectionInput[];
+}
+
+export type UpdateTemplateData = Partial<CreateTemplateData>;
+
+interface UseTemplatesState {
+  templates: JournalTemplate[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Empty fields for each of a template's sections, to start an entry from
+ */
+export function emptyFields(template: JournalTemplate): EntryField[] {
+  return template.sections.map(({ key, label, type }) => ({ key, label, type, value: null }));
+}
+
+/**
+ * Whether any field has a value
+ */
+export function hasFieldValues(fields?: EntryField[] | null): boolean {
+  return (fields ?? []).some((field) =>
+    Array.isArray(field.value) ? field.value.some((item) => item.trim()) : typeof field.value === 'number' || !!field.value?.trim()
+  );
+}
+
+/**
+ * The filled-in fields as plain text, as the server writes them in exports
+ */
+export function fieldsToText(fields?: EntryField[] | null): string {
+  return (fields ?? [])
+    .filter((field) => hasFieldValues([field]))
+    .map((field) => {
+      if (Array.isArray(field.value)) {
+        return `${field.label}:\n${field.value.map((item) => `- ${item}`).join('\n')}`;
+      }
+      if (field.type === 'rating') {
+        return `${field.label}: ${field.value}/${RATING_MAX}`;
+      }
+      return `${field.label}:\n${field.value}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Global templates first, then the user's own, each by name
+ */
+function sortTemplates(templates: JournalTemplate[]): JournalTemplate[] {
+  return [...templates].sort(
+    (a, b) => Number(a.userId !== null) - Number(b.userId !== null) || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * The templates the user can write from, loaded on mount
+ * Admins can also manage the global templates through it
+ */
+export function useTemplates() {
+  const [state, setState] = useState<UseTemplatesState>({
+    templates: [],
+    isLoading: false,
+    error: null,
+  });
+
+  /**
+   * Run a template request with shared loading and error handling
+   */
+  const run = useCallback(async <T,>(request: () => Promise<T>, fallbackError: string): Promise<T> => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const result = await request();
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return result;
+    } catch (err) {
+      const apiError = err as ApiError;
+      setState((prev) => ({
+        ...prev,
+        error: apiError.message || fallbackError,
+        isLoading: false,
+      }));
+      throw err;
+    }
+  }, []);
+
+  const fetchTemplates = useCallback(async (): Promise<JournalTemplate[]> => {
+    const templates = await run(
+      () => apiClient.get<JournalTemplate[]>('/api/v1/templates'),
+      'Failed to fetch templates'
+    );
+    setState((prev) => ({ ...prev, templates }));
+    return templates;
+  }, [run]);
+
+  const saved = useCallback((template: JournalTemplate) => {
+    setState((prev) => ({
+      ...prev,
+      templates: sortTemplates([...prev.templates.filter((item) => item.id !== template.id), template]),
+    }));
+    return template;
+  }, []);
+
+  const removed = useCallback((id: string) => {
+    setState((prev) => ({ ...prev, templates: prev.templates.filter((item) => item.id !== id) }));
+  }, []);
+
+  const createTemplate = useCallback(async (data: CreateTemplateData): Promise<JournalTemplate> => {
+    const created = await run(
+      () => apiClient.post<JournalTemplate>('/api/v1/templates', data),
+      'Failed to create template'
+    );
+    return saved(created);
+  }, [run, saved]);
+
+  const updateTemplate = useCallback(async (id: string, data: UpdateTemplateData): Promise<JournalTemplate> => {
+    const updated = await run(
+      () => apiClient.put<JournalTemplate>(`/api/v1/templates/${id}`, data),
+      'Failed to update template'
+    );
+    return saved(updated);
+  }, [run, saved]);
+
+  /**
+   * Delete a personal template; entries written from it keep their fields
+   */
+  const deleteTemplate = useCallback(async (id: string): Promise<void> => {
+    await run(() => apiClient.delete(`/api/v1/templates/${id}`), 'Failed to delete template');
+    removed(id);
+  }, [run, removed]);
+
+  const createGlobalTemplate = useCallback(async (data: CreateTemplateData): Promise<JournalTemplate> => {
+    const created = await run(
+      () => apiClient.post<JournalTemplate>('/api/v1/admin/templates', data),
+      'Failed to create template'
+    );
+    return saved(created);
+  }, [run, saved]);
+
+  const updateGlobalTemplate = useCallback(async (id: string, data: UpdateTemplateData): Promise<JournalTemplate> => {
+    const updated = await run(
+      () => apiClient.put<JournalTemplate>(`/api/v1/admin/templates/${id}`, data),
+      'Failed to update template'
+    );
+    return saved(updated);
+  }, [run, saved]);
+
+  const deleteGlobalTemplate = useCallback(async (id: string): Promise<void> => {
+    await run(() => apiClient.delete(`/api/v1/admin/templates/${id}`), 'Failed to delete template');
+    removed(id);
+  }, [run, removed]);
+
+  useEffect(() => {
+    fetchTemplates().catch(() => undefined);
+  }, [fetchTemplates]);
+
+  return {
+    templates: state.templates,
+    isLoading: state.isLoading,
+    error: state.error,
+    fetchTemplates,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    createGlobalTemplate,
+    updateGlobalTemplate,
+    deleteGlobalTemplate,
+  };
+}
@@ -14,6 +14,8 @@ export interface ApiError {
   statusCode: number;
   code?: string;
   details?: Record<string, unknown>;
+  // Sent with a 412: the server's current version of the resource that was changed since ifMatch
+  current?: unknown;
 }
 
 export interface ApiResponse<T> {
@@ -26,6 +28,8 @@ export interface RequestConfig {
   headers?: Record<string, string>;
   params?: Record<string, unknown>;
   skipAuth?: boolean;
+  // ETag of the version being changed; the request fails with a 412 if the resource has changed since
+  ifMatch?: string;
 }
 
 interface TokenPayload {
@@ -42,6 +46,7 @@ class ApiClient {
   private tokenExpirationKey = 'tokenExpiration';
   private isRefreshing = false;
   private refreshPromise: Promise<string | null> | null = null;
+  private refreshLockName = 'microcare-token-refresh';
 
   constructor(baseUrl?: string) {
     this.baseUrl = baseUrl || import.meta.env.VITE_API_URL || 'http://localhost:3000';
@@ -85,6 +90,26 @@ class ApiClient {
     }
   }
 
+  /**
+   * Revoke the current session on the server and clear stored tokens
+   * Tokens are cleared even if the server cannot be reached
+   */
+  async logout(): Promise<void> {
+    const token = this.getToken();
+    try {
+      if (token) {
+        await fetch(`${this.baseUrl}/api/v1/auth/logout`, {
+          method: 'POST',
+          headers: this.buildHeaders(),
+        });
+      }
+    } catch {
+      // Session will expire on its own
+    } finally {
+      this.clearTokens();
+    }
+  }
+
   /**
    * Decode JWT token to extract payload (without verification)
    * Used only for client-side expiration checking
@@ -123,6 +148,19 @@ class ApiClient {
     return now >= expiration - bufferTime;
   }
 
+  /**
+   * Run a token refresh while no other tab is refreshing
+   * Every tab shares the refresh token, and the server revokes the whole session when one
+   * is presented twice, so refreshes are serialized across tabs where the browser has the
+   * Web Locks API
+   */
+  private withRefreshLock<T>(refresh: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(this.refreshLockName, refresh);
+    }
+    return refresh();
+  }
+
   /**
    * Refresh the access token using refresh token
    */
@@ -136,36 +174,46 @@ class ApiClient {
 
     this.refreshPromise = (async () => {
       try {
-        const refreshToken = this.getRefreshToken();
-        if (!refreshToken) {
-          this.clearTokens();
-          return null;
-        }
+        const staleRefreshToken = this.getRefreshToken();
+
+        return await this.withRefreshLock(async () => {
+          const refreshToken = this.getRefreshToken();
+          if (!refreshToken) {
+            this.clearTokens();
+            return null;
+          }
+
+          // Another tab refreshed while this one waited, so use the tokens it stored
+          const token = this.getToken();
+          if (refreshToken !== staleRefreshToken && token && !this.isTokenExpired(token)) {
+            return token;
+          }
+
+          const response = await fetch(`${this.baseUrl}/api/v1/auth/refresh`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ refreshToken }),
+          });
+
+          if (!response.ok) {
+            this.clearTokens();
+            return null;
+          }
+
+          const data = await response.json();
+          const newAccessToken = data.data?.accessToken;
+          const newRefreshToken = data.data?.refreshToken;
+
+          if (newAccessToken) {
+            this.setToken(newAccessToken, newRefreshToken);
+            return newAccessToken;
+          }
 
-        const response = await fetch(`${this.baseUrl}/api/v1/auth/refresh`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ refreshToken }),
-        });
-
-        if (!response.ok) {
           this.clearTokens();
           return null;
-        }
-
-        const data = await response.json();
-        const newAccessToken = data.data?.accessToken;
-        const newRefreshToken = data.data?.refreshToken;
-
-        if (newAccessToken) {
-          this.setToken(newAccessToken, newRefreshToken);
-          return newAccessToken;
-        }
-
-        this.clearTokens();
-        return null;
+        });
       } catch {
         this.clearTokens();
         return null;
@@ -188,6 +236,10 @@ class ApiClient {
       ...config?.headers,
     };
 
+    if (config?.ifMatch) {
+      headers['If-Match'] = config.ifMatch;
+    }
+
     // Inject JWT token if not skipped
     if (!config?.skipAuth) {
       const token = this.getToken();
@@ -234,6 +286,7 @@ class ApiClient {
           statusCode: response.status,
           code: (error.code as string) || undefined,
           details: this.sanitizeErrorDetails(error.details as Record<string, unknown>) || undefined,
+          ...(response.status === 412 && errorObj.data !== undefined && { current: errorObj.data }),
         };
       }
 
@@ -430,6 +483,19 @@ class ApiClient {
   }
 }
 
+/**
+ * Whether a request with ifMatch failed because the resource was changed elsewhere
+ * The error then carries the server's current version, so the caller can merge or overwrite it
+ */
+export function isPreconditionFailed<T>(error: unknown): error is ApiError & { current: T } {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as ApiError).statusCode === 412 &&
+    (error as ApiError).current !== undefined
+  );
+}
+
 // Export singleton instance
 export const apiClient = new ApiClient();
 
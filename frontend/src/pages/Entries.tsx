@@ -1,24 +1,76 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Navbar } from '@/components/layout/Navbar';
 import { JournalEntryCard } from '@/components/journal/JournalEntryCard';
 import { EmptyState } from '@/components/common/EmptyState';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { EntryFilterBar } from '@/components/journal/EntryFilterBar';
 import { Input } from '@/components/ui/input';
-import { BookOpen, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BookOpen, Search, SlidersHorizontal, Tag, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useEntries, JournalEntry } from '@/hooks/useEntries';
+import { useEntries, JournalEntry, EntryFilters, hasActiveFilters } from '@/hooks/useEntries';
+import { ApiError } from '@/lib/apiClient';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const FILTER_DEBOUNCE_MS = 300;
+const PAGE_SIZE = 20;
 
 export default function Entries() {
   const [filteredEntries, setFilteredEntries] = useState<JournalEntry[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [filters, setFilters] = useState<EntryFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const isFirstLoad = useRef(true);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { entries, isLoading, error, fetchEntries } = useEntries();
+  const {
+    entries,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    error,
+    fetchEntries,
+    fetchMoreEntries,
+    searchEntries,
+  } = useEntries();
+  const filtersActive = hasActiveFilters(filters);
+  const isSearchActive = searchQuery.trim().length > 0;
+
+  // Filters are applied on the server; typing in the filter bar is debounced like search
+  useEffect(() => {
+    const delay = isFirstLoad.current ? 0 : FILTER_DEBOUNCE_MS;
+    isFirstLoad.current = false;
+
+    const timer = setTimeout(() => {
+      // Failures are reported through the hook's error state
+      fetchEntries(1, PAGE_SIZE, filters, { infinite: true }).catch(() => undefined);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [filters, fetchEntries]);
 
+  // Load the next page when the end of the list scrolls into view
   useEffect(() => {
-    fetchEntries();
-  }, []);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || isSearchActive) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed.some((entry) => entry.isIntersecting)) {
+          fetchMoreEntries();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, isSearchActive, fetchMoreEntries]);
 
   useEffect(() => {
     if (error) {
@@ -30,19 +82,45 @@ export default function Entries() {
     }
   }, [error, toast]);
 
+  // Entries are encrypted at rest, so searching all of them has to happen on the server
   useEffect(() => {
-    if (searchQuery.trim()) {
-      const filtered = entries.filter((entry) =>
-        entry.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        entry.title.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredEntries(filtered);
-    } else {
+    const query = searchQuery.trim();
+    if (!query) {
+      setIsSearching(false);
       setFilteredEntries(entries);
+      return;
     }
-  }, [searchQuery, entries]);
 
-  if (isLoading) {
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchEntries(query);
+        if (!cancelled) {
+          setFilteredEntries(results.data);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          toast({
+            title: 'Search failed',
+            description: (err as ApiError).message || 'Failed to search entries',
+            variant: 'destructive',
+          });
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, entries, searchEntries, toast]);
+
+  if (isLoading && entries.length === 0 && !filtersActive) {
     return (
       <div className="min-h-screen bg-background">
         <Navbar />
@@ -58,30 +136,59 @@ export default function Entries() {
       <Navbar />
       
       <div className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
-        <div className="mb-8">
-          <h1 className="mb-2 text-4xl font-bold text-foreground">Your Journal</h1>
-          <p className="text-lg text-muted-foreground">
-            {entries.length} {entries.length === 1 ? 'entry' : 'entries'} in your collection
-          </p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="mb-2 text-4xl font-bold text-foreground">Your Journal</h1>
+            <p className="text-lg text-muted-foreground">
+              {`${entries.length}${hasMore ? '+' : ''} ${filtersActive ? 'matching ' : ''}`}
+              {entries.length === 1 && !hasMore ? 'entry' : 'entries'}
+              {filtersActive ? '' : ' in your collection'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => navigate('/entries/tags')}>
+              <Tag className="mr-2 h-4 w-4" />
+              Tags
+            </Button>
+            <Button variant="ghost" onClick={() => navigate('/entries/trash')}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
+            </Button>
+          </div>
         </div>
 
-        {entries.length > 0 && (
-          <div className="mb-6">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                type="text"
-                placeholder="Search your entries..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
+        {(entries.length > 0 || filtersActive) && (
+          <div className="mb-6 space-y-4">
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  type="text"
+                  placeholder="Search your entries..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Button
+                variant={showFilters || filtersActive ? 'secondary' : 'outline'}
+                onClick={() => setShowFilters((show) => !show)}
+                aria-expanded={showFilters}
+              >
+                <SlidersHorizontal className="mr-2 h-4 w-4" />
+                Filters
+              </Button>
             </div>
+            {showFilters && <EntryFilterBar filters={filters} onChange={setFilters} />}
           </div>
         )}
 
-        {filteredEntries.length === 0 ? (
-          entries.length === 0 ? (
+        {isSearching || isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          entries.length === 0 && !filtersActive && !isSearchActive ? (
             <EmptyState
               icon={BookOpen}
               title="No entries yet"
@@ -93,7 +200,7 @@ export default function Entries() {
             <EmptyState
               icon={Search}
               title="No matching entries"
-              description="Try adjusting your search query."
+              description="Try adjusting your search or filters."
             />
           )
         ) : (
@@ -102,11 +209,17 @@ export default function Entries() {
               <JournalEntryCard
                 key={entry.id}
                 entry={entry}
-                onClick={() => navigate(`/dashboard/entry/${entry.id}`)}
+                onClick={() => navigate(`/entries/${entry.id}`)}
               />
             ))}
           </div>
         )}
+
+        {!isSearchActive && hasMore && (
+          <div ref={loadMoreRef} className="flex justify-center py-8">
+            {isLoadingMore && <LoadingSpinner />}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -4,10 +4,16 @@ import { Navbar } from '@/components/layout/Navbar';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { InsightCard } from '@/components/journal/InsightCard';
+import { EntryHistory } from '@/components/journal/EntryHistory';
+import { EntryEditor } from '@/components/journal/EntryEditor';
+import { EntryFields } from '@/components/journal/EntryFields';
+import { EntryAttachments } from '@/components/journal/EntryAttachments';
+import { Badge } from '@/components/ui/badge';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import { Calendar, Trash2, ArrowLeft } from 'lucide-react';
+import { Calendar, Trash2, ArrowLeft, Pencil } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useEntries, JournalEntry } from '@/hooks/useEntries';
+import { useCustomMoods } from '@/hooks/useCustomMoods';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,9 +30,11 @@ export default function EntryDetail() {
   const { id } = useParams<{ id: string }>();
   const [entry, setEntry] = useState<JournalEntry | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
   const { getEntry, deleteEntry, isLoading, error } = useEntries();
+  const { describeEmotion } = useCustomMoods();
 
   useEffect(() => {
     if (!id) return;
@@ -35,6 +43,8 @@ export default function EntryDetail() {
       try {
         const fetchedEntry = await getEntry(id);
         setEntry(fetchedEntry);
+        // Drafts are still being written, so they open ready to continue
+        setIsEditing(fetchedEntry.status === 'DRAFT');
       } catch (err) {
         toast({
           title: 'Failed to load entry',
@@ -55,11 +65,11 @@ export default function EntryDetail() {
       await deleteEntry(id);
 
       toast({
-        title: 'Entry deleted',
-        description: 'Your journal entry has been removed.',
+        title: 'Entry moved to Trash',
+        description: 'You can restore it from the Trash.',
       });
       
-      navigate('/dashboard/entries');
+      navigate('/entries');
     } catch (err) {
       toast({
         title: 'Failed to delete entry',
@@ -71,6 +81,15 @@ export default function EntryDetail() {
     }
   };
 
+  const handleSaved = (saved: JournalEntry) => {
+    setEntry((prev) => ({ ...prev, ...saved }));
+    setIsEditing(false);
+    toast({
+      title: 'Entry saved! 📝',
+      description: 'Your changes have been saved.',
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -93,6 +112,7 @@ export default function EntryDetail() {
     );
   }
 
+  const emotions = entry.emotions ?? [];
   const date = new Date(entry.createdAt);
   const formattedDate = date.toLocaleDateString('en-US', {
     weekday: 'long',
@@ -108,7 +128,7 @@ export default function EntryDetail() {
       <div className="container mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
         <Button
           variant="ghost"
-          onClick={() => navigate('/dashboard/entries')}
+          onClick={() => navigate('/entries')}
           className="mb-6"
         >
           <ArrowLeft className="mr-2 h-4 w-4" />
@@ -119,45 +139,106 @@ export default function EntryDetail() {
           <div className="flex items-center gap-2 text-muted-foreground">
             <Calendar className="h-5 w-5" />
             <span>{formattedDate}</span>
+            {entry.status === 'DRAFT' && <Badge variant="secondary">Draft</Badge>}
           </div>
 
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="destructive" size="sm">
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete
+          <div className="flex gap-2">
+            {!isEditing && (
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
               </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This will permanently delete this journal entry. This action cannot be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={handleDelete}
-                  disabled={isDeleting}
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                >
-                  {isDeleting ? 'Deleting...' : 'Delete Entry'}
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+            )}
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" size="sm">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Move to Trash?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This will move the journal entry to the Trash. You can restore it from there until it is
+                    permanently deleted.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    {isDeleting ? 'Moving...' : 'Move to Trash'}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
         </div>
 
-        <div className="space-y-6">
-          <Card className="p-8">
-            <p className="whitespace-pre-wrap text-lg leading-relaxed text-foreground">
-              {entry.content}
-            </p>
-          </Card>
+        {isEditing ? (
+          <div className="space-y-6">
+            <EntryEditor
+              entry={entry}
+              onSaved={handleSaved}
+              onDraftSaved={(draft) => setEntry((prev) => ({ ...prev, ...draft }))}
+              onCancel={() => setIsEditing(false)}
+            />
+            <EntryAttachments entryId={entry.id} />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Card className="p-8">
+              {entry.title && <h1 className="mb-4 text-2xl font-bold text-foreground">{entry.title}</h1>}
+              {entry.fields && entry.fields.length > 0 && (
+                <div className="mb-6">
+                  <EntryFields fields={entry.fields} />
+                </div>
+              )}
+              {entry.content && (
+                <p className="whitespace-pre-wrap text-lg leading-relaxed text-foreground">
+                  {entry.content}
+                </p>
+              )}
+              {(emotions.length > 0 || (entry.tags && entry.tags.length > 0)) && (
+                <div className="mt-6 flex flex-wrap items-center gap-2">
+                  {emotions.map((emotion) => {
+                    const display = describeEmotion(emotion);
+                    return (
+                      <Badge key={emotion.customMoodId ?? emotion.mood} variant="outline">
+                        <span className="mr-1" aria-hidden="true">
+                          {display?.emoji}
+                        </span>
+                        {display?.label ?? emotion.mood}
+                        <span className="ml-1 text-muted-foreground">{Math.round(emotion.intensity * 100)}%</span>
+                      </Badge>
+                    );
+                  })}
+                  {entry.tags?.map((tag) => (
+                    <Badge key={tag} variant="secondary">
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </Card>
 
-          {entry.insight && <InsightCard insight={entry.insight} />}
-        </div>
+            <EntryAttachments entryId={entry.id} />
+
+            {entry.insight && <InsightCard insight={entry.insight} />}
+
+            {entry.status !== 'DRAFT' && (
+              <EntryHistory
+                entry={entry}
+                onRestored={(restored) => setEntry((prev) => ({ ...prev, ...restored }))}
+              />
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
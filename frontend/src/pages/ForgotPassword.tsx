@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { apiClient } from '@/lib/apiClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Navbar } from '@/components/layout/Navbar';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { KeyRound, MailCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import SEO from '@/components/common/SEO';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await apiClient.post('/api/v1/auth/forgot-password', { email }, { skipAuth: true });
+      setIsSent(true);
+    } catch (error) {
+      toast({
+        title: 'Request failed',
+        description: error instanceof Error ? error.message : 'Please try again later.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SEO title="Forgot Password" />
+      <Navbar />
+
+      <div className="container mx-auto flex min-h-[calc(100vh-4rem)] items-center justify-center px-4 py-12">
+        <Card className="w-full max-w-md p-8 shadow-lg">
+          <div className="mb-6 text-center">
+            <div className="mb-4 inline-flex items-center gap-2 text-primary">
+              {isSent ? <MailCheck className="h-8 w-8" /> : <KeyRound className="h-8 w-8" />}
+            </div>
+            <h1 className="mb-2 text-3xl font-bold text-foreground">
+              {isSent ? 'Check Your Email' : 'Forgot Password'}
+            </h1>
+            <p className="text-muted-foreground">
+              {isSent
+                ? `If an account exists for ${email}, we've sent a link to reset your password. It expires in 60 minutes.`
+                : "Enter your email and we'll send you a link to choose a new password."}
+            </p>
+          </div>
+
+          {!isSent && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  required
+                  className="mt-1"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <div className="flex items-center gap-2">
+                    <LoadingSpinner size="sm" />
+                    Sending...
+                  </div>
+                ) : (
+                  'Send Reset Link'
+                )}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link to="/login" className="text-sm font-medium text-primary hover:underline">
+              Back to sign in
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -7,29 +7,36 @@ import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
 import { Navbar } from '@/components/layout/Navbar';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import { Sparkles } from 'lucide-react';
+import { Sparkles, ShieldCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import SEO from '@/components/common/SEO';
 
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [mfaCode, setMfaCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const { login, verifyMfa, cancelMfa, mfaPending } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  const welcomeBack = () => {
+    toast({
+      title: 'Welcome back! 👋',
+      description: 'You have successfully signed in.',
+    });
+    navigate('/dashboard');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      await login(email, password);
-      toast({
-        title: 'Welcome back! 👋',
-        description: 'You have successfully signed in.',
-      });
-      navigate('/dashboard');
+      const { mfaRequired } = await login(email, password);
+      if (!mfaRequired) {
+        welcomeBack();
+      }
     } catch (error) {
       toast({
         title: 'Login failed',
@@ -41,6 +48,31 @@ export default function Login() {
     }
   };
 
+  const handleVerifyMfa = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await verifyMfa(mfaCode);
+      welcomeBack();
+    } catch (error) {
+      setMfaCode('');
+      toast({
+        title: 'Verification failed',
+        description: error instanceof Error ? error.message : 'Please check your code.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelMfa = () => {
+    cancelMfa();
+    setMfaCode('');
+    setPassword('');
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <SEO title="Sign In" />
@@ -56,48 +88,103 @@ export default function Login() {
             <p className="text-muted-foreground">Sign in to continue your journey</p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="you@example.com"
-                required
-                className="mt-1"
-              />
-            </div>
+          {mfaPending ? (
+            <form onSubmit={handleVerifyMfa} className="space-y-4">
+              <div className="flex items-start gap-3 rounded-lg bg-primary/5 p-3 text-sm text-muted-foreground">
+                <ShieldCheck className="mt-0.5 h-5 w-5 shrink-0 text-primary" />
+                <p>
+                  Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                </p>
+              </div>
 
-            <div>
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter your password"
-                required
-                className="mt-1"
-              />
-            </div>
+              <div>
+                <Label htmlFor="mfa-code">Verification code</Label>
+                <Input
+                  id="mfa-code"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  className="mt-1"
+                />
+              </div>
 
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <div className="flex items-center gap-2">
-                  <LoadingSpinner size="sm" />
-                  Signing in...
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <div className="flex items-center gap-2">
+                    <LoadingSpinner size="sm" />
+                    Verifying...
+                  </div>
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={handleCancelMfa}
+                disabled={isLoading}
+              >
+                Back to sign in
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  required
+                  className="mt-1"
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                    Forgot password?
+                  </Link>
                 </div>
-              ) : (
-                'Sign In'
-              )}
-            </Button>
-          </form>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Enter your password"
+                  required
+                  className="mt-1"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <div className="flex items-center gap-2">
+                    <LoadingSpinner size="sm" />
+                    Signing in...
+                  </div>
+                ) : (
+                  'Sign In'
+                )}
+              </Button>
+            </form>
+          )}
 
           <div className="mt-6 space-y-4 text-center">
             <p className="text-sm text-muted-foreground">
@@ -2,24 +2,20 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Navbar } from '@/components/layout/Navbar';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
-import { Card } from '@/components/ui/card';
 import { InsightCard } from '@/components/journal/InsightCard';
+import { EntryEditor } from '@/components/journal/EntryEditor';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import { Sparkles, Save } from 'lucide-react';
+import { Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useEntries } from '@/hooks/useEntries';
 
 export default function NewEntry() {
-  const [content, setContent] = useState('');
   const [insight, setInsight] = useState('');
   const [isGeneratingInsight, setIsGeneratingInsight] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { createEntry, isLoading: isSaving, error } = useEntries();
   const apiBaseUrl = import.meta.env.VITE_API_URL || '';
 
-  const generateInsight = async () => {
+  const generateInsight = async (content: string) => {
     if (!content.trim()) {
       toast({
         title: 'Write something first',
@@ -60,35 +56,13 @@ export default function NewEntry() {
     }
   };
 
-  const saveEntry = async () => {
-    if (!content.trim()) {
-      toast({
-        title: 'Entry is empty',
-        description: 'Please write something before saving.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    try {
-      await createEntry({
-        title: content.split('\n')[0].substring(0, 100),
-        content,
-      });
+  const handleSaved = () => {
+    toast({
+      title: 'Entry saved! 📝',
+      description: 'Your reflection has been saved successfully.',
+    });
 
-      toast({
-        title: 'Entry saved! 📝',
-        description: 'Your reflection has been saved successfully.',
-      });
-      
-      navigate('/dashboard/entries');
-    } catch (err) {
-      toast({
-        title: 'Failed to save entry',
-        description: error || 'Please try again.',
-        variant: 'destructive',
-      });
-    }
+    navigate('/entries');
   };
 
   return (
@@ -104,56 +78,31 @@ export default function NewEntry() {
         </div>
 
         <div className="space-y-6">
-          <Card className="p-6">
-            <Textarea
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              placeholder="How are you feeling? What's on your mind today?"
-              className="min-h-[300px] resize-none border-0 text-base focus-visible:ring-0"
-              autoFocus
-            />
-          </Card>
+          <EntryEditor
+            onSaved={handleSaved}
+            renderActions={(content) => (
+              <Button
+                onClick={() => generateInsight(content)}
+                disabled={isGeneratingInsight || !content.trim()}
+                variant="outline"
+                className="flex-1"
+              >
+                {isGeneratingInsight ? (
+                  <>
+                    <LoadingSpinner size="sm" />
+                    <span className="ml-2">Generating insight...</span>
+                  </>
+                ) : (
+                  <>
+                    <Sparkles className="mr-2 h-4 w-4" />
+                    Generate Insight
+                  </>
+                )}
+              </Button>
+            )}
+          />
 
           {insight && <InsightCard insight={insight} />}
-
-          <div className="flex flex-col gap-3 sm:flex-row">
-            <Button
-              onClick={generateInsight}
-              disabled={isGeneratingInsight || !content.trim()}
-              variant="outline"
-              className="flex-1"
-            >
-              {isGeneratingInsight ? (
-                <>
-                  <LoadingSpinner size="sm" />
-                  <span className="ml-2">Generating insight...</span>
-                </>
-              ) : (
-                <>
-                  <Sparkles className="mr-2 h-4 w-4" />
-                  Generate Insight
-                </>
-              )}
-            </Button>
-
-            <Button
-              onClick={saveEntry}
-              disabled={isSaving || !content.trim()}
-              className="flex-1"
-            >
-              {isSaving ? (
-                <>
-                  <LoadingSpinner size="sm" />
-                  <span className="ml-2">Saving...</span>
-                </>
-              ) : (
-                <>
-                  <Save className="mr-2 h-4 w-4" />
-                  Save Entry
-                </>
-              )}
-            </Button>
-          </div>
         </div>
       </div>
     </div>
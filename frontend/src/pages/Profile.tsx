@@ -7,20 +7,76 @@ import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { User, Moon, Sun, LogOut, Save, Download, Trash2 } from 'lucide-react';
+import { User, Moon, Sun, LogOut, Save, Download, Trash2, Monitor, Smartphone } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
-import { useProfile } from '@/hooks/useProfile';
+import { useProfile, ActiveSession, AccountDeletionReceipt, EXPORT_FORMATS, ExportFormat } from '@/hooks/useProfile';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { TwoFactorCard } from '@/components/profile/TwoFactorCard';
+import { AccessTokensCard } from '@/components/profile/AccessTokensCard';
+import { CustomMoodsCard } from '@/components/profile/CustomMoodsCard';
+import { ImportEntriesCard } from '@/components/profile/ImportEntriesCard';
+import { TemplatesCard } from '@/components/journal/TemplatesCard';
+
+const isMobileDevice = (userAgent: string | null) =>
+  !!userAgent && /Mobile|Android|iPhone|iPad/i.test(userAgent);
+
+/**
+ * Turn a user agent string into a short label such as "Firefox on Windows"
+ */
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser =
+    [['Edg/', 'Edge'], ['OPR/', 'Opera'], ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari']]
+      .find(([token]) => userAgent.includes(token))?.[1] || 'Browser';
+  const os =
+    [['Windows', 'Windows'], ['Android', 'Android'], ['iPhone', 'iOS'], ['iPad', 'iPadOS'], ['Mac OS', 'macOS'], ['Linux', 'Linux']]
+      .find(([token]) => userAgent.includes(token))?.[1];
+
+  return os ? `${browser} on ${os}` : browser;
+};
+
+/**
+ * Save the deletion receipt as a JSON file so the user can keep proof of deletion
+ */
+const downloadDeletionReceipt = (receipt: AccountDeletionReceipt) => {
+  const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+  const url = window.URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `microcare-deletion-receipt-${receipt.receiptId}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
 
 export default function Profile() {
   const { user, logout } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { profile, fetchProfile, updateProfile, changePassword, exportEntries, deleteAccount, isLoading, error } = useProfile();
+  const {
+    profile,
+    sessions,
+    fetchProfile,
+    updateProfile,
+    changePassword,
+    exportEntries,
+    deleteAccount,
+    fetchSessions,
+    revokeSession,
+    revokeOtherSessions,
+    isLoading,
+    error,
+  } = useProfile();
   
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
@@ -33,9 +89,13 @@ export default function Profile() {
   const [deletePassword, setDeletePassword] = useState('');
   const [deleteConfirmation, setDeleteConfirmation] = useState('');
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf');
+  const [isExporting, setIsExporting] = useState(false);
 
   useEffect(() => {
     fetchProfile();
+    fetchSessions().catch(() => undefined);
   }, []);
 
   useEffect(() => {
@@ -56,8 +116,8 @@ export default function Profile() {
     }
   }, [error, toast]);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/');
   };
 
@@ -162,16 +222,57 @@ export default function Profile() {
     }
   };
 
-  const handleExport = async (format: 'pdf' | 'json' | 'txt') => {
+  const handleExport = async (format: ExportFormat) => {
+    const label = EXPORT_FORMATS.find((option) => option.value === format)?.label ?? format;
+    setIsExporting(true);
     try {
       await exportEntries(format);
       toast({
         title: 'Export started',
-        description: `Your ${format.toUpperCase()} export is downloading.`,
+        description: `Your ${label} export is downloading.`,
       });
     } catch (err) {
       toast({
         title: 'Export failed',
+        description: (err as { message?: string })?.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRevokeSession = async (session: ActiveSession) => {
+    setRevokingSessionId(session.id);
+    try {
+      await revokeSession(session.id);
+      toast({
+        title: 'Device signed out',
+        description: `${describeDevice(session.userAgent)} has been signed out.`,
+      });
+    } catch (err) {
+      toast({
+        title: 'Failed to sign out device',
+        description: error || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    try {
+      const revokedCount = await revokeOtherSessions();
+      toast({
+        title: 'Signed out everywhere else',
+        description: revokedCount === 1
+          ? '1 other device has been signed out.'
+          : `${revokedCount} other devices have been signed out.`,
+      });
+    } catch (err) {
+      toast({
+        title: 'Failed to sign out other devices',
         description: error || 'Please try again.',
         variant: 'destructive',
       });
@@ -199,12 +300,13 @@ export default function Profile() {
 
     setIsDeletingAccount(true);
     try {
-      await deleteAccount(deletePassword);
+      const receipt = await deleteAccount(deletePassword);
+      downloadDeletionReceipt(receipt);
       toast({
         title: 'Account deleted',
-        description: 'Your account and all data have been removed.',
+        description: 'Your account and all data have been removed. A deletion receipt has been downloaded.',
       });
-      logout();
+      await logout();
       navigate('/');
     } catch (err) {
       toast({
@@ -249,6 +351,11 @@ export default function Profile() {
               <div>
                 <h2 className="text-2xl font-bold text-foreground">{profile?.name || user?.name}</h2>
                 <p className="text-muted-foreground">{profile?.email || user?.email}</p>
+                {profile && profile.emailVerified === false && (
+                  <p className="text-xs text-muted-foreground">
+                    Email not verified yet. Check your inbox for the confirmation link.
+                  </p>
+                )}
               </div>
             </div>
 
@@ -377,6 +484,14 @@ export default function Profile() {
             )}
           </Card>
 
+          <CustomMoodsCard />
+
+          <TemplatesCard />
+
+          <TwoFactorCard />
+
+          <AccessTokensCard />
+
           <Card className="p-6">
             <h3 className="mb-4 text-lg font-semibold text-foreground">Appearance</h3>
             <div className="flex items-center justify-between">
@@ -425,26 +540,92 @@ export default function Profile() {
               <div>
                 <Label className="text-base">Export Your Entries</Label>
                 <p className="text-sm text-muted-foreground">
-                  Download your journal in PDF, JSON, or TXT.
+                  Download your journal to read, print, keep in a spreadsheet, or move to another app.
                 </p>
-                <div className="mt-3 flex flex-wrap gap-2">
-                  <Button variant="outline" onClick={() => handleExport('pdf')}>
-                    <Download className="mr-2 h-4 w-4" />
-                    Export PDF
-                  </Button>
-                  <Button variant="outline" onClick={() => handleExport('json')}>
-                    <Download className="mr-2 h-4 w-4" />
-                    Export JSON
-                  </Button>
-                  <Button variant="outline" onClick={() => handleExport('txt')}>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                    <SelectTrigger className="w-56" aria-label="Export format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPORT_FORMATS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={() => handleExport(exportFormat)} disabled={isExporting}>
                     <Download className="mr-2 h-4 w-4" />
-                    Export TXT
+                    {isExporting ? 'Exporting...' : 'Export'}
                   </Button>
                 </div>
+                <p className="mt-2 text-xs text-muted-foreground">
+                  {EXPORT_FORMATS.find((option) => option.value === exportFormat)?.description}
+                </p>
               </div>
             </div>
           </Card>
 
+          <ImportEntriesCard />
+
+          <Card className="p-6">
+            <div className="mb-4 flex items-center justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-foreground">Devices</h3>
+                <p className="text-sm text-muted-foreground">
+                  Places where you're currently signed in.
+                </p>
+              </div>
+              {sessions.some((session) => !session.current) && (
+                <Button variant="outline" size="sm" onClick={handleRevokeOtherSessions}>
+                  Sign out everywhere else
+                </Button>
+              )}
+            </div>
+            <div className="space-y-3">
+              {sessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No active sessions found.</p>
+              ) : (
+                sessions.map((session) => {
+                  const DeviceIcon = isMobileDevice(session.userAgent) ? Smartphone : Monitor;
+                  return (
+                    <div
+                      key={session.id}
+                      className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+                    >
+                      <div className="flex items-center gap-3">
+                        <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+                        <div>
+                          <p className="text-sm font-medium text-foreground">
+                            {describeDevice(session.userAgent)}
+                            {session.current && (
+                              <span className="ml-2 text-xs font-normal text-primary">This device</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {session.ipAddress || 'Unknown location'} · Last active{' '}
+                            {new Date(session.lastSeenAt).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                      {!session.current && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevokeSession(session)}
+                          disabled={revokingSessionId === session.id}
+                        >
+                          {revokingSessionId === session.id ? 'Signing out...' : 'Sign out'}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </Card>
+
           <Card className="border-destructive/30 p-6">
             <h3 className="mb-4 text-lg font-semibold text-foreground">Account Actions</h3>
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
@@ -470,8 +651,9 @@ export default function Profile() {
                   </AlertDialogHeader>
                   <Alert className="border-destructive/40">
                     <AlertDescription>
-                      This permanently removes your account, journal entries, and insights. Download any
-                      entries you want to keep first.
+                      This permanently removes your account, journal entries, and insights, and destroys
+                      the keys they were encrypted with. Download any entries you want to keep first. You
+                      will receive a signed receipt confirming the deletion.
                     </AlertDescription>
                   </Alert>
                   <div className="space-y-3">
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { apiClient } from '@/lib/apiClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Navbar } from '@/components/layout/Navbar';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { KeyRound } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import SEO from '@/components/common/SEO';
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: 'Passwords do not match',
+        description: 'Please enter the same password twice.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await apiClient.post(
+        '/api/v1/auth/reset-password',
+        { token, newPassword },
+        { skipAuth: true }
+      );
+      toast({
+        title: 'Password reset',
+        description: 'You have been signed out everywhere. Sign in with your new password.',
+      });
+      navigate('/login');
+    } catch (error) {
+      toast({
+        title: 'Reset failed',
+        description: error instanceof Error ? error.message : 'Please request a new link.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SEO title="Reset Password" />
+      <Navbar />
+
+      <div className="container mx-auto flex min-h-[calc(100vh-4rem)] items-center justify-center px-4 py-12">
+        <Card className="w-full max-w-md p-8 shadow-lg">
+          <div className="mb-6 text-center">
+            <div className="mb-4 inline-flex items-center gap-2 text-primary">
+              <KeyRound className="h-8 w-8" />
+            </div>
+            <h1 className="mb-2 text-3xl font-bold text-foreground">Choose a New Password</h1>
+            <p className="text-muted-foreground">This will sign you out on all devices</p>
+          </div>
+
+          {!token ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                This reset link is incomplete. Please request a new one.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  placeholder="At least 8 characters"
+                  autoComplete="new-password"
+                  required
+                  className="mt-1"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Repeat your new password"
+                  autoComplete="new-password"
+                  required
+                  className="mt-1"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <div className="flex items-center gap-2">
+                    <LoadingSpinner size="sm" />
+                    Resetting...
+                  </div>
+                ) : (
+                  'Reset Password'
+                )}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link to="/forgot-password" className="text-sm font-medium text-primary hover:underline">
+              Request a new link
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
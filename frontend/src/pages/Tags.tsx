@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Navbar } from '@/components/layout/Navbar';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { EmptyState } from '@/components/common/EmptyState';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { ArrowLeft, Check, Merge, Pencil, Search, Tag, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTags, normalizeTag, TagCount } from '@/hooks/useTags';
+import { ApiError } from '@/lib/apiClient';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function entriesLabel(count: number): string {
+  return `${count} ${count === 1 ? 'entry' : 'entries'}`;
+}
+
+export default function Tags() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { tags, isLoading, renameTag, mergeTags, deleteTag } = useTags();
+
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ tag: string; name: string } | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeInto, setMergeInto] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const visible = tags.filter(({ tag }) => tag.includes(normalizeTag(query)));
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      title,
+      description: (err as ApiError).message || 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const toggleSelected = (tag: string, checked: boolean) => {
+    const next = checked ? [...selected, tag] : selected.filter((item) => item !== tag);
+    setSelected(next);
+    // Suggest merging into the most used of the selected tags
+    if (!mergeInto || !next.includes(mergeInto)) {
+      setMergeInto(tags.find((item) => next.includes(item.tag))?.tag ?? '');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const name = normalizeTag(renaming.name);
+    if (!name || name === renaming.tag) {
+      setRenaming(null);
+      return;
+    }
+
+    const merging = tags.some((item) => item.tag === name);
+    setBusy(true);
+    try {
+      const result = await renameTag(renaming.tag, name);
+      setSelected((prev) => prev.filter((item) => item !== renaming.tag));
+      setRenaming(null);
+      toast({
+        title: merging ? 'Tags merged' : 'Tag renamed',
+        description: `"${renaming.tag}" is now "${name}" on ${entriesLabel(result.entriesUpdated)}.`,
+      });
+    } catch (err) {
+      showError('Failed to rename tag', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    const into = normalizeTag(mergeInto);
+    if (!into) return;
+
+    setBusy(true);
+    try {
+      const result = await mergeTags(selected, into);
+      toast({
+        title: 'Tags merged',
+        description: `${entriesLabel(result.entriesUpdated)} now tagged "${into}".`,
+      });
+      setSelected([]);
+      setMergeInto('');
+    } catch (err) {
+      showError('Failed to merge tags', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (item: TagCount) => {
+    setBusy(true);
+    try {
+      const result = await deleteTag(item.tag);
+      setSelected((prev) => prev.filter((tag) => tag !== item.tag));
+      toast({
+        title: 'Tag deleted',
+        description: `"${item.tag}" was removed from ${entriesLabel(result.entriesUpdated)}.`,
+      });
+    } catch (err) {
+      showError('Failed to delete tag', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
+        <Button variant="ghost" onClick={() => navigate('/entries')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="mb-2 text-4xl font-bold text-foreground">Tags</h1>
+          <p className="text-lg text-muted-foreground">
+            Rename, merge or remove tags. Changes apply to all of your entries at once.
+          </p>
+        </div>
+
+        {isLoading && tags.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : tags.length === 0 ? (
+          <EmptyState
+            icon={Tag}
+            title="No tags yet"
+            description="Tags you add to your entries will appear here."
+          />
+        ) : (
+          <div className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Find a tag..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+
+            {selected.length >= 2 && (
+              <Card className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center">
+                <p className="text-sm text-foreground">Merge {selected.length} tags into</p>
+                <Input
+                  value={mergeInto}
+                  onChange={(e) => setMergeInto(e.target.value)}
+                  className="sm:max-w-xs"
+                  aria-label="Tag to merge into"
+                />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleMerge} disabled={busy || !normalizeTag(mergeInto)}>
+                    <Merge className="mr-2 h-4 w-4" />
+                    Merge
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setSelected([])}>
+                    Clear
+                  </Button>
+                </div>
+              </Card>
+            )}
+
+            {visible.map((item) => (
+              <Card key={item.tag} className="p-4">
+                <div className="flex items-center gap-4">
+                  <Checkbox
+                    checked={selected.includes(item.tag)}
+                    onCheckedChange={(checked) => toggleSelected(item.tag, checked === true)}
+                    aria-label={`Select ${item.tag}`}
+                  />
+
+                  {renaming?.tag === item.tag ? (
+                    <div className="flex min-w-0 flex-1 gap-2">
+                      <Input
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ tag: item.tag, name: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setRenaming(null);
+                        }}
+                        autoFocus
+                        aria-label={`New name for ${item.tag}`}
+                      />
+                      <Button size="sm" onClick={handleRename} disabled={busy} aria-label="Save name">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setRenaming(null)} aria-label="Cancel">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium text-foreground">{item.tag}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {entriesLabel(item.count)} · Last used {formatDate(item.lastUsedAt)}
+                        </p>
+                      </div>
+
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRenaming({ tag: item.tag, name: item.tag })}
+                          disabled={busy}
+                          aria-label={`Rename ${item.tag}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" disabled={busy} aria-label={`Delete ${item.tag}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete "{item.tag}"?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The tag will be removed from {entriesLabel(item.count)}, and from any in the
+                                Trash. The entries themselves are kept.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDelete(item)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete Tag
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </Card>
+            ))}
+
+            {visible.length === 0 && (
+              <p className="py-8 text-center text-sm text-muted-foreground">No tags match "{query}".</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
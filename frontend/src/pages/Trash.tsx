@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Navbar } from '@/components/layout/Navbar';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { EmptyState } from '@/components/common/EmptyState';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useEntries, TrashedEntry } from '@/hooks/useEntries';
+import { ApiError } from '@/lib/apiClient';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+const PAGE_SIZE = 20;
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function Trash() {
+  const [entries, setEntries] = useState<TrashedEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { fetchTrash, restoreEntry, deleteEntryPermanently } = useEntries();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchTrash(page, PAGE_SIZE)
+      .then((result) => {
+        if (cancelled) return;
+        setEntries((prev) => (page === 1 ? result.data : [...prev, ...result.data]));
+        setTotalPages(result.totalPages);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        toast({
+          title: 'Failed to load Trash',
+          description: (err as ApiError).message || 'Please try again.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page, fetchTrash, toast]);
+
+  const handleRestore = async (entry: TrashedEntry) => {
+    setBusyId(entry.id);
+    try {
+      await restoreEntry(entry.id);
+      setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+      toast({
+        title: 'Entry restored',
+        description: `"${entry.title}" is back in your journal.`,
+      });
+    } catch (err) {
+      toast({
+        title: 'Failed to restore entry',
+        description: (err as ApiError).message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = async (entry: TrashedEntry) => {
+    setBusyId(entry.id);
+    try {
+      await deleteEntryPermanently(entry.id);
+      setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+      toast({
+        title: 'Entry deleted',
+        description: 'The entry and its history have been permanently deleted.',
+      });
+    } catch (err) {
+      toast({
+        title: 'Failed to delete entry',
+        description: (err as ApiError).message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
+        <Button variant="ghost" onClick={() => navigate('/entries')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Entries
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="mb-2 text-4xl font-bold text-foreground">Trash</h1>
+          <p className="text-lg text-muted-foreground">
+            Deleted entries are kept here for a while before they are permanently deleted.
+          </p>
+        </div>
+
+        {isLoading && entries.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : entries.length === 0 ? (
+          <EmptyState
+            icon={Trash2}
+            title="Trash is empty"
+            description="Entries you delete will appear here."
+          />
+        ) : (
+          <div className="space-y-4">
+            {entries.map((entry) => (
+              <Card key={entry.id} className="p-6">
+                <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="min-w-0 flex-1">
+                    <h2 className="truncate text-lg font-semibold text-foreground">
+                      {entry.title || 'Untitled Entry'}
+                    </h2>
+                    <p className="mt-1 line-clamp-2 text-sm text-muted-foreground">{entry.content}</p>
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      Deleted {formatDate(entry.deletedAt)} · Permanently deleted on {formatDate(entry.purgeAt)}
+                    </p>
+                  </div>
+
+                  <div className="flex shrink-0 gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(entry)}
+                      disabled={busyId === entry.id}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={busyId === entry.id}>
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete forever
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This will permanently delete this journal entry and its history. This action
+                            cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDeleteForever(entry)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete Forever
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </Card>
+            ))}
+
+            {page < totalPages && (
+              <div className="flex justify-center pt-4">
+                <Button variant="outline" onClick={() => setPage((p) => p + 1)} disabled={isLoading}>
+                  {isLoading ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
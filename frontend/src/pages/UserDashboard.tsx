@@ -6,18 +6,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { BookOpen, TrendingUp, Calendar, PlusCircle } from 'lucide-react';
 import SEO from '@/components/common/SEO';
+import { useMoods, valenceToScore } from '@/hooks/useMoods';
+import { useCustomMoods } from '@/hooks/useCustomMoods';
+import { EntryEmotion } from '@/hooks/useEntries';
 
 interface DashboardStats {
     totalEntries: number;
     entriesThisWeek: number;
     currentStreak: number;
-    averageMoodScore: number;
 }
 
 interface RecentEntry {
     id: string;
     title: string;
     mood: string | null;
+    emotions?: EntryEmotion[];
     createdAt: string;
 }
 
@@ -28,9 +31,12 @@ export default function UserDashboard() {
         totalEntries: 0,
         entriesThisWeek: 0,
         currentStreak: 0,
-        averageMoodScore: 0,
     });
     const [recentEntries, setRecentEntries] = useState<RecentEntry[]>([]);
+    // Kept so the average can be scored once the mood vocabulary and custom moods have loaded
+    const [entryEmotions, setEntryEmotions] = useState<EntryEmotion[][]>([]);
+    const { getMood } = useMoods();
+    const { describeEmotion } = useCustomMoods();
     const [isLoading, setIsLoading] = useState(true);
 
     useEffect(() => {
@@ -40,8 +46,10 @@ export default function UserDashboard() {
     const fetchDashboardData = async () => {
         try {
             setIsLoading(true);
-            // Fetch user's entries to calculate stats
-            const entries = await apiClient.get<any>('/api/v1/entries');
+            // Fetch user's entries to calculate stats, leaving out unpublished drafts
+            const entries = await apiClient.get<any>('/api/v1/entries', {
+                params: { status: 'PUBLISHED' },
+            });
 
             // Calculate stats from entries
             const now = new Date();
@@ -55,8 +63,8 @@ export default function UserDashboard() {
                 totalEntries: entries.data.length,
                 entriesThisWeek,
                 currentStreak: calculateStreak(entries.data),
-                averageMoodScore: calculateAverageMood(entries.data),
             });
+            setEntryEmotions(entries.data.map((entry: any) => entry.emotions ?? []));
 
             // Get recent entries (last 5)
             setRecentEntries(entries.data.slice(0, 5));
@@ -95,23 +103,28 @@ export default function UserDashboard() {
         return streak;
     };
 
-    const calculateAverageMood = (entries: any[]): number => {
-        const moodScores: { [key: string]: number } = {
-            'very_happy': 5,
-            'happy': 4,
-            'neutral': 3,
-            'sad': 2,
-            'very_sad': 1,
-        };
-
-        const entriesWithMood = entries.filter(e => e.mood && moodScores[e.mood]);
-        if (entriesWithMood.length === 0) return 0;
-
-        const totalScore = entriesWithMood.reduce((sum, entry) =>
-            sum + (moodScores[entry.mood] || 0), 0
-        );
+    // Each entry is scored from the valence of its emotions, weighted by how strongly each was
+    // felt, with custom moods at their own valence; the average is shown on a 1 to 5 scale
+    const calculateAverageMood = (emotionsByEntry: EntryEmotion[][]): number => {
+        const valences = emotionsByEntry
+            .map((emotions) => {
+                let weighted = 0;
+                let total = 0;
+                for (const emotion of emotions) {
+                    const valence = describeEmotion(emotion)?.valence;
+                    if (valence === undefined) continue;
+                    // An emotion felt at zero intensity still counts a little
+                    const weight = Math.max(emotion.intensity, 0.05);
+                    weighted += valence * weight;
+                    total += weight;
+                }
+                return total > 0 ? weighted / total : undefined;
+            })
+            .filter((valence): valence is number => valence !== undefined);
+        if (valences.length === 0) return 0;
 
-        return Math.round((totalScore / entriesWithMood.length) * 10) / 10;
+        const average = valences.reduce((sum, valence) => sum + valence, 0) / valences.length;
+        return Math.round(valenceToScore(average) * 10) / 10;
     };
 
     const getMoodEmoji = (score: number): string => {
@@ -122,6 +135,17 @@ export default function UserDashboard() {
         return '😢';
     };
 
+    const averageMoodScore = calculateAverageMood(entryEmotions);
+
+    // How often each base mood was felt, with custom moods counted as their base mood
+    const emotionCounts = Object.entries(
+        entryEmotions.flat().reduce<Record<string, number>>((counts, emotion) => {
+            counts[emotion.mood] = (counts[emotion.mood] ?? 0) + 1;
+            return counts;
+        }, {})
+    ).sort(([, a], [, b]) => b - a);
+    const totalEmotions = emotionCounts.reduce((sum, [, count]) => sum + count, 0);
+
     if (isLoading) {
         return (
             <div className="flex items-center justify-center min-h-screen">
@@ -179,15 +203,41 @@ export default function UserDashboard() {
                 <Card>
                     <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                         <CardTitle className="text-sm font-medium">Average Mood</CardTitle>
-                        <span className="text-2xl">{getMoodEmoji(stats.averageMoodScore)}</span>
+                        <span className="text-2xl">{getMoodEmoji(averageMoodScore)}</span>
                     </CardHeader>
                     <CardContent>
-                        <div className="text-2xl font-bold">{stats.averageMoodScore.toFixed(1)}/5</div>
+                        <div className="text-2xl font-bold">{averageMoodScore.toFixed(1)}/5</div>
                         <p className="text-xs text-muted-foreground">Overall mood score</p>
                     </CardContent>
                 </Card>
             </div>
 
+            {/* Emotions */}
+            {totalEmotions > 0 && (
+                <Card className="mb-8">
+                    <CardHeader>
+                        <CardTitle>Emotions Felt</CardTitle>
+                        <CardDescription>Across your recent entries, with your own moods counted as their base mood</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {emotionCounts.map(([mood, count]) => (
+                            <div key={mood} className="flex items-center gap-3">
+                                <span className="w-28 text-sm">
+                                    {getMood(mood)?.emoji} {getMood(mood)?.label ?? mood}
+                                </span>
+                                <div className="h-2 flex-1 rounded-full bg-muted">
+                                    <div
+                                        className="h-2 rounded-full bg-primary"
+                                        style={{ width: `${(count / totalEmotions) * 100}%` }}
+                                    />
+                                </div>
+                                <span className="w-8 text-right text-xs text-muted-foreground">{count}</span>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Quick Actions */}
             <Card className="mb-8">
                 <CardHeader>
@@ -241,13 +291,13 @@ export default function UserDashboard() {
                                             })}
                                         </p>
                                     </div>
-                                    {entry.mood && (
-                                        <span className="text-2xl ml-4">
-                                            {entry.mood === 'very_happy' && '😊'}
-                                            {entry.mood === 'happy' && '🙂'}
-                                            {entry.mood === 'neutral' && '😐'}
-                                            {entry.mood === 'sad' && '😔'}
-                                            {entry.mood === 'very_sad' && '😢'}
+                                    {entry.emotions?.[0] ? (
+                                        <span className="text-2xl ml-4" title={describeEmotion(entry.emotions[0])?.label}>
+                                            {describeEmotion(entry.emotions[0])?.emoji}
+                                        </span>
+                                    ) : entry.mood && (
+                                        <span className="text-2xl ml-4" title={getMood(entry.mood)?.label}>
+                                            {getMood(entry.mood)?.emoji}
                                         </span>
                                     )}
                                 </div>
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { apiClient } from '@/lib/apiClient';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Navbar } from '@/components/layout/Navbar';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { MailCheck, MailX } from 'lucide-react';
+import SEO from '@/components/common/SEO';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { user } = useAuth();
+  const [state, setState] = useState<VerificationState>(token ? 'verifying' : 'failed');
+  const [errorMessage, setErrorMessage] = useState('This verification link is incomplete.');
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so make sure a re-render never submits twice
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    apiClient
+      .post('/api/v1/auth/verify-email', { token }, { skipAuth: true })
+      .then(() => setState('verified'))
+      .catch((error) => {
+        setErrorMessage(error instanceof Error ? error.message : 'Verification failed.');
+        setState('failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SEO title="Verify Email" />
+      <Navbar />
+
+      <div className="container mx-auto flex min-h-[calc(100vh-4rem)] items-center justify-center px-4 py-12">
+        <Card className="w-full max-w-md p-8 text-center shadow-lg">
+          {state === 'verifying' && (
+            <div className="flex flex-col items-center gap-4">
+              <LoadingSpinner />
+              <p className="text-muted-foreground">Confirming your email address...</p>
+            </div>
+          )}
+
+          {state === 'verified' && (
+            <>
+              <div className="mb-4 inline-flex items-center gap-2 text-primary">
+                <MailCheck className="h-8 w-8" />
+              </div>
+              <h1 className="mb-2 text-3xl font-bold text-foreground">Email Verified</h1>
+              <p className="mb-6 text-muted-foreground">Thanks for confirming your email address.</p>
+              <Button asChild className="w-full">
+                <Link to={user ? '/dashboard' : '/login'}>
+                  {user ? 'Go to dashboard' : 'Sign in'}
+                </Link>
+              </Button>
+            </>
+          )}
+
+          {state === 'failed' && (
+            <>
+              <div className="mb-4 inline-flex items-center gap-2 text-destructive">
+                <MailX className="h-8 w-8" />
+              </div>
+              <h1 className="mb-2 text-3xl font-bold text-foreground">Verification Failed</h1>
+              <p className="mb-6 text-muted-foreground">
+                {errorMessage} Links expire after 24 hours and can only be used once.
+              </p>
+              <Button asChild variant="outline" className="w-full">
+                <Link to={user ? '/profile' : '/login'}>
+                  {user ? 'Back to profile' : 'Back to sign in'}
+                </Link>
+              </Button>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Users, FileText, Shield, Search, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { TemplatesCard } from '@/components/journal/TemplatesCard';
 
 interface SystemStats {
     totalUsers: number;
@@ -39,6 +40,7 @@ interface User {
     role: string;
     createdAt: string;
     hasCompletedOnboarding: boolean;
+    mfaEnabled: boolean;
 }
 
 interface UsersResponse {
@@ -229,6 +231,7 @@ export default function AdminDashboard() {
                                         <TableHead>Role</TableHead>
                                         <TableHead>Joined</TableHead>
                                         <TableHead>Status</TableHead>
+                                        <TableHead>2FA</TableHead>
                                         <TableHead className="text-right">Actions</TableHead>
                                     </TableRow>
                                 </TableHeader>
@@ -264,6 +267,14 @@ export default function AdminDashboard() {
                                                     {user.hasCompletedOnboarding ? 'Active' : 'Onboarding'}
                                                 </span>
                                             </TableCell>
+                                            <TableCell>
+                                                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${user.mfaEnabled
+                                                        ? 'bg-green-100 text-green-800'
+                                                        : 'bg-gray-100 text-gray-800'
+                                                    }`}>
+                                                    {user.mfaEnabled ? 'On' : 'Off'}
+                                                </span>
+                                            </TableCell>
                                             <TableCell className="text-right">
                                                 <Button
                                                     variant="ghost"
@@ -310,6 +321,10 @@ export default function AdminDashboard() {
                     )}
                 </CardContent>
             </Card>
+
+            <div className="mt-8">
+                <TemplatesCard global />
+            </div>
         </div>
     );
 }
@@ -3,6 +3,7 @@ import { apiClient } from '@/lib/apiClient';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Users, Activity, TrendingUp, Calendar } from 'lucide-react';
 import { toast } from 'sonner';
+import { useMoods } from '@/hooks/useMoods';
 
 interface PatientOverview {
     totalPatients: number;
@@ -15,8 +16,17 @@ interface MoodDistribution {
     [mood: string]: number;
 }
 
+// Every emotion felt, with custom moods rolled up to their base mood
+interface EmotionDistribution {
+    [mood: string]: {
+        count: number;
+        averageIntensity: number;
+    };
+}
+
 interface Analytics {
     moodDistribution: MoodDistribution;
+    emotionDistribution: EmotionDistribution;
     entriesOverTime: Array<{
         date: string;
         count: number;
@@ -27,6 +37,7 @@ export default function MedicalDashboard() {
     const [overview, setOverview] = useState<PatientOverview | null>(null);
     const [analytics, setAnalytics] = useState<Analytics | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const { getMood } = useMoods();
 
     useEffect(() => {
         fetchDashboardData();
@@ -50,37 +61,19 @@ export default function MedicalDashboard() {
         }
     };
 
-    const getMoodLabel = (mood: string): string => {
-        const labels: { [key: string]: string } = {
-            very_happy: 'Very Happy',
-            happy: 'Happy',
-            neutral: 'Neutral',
-            sad: 'Sad',
-            very_sad: 'Very Sad',
-        };
-        return labels[mood] || mood;
-    };
+    const getMoodLabel = (mood: string): string => getMood(mood)?.label ?? mood;
 
-    const getMoodEmoji = (mood: string): string => {
-        const emojis: { [key: string]: string } = {
-            very_happy: '😊',
-            happy: '🙂',
-            neutral: '😐',
-            sad: '😔',
-            very_sad: '😢',
-        };
-        return emojis[mood] || '😐';
-    };
+    const getMoodEmoji = (mood: string): string => getMood(mood)?.emoji ?? '😐';
 
+    // Pleasant moods are green and unpleasant ones red, by their valence
     const getMoodColor = (mood: string): string => {
-        const colors: { [key: string]: string } = {
-            very_happy: 'bg-green-500',
-            happy: 'bg-blue-500',
-            neutral: 'bg-gray-500',
-            sad: 'bg-orange-500',
-            very_sad: 'bg-red-500',
-        };
-        return colors[mood] || 'bg-gray-500';
+        const valence = getMood(mood)?.valence;
+        if (valence === undefined) return 'bg-gray-500';
+        if (valence >= 0.5) return 'bg-green-500';
+        if (valence > 0) return 'bg-blue-500';
+        if (valence === 0) return 'bg-gray-500';
+        if (valence > -0.5) return 'bg-orange-500';
+        return 'bg-red-500';
     };
 
     if (isLoading || !overview || !analytics) {
@@ -95,6 +88,7 @@ export default function MedicalDashboard() {
     }
 
     const totalMoodEntries = Object.values(analytics.moodDistribution).reduce((a, b) => a + b, 0);
+    const emotions = Object.entries(analytics.emotionDistribution ?? {}).sort(([, a], [, b]) => b.count - a.count);
 
     return (
         <div className="container mx-auto p-6 max-w-7xl">
@@ -193,6 +187,33 @@ export default function MedicalDashboard() {
                 </CardContent>
             </Card>
 
+            {/* Emotions */}
+            {emotions.length > 0 && (
+                <Card className="mb-8">
+                    <CardHeader>
+                        <CardTitle>Emotions Felt</CardTitle>
+                        <CardDescription>
+                            Every emotion recorded in entries, with patients' own moods counted as their base mood
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                            {emotions.map(([mood, { count, averageIntensity }]) => (
+                                <div key={mood} className="rounded-lg border border-border p-4">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-2xl">{getMoodEmoji(mood)}</span>
+                                        <span className="font-medium">{getMoodLabel(mood)}</span>
+                                    </div>
+                                    <p className="mt-2 text-sm text-muted-foreground">
+                                        {count} times · {Math.round(averageIntensity * 100)}% average intensity
+                                    </p>
+                                </div>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Activity Timeline */}
             <Card>
                 <CardHeader>